@@ -0,0 +1,56 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildRecostJournalLines, buildValuationTieOut } from '../services/costing.service';
+import { validateLinesBalance } from '../services/journal.service';
+
+describe('Weighted Average Costing', () => {
+    describe('buildRecostJournalLines', () => {
+        const accounts = { consumption: '5010', inventory: '1300' };
+
+        it('should charge under-costed issues to consumption', () => {
+            const lines = buildRecostJournalLines(12500.456, accounts, 'RC-1');
+
+            expect(validateLinesBalance(lines).balanced).toBe(true);
+            expect(lines.find(l => l.account_code === '5010')?.debit).toBe(12500.46);
+            expect(lines.find(l => l.account_code === '1300')?.credit).toBe(12500.46);
+        });
+
+        it('should return over-costed issues to inventory', () => {
+            const lines = buildRecostJournalLines(-3000, accounts, 'RC-2');
+
+            expect(lines.find(l => l.account_code === '1300')?.debit).toBe(3000);
+            expect(lines.find(l => l.account_code === '5010')?.credit).toBe(3000);
+        });
+
+        it('should produce no lines when nothing changed', () => {
+            expect(buildRecostJournalLines(0.001, accounts, 'RC-3')).toEqual([]);
+        });
+    });
+
+    describe('buildValuationTieOut', () => {
+        const balances = [
+            { mapping_code: 'INVENTORY_RAW_MATERIALS', account_code: '1310', account_name: 'Raw Materials', balance: 1500000 },
+            { mapping_code: 'INVENTORY_FINISHED_GOODS', account_code: '1330', account_name: 'Finished Goods', balance: 2000000 },
+        ];
+
+        it('should tie item valuations to the mapped inventory accounts', () => {
+            const tieOut = buildValuationTieOut([
+                { item_type: 'RAW', item_id: 'm1', warehouse_id: 'w1', qty_on_hand: 100, inventory_value: 1000000 },
+                { item_type: 'RAW', item_id: 'm2', warehouse_id: 'w1', qty_on_hand: 10, inventory_value: 500000 },
+                { item_type: 'FG', item_id: 'v1', warehouse_id: 'w1', qty_on_hand: 20, inventory_value: 1950000.004 },
+            ], balances);
+
+            expect(tieOut).toEqual([
+                expect.objectContaining({ item_type: 'RAW', account_code: '1310', inventory_value: 1500000, difference: 0, tied: true }),
+                expect.objectContaining({ item_type: 'FG', account_code: '1330', inventory_value: 1950000, difference: -50000, tied: false }),
+            ]);
+        });
+
+        it('should report unmapped accounts with a zero GL balance', () => {
+            const [raw] = buildValuationTieOut([
+                { item_type: 'RAW', item_id: 'm1', warehouse_id: 'w1', qty_on_hand: 1, inventory_value: 100 },
+            ], []);
+
+            expect(raw).toEqual(expect.objectContaining({ account_code: null, gl_balance: 0, difference: 100 }));
+        });
+    });
+});
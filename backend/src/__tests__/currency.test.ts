@@ -0,0 +1,65 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+    buildRevaluationJournalLines,
+    buildRevaluationLines,
+    calculateRealizedFx,
+    convertToBase,
+} from '../services/currency.service';
+import { ValidationError } from '../services/error.service';
+import { validateLinesBalance } from '../services/journal.service';
+
+describe('Currency', () => {
+    describe('calculateRealizedFx', () => {
+        it('should report a loss when the rate rose between invoice and payment', () => {
+            expect(calculateRealizedFx(1000, 15500, 15800)).toBe(300000);
+            expect(calculateRealizedFx(1000, 15800, 15500)).toBe(-300000);
+        });
+
+        it('should realize nothing on base currency documents', () => {
+            expect(calculateRealizedFx(2500000, 1, 1)).toBe(0);
+            expect(convertToBase(2500000, 1)).toBe(2500000);
+        });
+    });
+
+    describe('buildRevaluationLines', () => {
+        it('should restate open amounts at the period-end rate', () => {
+            const lines = buildRevaluationLines([
+                { invoice_id: 'inv-1', currency: 'USD', open_amount: 10000, booked_rate: 15500 },
+                { invoice_id: 'inv-2', currency: 'CNY', open_amount: 5000, booked_rate: 2200 },
+                { invoice_id: 'inv-3', currency: 'USD', open_amount: 0, booked_rate: 15000 },
+            ], { USD: 15800, CNY: 2150 });
+
+            expect(lines).toHaveLength(2);
+            expect(lines[0]).toMatchObject({ booked_base_amount: 155000000, revalued_base_amount: 158000000, adjustment: 3000000 });
+            expect(lines[1].adjustment).toBe(-250000);
+        });
+
+        it('should require a rate for every currency', () => {
+            expect(() => buildRevaluationLines(
+                [{ invoice_id: 'inv-1', currency: 'EUR', open_amount: 100, booked_rate: 17000 }],
+                { USD: 15800 }
+            )).toThrow(ValidationError);
+        });
+    });
+
+    describe('buildRevaluationJournalLines', () => {
+        const accounts = { payable: '2010', fx: '6950' };
+        const line = (adjustment: number) => ({
+            invoice_id: 'inv', currency: 'USD', open_amount: 0, booked_rate: 0, revaluation_rate: 0,
+            booked_base_amount: 0, revalued_base_amount: 0, adjustment,
+        });
+
+        it('should debit unrealized FX on a net loss and credit it on a net gain', () => {
+            const loss = buildRevaluationJournalLines([line(3000000), line(-250000)], accounts, 'FX revaluation 2025-01');
+            expect(validateLinesBalance(loss).balanced).toBe(true);
+            expect(loss.map(l => [l.account_code, l.debit, l.credit])).toEqual([['6950', 2750000, 0], ['2010', 0, 2750000]]);
+
+            const gain = buildRevaluationJournalLines([line(-500000)], accounts, 'FX revaluation 2025-02');
+            expect(gain.map(l => [l.account_code, l.debit, l.credit])).toEqual([['2010', 500000, 0], ['6950', 0, 500000]]);
+        });
+
+        it('should post nothing when rates did not move', () => {
+            expect(buildRevaluationJournalLines([line(0)], accounts, 'FX revaluation 2025-03')).toEqual([]);
+        });
+    });
+});
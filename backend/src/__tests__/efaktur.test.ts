@@ -0,0 +1,148 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+    buildCoretaxXml,
+    buildEFakturCsv,
+    determineTransactionCode,
+    parseNsfpRange,
+    SalesInvoiceLineForExport,
+    TaxInvoiceDocument,
+    toTaxInvoiceLine,
+} from '../services/efaktur.service';
+import { ValidationError } from '../services/error.service';
+
+const line = (overrides: Partial<SalesInvoiceLineForExport> = {}): SalesInvoiceLineForExport => ({
+    line_number: 1,
+    qty_invoiced: 10,
+    unit_price: 100000,
+    discount_percentage: 0,
+    price_includes_tax: false,
+    taxable_amount: 1000000,
+    tax_base: 1000000,
+    tax_rate: 11,
+    tax_amount: 110000,
+    tax_code_id: 'tc-ppn11',
+    tax_code: { category: 'STANDARD', dpp_factor: 1 },
+    variant: { sku: 'TS-001-M', product: { name: 'Kaos Polos', unit_of_measure: 'PCS' } },
+    ...overrides,
+});
+
+const document = (overrides: Partial<TaxInvoiceDocument> = {}): TaxInvoiceDocument => ({
+    tax_invoice_id: 'ti-1',
+    reference: 'INV-2025-0001',
+    invoice_date: '2025-01-15',
+    transaction_code: '01',
+    nsfp: '0102500000001',
+    replacement_seq: 0,
+    buyer: { name: 'PT Maju Jaya', tax_id: '01.234.567.8-901.000', tax_id_type: 'NPWP', address: 'Jl. Sudirman 1, Jakarta' },
+    lines: [toTaxInvoiceLine(line())],
+    ...overrides,
+});
+
+describe('e-Faktur', () => {
+    describe('parseNsfpRange', () => {
+        it('should split formatted numbers into prefix, year and serials', () => {
+            expect(parseNsfpRange('010.25.00000001', '010.25.00000500')).toEqual({
+                prefix: '01025', tax_year: 2025, start_serial: 1, end_serial: 500,
+            });
+        });
+
+        it('should reject malformed and inconsistent ranges', () => {
+            expect(() => parseNsfpRange('010.25.0001', '010.25.00000500')).toThrow(ValidationError);
+            expect(() => parseNsfpRange('010.25.00000001', '010.26.00000500')).toThrow(ValidationError);
+            expect(() => parseNsfpRange('010.25.00000500', '010.25.00000001')).toThrow(ValidationError);
+        });
+    });
+
+    describe('determineTransactionCode', () => {
+        it('should use 04 for PPN on DPP nilai lain', () => {
+            expect(determineTransactionCode([{ category: 'STANDARD', dpp_factor: 0.91666667 }])).toBe('04');
+            expect(determineTransactionCode([{ category: 'STANDARD', dpp_factor: 1 }, null])).toBe('01');
+        });
+
+        it('should use 07 and 08 when no line is standard rated', () => {
+            expect(determineTransactionCode([{ category: 'ZERO_RATED', dpp_factor: 1 }])).toBe('07');
+            expect(determineTransactionCode([{ category: 'EXEMPT', dpp_factor: 1 }])).toBe('08');
+        });
+    });
+
+    describe('toTaxInvoiceLine', () => {
+        it('should report discounts so that total less discount is the taxable amount', () => {
+            const item = toTaxInvoiceLine(line({
+                discount_percentage: 10, taxable_amount: 900000, tax_base: 900000, tax_amount: 99000,
+            }));
+
+            expect(item).toMatchObject({
+                unit: 'UM.0021', unit_price: 100000, qty: 10, total_price: 1000000, discount: 100000,
+                taxable_amount: 900000, vat: 99000,
+            });
+        });
+
+        it('should convert PPN-inclusive prices to net unit prices', () => {
+            const item = toTaxInvoiceLine(line({
+                qty_invoiced: 2, unit_price: 55500, price_includes_tax: true,
+                taxable_amount: 100000, tax_base: 100000, tax_amount: 11000,
+            }));
+
+            expect(item.unit_price).toBe(50000);
+            expect(item.total_price - item.discount).toBe(item.taxable_amount);
+        });
+    });
+
+    describe('buildEFakturCsv', () => {
+        it('should write the FK, LT and OF headers then one FK row per faktur with its items', () => {
+            const rows = buildEFakturCsv([document()]).trim().split('\r\n');
+
+            expect(rows).toHaveLength(5);
+            expect(rows[3]).toBe(
+                '"FK","01","0","0102500000001","1","2025","15/01/2025","012345678901000","PT Maju Jaya",' +
+                '"Jl. Sudirman 1, Jakarta","1000000","110000","0","","0","0","0","0","INV-2025-0001",""'
+            );
+            expect(rows[4]).toBe('"OF","TS-001-M","Kaos Polos","100000","10","1000000","0","1000000","110000","0","0"');
+        });
+
+        it('should report buyers without NPWP by NIK and flag replacements', () => {
+            const csv = buildEFakturCsv([document({
+                replacement_seq: 1,
+                buyer: { name: 'Budi', tax_id: '3171234567890001', tax_id_type: 'NIK', address: null },
+            })]);
+
+            expect(csv).toContain('"FK","01","1","0102500000001","1","2025","15/01/2025","000000000000000","3171234567890001#NIK#NAMA#Budi"');
+        });
+
+        it('should refuse faktur without an NSFP', () => {
+            expect(() => buildEFakturCsv([document({ nsfp: null })])).toThrow(ValidationError);
+        });
+    });
+
+    describe('buildCoretaxXml', () => {
+        it('should pad 15-digit NPWPs and escape buyer data', () => {
+            const xml = buildCoretaxXml('01.111.222.3-444.000', [document({
+                buyer: { name: 'CV Toko <Baru> & Co', tax_id: '012345678901000', tax_id_type: 'NPWP', address: null },
+            })]);
+
+            expect(xml).toContain('<TIN>0011112223444000</TIN>');
+            expect(xml).toContain('<SellerIDTKU>0011112223444000000000</SellerIDTKU>');
+            expect(xml).toContain('<BuyerTin>0012345678901000</BuyerTin>');
+            expect(xml).toContain('<BuyerDocument>TIN</BuyerDocument>');
+            expect(xml).toContain('<BuyerName>CV Toko &lt;Baru&gt; &amp; Co</BuyerName>');
+            expect(xml).toContain('<TaxBase>1000000</TaxBase>');
+            expect(xml).toContain('<VAT>110000</VAT>');
+        });
+
+        it('should identify buyers without NPWP by their document', () => {
+            const xml = buildCoretaxXml('0011112223444000', [document({
+                buyer: { name: 'Budi', tax_id: '3171234567890001', tax_id_type: 'NIK', address: null },
+            })]);
+
+            expect(xml).toContain('<BuyerTin>0000000000000000</BuyerTin>');
+            expect(xml).toContain('<BuyerDocument>National ID</BuyerDocument>');
+            expect(xml).toContain('<BuyerDocumentNumber>3171234567890001</BuyerDocumentNumber>');
+        });
+
+        it('should export replacements as replacement faktur', () => {
+            expect(buildCoretaxXml('0011112223444000', [document()])).toContain('<TaxInvoiceOpt>Normal</TaxInvoiceOpt>');
+            expect(buildCoretaxXml('0011112223444000', [document({ replacement_seq: 1 })]))
+                .toContain('<TaxInvoiceOpt>Replacement</TaxInvoiceOpt>');
+        });
+    });
+});
@@ -0,0 +1,114 @@
+/**
+ * Integration Tests: Marketplace SKU Mappings
+ * Tests how resolve_marketplace_order_items splits a bundle's deal price across its components
+ */
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { supabaseServer } from '../../config/supabase';
+import { createTestCompany } from '../../utils/test-helpers';
+
+describe('Marketplace SKU Mapping Integration Tests', () => {
+    let companyId: string;
+    let accountId: string;
+    const variants: Record<string, string> = {};
+
+    beforeAll(async () => {
+        const company = await createTestCompany();
+        companyId = company.id;
+
+        const { data: product, error: productError } = await supabaseServer
+            .from('products')
+            .insert({ company_id: companyId, code: `PROD${Date.now()}`, name: 'Kaos Polos' })
+            .select()
+            .single();
+
+        if (productError) throw productError;
+
+        const { data: variantRows, error: variantError } = await supabaseServer
+            .from('product_variants')
+            .insert([
+                { company_id: companyId, product_id: product.id, sku: 'TEE-BLK-M', unit_price: 100000 },
+                { company_id: companyId, product_id: product.id, sku: 'CAP-BLK', unit_price: 50000 },
+                { company_id: companyId, product_id: product.id, sku: 'STICKER', unit_price: 0 },
+                { company_id: companyId, product_id: product.id, sku: 'PIN', unit_price: 0 },
+            ])
+            .select('id, sku');
+
+        if (variantError) throw variantError;
+        for (const variant of variantRows || []) variants[variant.sku] = variant.id;
+
+        const { data: account, error: accountError } = await supabaseServer
+            .from('marketplace_accounts')
+            .insert({ company_id: companyId, platform: 'Shopee', account_name: 'Test Shopee', shop_id: `SHOP${Date.now()}` })
+            .select()
+            .single();
+
+        if (accountError) throw accountError;
+        accountId = account.id;
+
+        const { error: mappingError } = await supabaseServer
+            .from('marketplace_sku_mappings')
+            .insert([
+                { company_id: companyId, account_id: accountId, external_sku: 'BUNDLE-TEE-CAP', product_variant_id: variants['TEE-BLK-M'], quantity: 2 },
+                { company_id: companyId, account_id: accountId, external_sku: 'BUNDLE-TEE-CAP', product_variant_id: variants['CAP-BLK'], quantity: 1 },
+                { company_id: companyId, account_id: accountId, external_sku: 'FREEBIES', product_variant_id: variants['STICKER'], quantity: 3 },
+                { company_id: companyId, account_id: accountId, external_sku: 'FREEBIES', product_variant_id: variants['PIN'], quantity: 1 },
+            ]);
+
+        if (mappingError) throw mappingError;
+    });
+
+    afterAll(async () => {
+        await supabaseServer.from('companies').delete().eq('id', companyId);
+    });
+
+    async function resolveItem(sku: string, quantity: number, dealPrice: number) {
+        const { data: order, error: orderError } = await supabaseServer
+            .from('marketplace_orders')
+            .insert({
+                company_id: companyId,
+                account_id: accountId,
+                external_order_id: `SP-${sku}-${Date.now()}`,
+                external_status: 'READY_TO_SHIP',
+                mapped_status: 'ready_to_ship',
+                order_date: '2025-03-10T08:00:00Z',
+            })
+            .select()
+            .single();
+
+        if (orderError) throw orderError;
+
+        const { data: item, error: itemError } = await supabaseServer
+            .from('marketplace_order_items')
+            .insert({ order_id: order.id, sku, product_name: sku, quantity, original_price: dealPrice, deal_price: dealPrice })
+            .select()
+            .single();
+
+        if (itemError) throw itemError;
+
+        const { data: unmapped, error } = await supabaseServer.rpc('resolve_marketplace_order_items', { p_order_id: order.id });
+        if (error) throw error;
+        expect(unmapped).toBe(0);
+
+        const { data: components } = await supabaseServer
+            .from('marketplace_order_item_components')
+            .select('product_variant_id, quantity, unit_price')
+            .eq('order_item_id', item.id);
+
+        return new Map((components || []).map(c => [c.product_variant_id, { quantity: Number(c.quantity), unit_price: Number(c.unit_price) }]));
+    }
+
+    it('should split a bundle deal price by variant list price', async () => {
+        // 2 bundles at 200,000: list value per bundle 2 x 100,000 + 50,000 = 250,000
+        const components = await resolveItem('BUNDLE-TEE-CAP', 2, 200000);
+
+        expect(components.get(variants['TEE-BLK-M'])).toEqual({ quantity: 4, unit_price: 80000 });
+        expect(components.get(variants['CAP-BLK'])).toEqual({ quantity: 2, unit_price: 40000 });
+    });
+
+    it('should split by quantity when the variants have no list price', async () => {
+        const components = await resolveItem('FREEBIES', 1, 10000);
+
+        expect(components.get(variants['STICKER'])).toEqual({ quantity: 3, unit_price: 2500 });
+        expect(components.get(variants['PIN'])).toEqual({ quantity: 1, unit_price: 2500 });
+    });
+});
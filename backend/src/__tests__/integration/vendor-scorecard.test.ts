@@ -0,0 +1,56 @@
+/**
+ * Integration Tests: Vendor Scorecards
+ * Tests the vendor_score weighting used by the scorecard view and ranking
+ */
+import { describe, it, expect } from '@jest/globals';
+import { supabaseServer } from '../../config/supabase';
+
+interface ScoreInput {
+    on_time: number | null;
+    fill_rate: number | null;
+    reject: number | null;
+    returned: number | null;
+    price_variance: number | null;
+}
+
+async function score(input: ScoreInput): Promise<number | null> {
+    const { data, error } = await supabaseServer.rpc('vendor_score', {
+        p_on_time_pct: input.on_time,
+        p_fill_rate_pct: input.fill_rate,
+        p_reject_pct: input.reject,
+        p_return_pct: input.returned,
+        p_price_variance_pct: input.price_variance,
+    });
+
+    if (error) throw error;
+    return data === null ? null : Number(data);
+}
+
+describe('Vendor Scorecard Integration Tests', () => {
+    it('should weight on-time 35, fill rate 25, rejects 20, returns 10 and price 10', async () => {
+        // (35*90 + 25*100 + 20*98 + 10*100 + 10*95) / 100
+        expect(await score({ on_time: 90, fill_rate: 100, reject: 2, returned: 0, price_variance: 1 })).toBe(95.6);
+    });
+
+    it('should cap over-delivery at a full fill rate', async () => {
+        expect(await score({ on_time: null, fill_rate: 120, reject: null, returned: null, price_variance: null })).toBe(100);
+    });
+
+    it('should penalize price variance in either direction, 5 points per percent', async () => {
+        const over = await score({ on_time: null, fill_rate: null, reject: null, returned: null, price_variance: 4 });
+        const under = await score({ on_time: null, fill_rate: null, reject: null, returned: null, price_variance: -4 });
+
+        expect(over).toBe(80);
+        expect(under).toBe(80);
+        expect(await score({ on_time: null, fill_rate: null, reject: null, returned: null, price_variance: 25 })).toBe(0);
+    });
+
+    it('should leave metrics without data out of the weighting', async () => {
+        // (35*80 + 10*90) / 45
+        expect(await score({ on_time: 80, fill_rate: null, reject: null, returned: null, price_variance: -2 })).toBe(82.2);
+    });
+
+    it('should return no score without any data', async () => {
+        expect(await score({ on_time: null, fill_rate: null, reject: null, returned: null, price_variance: null })).toBeNull();
+    });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from '@jest/globals';
+import { allocateLandedCost, buildLandedCostJournalLines, AllocationLine } from '../services/landed-cost.service';
+import { ValidationError } from '../services/error.service';
+import { validateLinesBalance } from '../services/journal.service';
+
+const line = (id: string, qty: number, value: number, weight: number | null): AllocationLine => ({
+    grn_id: 'grn-1',
+    grn_line_id: id,
+    material_id: `m-${id}`,
+    warehouse_id: 'w1',
+    qty_received: qty,
+    line_value: value,
+    weight,
+});
+
+describe('Landed Cost', () => {
+    describe('allocateLandedCost', () => {
+        const lines = [line('a', 100, 2000000, 60), line('b', 300, 1000000, 40)];
+
+        it('should allocate by value, quantity or weight', () => {
+            expect(allocateLandedCost(lines, 300000, 'value').map(a => a.allocated_amount)).toEqual([200000, 100000]);
+            expect(allocateLandedCost(lines, 300000, 'quantity').map(a => a.allocated_amount)).toEqual([75000, 225000]);
+            expect(allocateLandedCost(lines, 300000, 'weight').map(a => a.allocated_amount)).toEqual([180000, 120000]);
+        });
+
+        it('should give the rounding remainder to the largest line', () => {
+            const allocations = allocateLandedCost(
+                [line('a', 1, 100, null), line('b', 1, 100, null), line('c', 2, 100, null)],
+                100,
+                'quantity'
+            );
+
+            expect(allocations.map(a => a.allocated_amount)).toEqual([25, 25, 50]);
+            const thirds = allocateLandedCost([line('a', 1, 1, null), line('b', 1, 1, null), line('c', 1, 1, null)], 100, 'value');
+            expect(thirds.reduce((sum, a) => sum + a.allocated_amount, 0)).toBeCloseTo(100, 2);
+            expect(thirds[0].allocated_amount).toBe(33.34);
+        });
+
+        it('should reject weight allocation when a line has no weight', () => {
+            expect(() => allocateLandedCost([line('a', 1, 100, 5), line('b', 1, 100, null)], 100, 'weight'))
+                .toThrow(ValidationError);
+        });
+
+        it('should reject a basis that totals zero', () => {
+            expect(() => allocateLandedCost([line('a', 1, 0, 0)], 100, 'value')).toThrow(ValidationError);
+        });
+    });
+
+    describe('buildLandedCostJournalLines', () => {
+        const accounts = { inventory: '1210', wip: '1220', accrued: '2060' };
+
+        it('should split the debit between inventory and WIP against the accrual', () => {
+            const lines = buildLandedCostJournalLines({ capitalized: 750000, wip: 250000.004 }, accounts, 'LC-1');
+
+            expect(validateLinesBalance(lines).balanced).toBe(true);
+            expect(lines.find(l => l.account_code === '1210')?.debit).toBe(750000);
+            expect(lines.find(l => l.account_code === '1220')?.debit).toBe(250000);
+            expect(lines.find(l => l.account_code === '2060')?.credit).toBe(1000000);
+        });
+
+        it('should omit WIP when all stock is still on hand', () => {
+            const lines = buildLandedCostJournalLines({ capitalized: 5000, wip: 0 }, accounts, 'LC-2');
+
+            expect(lines.map(l => l.account_code)).toEqual(['1210', '2060']);
+        });
+    });
+});
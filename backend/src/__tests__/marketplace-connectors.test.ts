@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { createConnector, MarketplaceAuthError } from '../services/connectors';
+import type { MarketplaceConnector } from '../services/connectors';
+import type { ExternalOrder, MarketplacePlatform } from '../services/marketplace.service';
+import { FakeListing, FakeMarketplace, FakeOrder } from '../utils/fake-marketplace';
+
+const WINDOW = { updatedFrom: '2025-01-01T00:00:00.000Z', updatedTo: '2025-01-02T00:00:00.000Z' };
+
+function makeOrder(id: string, status: string, minute: number): FakeOrder {
+    const timestamp = new Date(Date.UTC(2025, 0, 1, 10, minute)).toISOString();
+    return {
+        id,
+        status,
+        created_at: timestamp,
+        updated_at: timestamp,
+        buyer: 'Budi',
+        total_amount: 150000,
+        shipping_fee: 10000,
+        items: [
+            { sku: 'TSHIRT-BLK-L', name: 'Kaos Polos', variation: 'Black L', quantity: 2, original_price: 75000, deal_price: 70000 },
+        ],
+    };
+}
+
+function makeListings(): FakeListing[] {
+    return [
+        { item_id: '100', variation_id: '1', sku: 'TSHIRT-BLK-M', name: 'Kaos Polos', stock: 5 },
+        { item_id: '100', variation_id: '2', sku: 'TSHIRT-BLK-L', name: 'Kaos Polos', stock: 3 },
+        { item_id: '200', variation_id: '3', sku: 'HOODIE-GRY-L', name: 'Hoodie', stock: 0 },
+    ];
+}
+
+async function fetchAll(connector: MarketplaceConnector, pageSize: number): Promise<ExternalOrder[]> {
+    const orders: ExternalOrder[] = [];
+    let cursor: string | null = null;
+    do {
+        const page = await connector.fetchOrders({ ...WINDOW, cursor, pageSize });
+        orders.push(...page.orders);
+        cursor = page.nextCursor;
+    } while (cursor);
+    return orders;
+}
+
+describe('Marketplace Connectors', () => {
+    const fake = new FakeMarketplace();
+    let baseUrl: string;
+
+    const connectorFor = (platform: MarketplacePlatform) => createConnector({
+        platform,
+        shop_id: '12345',
+        api_key: '2001',
+        api_secret: 'secret',
+        app_id: '15001',
+        access_token: fake.accessToken,
+        refresh_token: fake.refreshToken,
+        api_base_url: baseUrl,
+    });
+
+    beforeAll(async () => {
+        baseUrl = await fake.start();
+    });
+
+    afterAll(async () => {
+        await fake.stop();
+    });
+
+    beforeEach(() => {
+        fake.orders = {
+            Shopee: [makeOrder('SP-1', 'READY_TO_SHIP', 1), makeOrder('SP-2', 'COMPLETED', 2), makeOrder('SP-3', 'CANCELLED', 3)],
+            Tokopedia: [makeOrder('INV-1', '400', 1), makeOrder('INV-2', '700', 2), makeOrder('INV-3', '0', 3)],
+            TikTok: [makeOrder('TT-1', 'AWAITING_SHIPMENT', 1), makeOrder('TT-2', 'IN_TRANSIT', 2), makeOrder('TT-3', 'UNPAID', 3)],
+            Lazada: [makeOrder('LZ-1', 'ready_to_ship', 1), makeOrder('LZ-2', 'delivered', 2), makeOrder('LZ-3', 'returned', 3)],
+        };
+        fake.listings = {
+            Shopee: makeListings(),
+            // Tokopedia lists every variant as its own product
+            Tokopedia: makeListings().map(l => ({ ...l, item_id: `${l.item_id}${l.variation_id}`, variation_id: '0' })),
+            TikTok: makeListings(),
+            Lazada: makeListings(),
+        };
+    });
+
+    describe.each([
+        ['Shopee', ['ready_to_ship', 'delivered', 'cancelled']],
+        ['Tokopedia', ['ready_to_ship', 'delivered', 'cancelled']],
+        ['TikTok', ['ready_to_ship', 'in_transit', 'pending']],
+        ['Lazada', ['ready_to_ship', 'delivered', 'returned']],
+    ] as [MarketplacePlatform, string[]][])('%s', (platform, expectedStatuses) => {
+        it('should page through all orders in the window', async () => {
+            const orders = await fetchAll(connectorFor(platform), 2);
+
+            expect(orders).toHaveLength(3);
+            expect(orders.map(o => o.mapped_status)).toEqual(expectedStatuses);
+        });
+
+        it('should map items with grouped quantities', async () => {
+            const [order] = await fetchAll(connectorFor(platform), 50);
+
+            expect(order.total_amount).toBe(150000);
+            expect(order.items).toHaveLength(1);
+            expect(order.items[0].sku).toBe('TSHIRT-BLK-L');
+            expect(order.items[0].quantity).toBe(2);
+            expect(order.items[0].deal_price).toBe(70000);
+        });
+
+        it('should exclude orders updated outside the window', async () => {
+            const page = await connectorFor(platform).fetchOrders({
+                updatedFrom: '2025-01-02T00:00:00.000Z',
+                updatedTo: '2025-01-03T00:00:00.000Z',
+            });
+
+            expect(page.orders).toHaveLength(0);
+            expect(page.nextCursor).toBeNull();
+        });
+
+        it('should raise an auth error for an expired token and recover after refresh', async () => {
+            const connector = connectorFor(platform);
+            fake.expireToken();
+
+            await expect(connector.fetchOrders(WINDOW)).rejects.toBeInstanceOf(MarketplaceAuthError);
+
+            const tokens = await connector.refreshToken();
+            expect(tokens.access_token).toBe(fake.accessToken);
+            expect(new Date(tokens.token_expiry).getTime()).toBeGreaterThan(Date.now());
+
+            const page = await connector.fetchOrders(WINDOW);
+            expect(page.orders).toHaveLength(3);
+        });
+
+        it('should page through listings with marketplace stock', async () => {
+            const connector = connectorFor(platform);
+            const listings = [];
+            let cursor: string | null = null;
+            do {
+                const page = await connector.fetchListings(cursor, 1);
+                listings.push(...page.listings);
+                cursor = page.nextCursor;
+            } while (cursor);
+
+            expect(listings.map(l => [l.sku, l.quantity])).toEqual([
+                ['TSHIRT-BLK-M', 5],
+                ['TSHIRT-BLK-L', 3],
+                ['HOODIE-GRY-L', 0],
+            ]);
+        });
+
+        it('should update stock and report unknown listings per item', async () => {
+            const connector = connectorFor(platform);
+            const { listings } = await connector.fetchListings(null, 50);
+            const known = listings.find(l => l.sku === 'TSHIRT-BLK-L')!;
+
+            const results = await connector.updateStock([
+                { external_item_id: known.external_item_id, sku: known.sku, quantity: 12 },
+                { external_item_id: '999', sku: 'GONE', quantity: 1 },
+            ]);
+
+            expect(results.find(r => r.external_item_id === known.external_item_id)?.success).toBe(true);
+            expect(results.find(r => r.external_item_id !== known.external_item_id)?.success).toBe(false);
+            expect(fake.listings[platform].find(l => l.sku === 'TSHIRT-BLK-L')?.stock).toBe(12);
+        });
+    });
+
+    it('should reject unknown platforms', () => {
+        expect(() => createConnector({ platform: 'Blibli' as MarketplacePlatform, shop_id: '1' })).toThrow(
+            'No connector available for platform Blibli'
+        );
+    });
+});
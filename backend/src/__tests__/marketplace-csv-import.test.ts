@@ -0,0 +1,69 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseOrderCSV } from '../services/marketplace.service';
+
+describe('Marketplace CSV Import', () => {
+    describe('parseOrderCSV', () => {
+        const shopeeMap = {
+            order_id: 'No. Pesanan',
+            status: 'Status Pesanan',
+            order_date: 'Waktu Pesanan Dibuat',
+            sku: 'Nomor Referensi SKU',
+            quantity: 'Jumlah',
+            deal_price: 'Harga Setelah Diskon',
+            total_amount: 'Total Pembayaran',
+        };
+
+        it('should group rows by order ID into multi-item orders', () => {
+            const { orders, errors, rows } = parseOrderCSV([
+                { 'No. Pesanan': 'SP-1', 'Status Pesanan': 'COMPLETED', 'Waktu Pesanan Dibuat': '05-01-2026 10:30', 'Nomor Referensi SKU': 'TS-BLK-M', 'Jumlah': '2', 'Harga Setelah Diskon': 'Rp 75.000', 'Total Pembayaran': 'Rp 200.000' },
+                { 'No. Pesanan': 'SP-2', 'Status Pesanan': 'READY_TO_SHIP', 'Waktu Pesanan Dibuat': '', 'Nomor Referensi SKU': 'TS-WHT-L', 'Jumlah': '1', 'Harga Setelah Diskon': '80.000', 'Total Pembayaran': '80.000' },
+                { 'No. Pesanan': 'SP-1', 'Status Pesanan': 'COMPLETED', 'Waktu Pesanan Dibuat': '05-01-2026 10:30', 'Nomor Referensi SKU': 'TS-BLK-L', 'Jumlah': '1', 'Harga Setelah Diskon': 'Rp 50.000', 'Total Pembayaran': 'Rp 200.000' },
+            ], shopeeMap);
+
+            expect(errors).toEqual([]);
+            expect(orders).toHaveLength(2);
+
+            const [first] = orders;
+            expect(first.external_id).toBe('SP-1');
+            expect(first.total_amount).toBe(200000);
+            expect(first.items.map(i => [i.sku, i.quantity, i.deal_price])).toEqual([
+                ['TS-BLK-M', 2, 75000],
+                ['TS-BLK-L', 1, 50000],
+            ]);
+            expect(first.items.map(i => i.external_item_id)).toEqual(['SP-1-1', 'SP-1-2']);
+            expect(new Date(first.order_date).getDate()).toBe(5);
+            expect(rows['SP-1']).toEqual([2, 4]);
+        });
+
+        it('should sum item prices when there is no total column', () => {
+            const { orders } = parseOrderCSV([
+                { order_id: 'TK-1', sku: 'A', quantity: '2', deal_price: '10000' },
+                { order_id: 'TK-1', sku: 'B', quantity: '', deal_price: '5000' },
+            ]);
+
+            expect(orders[0].total_amount).toBe(25000);
+            expect(orders[0].items[1].quantity).toBe(1);
+        });
+
+        it('should report invalid rows and skip their orders', () => {
+            const { orders, errors } = parseOrderCSV([
+                { order_id: 'TK-1', sku: 'A', quantity: '1' },
+                { order_id: 'TK-1', sku: '', quantity: '1' },
+                { order_id: '', sku: 'B', quantity: '1' },
+                { order_id: 'TK-2', sku: 'C', quantity: 'two' },
+                { order_id: 'TK-3', sku: 'D', quantity: '1' },
+            ]);
+
+            expect(orders.map(o => o.external_id)).toEqual(['TK-3']);
+            expect(errors).toEqual([
+                { row: 3, order_id: 'TK-1', message: 'Missing SKU' },
+                { row: 4, message: 'Missing order ID' },
+                { row: 5, order_id: 'TK-2', message: "Invalid quantity 'two'" },
+            ]);
+        });
+
+        it('should reject files without mapped order ID or SKU columns', () => {
+            expect(() => parseOrderCSV([{ order_id: '1', item: 'A' }])).toThrow('missing column(s): sku');
+        });
+    });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { processMarketplaceReturn } from '../services/marketplace.service';
+import { createSalesReturn, postSalesReturn } from '../services/sales-return.service';
+import { getSalesOrder } from '../services/sales-distributor.service';
+import { mockSupabase } from '../utils/supabase-mock';
+
+jest.mock('../config/supabase', () => ({
+    supabaseServer: jest.requireActual<typeof import('../utils/supabase-mock')>('../utils/supabase-mock').mockSupabase.client,
+}));
+
+jest.mock('../services/sales-return.service', () => ({
+    ...jest.requireActual<typeof import('../services/sales-return.service')>('../services/sales-return.service'),
+    createSalesReturn: jest.fn(),
+    postSalesReturn: jest.fn(),
+}));
+
+jest.mock('../services/sales-distributor.service', () => ({
+    ...jest.requireActual<typeof import('../services/sales-distributor.service')>('../services/sales-distributor.service'),
+    getSalesOrder: jest.fn(),
+}));
+
+const mockCreateSalesReturn = jest.mocked(createSalesReturn);
+const mockPostSalesReturn = jest.mocked(postSalesReturn);
+const mockGetSalesOrder = jest.mocked(getSalesOrder);
+
+describe('Marketplace Returns', () => {
+    beforeEach(() => {
+        mockSupabase.reset();
+        mockSupabase.respond(call => {
+            if (call.table === 'marketplace_orders' && call.action === 'select') {
+                return { data: { id: 'mpo-1', company_id: 'company-1', so_id: 'so-1', external_order_id: 'SP-1', account: { warehouse_id: 'wh-1' } } };
+            }
+            if (call.table === 'accounting_periods') return { data: { id: 'period-1' } };
+            if (call.table === 'sales_return_lines') return { data: [] };
+            if (call.table === 'sales_returns' && call.action === 'select') return { count: 0 };
+            return {};
+        });
+
+        mockGetSalesOrder.mockResolvedValue({
+            id: 'so-1',
+            so_number: 'SO-SP-1',
+            customer_id: 'cust-1',
+            warehouse_id: 'wh-1',
+            lines: [{
+                id: 'sol-1',
+                line_number: 1,
+                product_variant_id: 'var-1',
+                qty_delivered: 2,
+                unit_price: 70000,
+                discount_percentage: 0,
+                variant: { sku: 'TS-BLK-M' },
+            }],
+        });
+        mockCreateSalesReturn.mockResolvedValue({ id: 'sr-1' } as Awaited<ReturnType<typeof createSalesReturn>>);
+    });
+
+    it('should post the return and mark the order returned', async () => {
+        mockPostSalesReturn.mockResolvedValue({ id: 'je-1', journal_number: 'JE-SR-SP-1' });
+
+        await expect(processMarketplaceReturn('mpo-1', 'Wrong size', 'user-1')).resolves.toBe('sr-1');
+
+        expect(mockCreateSalesReturn.mock.calls[0][0].return_number).toBe('SR-SP-1');
+        expect(mockCreateSalesReturn.mock.calls[0][1]).toEqual([expect.objectContaining({ so_line_id: 'sol-1', qty_returned: 2, disposition: 'QUARANTINE' })]);
+        expect(mockSupabase.calls.some(c => c.table === 'marketplace_orders' && c.action === 'update')).toBe(true);
+    });
+
+    it('should delete the draft return and leave the order open when posting fails', async () => {
+        mockPostSalesReturn.mockRejectedValue(new Error('No open bin'));
+
+        await expect(processMarketplaceReturn('mpo-1', 'Wrong size', 'user-1')).rejects.toThrow('No open bin');
+
+        const deleted = mockSupabase.calls.find(c => c.table === 'sales_returns' && c.action === 'delete');
+        expect(deleted?.filters).toEqual([['eq', 'id', 'sr-1'], ['eq', 'status', 'draft']]);
+        expect(mockSupabase.calls.some(c => c.table === 'marketplace_orders' && c.action === 'update')).toBe(false);
+    });
+});
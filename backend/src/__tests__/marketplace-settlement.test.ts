@@ -0,0 +1,106 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+    buildSettlementJournalLines,
+    classifyLine,
+    parseSettlementCSV,
+} from '../services/marketplace-settlement.service';
+import { validateLinesBalance } from '../services/journal.service';
+
+describe('Marketplace Settlement', () => {
+    describe('parseSettlementCSV', () => {
+        it('should map platform headers and Indonesian amounts', () => {
+            const lines = parseSettlementCSV([
+                {
+                    'No. Pesanan': 'SP-1',
+                    'Total Penjualan': 'Rp 150.000',
+                    'Biaya Komisi': '-7.500',
+                    'Biaya Layanan': '-3.000',
+                    'Ongkir Dibayar Penjual': '-5.000',
+                    'Total Penghasilan': 'Rp 134.500',
+                },
+            ]);
+
+            expect(lines).toEqual([{
+                external_order_id: 'SP-1',
+                amount_gross: 150000,
+                commission_fee: 7500,
+                service_fee: 3000,
+                payment_fee: 0,
+                shipping_subsidy: 5000,
+                amount_net: 134500,
+            }]);
+        });
+
+        it('should parse decimal amounts', () => {
+            const [line] = parseSettlementCSV([{ order_id: 'TT-1', gross: '1,250.50' }]);
+
+            expect(line.amount_gross).toBe(1250.5);
+            expect(line.amount_net).toBeUndefined();
+        });
+
+        it('should skip rows without an order ID', () => {
+            const lines = parseSettlementCSV([
+                { order_id: 'TT-1', gross: '100' },
+                { order_id: '', gross: '0' },
+            ]);
+
+            expect(lines).toHaveLength(1);
+        });
+
+        it('should reject files without required columns', () => {
+            expect(() => parseSettlementCSV([{ foo: '1' }])).toThrow('order ID and gross amount');
+        });
+    });
+
+    describe('classifyLine', () => {
+        it('should classify against the order total', () => {
+            expect(classifyLine(150000, null).match_status).toBe('unmatched');
+            expect(classifyLine(150000, 150000).match_status).toBe('matched');
+            expect(classifyLine(149999.995, 150000).match_status).toBe('matched');
+
+            const short = classifyLine(140000, 150000);
+            expect(short.match_status).toBe('short_paid');
+            expect(short.variance).toBe(10000);
+
+            expect(classifyLine(160000, 150000).match_status).toBe('over_paid');
+        });
+    });
+
+    describe('buildSettlementJournalLines', () => {
+        const accounts = { bank: '1020', receivable: '1100', fees: '6100', shipping: '6110', clearing: '2110' };
+
+        it('should produce a balanced journal clearing AR and booking deductions', () => {
+            const lines = buildSettlementJournalLines([
+                { amount_gross: 150000, commission_fee: 7500, service_fee: 3000, payment_fee: 0, shipping_subsidy: 5000, amount_net: 134500, match_status: 'matched' },
+                { amount_gross: 90000, commission_fee: 4500, service_fee: 0, payment_fee: 1000, shipping_subsidy: 0, amount_net: 84500, match_status: 'short_paid' },
+                { amount_gross: 50000, commission_fee: 2500, service_fee: 0, payment_fee: 0, shipping_subsidy: 0, amount_net: 47500, match_status: 'unmatched' },
+            ], accounts, 'PAYOUT-1');
+
+            expect(validateLinesBalance(lines).balanced).toBe(true);
+            expect(lines.find(l => l.account_code === '1020')?.debit).toBe(266500);
+            expect(lines.find(l => l.account_code === '6100')?.debit).toBe(18500);
+            expect(lines.find(l => l.account_code === '6110')?.debit).toBe(5000);
+            expect(lines.find(l => l.account_code === '1100')?.credit).toBe(240000);
+            expect(lines.find(l => l.account_code === '2110')?.credit).toBe(50000);
+        });
+
+        it('should clear AR only up to the open amount and hold the excess in clearing', () => {
+            const lines = buildSettlementJournalLines([
+                { amount_gross: 110000, commission_fee: 5000, service_fee: 0, payment_fee: 0, shipping_subsidy: 0, amount_net: 105000, match_status: 'over_paid', open_amount: 100000 },
+                { amount_gross: 40000, commission_fee: 0, service_fee: 0, payment_fee: 0, shipping_subsidy: 0, amount_net: 40000, match_status: 'matched', open_amount: 0 },
+            ], accounts, 'PAYOUT-3');
+
+            expect(validateLinesBalance(lines).balanced).toBe(true);
+            expect(lines.find(l => l.account_code === '1100')?.credit).toBe(100000);
+            expect(lines.find(l => l.account_code === '2110')?.credit).toBe(50000);
+        });
+
+        it('should omit zero lines', () => {
+            const lines = buildSettlementJournalLines([
+                { amount_gross: 100, commission_fee: 0, service_fee: 0, payment_fee: 0, shipping_subsidy: 0, amount_net: 100, match_status: 'matched' },
+            ], accounts, 'PAYOUT-2');
+
+            expect(lines.map(l => l.account_code)).toEqual(['1020', '1100']);
+        });
+    });
+});
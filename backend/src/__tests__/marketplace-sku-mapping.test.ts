@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { saveSKUMapping } from '../services/marketplace.service';
+import { addSOLine, createSalesOrder } from '../services/sales-distributor.service';
+import { ValidationError } from '../services/error.service';
+import { mockSupabase } from '../utils/supabase-mock';
+import type { MockSupabaseCall } from '../utils/supabase-mock';
+
+jest.mock('../config/supabase', () => ({
+    supabaseServer: jest.requireActual<typeof import('../utils/supabase-mock')>('../utils/supabase-mock').mockSupabase.client,
+}));
+
+jest.mock('../services/sales-distributor.service', () => ({
+    ...jest.requireActual<typeof import('../services/sales-distributor.service')>('../services/sales-distributor.service'),
+    createSalesOrder: jest.fn(),
+    addSOLine: jest.fn(),
+}));
+
+const mockCreateSalesOrder = jest.mocked(createSalesOrder);
+const mockAddSOLine = jest.mocked(addSOLine);
+
+// Review queue: SP-1 holds the bundle now mapped to two variants, SP-2 still has an unmapped item
+const orders: Record<string, unknown> = {
+    'mpo-1': {
+        id: 'mpo-1',
+        company_id: 'company-1',
+        external_order_id: 'SP-1',
+        order_date: '2025-03-10T08:00:00Z',
+        account: { warehouse_id: 'wh-1', platform: 'Shopee' },
+        items: [{
+            sku: 'BUNDLE-TEE-CAP',
+            mapping_status: 'mapped',
+            components: [
+                { product_variant_id: 'var-tee', quantity: 4, unit_price: 80000 },
+                { product_variant_id: 'var-cap', quantity: 2, unit_price: 40000 },
+            ],
+        }],
+    },
+    'mpo-2': {
+        id: 'mpo-2',
+        company_id: 'company-1',
+        external_order_id: 'SP-2',
+        order_date: '2025-03-10T09:00:00Z',
+        account: { warehouse_id: 'wh-1', platform: 'Shopee' },
+        items: [
+            { sku: 'BUNDLE-TEE-CAP', mapping_status: 'mapped', components: [{ product_variant_id: 'var-tee', quantity: 2, unit_price: 80000 }] },
+            { sku: 'SOCKS-3', mapping_status: 'unmapped', components: [] },
+        ],
+    },
+};
+
+const isSingle = (call: MockSupabaseCall) => call.filters.some(([method]) => method === 'single');
+const idFilter = (call: MockSupabaseCall) => call.filters.find(([method, column]) => method === 'eq' && column === 'id')?.[2] as string;
+
+describe('Marketplace SKU Mapping', () => {
+    beforeEach(() => {
+        mockSupabase.reset();
+        mockCreateSalesOrder.mockReset();
+        mockAddSOLine.mockReset();
+    });
+
+    describe('saveSKUMapping validation', () => {
+        it.each([
+            ['no components', [], 'at least one variant'],
+            ['duplicate variants', [{ product_variant_id: 'var-tee' }, { product_variant_id: 'var-tee', quantity: 2 }], 'only once'],
+            ['a zero quantity', [{ product_variant_id: 'var-tee', quantity: 0 }], 'must be positive'],
+            ['a negative quantity', [{ product_variant_id: 'var-tee', quantity: -1 }], 'must be positive'],
+        ])('should reject %s before touching the mapping', async (_case, components, message) => {
+            const result = saveSKUMapping('company-1', 'acct-1', 'BUNDLE-TEE-CAP', components, 'user-1');
+
+            await expect(result).rejects.toThrow(ValidationError);
+            await expect(result).rejects.toThrow(message);
+            expect(mockSupabase.calls).toEqual([]);
+        });
+    });
+
+    describe('saveSKUMapping', () => {
+        beforeEach(() => {
+            mockSupabase.respond(call => {
+                if (call.action === 'rpc') return { data: 2 };
+                if (call.table === 'marketplace_orders' && call.action === 'select') {
+                    return isSingle(call)
+                        ? { data: orders[idFilter(call)] }
+                        : { data: [{ id: 'mpo-1', items: [] }, { id: 'mpo-2', items: [] }] };
+                }
+                if (call.table === 'customers') return { data: { id: 'cust-marketplace' } };
+                if (call.table === 'accounting_periods') return { data: { id: 'period-1' } };
+                return {};
+            });
+            mockCreateSalesOrder.mockResolvedValue({ id: 'so-1' } as Awaited<ReturnType<typeof createSalesOrder>>);
+        });
+
+        it('should replace the mapping with one row per component', async () => {
+            await saveSKUMapping('company-1', 'acct-1', 'BUNDLE-TEE-CAP', [
+                { product_variant_id: 'var-tee', quantity: 2 },
+                { product_variant_id: 'var-cap' },
+            ], 'user-1', 'Paket Kaos + Topi');
+
+            const [removed, saved] = mockSupabase.calls;
+            expect(removed).toEqual(expect.objectContaining({ table: 'marketplace_sku_mappings', action: 'delete' }));
+            expect(saved.action).toBe('insert');
+            expect(saved.payload).toEqual([
+                expect.objectContaining({ external_sku: 'BUNDLE-TEE-CAP', product_variant_id: 'var-tee', quantity: 2, listing_name: 'Paket Kaos + Topi' }),
+                expect.objectContaining({ external_sku: 'BUNDLE-TEE-CAP', product_variant_id: 'var-cap', quantity: 1 }),
+            ]);
+            expect(mockSupabase.calls[2]).toEqual(expect.objectContaining({
+                table: 'apply_marketplace_sku_mapping',
+                payload: { p_account_id: 'acct-1', p_external_sku: 'BUNDLE-TEE-CAP' },
+            }));
+        });
+
+        it('should convert waiting orders that are now fully mapped, one SO line per bundle component', async () => {
+            const result = await saveSKUMapping('company-1', 'acct-1', 'BUNDLE-TEE-CAP', [
+                { product_variant_id: 'var-tee', quantity: 2 },
+                { product_variant_id: 'var-cap' },
+            ], 'user-1');
+
+            expect(result).toEqual({ resolved: 2, converted: 1 });
+
+            const waiting = mockSupabase.calls.find(c => c.table === 'marketplace_orders' && c.action === 'select' && !isSingle(c));
+            expect(waiting?.filters).toEqual(expect.arrayContaining([
+                ['eq', 'account_id', 'acct-1'],
+                ['is', 'so_id', null],
+                ['eq', 'items.sku', 'BUNDLE-TEE-CAP'],
+            ]));
+
+            expect(mockCreateSalesOrder).toHaveBeenCalledTimes(1);
+            expect(mockCreateSalesOrder.mock.calls[0][0]).toEqual(expect.objectContaining({ so_number: 'SO-SP-1', customer_id: 'cust-marketplace' }));
+            expect(mockAddSOLine.mock.calls.map(([line]) => [line.product_variant_id, line.qty_ordered, line.unit_price])).toEqual([
+                ['var-tee', 4, 80000],
+                ['var-cap', 2, 40000],
+            ]);
+
+            const outcomes = mockSupabase.calls
+                .filter(c => c.table === 'marketplace_orders' && c.action === 'update')
+                .map(c => [idFilter(c), (c.payload as { sync_status: string }).sync_status]);
+            expect(outcomes).toEqual([['mpo-1', 'synced'], ['mpo-2', 'failed']]);
+        });
+    });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { processStockPushQueue, scheduleStockPushQueue } from '../services/marketplace-stock.service';
+import { mockSupabase } from '../utils/supabase-mock';
+import type { MockSupabaseCall } from '../utils/supabase-mock';
+
+jest.mock('../config/supabase', () => ({
+    supabaseServer: jest.requireActual<typeof import('../utils/supabase-mock')>('../utils/supabase-mock').mockSupabase.client,
+}));
+
+const queued = [
+    { company_id: 'company-1', product_variant_id: 'var-tee', queued_at: '2025-03-10T08:00:00Z' },
+    { company_id: 'company-1', product_variant_id: 'var-cap', queued_at: '2025-03-10T08:05:00Z' },
+];
+
+const queueReads = () => mockSupabase.calls.filter(c => c.table === 'marketplace_stock_queue' && c.action === 'select');
+const queueDeletes = () => mockSupabase.calls.filter(c => c.table === 'marketplace_stock_queue' && c.action === 'delete');
+const isSingle = (call: MockSupabaseCall) => call.filters.some(([method]) => method === 'single');
+
+describe('Marketplace Stock Push Queue', () => {
+    let log: ReturnType<typeof jest.spyOn>;
+
+    beforeEach(() => {
+        mockSupabase.reset();
+        log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        log.mockRestore();
+    });
+
+    describe('processStockPushQueue', () => {
+        it('should consume the entries it read when no account auto-syncs stock', async () => {
+            mockSupabase.respond(call => call.table === 'marketplace_stock_queue' && call.action === 'select'
+                ? { data: queued }
+                : { data: [] });
+
+            await expect(processStockPushQueue()).resolves.toEqual({});
+
+            expect(queueDeletes().map(c => c.filters)).toEqual([
+                [['eq', 'company_id', 'company-1'], ['eq', 'product_variant_id', 'var-tee'], ['lte', 'queued_at', '2025-03-10T08:00:00Z']],
+                [['eq', 'company_id', 'company-1'], ['eq', 'product_variant_id', 'var-cap'], ['lte', 'queued_at', '2025-03-10T08:05:00Z']],
+            ]);
+        });
+
+        it('should keep the entries queued when an account fails to push', async () => {
+            mockSupabase.respond(call => {
+                if (call.table === 'marketplace_stock_queue') return { data: queued };
+                if (call.table === 'marketplace_accounts') {
+                    return isSingle(call) ? { data: null, error: { message: 'Row not found' } } : { data: [{ id: 'acct-1' }] };
+                }
+                return { data: [] };
+            });
+
+            await expect(processStockPushQueue()).resolves.toEqual({});
+
+            expect(queueDeletes()).toEqual([]);
+            expect(log).toHaveBeenCalledWith(expect.stringContaining('[ERROR]'), 'Stock push failed for account acct-1', expect.anything());
+        });
+    });
+
+    describe('scheduleStockPushQueue', () => {
+        beforeEach(() => {
+            jest.useFakeTimers();
+        });
+
+        afterEach(() => {
+            jest.useRealTimers();
+        });
+
+        it('should drain the queue on every tick until stopped', async () => {
+            const stop = scheduleStockPushQueue(30_000);
+
+            await jest.advanceTimersByTimeAsync(29_999);
+            expect(queueReads()).toHaveLength(0);
+
+            await jest.advanceTimersByTimeAsync(60_001);
+            expect(queueReads()).toHaveLength(3);
+
+            stop();
+            await jest.advanceTimersByTimeAsync(90_000);
+            expect(queueReads()).toHaveLength(3);
+        });
+
+        it('should log a failed run and retry on the next tick', async () => {
+            mockSupabase.respond(() => ({ error: new Error('connection reset') }));
+            const stop = scheduleStockPushQueue(30_000);
+
+            await jest.advanceTimersByTimeAsync(60_000);
+            stop();
+
+            expect(queueReads()).toHaveLength(2);
+            expect(log).toHaveBeenCalledWith(expect.stringContaining('[ERROR]'), 'Stock push queue run failed', expect.stringContaining('connection reset'));
+        });
+    });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from '@jest/globals';
+import { planStockUpdates } from '../services/marketplace-stock.service';
+import type { AvailableStock, MarketplaceListing } from '../services/marketplace-stock.service';
+
+describe('Marketplace Stock Push', () => {
+    describe('planStockUpdates', () => {
+        const listing = (id: string, sku: string | null, qty: number | null): MarketplaceListing => ({
+            id: `listing-${id}`,
+            account_id: 'acct-1',
+            external_item_id: id,
+            external_sku: sku,
+            marketplace_qty: qty,
+        });
+
+        const stock: AvailableStock[] = [
+            { external_sku: 'TS-BLK-M', on_hand: 20, reserved: 3, safety_buffer: 2, available: 15 },
+            { external_sku: 'TS-WHT-L', on_hand: 4, reserved: 1, safety_buffer: 2, available: 1 },
+            { external_sku: 'BUNDLE-3', on_hand: 2, reserved: 2, safety_buffer: 2, available: 0 },
+        ];
+
+        it('should only push listings whose marketplace quantity differs', () => {
+            const { updates, skipped } = planStockUpdates([
+                listing('1:1', 'TS-BLK-M', 10),
+                listing('1:2', 'TS-WHT-L', 1),
+                listing('2:0', 'BUNDLE-3', null),
+            ], stock);
+
+            expect(updates.map(u => [u.external_item_id, u.sku, u.quantity])).toEqual([
+                ['1:1', 'TS-BLK-M', 15],
+                ['2:0', 'BUNDLE-3', 0],
+            ]);
+            expect(updates[0].stock.reserved).toBe(3);
+            expect(skipped).toBe(1);
+        });
+
+        it('should skip listings without a matching SKU even when forced', () => {
+            const { updates, skipped } = planStockUpdates([
+                listing('1:1', 'TS-BLK-M', 15),
+                listing('3:0', null, 7),
+                listing('4:0', 'UNKNOWN', 7),
+            ], stock, true);
+
+            expect(updates.map(u => u.external_item_id)).toEqual(['1:1']);
+            expect(skipped).toBe(2);
+        });
+    });
+});
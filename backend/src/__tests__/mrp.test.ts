@@ -0,0 +1,80 @@
+import { describe, it, expect } from '@jest/globals';
+import { MRPPlannedOrder, MRPScheduledReceipt, summarizeMRPRun } from '../services/mrp.service';
+
+const plannedOrder = (overrides: Partial<MRPPlannedOrder>): MRPPlannedOrder => ({
+    id: 'plan-1',
+    run_id: 'run-1',
+    order_type: 'make',
+    material_id: null,
+    product_id: 'tshirt',
+    bom_id: 'bom-tshirt',
+    vendor_id: null,
+    qty: 180,
+    net_requirement: 180,
+    release_date: '2025-03-03',
+    due_date: '2025-03-10',
+    is_late: false,
+    status: 'open',
+    ...overrides,
+});
+
+const receipt = (overrides: Partial<MRPScheduledReceipt>): MRPScheduledReceipt => ({
+    id: 'receipt-1',
+    run_id: 'run-1',
+    material_id: 'fabric',
+    product_id: null,
+    source_type: 'purchase_order',
+    purchase_order_id: 'po-1',
+    po_line_id: 'po-line-1',
+    production_order_id: null,
+    document_number: 'PO-0101',
+    receipt_date: '2025-03-05',
+    qty: 200,
+    qty_needed: 200,
+    needed_date: '2025-03-05',
+    action: null,
+    action_status: null,
+    ...overrides,
+});
+
+describe('MRP', () => {
+    describe('summarizeMRPRun', () => {
+        it('should count planned orders by type and late releases', () => {
+            const summary = summarizeMRPRun({
+                planned_orders: [
+                    plannedOrder({}),
+                    plannedOrder({ id: 'plan-2', order_type: 'buy', product_id: null, bom_id: null, material_id: 'fabric', is_late: true }),
+                    plannedOrder({ id: 'plan-3', order_type: 'buy', product_id: null, bom_id: null, material_id: 'thread' }),
+                ],
+                receipts: [],
+            });
+
+            expect(summary).toMatchObject({ buy_orders: 2, make_orders: 1, late_orders: 1, open_items: 3 });
+        });
+
+        it('should count action messages and ignore receipts arriving on time', () => {
+            const summary = summarizeMRPRun({
+                planned_orders: [],
+                receipts: [
+                    receipt({}),
+                    receipt({ id: 'receipt-2', needed_date: '2025-03-01', action: 'expedite', action_status: 'open' }),
+                    receipt({ id: 'receipt-3', needed_date: '2025-03-20', action: 'defer', action_status: 'dismissed' }),
+                    receipt({ id: 'receipt-4', qty_needed: 0, needed_date: null, action: 'cancel', action_status: 'open' }),
+                ],
+            });
+
+            expect(summary).toEqual({
+                buy_orders: 0, make_orders: 0, late_orders: 0, expedite: 1, defer: 1, cancel: 1, open_items: 2,
+            });
+        });
+
+        it('should leave worked-off items out of the open count', () => {
+            const summary = summarizeMRPRun({
+                planned_orders: [plannedOrder({ status: 'done' }), plannedOrder({ id: 'plan-2', status: 'dismissed' })],
+                receipts: [receipt({ action: 'cancel', action_status: 'done', qty_needed: 0 })],
+            });
+
+            expect(summary.open_items).toBe(0);
+        });
+    });
+});
@@ -0,0 +1,192 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+    BOMExplosionRow,
+    BOMRoutingStep,
+    WorkCenterLoadDay,
+    routingStepMinutes,
+    summarizeBOMRequirements,
+    summarizeOverloads,
+    validateRoutingSteps,
+    validateVariantMix,
+} from '../services/production.service';
+
+const row = (overrides: Partial<BOMExplosionRow>): BOMExplosionRow => ({
+    level_num: 1,
+    sort_path: '0001',
+    bom_id: 'bom-tshirt',
+    bom_line_id: 'line-1',
+    parent_product_id: 'tshirt',
+    material_id: null,
+    material_code: null,
+    material_name: null,
+    component_product_id: null,
+    product_code: null,
+    product_name: null,
+    qty_per: 1,
+    total_qty: 100,
+    scrap_percentage: 0,
+    stage: null,
+    uom: 'PCS',
+    component_bom_id: null,
+    is_phantom: false,
+    is_requirement: true,
+    is_variant_specific: false,
+    ...overrides,
+});
+
+describe('Multi-level BOM', () => {
+    describe('summarizeBOMRequirements', () => {
+        it('should sum materials reached directly and through phantom sub-assemblies', () => {
+            const rows = [
+                row({ sort_path: '0001', material_id: 'fabric', material_code: 'FAB-01', material_name: 'Jersey', uom: 'M', total_qty: 50 }),
+                row({
+                    sort_path: '0002', bom_line_id: 'line-2', component_product_id: 'front', product_code: 'FRONT-PRT',
+                    product_name: 'Printed front', component_bom_id: 'bom-front', is_phantom: true, is_requirement: false,
+                }),
+                row({
+                    level_num: 2, sort_path: '0002.0001', bom_id: 'bom-front', bom_line_id: 'line-3', parent_product_id: 'front',
+                    material_id: 'fabric', material_code: 'FAB-01', material_name: 'Jersey', uom: 'M', total_qty: 31.5,
+                }),
+                row({
+                    level_num: 2, sort_path: '0002.0002', bom_id: 'bom-front', bom_line_id: 'line-4', parent_product_id: 'front',
+                    material_id: 'ink', material_code: 'INK-01', material_name: 'Plastisol ink', uom: 'KG', total_qty: 2,
+                }),
+            ];
+
+            expect(summarizeBOMRequirements(rows)).toEqual([
+                { material_id: 'fabric', component_product_id: null, code: 'FAB-01', name: 'Jersey', uom: 'M', total_qty: 81.5 },
+                { material_id: 'ink', component_product_id: null, code: 'INK-01', name: 'Plastisol ink', uom: 'KG', total_qty: 2 },
+            ]);
+        });
+
+        it('should require stocked sub-assemblies but not their components', () => {
+            const rows = [
+                row({
+                    component_product_id: 'patch', product_code: 'PATCH-EMB', product_name: 'Embroidered patch',
+                    component_bom_id: 'bom-patch',
+                }),
+                row({
+                    level_num: 2, sort_path: '0001.0001', bom_id: 'bom-patch', bom_line_id: 'line-2', parent_product_id: 'patch',
+                    material_id: 'thread', material_code: 'THR-01', material_name: 'Thread', total_qty: 12, is_requirement: false,
+                }),
+            ];
+
+            const requirements = summarizeBOMRequirements(rows);
+
+            expect(requirements).toHaveLength(1);
+            expect(requirements[0]).toMatchObject({ component_product_id: 'patch', code: 'PATCH-EMB', total_qty: 100 });
+        });
+    });
+});
+
+describe('Variant matrix BOM', () => {
+    describe('validateVariantMix', () => {
+        it('should accept a size / color mix', () => {
+            expect(validateVariantMix([
+                { product_variant_id: 's-black', qty_planned: 40 },
+                { product_variant_id: 'xxl-white', qty_planned: 60 },
+            ])).toEqual([]);
+        });
+
+        it('should reject zero quantities and repeated variants', () => {
+            const errors = validateVariantMix([
+                { product_variant_id: 's-black', qty_planned: 40 },
+                { product_variant_id: 's-black', qty_planned: 0 },
+            ]);
+
+            expect(errors).toEqual([
+                'Variant quantities must be greater than zero',
+                'Each variant can only appear once in the mix',
+            ]);
+        });
+    });
+});
+
+describe('Work center scheduling', () => {
+    const day = (overrides: Partial<WorkCenterLoadDay>): WorkCenterLoadDay => ({
+        work_center_id: 'sew-01',
+        work_center_code: 'SEW-01',
+        work_center_name: 'Sewing Line 1',
+        load_date: '2025-03-10',
+        capacity_minutes: 480,
+        loaded_minutes: 0,
+        is_overloaded: false,
+        ...overrides,
+    });
+
+    describe('summarizeOverloads', () => {
+        it('should list days loaded beyond capacity, worst work center first', () => {
+            const overloads = summarizeOverloads([
+                day({ loaded_minutes: 600, is_overloaded: true }),
+                day({ load_date: '2025-03-11', loaded_minutes: 480 }),
+                day({ load_date: '2025-03-12', loaded_minutes: 510, is_overloaded: true }),
+                day({ work_center_id: 'cut-01', work_center_code: 'CUT-01', loaded_minutes: 900, is_overloaded: true }),
+            ]);
+
+            expect(overloads).toEqual([
+                { work_center_id: 'cut-01', work_center_code: 'CUT-01', days: [{ load_date: '2025-03-10', excess_minutes: 420 }], excess_minutes: 420 },
+                {
+                    work_center_id: 'sew-01',
+                    work_center_code: 'SEW-01',
+                    days: [
+                        { load_date: '2025-03-10', excess_minutes: 120 },
+                        { load_date: '2025-03-12', excess_minutes: 30 },
+                    ],
+                    excess_minutes: 150,
+                },
+            ]);
+        });
+
+        it('should count any load on a closed day as overload', () => {
+            const overloads = summarizeOverloads([day({ load_date: '2025-03-16', capacity_minutes: 0, loaded_minutes: 60, is_overloaded: true })]);
+
+            expect(overloads[0].excess_minutes).toBe(60);
+        });
+    });
+});
+
+describe('BOM routings', () => {
+    const step = (overrides: Partial<BOMRoutingStep>): BOMRoutingStep => ({
+        sequence: 10,
+        operation_id: 'cutting',
+        stage: 'CUT',
+        setup_minutes: 30,
+        run_minutes: 2,
+        ...overrides,
+    });
+
+    describe('validateRoutingSteps', () => {
+        it('should accept operations moving forward through the stages', () => {
+            expect(validateRoutingSteps([
+                step({ sequence: 30, operation_id: 'packing', stage: 'FINISH', run_minutes: null }),
+                step({}),
+                step({ sequence: 20, operation_id: 'stitching', stage: 'SEW' }),
+                step({ sequence: 25, operation_id: 'buttonholes', stage: 'SEW' }),
+            ])).toEqual([]);
+        });
+
+        it('should reject repeated sequences, negative times and stages going backwards', () => {
+            const errors = validateRoutingSteps([
+                step({ stage: 'SEW' }),
+                step({ operation_id: 'stitching', stage: 'SEW', setup_minutes: -5 }),
+                step({ sequence: 20, operation_id: 'recut', stage: 'CUT' }),
+            ]);
+
+            expect(errors).toEqual([
+                'Each sequence can only be used once',
+                'Setup and run times cannot be negative',
+                'Stages must follow the routing order (CUT, SEW, FINISH)',
+            ]);
+        });
+    });
+
+    describe('routingStepMinutes', () => {
+        it('should add setup once to the run time per unit', () => {
+            expect(routingStepMinutes(step({}), 200)).toBe(430);
+        });
+
+        it('should fall back to the operation standard time without a run time', () => {
+            expect(routingStepMinutes(step({ setup_minutes: 0, run_minutes: null }), 200, 1.5)).toBe(300);
+        });
+    });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildPurchaseReturnJournalLines } from '../services/purchase-return.service';
+import { validateLinesBalance } from '../services/journal.service';
+
+describe('Purchase Return', () => {
+    describe('buildPurchaseReturnJournalLines', () => {
+        const accounts = { payable: '2100', inventory: '1210', vatInput: '1410', priceVariance: '5150' };
+
+        it('should reverse AP, inventory and input VAT at the received cost', () => {
+            const lines = buildPurchaseReturnJournalLines(
+                { subtotal: 1920000, tax_amount: 211200, total_cost: 1920000 },
+                accounts
+            );
+
+            expect(validateLinesBalance(lines).balanced).toBe(true);
+            expect(lines.find(l => l.account_code === '2100')?.debit).toBe(2131200);
+            expect(lines.find(l => l.account_code === '1210')?.credit).toBe(1920000);
+            expect(lines.find(l => l.account_code === '1410')?.credit).toBe(211200);
+            expect(lines.find(l => l.account_code === '5150')).toBeUndefined();
+        });
+
+        it('should convert foreign currency returns and book the cost difference as price variance', () => {
+            // USD 100 returned at 15,800; received at 15,500 per unit of USD
+            const lines = buildPurchaseReturnJournalLines(
+                { subtotal: 100, tax_amount: 0, total_cost: 1550000, exchange_rate: 15800 },
+                accounts
+            );
+
+            expect(validateLinesBalance(lines).balanced).toBe(true);
+            expect(lines.find(l => l.account_code === '2100')?.debit).toBe(1580000);
+            expect(lines.find(l => l.account_code === '5150')?.credit).toBe(30000);
+        });
+    });
+});
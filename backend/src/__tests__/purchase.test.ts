@@ -0,0 +1,253 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+    buildVendorInvoiceJournalLines,
+    buildVendorPaymentJournalLines,
+    DEFAULT_MATCH_TOLERANCE,
+    getGRNInspectionStatus,
+    getInvoiceMatchStatus,
+    getVendorInvoicePostingAmounts,
+    LineMatchInput,
+    MatchException,
+    matchInvoiceLine,
+    reconcileMatchExceptions,
+    validateGRNInspection,
+} from '../services/purchase.service';
+import { validateLinesBalance } from '../services/journal.service';
+import { convertToBase } from '../services/currency.service';
+
+const approved: MatchException = {
+    id: 'exc-1',
+    company_id: 'company-1',
+    invoice_id: 'inv-1',
+    invoice_line_id: 'inv-line-1',
+    exception_type: 'PRICE',
+    expected_value: 50000,
+    actual_value: 55000,
+    variance_amount: 500000,
+    variance_pct: 10,
+    tolerance_pct: 5,
+    status: 'approved',
+    resolved_by: 'user-1',
+    resolved_at: '2025-01-20T08:00:00Z',
+    resolution_notes: 'Agreed surcharge',
+};
+
+const matched: LineMatchInput = {
+    qty_invoiced: 100,
+    unit_price: 50000,
+    uninvoiced_received_qty: 100,
+    uninvoiced_ordered_qty: 100,
+    reference_price: 50000,
+};
+
+describe('Three-Way Match', () => {
+    describe('matchInvoiceLine', () => {
+        it('should accept a line matching PO and GRN', () => {
+            expect(matchInvoiceLine(matched, DEFAULT_MATCH_TOLERANCE)).toEqual([]);
+        });
+
+        it('should accept partial invoices and price differences within tolerance', () => {
+            expect(matchInvoiceLine({ ...matched, qty_invoiced: 40, unit_price: 52000 }, DEFAULT_MATCH_TOLERANCE)).toEqual([]);
+        });
+
+        it('should flag quantities invoiced beyond received and ordered', () => {
+            const exceptions = matchInvoiceLine(
+                { ...matched, qty_invoiced: 120, uninvoiced_received_qty: 100, uninvoiced_ordered_qty: 110 },
+                { ...DEFAULT_MATCH_TOLERANCE, qty_tolerance_pct: 5 }
+            );
+
+            expect(exceptions.map(e => e.exception_type)).toEqual(['QTY_OVER_RECEIVED', 'QTY_OVER_ORDERED']);
+            expect(exceptions[0]).toEqual(expect.objectContaining({
+                expected_value: 100,
+                actual_value: 120,
+                variance_amount: 1000000,
+                variance_pct: 20,
+            }));
+        });
+
+        it('should allow quantity within tolerance', () => {
+            const exceptions = matchInvoiceLine(
+                { ...matched, qty_invoiced: 102 },
+                { ...DEFAULT_MATCH_TOLERANCE, qty_tolerance_pct: 2 }
+            );
+
+            expect(exceptions).toEqual([]);
+        });
+
+        it('should flag price variances over the percentage unless within the amount tolerance', () => {
+            const over = { ...matched, unit_price: 53000 };
+
+            expect(matchInvoiceLine(over, DEFAULT_MATCH_TOLERANCE)).toEqual([
+                expect.objectContaining({ exception_type: 'PRICE', variance_amount: 300000, variance_pct: 6 }),
+            ]);
+            expect(matchInvoiceLine(over, { ...DEFAULT_MATCH_TOLERANCE, price_tolerance_amount: 300000 })).toEqual([]);
+        });
+
+        it('should flag lower prices too', () => {
+            const [exception] = matchInvoiceLine({ ...matched, unit_price: 40000 }, DEFAULT_MATCH_TOLERANCE);
+
+            expect(exception).toEqual(expect.objectContaining({ exception_type: 'PRICE', variance_amount: -1000000 }));
+        });
+
+        it('should require approval for lines without PO or GRN', () => {
+            const exceptions = matchInvoiceLine(
+                { ...matched, uninvoiced_received_qty: null, uninvoiced_ordered_qty: null, reference_price: null },
+                DEFAULT_MATCH_TOLERANCE
+            );
+
+            expect(exceptions).toEqual([expect.objectContaining({ exception_type: 'NO_REFERENCE', variance_amount: 5000000 })]);
+        });
+    });
+
+    describe('buildVendorInvoiceJournalLines', () => {
+        const accounts = { inventory: '1210', price_variance: '5110', tax: '2030', payable: '2010' };
+
+        it('should debit price increases to purchase price variance', () => {
+            const lines = buildVendorInvoiceJournalLines({ inventory: 24000000, price_variance: 480000, tax: 2640000 }, accounts, 'INV-1');
+
+            expect(validateLinesBalance(lines).balanced).toBe(true);
+            expect(lines.find(l => l.account_code === '5110')?.debit).toBe(480000);
+            expect(lines.find(l => l.account_code === '2010')?.credit).toBe(27120000);
+        });
+
+        it('should credit price decreases to purchase price variance', () => {
+            const lines = buildVendorInvoiceJournalLines({ inventory: 1000000, price_variance: -50000, tax: 0 }, accounts, 'INV-2');
+
+            expect(validateLinesBalance(lines).balanced).toBe(true);
+            expect(lines.find(l => l.account_code === '5110')?.credit).toBe(50000);
+            expect(lines.map(l => l.account_code)).not.toContain('2030');
+        });
+
+        it('should post nothing for a zero invoice', () => {
+            expect(buildVendorInvoiceJournalLines({ inventory: 0, price_variance: 0, tax: 0 }, accounts, 'INV-3')).toEqual([]);
+        });
+    });
+
+    describe('reconcileMatchExceptions', () => {
+        const draft = {
+            invoice_line_id: 'inv-line-1',
+            exception_type: 'PRICE' as const,
+            expected_value: 50000,
+            actual_value: 55000,
+            variance_amount: 500000,
+            variance_pct: 10,
+            tolerance_pct: 5,
+        };
+
+        it('should keep the approval of an unchanged exception', () => {
+            const { rows, stale } = reconcileMatchExceptions([draft], [approved]);
+
+            expect(rows).toEqual([expect.objectContaining({ status: 'approved', resolved_by: 'user-1', resolution_notes: 'Agreed surcharge' })]);
+            expect(stale).toEqual([]);
+        });
+
+        it('should reset a changed exception to pending', () => {
+            const { rows } = reconcileMatchExceptions([{ ...draft, actual_value: 56000 }], [approved]);
+
+            expect(rows).toEqual([expect.objectContaining({ actual_value: 56000, status: 'pending', resolved_by: null, resolved_at: null })]);
+        });
+
+        it('should return exceptions no longer raised as stale', () => {
+            const { rows, stale } = reconcileMatchExceptions([], [approved, { ...approved, id: 'exc-2', exception_type: 'QTY_OVER_RECEIVED' }]);
+
+            expect(rows).toEqual([]);
+            expect(stale).toEqual(['exc-1', 'exc-2']);
+        });
+    });
+
+    describe('getInvoiceMatchStatus', () => {
+        it('should block posting until every exception is approved', () => {
+            expect(getInvoiceMatchStatus([])).toBe('matched');
+            expect(getInvoiceMatchStatus([approved, { ...approved, status: 'pending' }])).toBe('exception');
+            expect(getInvoiceMatchStatus([approved, { ...approved, status: 'rejected' }])).toBe('exception');
+            expect(getInvoiceMatchStatus([approved, approved])).toBe('approved');
+        });
+    });
+
+    describe('getVendorInvoicePostingAmounts', () => {
+        it('should convert to base currency with the rounding in price variance', () => {
+            const amounts = getVendorInvoicePostingAmounts({ inventory_amount: 1000.33, price_variance: 10.11 }, 111.15, 16234.57);
+
+            expect(amounts).toEqual({ inventory: 16239927.41, price_variance: 164131.5, tax: 1804472.46 });
+            expect(amounts.inventory + amounts.price_variance + amounts.tax).toBeCloseTo(convertToBase(1121.59, 16234.57), 2);
+        });
+
+        it('should pass base currency amounts through', () => {
+            expect(getVendorInvoicePostingAmounts({ inventory_amount: 24000000, price_variance: 480000 }, 2640000, 1))
+                .toEqual({ inventory: 24000000, price_variance: 480000, tax: 2640000 });
+        });
+    });
+});
+
+describe('Vendor Payments', () => {
+    describe('buildVendorPaymentJournalLines', () => {
+        it('should relieve AP by cash paid plus PPh withheld', () => {
+            const lines = buildVendorPaymentJournalLines(
+                { cash: 10900000, withholding: 200000 },
+                { payable: '2010', cash: '1020', withholding: '2040' },
+                'PAY-001'
+            );
+
+            expect(validateLinesBalance(lines).balanced).toBe(true);
+            expect(lines.map(l => [l.account_code, l.debit, l.credit])).toEqual([
+                ['2010', 11100000, 0],
+                ['1020', 0, 10900000],
+                ['2040', 0, 200000],
+            ]);
+        });
+
+        it('should post a plain payment without a withholding line', () => {
+            const lines = buildVendorPaymentJournalLines({ cash: 5000000, withholding: 0 }, { payable: '2010', cash: '1010' }, 'PAY-002');
+
+            expect(lines).toHaveLength(2);
+            expect(validateLinesBalance(lines).balanced).toBe(true);
+        });
+
+        it('should relieve AP at the invoice rate and post the difference to realized FX', () => {
+            const accounts = { payable: '2010', cash: '1020', fx: '6940' };
+            const loss = buildVendorPaymentJournalLines({ cash: 15800000, withholding: 0, realized_fx: 300000 }, accounts, 'PAY-003');
+            const gain = buildVendorPaymentJournalLines({ cash: 15300000, withholding: 0, realized_fx: -200000 }, accounts, 'PAY-004');
+
+            expect(validateLinesBalance(loss).balanced).toBe(true);
+            expect(loss.map(l => [l.account_code, l.debit, l.credit])).toEqual([
+                ['2010', 15500000, 0],
+                ['1020', 0, 15800000],
+                ['6940', 300000, 0],
+            ]);
+            expect(validateLinesBalance(gain).balanced).toBe(true);
+            expect(gain.map(l => [l.account_code, l.debit, l.credit])).toEqual([
+                ['2010', 15500000, 0],
+                ['1020', 0, 15300000],
+                ['6940', 0, 200000],
+            ]);
+        });
+    });
+});
+
+describe('Incoming Inspection', () => {
+    describe('validateGRNInspection', () => {
+        it('should accept quantities adding up to the received quantity', () => {
+            expect(validateGRNInspection(500, { qty_accepted: 460, qty_rejected: 40, defect_reason: 'SHADE_VARIATION' })).toEqual([]);
+            expect(validateGRNInspection(500, { qty_accepted: 500, qty_rejected: 0 })).toEqual([]);
+        });
+
+        it('should reject quantities not matching the received quantity', () => {
+            expect(validateGRNInspection(500, { qty_accepted: 400, qty_rejected: 40, defect_reason: 'HOLES' })).toHaveLength(1);
+            expect(validateGRNInspection(500, { qty_accepted: 540, qty_rejected: -40, defect_reason: 'HOLES' })).toHaveLength(1);
+        });
+
+        it('should require a defect reason for rejected quantity', () => {
+            expect(validateGRNInspection(500, { qty_accepted: 460, qty_rejected: 40 })).toEqual([
+                'A defect reason is required for rejected quantity',
+            ]);
+        });
+    });
+
+    describe('getGRNInspectionStatus', () => {
+        it('should derive the status from accepted and rejected quantities', () => {
+            expect(getGRNInspectionStatus({ qty_accepted: 500, qty_rejected: 0 })).toBe('accepted');
+            expect(getGRNInspectionStatus({ qty_accepted: 460, qty_rejected: 40 })).toBe('partial');
+            expect(getGRNInspectionStatus({ qty_accepted: 0, qty_rejected: 500 })).toBe('rejected');
+        });
+    });
+});
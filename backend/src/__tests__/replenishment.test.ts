@@ -0,0 +1,49 @@
+import { describe, it, expect } from '@jest/globals';
+import { calculateSuggestedOrderQty, pickSupplier, LastPurchasePrice } from '../services/replenishment.service';
+
+const lastPrice = (overrides: Partial<LastPurchasePrice> = {}): LastPurchasePrice => ({
+    unit_price: 45000,
+    vendor_id: 'vendor-mill',
+    po_date: '2025-01-10',
+    currency: 'IDR',
+    ...overrides,
+});
+
+describe('Replenishment', () => {
+    describe('calculateSuggestedOrderQty', () => {
+        it('should order the shortfall against the reorder level', () => {
+            // 120 on hand + 200 on order - 180 reserved = 140 projected
+            expect(calculateSuggestedOrderQty({ reorder_level: 500, reorder_qty: 300, projected_qty: 140 })).toBe(360);
+        });
+
+        it('should order at least the reorder quantity', () => {
+            expect(calculateSuggestedOrderQty({ reorder_level: 500, reorder_qty: 300, projected_qty: 400 })).toBe(300);
+        });
+
+        it('should suggest nothing at or above the reorder level', () => {
+            expect(calculateSuggestedOrderQty({ reorder_level: 500, reorder_qty: 300, projected_qty: 500 })).toBe(0);
+        });
+    });
+
+    describe('pickSupplier', () => {
+        it('should use the preferred vendor at its last price', () => {
+            expect(pickSupplier('vendor-pref', 40000, lastPrice({ vendor_id: 'vendor-pref', unit_price: 44000 }), lastPrice()))
+                .toEqual({ vendor_id: 'vendor-pref', unit_price: 44000, price_source: 'last_vendor_price' });
+        });
+
+        it('should fall back to the last price from any vendor when the preferred vendor was never ordered from', () => {
+            expect(pickSupplier('vendor-pref', 40000, null, lastPrice()))
+                .toEqual({ vendor_id: 'vendor-pref', unit_price: 45000, price_source: 'last_price' });
+        });
+
+        it('should use the vendor last ordered from when there is no preferred vendor', () => {
+            expect(pickSupplier(null, 40000, null, lastPrice()))
+                .toEqual({ vendor_id: 'vendor-mill', unit_price: 45000, price_source: 'last_vendor_price' });
+        });
+
+        it('should price at standard cost without a vendor when the material was never ordered', () => {
+            expect(pickSupplier(null, 40000, null, null))
+                .toEqual({ vendor_id: null, unit_price: 40000, price_source: 'standard_cost' });
+        });
+    });
+});
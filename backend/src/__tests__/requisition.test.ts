@@ -0,0 +1,50 @@
+import { describe, it, expect } from '@jest/globals';
+import { consolidateRequisitionLines, LineToOrder } from '../services/requisition.service';
+
+const line = (overrides: Partial<LineToOrder> = {}): LineToOrder => ({
+    id: 'prl-1',
+    requisition_number: 'PR-0012',
+    material_id: 'mat-cotton',
+    qty_requested: 800,
+    estimated_unit_price: 45000,
+    need_by_date: '2025-02-10',
+    vendor_id: 'vendor-mill',
+    warehouse_id: 'wh-main',
+    ...overrides,
+});
+
+describe('Requisitions', () => {
+    describe('consolidateRequisitionLines', () => {
+        it('should create one PO per vendor and warehouse', () => {
+            const orders = consolidateRequisitionLines([
+                line(),
+                line({ id: 'prl-2', material_id: 'mat-zipper', vendor_id: 'vendor-zip', qty_requested: 1200, estimated_unit_price: 2500 }),
+                line({ id: 'prl-3', requisition_number: 'PR-0015', warehouse_id: 'wh-2' }),
+            ]);
+
+            expect(orders.map(o => [o.vendor_id, o.warehouse_id])).toEqual([
+                ['vendor-mill', 'wh-main'],
+                ['vendor-zip', 'wh-main'],
+                ['vendor-mill', 'wh-2'],
+            ]);
+        });
+
+        it('should merge the same material at a quantity-weighted price and keep every requisition line', () => {
+            const [order] = consolidateRequisitionLines([
+                line(),
+                line({ id: 'prl-2', requisition_number: 'PR-0015', qty_requested: 400, estimated_unit_price: 48000, need_by_date: '2025-02-05' }),
+            ]);
+
+            expect(order.lines).toEqual([
+                { material_id: 'mat-cotton', qty_ordered: 1200, unit_price: 46000, requisition_line_ids: ['prl-1', 'prl-2'] },
+            ]);
+            expect(order.requisition_numbers).toEqual(['PR-0012', 'PR-0015']);
+            expect(order.delivery_date).toBe('2025-02-05');
+        });
+
+        it('should leave the delivery date open when no line has a need-by date', () => {
+            const [order] = consolidateRequisitionLines([line({ need_by_date: null })]);
+            expect(order.delivery_date).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildReturnJournalLines } from '../services/sales-return.service';
+import { validateLinesBalance } from '../services/journal.service';
+
+describe('Sales Return', () => {
+    describe('buildReturnJournalLines', () => {
+        const accounts = { salesReturns: '4100', receivable: '1100', inventory: '1250', scrap: '6900', cogs: '5010' };
+
+        it('should reverse revenue and COGS per disposition', () => {
+            const lines = buildReturnJournalLines([
+                { qty_returned: 2, unit_price: 70000, disposition: 'RESTOCK', unit_cost: 40000 },
+                { qty_returned: 1, unit_price: 70000, disposition: 'QUARANTINE', unit_cost: 40000 },
+                { qty_returned: 1, unit_price: 70000, disposition: 'SCRAP', unit_cost: 40000 },
+            ], accounts);
+
+            expect(validateLinesBalance(lines).balanced).toBe(true);
+            expect(lines.find(l => l.account_code === '4100')?.debit).toBe(280000);
+            expect(lines.find(l => l.account_code === '1100')?.credit).toBe(280000);
+            expect(lines.find(l => l.account_code === '1250')?.debit).toBe(120000);
+            expect(lines.find(l => l.account_code === '6900')?.debit).toBe(40000);
+            expect(lines.find(l => l.account_code === '5010')?.credit).toBe(160000);
+        });
+
+        it('should write scrap off at the ledger cost and keep the difference in inventory', () => {
+            const lines = buildReturnJournalLines([
+                { qty_returned: 2, unit_price: 70000, disposition: 'SCRAP', unit_cost: 40000, scrap_unit_cost: 38000 },
+            ], accounts);
+
+            expect(validateLinesBalance(lines).balanced).toBe(true);
+            expect(lines.find(l => l.account_code === '6900')?.debit).toBe(76000);
+            expect(lines.find(l => l.account_code === '1250')?.debit).toBe(4000);
+            expect(lines.find(l => l.account_code === '5010')?.credit).toBe(80000);
+        });
+
+        it('should omit cost lines when items have no cost', () => {
+            const lines = buildReturnJournalLines([
+                { qty_returned: 1, unit_price: 50000, disposition: 'RESTOCK', unit_cost: null },
+            ], accounts);
+
+            expect(lines.map(l => l.account_code)).toEqual(['4100', '1100']);
+        });
+    });
+});
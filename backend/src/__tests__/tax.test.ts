@@ -0,0 +1,126 @@
+import { describe, it, expect } from '@jest/globals';
+import { calculateLineTax, calculateWithholding, resolveLineTaxCode, TaxCodeRates } from '../services/tax.service';
+import { buildSalesJournalLines } from '../services/sales.service';
+import { ValidationError } from '../services/error.service';
+import { validateLinesBalance } from '../services/journal.service';
+
+const PPN11: TaxCodeRates = { code: 'PPN11', tax_type: 'PPN', category: 'STANDARD', rate: 11, dpp_factor: 1 };
+const PPN12: TaxCodeRates = { code: 'PPN12', tax_type: 'PPN', category: 'STANDARD', rate: 12, dpp_factor: 0.91666667 };
+const EXEMPT: TaxCodeRates = { code: 'PPN-EX', tax_type: 'PPN', category: 'EXEMPT', rate: 0, dpp_factor: 1 };
+const ZERO: TaxCodeRates = { code: 'PPN-ZR', tax_type: 'PPN', category: 'ZERO_RATED', rate: 0, dpp_factor: 1 };
+const PPH23: TaxCodeRates = { code: 'PPH23', tax_type: 'PPH', category: 'WITHHOLDING', rate: 2, dpp_factor: 1 };
+
+describe('Tax', () => {
+    describe('calculateLineTax', () => {
+        it('should add PPN on top of exclusive prices', () => {
+            expect(calculateLineTax(1000000, PPN11, false)).toEqual({
+                taxable_amount: 1000000, tax_base: 1000000, tax_rate: 11, tax_amount: 110000,
+            });
+        });
+
+        it('should tax 12% on a DPP of 11/12', () => {
+            expect(calculateLineTax(1000000, PPN12, false)).toEqual({
+                taxable_amount: 1000000, tax_base: 916666.67, tax_rate: 12, tax_amount: 110000,
+            });
+        });
+
+        it('should extract PPN from inclusive prices so net plus tax equals the price', () => {
+            expect(calculateLineTax(111000, PPN11, true)).toEqual({
+                taxable_amount: 100000, tax_base: 100000, tax_rate: 11, tax_amount: 11000,
+            });
+
+            const odd = calculateLineTax(99999, PPN12, true);
+            expect(odd.taxable_amount + odd.tax_amount).toBeCloseTo(99999, 2);
+            expect(odd.taxable_amount).toBe(90089.19);
+        });
+
+        it('should report DPP without tax on exempt and zero-rated lines', () => {
+            expect(calculateLineTax(500000, EXEMPT, false)).toEqual({
+                taxable_amount: 500000, tax_base: 500000, tax_rate: 0, tax_amount: 0,
+            });
+            expect(calculateLineTax(500000, ZERO, true).tax_amount).toBe(0);
+        });
+
+        it('should leave lines without a tax code untaxed', () => {
+            expect(calculateLineTax(250000, null, true)).toEqual({
+                taxable_amount: 250000, tax_base: null, tax_rate: 0, tax_amount: 0,
+            });
+        });
+
+        it('should reject withholding codes on document lines', () => {
+            expect(() => calculateLineTax(100000, PPH23, false)).toThrow(ValidationError);
+        });
+    });
+
+    describe('resolveLineTaxCode', () => {
+        it('should let party exemptions override the item code', () => {
+            expect(resolveLineTaxCode(EXEMPT, PPN11)).toBe(EXEMPT);
+            expect(resolveLineTaxCode(ZERO, PPN12)).toBe(ZERO);
+        });
+
+        it('should prefer the item code over a standard party code', () => {
+            expect(resolveLineTaxCode(PPN11, PPN12)).toBe(PPN12);
+            expect(resolveLineTaxCode(PPN11, null)).toBe(PPN11);
+            expect(resolveLineTaxCode(null, null)).toBeNull();
+        });
+    });
+
+    describe('buildSalesJournalLines', () => {
+        it('should credit revenue net and PPN to output VAT', () => {
+            const lines = buildSalesJournalLines(
+                { subtotal: 1000000, discount_amount: 50000, tax_amount: 110000 },
+                { debit: '1100', revenue: '4020', discount: '4200', tax: '2030' },
+                'Invoice INV-001'
+            );
+
+            expect(validateLinesBalance(lines).balanced).toBe(true);
+            expect(lines.map(l => [l.account_code, l.debit, l.credit])).toEqual([
+                ['1100', 1060000, 0],
+                ['4200', 50000, 0],
+                ['4020', 0, 1000000],
+                ['2030', 0, 110000],
+            ]);
+        });
+
+        it('should skip the tax line on untaxed sales', () => {
+            const lines = buildSalesJournalLines(
+                { subtotal: 200000, discount_amount: 0, tax_amount: 0 },
+                { debit: '1010', revenue: '4010' },
+                'POS sale POS-001'
+            );
+
+            expect(lines).toHaveLength(2);
+            expect(validateLinesBalance(lines).balanced).toBe(true);
+        });
+    });
+
+    describe('calculateWithholding', () => {
+        const invoice = { subtotal: 10000000, tax_amount: 1100000 };
+
+        it('should withhold PPh 23 on the DPP settled, excluding PPN', () => {
+            expect(calculateWithholding(11100000, invoice, PPH23)).toEqual({
+                withholding_base: 10000000, withholding_rate: 2, withholding_amount: 200000,
+                withholding_base_idr: 10000000, withholding_amount_idr: 200000,
+            });
+        });
+
+        it('should convert foreign currency DPP at the payment rate before rounding to whole rupiah', () => {
+            const usd = calculateWithholding(1234.56, { subtotal: 1234.56, tax_amount: 0 }, PPH23, 15812.5);
+            expect(usd.withholding_base).toBe(1234.56);
+            expect(usd.withholding_base_idr).toBe(19521480);
+            expect(usd.withholding_amount_idr).toBe(390429);
+            expect(usd.withholding_amount).toBe(24.69);
+        });
+
+        it('should withhold pro rata on partial payments, rounded down to whole rupiah', () => {
+            const partial = calculateWithholding(3333333, invoice, PPH23);
+            expect(partial.withholding_base).toBe(3003002.7);
+            expect(partial.withholding_amount).toBe(60060);
+        });
+
+        it('should withhold nothing without a PPh code and reject PPN codes', () => {
+            expect(calculateWithholding(11100000, invoice, null).withholding_amount).toBe(0);
+            expect(() => calculateWithholding(11100000, invoice, PPN11)).toThrow(ValidationError);
+        });
+    });
+});
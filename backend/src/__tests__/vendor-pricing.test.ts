@@ -0,0 +1,41 @@
+import { describe, it, expect } from '@jest/globals';
+import { checkContractPrice, resolveVendorPrice } from '../services/partner.service';
+
+const contract = { unit_price: 48000, min_order_qty: 300, price_tolerance_pct: 2 };
+
+describe('Vendor pricing', () => {
+    describe('resolveVendorPrice', () => {
+        const priceList = {
+            unit_price: 48000,
+            breaks: [{ min_qty: 1000, unit_price: 45000 }, { min_qty: 500, unit_price: 46000 }],
+        };
+
+        it('should use the list price below the first break', () => {
+            expect(resolveVendorPrice(priceList, 300)).toBe(48000);
+        });
+
+        it('should use the highest break reached', () => {
+            expect(resolveVendorPrice(priceList, 750)).toBe(46000);
+            expect(resolveVendorPrice(priceList, 1000)).toBe(45000);
+        });
+    });
+
+    describe('checkContractPrice', () => {
+        it('should accept a price within tolerance at or above the MOQ', () => {
+            expect(checkContractPrice(300, 48900, contract)).toEqual([]);
+        });
+
+        it('should warn on a price outside tolerance in either direction', () => {
+            expect(checkContractPrice(500, 50000, contract)).toEqual([
+                'Price 50000 deviates 4.17% from the contract price 48000 (tolerance 2%)',
+            ]);
+            expect(checkContractPrice(500, 46000, contract)).toHaveLength(1);
+        });
+
+        it('should warn below the minimum order quantity', () => {
+            expect(checkContractPrice(200, 48000, contract)).toEqual([
+                'Quantity 200 is below the minimum order quantity of 300',
+            ]);
+        });
+    });
+});
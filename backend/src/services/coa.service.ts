@@ -420,3 +420,51 @@ export async function isAccountCodeUnique(
     if (error) throw error;
     return count === 0;
 }
+
+/**
+ * Resolves system account mapping codes to the mapped account codes.
+ * 
+ * Mappings live in `system_account_mappings` (seeded by `seed_account_mappings`)
+ * and let each company point abstract functions such as 'ACCOUNTS_RECEIVABLE'
+ * at its own COA. Use this before building journal lines.
+ * 
+ * @param companyId - UUID of the company
+ * @param mappingCodes - Mapping codes to resolve (e.g., ['DEFAULT_BANK', 'MARKETPLACE_FEES'])
+ * 
+ * @throws {Error} If any mapping is missing or points to no account
+ * @returns Promise resolving to a map of mapping code → account code
+ * 
+ * @example
+ * ```typescript
+ * const accounts = await getMappedAccountCodes(companyId, ['DEFAULT_BANK', 'ACCOUNTS_RECEIVABLE']);
+ * lines.push({ account_code: accounts.DEFAULT_BANK, debit: 100000, credit: 0 });
+ * ```
+ */
+export async function getMappedAccountCodes<T extends string>(
+    companyId: string,
+    mappingCodes: T[]
+): Promise<Record<T, string>> {
+    const { data, error } = await supabaseServer
+        .from('system_account_mappings')
+        .select('mapping_code, account:chart_of_accounts(account_code)')
+        .eq('company_id', companyId)
+        .in('mapping_code', mappingCodes)
+        .overrideTypes<{ mapping_code: string; account: { account_code: string } | null }[], { merge: false }>();
+
+    if (error) throw error;
+
+    const rows = data || [];
+    const resolved = {} as Record<T, string>;
+    for (const row of rows) {
+        if (row.account?.account_code) {
+            resolved[row.mapping_code as T] = row.account.account_code;
+        }
+    }
+
+    const missing = mappingCodes.filter(code => !resolved[code]);
+    if (missing.length > 0) {
+        throw new Error(`Account mapping not configured: ${missing.join(', ')}`);
+    }
+
+    return resolved;
+}
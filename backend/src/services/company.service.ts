@@ -23,7 +23,8 @@ export interface Company {
  * 
  * This is the primary tenant creation function. It creates a company record,
  * maps the user as admin, and automatically seeds the Chart of Accounts template
- * (60+ standard accounts). Implements rollback on failure for data consistency.
+ * (60+ standard accounts) and the standard PPN/PPh tax codes. Implements rollback
+ * on failure for data consistency.
  * 
  * @param company - Company details to create
  * @param company.code - Unique company code (validated for uniqueness)
@@ -93,6 +94,16 @@ export async function createCompany(
         console.error('Failed to seed COA template:', coaError);
     }
 
+    // Seed PPN/PPh tax codes
+    const { error: taxError } = await supabaseServer.rpc('seed_tax_codes', {
+        p_company_id: newCompany.id,
+    });
+
+    if (taxError) {
+        // Log error but don't rollback (codes can be seeded later)
+        console.error('Failed to seed tax codes:', taxError);
+    }
+
     return { id: newCompany.id, code: newCompany.code };
 }
 
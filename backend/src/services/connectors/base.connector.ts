@@ -0,0 +1,196 @@
+/**
+ * Base Marketplace Connector
+ * Shared HTTP plumbing, error types and token bookkeeping for platform adapters
+ */
+import { createHmac } from 'crypto';
+import { AppError } from '../error.service';
+import type { MarketplacePlatform } from '../marketplace.service';
+import type {
+    ConnectorConfig,
+    FetchOrdersParams,
+    ListingPage,
+    MarketplaceConnector,
+    MarketplaceOrderStatus,
+    OrderPage,
+    StockUpdate,
+    StockUpdateResult,
+    TokenSet,
+} from './types';
+
+/**
+ * Raised when a marketplace API rejects a request.
+ */
+export class MarketplaceApiError extends AppError {
+    constructor(platform: MarketplacePlatform, message: string, statusCode: number = 502, details?: unknown) {
+        super(`${platform} API error: ${message}`, statusCode, 'MARKETPLACE_API_ERROR', details);
+    }
+}
+
+/**
+ * Raised when the access token is expired or revoked.
+ * Order sync catches this, refreshes the token once and retries.
+ */
+export class MarketplaceAuthError extends MarketplaceApiError {
+    constructor(platform: MarketplacePlatform, message: string, details?: unknown) {
+        super(platform, message, 401, details);
+        this.code = 'MARKETPLACE_AUTH_ERROR';
+    }
+}
+
+export interface RequestOptions {
+    method?: 'GET' | 'POST';
+    query?: Record<string, string | number | undefined>;
+    body?: unknown;
+    headers?: Record<string, string>;
+    baseUrl?: string;
+}
+
+export abstract class BaseConnector implements MarketplaceConnector {
+    abstract readonly platform: MarketplacePlatform;
+    abstract readonly maxWindowMs: number;
+
+    protected config: ConnectorConfig;
+
+    constructor(config: ConnectorConfig) {
+        this.config = { ...config };
+    }
+
+    abstract fetchOrders(params: FetchOrdersParams): Promise<OrderPage>;
+    abstract fetchListings(cursor?: string | null, pageSize?: number): Promise<ListingPage>;
+    abstract updateStock(updates: StockUpdate[]): Promise<StockUpdateResult[]>;
+    abstract refreshToken(): Promise<TokenSet>;
+    abstract mapStatus(externalStatus: string): MarketplaceOrderStatus;
+
+    setTokens(tokens: TokenSet): void {
+        this.config.access_token = tokens.access_token;
+        this.config.refresh_token = tokens.refresh_token ?? this.config.refresh_token;
+        this.config.token_expiry = tokens.token_expiry;
+    }
+
+    protected abstract get defaultBaseUrl(): string;
+
+    /** Token endpoints live on a separate host for some platforms */
+    protected get defaultAuthBaseUrl(): string {
+        return this.defaultBaseUrl;
+    }
+
+    protected get baseUrl(): string {
+        return (this.config.api_base_url || this.defaultBaseUrl).replace(/\/$/, '');
+    }
+
+    /** An api_base_url override (sandbox, fake marketplace) serves token calls as well */
+    protected get authBaseUrl(): string {
+        return this.config.api_base_url ? this.baseUrl : this.defaultAuthBaseUrl;
+    }
+
+    protected requireCredential(value: string | undefined, name: string): string {
+        if (!value) {
+            throw new MarketplaceApiError(this.platform, `Missing ${name} on marketplace account`, 400);
+        }
+        return value;
+    }
+
+    /**
+     * Sends a request and returns the parsed JSON body.
+     * HTTP 401/403 become MarketplaceAuthError; other non-2xx become MarketplaceApiError.
+     */
+    protected async request<T>(path: string, options: RequestOptions = {}): Promise<T> {
+        const url = new URL(`${(options.baseUrl || this.baseUrl).replace(/\/$/, '')}${path}`);
+        for (const [key, value] of Object.entries(options.query || {})) {
+            if (value !== undefined && value !== null) {
+                url.searchParams.set(key, String(value));
+            }
+        }
+
+        const response = await fetch(url, {
+            method: options.method || 'GET',
+            headers: {
+                'Content-Type': 'application/json',
+                ...options.headers,
+            },
+            body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+        });
+
+        const text = await response.text();
+        let payload: { message?: string; raw?: string } | null = null;
+        try {
+            payload = text ? JSON.parse(text) : null;
+        } catch {
+            payload = { raw: text };
+        }
+
+        if (response.status === 401 || response.status === 403) {
+            throw new MarketplaceAuthError(this.platform, payload?.message || response.statusText, payload);
+        }
+        if (!response.ok) {
+            throw new MarketplaceApiError(
+                this.platform,
+                payload?.message || `HTTP ${response.status}`,
+                response.status,
+                payload
+            );
+        }
+
+        return payload as T;
+    }
+}
+
+// ==================== HELPERS ====================
+
+export function hmacSha256Hex(secret: string, message: string): string {
+    return createHmac('sha256', secret).update(message).digest('hex');
+}
+
+export function toUnixSeconds(iso: string): number {
+    return Math.floor(new Date(iso).getTime() / 1000);
+}
+
+export function fromUnixSeconds(seconds: number): string {
+    return new Date(seconds * 1000).toISOString();
+}
+
+export function toAmount(value: string | number | undefined | null): number {
+    if (value === undefined || value === null || value === '') return 0;
+    const parsed = typeof value === 'number' ? value : parseFloat(value);
+    return Number.isFinite(parsed) ? parsed : 0;
+}
+
+/**
+ * Splits a composite listing ID (`parent:variation`) into its parts.
+ */
+export function splitListingId(externalItemId: string): [string, string] {
+    const index = externalItemId.indexOf(':');
+    return index < 0
+        ? [externalItemId, '']
+        : [externalItemId.slice(0, index), externalItemId.slice(index + 1)];
+}
+
+/**
+ * Groups items by a key, keeping first-seen order.
+ */
+export function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+    const groups = new Map<string, T[]>();
+    for (const item of items) {
+        const k = key(item);
+        groups.set(k, [...(groups.get(k) || []), item]);
+    }
+    return groups;
+}
+
+/**
+ * Platforms such as TikTok and Lazada return one line per unit sold.
+ * Collapse them into one item per SKU/price so SO lines stay readable.
+ */
+export function groupUnitLines<T extends { sku: string; deal_price: number; quantity: number }>(items: T[]): T[] {
+    const grouped = new Map<string, T>();
+    for (const item of items) {
+        const key = `${item.sku}|${item.deal_price}`;
+        const existing = grouped.get(key);
+        if (existing) {
+            existing.quantity += item.quantity;
+        } else {
+            grouped.set(key, { ...item });
+        }
+    }
+    return Array.from(grouped.values());
+}
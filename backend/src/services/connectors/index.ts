@@ -0,0 +1,46 @@
+/**
+ * Marketplace Connectors
+ * Factory resolving the adapter for a marketplace account's platform
+ */
+import type { MarketplacePlatform } from '../marketplace.service';
+import { LazadaConnector } from './lazada.connector';
+import { ShopeeConnector } from './shopee.connector';
+import { TikTokConnector } from './tiktok.connector';
+import { TokopediaConnector } from './tokopedia.connector';
+import type { ConnectorConfig, MarketplaceConnector } from './types';
+
+export * from './types';
+export { MarketplaceApiError, MarketplaceAuthError } from './base.connector';
+export { ShopeeConnector, TokopediaConnector, TikTokConnector, LazadaConnector };
+
+const CONNECTORS: Record<MarketplacePlatform, new (config: ConnectorConfig) => MarketplaceConnector> = {
+    Shopee: ShopeeConnector,
+    Tokopedia: TokopediaConnector,
+    TikTok: TikTokConnector,
+    Lazada: LazadaConnector,
+};
+
+/**
+ * Builds the connector for a `marketplace_accounts` row.
+ *
+ * @param account - Account row (platform, shop_id and credential columns)
+ * @returns Platform adapter configured with the account credentials
+ * @throws {Error} If the platform has no connector
+ */
+export function createConnector(account: ConnectorConfig & { platform: MarketplacePlatform }): MarketplaceConnector {
+    const Connector = CONNECTORS[account.platform];
+    if (!Connector) {
+        throw new Error(`No connector available for platform ${account.platform}`);
+    }
+
+    return new Connector({
+        shop_id: account.shop_id,
+        api_key: account.api_key,
+        api_secret: account.api_secret,
+        app_id: account.app_id,
+        access_token: account.access_token,
+        refresh_token: account.refresh_token,
+        token_expiry: account.token_expiry,
+        api_base_url: account.api_base_url,
+    });
+}
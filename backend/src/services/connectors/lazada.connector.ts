@@ -0,0 +1,277 @@
+/**
+ * Lazada Open Platform connector
+ *
+ * Orders are offset-paginated; items are fetched for the whole page in one
+ * call and come back one line per unit. Listings are products with SKUs;
+ * sellable stock is updated with an XML payload.
+ */
+import { createHmac } from 'crypto';
+import type { ExternalOrder } from '../marketplace.service';
+import {
+    BaseConnector,
+    MarketplaceApiError,
+    MarketplaceAuthError,
+    groupUnitLines,
+    splitListingId,
+    toAmount,
+} from './base.connector';
+import type {
+    FetchOrdersParams,
+    ListingPage,
+    MarketplaceOrderStatus,
+    OrderPage,
+    StockUpdate,
+    StockUpdateResult,
+    TokenSet,
+} from './types';
+
+const ORDERS_PATH = '/orders/get';
+const ORDER_ITEMS_PATH = '/orders/items/get';
+const REFRESH_PATH = '/auth/token/refresh';
+const PRODUCTS_PATH = '/products/get';
+const UPDATE_STOCK_PATH = '/product/stock/sellable/update';
+
+const STATUS_MAP: Record<string, MarketplaceOrderStatus> = {
+    unpaid: 'pending',
+    pending: 'pending',
+    packed: 'ready_to_ship',
+    ready_to_ship: 'ready_to_ship',
+    shipped: 'in_transit',
+    delivered: 'delivered',
+    confirmed: 'delivered',
+    canceled: 'cancelled',
+    returned: 'returned',
+    failed_delivery: 'returned',
+    lost_by_3pl: 'returned',
+};
+
+type Id = string | number;
+
+/** Fields every Lazada response carries; code '0' means success */
+interface LazadaResponse {
+    code?: string;
+    message?: string;
+}
+
+interface LazadaOrder {
+    order_id: Id;
+    order_number?: Id;
+    statuses?: string[];
+    created_at: string;
+    updated_at?: string;
+    customer_first_name?: string;
+    customer_last_name?: string;
+    price?: string | number;
+    shipping_fee?: string | number;
+}
+
+interface LazadaOrderItem {
+    order_item_id: Id;
+    sku_id?: Id;
+    sku: string;
+    name: string;
+    variation?: string;
+    item_price?: string | number;
+    paid_price?: string | number;
+}
+
+interface LazadaProduct {
+    item_id: Id;
+    attributes?: { name?: string };
+    skus?: { SkuId: Id; SellerSku: string; quantity?: number }[];
+}
+
+export class LazadaConnector extends BaseConnector {
+    readonly platform = 'Lazada' as const;
+    readonly maxWindowMs = 30 * 24 * 60 * 60 * 1000;
+
+    protected get defaultBaseUrl(): string {
+        return 'https://api.lazada.co.id/rest';
+    }
+
+    protected get defaultAuthBaseUrl(): string {
+        return 'https://auth.lazada.com/rest';
+    }
+
+    mapStatus(externalStatus: string): MarketplaceOrderStatus {
+        return STATUS_MAP[externalStatus.toLowerCase()] || 'pending';
+    }
+
+    async fetchOrders(params: FetchOrdersParams): Promise<OrderPage> {
+        const limit = Math.min(params.pageSize || 50, 100);
+        const offset = params.cursor ? parseInt(params.cursor, 10) : 0;
+
+        const list = await this.signedRequest<{ data?: { orders?: LazadaOrder[] } }>(ORDERS_PATH, {
+            update_after: params.updatedFrom,
+            update_before: params.updatedTo,
+            offset,
+            limit,
+            sort_by: 'updated_at',
+            sort_direction: 'ASC',
+        });
+
+        const rows = list.data?.orders || [];
+        const itemsByOrder = new Map<string, LazadaOrderItem[]>();
+
+        if (rows.length > 0) {
+            const items = await this.signedRequest<{
+                data?: { order_id: Id; order_items?: LazadaOrderItem[] }[];
+            }>(ORDER_ITEMS_PATH, {
+                order_ids: JSON.stringify(rows.map(order => order.order_id)),
+            });
+            for (const entry of items.data || []) {
+                itemsByOrder.set(String(entry.order_id), entry.order_items || []);
+            }
+        }
+
+        return {
+            orders: rows.map(order => this.toExternalOrder(order, itemsByOrder.get(String(order.order_id)) || [])),
+            nextCursor: rows.length === limit ? String(offset + limit) : null,
+        };
+    }
+
+    async fetchListings(cursor?: string | null, pageSize = 50): Promise<ListingPage> {
+        const limit = Math.min(pageSize, 50);
+        const offset = cursor ? parseInt(cursor, 10) : 0;
+
+        const result = await this.signedRequest<{ data?: { products?: LazadaProduct[] } }>(
+            PRODUCTS_PATH,
+            { filter: 'live', offset, limit }
+        );
+        const products = result.data?.products || [];
+
+        return {
+            listings: products.flatMap(product =>
+                (product.skus || []).map(sku => ({
+                    external_item_id: `${product.item_id}:${sku.SkuId}`,
+                    sku: sku.SellerSku,
+                    name: product.attributes?.name || '',
+                    quantity: sku.quantity ?? 0,
+                }))
+            ),
+            nextCursor: products.length === limit ? String(offset + limit) : null,
+        };
+    }
+
+    async updateStock(updates: StockUpdate[]): Promise<StockUpdateResult[]> {
+        const results: StockUpdateResult[] = [];
+
+        // Up to 50 SKUs per payload
+        for (let i = 0; i < updates.length; i += 50) {
+            const batch = updates.slice(i, i + 50);
+            const skus = batch.map(u => {
+                const [itemId, skuId] = splitListingId(u.external_item_id);
+                return `<Sku><ItemId>${itemId}</ItemId><SkuId>${skuId}</SkuId>`
+                    + `<SellerSku>${escapeXml(u.sku)}</SellerSku><SellableQuantity>${u.quantity}</SellableQuantity></Sku>`;
+            }).join('');
+
+            try {
+                const result = await this.signedRequest<{ detail?: { item_id: Id; sku_id: Id; message: string }[] }>(
+                    UPDATE_STOCK_PATH,
+                    { payload: `<Request><Product><Skus>${skus}</Skus></Product></Request>` },
+                    { method: 'POST' }
+                );
+                const failed = new Map<string, string>(
+                    (result.detail || []).map(d => [`${d.item_id}:${d.sku_id}`, d.message])
+                );
+                for (const u of batch) {
+                    const error = failed.get(splitListingId(u.external_item_id).join(':'));
+                    results.push({ external_item_id: u.external_item_id, success: error === undefined, error });
+                }
+            } catch (err) {
+                if (err instanceof MarketplaceAuthError) throw err;
+                results.push(...batch.map(u => ({
+                    external_item_id: u.external_item_id,
+                    success: false,
+                    error: (err as Error).message,
+                })));
+            }
+        }
+
+        return results;
+    }
+
+    async refreshToken(): Promise<TokenSet> {
+        const refreshToken = this.requireCredential(this.config.refresh_token, 'refresh_token');
+        const result = await this.signedRequest<{ access_token: string; refresh_token?: string; expires_in: number }>(
+            REFRESH_PATH,
+            { refresh_token: refreshToken },
+            { baseUrl: this.authBaseUrl, withToken: false }
+        );
+
+        const tokens: TokenSet = {
+            access_token: result.access_token,
+            refresh_token: result.refresh_token,
+            token_expiry: new Date(Date.now() + result.expires_in * 1000).toISOString(),
+        };
+        this.setTokens(tokens);
+        return tokens;
+    }
+
+    /**
+     * Lazada signs path + sorted key/value pairs with the app secret (uppercase hex).
+     */
+    private async signedRequest<T>(
+        path: string,
+        query: Record<string, string | number>,
+        options: { baseUrl?: string; withToken?: boolean; method?: 'GET' | 'POST' } = {}
+    ): Promise<T & LazadaResponse> {
+        const { baseUrl, withToken = true, method = 'GET' } = options;
+        const appKey = this.requireCredential(this.config.api_key, 'app_key (api_key)');
+        const appSecret = this.requireCredential(this.config.api_secret, 'app_secret (api_secret)');
+
+        const params: Record<string, string | number> = {
+            ...query,
+            app_key: appKey,
+            timestamp: Date.now(),
+            sign_method: 'sha256',
+        };
+        if (withToken) {
+            params.access_token = this.requireCredential(this.config.access_token, 'access_token');
+        }
+
+        const payload = Object.keys(params)
+            .sort()
+            .map(key => `${key}${params[key]}`)
+            .join('');
+        params.sign = createHmac('sha256', appSecret).update(`${path}${payload}`).digest('hex').toUpperCase();
+
+        const result = await this.request<T & LazadaResponse>(path, { method, query: params, baseUrl });
+        if (result?.code && result.code !== '0') {
+            if (result.code === 'IllegalAccessToken') {
+                throw new MarketplaceAuthError(this.platform, result.message || result.code, result);
+            }
+            throw new MarketplaceApiError(this.platform, result.message || result.code, 502, result);
+        }
+        return result;
+    }
+
+    private toExternalOrder(order: LazadaOrder, lines: LazadaOrderItem[]): ExternalOrder {
+        const status = order.statuses?.[0] || 'pending';
+        const items = lines.map(line => ({
+            external_item_id: String(line.sku_id || line.order_item_id),
+            sku: line.sku,
+            product_name: line.variation ? `${line.name} (${line.variation})` : line.name,
+            quantity: 1,
+            original_price: toAmount(line.item_price),
+            deal_price: toAmount(line.paid_price),
+        }));
+
+        return {
+            external_id: String(order.order_number || order.order_id),
+            external_status: status,
+            mapped_status: this.mapStatus(status),
+            order_date: new Date(order.created_at).toISOString(),
+            updated_at: order.updated_at ? new Date(order.updated_at).toISOString() : undefined,
+            customer_name: [order.customer_first_name, order.customer_last_name].filter(Boolean).join(' ') || 'Lazada Buyer',
+            currency: 'IDR',
+            total_amount: toAmount(order.price),
+            shipping_fee: toAmount(order.shipping_fee),
+            items: groupUnitLines(items),
+        };
+    }
+}
+
+function escapeXml(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -0,0 +1,332 @@
+/**
+ * Shopee Open Platform (v2) connector
+ *
+ * Order list is cursor-paginated and limited to a 15-day update window;
+ * details are fetched in batches of up to 50 order_sn per call.
+ * Listings are items with optional models (variations); stock is set per model.
+ */
+import type { ExternalOrder } from '../marketplace.service';
+import {
+    BaseConnector,
+    MarketplaceApiError,
+    MarketplaceAuthError,
+    fromUnixSeconds,
+    groupBy,
+    splitListingId,
+    hmacSha256Hex,
+    toAmount,
+    toUnixSeconds,
+} from './base.connector';
+import type {
+    ExternalListing,
+    FetchOrdersParams,
+    ListingPage,
+    MarketplaceOrderStatus,
+    OrderPage,
+    StockUpdate,
+    StockUpdateResult,
+    TokenSet,
+} from './types';
+
+const ORDER_LIST_PATH = '/api/v2/order/get_order_list';
+const ORDER_DETAIL_PATH = '/api/v2/order/get_order_detail';
+const REFRESH_PATH = '/api/v2/auth/access_token/get';
+const ITEM_LIST_PATH = '/api/v2/product/get_item_list';
+const ITEM_INFO_PATH = '/api/v2/product/get_item_base_info';
+const MODEL_LIST_PATH = '/api/v2/product/get_model_list';
+const UPDATE_STOCK_PATH = '/api/v2/product/update_stock';
+const DETAIL_FIELDS = 'buyer_username,item_list,total_amount,estimated_shipping_fee,update_time,currency';
+
+const STATUS_MAP: Record<string, MarketplaceOrderStatus> = {
+    UNPAID: 'pending',
+    READY_TO_SHIP: 'ready_to_ship',
+    PROCESSED: 'ready_to_ship',
+    RETRY_SHIP: 'in_transit',
+    SHIPPED: 'in_transit',
+    TO_CONFIRM_RECEIVE: 'in_transit',
+    COMPLETED: 'delivered',
+    IN_CANCEL: 'cancelled',
+    CANCELLED: 'cancelled',
+    TO_RETURN: 'returned',
+};
+
+/** Error fields every Shopee response carries; empty `error` means success */
+interface ShopeeResponse {
+    error?: string;
+    message?: string;
+}
+
+interface ShopeeOrderItem {
+    item_id: number;
+    model_id?: number;
+    item_sku: string;
+    model_sku?: string;
+    item_name: string;
+    model_name?: string;
+    model_quantity_purchased: number;
+    model_original_price?: number;
+    model_discounted_price?: number;
+}
+
+interface ShopeeOrder {
+    order_sn: string;
+    order_status: string;
+    create_time: number;
+    update_time?: number;
+    buyer_username?: string;
+    currency?: string;
+    total_amount?: number;
+    estimated_shipping_fee?: number;
+    item_list?: ShopeeOrderItem[];
+}
+
+interface ShopeeStockInfo {
+    stock_info_v2?: { summary_info?: { total_available_stock?: number } };
+}
+
+interface ShopeeItem extends ShopeeStockInfo {
+    item_id: number;
+    item_sku: string;
+    item_name: string;
+    has_model?: boolean;
+}
+
+interface ShopeeModel extends ShopeeStockInfo {
+    model_id: number;
+    model_sku: string;
+    model_name?: string;
+}
+
+export class ShopeeConnector extends BaseConnector {
+    readonly platform = 'Shopee' as const;
+    readonly maxWindowMs = 15 * 24 * 60 * 60 * 1000;
+
+    protected get defaultBaseUrl(): string {
+        return 'https://partner.shopeemobile.com';
+    }
+
+    mapStatus(externalStatus: string): MarketplaceOrderStatus {
+        return STATUS_MAP[externalStatus.toUpperCase()] || 'pending';
+    }
+
+    async fetchOrders(params: FetchOrdersParams): Promise<OrderPage> {
+        const list = await this.shopRequest<{
+            response?: { order_list?: { order_sn: string }[]; more?: boolean; next_cursor?: string };
+        }>(ORDER_LIST_PATH, {
+            time_range_field: 'update_time',
+            time_from: toUnixSeconds(params.updatedFrom),
+            time_to: toUnixSeconds(params.updatedTo),
+            page_size: Math.min(params.pageSize || 50, 100),
+            cursor: params.cursor || '',
+        });
+
+        const orderSns = (list.response?.order_list || []).map(o => o.order_sn);
+        const orders: ExternalOrder[] = [];
+
+        for (let i = 0; i < orderSns.length; i += 50) {
+            const detail = await this.shopRequest<{ response?: { order_list?: ShopeeOrder[] } }>(ORDER_DETAIL_PATH, {
+                order_sn_list: orderSns.slice(i, i + 50).join(','),
+                response_optional_fields: DETAIL_FIELDS,
+            });
+            for (const order of detail.response?.order_list || []) {
+                orders.push(this.toExternalOrder(order));
+            }
+        }
+
+        return {
+            orders,
+            nextCursor: list.response?.more ? list.response.next_cursor ?? null : null,
+        };
+    }
+
+    async fetchListings(cursor?: string | null, pageSize = 50): Promise<ListingPage> {
+        const offset = cursor ? parseInt(cursor, 10) : 0;
+        const list = await this.shopRequest<{
+            response?: { item?: { item_id: number }[]; has_next_page?: boolean; next_offset?: number };
+        }>(ITEM_LIST_PATH, {
+            offset,
+            page_size: Math.min(pageSize, 100),
+            item_status: 'NORMAL',
+        });
+
+        const itemIds = (list.response?.item || []).map(i => i.item_id);
+        const listings: ExternalListing[] = [];
+
+        for (let i = 0; i < itemIds.length; i += 50) {
+            const info = await this.shopRequest<{ response?: { item_list?: ShopeeItem[] } }>(ITEM_INFO_PATH, {
+                item_id_list: itemIds.slice(i, i + 50).join(','),
+            });
+
+            for (const item of info.response?.item_list || []) {
+                if (!item.has_model) {
+                    listings.push({
+                        external_item_id: `${item.item_id}:0`,
+                        sku: item.item_sku,
+                        name: item.item_name,
+                        quantity: stockOf(item),
+                    });
+                    continue;
+                }
+
+                const models = await this.shopRequest<{ response?: { model?: ShopeeModel[] } }>(
+                    MODEL_LIST_PATH,
+                    { item_id: item.item_id }
+                );
+                for (const model of models.response?.model || []) {
+                    listings.push({
+                        external_item_id: `${item.item_id}:${model.model_id}`,
+                        sku: model.model_sku,
+                        name: model.model_name ? `${item.item_name} (${model.model_name})` : item.item_name,
+                        quantity: stockOf(model),
+                    });
+                }
+            }
+        }
+
+        return {
+            listings,
+            nextCursor: list.response?.has_next_page ? String(list.response.next_offset) : null,
+        };
+    }
+
+    async updateStock(updates: StockUpdate[]): Promise<StockUpdateResult[]> {
+        const results: StockUpdateResult[] = [];
+        const byItem = groupBy(updates, u => splitListingId(u.external_item_id)[0]);
+
+        for (const [itemId, itemUpdates] of byItem) {
+            const modelIds = new Map(itemUpdates.map(u => [Number(splitListingId(u.external_item_id)[1] || 0), u.external_item_id]));
+            const idFor = (modelId: number) => modelIds.get(modelId) || `${itemId}:${modelId}`;
+            try {
+                const result = await this.shopRequest<{
+                    response?: {
+                        success_list?: { model_id: number }[];
+                        failure_list?: { model_id: number; failed_reason: string }[];
+                    };
+                }>(UPDATE_STOCK_PATH, {}, {
+                    item_id: Number(itemId),
+                    stock_list: itemUpdates.map(u => ({
+                        model_id: Number(splitListingId(u.external_item_id)[1] || 0),
+                        seller_stock: [{ stock: u.quantity }],
+                    })),
+                });
+
+                for (const ok of result.response?.success_list || []) {
+                    results.push({ external_item_id: idFor(ok.model_id), success: true });
+                }
+                for (const failed of result.response?.failure_list || []) {
+                    results.push({ external_item_id: idFor(failed.model_id), success: false, error: failed.failed_reason });
+                }
+            } catch (err) {
+                if (err instanceof MarketplaceAuthError) throw err;
+                for (const u of itemUpdates) {
+                    results.push({ external_item_id: u.external_item_id, success: false, error: (err as Error).message });
+                }
+            }
+        }
+
+        return results;
+    }
+
+    async refreshToken(): Promise<TokenSet> {
+        const partnerId = this.requireCredential(this.config.api_key, 'partner_id (api_key)');
+        const partnerKey = this.requireCredential(this.config.api_secret, 'partner_key (api_secret)');
+        const refreshToken = this.requireCredential(this.config.refresh_token, 'refresh_token');
+        const timestamp = Math.floor(Date.now() / 1000);
+
+        const result = await this.request<ShopeeResponse & {
+            access_token: string;
+            refresh_token?: string;
+            expire_in: number;
+        }>(REFRESH_PATH, {
+            method: 'POST',
+            baseUrl: this.authBaseUrl,
+            query: {
+                partner_id: partnerId,
+                timestamp,
+                sign: hmacSha256Hex(partnerKey, `${partnerId}${REFRESH_PATH}${timestamp}`),
+            },
+            body: {
+                refresh_token: refreshToken,
+                partner_id: Number(partnerId),
+                shop_id: Number(this.config.shop_id),
+            },
+        });
+        this.assertNoError(result);
+
+        const tokens: TokenSet = {
+            access_token: result.access_token,
+            refresh_token: result.refresh_token,
+            token_expiry: new Date(Date.now() + result.expire_in * 1000).toISOString(),
+        };
+        this.setTokens(tokens);
+        return tokens;
+    }
+
+    /**
+     * Signed shop-level call (POST when a body is given).
+     * Shopee signs partner_id + path + timestamp + access_token + shop_id.
+     */
+    private async shopRequest<T>(
+        path: string,
+        query: Record<string, string | number>,
+        body?: unknown
+    ): Promise<T & ShopeeResponse> {
+        const partnerId = this.requireCredential(this.config.api_key, 'partner_id (api_key)');
+        const partnerKey = this.requireCredential(this.config.api_secret, 'partner_key (api_secret)');
+        const accessToken = this.requireCredential(this.config.access_token, 'access_token');
+        const timestamp = Math.floor(Date.now() / 1000);
+        const sign = hmacSha256Hex(
+            partnerKey,
+            `${partnerId}${path}${timestamp}${accessToken}${this.config.shop_id}`
+        );
+
+        const result = await this.request<T & ShopeeResponse>(path, {
+            method: body ? 'POST' : 'GET',
+            body,
+            query: {
+                ...query,
+                partner_id: partnerId,
+                timestamp,
+                access_token: accessToken,
+                shop_id: this.config.shop_id,
+                sign,
+            },
+        });
+        this.assertNoError(result);
+        return result;
+    }
+
+    private assertNoError(result: ShopeeResponse | null): void {
+        if (!result?.error) return;
+        if (/access_token|auth/i.test(result.error)) {
+            throw new MarketplaceAuthError(this.platform, result.message || result.error, result);
+        }
+        throw new MarketplaceApiError(this.platform, result.message || result.error, 502, result);
+    }
+
+    private toExternalOrder(order: ShopeeOrder): ExternalOrder {
+        return {
+            external_id: order.order_sn,
+            external_status: order.order_status,
+            mapped_status: this.mapStatus(order.order_status),
+            order_date: fromUnixSeconds(order.create_time),
+            updated_at: order.update_time ? fromUnixSeconds(order.update_time) : undefined,
+            customer_name: order.buyer_username || 'Shopee Buyer',
+            currency: order.currency || 'IDR',
+            total_amount: toAmount(order.total_amount),
+            shipping_fee: toAmount(order.estimated_shipping_fee),
+            items: (order.item_list || []).map(item => ({
+                external_item_id: `${item.item_id}-${item.model_id || 0}`,
+                sku: item.model_sku || item.item_sku,
+                product_name: item.model_name ? `${item.item_name} (${item.model_name})` : item.item_name,
+                quantity: item.model_quantity_purchased,
+                original_price: toAmount(item.model_original_price),
+                deal_price: toAmount(item.model_discounted_price),
+            })),
+        };
+    }
+}
+
+function stockOf(entry: ShopeeStockInfo): number {
+    return entry.stock_info_v2?.summary_info?.total_available_stock ?? 0;
+}
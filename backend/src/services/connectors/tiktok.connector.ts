@@ -0,0 +1,262 @@
+/**
+ * TikTok Shop Open API (202309) connector
+ *
+ * Order search is token-paginated; line items come back one per unit and are
+ * grouped by SKU before mapping. Listings are products with SKUs; inventory is
+ * updated per product.
+ */
+import type { ExternalOrder } from '../marketplace.service';
+import {
+    BaseConnector,
+    MarketplaceApiError,
+    MarketplaceAuthError,
+    groupUnitLines,
+    hmacSha256Hex,
+    toAmount,
+    toUnixSeconds,
+    fromUnixSeconds,
+    groupBy,
+    splitListingId,
+} from './base.connector';
+import type {
+    FetchOrdersParams,
+    ListingPage,
+    MarketplaceOrderStatus,
+    OrderPage,
+    StockUpdate,
+    StockUpdateResult,
+    TokenSet,
+} from './types';
+
+const ORDER_SEARCH_PATH = '/order/202309/orders/search';
+const PRODUCT_SEARCH_PATH = '/product/202309/products/search';
+const REFRESH_PATH = '/api/v2/token/refresh';
+
+/** Expired / invalid access token */
+const AUTH_ERROR_CODES = [105001, 105002];
+
+const STATUS_MAP: Record<string, MarketplaceOrderStatus> = {
+    UNPAID: 'pending',
+    ON_HOLD: 'pending',
+    AWAITING_SHIPMENT: 'ready_to_ship',
+    AWAITING_COLLECTION: 'ready_to_ship',
+    PARTIALLY_SHIPPING: 'in_transit',
+    IN_TRANSIT: 'in_transit',
+    DELIVERED: 'delivered',
+    COMPLETED: 'delivered',
+    CANCELLED: 'cancelled',
+};
+
+/** Error fields every TikTok response carries; code 0 means success */
+interface TikTokResponse {
+    code?: number;
+    message?: string;
+}
+
+interface TikTokLineItem {
+    sku_id: string;
+    seller_sku: string;
+    product_name: string;
+    sku_name?: string;
+    original_price?: string;
+    sale_price?: string;
+}
+
+interface TikTokOrder {
+    id: string;
+    status: string;
+    create_time: number;
+    update_time?: number;
+    recipient_address?: { name?: string };
+    payment?: { currency?: string; total_amount?: string; shipping_fee?: string };
+    line_items?: TikTokLineItem[];
+}
+
+interface TikTokProduct {
+    id: string;
+    title: string;
+    skus?: { id: string; seller_sku: string; inventory?: { quantity?: number }[] }[];
+}
+
+export class TikTokConnector extends BaseConnector {
+    readonly platform = 'TikTok' as const;
+    readonly maxWindowMs = 30 * 24 * 60 * 60 * 1000;
+
+    protected get defaultBaseUrl(): string {
+        return 'https://open-api.tiktokglobalshop.com';
+    }
+
+    protected get defaultAuthBaseUrl(): string {
+        return 'https://auth.tiktok-shops.com';
+    }
+
+    mapStatus(externalStatus: string): MarketplaceOrderStatus {
+        return STATUS_MAP[externalStatus.toUpperCase()] || 'pending';
+    }
+
+    async fetchOrders(params: FetchOrdersParams): Promise<OrderPage> {
+        const query: Record<string, string | number> = { page_size: Math.min(params.pageSize || 50, 100) };
+        if (params.cursor) query.page_token = params.cursor;
+
+        const result = await this.shopRequest<{
+            data?: { orders?: TikTokOrder[]; next_page_token?: string };
+        }>(ORDER_SEARCH_PATH, query, {
+            update_time_ge: toUnixSeconds(params.updatedFrom),
+            update_time_lt: toUnixSeconds(params.updatedTo),
+        });
+
+        return {
+            orders: (result.data?.orders || []).map(order => this.toExternalOrder(order)),
+            nextCursor: result.data?.next_page_token || null,
+        };
+    }
+
+    async fetchListings(cursor?: string | null, pageSize = 50): Promise<ListingPage> {
+        const query: Record<string, string | number> = { page_size: Math.min(pageSize, 100) };
+        if (cursor) query.page_token = cursor;
+
+        const result = await this.shopRequest<{
+            data?: { products?: TikTokProduct[]; next_page_token?: string };
+        }>(PRODUCT_SEARCH_PATH, query, { status: 'ACTIVATE' });
+
+        return {
+            listings: (result.data?.products || []).flatMap(product =>
+                (product.skus || []).map(sku => ({
+                    external_item_id: `${product.id}:${sku.id}`,
+                    sku: sku.seller_sku,
+                    name: product.title,
+                    quantity: (sku.inventory || []).reduce((sum, inv) => sum + (inv.quantity || 0), 0),
+                }))
+            ),
+            nextCursor: result.data?.next_page_token || null,
+        };
+    }
+
+    async updateStock(updates: StockUpdate[]): Promise<StockUpdateResult[]> {
+        const results: StockUpdateResult[] = [];
+        const byProduct = groupBy(updates, u => splitListingId(u.external_item_id)[0]);
+
+        for (const [productId, productUpdates] of byProduct) {
+            try {
+                await this.shopRequest(`/product/202309/products/${productId}/inventory/update`, {}, {
+                    skus: productUpdates.map(u => ({
+                        id: splitListingId(u.external_item_id)[1],
+                        inventory: [{ quantity: u.quantity }],
+                    })),
+                });
+                results.push(...productUpdates.map(u => ({ external_item_id: u.external_item_id, success: true })));
+            } catch (err) {
+                if (err instanceof MarketplaceAuthError) throw err;
+                results.push(...productUpdates.map(u => ({
+                    external_item_id: u.external_item_id,
+                    success: false,
+                    error: (err as Error).message,
+                })));
+            }
+        }
+
+        return results;
+    }
+
+    async refreshToken(): Promise<TokenSet> {
+        const appKey = this.requireCredential(this.config.api_key, 'app_key (api_key)');
+        const appSecret = this.requireCredential(this.config.api_secret, 'app_secret (api_secret)');
+        const refreshToken = this.requireCredential(this.config.refresh_token, 'refresh_token');
+
+        const result = await this.request<TikTokResponse & {
+            data: { access_token: string; refresh_token?: string; access_token_expire_in: number };
+        }>(REFRESH_PATH, {
+            baseUrl: this.authBaseUrl,
+            query: {
+                app_key: appKey,
+                app_secret: appSecret,
+                refresh_token: refreshToken,
+                grant_type: 'refresh_token',
+            },
+        });
+        this.assertNoError(result);
+
+        const tokens: TokenSet = {
+            access_token: result.data.access_token,
+            refresh_token: result.data.refresh_token,
+            token_expiry: fromUnixSeconds(result.data.access_token_expire_in),
+        };
+        this.setTokens(tokens);
+        return tokens;
+    }
+
+    /**
+     * Signed shop-level POST.
+     */
+    private async shopRequest<T = unknown>(
+        path: string,
+        query: Record<string, string | number>,
+        body: unknown
+    ): Promise<T & TikTokResponse> {
+        const appKey = this.requireCredential(this.config.api_key, 'app_key (api_key)');
+        const appSecret = this.requireCredential(this.config.api_secret, 'app_secret (api_secret)');
+        const accessToken = this.requireCredential(this.config.access_token, 'access_token');
+
+        const params: Record<string, string | number> = {
+            ...query,
+            app_key: appKey,
+            timestamp: Math.floor(Date.now() / 1000),
+            shop_cipher: this.config.shop_id,
+        };
+        params.sign = signRequest(appSecret, path, params, JSON.stringify(body));
+
+        const result = await this.request<T & TikTokResponse>(path, {
+            method: 'POST',
+            query: params,
+            body,
+            headers: { 'x-tts-access-token': accessToken },
+        });
+        this.assertNoError(result);
+        return result;
+    }
+
+    private assertNoError(result: TikTokResponse | null): void {
+        if (!result?.code) return;
+        if (AUTH_ERROR_CODES.includes(result.code)) {
+            throw new MarketplaceAuthError(this.platform, result.message || `code ${result.code}`, result);
+        }
+        throw new MarketplaceApiError(this.platform, result.message || `code ${result.code}`, 502, result);
+    }
+
+    private toExternalOrder(order: TikTokOrder): ExternalOrder {
+        const items = (order.line_items || []).map(line => ({
+            external_item_id: String(line.sku_id),
+            sku: line.seller_sku,
+            product_name: line.sku_name ? `${line.product_name} (${line.sku_name})` : line.product_name,
+            quantity: 1,
+            original_price: toAmount(line.original_price),
+            deal_price: toAmount(line.sale_price),
+        }));
+
+        return {
+            external_id: String(order.id),
+            external_status: order.status,
+            mapped_status: this.mapStatus(order.status),
+            order_date: fromUnixSeconds(order.create_time),
+            updated_at: order.update_time ? fromUnixSeconds(order.update_time) : undefined,
+            customer_name: order.recipient_address?.name || 'TikTok Buyer',
+            currency: order.payment?.currency || 'IDR',
+            total_amount: toAmount(order.payment?.total_amount),
+            shipping_fee: toAmount(order.payment?.shipping_fee),
+            items: groupUnitLines(items),
+        };
+    }
+}
+
+/**
+ * TikTok signs secret + path + sorted key/value pairs (excluding sign and
+ * access_token) + body + secret.
+ */
+function signRequest(secret: string, path: string, query: Record<string, string | number>, body: string): string {
+    const params = Object.keys(query)
+        .filter(key => key !== 'sign' && key !== 'access_token')
+        .sort()
+        .map(key => `${key}${query[key]}`)
+        .join('');
+    return hmacSha256Hex(secret, `${secret}${path}${params}${body}${secret}`);
+}
@@ -0,0 +1,206 @@
+/**
+ * Tokopedia Fulfillment Service (fs) connector
+ *
+ * Uses client-credentials tokens (no refresh token: refreshing re-issues a token).
+ * Order list is page-numbered and limited to a 3-day window.
+ * Listings are products (each variant is its own product ID); stock is set per product ID.
+ */
+import type { ExternalOrder } from '../marketplace.service';
+import { BaseConnector, MarketplaceApiError, fromUnixSeconds, toAmount, toUnixSeconds } from './base.connector';
+import type {
+    FetchOrdersParams,
+    ListingPage,
+    MarketplaceOrderStatus,
+    OrderPage,
+    StockUpdate,
+    StockUpdateResult,
+    TokenSet,
+} from './types';
+
+/** Tokopedia wraps payloads in `data`; a non-zero header.error_code means failure */
+interface TokopediaResponse<T> {
+    header?: { error_code?: number | string; reason?: string; messages?: string };
+    data?: T;
+}
+
+interface TokopediaOrder {
+    order_id: number;
+    invoice_ref_num?: string;
+    order_status: number;
+    create_time: number;
+    update_time?: number;
+    buyer?: { name?: string };
+    amt?: { ttl_amount?: number; shipping_cost?: number };
+    products?: {
+        id: number;
+        sku: string;
+        name: string;
+        quantity: number;
+        price?: number;
+        total_price?: number;
+    }[];
+}
+
+interface TokopediaProduct {
+    basic?: { productID?: number; name?: string };
+    other?: { sku?: string };
+    stock?: { value?: number };
+}
+
+export class TokopediaConnector extends BaseConnector {
+    readonly platform = 'Tokopedia' as const;
+    readonly maxWindowMs = 3 * 24 * 60 * 60 * 1000;
+
+    protected get defaultBaseUrl(): string {
+        return 'https://fs.tokopedia.net';
+    }
+
+    protected get defaultAuthBaseUrl(): string {
+        return 'https://accounts.tokopedia.com';
+    }
+
+    /**
+     * Tokopedia reports numeric status codes; map by range:
+     * 0-99 cancelled/rejected, 100-399 awaiting payment or seller,
+     * 400-499 accepted/awaiting pickup, 500-599 shipping, 600+ delivered/finished.
+     */
+    mapStatus(externalStatus: string): MarketplaceOrderStatus {
+        const code = parseInt(externalStatus, 10);
+        if (Number.isNaN(code)) return 'pending';
+        if (code < 100) return 'cancelled';
+        if (code < 400) return 'pending';
+        if (code < 500) return 'ready_to_ship';
+        if (code < 600) return 'in_transit';
+        return 'delivered';
+    }
+
+    async fetchOrders(params: FetchOrdersParams): Promise<OrderPage> {
+        const fsId = this.requireCredential(this.config.app_id, 'fs_id (app_id)');
+        const perPage = Math.min(params.pageSize || 50, 100);
+        const page = params.cursor ? parseInt(params.cursor, 10) : 1;
+
+        const result = await this.request<TokopediaResponse<TokopediaOrder[]> | null>(`/v2/order/list`, {
+            query: {
+                fs_id: fsId,
+                shop_id: this.config.shop_id,
+                from_date: toUnixSeconds(params.updatedFrom),
+                to_date: toUnixSeconds(params.updatedTo),
+                page,
+                per_page: perPage,
+            },
+            headers: this.authHeaders(),
+        });
+        this.assertNoError(result);
+
+        const rows = result?.data || [];
+        return {
+            orders: rows.map(order => this.toExternalOrder(order)),
+            nextCursor: rows.length === perPage ? String(page + 1) : null,
+        };
+    }
+
+    async fetchListings(cursor?: string | null, pageSize = 50): Promise<ListingPage> {
+        const fsId = this.requireCredential(this.config.app_id, 'fs_id (app_id)');
+        const perPage = Math.min(pageSize, 50);
+        const page = cursor ? parseInt(cursor, 10) : 1;
+
+        const result = await this.request<TokopediaResponse<TokopediaProduct[]> | null>(`/inventory/v1/fs/${fsId}/product/info`, {
+            query: { shop_id: this.config.shop_id, page, per_page: perPage },
+            headers: this.authHeaders(),
+        });
+        this.assertNoError(result);
+
+        const rows = result?.data || [];
+        return {
+            listings: rows.map(product => ({
+                external_item_id: String(product.basic?.productID),
+                sku: product.other?.sku || '',
+                name: product.basic?.name || '',
+                quantity: product.stock?.value ?? 0,
+            })),
+            nextCursor: rows.length === perPage ? String(page + 1) : null,
+        };
+    }
+
+    async updateStock(updates: StockUpdate[]): Promise<StockUpdateResult[]> {
+        const fsId = this.requireCredential(this.config.app_id, 'fs_id (app_id)');
+        const results: StockUpdateResult[] = [];
+
+        // The stock endpoint accepts up to 50 products per call
+        for (let i = 0; i < updates.length; i += 50) {
+            const batch = updates.slice(i, i + 50);
+            const result = await this.request<TokopediaResponse<{
+                failed_rows_data?: { product_id: number; message: string }[];
+            }> | null>(`/inventory/v1/fs/${fsId}/stock/update`, {
+                method: 'POST',
+                query: { shop_id: this.config.shop_id },
+                body: batch.map(u => ({ product_id: Number(u.external_item_id), new_stock: u.quantity })),
+                headers: this.authHeaders(),
+            });
+
+            const failed = new Map<string, string>(
+                (result?.data?.failed_rows_data || []).map(row => [String(row.product_id), row.message])
+            );
+            for (const u of batch) {
+                const error = failed.get(u.external_item_id) ?? (result?.header?.error_code ? result.header.reason : undefined);
+                results.push({ external_item_id: u.external_item_id, success: error === undefined, error });
+            }
+        }
+
+        return results;
+    }
+
+    async refreshToken(): Promise<TokenSet> {
+        const clientId = this.requireCredential(this.config.api_key, 'client_id (api_key)');
+        const clientSecret = this.requireCredential(this.config.api_secret, 'client_secret (api_secret)');
+        const basic = Buffer.from(`${clientId}:${clientSecret}`).toString('base64');
+
+        const result = await this.request<{ access_token: string; expires_in: number }>('/token', {
+            method: 'POST',
+            baseUrl: this.authBaseUrl,
+            query: { grant_type: 'client_credentials' },
+            headers: { Authorization: `Basic ${basic}` },
+        });
+
+        const tokens: TokenSet = {
+            access_token: result.access_token,
+            token_expiry: new Date(Date.now() + result.expires_in * 1000).toISOString(),
+        };
+        this.setTokens(tokens);
+        return tokens;
+    }
+
+    private authHeaders(): Record<string, string> {
+        const accessToken = this.requireCredential(this.config.access_token, 'access_token');
+        return { Authorization: `Bearer ${accessToken}` };
+    }
+
+    private assertNoError(result: TokopediaResponse<unknown> | null): void {
+        if (result?.header?.error_code) {
+            throw new MarketplaceApiError(this.platform, result.header.reason || result.header.messages || `error ${result.header.error_code}`, 502, result);
+        }
+    }
+
+    private toExternalOrder(order: TokopediaOrder): ExternalOrder {
+        const status = String(order.order_status);
+        return {
+            external_id: String(order.invoice_ref_num || order.order_id),
+            external_status: status,
+            mapped_status: this.mapStatus(status),
+            order_date: fromUnixSeconds(order.create_time),
+            updated_at: order.update_time ? fromUnixSeconds(order.update_time) : undefined,
+            customer_name: order.buyer?.name || 'Tokopedia Buyer',
+            currency: 'IDR',
+            total_amount: toAmount(order.amt?.ttl_amount),
+            shipping_fee: toAmount(order.amt?.shipping_cost),
+            items: (order.products || []).map(item => ({
+                external_item_id: String(item.id),
+                sku: item.sku,
+                product_name: item.name,
+                quantity: item.quantity,
+                original_price: toAmount(item.price),
+                deal_price: item.quantity ? toAmount(item.total_price) / item.quantity : toAmount(item.price),
+            })),
+        };
+    }
+}
@@ -0,0 +1,100 @@
+/**
+ * Marketplace Connector Types
+ * Contract every marketplace adapter implements so order sync and stock push stay platform-agnostic
+ */
+import type { ExternalOrder, MarketplacePlatform } from '../marketplace.service';
+
+export type MarketplaceOrderStatus =
+    | 'pending'
+    | 'ready_to_ship'
+    | 'in_transit'
+    | 'delivered'
+    | 'cancelled'
+    | 'returned';
+
+/**
+ * Credentials and endpoint settings taken from a `marketplace_accounts` row.
+ */
+export interface ConnectorConfig {
+    shop_id: string;
+    api_key?: string;
+    api_secret?: string;
+    app_id?: string;
+    access_token?: string;
+    refresh_token?: string;
+    token_expiry?: string;
+    api_base_url?: string;
+}
+
+export interface TokenSet {
+    access_token: string;
+    refresh_token?: string;
+    token_expiry: string;
+}
+
+export interface FetchOrdersParams {
+    /** ISO timestamp, inclusive */
+    updatedFrom: string;
+    /** ISO timestamp, exclusive */
+    updatedTo: string;
+    /** Opaque page cursor returned by the previous call (null/undefined for the first page) */
+    cursor?: string | null;
+    pageSize?: number;
+}
+
+export interface OrderPage {
+    orders: ExternalOrder[];
+    nextCursor: string | null;
+}
+
+/**
+ * A sellable listing (product variation) on the marketplace.
+ */
+export interface ExternalListing {
+    /** Identifies the variation for stock updates, e.g. `item_id:model_id` on Shopee */
+    external_item_id: string;
+    sku: string;
+    name: string;
+    /** Stock the marketplace currently shows */
+    quantity: number;
+}
+
+export interface ListingPage {
+    listings: ExternalListing[];
+    nextCursor: string | null;
+}
+
+export interface StockUpdate {
+    external_item_id: string;
+    sku: string;
+    quantity: number;
+}
+
+export interface StockUpdateResult {
+    external_item_id: string;
+    success: boolean;
+    error?: string;
+}
+
+export interface MarketplaceConnector {
+    readonly platform: MarketplacePlatform;
+
+    /** Widest update-time window a single order query accepts, in milliseconds */
+    readonly maxWindowMs: number;
+
+    fetchOrders(params: FetchOrdersParams): Promise<OrderPage>;
+
+    /** Pages through active listings with their current marketplace stock */
+    fetchListings(cursor?: string | null, pageSize?: number): Promise<ListingPage>;
+
+    /** Sets the sellable stock of listings; failures are reported per listing, not thrown */
+    updateStock(updates: StockUpdate[]): Promise<StockUpdateResult[]>;
+
+    /** Exchanges the refresh token (or client credentials) for a new access token */
+    refreshToken(): Promise<TokenSet>;
+
+    /** Makes subsequent requests use a token obtained elsewhere (e.g. after refresh) */
+    setTokens(tokens: TokenSet): void;
+
+    mapStatus(externalStatus: string): MarketplaceOrderStatus;
+}
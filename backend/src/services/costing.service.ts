@@ -0,0 +1,508 @@
+/**
+ * Costing Service
+ * Perpetual inventory cost per item and warehouse, by weighted average (default)
+ * or FIFO layers, chosen per company.
+ *
+ * The `apply_inventory_cost` ledger trigger keeps the running position and values
+ * every outflow itself, so callers no longer supply issue costs. Under weighted
+ * average, back-dated receipts are corrected with a recost run, which journals the
+ * difference instead of touching the immutable ledger.
+ */
+import { supabaseServer } from '../config/supabase';
+import { getMappedAccountCodes } from './coa.service';
+import { BusinessRuleError, NotFoundError, ValidationError } from './error.service';
+import { createJournal, JournalLine } from './journal.service';
+
+// Types
+export type CostItemType = 'RAW' | 'FG';
+export type ValuationMethod = 'average' | 'fifo';
+
+export interface ItemCost {
+    company_id: string;
+    warehouse_id: string;
+    qty_on_hand: number;
+    total_value: number;
+    avg_unit_cost: number;
+    last_recosted_at?: string | null;
+    updated_at?: string;
+}
+
+export interface RecostParams {
+    company_id: string;
+    item_type: CostItemType;
+    /** materials.id for RAW, product_variants.id for FG */
+    item_id: string;
+    warehouse_id: string;
+    /** Earliest transaction date whose issues may be revalued (the back-dated receipt date) */
+    from_date: string;
+}
+
+export interface RecostLine {
+    ledger_id: string;
+    transaction_date: string;
+    reference_type: string | null;
+    reference_number: string | null;
+    qty_out: number;
+    posted_unit_cost: number;
+    recalculated_unit_cost: number;
+    cost_difference: number;
+}
+
+export interface RecostRun {
+    id: string;
+    company_id: string;
+    run_number: string;
+    item_type: CostItemType;
+    item_id: string;
+    warehouse_id: string;
+    from_date: string;
+    qty_before: number | null;
+    value_before: number | null;
+    qty_after: number;
+    value_after: number;
+    total_difference: number;
+    journal_id: string | null;
+    lines?: RecostLine[];
+}
+
+export interface CostLayer {
+    id: string;
+    item_type: CostItemType;
+    item_id: string;
+    warehouse_id: string;
+    source: 'RECEIPT' | 'TRANSFER' | 'OPENING';
+    receipt_date: string;
+    reference_number: string | null;
+    qty_received: number;
+    qty_remaining: number;
+    unit_cost: number;
+}
+
+export interface LayerConsumption {
+    id: string;
+    item_type: CostItemType;
+    item_id: string;
+    item_code: string;
+    item_name: string;
+    warehouse_id: string;
+    warehouse_name: string;
+    layer_id: string;
+    layer_source: CostLayer['source'];
+    receipt_date: string;
+    receipt_reference: string | null;
+    issue_ledger_id: string;
+    consumed_date: string;
+    reference_type: string | null;
+    issue_reference: string | null;
+    qty: number;
+    unit_cost: number;
+    total_cost: number;
+}
+
+export interface ItemValuation {
+    item_type: CostItemType;
+    item_id: string;
+    warehouse_id: string;
+    qty_on_hand: number;
+    inventory_value: number;
+}
+
+export interface GLAccountBalance {
+    mapping_code: string;
+    account_code: string;
+    account_name: string;
+    balance: number;
+}
+
+/** Inventory value vs GL balance of its mapped account, per item type */
+export interface ValuationTieOut {
+    item_type: CostItemType;
+    mapping_code: string;
+    account_code: string | null;
+    inventory_value: number;
+    gl_balance: number;
+    difference: number;
+    tied: boolean;
+}
+
+export interface PeriodValuation {
+    period_id: string;
+    as_of: string;
+    method: ValuationMethod;
+    items: ItemValuation[];
+    tie_out: ValuationTieOut[];
+}
+
+const COST_TABLES: Record<CostItemType, { table: string; itemColumn: string }> = {
+    RAW: { table: 'raw_material_costs', itemColumn: 'material_id' },
+    FG: { table: 'finished_goods_costs', itemColumn: 'product_variant_id' },
+};
+
+/** Where issued cost went: materials are consumed into WIP, finished goods into COGS */
+const CONSUMPTION_MAPPING: Record<CostItemType, 'INVENTORY_WIP' | 'COST_OF_GOODS_SOLD'> = {
+    RAW: 'INVENTORY_WIP',
+    FG: 'COST_OF_GOODS_SOLD',
+};
+
+const INVENTORY_MAPPING: Record<CostItemType, 'INVENTORY_RAW_MATERIALS' | 'INVENTORY_FINISHED_GOODS'> = {
+    RAW: 'INVENTORY_RAW_MATERIALS',
+    FG: 'INVENTORY_FINISHED_GOODS',
+};
+
+// ==================== COST QUERIES ====================
+
+/**
+ * Current weighted-average position of an item in a warehouse.
+ *
+ * @returns The position, or null if the item never moved in that warehouse
+ */
+export async function getItemCost(
+    companyId: string,
+    itemType: CostItemType,
+    itemId: string,
+    warehouseId: string
+): Promise<ItemCost | null> {
+    const { table, itemColumn } = COST_TABLES[itemType];
+    const { data, error } = await supabaseServer
+        .from(table)
+        .select('*')
+        .eq('company_id', companyId)
+        .eq(itemColumn, itemId)
+        .eq('warehouse_id', warehouseId)
+        .maybeSingle();
+
+    if (error) throw error;
+    return data;
+}
+
+/**
+ * All weighted-average positions of a company, optionally for one warehouse.
+ */
+export async function getItemCosts(
+    companyId: string,
+    itemType: CostItemType,
+    warehouseId?: string
+): Promise<ItemCost[]> {
+    const { table } = COST_TABLES[itemType];
+    let query = supabaseServer
+        .from(table)
+        .select('*')
+        .eq('company_id', companyId)
+        .neq('qty_on_hand', 0);
+    if (warehouseId) query = query.eq('warehouse_id', warehouseId);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+}
+
+// ==================== VALUATION METHOD ====================
+
+export async function getValuationMethod(companyId: string): Promise<ValuationMethod> {
+    const { data, error } = await supabaseServer.rpc('get_inventory_valuation_method', { p_company_id: companyId });
+
+    if (error) throw error;
+    return data === 'fifo' ? 'fifo' : 'average';
+}
+
+/**
+ * Changes how a company values inventory outflows.
+ *
+ * Switching to FIFO opens one layer per item/warehouse at its current average
+ * cost, so the inventory value is unchanged; later receipts add layers and
+ * issues consume them oldest first. Switching back to average keeps using the
+ * running positions, which are maintained under both methods.
+ *
+ * @throws {ValidationError} If the method is unknown
+ */
+export async function setValuationMethod(companyId: string, method: ValuationMethod): Promise<void> {
+    if (method !== 'average' && method !== 'fifo') {
+        throw new ValidationError(`Invalid valuation method: ${method}`);
+    }
+
+    const { error } = await supabaseServer.rpc('set_inventory_valuation_method', {
+        p_company_id: companyId,
+        p_method: method,
+    });
+
+    if (error) throw error;
+}
+
+// ==================== FIFO LAYERS ====================
+
+/**
+ * Open FIFO layers, oldest first.
+ */
+export async function getCostLayers(
+    companyId: string,
+    filters: { itemType?: CostItemType; itemId?: string; warehouseId?: string; includeConsumed?: boolean } = {}
+): Promise<CostLayer[]> {
+    let query = supabaseServer
+        .from('inventory_cost_layers')
+        .select('*')
+        .eq('company_id', companyId)
+        .order('receipt_date')
+        .order('created_at');
+    if (!filters.includeConsumed) query = query.gt('qty_remaining', 0);
+    if (filters.itemType) query = query.eq('item_type', filters.itemType);
+    if (filters.itemId) query = query.eq('item_id', filters.itemId);
+    if (filters.warehouseId) query = query.eq('warehouse_id', filters.warehouseId);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+}
+
+/**
+ * Layer consumption report: each issue in the date range with the layers it was costed from.
+ */
+export async function getLayerConsumptionReport(
+    companyId: string,
+    fromDate: string,
+    toDate: string,
+    filters: { itemType?: CostItemType; itemId?: string; warehouseId?: string } = {}
+): Promise<LayerConsumption[]> {
+    let query = supabaseServer
+        .from('inventory_layer_consumption_vw')
+        .select('*')
+        .eq('company_id', companyId)
+        .gte('consumed_date', fromDate)
+        .lte('consumed_date', toDate)
+        .order('consumed_date')
+        .order('receipt_date');
+    if (filters.itemType) query = query.eq('item_type', filters.itemType);
+    if (filters.itemId) query = query.eq('item_id', filters.itemId);
+    if (filters.warehouseId) query = query.eq('warehouse_id', filters.warehouseId);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+}
+
+// ==================== PERIOD-END VALUATION ====================
+
+/**
+ * Inventory valuation at the end of an accounting period, tied to the GL.
+ *
+ * **Workflow:**
+ * 1. Value every item/warehouse from the ledger up to the period end date
+ *    (each row carries the cost of the company method, net of recost corrections)
+ * 2. Read the balances of the mapped raw material and finished goods inventory accounts
+ * 3. Compare the totals per item type
+ *
+ * @param companyId - Company UUID
+ * @param periodId - Accounting period UUID
+ * @returns Item valuations and the GL tie-out per item type
+ * @throws {NotFoundError} If the period does not exist
+ */
+export async function getPeriodEndValuation(companyId: string, periodId: string): Promise<PeriodValuation> {
+    const { data: period, error: periodError } = await supabaseServer
+        .from('accounting_periods')
+        .select('id, end_date')
+        .eq('id', periodId)
+        .eq('company_id', companyId)
+        .single();
+
+    if (periodError || !period) throw new NotFoundError('Accounting period', periodId);
+
+    const [method, valuation, balances] = await Promise.all([
+        getValuationMethod(companyId),
+        supabaseServer.rpc('inventory_valuation_as_of', { p_company_id: companyId, p_as_of: period.end_date }),
+        supabaseServer.rpc('inventory_gl_balances', { p_company_id: companyId, p_as_of: period.end_date }),
+    ]);
+
+    if (valuation.error) throw valuation.error;
+    if (balances.error) throw balances.error;
+
+    const items: ItemValuation[] = valuation.data || [];
+    return {
+        period_id: periodId,
+        as_of: period.end_date,
+        method,
+        items,
+        tie_out: buildValuationTieOut(items, balances.data || []),
+    };
+}
+
+/**
+ * Sums item valuations per item type and compares them with the mapped GL accounts.
+ */
+export function buildValuationTieOut(items: ItemValuation[], balances: GLAccountBalance[]): ValuationTieOut[] {
+    return (Object.keys(INVENTORY_MAPPING) as CostItemType[]).map(itemType => {
+        const mappingCode = INVENTORY_MAPPING[itemType];
+        const account = balances.find(b => b.mapping_code === mappingCode);
+        const inventoryValue = round2(items
+            .filter(i => i.item_type === itemType)
+            .reduce((sum, i) => sum + Number(i.inventory_value), 0));
+        const glBalance = round2(Number(account?.balance || 0));
+        const difference = round2(inventoryValue - glBalance);
+
+        return {
+            item_type: itemType,
+            mapping_code: mappingCode,
+            account_code: account?.account_code || null,
+            inventory_value: inventoryValue,
+            gl_balance: glBalance,
+            difference,
+            tied: Math.abs(difference) < 0.01,
+        };
+    });
+}
+
+// ==================== RECOST ====================
+
+/**
+ * Recalculates the weighted average of an item after a back-dated receipt.
+ *
+ * **Workflow:**
+ * 1. Replay the item/warehouse ledger in transaction-date order (`recost_weighted_average`)
+ * 2. Record each issue on or after `from_date` whose cost changed, and reset the running position
+ * 3. Journal the total difference between inventory and its consumption account
+ *    (WIP for materials, COGS for finished goods) on the run date
+ *
+ * Ledger rows are immutable, so posted issue costs stay as they were; the recost
+ * lines show which documents the correction belongs to.
+ *
+ * @param params - Item, warehouse and earliest affected date
+ * @param userId - User running the recost
+ * @returns The run with its lines
+ * @throws {ValidationError} If the item type or date is invalid
+ * @throws {BusinessRuleError} If the company uses FIFO, or there is no open period for the run date
+ *
+ * @example
+ * ```typescript
+ * // A receipt dated 3 January was entered on 10 January
+ * const run = await recostItem({
+ *   company_id: companyId,
+ *   item_type: 'RAW',
+ *   item_id: materialId,
+ *   warehouse_id: warehouseId,
+ *   from_date: '2026-01-03'
+ * }, userId);
+ * console.log(`Issues revalued by ${run.total_difference}`);
+ * ```
+ */
+export async function recostItem(params: RecostParams, userId: string): Promise<RecostRun> {
+    if (!COST_TABLES[params.item_type]) {
+        throw new ValidationError(`Invalid item type: ${params.item_type}`);
+    }
+    if (Number.isNaN(Date.parse(params.from_date))) {
+        throw new ValidationError(`Invalid from date: ${params.from_date}`);
+    }
+    if (await getValuationMethod(params.company_id) === 'fifo') {
+        throw new BusinessRuleError('Recost applies to weighted-average valuation; FIFO issues are costed from their layers');
+    }
+
+    const { data: runId, error } = await supabaseServer.rpc('recost_weighted_average', {
+        p_company_id: params.company_id,
+        p_item_type: params.item_type,
+        p_item_id: params.item_id,
+        p_warehouse_id: params.warehouse_id,
+        p_from_date: params.from_date,
+        p_user_id: userId,
+    });
+
+    if (error) throw error;
+
+    const run = await getRecostRun(runId);
+    if (Number(run.total_difference) === 0) return run;
+
+    const accounts = await getMappedAccountCodes(params.company_id, [
+        CONSUMPTION_MAPPING[params.item_type],
+        INVENTORY_MAPPING[params.item_type],
+    ]);
+    const journalLines = buildRecostJournalLines(Number(run.total_difference), {
+        consumption: accounts[CONSUMPTION_MAPPING[params.item_type]],
+        inventory: accounts[INVENTORY_MAPPING[params.item_type]],
+    }, run.run_number);
+
+    const today = new Date().toISOString().split('T')[0];
+    const { data: period } = await supabaseServer
+        .from('accounting_periods')
+        .select('id')
+        .eq('company_id', params.company_id)
+        .eq('status', 'open')
+        .lte('start_date', today)
+        .gte('end_date', today)
+        .single();
+
+    if (!period) throw new BusinessRuleError('No open accounting period for the recost date');
+
+    const journal = await createJournal({
+        company_id: params.company_id,
+        period_id: period.id,
+        journal_number: run.run_number,
+        journal_date: today,
+        description: `Weighted-average recost from ${params.from_date}`,
+        reference_type: 'INVENTORY_RECOST',
+        reference_id: run.id,
+    }, journalLines, userId);
+
+    const { error: runError } = await supabaseServer
+        .from('inventory_recost_runs')
+        .update({ journal_id: journal.id })
+        .eq('id', run.id);
+
+    if (runError) throw runError;
+    return { ...run, journal_id: journal.id };
+}
+
+/**
+ * Journal lines moving a recost difference between inventory and consumption.
+ *
+ * A positive difference means issues were under-costed: consumption is debited
+ * and inventory credited. A negative difference reverses the sides.
+ */
+export function buildRecostJournalLines(
+    difference: number,
+    accounts: { consumption: string; inventory: string },
+    runNumber: string
+): JournalLine[] {
+    const amount = round2(Math.abs(difference));
+    if (amount === 0) return [];
+
+    const undercosted = difference > 0;
+    return [
+        {
+            account_code: accounts.consumption,
+            debit: undercosted ? amount : 0,
+            credit: undercosted ? 0 : amount,
+            description: `Recost ${runNumber}`,
+        },
+        {
+            account_code: accounts.inventory,
+            debit: undercosted ? 0 : amount,
+            credit: undercosted ? amount : 0,
+            description: `Recost ${runNumber}`,
+        },
+    ];
+}
+
+export async function getRecostRun(runId: string): Promise<RecostRun> {
+    const { data, error } = await supabaseServer
+        .from('inventory_recost_runs')
+        .select('*, lines:inventory_recost_lines(*)')
+        .eq('id', runId)
+        .single();
+
+    if (error) throw error;
+    return data;
+}
+
+export async function getRecostRuns(companyId: string, itemType?: CostItemType, itemId?: string): Promise<RecostRun[]> {
+    let query = supabaseServer
+        .from('inventory_recost_runs')
+        .select('*')
+        .eq('company_id', companyId)
+        .order('created_at', { ascending: false });
+    if (itemType) query = query.eq('item_type', itemType);
+    if (itemId) query = query.eq('item_id', itemId);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+}
+
+function round2(value: number): number {
+    return Math.round(value * 100) / 100;
+}
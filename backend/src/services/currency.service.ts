@@ -0,0 +1,419 @@
+/**
+ * Currency Service
+ * Exchange rates and foreign currency payables (fabric bought in USD, CNY).
+ *
+ * **How a foreign currency purchase flows:**
+ * 1. **Rates:** Daily rates to the base currency (IDR) are kept per company ({@link setExchangeRate})
+ * 2. **Documents:** POs, vendor invoices and vendor payments carry `currency` and `exchange_rate`.
+ *    Without a rate the latest one on or before the document date is used; invoices default to
+ *    their PO's currency. Amounts stay in the document currency.
+ * 3. **Invoice:** The payable is booked in IDR at the invoice rate
+ * 4. **Payment:** Each allocation realizes the difference between invoice and payment rate
+ *    ({@link calculateRealizedFx}), posted to FX_REALIZED with the payment journal
+ * 5. **Month end:** {@link runFxRevaluation} restates open payables at the period-end rate
+ *    (FX_UNREALIZED) and reverses the entry on the first day of the next period
+ */
+import { supabaseServer } from '../config/supabase';
+import { getMappedAccountCodes } from './coa.service';
+import { BusinessRuleError, NotFoundError, ValidationError } from './error.service';
+import { createJournal, JournalLine } from './journal.service';
+import { validatePeriodIsOpen } from './period.service';
+
+// Types
+export interface ExchangeRate {
+    id?: string;
+    company_id: string;
+    /** ISO 4217 code, e.g. USD */
+    currency: string;
+    rate_date: string;
+    /** Base currency per 1 unit, e.g. 15750 IDR per USD */
+    rate: number;
+    /** e.g. BI (JISDOR), KMK, bank */
+    source?: string;
+}
+
+export interface OpenForeignPayable {
+    invoice_id: string;
+    currency: string;
+    /** Outstanding amount in the invoice currency */
+    open_amount: number;
+    /** Rate the payable is booked at */
+    booked_rate: number;
+}
+
+/** Row of RPC `open_foreign_payables_at` */
+interface OpenForeignPayableRow {
+    invoice_id: string;
+    currency: string;
+    exchange_rate: number;
+    open_amount: number;
+}
+
+export interface FxRevaluationLine {
+    invoice_id: string;
+    currency: string;
+    open_amount: number;
+    booked_rate: number;
+    revaluation_rate: number;
+    booked_base_amount: number;
+    revalued_base_amount: number;
+    /** Positive: payable increased (loss), negative: decreased (gain) */
+    adjustment: number;
+}
+
+export interface FxRevaluation {
+    id: string;
+    company_id: string;
+    period_id: string;
+    revaluation_date: string;
+    reversal_period_id: string;
+    reversal_date: string;
+    total_adjustment: number;
+    journal_id: string | null;
+    reversal_journal_id: string | null;
+    lines?: FxRevaluationLine[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// ==================== CONVERSION ====================
+
+/**
+ * Converts a document currency amount to the base currency, rounded to 2 decimals.
+ */
+export function convertToBase(amount: number, exchangeRate: number): number {
+    return round2(Number(amount) * Number(exchangeRate));
+}
+
+/**
+ * Realized FX on settling part of a foreign currency payable.
+ *
+ * @param amountSettled - Invoice currency amount settled
+ * @param invoiceRate - Rate the payable was booked at
+ * @param paymentRate - Rate of the payment
+ * @returns Base currency difference: positive is a loss, negative a gain
+ *
+ * @example
+ * ```typescript
+ * // USD 1,000 booked at 15,500 and paid at 15,800
+ * calculateRealizedFx(1000, 15500, 15800); // 300000 (loss)
+ * ```
+ */
+export function calculateRealizedFx(amountSettled: number, invoiceRate: number, paymentRate: number): number {
+    return round2(convertToBase(amountSettled, paymentRate) - convertToBase(amountSettled, invoiceRate));
+}
+
+/**
+ * Restates open payables at period-end rates.
+ *
+ * @param payables - Open foreign currency invoices
+ * @param rates - Period-end rate per currency
+ * @throws {ValidationError} If a currency has no rate
+ */
+export function buildRevaluationLines(
+    payables: OpenForeignPayable[],
+    rates: Record<string, number>
+): FxRevaluationLine[] {
+    return payables
+        .filter(payable => Number(payable.open_amount) !== 0)
+        .map(payable => {
+            const rate = rates[payable.currency];
+            if (!rate) {
+                throw new ValidationError(`No ${payable.currency} rate for the revaluation`);
+            }
+
+            const booked = convertToBase(payable.open_amount, payable.booked_rate);
+            const revalued = convertToBase(payable.open_amount, rate);
+            return {
+                invoice_id: payable.invoice_id,
+                currency: payable.currency,
+                open_amount: Number(payable.open_amount),
+                booked_rate: Number(payable.booked_rate),
+                revaluation_rate: rate,
+                booked_base_amount: booked,
+                revalued_base_amount: revalued,
+                adjustment: round2(revalued - booked),
+            };
+        });
+}
+
+/**
+ * Journal lines for a revaluation: a net loss is Dr. unrealized FX / Cr. AP, a net gain the opposite.
+ */
+export function buildRevaluationJournalLines(
+    lines: FxRevaluationLine[],
+    accounts: { payable: string; fx: string },
+    description: string
+): JournalLine[] {
+    const total = round2(lines.reduce((sum, line) => sum + line.adjustment, 0));
+    if (total === 0) return [];
+
+    const amount = Math.abs(total);
+    const loss = total > 0;
+    return [
+        { account_code: loss ? accounts.fx : accounts.payable, debit: amount, credit: 0, description },
+        { account_code: loss ? accounts.payable : accounts.fx, debit: 0, credit: amount, description },
+    ];
+}
+
+// ==================== EXCHANGE RATES ====================
+
+/**
+ * Records the rate of a currency on a date, replacing an existing rate for that date.
+ *
+ * @param rate - Company, currency, date and base currency per unit
+ * @param userId - UUID of the user
+ * @throws {ValidationError} If the currency code or rate is invalid
+ *
+ * @example
+ * ```typescript
+ * await setExchangeRate({
+ *   company_id: companyId,
+ *   currency: 'USD',
+ *   rate_date: '2025-01-31',
+ *   rate: 16250,
+ *   source: 'BI'
+ * }, userId);
+ * ```
+ */
+export async function setExchangeRate(rate: ExchangeRate, userId: string): Promise<ExchangeRate> {
+    if (!/^[A-Z]{3}$/.test(rate.currency)) {
+        throw new ValidationError('Currency must be a 3-letter ISO code, e.g. USD');
+    }
+    if (!(rate.rate > 0)) {
+        throw new ValidationError('Exchange rate must be greater than 0');
+    }
+
+    const { data, error } = await supabaseServer
+        .from('exchange_rates')
+        .upsert({ ...rate, created_by: userId }, { onConflict: 'company_id,currency,rate_date' })
+        .select()
+        .single();
+
+    if (error) throw error;
+    return data;
+}
+
+/**
+ * Lists recorded rates, newest first.
+ *
+ * @param companyId - UUID of the company
+ * @param currency - Only this currency
+ * @param fromDate - First rate date (inclusive)
+ * @param toDate - Last rate date (inclusive)
+ */
+export async function getExchangeRates(
+    companyId: string,
+    currency?: string,
+    fromDate?: string,
+    toDate?: string
+): Promise<ExchangeRate[]> {
+    let query = supabaseServer
+        .from('exchange_rates')
+        .select('*')
+        .eq('company_id', companyId)
+        .order('rate_date', { ascending: false })
+        .order('currency');
+
+    if (currency) query = query.eq('currency', currency);
+    if (fromDate) query = query.gte('rate_date', fromDate);
+    if (toDate) query = query.lte('rate_date', toDate);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+}
+
+/**
+ * Rate of a currency on a date: 1 for the base currency, otherwise the latest rate on or before the date.
+ *
+ * @throws {Error} If no rate is recorded on or before the date
+ */
+export async function getExchangeRate(companyId: string, currency: string, date: string): Promise<number> {
+    const { data, error } = await supabaseServer.rpc('get_exchange_rate', {
+        p_company_id: companyId,
+        p_currency: currency,
+        p_date: date,
+    });
+
+    if (error) throw error;
+    return Number(data);
+}
+
+// ==================== REVALUATION ====================
+
+/**
+ * Month-end revaluation of open foreign currency payables.
+ *
+ * **Process:**
+ * 1. Foreign currency invoices dated up to the period end are restated at the period-end
+ *    rate, at their balance on that date (payments and debit notes dated later do not count)
+ * 2. Journal FXR-<period code>: net loss Dr. Unrealized FX / Cr. AP, net gain the reverse
+ * 3. The same entry is reversed (FXR-<period code>-REV) on the first day of the next period,
+ *    so payments keep measuring realized FX against the invoice rate
+ *
+ * Runs once per period; the next period must already be open.
+ *
+ * @param companyId - UUID of the company
+ * @param periodId - UUID of the open period being closed
+ * @param userId - UUID of the user
+ * @throws {BusinessRuleError} If the period was already revalued, the next period is not open,
+ *   or there are no open foreign currency payables
+ * @throws {Error} If a period-end rate is missing
+ * @returns The revaluation with its lines
+ *
+ * @example
+ * ```typescript
+ * // January close: USD 10,000 open, booked at 15,500, period-end rate 15,800
+ * const revaluation = await runFxRevaluation(companyId, januaryId, userId);
+ * // revaluation.total_adjustment → 3,000,000 (unrealized loss)
+ * // 31 Jan: Dr. Unrealized FX 3,000,000 / Cr. AP 3,000,000
+ * // 1 Feb:  Dr. AP 3,000,000 / Cr. Unrealized FX 3,000,000
+ * ```
+ */
+export async function runFxRevaluation(companyId: string, periodId: string, userId: string): Promise<FxRevaluation> {
+    const { data: period, error: periodError } = await supabaseServer
+        .from('accounting_periods')
+        .select('id, company_id, period_code, end_date')
+        .eq('id', periodId)
+        .eq('company_id', companyId)
+        .maybeSingle();
+
+    if (periodError) throw periodError;
+    if (!period) throw new NotFoundError('Accounting period', periodId);
+    await validatePeriodIsOpen(periodId);
+
+    const { data: existing, error: existingError } = await supabaseServer
+        .from('fx_revaluations')
+        .select('id')
+        .eq('company_id', companyId)
+        .eq('period_id', periodId)
+        .maybeSingle();
+
+    if (existingError) throw existingError;
+    if (existing) {
+        throw new BusinessRuleError(`Period ${period.period_code} has already been revalued`);
+    }
+
+    const { data: nextPeriod, error: nextError } = await supabaseServer
+        .from('accounting_periods')
+        .select('id, start_date, status')
+        .eq('company_id', companyId)
+        .gt('start_date', period.end_date)
+        .order('start_date')
+        .limit(1)
+        .maybeSingle();
+
+    if (nextError) throw nextError;
+    if (!nextPeriod || nextPeriod.status !== 'open') {
+        throw new BusinessRuleError(`Open the period after ${period.period_code} first: the revaluation reverses on its first day`);
+    }
+
+    // Balances as at the period end: payments made after it must not shrink what is revalued
+    const { data: invoices, error: invoiceError } = await supabaseServer.rpc('open_foreign_payables_at', {
+        p_company_id: companyId,
+        p_date: period.end_date,
+    });
+
+    if (invoiceError) throw invoiceError;
+
+    const payables: OpenForeignPayable[] = ((invoices || []) as OpenForeignPayableRow[]).map(invoice => ({
+        invoice_id: invoice.invoice_id,
+        currency: invoice.currency,
+        open_amount: Number(invoice.open_amount),
+        booked_rate: Number(invoice.exchange_rate),
+    }));
+    if (payables.length === 0) {
+        throw new BusinessRuleError(`No open foreign currency payables to revalue in ${period.period_code}`);
+    }
+
+    const rates: Record<string, number> = {};
+    for (const currency of new Set(payables.map(payable => payable.currency))) {
+        rates[currency] = await getExchangeRate(companyId, currency, period.end_date);
+    }
+
+    const lines = buildRevaluationLines(payables, rates);
+    const totalAdjustment = round2(lines.reduce((sum, line) => sum + line.adjustment, 0));
+
+    const { data: revaluation, error: revaluationError } = await supabaseServer
+        .from('fx_revaluations')
+        .insert({
+            company_id: companyId,
+            period_id: periodId,
+            revaluation_date: period.end_date,
+            reversal_period_id: nextPeriod.id,
+            reversal_date: nextPeriod.start_date,
+            total_adjustment: totalAdjustment,
+            created_by: userId,
+        })
+        .select()
+        .single();
+
+    if (revaluationError) throw revaluationError;
+
+    const { error: linesError } = await supabaseServer
+        .from('fx_revaluation_lines')
+        .insert(lines.map(line => ({ ...line, revaluation_id: revaluation.id })));
+
+    if (linesError) throw linesError;
+
+    const journalNumber = `FXR-${period.period_code}`;
+    const accounts = await getMappedAccountCodes(companyId, ['ACCOUNTS_PAYABLE', 'FX_UNREALIZED']);
+    const journalLines = buildRevaluationJournalLines(
+        lines,
+        { payable: accounts.ACCOUNTS_PAYABLE, fx: accounts.FX_UNREALIZED },
+        `FX revaluation ${period.period_code}`
+    );
+    if (journalLines.length === 0) {
+        return { ...revaluation, lines };
+    }
+
+    const journal = await createJournal({
+        company_id: companyId,
+        period_id: periodId,
+        journal_number: journalNumber,
+        journal_date: period.end_date,
+        description: `Unrealized FX revaluation of payables ${period.period_code}`,
+        reference_type: 'FX_REVALUATION',
+        reference_id: revaluation.id,
+    }, journalLines, userId);
+
+    const reversal = await createJournal({
+        company_id: companyId,
+        period_id: nextPeriod.id,
+        journal_number: `${journalNumber}-REV`,
+        journal_date: nextPeriod.start_date,
+        description: `Reversal of ${journalNumber}`,
+        reference_type: 'REVERSAL',
+        reference_id: journal.id,
+    }, journalLines.map(line => ({
+        ...line,
+        debit: line.credit,
+        credit: line.debit,
+        description: `Reversal of ${journalNumber}: ${line.description || ''}`,
+    })), userId);
+
+    const { data: updated, error: updateError } = await supabaseServer
+        .from('fx_revaluations')
+        .update({ journal_id: journal.id, reversal_journal_id: reversal.id })
+        .eq('id', revaluation.id)
+        .select()
+        .single();
+
+    if (updateError) throw updateError;
+    return { ...updated, lines };
+}
+
+/**
+ * Lists revaluation runs, newest first.
+ */
+export async function getFxRevaluations(companyId: string): Promise<FxRevaluation[]> {
+    const { data, error } = await supabaseServer
+        .from('fx_revaluations')
+        .select('*, lines:fx_revaluation_lines(*)')
+        .eq('company_id', companyId)
+        .order('revaluation_date', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+}
@@ -0,0 +1,814 @@
+/**
+ * e-Faktur Service
+ * Faktur pajak keluaran (output VAT invoices) for upload to the DJP tax portal.
+ *
+ * **Workflow:**
+ * 1. **NSFP ranges:** Record the serial number ranges allocated by DJP ({@link addNsfpRange})
+ * 2. **Export:** {@link exportTaxInvoices} picks up posted sales invoices with PPN-coded lines that
+ *    were not exported yet, gives each a tax invoice (and an NSFP for e-Faktur CSV) and builds the file
+ * 3. **Upload:** Tax staff import the CSV into e-Faktur or the XML into Coretax
+ * 4. **Correction:** {@link createReplacementTaxInvoice} supersedes an exported tax invoice with a
+ *    pengganti carrying the same NSFP, picked up by the next export
+ *
+ * Coretax assigns its own numbers, so NSFPs only apply to the e-Faktur CSV format.
+ */
+import { supabaseServer } from '../config/supabase';
+import { BusinessRuleError, ValidationError } from './error.service';
+import { TaxCategory } from './tax.service';
+
+// Types
+export type TaxInvoiceFormat = 'EFAKTUR_CSV' | 'CORETAX_XML';
+export type TaxInvoiceStatus = 'pending' | 'exported' | 'replaced';
+export type BuyerIdType = 'NPWP' | 'NIK' | 'PASSPORT' | 'OTHER';
+
+export interface NsfpRange {
+    id: string;
+    company_id: string;
+    prefix: string;
+    tax_year: number;
+    start_serial: number;
+    end_serial: number;
+    next_serial: number;
+    status: 'active' | 'exhausted' | 'closed';
+    allocation_reference: string | null;
+    /** Numbers not yet used */
+    remaining?: number;
+}
+
+export interface TaxInvoice {
+    id: string;
+    company_id: string;
+    sales_invoice_id: string;
+    transaction_code: string;
+    nsfp: string | null;
+    replacement_seq: number;
+    replaces_tax_invoice_id: string | null;
+    replacement_reason: string | null;
+    status: TaxInvoiceStatus;
+    export_id: string | null;
+    exported_at: string | null;
+}
+
+export interface TaxInvoiceExport {
+    id: string;
+    company_id: string;
+    export_format: TaxInvoiceFormat;
+    file_name: string;
+    date_from: string;
+    date_to: string;
+    invoice_count: number;
+    total_tax_base: number;
+    total_vat: number;
+    created_at: string;
+    created_by: string | null;
+}
+
+/** Row of `sales_invoice_tax_status_vw` */
+export interface SalesInvoiceTaxStatus {
+    company_id: string;
+    sales_invoice_id: string;
+    invoice_number: string;
+    invoice_date: string;
+    customer_id: string;
+    customer_name: string;
+    customer_tax_id: string | null;
+    subtotal: number;
+    tax_amount: number;
+    tax_invoice_id: string | null;
+    transaction_code: string | null;
+    nsfp: string | null;
+    replacement_seq: number | null;
+    efaktur_status: 'not_exported' | Exclude<TaxInvoiceStatus, 'replaced'>;
+    exported_at: string | null;
+    export_id: string | null;
+}
+
+export interface TaxInvoiceBuyer {
+    name: string;
+    tax_id: string | null;
+    tax_id_type: BuyerIdType;
+    address: string | null;
+    email?: string | null;
+}
+
+export interface TaxInvoiceLineItem {
+    code: string;
+    name: string;
+    /** Coretax unit of measure code, e.g. UM.0021 for pieces */
+    unit: string;
+    /** Unit price excluding PPN, before discount */
+    unit_price: number;
+    qty: number;
+    total_price: number;
+    discount: number;
+    /** Net amount after discount (harga jual) */
+    taxable_amount: number;
+    /** DPP the PPN is charged on (DPP nilai lain for 11/12) */
+    tax_base: number;
+    vat_rate: number;
+    vat: number;
+}
+
+export interface TaxInvoiceDocument {
+    tax_invoice_id: string;
+    reference: string;
+    invoice_date: string;
+    transaction_code: string;
+    nsfp: string | null;
+    replacement_seq: number;
+    buyer: TaxInvoiceBuyer;
+    lines: TaxInvoiceLineItem[];
+}
+
+export interface TaxInvoiceExportParams {
+    company_id: string;
+    format: TaxInvoiceFormat;
+    from_date: string;
+    to_date: string;
+    /** Limit the export to these sales invoices */
+    invoice_ids?: string[];
+}
+
+export interface TaxInvoiceExportResult {
+    export_id: string;
+    file_name: string;
+    content: string;
+    invoice_count: number;
+    total_tax_base: number;
+    total_vat: number;
+}
+
+/** Sales invoice line as loaded for export */
+export interface SalesInvoiceLineForExport {
+    line_number: number;
+    qty_invoiced: number;
+    unit_price: number;
+    discount_percentage: number | null;
+    price_includes_tax: boolean;
+    taxable_amount: number | null;
+    tax_base: number | null;
+    tax_rate: number | null;
+    tax_amount: number | null;
+    tax_code_id: string | null;
+    tax_code: { category: TaxCategory; dpp_factor: number } | null;
+    variant: { sku: string; product: { name: string; unit_of_measure: string | null } | null } | null;
+}
+
+interface SalesInvoiceForExport {
+    id: string;
+    invoice_number: string;
+    invoice_date: string;
+    customer: { name: string; tax_id: string | null; tax_id_type: BuyerIdType | null; address: string | null; email: string | null } | null;
+    lines: SalesInvoiceLineForExport[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const digitsOnly = (value: string | null | undefined) => (value || '').replace(/\D/g, '');
+
+/** Coretax unit codes for the product units in use; anything else is "Lainnya" */
+const CORETAX_UNIT_CODES: Record<string, string> = {
+    PCS: 'UM.0021',
+    SET: 'UM.0019',
+    METER: 'UM.0013',
+    KG: 'UM.0003',
+    LITER: 'UM.0007',
+};
+const CORETAX_UNIT_OTHER = 'UM.0033';
+
+const EFAKTUR_HEADER = [
+    ['FK', 'KD_JENIS_TRANSAKSI', 'FG_PENGGANTI', 'NOMOR_FAKTUR', 'MASA_PAJAK', 'TAHUN_PAJAK', 'TANGGAL_FAKTUR',
+        'NPWP', 'NAMA', 'ALAMAT_LENGKAP', 'JUMLAH_DPP', 'JUMLAH_PPN', 'JUMLAH_PPNBM', 'ID_KETERANGAN_TAMBAHAN',
+        'FG_UANG_MUKA', 'UANG_MUKA_DPP', 'UANG_MUKA_PPN', 'UANG_MUKA_PPNBM', 'REFERENSI', 'KODE_DOKUMEN_PENDUKUNG'],
+    ['LT', 'NPWP', 'NAMA', 'JALAN', 'BLOK', 'NOMOR', 'RT', 'RW', 'KECAMATAN', 'KELURAHAN', 'KABUPATEN',
+        'PROPINSI', 'KODE_POS', 'NOMOR_TELEPON'],
+    ['OF', 'KODE_OBJEK', 'NAMA', 'HARGA_SATUAN', 'JUMLAH_BARANG', 'HARGA_TOTAL', 'DISKON', 'DPP', 'PPN',
+        'TARIF_PPNBM', 'PPNBM'],
+];
+
+const CORETAX_BUYER_DOCUMENT: Record<BuyerIdType, string> = {
+    NPWP: 'TIN',
+    NIK: 'National ID',
+    PASSPORT: 'Passport',
+    OTHER: 'Other ID',
+};
+
+// ==================== NSFP RANGES ====================
+
+/**
+ * Splits a DJP allocation into prefix and serials.
+ *
+ * Accepts the numbers with or without separators ("010.25.00000001" or "0102500000001").
+ *
+ * @throws {ValidationError} If a number is not 13 digits, the prefixes differ or the range is reversed
+ *
+ * @example
+ * ```typescript
+ * parseNsfpRange('010.25.00000001', '010.25.00000500');
+ * // → { prefix: '01025', tax_year: 2025, start_serial: 1, end_serial: 500 }
+ * ```
+ */
+export function parseNsfpRange(startNumber: string, endNumber: string) {
+    const start = digitsOnly(startNumber);
+    const end = digitsOnly(endNumber);
+    if (start.length !== 13 || end.length !== 13) {
+        throw new ValidationError('NSFP numbers must have 13 digits (branch, year and 8-digit serial)');
+    }
+
+    const prefix = start.slice(0, 5);
+    if (end.slice(0, 5) !== prefix) {
+        throw new ValidationError('Start and end of an NSFP range must share branch code and year');
+    }
+
+    const startSerial = Number(start.slice(5));
+    const endSerial = Number(end.slice(5));
+    if (startSerial < 1 || endSerial < startSerial) {
+        throw new ValidationError('NSFP range end must not be before its start');
+    }
+
+    return { prefix, tax_year: 2000 + Number(prefix.slice(3)), start_serial: startSerial, end_serial: endSerial };
+}
+
+/**
+ * Records an NSFP range allocated by DJP.
+ *
+ * @param companyId - UUID of the company
+ * @param startNumber - First NSFP of the allocation
+ * @param endNumber - Last NSFP of the allocation
+ * @param userId - UUID of the user
+ * @param allocationReference - DJP allocation letter number
+ * @throws {ValidationError} If the numbers are malformed
+ * @throws {BusinessRuleError} If the range overlaps one already recorded
+ */
+export async function addNsfpRange(
+    companyId: string,
+    startNumber: string,
+    endNumber: string,
+    userId: string,
+    allocationReference?: string
+): Promise<NsfpRange> {
+    const range = parseNsfpRange(startNumber, endNumber);
+
+    const { data: overlapping, error: overlapError } = await supabaseServer
+        .from('tax_invoice_number_ranges')
+        .select('id')
+        .eq('company_id', companyId)
+        .eq('prefix', range.prefix)
+        .lte('start_serial', range.end_serial)
+        .gte('end_serial', range.start_serial);
+
+    if (overlapError) throw overlapError;
+    if (overlapping && overlapping.length > 0) {
+        throw new BusinessRuleError(`NSFP range ${startNumber} - ${endNumber} overlaps an existing range`);
+    }
+
+    const { data, error } = await supabaseServer
+        .from('tax_invoice_number_ranges')
+        .insert({
+            company_id: companyId,
+            ...range,
+            next_serial: range.start_serial,
+            allocation_reference: allocationReference || null,
+            created_by: userId,
+        })
+        .select()
+        .single();
+
+    if (error) throw error;
+    return data;
+}
+
+/**
+ * Lists NSFP ranges with the count of numbers still available.
+ */
+export async function getNsfpRanges(companyId: string, taxYear?: number): Promise<NsfpRange[]> {
+    let query = supabaseServer
+        .from('tax_invoice_number_ranges')
+        .select('*')
+        .eq('company_id', companyId)
+        .order('tax_year', { ascending: false })
+        .order('prefix')
+        .order('start_serial');
+
+    if (taxYear) query = query.eq('tax_year', taxYear);
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    return (data || []).map((range: NsfpRange) => ({
+        ...range,
+        remaining: range.status === 'closed' ? 0 : Number(range.end_serial) - Number(range.next_serial) + 1,
+    }));
+}
+
+// ==================== DOCUMENT MAPPING ====================
+
+/**
+ * Kode transaksi for a faktur from the tax codes on its lines.
+ *
+ * Any standard-rated line decides: 04 when PPN is charged on DPP nilai lain (11/12),
+ * otherwise 01. Without standard lines, 07 (tidak dipungut) for zero-rated and 08 (dibebaskan).
+ */
+export function determineTransactionCode(codes: ({ category: TaxCategory; dpp_factor: number } | null)[]): string {
+    const standard = codes.filter(code => code?.category === 'STANDARD');
+    if (standard.length > 0) {
+        return standard.some(code => Number(code?.dpp_factor ?? 1) < 1) ? '04' : '01';
+    }
+    if (codes.some(code => code?.category === 'ZERO_RATED')) return '07';
+    if (codes.some(code => code?.category === 'EXEMPT')) return '08';
+    return '01';
+}
+
+/**
+ * Tax invoice line from a stored sales invoice line.
+ *
+ * PPN-inclusive prices are converted back to net unit prices so that
+ * total - discount = taxable amount, as the portals expect.
+ */
+export function toTaxInvoiceLine(line: SalesInvoiceLineForExport): TaxInvoiceLineItem {
+    const qty = Number(line.qty_invoiced);
+    const discountFactor = 1 - Number(line.discount_percentage || 0) / 100;
+    const taxable = Number(line.taxable_amount ?? qty * Number(line.unit_price) * discountFactor);
+    const totalPrice = line.price_includes_tax
+        ? round2(taxable / discountFactor)
+        : round2(qty * Number(line.unit_price));
+    const unit = line.variant?.product?.unit_of_measure || '';
+
+    return {
+        code: line.variant?.sku || '',
+        name: line.variant?.product?.name || line.variant?.sku || `Line ${line.line_number}`,
+        unit: CORETAX_UNIT_CODES[unit] || CORETAX_UNIT_OTHER,
+        unit_price: qty > 0 ? round2(totalPrice / qty) : 0,
+        qty,
+        total_price: totalPrice,
+        discount: round2(totalPrice - taxable),
+        taxable_amount: round2(taxable),
+        tax_base: round2(Number(line.tax_base ?? taxable)),
+        vat_rate: Number(line.tax_rate || 0),
+        vat: round2(Number(line.tax_amount || 0)),
+    };
+}
+
+// ==================== FILE FORMATS ====================
+
+/**
+ * Builds an e-Faktur (desktop) import CSV: FK header row per faktur followed by its OF item rows.
+ *
+ * Buyers without NPWP are exported with NPWP 000000000000000 and the
+ * `<NIK>#NIK#NAMA#<name>` naming convention. Replacements carry FG_PENGGANTI = 1.
+ *
+ * @throws {ValidationError} If a document has no NSFP
+ */
+export function buildEFakturCsv(documents: TaxInvoiceDocument[]): string {
+    const rows: (string | number)[][] = [...EFAKTUR_HEADER];
+
+    for (const doc of documents) {
+        if (!doc.nsfp) {
+            throw new ValidationError(`Invoice ${doc.reference} has no NSFP assigned`);
+        }
+
+        const [year, month, day] = doc.invoice_date.slice(0, 10).split('-');
+        const buyerId = digitsOnly(doc.buyer.tax_id);
+        const hasNpwp = doc.buyer.tax_id_type === 'NPWP' && buyerId.length > 0;
+        const buyerName = !hasNpwp && doc.buyer.tax_id_type === 'NIK' && buyerId
+            ? `${buyerId}#NIK#NAMA#${doc.buyer.name}`
+            : doc.buyer.name;
+
+        rows.push([
+            'FK',
+            doc.transaction_code,
+            doc.replacement_seq > 0 ? '1' : '0',
+            doc.nsfp,
+            Number(month),
+            year,
+            `${day}/${month}/${year}`,
+            hasNpwp ? buyerId : '000000000000000',
+            buyerName,
+            doc.buyer.address || '',
+            Math.floor(doc.lines.reduce((sum, line) => sum + line.tax_base, 0)),
+            Math.floor(doc.lines.reduce((sum, line) => sum + line.vat, 0)),
+            0,
+            '',
+            0,
+            0,
+            0,
+            0,
+            doc.reference,
+            '',
+        ]);
+
+        for (const line of doc.lines) {
+            rows.push([
+                'OF',
+                line.code,
+                line.name,
+                line.unit_price,
+                line.qty,
+                line.total_price,
+                line.discount,
+                line.tax_base,
+                line.vat,
+                0,
+                0,
+            ]);
+        }
+    }
+
+    return rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Builds a Coretax TaxInvoiceBulk XML for import into the DJP Coretax portal.
+ * Replacements are exported with TaxInvoiceOpt Replacement.
+ *
+ * @param sellerTin - Company NPWP; 15-digit NPWPs are padded to 16
+ * @param documents - Tax invoices to include
+ */
+export function buildCoretaxXml(sellerTin: string, documents: TaxInvoiceDocument[]): string {
+    const tin = toTin16(sellerTin);
+    const parts: string[] = [
+        '<?xml version="1.0" encoding="utf-8"?>',
+        '<TaxInvoiceBulk xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:noNamespaceSchemaLocation="TaxInvoice.xsd">',
+        `  <TIN>${tin}</TIN>`,
+        '  <ListOfTaxInvoice>',
+    ];
+
+    for (const doc of documents) {
+        const buyerId = digitsOnly(doc.buyer.tax_id);
+        const isTin = doc.buyer.tax_id_type === 'NPWP' && buyerId.length > 0;
+        const buyerTin = isTin ? toTin16(buyerId) : '0000000000000000';
+        const documentNumber = isTin ? '-' : (doc.buyer.tax_id || '-');
+
+        parts.push(
+            '    <TaxInvoice>',
+            `      <TaxInvoiceDate>${doc.invoice_date.slice(0, 10)}</TaxInvoiceDate>`,
+            `      <TaxInvoiceOpt>${doc.replacement_seq > 0 ? 'Replacement' : 'Normal'}</TaxInvoiceOpt>`,
+            `      <TrxCode>${doc.transaction_code}</TrxCode>`,
+            '      <AddInfo/>',
+            '      <CustomDoc/>',
+            `      <RefDesc>${xmlText(doc.reference)}</RefDesc>`,
+            '      <FacilityStamp/>',
+            `      <SellerIDTKU>${tin}000000</SellerIDTKU>`,
+            `      <BuyerTin>${buyerTin}</BuyerTin>`,
+            `      <BuyerDocument>${CORETAX_BUYER_DOCUMENT[isTin ? 'NPWP' : doc.buyer.tax_id_type]}</BuyerDocument>`,
+            '      <BuyerCountry>IDN</BuyerCountry>',
+            `      <BuyerDocumentNumber>${xmlText(documentNumber)}</BuyerDocumentNumber>`,
+            `      <BuyerName>${xmlText(doc.buyer.name)}</BuyerName>`,
+            `      <BuyerAdress>${xmlText(doc.buyer.address || '')}</BuyerAdress>`,
+            `      <BuyerEmail>${xmlText(doc.buyer.email || '')}</BuyerEmail>`,
+            `      <BuyerIDTKU>${isTin ? buyerTin : digitsOnly(documentNumber) || '0000000000000000'}000000</BuyerIDTKU>`,
+            '      <ListOfGoodService>'
+        );
+
+        for (const line of doc.lines) {
+            parts.push(
+                '        <GoodService>',
+                '          <Opt>A</Opt>',
+                '          <Code>000000</Code>',
+                `          <Name>${xmlText(line.name)}</Name>`,
+                `          <Unit>${line.unit}</Unit>`,
+                `          <Price>${line.unit_price}</Price>`,
+                `          <Qty>${line.qty}</Qty>`,
+                `          <TotalDiscount>${line.discount}</TotalDiscount>`,
+                `          <TaxBase>${line.taxable_amount}</TaxBase>`,
+                `          <OtherTaxBase>${line.tax_base}</OtherTaxBase>`,
+                `          <VATRate>${line.vat_rate}</VATRate>`,
+                `          <VAT>${line.vat}</VAT>`,
+                '          <STLGRate>0</STLGRate>',
+                '          <STLG>0</STLG>',
+                '        </GoodService>'
+            );
+        }
+
+        parts.push('      </ListOfGoodService>', '    </TaxInvoice>');
+    }
+
+    parts.push('  </ListOfTaxInvoice>', '</TaxInvoiceBulk>');
+    return parts.join('\n') + '\n';
+}
+
+// ==================== EXPORT ====================
+
+/**
+ * Exports posted sales invoices with PPN to an e-Faktur CSV or Coretax XML file.
+ *
+ * Only invoices whose tax invoice is not exported yet are included, so running the
+ * same period twice never exports an invoice twice. Pending replacements (pengganti) are
+ * included; an invoice whose faktur was replaced by one for a corrected invoice is not
+ * exported again. For e-Faktur each faktur takes the next NSFP from the company's ranges.
+ * The kode transaksi is taken from the lines as they are at export time.
+ *
+ * @param params - Company, format and invoice date range (optionally specific invoices)
+ * @param userId - UUID of the exporting user
+ * @throws {BusinessRuleError} If Coretax is requested without a company NPWP, or nothing is left to export
+ * @throws {Error} If the NSFP ranges run out
+ * @returns File content, file name and export batch totals
+ *
+ * @example
+ * ```typescript
+ * const file = await exportTaxInvoices({
+ *   company_id: companyId,
+ *   format: 'EFAKTUR_CSV',
+ *   from_date: '2025-01-01',
+ *   to_date: '2025-01-31'
+ * }, userId);
+ * // file.content → upload in e-Faktur: Faktur > Pajak Keluaran > Import
+ * ```
+ */
+export async function exportTaxInvoices(
+    params: TaxInvoiceExportParams,
+    userId: string
+): Promise<TaxInvoiceExportResult> {
+    const { data: company, error: companyError } = await supabaseServer
+        .from('companies')
+        .select('id, code, tax_id')
+        .eq('id', params.company_id)
+        .single();
+
+    if (companyError) throw companyError;
+    if (params.format === 'CORETAX_XML' && !digitsOnly(company.tax_id)) {
+        throw new BusinessRuleError('Company NPWP (tax_id) is required for the Coretax export');
+    }
+
+    let query = supabaseServer
+        .from('sales_invoices')
+        .select(`
+            id, invoice_number, invoice_date,
+            customer:customers(name, tax_id, tax_id_type, address, email),
+            lines:sales_invoice_lines(
+                line_number, qty_invoiced, unit_price, discount_percentage, price_includes_tax,
+                taxable_amount, tax_base, tax_rate, tax_amount, tax_code_id,
+                tax_code:tax_codes(category, dpp_factor),
+                variant:product_variants(sku, product:products(name, unit_of_measure))
+            )
+        `)
+        .eq('company_id', params.company_id)
+        .eq('status', 'posted')
+        .gte('invoice_date', params.from_date)
+        .lte('invoice_date', params.to_date)
+        .order('invoice_date')
+        .order('invoice_number');
+
+    if (params.invoice_ids && params.invoice_ids.length > 0) {
+        query = query.in('id', params.invoice_ids);
+    }
+
+    const { data: invoiceRows, error: invoiceError } = await query;
+    if (invoiceError) throw invoiceError;
+
+    const invoices = ((invoiceRows || []) as unknown as SalesInvoiceForExport[])
+        .filter(invoice => invoice.lines.some(line => line.tax_code_id));
+
+    const taxInvoices = await ensureTaxInvoices(params.company_id, invoices, userId);
+
+    const selected: { invoice: SalesInvoiceForExport; taxInvoice: TaxInvoice }[] = [];
+    for (const invoice of invoices) {
+        const taxInvoice = taxInvoices.get(invoice.id);
+        if (!taxInvoice || taxInvoice.status !== 'pending') continue;
+        selected.push({ invoice, taxInvoice });
+    }
+
+    if (selected.length === 0) {
+        throw new BusinessRuleError(`No posted invoices awaiting tax invoice export between ${params.from_date} and ${params.to_date}`);
+    }
+
+    // A replacement starts with the code of the faktur it replaces; the corrected lines decide
+    for (const entry of selected) {
+        const transactionCode = determineTransactionCode(entry.invoice.lines.map(line => line.tax_code));
+        if (transactionCode === entry.taxInvoice.transaction_code) continue;
+
+        const { error } = await supabaseServer
+            .from('tax_invoices')
+            .update({ transaction_code: transactionCode })
+            .eq('id', entry.taxInvoice.id);
+
+        if (error) throw error;
+        entry.taxInvoice.transaction_code = transactionCode;
+    }
+
+    if (params.format === 'EFAKTUR_CSV') {
+        for (const entry of selected) {
+            if (entry.taxInvoice.nsfp) continue;
+            const { data: nsfp, error } = await supabaseServer.rpc('assign_tax_invoice_number', {
+                p_tax_invoice_id: entry.taxInvoice.id,
+            });
+
+            if (error) throw error;
+            entry.taxInvoice.nsfp = nsfp;
+        }
+    }
+
+    const documents: TaxInvoiceDocument[] = selected.map(({ invoice, taxInvoice }) => ({
+        tax_invoice_id: taxInvoice.id,
+        reference: invoice.invoice_number,
+        invoice_date: invoice.invoice_date,
+        transaction_code: taxInvoice.transaction_code,
+        nsfp: taxInvoice.nsfp,
+        replacement_seq: taxInvoice.replacement_seq,
+        buyer: {
+            name: invoice.customer?.name || '',
+            tax_id: invoice.customer?.tax_id || null,
+            tax_id_type: invoice.customer?.tax_id_type || 'NPWP',
+            address: invoice.customer?.address || null,
+            email: invoice.customer?.email || null,
+        },
+        lines: invoice.lines
+            .filter(line => line.tax_code_id)
+            .sort((a, b) => a.line_number - b.line_number)
+            .map(toTaxInvoiceLine),
+    }));
+
+    const content = params.format === 'EFAKTUR_CSV'
+        ? buildEFakturCsv(documents)
+        : buildCoretaxXml(company.tax_id, documents);
+    const fileName = params.format === 'EFAKTUR_CSV'
+        ? `efaktur-${company.code}-${params.from_date}_${params.to_date}.csv`
+        : `coretax-${company.code}-${params.from_date}_${params.to_date}.xml`;
+
+    const allLines = documents.flatMap(doc => doc.lines);
+    const totalTaxBase = round2(allLines.reduce((sum, line) => sum + line.tax_base, 0));
+    const totalVat = round2(allLines.reduce((sum, line) => sum + line.vat, 0));
+
+    const { data: batch, error: batchError } = await supabaseServer
+        .from('tax_invoice_exports')
+        .insert({
+            company_id: params.company_id,
+            export_format: params.format,
+            file_name: fileName,
+            date_from: params.from_date,
+            date_to: params.to_date,
+            invoice_count: documents.length,
+            total_tax_base: totalTaxBase,
+            total_vat: totalVat,
+            created_by: userId,
+        })
+        .select()
+        .single();
+
+    if (batchError) throw batchError;
+
+    const { error: statusError } = await supabaseServer
+        .from('tax_invoices')
+        .update({ status: 'exported', export_id: batch.id, exported_at: new Date().toISOString() })
+        .in('id', documents.map(doc => doc.tax_invoice_id))
+        .eq('status', 'pending');
+
+    if (statusError) throw statusError;
+
+    return {
+        export_id: batch.id,
+        file_name: fileName,
+        content,
+        invoice_count: documents.length,
+        total_tax_base: totalTaxBase,
+        total_vat: totalVat,
+    };
+}
+
+/**
+ * Replaces an exported tax invoice (faktur pajak pengganti).
+ *
+ * The replacement keeps the NSFP, increments the replacement number and is exported
+ * by the next export (FG_PENGGANTI = 1 in e-Faktur, TaxInvoiceOpt Replacement in Coretax),
+ * with the kode transaksi of the corrected invoice.
+ *
+ * @param taxInvoiceId - Exported tax invoice to replace
+ * @param reason - Why the faktur is corrected
+ * @param userId - UUID of the user
+ * @param correctedSalesInvoiceId - Posted sales invoice with the corrected figures; defaults to the original invoice
+ * @throws {Error} If the tax invoice is not exported or the corrected invoice is not posted
+ * @returns UUID of the replacement tax invoice
+ */
+export async function createReplacementTaxInvoice(
+    taxInvoiceId: string,
+    reason: string,
+    userId: string,
+    correctedSalesInvoiceId?: string
+): Promise<string> {
+    if (!reason || !reason.trim()) {
+        throw new ValidationError('A replacement reason is required');
+    }
+
+    const { data, error } = await supabaseServer.rpc('create_replacement_tax_invoice', {
+        p_tax_invoice_id: taxInvoiceId,
+        p_sales_invoice_id: correctedSalesInvoiceId || null,
+        p_reason: reason,
+        p_user_id: userId,
+    });
+
+    if (error) throw error;
+    return data;
+}
+
+/**
+ * Export status of posted sales invoices with PPN.
+ *
+ * @param companyId - UUID of the company
+ * @param fromDate - First invoice date
+ * @param toDate - Last invoice date
+ * @param status - Only invoices in this state ('not_exported', 'pending' or 'exported')
+ */
+export async function getTaxInvoiceStatus(
+    companyId: string,
+    fromDate: string,
+    toDate: string,
+    status?: SalesInvoiceTaxStatus['efaktur_status']
+): Promise<SalesInvoiceTaxStatus[]> {
+    let query = supabaseServer
+        .from('sales_invoice_tax_status_vw')
+        .select('*')
+        .eq('company_id', companyId)
+        .gte('invoice_date', fromDate)
+        .lte('invoice_date', toDate)
+        .order('invoice_date')
+        .order('invoice_number');
+
+    if (status) query = query.eq('efaktur_status', status);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+}
+
+/**
+ * Lists previous export batches, newest first.
+ */
+export async function getTaxInvoiceExports(companyId: string, limit = 50): Promise<TaxInvoiceExport[]> {
+    const { data, error } = await supabaseServer
+        .from('tax_invoice_exports')
+        .select('*')
+        .eq('company_id', companyId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+    if (error) throw error;
+    return data || [];
+}
+
+/**
+ * Live tax invoice per sales invoice, creating pending ones for invoices that have none.
+ * Invoices whose faktur was replaced by a pengganti for another (corrected) invoice get none.
+ */
+async function ensureTaxInvoices(
+    companyId: string,
+    invoices: SalesInvoiceForExport[],
+    userId: string
+): Promise<Map<string, TaxInvoice>> {
+    const byInvoice = new Map<string, TaxInvoice>();
+    if (invoices.length === 0) return byInvoice;
+
+    const { data: existing, error } = await supabaseServer
+        .from('tax_invoices')
+        .select('*')
+        .in('sales_invoice_id', invoices.map(invoice => invoice.id));
+
+    if (error) throw error;
+    const replaced = new Set<string>();
+    for (const taxInvoice of (existing || []) as TaxInvoice[]) {
+        if (taxInvoice.status === 'replaced') {
+            replaced.add(taxInvoice.sales_invoice_id);
+        } else {
+            byInvoice.set(taxInvoice.sales_invoice_id, taxInvoice);
+        }
+    }
+
+    const missing = invoices
+        .filter(invoice => !byInvoice.has(invoice.id) && !replaced.has(invoice.id))
+        .map(invoice => ({
+            company_id: companyId,
+            sales_invoice_id: invoice.id,
+            transaction_code: determineTransactionCode(invoice.lines.map(line => line.tax_code)),
+            created_by: userId,
+        }));
+
+    if (missing.length > 0) {
+        const { data: created, error: createError } = await supabaseServer
+            .from('tax_invoices')
+            .insert(missing)
+            .select();
+
+        if (createError) throw createError;
+        for (const taxInvoice of (created || []) as TaxInvoice[]) {
+            byInvoice.set(taxInvoice.sales_invoice_id, taxInvoice);
+        }
+    }
+
+    return byInvoice;
+}
+
+function toTin16(value: string): string {
+    const digits = digitsOnly(value);
+    return digits.length === 15 ? `0${digits}` : digits;
+}
+
+function csvField(value: string | number): string {
+    return `"${String(value).replace(/"/g, '""')}"`;
+}
+
+function xmlText(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
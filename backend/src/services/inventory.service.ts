@@ -120,8 +120,8 @@ export interface RawMaterialIssueParams {
  * Issues raw materials from inventory with automatic cost calculation.
  * 
  * This function creates a raw material issue transaction for production or other
- * consumption. The unit cost is automatically calculated from the current weighted
- * average cost in the balance. Validates period is open and stock availability.
+ * consumption. The unit cost is set by the database from the moving weighted-average
+ * cost of the material in the warehouse. Validates period is open and stock availability.
  * 
  * @param params - Raw material issue parameters
  * @param params.company_id - UUID of the company
@@ -163,14 +163,6 @@ export async function issueRawMaterial(params: RawMaterialIssueParams) {
     // Validate period is open
     await validatePeriodIsOpen(params.period_id);
 
-    // Get current balance to determine unit cost
-    const balance = await getRawMaterialBalance(
-        params.company_id,
-        params.material_id,
-        params.warehouse_id,
-        params.bin_id
-    );
-
     const { data, error } = await supabaseServer
         .from('raw_material_ledger')
         .insert({
@@ -185,7 +177,7 @@ export async function issueRawMaterial(params: RawMaterialIssueParams) {
             reference_number: params.reference_number,
             qty_in: 0,
             qty_out: params.qty_out,
-            unit_cost: balance?.avg_unit_cost || 0,
+            unit_cost: 0, // Valued at the warehouse weighted average by the ledger trigger
             created_by: params.created_by,
             is_posted: true,
         })
@@ -227,7 +219,6 @@ export async function issueRawMaterial(params: RawMaterialIssueParams) {
  * }
  * ```
  * 
- * @see {@link issueRawMaterial} which uses this for cost calculation
  */
 export async function getRawMaterialBalance(
     companyId: string,
@@ -0,0 +1,484 @@
+/**
+ * Landed Cost Service
+ * Capitalizes freight, import duty and customs brokerage onto goods receipts.
+ *
+ * **Workflow:**
+ * 1. **Voucher:** Charges from the forwarder/broker reference one or more posted GRNs
+ * 2. **Allocation:** Each charge is spread over the GRN lines by value, quantity or weight
+ * 3. **Posting:** `apply_landed_cost_voucher` adds the on-hand share of each allocation
+ *    to raw material cost (weighted-average position or FIFO receipt layer)
+ * 4. **Journal:** Dr. Raw Material Inventory (on hand) / Dr. WIP (already issued),
+ *    Cr. Accrued Landed Costs, cleared when the charge invoice is booked
+ */
+import { supabaseServer } from '../config/supabase';
+import { getMappedAccountCodes } from './coa.service';
+import { BusinessRuleError, NotFoundError, ValidationError } from './error.service';
+import { createJournal, JournalLine } from './journal.service';
+import { validatePeriodIsOpen } from './period.service';
+
+// Types
+export type AllocationBasis = 'value' | 'quantity' | 'weight';
+export type LandedChargeType = 'FREIGHT' | 'IMPORT_DUTY' | 'BROKERAGE' | 'INSURANCE' | 'OTHER';
+export type LandedCostStatus = 'draft' | 'posted' | 'cancelled';
+
+export interface LandedCostCharge {
+    id?: string;
+    charge_type: LandedChargeType;
+    description?: string;
+    amount: number;
+    /** Defaults to value */
+    allocation_basis?: AllocationBasis;
+}
+
+export interface CreateLandedCostVoucherParams {
+    company_id: string;
+    voucher_number: string;
+    voucher_date: string;
+    vendor_id?: string;
+    grn_ids: string[];
+    charges: LandedCostCharge[];
+    notes?: string;
+}
+
+/** A GRN line as seen by the allocator */
+export interface AllocationLine {
+    grn_id: string;
+    grn_line_id: string;
+    material_id: string;
+    warehouse_id: string;
+    qty_received: number;
+    line_value: number;
+    /** Received weight in kg, null when neither the line nor the material has one */
+    weight: number | null;
+}
+
+export interface LineAllocation {
+    grn_id: string;
+    grn_line_id: string;
+    material_id: string;
+    warehouse_id: string;
+    basis_amount: number;
+    allocated_amount: number;
+}
+
+export interface LandedCostAllocation extends LineAllocation {
+    id: string;
+    voucher_id: string;
+    charge_id: string;
+    qty_received: number | null;
+    qty_on_hand: number | null;
+    capitalized_amount: number | null;
+    wip_amount: number | null;
+}
+
+export interface LandedCostVoucher {
+    id: string;
+    company_id: string;
+    voucher_number: string;
+    voucher_date: string;
+    period_id: string;
+    vendor_id: string | null;
+    status: LandedCostStatus;
+    total_amount: number;
+    capitalized_amount: number;
+    wip_amount: number;
+    journal_id: string | null;
+    notes: string | null;
+    receipts?: { grn_id: string }[];
+    charges?: LandedCostCharge[];
+    allocations?: LandedCostAllocation[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// ==================== ALLOCATION ====================
+
+/**
+ * Spreads one charge over GRN lines in proportion to the chosen basis.
+ *
+ * Amounts are rounded to cents and the rounding remainder goes to the line with the
+ * largest basis, so the allocations always add up to the charge.
+ *
+ * @throws {ValidationError} If there are no lines, a weight is missing for a weight
+ *         allocation, or the basis totals zero
+ *
+ * @example
+ * ```typescript
+ * // Freight of 300,000 by weight over a 60 kg and a 40 kg roll
+ * allocateLandedCost(lines, 300000, 'weight');
+ * // → 180,000 and 120,000
+ * ```
+ */
+export function allocateLandedCost(lines: AllocationLine[], amount: number, basis: AllocationBasis): LineAllocation[] {
+    if (lines.length === 0) {
+        throw new ValidationError('Landed cost needs at least one goods receipt line');
+    }
+
+    if (basis === 'weight') {
+        const missing = lines.filter(line => line.weight === null);
+        if (missing.length > 0) {
+            throw new ValidationError(
+                `Weight allocation needs a weight on every line; missing for ${missing.length} line(s)`
+            );
+        }
+    }
+
+    const basisOf = (line: AllocationLine): number => {
+        switch (basis) {
+            case 'value': return line.line_value;
+            case 'quantity': return line.qty_received;
+            case 'weight': return line.weight as number;
+        }
+    };
+
+    const totalBasis = lines.reduce((sum, line) => sum + basisOf(line), 0);
+    if (totalBasis <= 0) {
+        throw new ValidationError(`Cannot allocate by ${basis}: receipt lines total zero`);
+    }
+
+    const allocations = lines.map(line => ({
+        grn_id: line.grn_id,
+        grn_line_id: line.grn_line_id,
+        material_id: line.material_id,
+        warehouse_id: line.warehouse_id,
+        basis_amount: basisOf(line),
+        allocated_amount: round2(amount * basisOf(line) / totalBasis),
+    }));
+
+    const remainder = round2(amount - allocations.reduce((sum, a) => sum + a.allocated_amount, 0));
+    if (remainder !== 0) {
+        const largest = allocations.reduce((max, a) => (a.basis_amount > max.basis_amount ? a : max));
+        largest.allocated_amount = round2(largest.allocated_amount + remainder);
+    }
+
+    return allocations;
+}
+
+// ==================== VOUCHERS ====================
+
+/**
+ * Creates a draft landed cost voucher and allocates its charges to the GRN lines.
+ *
+ * Line weight is the GRN line's `gross_weight`, else `qty_received * materials.unit_weight`.
+ *
+ * @param params - Voucher header, referenced GRNs and charges
+ * @param userId - User creating the voucher
+ * @returns The voucher with charges and allocations
+ * @throws {ValidationError} If there are no GRNs or charges, or a charge cannot be allocated
+ * @throws {BusinessRuleError} If a GRN is not posted or belongs to another company,
+ *         or there is no open period for the voucher date
+ *
+ * @example
+ * ```typescript
+ * const voucher = await createLandedCostVoucher({
+ *   company_id: companyId,
+ *   voucher_number: 'LC-2026-001',
+ *   voucher_date: '2026-01-20',
+ *   vendor_id: forwarderId,
+ *   grn_ids: [grnId],
+ *   charges: [
+ *     { charge_type: 'FREIGHT', amount: 1500000, allocation_basis: 'weight' },
+ *     { charge_type: 'IMPORT_DUTY', amount: 4200000, allocation_basis: 'value' },
+ *   ],
+ * }, userId);
+ * ```
+ */
+export async function createLandedCostVoucher(
+    params: CreateLandedCostVoucherParams,
+    userId: string
+): Promise<LandedCostVoucher> {
+    const grnIds = [...new Set(params.grn_ids)];
+    if (grnIds.length === 0) {
+        throw new ValidationError('Landed cost voucher must reference at least one goods receipt');
+    }
+    if (params.charges.length === 0) {
+        throw new ValidationError('Landed cost voucher must have at least one charge');
+    }
+    const invalid = params.charges.find(charge => !(charge.amount > 0));
+    if (invalid) {
+        throw new ValidationError(`Charge amount must be positive: ${invalid.charge_type}`);
+    }
+
+    const lines = await getAllocationLines(params.company_id, grnIds);
+    const chargeAllocations = params.charges.map(charge =>
+        allocateLandedCost(lines, charge.amount, charge.allocation_basis || 'value')
+    );
+
+    const { data: period } = await supabaseServer
+        .from('accounting_periods')
+        .select('id')
+        .eq('company_id', params.company_id)
+        .eq('status', 'open')
+        .lte('start_date', params.voucher_date)
+        .gte('end_date', params.voucher_date)
+        .single();
+
+    if (!period) throw new BusinessRuleError('No open accounting period for the voucher date');
+
+    const { data: voucher, error } = await supabaseServer
+        .from('landed_cost_vouchers')
+        .insert({
+            company_id: params.company_id,
+            voucher_number: params.voucher_number,
+            voucher_date: params.voucher_date,
+            period_id: period.id,
+            vendor_id: params.vendor_id,
+            total_amount: round2(params.charges.reduce((sum, charge) => sum + charge.amount, 0)),
+            notes: params.notes,
+            created_by: userId,
+        })
+        .select()
+        .single();
+
+    if (error) throw error;
+
+    const { error: receiptsError } = await supabaseServer
+        .from('landed_cost_voucher_receipts')
+        .insert(grnIds.map(grnId => ({ voucher_id: voucher.id, grn_id: grnId })));
+
+    if (receiptsError) throw receiptsError;
+
+    const { data: charges, error: chargesError } = await supabaseServer
+        .from('landed_cost_charges')
+        .insert(params.charges.map(charge => ({
+            voucher_id: voucher.id,
+            charge_type: charge.charge_type,
+            description: charge.description,
+            amount: charge.amount,
+            allocation_basis: charge.allocation_basis || 'value',
+        })))
+        .select('id');
+
+    if (chargesError) throw chargesError;
+
+    const allocationRows = (charges || []).flatMap((charge: { id: string }, index: number) =>
+        chargeAllocations[index].map(allocation => ({
+            voucher_id: voucher.id,
+            charge_id: charge.id,
+            ...allocation,
+        }))
+    );
+
+    const { error: allocationError } = await supabaseServer
+        .from('landed_cost_allocations')
+        .insert(allocationRows);
+
+    if (allocationError) throw allocationError;
+
+    return getLandedCostVoucher(voucher.id);
+}
+
+/**
+ * Posts a draft voucher: revalues raw material cost and journals the capitalization.
+ *
+ * **Accounting Impact:**
+ * - Dr. Raw Material Inventory (share of the receipts still on hand)
+ * - Dr. WIP Inventory (share already issued to production)
+ * - Cr. Accrued Landed Costs
+ *
+ * @param voucherId - UUID of the draft voucher
+ * @param userId - User posting
+ * @returns The posted voucher
+ * @throws {Error} If the period is closed, or the voucher is not a draft
+ * @throws {Error} If an account mapping is missing (checked before anything is revalued)
+ */
+export async function postLandedCostVoucher(voucherId: string, userId: string): Promise<LandedCostVoucher> {
+    const draft = await getLandedCostVoucher(voucherId);
+    await validatePeriodIsOpen(draft.period_id);
+
+    // Resolved before revaluing: a posted voucher cannot be posted again to add its journal
+    const accounts = await getMappedAccountCodes(draft.company_id, [
+        'INVENTORY_RAW_MATERIALS',
+        'INVENTORY_WIP',
+        'ACCRUED_LANDED_COSTS',
+    ]);
+
+    const { error } = await supabaseServer.rpc('apply_landed_cost_voucher', {
+        p_voucher_id: voucherId,
+        p_user_id: userId,
+    });
+
+    if (error) throw error;
+
+    const voucher = await getLandedCostVoucher(voucherId);
+    const journalLines = buildLandedCostJournalLines(
+        { capitalized: Number(voucher.capitalized_amount), wip: Number(voucher.wip_amount) },
+        {
+            inventory: accounts.INVENTORY_RAW_MATERIALS,
+            wip: accounts.INVENTORY_WIP,
+            accrued: accounts.ACCRUED_LANDED_COSTS,
+        },
+        voucher.voucher_number
+    );
+
+    const journal = await createJournal({
+        company_id: voucher.company_id,
+        period_id: voucher.period_id,
+        journal_number: voucher.voucher_number,
+        journal_date: voucher.voucher_date,
+        description: `Landed cost ${voucher.voucher_number}`,
+        reference_type: 'LANDED_COST',
+        reference_id: voucher.id,
+    }, journalLines, userId);
+
+    const { error: voucherError } = await supabaseServer
+        .from('landed_cost_vouchers')
+        .update({ journal_id: journal.id })
+        .eq('id', voucher.id);
+
+    if (voucherError) throw voucherError;
+    return { ...voucher, journal_id: journal.id };
+}
+
+/**
+ * Capitalization journal for a posted voucher.
+ *
+ * The accrual is credited with the full charge; the debit is split between raw
+ * material inventory and WIP by how much of the receipts had already been issued.
+ */
+export function buildLandedCostJournalLines(
+    amounts: { capitalized: number; wip: number },
+    accounts: { inventory: string; wip: string; accrued: string },
+    voucherNumber: string
+): JournalLine[] {
+    const capitalized = round2(amounts.capitalized);
+    const wip = round2(amounts.wip);
+    const total = round2(capitalized + wip);
+    if (total === 0) return [];
+
+    const lines: JournalLine[] = [];
+    if (capitalized !== 0) {
+        lines.push({
+            account_code: accounts.inventory,
+            debit: capitalized,
+            credit: 0,
+            description: `Landed cost ${voucherNumber} - stock on hand`,
+        });
+    }
+    if (wip !== 0) {
+        lines.push({
+            account_code: accounts.wip,
+            debit: wip,
+            credit: 0,
+            description: `Landed cost ${voucherNumber} - already issued`,
+        });
+    }
+    lines.push({
+        account_code: accounts.accrued,
+        debit: 0,
+        credit: total,
+        description: `Landed cost ${voucherNumber}`,
+    });
+    return lines;
+}
+
+/**
+ * Cancels a draft voucher. Posted vouchers have revalued stock and cannot be cancelled.
+ */
+export async function cancelLandedCostVoucher(voucherId: string): Promise<void> {
+    const voucher = await getLandedCostVoucher(voucherId);
+    if (voucher.status !== 'draft') {
+        throw new BusinessRuleError(`Only draft vouchers can be cancelled; ${voucher.voucher_number} is ${voucher.status}`);
+    }
+
+    const { error } = await supabaseServer
+        .from('landed_cost_vouchers')
+        .update({ status: 'cancelled' })
+        .eq('id', voucherId);
+
+    if (error) throw error;
+}
+
+export async function getLandedCostVoucher(voucherId: string): Promise<LandedCostVoucher> {
+    const { data, error } = await supabaseServer
+        .from('landed_cost_vouchers')
+        .select('*, receipts:landed_cost_voucher_receipts(grn_id), charges:landed_cost_charges(*), allocations:landed_cost_allocations(*)')
+        .eq('id', voucherId)
+        .maybeSingle();
+
+    if (error) throw error;
+    if (!data) throw new NotFoundError('Landed cost voucher', voucherId);
+    return data;
+}
+
+export async function getLandedCostVouchers(companyId: string, status?: LandedCostStatus): Promise<LandedCostVoucher[]> {
+    let query = supabaseServer
+        .from('landed_cost_vouchers')
+        .select('*')
+        .eq('company_id', companyId)
+        .order('voucher_date', { ascending: false });
+    if (status) query = query.eq('status', status);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+}
+
+/** Landed cost allocated to each line of a GRN, across all posted vouchers */
+export async function getGRNLandedCosts(grnId: string): Promise<LandedCostAllocation[]> {
+    const { data, error } = await supabaseServer
+        .from('landed_cost_allocations')
+        .select('*, voucher:landed_cost_vouchers!inner(voucher_number, voucher_date, status), charge:landed_cost_charges(charge_type, description)')
+        .eq('grn_id', grnId)
+        .eq('voucher.status', 'posted');
+
+    if (error) throw error;
+    return data || [];
+}
+
+// ==================== HELPERS ====================
+
+interface ReceiptWithLines {
+    id: string;
+    grn_number: string;
+    company_id: string;
+    warehouse_id: string;
+    status: string;
+    lines: {
+        id: string;
+        material_id: string;
+        qty_received: number;
+        line_total: number;
+        gross_weight: number | null;
+        material: { unit_weight: number | null } | null;
+    }[] | null;
+}
+
+async function getAllocationLines(companyId: string, grnIds: string[]): Promise<AllocationLine[]> {
+    const { data: grns, error } = await supabaseServer
+        .from('goods_receipt_notes')
+        .select('id, grn_number, company_id, warehouse_id, status, lines:grn_lines(id, material_id, qty_received, line_total, gross_weight, material:materials(unit_weight))')
+        .in('id', grnIds);
+
+    if (error) throw error;
+
+    const receipts = (grns || []) as unknown as ReceiptWithLines[];
+    const found = new Set(receipts.map(grn => grn.id));
+    const missing = grnIds.filter(id => !found.has(id));
+    if (missing.length > 0) throw new NotFoundError('Goods receipt', missing.join(', '));
+
+    const lines: AllocationLine[] = [];
+    for (const grn of receipts) {
+        if (grn.company_id !== companyId) {
+            throw new BusinessRuleError(`Goods receipt ${grn.grn_number} belongs to another company`);
+        }
+        if (grn.status !== 'posted') {
+            throw new BusinessRuleError(`Goods receipt ${grn.grn_number} is not posted`);
+        }
+        for (const line of grn.lines || []) {
+            const unitWeight = line.material?.unit_weight;
+            lines.push({
+                grn_id: grn.id,
+                grn_line_id: line.id,
+                material_id: line.material_id,
+                warehouse_id: grn.warehouse_id,
+                qty_received: Number(line.qty_received),
+                line_value: Number(line.line_total),
+                weight: line.gross_weight != null
+                    ? Number(line.gross_weight)
+                    : unitWeight != null ? Number(line.qty_received) * Number(unitWeight) : null,
+            });
+        }
+    }
+    return lines;
+}
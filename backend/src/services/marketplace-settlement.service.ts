@@ -0,0 +1,632 @@
+/**
+ * Marketplace Settlement Service
+ * Imports marketplace payouts, reconciles them against synced orders and posts
+ * the settlement journal (clear AR, book fees and shipping deductions).
+ */
+import { supabaseServer } from '../config/supabase';
+import { getMappedAccountCodes } from './coa.service';
+import { BusinessRuleError, NotFoundError, ValidationError } from './error.service';
+import { createJournal, JournalLine } from './journal.service';
+import type { MarketplacePlatform } from './marketplace.service';
+
+// Types
+export type SettlementSource = 'CSV' | 'API';
+export type SettlementStatus = 'draft' | 'reconciled' | 'confirmed';
+export type SettlementMatchStatus = 'pending' | 'matched' | 'unmatched' | 'short_paid' | 'over_paid';
+
+export interface SettlementLineInput {
+    external_order_id: string;
+    amount_gross: number;
+    commission_fee?: number;
+    service_fee?: number;
+    payment_fee?: number;
+    shipping_subsidy?: number;
+    /** Derived as gross − fees − shipping when omitted */
+    amount_net?: number;
+}
+
+/**
+ * Normalized payout shape. CSV rows go through parseSettlementCSV;
+ * API payouts are mapped to this shape by the caller.
+ */
+export interface SettlementPayload {
+    settlement_ref: string;
+    payout_date: string;
+    start_date?: string;
+    end_date?: string;
+    notes?: string;
+    lines: SettlementLineInput[];
+}
+
+export interface SettlementLine extends Required<SettlementLineInput> {
+    id?: string;
+    company_id: string;
+    settlement_id: string;
+    order_id: string | null;
+    expected_amount: number | null;
+    variance: number;
+    match_status: SettlementMatchStatus;
+}
+
+export interface MarketplaceSettlement {
+    id: string;
+    company_id: string;
+    account_id: string;
+    settlement_ref: string;
+    start_date: string | null;
+    end_date: string | null;
+    payout_date: string;
+    amount_gross: number;
+    amount_fees: number;
+    amount_shipping_subsidy: number;
+    amount_net: number;
+    amount_unmatched: number;
+    amount_short_paid: number;
+    source: SettlementSource;
+    status: SettlementStatus;
+    journal_id: string | null;
+    confirmed_at: string | null;
+    confirmed_by: string | null;
+    notes: string | null;
+    created_at: string;
+    account: { platform: MarketplacePlatform; account_name?: string };
+}
+
+export interface SettlementLineWithOrder extends SettlementLine {
+    id: string;
+    order: { external_order_id: string; customer_name: string | null; total_amount: number; so_id: string | null } | null;
+}
+
+export interface ReconciliationSummary {
+    settlement_id: string;
+    matched: number;
+    unmatched: number;
+    short_paid: number;
+    over_paid: number;
+    amount_unmatched: number;
+    amount_short_paid: number;
+}
+
+/** Gross vs order total differences below this are treated as rounding */
+const MATCH_TOLERANCE = 0.01;
+
+const CLEARING_MAPPING: Record<MarketplacePlatform, string> = {
+    Shopee: 'CLEARING_SHOPEE',
+    Tokopedia: 'CLEARING_TOKOPEDIA',
+    TikTok: 'CLEARING_TIKTOK',
+    Lazada: 'CLEARING_LAZADA',
+};
+
+// ==================== IMPORT ====================
+
+/**
+ * Imports a settlement payout and reconciles it against marketplace orders.
+ *
+ * **Workflow:**
+ * 1. Validate each line (net must equal gross − fees − shipping)
+ * 2. Create the settlement header (status 'draft') and its lines
+ * 3. Run reconcileSettlement to match lines to `marketplace_orders`
+ *
+ * @param companyId - Company UUID
+ * @param accountId - Marketplace account the payout belongs to
+ * @param payload - Normalized payout (from CSV or API)
+ * @param source - Where the payout came from
+ * @param userId - User performing the import
+ *
+ * @throws {ValidationError} If the payout has no lines or a line does not add up
+ * @returns Settlement ID and reconciliation summary
+ *
+ * @example
+ * ```typescript
+ * const rows = parseCsv(file); // array of objects keyed by header
+ * const result = await importSettlement(companyId, accountId, {
+ *   settlement_ref: 'PAYOUT-2025-01-15',
+ *   payout_date: '2025-01-15',
+ *   lines: parseSettlementCSV(rows),
+ * }, 'CSV', userId);
+ * console.log(`${result.unmatched} lines need attention`);
+ * ```
+ */
+export async function importSettlement(
+    companyId: string,
+    accountId: string,
+    payload: SettlementPayload,
+    source: SettlementSource,
+    userId: string
+): Promise<ReconciliationSummary> {
+    if (!payload.lines.length) {
+        throw new ValidationError('Settlement has no payout lines');
+    }
+
+    const lines = payload.lines.map(normalizeLine);
+
+    const totals = lines.reduce((sum, line) => ({
+        gross: sum.gross + line.amount_gross,
+        fees: sum.fees + line.commission_fee + line.service_fee + line.payment_fee,
+        shipping: sum.shipping + line.shipping_subsidy,
+        net: sum.net + line.amount_net,
+    }), { gross: 0, fees: 0, shipping: 0, net: 0 });
+
+    const { data: settlement, error } = await supabaseServer
+        .from('marketplace_settlements')
+        .insert({
+            company_id: companyId,
+            account_id: accountId,
+            settlement_ref: payload.settlement_ref,
+            start_date: payload.start_date || null,
+            end_date: payload.end_date || null,
+            payout_date: payload.payout_date,
+            amount_gross: round2(totals.gross),
+            amount_fees: round2(totals.fees),
+            amount_shipping_subsidy: round2(totals.shipping),
+            amount_net: round2(totals.net),
+            source,
+            status: 'draft',
+            notes: payload.notes,
+            created_by: userId,
+        })
+        .select()
+        .single();
+
+    if (error) throw error;
+
+    const { error: linesError } = await supabaseServer
+        .from('marketplace_settlement_lines')
+        .insert(lines.map(line => ({
+            ...line,
+            company_id: companyId,
+            settlement_id: settlement.id,
+        })));
+
+    if (linesError) {
+        // Rollback header if lines fail
+        await supabaseServer.from('marketplace_settlements').delete().eq('id', settlement.id);
+        throw linesError;
+    }
+
+    return reconcileSettlement(settlement.id);
+}
+
+/**
+ * Column aliases found in Shopee, Tokopedia, TikTok Shop and Lazada income reports.
+ * Matched case-insensitively against CSV headers.
+ */
+const CSV_COLUMNS: Record<keyof SettlementLineInput, string[]> = {
+    external_order_id: ['external_order_id', 'order_id', 'order_sn', 'no. pesanan', 'nomor invoice', 'invoice', 'order number'],
+    amount_gross: ['amount_gross', 'gross', 'order_amount', 'order amount', 'total penjualan', 'harga asli produk', 'subtotal'],
+    commission_fee: ['commission_fee', 'commission fee', 'biaya komisi', 'biaya administrasi'],
+    service_fee: ['service_fee', 'service fee', 'biaya layanan'],
+    payment_fee: ['payment_fee', 'payment fee', 'transaction fee', 'biaya transaksi', 'biaya proses pesanan'],
+    shipping_subsidy: ['shipping_subsidy', 'shipping fee paid by seller', 'ongkir dibayar penjual', 'biaya pengiriman'],
+    amount_net: ['amount_net', 'net', 'settlement amount', 'total released amount', 'total penghasilan', 'penghasilan bersih'],
+};
+
+/**
+ * Converts parsed CSV rows (objects keyed by header) into settlement lines.
+ *
+ * Amounts may use Indonesian formatting ('Rp 150.000,00') and fees may be
+ * reported as negative deductions; both are normalized.
+ *
+ * @param rows - CSV rows keyed by header
+ * @throws {ValidationError} If the order ID or gross amount column cannot be found
+ * @returns Settlement lines ready for importSettlement
+ */
+export function parseSettlementCSV(rows: Record<string, string>[]): SettlementLineInput[] {
+    if (!rows.length) return [];
+
+    const headers = Object.keys(rows[0]);
+    const column = (field: keyof SettlementLineInput) =>
+        headers.find(header => CSV_COLUMNS[field].includes(header.trim().toLowerCase()));
+
+    const orderCol = column('external_order_id');
+    const grossCol = column('amount_gross');
+    if (!orderCol || !grossCol) {
+        throw new ValidationError('Settlement CSV must have order ID and gross amount columns', { headers });
+    }
+
+    const feeCols = {
+        commission_fee: column('commission_fee'),
+        service_fee: column('service_fee'),
+        payment_fee: column('payment_fee'),
+        shipping_subsidy: column('shipping_subsidy'),
+    };
+    const netCol = column('amount_net');
+
+    return rows
+        .filter(row => row[orderCol]?.trim())
+        .map(row => ({
+            external_order_id: row[orderCol].trim(),
+            amount_gross: parseAmount(row[grossCol]),
+            commission_fee: Math.abs(parseAmount(feeCols.commission_fee && row[feeCols.commission_fee])),
+            service_fee: Math.abs(parseAmount(feeCols.service_fee && row[feeCols.service_fee])),
+            payment_fee: Math.abs(parseAmount(feeCols.payment_fee && row[feeCols.payment_fee])),
+            shipping_subsidy: Math.abs(parseAmount(feeCols.shipping_subsidy && row[feeCols.shipping_subsidy])),
+            amount_net: netCol ? parseAmount(row[netCol]) : undefined,
+        }));
+}
+
+// ==================== RECONCILIATION ====================
+
+/**
+ * Matches settlement lines to marketplace orders of the same account.
+ *
+ * Each line is compared against the order's total_amount:
+ * - no order with that external ID → 'unmatched'
+ * - gross below order total → 'short_paid'
+ * - gross above order total → 'over_paid'
+ * - otherwise → 'matched'
+ *
+ * Safe to re-run (e.g. after late orders are synced) until the settlement is confirmed.
+ *
+ * @param settlementId - Settlement UUID
+ * @throws {NotFoundError} If the settlement does not exist
+ * @throws {BusinessRuleError} If the settlement is already confirmed
+ * @returns Counts and amounts per match status
+ */
+export async function reconcileSettlement(settlementId: string): Promise<ReconciliationSummary> {
+    const settlement = await getSettlement(settlementId);
+    if (settlement.status === 'confirmed') {
+        throw new BusinessRuleError('Settlement is already confirmed');
+    }
+
+    const { data: lines, error } = await supabaseServer
+        .from('marketplace_settlement_lines')
+        .select('*')
+        .eq('settlement_id', settlementId);
+
+    if (error) throw error;
+
+    const { data: orders, error: ordersError } = await supabaseServer
+        .from('marketplace_orders')
+        .select('id, external_order_id, total_amount')
+        .eq('account_id', settlement.account_id)
+        .in('external_order_id', (lines || []).map(line => line.external_order_id));
+
+    if (ordersError) throw ordersError;
+
+    const ordersByExternalId = new Map((orders || []).map(order => [order.external_order_id, order]));
+    const summary: ReconciliationSummary = {
+        settlement_id: settlementId,
+        matched: 0,
+        unmatched: 0,
+        short_paid: 0,
+        over_paid: 0,
+        amount_unmatched: 0,
+        amount_short_paid: 0,
+    };
+
+    for (const line of lines || []) {
+        const match = classifyLine(line.amount_gross, ordersByExternalId.get(line.external_order_id)?.total_amount);
+        const order = ordersByExternalId.get(line.external_order_id);
+
+        summary[match.match_status as 'matched' | 'unmatched' | 'short_paid' | 'over_paid']++;
+        if (match.match_status === 'unmatched') summary.amount_unmatched += Number(line.amount_gross);
+        if (match.match_status === 'short_paid') summary.amount_short_paid += match.variance;
+
+        const { error: updateError } = await supabaseServer
+            .from('marketplace_settlement_lines')
+            .update({
+                order_id: order?.id || null,
+                expected_amount: match.expected_amount,
+                variance: match.variance,
+                match_status: match.match_status,
+            })
+            .eq('id', line.id);
+
+        if (updateError) throw updateError;
+    }
+
+    summary.amount_unmatched = round2(summary.amount_unmatched);
+    summary.amount_short_paid = round2(summary.amount_short_paid);
+
+    const { error: headerError } = await supabaseServer
+        .from('marketplace_settlements')
+        .update({
+            status: 'reconciled',
+            amount_unmatched: summary.amount_unmatched,
+            amount_short_paid: summary.amount_short_paid,
+        })
+        .eq('id', settlementId);
+
+    if (headerError) throw headerError;
+
+    return summary;
+}
+
+/**
+ * Compares a payout line's gross amount with the order total.
+ */
+export function classifyLine(
+    amountGross: number,
+    orderTotal: number | null | undefined
+): { match_status: SettlementMatchStatus; expected_amount: number | null; variance: number } {
+    if (orderTotal === null || orderTotal === undefined) {
+        return { match_status: 'unmatched', expected_amount: null, variance: 0 };
+    }
+
+    const expected = Number(orderTotal);
+    const variance = round2(expected - Number(amountGross));
+
+    if (variance > MATCH_TOLERANCE) return { match_status: 'short_paid', expected_amount: expected, variance };
+    if (variance < -MATCH_TOLERANCE) return { match_status: 'over_paid', expected_amount: expected, variance };
+    return { match_status: 'matched', expected_amount: expected, variance: 0 };
+}
+
+// ==================== CONFIRMATION ====================
+
+/**
+ * Confirms a reconciled settlement and posts its journal.
+ *
+ * **Journal (draft, via createJournal):**
+ * - Dr Bank (DEFAULT_BANK or bankAccountCode) — net payout
+ * - Dr MARKETPLACE_FEES — commission, service and payment fees
+ * - Dr MARKETPLACE_SHIPPING — shipping charged to the seller
+ * - Cr ACCOUNTS_RECEIVABLE — gross of lines matched to an order, at most what is still open on it
+ * - Cr CLEARING_<PLATFORM> — gross of unmatched lines and over-payments, held until investigated
+ *
+ * Short-paid orders only clear what was received; the shortfall stays open in AR.
+ * An order's open amount is its total less the gross of earlier confirmed settlements,
+ * so over-paid and repeated payouts never push AR below zero.
+ * The header and the paid orders are updated by one RPC (confirm_marketplace_settlement);
+ * if it fails the draft journal is removed again.
+ *
+ * @param settlementId - Settlement UUID
+ * @param userId - User confirming the settlement
+ * @param bankAccountCode - Optional COA code of the receiving bank (defaults to DEFAULT_BANK mapping)
+ *
+ * @throws {BusinessRuleError} If the settlement is not reconciled or has no open period
+ * @throws {Error} If an account mapping is missing or the confirmation RPC fails
+ * @returns Created journal ID and number
+ */
+export async function confirmSettlement(
+    settlementId: string,
+    userId: string,
+    bankAccountCode?: string
+): Promise<{ id: string; journal_number: string }> {
+    const settlement = await getSettlement(settlementId);
+    if (settlement.status === 'confirmed') {
+        throw new BusinessRuleError('Settlement is already confirmed');
+    }
+    if (settlement.status !== 'reconciled') {
+        throw new BusinessRuleError('Settlement must be reconciled before confirmation');
+    }
+
+    const { data: lines, error } = await supabaseServer
+        .from('marketplace_settlement_lines')
+        .select('*')
+        .eq('settlement_id', settlementId);
+
+    if (error) throw error;
+
+    const platform = settlement.account.platform;
+    const clearingCode = CLEARING_MAPPING[platform];
+    const accounts = await getMappedAccountCodes(settlement.company_id, [
+        'DEFAULT_BANK',
+        'ACCOUNTS_RECEIVABLE',
+        'MARKETPLACE_FEES',
+        'MARKETPLACE_SHIPPING',
+        clearingCode,
+    ]);
+
+    const openAmounts = await getOpenOrderAmounts(settlementId, lines || []);
+    const journalLines = buildSettlementJournalLines((lines || []).map(line => ({
+        ...line,
+        open_amount: line.order_id ? openAmounts.get(line.order_id) ?? null : null,
+    })), {
+        bank: bankAccountCode || accounts.DEFAULT_BANK,
+        receivable: accounts.ACCOUNTS_RECEIVABLE,
+        fees: accounts.MARKETPLACE_FEES,
+        shipping: accounts.MARKETPLACE_SHIPPING,
+        clearing: accounts[clearingCode],
+    }, settlement.settlement_ref);
+
+    const { data: period } = await supabaseServer
+        .from('accounting_periods')
+        .select('id')
+        .eq('company_id', settlement.company_id)
+        .eq('status', 'open')
+        .lte('start_date', settlement.payout_date)
+        .gte('end_date', settlement.payout_date)
+        .single();
+
+    if (!period) throw new BusinessRuleError('No open accounting period for payout date');
+
+    const journal = await createJournal({
+        company_id: settlement.company_id,
+        period_id: period.id,
+        journal_number: `STL-${platform.toUpperCase()}-${settlement.settlement_ref}`,
+        journal_date: settlement.payout_date,
+        description: `${platform} settlement ${settlement.settlement_ref}`,
+        reference_type: 'MARKETPLACE_SETTLEMENT',
+        reference_id: settlement.id,
+    }, journalLines, userId);
+
+    const { error: confirmError } = await supabaseServer.rpc('confirm_marketplace_settlement', {
+        p_settlement_id: settlementId,
+        p_journal_id: journal.id,
+        p_user_id: userId,
+    });
+
+    if (confirmError) {
+        await supabaseServer.from('journals').delete().eq('id', journal.id);
+        throw confirmError;
+    }
+
+    return journal;
+}
+
+/**
+ * Builds balanced settlement journal lines. Zero amounts are omitted.
+ *
+ * Matched lines credit AR with their gross, capped at `open_amount` when given;
+ * the excess goes to clearing together with the unmatched lines.
+ */
+export function buildSettlementJournalLines(
+    lines: (Pick<SettlementLine, 'amount_gross' | 'commission_fee' | 'service_fee' | 'payment_fee' | 'shipping_subsidy' | 'amount_net' | 'match_status'> & {
+        /** Receivable still open on the matched order */
+        open_amount?: number | null;
+    })[],
+    accounts: { bank: string; receivable: string; fees: string; shipping: string; clearing: string },
+    settlementRef: string
+): JournalLine[] {
+    let net = 0;
+    let fees = 0;
+    let shipping = 0;
+    let receivable = 0;
+    let clearing = 0;
+
+    for (const line of lines) {
+        const gross = Number(line.amount_gross);
+        net += Number(line.amount_net);
+        fees += Number(line.commission_fee) + Number(line.service_fee) + Number(line.payment_fee);
+        shipping += Number(line.shipping_subsidy);
+        if (line.match_status === 'unmatched') {
+            clearing += gross;
+        } else {
+            const cleared = line.open_amount === null || line.open_amount === undefined
+                ? gross
+                : Math.min(gross, Math.max(Number(line.open_amount), 0));
+            receivable += cleared;
+            clearing += gross - cleared;
+        }
+    }
+
+    const journalLines: JournalLine[] = [
+        { account_code: accounts.bank, debit: round2(net), credit: 0, description: `Payout ${settlementRef}` },
+        { account_code: accounts.fees, debit: round2(fees), credit: 0, description: 'Marketplace fees' },
+        { account_code: accounts.shipping, debit: round2(shipping), credit: 0, description: 'Shipping charged to seller' },
+        { account_code: accounts.receivable, debit: 0, credit: round2(receivable), description: 'Clear marketplace receivables' },
+        { account_code: accounts.clearing, debit: 0, credit: round2(clearing), description: 'Unmatched and over-paid payout lines' },
+    ];
+
+    return journalLines.filter(line => line.debit > 0 || line.credit > 0);
+}
+
+// ==================== QUERIES ====================
+
+export async function getSettlements(companyId: string): Promise<MarketplaceSettlement[]> {
+    const { data, error } = await supabaseServer
+        .from('marketplace_settlements')
+        .select('*, account:marketplace_accounts(platform, account_name)')
+        .eq('company_id', companyId)
+        .order('payout_date', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+}
+
+/**
+ * Returns settlement lines, optionally only the exceptions (unmatched / short / over paid).
+ */
+export async function getSettlementLines(settlementId: string, exceptionsOnly = false): Promise<SettlementLineWithOrder[]> {
+    let query = supabaseServer
+        .from('marketplace_settlement_lines')
+        .select('*, order:marketplace_orders(external_order_id, customer_name, total_amount, so_id)')
+        .eq('settlement_id', settlementId)
+        .order('external_order_id');
+
+    if (exceptionsOnly) {
+        query = query.in('match_status', ['unmatched', 'short_paid', 'over_paid']);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+}
+
+/**
+ * Receivable still open per matched order: the order total less the gross
+ * already cleared by other confirmed settlements.
+ */
+async function getOpenOrderAmounts(
+    settlementId: string,
+    lines: Pick<SettlementLine, 'order_id' | 'expected_amount'>[]
+): Promise<Map<string, number>> {
+    const open = new Map<string, number>();
+    for (const line of lines) {
+        if (line.order_id && line.expected_amount !== null) open.set(line.order_id, Number(line.expected_amount));
+    }
+    if (open.size === 0) return open;
+
+    const { data: settled, error } = await supabaseServer
+        .from('marketplace_settlement_lines')
+        .select('order_id, amount_gross, settlement:marketplace_settlements!inner(status)')
+        .in('order_id', [...open.keys()])
+        .neq('settlement_id', settlementId)
+        .eq('settlement.status', 'confirmed');
+
+    if (error) throw error;
+
+    for (const row of (settled || []) as { order_id: string; amount_gross: number }[]) {
+        open.set(row.order_id, round2((open.get(row.order_id) ?? 0) - Number(row.amount_gross)));
+    }
+    return open;
+}
+
+async function getSettlement(settlementId: string): Promise<MarketplaceSettlement> {
+    const { data, error } = await supabaseServer
+        .from('marketplace_settlements')
+        .select('*, account:marketplace_accounts(platform)')
+        .eq('id', settlementId)
+        .single();
+
+    if (error || !data) throw new NotFoundError('Settlement', settlementId);
+    return data;
+}
+
+// ==================== HELPERS ====================
+
+function normalizeLine(input: SettlementLineInput): Required<SettlementLineInput> {
+    const line = {
+        external_order_id: input.external_order_id,
+        amount_gross: round2(input.amount_gross),
+        commission_fee: round2(input.commission_fee || 0),
+        service_fee: round2(input.service_fee || 0),
+        payment_fee: round2(input.payment_fee || 0),
+        shipping_subsidy: round2(input.shipping_subsidy || 0),
+        amount_net: 0,
+    };
+    const derivedNet = round2(
+        line.amount_gross - line.commission_fee - line.service_fee - line.payment_fee - line.shipping_subsidy
+    );
+
+    if (input.amount_net !== undefined && Math.abs(round2(input.amount_net) - derivedNet) > MATCH_TOLERANCE) {
+        throw new ValidationError(
+            `Payout line ${input.external_order_id} does not add up: net ${input.amount_net} ≠ gross − deductions ${derivedNet}`,
+            input
+        );
+    }
+
+    line.amount_net = derivedNet;
+    return line;
+}
+
+/**
+ * Parses '150000', '150,000.50', 'Rp 150.000' or '-1.500,25'.
+ * A single separator followed by exactly three digits is read as a thousands separator.
+ */
+export function parseAmount(value: string | undefined | false): number {
+    if (!value) return 0;
+    let cleaned = value.replace(/[^\d.,-]/g, '');
+
+    const lastDot = cleaned.lastIndexOf('.');
+    const lastComma = cleaned.lastIndexOf(',');
+    if (lastDot >= 0 && lastComma >= 0) {
+        // The later separator is the decimal one
+        const decimalSep = lastDot > lastComma ? '.' : ',';
+        const thousandSep = decimalSep === '.' ? ',' : '.';
+        cleaned = cleaned.split(thousandSep).join('').replace(decimalSep, '.');
+    } else if (lastDot >= 0 || lastComma >= 0) {
+        const sep = lastDot >= 0 ? '.' : ',';
+        const parts = cleaned.split(sep);
+        const isThousands = parts.length > 2 || parts[parts.length - 1].length === 3;
+        cleaned = isThousands ? parts.join('') : parts.join('.');
+    }
+
+    const parsed = parseFloat(cleaned);
+    return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function round2(value: number): number {
+    return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,453 @@
+/**
+ * Marketplace Stock Service
+ * Publishes sellable finished-goods stock to marketplace listings, keeps a
+ * per-listing sync log and compares what each marketplace shows with what we hold.
+ */
+import { supabaseServer } from '../config/supabase';
+import { NotFoundError } from './error.service';
+import { ensureFreshToken, withTokenRetry } from './marketplace.service';
+import type { MarketplacePlatform } from './marketplace.service';
+import { createConnector } from './connectors';
+import type { ExternalListing, StockUpdate } from './connectors';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('MarketplaceStock');
+
+// Types
+export type StockPushTrigger = 'manual' | 'ledger' | 'scheduled';
+export type StockReconciliationStatus = 'in_sync' | 'mismatch' | 'unknown' | 'unmapped';
+
+export interface MarketplaceListing {
+    id: string;
+    account_id: string;
+    external_item_id: string;
+    external_sku: string | null;
+    listing_name?: string | null;
+    marketplace_qty: number | null;
+}
+
+/** One row of marketplace_available_stock(): all quantities are per listing SKU */
+export interface AvailableStock {
+    external_sku: string;
+    on_hand: number;
+    reserved: number;
+    safety_buffer: number;
+    available: number;
+}
+
+export interface PlannedStockUpdate extends StockUpdate {
+    listing: MarketplaceListing;
+    stock: AvailableStock;
+}
+
+export interface StockPushOptions {
+    /** Limit the push to these listing SKUs */
+    skus?: string[];
+    trigger?: StockPushTrigger;
+    /** Push even when the marketplace already shows the available quantity */
+    force?: boolean;
+}
+
+export interface StockPushResult {
+    pushed: number;
+    failed: number;
+    /** Listings already in sync or without a matching SKU */
+    skipped: number;
+}
+
+export interface StockReconciliationRow {
+    listing_id: string;
+    account_id: string;
+    platform: MarketplacePlatform;
+    account_name: string;
+    external_item_id: string;
+    external_sku: string | null;
+    listing_name: string | null;
+    marketplace_qty: number | null;
+    last_pushed_qty: number | null;
+    last_pushed_at: string | null;
+    last_fetched_at: string | null;
+    on_hand: number | null;
+    reserved: number | null;
+    safety_buffer: number | null;
+    available: number | null;
+    difference: number | null;
+    reconciliation_status: StockReconciliationStatus;
+}
+
+export interface StockSyncLogEntry {
+    id: string;
+    account_id: string;
+    listing_id: string | null;
+    external_sku: string | null;
+    on_hand: number;
+    reserved: number;
+    safety_buffer: number;
+    previous_qty: number | null;
+    pushed_qty: number;
+    status: 'success' | 'failed';
+    error_message: string | null;
+    trigger_source: StockPushTrigger;
+    created_at: string;
+}
+
+// ==================== LISTINGS ====================
+
+/**
+ * Pulls every live listing from the marketplace and stores its current stock.
+ *
+ * Listings that no longer come back from the platform are deactivated so they
+ * are not pushed to.
+ *
+ * @param accountId - Marketplace account UUID
+ * @returns Number of listings fetched
+ * @throws {NotFoundError} If the account does not exist
+ */
+export async function syncListings(accountId: string): Promise<number> {
+    const account = await getAccount(accountId);
+    const connector = createConnector(account);
+    await ensureFreshToken(account, connector);
+
+    const fetchedAt = new Date().toISOString();
+    const listings: ExternalListing[] = [];
+    let cursor: string | null = null;
+
+    do {
+        const page = await withTokenRetry(accountId, connector, c => c.fetchListings(cursor));
+        listings.push(...page.listings);
+        cursor = page.nextCursor;
+    } while (cursor);
+
+    for (let i = 0; i < listings.length; i += 500) {
+        const { error } = await supabaseServer
+            .from('marketplace_listings')
+            .upsert(listings.slice(i, i + 500).map(l => ({
+                company_id: account.company_id,
+                account_id: accountId,
+                external_item_id: l.external_item_id,
+                external_sku: l.sku || null,
+                listing_name: l.name,
+                marketplace_qty: l.quantity,
+                last_fetched_at: fetchedAt,
+                is_active: true,
+            })), { onConflict: 'account_id,external_item_id' });
+
+        if (error) throw error;
+    }
+
+    const { error: staleError } = await supabaseServer
+        .from('marketplace_listings')
+        .update({ is_active: false })
+        .eq('account_id', accountId)
+        .lt('last_fetched_at', fetchedAt);
+
+    if (staleError) throw staleError;
+    return listings.length;
+}
+
+// ==================== STOCK PUSH ====================
+
+/**
+ * Pushes available stock to the account's listings.
+ *
+ * **Workflow:**
+ * 1. Compute available stock per listing SKU: on-hand in the account warehouses
+ *    (quarantine bins excluded) − open SO reservations − safety buffer
+ * 2. Plan updates for listings whose marketplace quantity differs
+ * 3. Send the updates; failures are reported per listing
+ * 4. Record the pushed quantity on each listing and write one sync log row per update
+ *
+ * @param accountId - Marketplace account UUID
+ * @param options - SKU filter, trigger source and force flag
+ * @returns Counts of pushed, failed and skipped listings
+ * @throws {NotFoundError} If the account does not exist
+ *
+ * @example
+ * ```typescript
+ * await syncListings(accountId);
+ * const result = await pushStock(accountId, { force: true });
+ * ```
+ */
+export async function pushStock(accountId: string, options: StockPushOptions = {}): Promise<StockPushResult> {
+    const account = await getAccount(accountId);
+
+    let query = supabaseServer
+        .from('marketplace_listings')
+        .select('id, account_id, external_item_id, external_sku, listing_name, marketplace_qty')
+        .eq('account_id', accountId)
+        .eq('is_active', true);
+    if (options.skus) query = query.in('external_sku', options.skus);
+
+    const { data: listings, error: listingError } = await query;
+    if (listingError) throw listingError;
+
+    const stock = await getAvailableStock(accountId);
+    const { updates, skipped } = planStockUpdates(listings || [], stock, options.force);
+    if (updates.length === 0) return { pushed: 0, failed: 0, skipped };
+
+    const connector = createConnector(account);
+    await ensureFreshToken(account, connector);
+    const results = await withTokenRetry(accountId, connector, c =>
+        c.updateStock(updates.map(({ external_item_id, sku, quantity }) => ({ external_item_id, sku, quantity })))
+    );
+    const resultById = new Map(results.map(r => [r.external_item_id, r]));
+
+    const pushedAt = new Date().toISOString();
+    const logs = [];
+    let pushed = 0;
+
+    for (const update of updates) {
+        const result = resultById.get(update.external_item_id);
+        const success = result?.success ?? false;
+
+        if (success) {
+            pushed++;
+            const { error } = await supabaseServer
+                .from('marketplace_listings')
+                .update({ marketplace_qty: update.quantity, last_pushed_qty: update.quantity, last_pushed_at: pushedAt })
+                .eq('id', update.listing.id);
+
+            if (error) throw error;
+        }
+
+        logs.push({
+            company_id: account.company_id,
+            account_id: accountId,
+            listing_id: update.listing.id,
+            external_sku: update.sku,
+            on_hand: update.stock.on_hand,
+            reserved: update.stock.reserved,
+            safety_buffer: update.stock.safety_buffer,
+            previous_qty: update.listing.marketplace_qty,
+            pushed_qty: update.quantity,
+            status: success ? 'success' : 'failed',
+            error_message: success ? null : result?.error || 'No result returned by the platform',
+            trigger_source: options.trigger || 'manual',
+        });
+    }
+
+    const { error: logError } = await supabaseServer.from('marketplace_stock_sync_log').insert(logs);
+    if (logError) throw logError;
+
+    const { error: accountError } = await supabaseServer
+        .from('marketplace_accounts')
+        .update({ last_stock_push_at: pushedAt })
+        .eq('id', accountId);
+
+    if (accountError) throw accountError;
+    return { pushed, failed: updates.length - pushed, skipped };
+}
+
+/**
+ * Decides which listings need a stock update.
+ *
+ * Listings without a SKU, or whose SKU has no mapping to our variants, are skipped.
+ * Unless forced, listings that already show the available quantity are skipped too.
+ */
+export function planStockUpdates(
+    listings: MarketplaceListing[],
+    stock: AvailableStock[],
+    force = false
+): { updates: PlannedStockUpdate[]; skipped: number } {
+    const stockBySku = new Map(stock.map(s => [s.external_sku, s]));
+    const updates: PlannedStockUpdate[] = [];
+
+    for (const listing of listings) {
+        const entry = listing.external_sku ? stockBySku.get(listing.external_sku) : undefined;
+        if (!entry) continue;
+
+        const quantity = Math.max(Math.floor(Number(entry.available)), 0);
+        if (!force && listing.marketplace_qty !== null && Number(listing.marketplace_qty) === quantity) continue;
+
+        updates.push({
+            external_item_id: listing.external_item_id,
+            sku: entry.external_sku,
+            quantity,
+            listing,
+            stock: entry,
+        });
+    }
+
+    return { updates, skipped: listings.length - updates.length };
+}
+
+/**
+ * Pushes stock for variants queued by finished-goods ledger movements.
+ *
+ * Each queued variant is translated to the listing SKUs that depend on it
+ * (mapped SKUs and bundles containing it, or the variant SKU itself) for every
+ * account with auto stock sync. Failed listings are recorded in the sync log.
+ * A company's queue entries are only consumed when every account pushed
+ * cleanly; otherwise they stay queued and are retried on the next run.
+ *
+ * @returns Stock push result per account ID
+ */
+export async function processStockPushQueue(): Promise<Record<string, StockPushResult>> {
+    const { data: queued, error } = await supabaseServer
+        .from('marketplace_stock_queue')
+        .select('company_id, product_variant_id, queued_at');
+
+    if (error) throw error;
+    if (!queued || queued.length === 0) return {};
+
+    const results: Record<string, StockPushResult> = {};
+    const byCompany = new Map<string, string[]>();
+    for (const row of queued) {
+        byCompany.set(row.company_id, [...(byCompany.get(row.company_id) || []), row.product_variant_id]);
+    }
+
+    for (const [companyId, variantIds] of byCompany) {
+        const { data: accounts, error: accError } = await supabaseServer
+            .from('marketplace_accounts')
+            .select('id')
+            .eq('company_id', companyId)
+            .eq('is_active', true)
+            .eq('auto_sync_inventory', true);
+
+        if (accError) throw accError;
+
+        let retry = false;
+        for (const account of accounts || []) {
+            const skus = await getAffectedSKUs(account.id, variantIds);
+            try {
+                results[account.id] = await pushStock(account.id, { skus, trigger: 'ledger' });
+                if (results[account.id].failed > 0) retry = true;
+            } catch (err) {
+                retry = true;
+                logger.error(`Stock push failed for account ${account.id}`, err instanceof Error ? err : undefined);
+            }
+        }
+
+        if (retry) continue;
+
+        // Only remove entries we processed; movements queued meanwhile stay for the next run
+        for (const row of queued.filter(q => q.company_id === companyId)) {
+            const { error: deleteError } = await supabaseServer
+                .from('marketplace_stock_queue')
+                .delete()
+                .eq('company_id', companyId)
+                .eq('product_variant_id', row.product_variant_id)
+                .lte('queued_at', row.queued_at);
+
+            if (deleteError) throw deleteError;
+        }
+    }
+
+    return results;
+}
+
+/**
+ * Drains the stock push queue every `intervalMs` via {@link processStockPushQueue}.
+ *
+ * A tick is skipped while the previous run is still pushing; a failed run is
+ * logged and its queue entries are picked up again on the next tick.
+ *
+ * @param intervalMs - Time between runs (default one minute)
+ * @returns Function that stops the schedule
+ *
+ * @example
+ * ```typescript
+ * const stop = scheduleStockPushQueue(30_000);
+ * process.once('SIGTERM', stop);
+ * ```
+ */
+export function scheduleStockPushQueue(intervalMs = 60_000): () => void {
+    let running = false;
+
+    const timer = setInterval(async () => {
+        if (running) return;
+        running = true;
+        try {
+            await processStockPushQueue();
+        } catch (err) {
+            logger.error('Stock push queue run failed', err instanceof Error ? err : undefined);
+        } finally {
+            running = false;
+        }
+    }, intervalMs);
+
+    return () => clearInterval(timer);
+}
+
+// ==================== RECONCILIATION ====================
+
+/**
+ * Available stock per listing SKU for an account.
+ */
+export async function getAvailableStock(accountId: string): Promise<AvailableStock[]> {
+    const { data, error } = await supabaseServer.rpc('marketplace_available_stock', { p_account_id: accountId });
+
+    if (error) throw error;
+    return data || [];
+}
+
+/**
+ * Marketplace quantity vs available quantity for each active listing.
+ *
+ * @param accountId - Marketplace account UUID
+ * @param mismatchesOnly - Only return listings that are out of sync
+ */
+export async function getStockReconciliation(
+    accountId: string,
+    mismatchesOnly = false
+): Promise<StockReconciliationRow[]> {
+    let query = supabaseServer
+        .from('marketplace_stock_reconciliation_vw')
+        .select('*')
+        .eq('account_id', accountId)
+        .order('external_sku');
+    if (mismatchesOnly) query = query.eq('reconciliation_status', 'mismatch');
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+}
+
+export async function getStockSyncLog(accountId: string, limit = 100): Promise<StockSyncLogEntry[]> {
+    const { data, error } = await supabaseServer
+        .from('marketplace_stock_sync_log')
+        .select('*')
+        .eq('account_id', accountId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+    if (error) throw error;
+    return data || [];
+}
+
+async function getAccount(accountId: string) {
+    const { data: account, error } = await supabaseServer
+        .from('marketplace_accounts')
+        .select('*')
+        .eq('id', accountId)
+        .single();
+
+    if (error || !account) throw new NotFoundError('Marketplace account', accountId);
+    return account;
+}
+
+/**
+ * Listing SKUs whose availability depends on any of the given variants.
+ */
+async function getAffectedSKUs(accountId: string, variantIds: string[]): Promise<string[]> {
+    const [mappings, variants] = await Promise.all([
+        supabaseServer
+            .from('marketplace_sku_mappings')
+            .select('external_sku')
+            .eq('account_id', accountId)
+            .eq('is_active', true)
+            .in('product_variant_id', variantIds),
+        supabaseServer
+            .from('product_variants')
+            .select('sku')
+            .in('id', variantIds),
+    ]);
+
+    if (mappings.error) throw mappings.error;
+    if (variants.error) throw variants.error;
+
+    return [...new Set([
+        ...(mappings.data || []).map(m => m.external_sku),
+        ...(variants.data || []).map(v => v.sku),
+    ])];
+}
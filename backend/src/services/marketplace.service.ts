@@ -1,6 +1,13 @@
 import { supabaseServer } from '../config/supabase';
 import { SalesOrder } from './sales-distributor.service';
-import { createSalesOrder, addSOLine } from './sales-distributor.service';
+import { createSalesOrder, addSOLine, getSalesOrder } from './sales-distributor.service';
+import { createSalesReturn, deleteDraftSalesReturn, postSalesReturn } from './sales-return.service';
+import type { ReturnDisposition, SalesReturnLine } from './sales-return.service';
+import { BusinessRuleError, ValidationError } from './error.service';
+import { parseAmount } from './marketplace-settlement.service';
+import { getVariantBySKU } from './product.service';
+import { createConnector, MarketplaceAuthError } from './connectors';
+import type { MarketplaceConnector, MarketplaceOrderStatus } from './connectors';
 
 // Types
 export type MarketplacePlatform = 'Shopee' | 'Tokopedia' | 'TikTok' | 'Lazada';
@@ -14,17 +21,32 @@ export interface MarketplaceAccount {
     shop_id: string;
     api_key?: string;
     api_secret?: string;
+    app_id?: string;
+    api_base_url?: string;
     access_token?: string;
+    refresh_token?: string;
+    token_expiry?: string;
+    orders_synced_until?: string;
+    last_order_sync_at?: string;
+    last_sync_error?: string | null;
     auto_sync_orders?: boolean;
     auto_sync_inventory?: boolean;
     warehouse_id?: string;
+    /** Warehouses published to the marketplace (defaults to warehouse_id) */
+    stock_warehouse_ids?: string[] | null;
+    stock_safety_buffer?: number;
+    last_stock_push_at?: string;
     is_active?: boolean;
 }
 
 export interface ExternalOrder {
     external_id: string;
     external_status: string;
+    /** Set by connectors that map platform statuses themselves */
+    mapped_status?: MarketplaceOrderStatus;
     order_date: string;
+    /** Last update time reported by the platform */
+    updated_at?: string;
     customer_name: string;
     currency: string;
     total_amount: number;
@@ -41,6 +63,33 @@ export interface ExternalOrderItem {
     deal_price: number;
 }
 
+/** Stored marketplace order as listed by {@link getMarketplaceOrders} */
+export interface MarketplaceOrder {
+    id: string;
+    company_id: string;
+    account_id: string;
+    external_order_id: string;
+    external_status: string;
+    mapped_status: MarketplaceOrderStatus;
+    order_date: string;
+    external_updated_at: string | null;
+    customer_name: string | null;
+    currency: string;
+    total_amount: number;
+    shipping_fee: number;
+    platform_fee: number;
+    commission_fee: number;
+    seller_rebate: number;
+    so_id: string | null;
+    sync_status: SyncStatus;
+    sync_error: string | null;
+    settlement_id: string | null;
+    settled_amount: number | null;
+    created_at: string;
+    updated_at: string;
+    account: { platform: MarketplacePlatform; shop_id: string } | null;
+}
+
 // ==================== ACCOUNT MANAGEMENT ====================
 
 /**
@@ -77,9 +126,31 @@ export async function getAccounts(companyId: string): Promise<MarketplaceAccount
 
 // ==================== ORDER SYNC ====================
 
+/** First sync of a new account looks this far back */
+const INITIAL_SYNC_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Refresh tokens that expire within this margin before calling the platform */
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
 /**
- * Simulates syncing orders from an external marketplace.
- * In production, this would call Shopee/Tokopedia Open API.
+ * Pulls orders updated since the last sync from the marketplace API.
+ *
+ * **Workflow:**
+ * 1. Build the platform connector from the account credentials
+ * 2. Refresh the access token if it is expired or about to expire
+ * 3. Walk the window `orders_synced_until` → now in chunks the platform accepts,
+ *    paging through each chunk and upserting every order
+ * 4. Advance `orders_synced_until` after each completed chunk so a failed run
+ *    resumes where it stopped
+ * 5. Convert earlier orders that waited on a SKU mapping and are now fully mapped
+ *
+ * An auth error mid-run triggers one token refresh and a retry of the page.
+ * Refreshed tokens are written back to `marketplace_accounts`.
+ *
+ * @param accountId - Marketplace account UUID
+ * @param userId - User running the sync (becomes SO creator)
+ * @returns Count of orders saved and orders that failed to process
+ * @throws {Error} If the account is missing or the platform API fails
  */
 export async function syncOrders(
     accountId: string,
@@ -94,46 +165,115 @@ export async function syncOrders(
 
     if (accError || !account) throw new Error('Account not found');
 
-    // MOCK: Fetch orders from external API
-    // const externalOrders = await shopeeApi.getOrders(account.access_token);
-    const mockExternalOrders: ExternalOrder[] = [
-        {
-            external_id: `ORD-${Date.now()}-01`,
-            external_status: 'READY_TO_SHIP',
-            order_date: new Date().toISOString(),
-            customer_name: 'Budi Santoso (Masked)',
-            currency: 'IDR',
-            total_amount: 150000,
-            shipping_fee: 10000,
-            items: [
-                {
-                    external_item_id: `ITM-${Date.now()}-A`,
-                    sku: 'TSHIRT-BLK-L', // Assumes this matches local SKU
-                    product_name: 'Kaos Polos Black L',
-                    quantity: 2,
-                    original_price: 75000,
-                    deal_price: 70000
-                }
-            ]
-        }
-    ];
+    const connector = createConnector(account);
+    const syncStartedAt = new Date();
 
     let syncedCount = 0;
     let errorCount = 0;
 
-    for (const extOrder of mockExternalOrders) {
-        try {
-            await processMarketplaceOrder(account.company_id, accountId, extOrder, userId);
-            syncedCount++;
-        } catch (err) {
-            console.error(`Failed to sync order ${extOrder.external_id}:`, err);
-            errorCount++;
+    try {
+        await ensureFreshToken(account, connector);
+
+        let windowStart = account.orders_synced_until
+            ? new Date(account.orders_synced_until)
+            : new Date(syncStartedAt.getTime() - INITIAL_SYNC_LOOKBACK_MS);
+
+        while (windowStart < syncStartedAt) {
+            const windowEnd = new Date(Math.min(windowStart.getTime() + connector.maxWindowMs, syncStartedAt.getTime()));
+            let cursor: string | null = null;
+
+            do {
+                const page = await withTokenRetry(accountId, connector, c => c.fetchOrders({
+                    updatedFrom: windowStart.toISOString(),
+                    updatedTo: windowEnd.toISOString(),
+                    cursor,
+                }));
+
+                for (const extOrder of page.orders) {
+                    try {
+                        await processMarketplaceOrder(account.company_id, accountId, extOrder, userId);
+                        syncedCount++;
+                    } catch (err) {
+                        console.error(`Failed to sync order ${extOrder.external_id}:`, err);
+                        errorCount++;
+                    }
+                }
+
+                cursor = page.nextCursor;
+            } while (cursor);
+
+            await updateAccountSyncState(accountId, { orders_synced_until: windowEnd.toISOString() });
+            windowStart = windowEnd;
         }
+
+        // Orders outside the window that were waiting on a SKU mapping saved since the last run
+        await convertWaitingOrders(accountId, userId);
+
+        await updateAccountSyncState(accountId, {
+            last_order_sync_at: new Date().toISOString(),
+            last_sync_error: null,
+        });
+    } catch (err) {
+        await updateAccountSyncState(accountId, {
+            last_order_sync_at: new Date().toISOString(),
+            last_sync_error: (err as Error).message,
+        });
+        throw err;
     }
 
     return { synced: syncedCount, errors: errorCount };
 }
 
+/**
+ * Refreshes the access token if it is expired or expires within the margin.
+ */
+export async function ensureFreshToken(account: MarketplaceAccount, connector: MarketplaceConnector): Promise<void> {
+    if (!account.token_expiry ||
+        new Date(account.token_expiry).getTime() - Date.now() < TOKEN_REFRESH_MARGIN_MS) {
+        await refreshAccountToken(account.id!, connector);
+    }
+}
+
+/**
+ * Runs one platform call, refreshing the token once if the platform rejects it.
+ */
+export async function withTokenRetry<T>(
+    accountId: string,
+    connector: MarketplaceConnector,
+    call: (connector: MarketplaceConnector) => Promise<T>
+): Promise<T> {
+    try {
+        return await call(connector);
+    } catch (err) {
+        if (!(err instanceof MarketplaceAuthError)) throw err;
+        await refreshAccountToken(accountId, connector);
+        return call(connector);
+    }
+}
+
+/**
+ * Refreshes the connector token and persists it on the account.
+ */
+async function refreshAccountToken(accountId: string, connector: MarketplaceConnector): Promise<void> {
+    const tokens = await connector.refreshToken();
+    const update: Partial<MarketplaceAccount> = {
+        access_token: tokens.access_token,
+        token_expiry: tokens.token_expiry,
+    };
+    if (tokens.refresh_token) update.refresh_token = tokens.refresh_token;
+
+    await updateAccountSyncState(accountId, update);
+}
+
+async function updateAccountSyncState(accountId: string, update: Partial<MarketplaceAccount>): Promise<void> {
+    const { error } = await supabaseServer
+        .from('marketplace_accounts')
+        .update(update)
+        .eq('id', accountId);
+
+    if (error) throw error;
+}
+
 /**
  * Saves marketplace order and optionally converts to internal SO.
  */
@@ -143,7 +283,17 @@ async function processMarketplaceOrder(
     extOrder: ExternalOrder,
     userId: string
 ): Promise<string> {
-    // 1. Insert into marketplace_orders
+    // 1. Upsert into marketplace_orders
+    // Re-synced orders keep their SO link and sync status; only the platform fields change
+    const { data: existing } = await supabaseServer
+        .from('marketplace_orders')
+        .select('id, so_id, sync_status')
+        .eq('account_id', accountId)
+        .eq('external_order_id', extOrder.external_id)
+        .maybeSingle();
+
+    const mappedStatus = extOrder.mapped_status ?? mapStatus(extOrder.external_status);
+
     const { data: mpOrder, error: mpError } = await supabaseServer
         .from('marketplace_orders')
         .upsert({
@@ -151,12 +301,13 @@ async function processMarketplaceOrder(
             account_id: accountId,
             external_order_id: extOrder.external_id,
             external_status: extOrder.external_status,
-            mapped_status: mapStatus(extOrder.external_status),
+            mapped_status: mappedStatus,
             order_date: extOrder.order_date,
+            external_updated_at: extOrder.updated_at || null,
             customer_name: extOrder.customer_name,
             total_amount: extOrder.total_amount,
             shipping_fee: extOrder.shipping_fee,
-            sync_status: 'pending'
+            sync_status: existing?.sync_status || 'pending'
         }, { onConflict: 'account_id, external_order_id' })
         .select()
         .single();
@@ -170,65 +321,84 @@ async function processMarketplaceOrder(
         .delete()
         .eq('order_id', mpOrder.id);
 
-    for (const item of extOrder.items) {
-        // Try to find matching internal product variant by SKU
-        const { data: variant } = await supabaseServer
-            .from('product_variants')
-            .select('id')
-            .eq('company_id', companyId) // Ensure tenant isolation
-            .eq('sku', item.sku)
-            .single();
-
-        await supabaseServer
+    if (extOrder.items.length) {
+        const { error: itemsError } = await supabaseServer
             .from('marketplace_order_items')
-            .insert({
+            .insert(extOrder.items.map(item => ({
                 order_id: mpOrder.id,
                 external_item_id: item.external_item_id,
                 sku: item.sku,
                 product_name: item.product_name,
                 quantity: item.quantity,
                 original_price: item.original_price,
-                deal_price: item.deal_price,
-                product_variant_id: variant?.id || null // Link if found
-            });
+                deal_price: item.deal_price
+            })));
+
+        if (itemsError) throw itemsError;
     }
 
-    // 3. Auto-convert to Sales Order if linked product exists and settings allow
+    // Link items to variants through the account's SKU mappings (unmapped items go to the review queue)
+    const { error: resolveError } = await supabaseServer.rpc('resolve_marketplace_order_items', {
+        p_order_id: mpOrder.id
+    });
+
+    if (resolveError) throw resolveError;
+
+    // 3. Auto-convert to Sales Order once the order is paid and not cancelled
     // In a full implementation, check account.auto_sync_orders setting
-    if (mpOrder.sync_status === 'pending') {
-        try {
-            const soId = await mapOrderToSO(mpOrder.id, userId);
-
-            // Link SO
-            await supabaseServer
-                .from('marketplace_orders')
-                .update({
-                    so_id: soId,
-                    sync_status: 'synced'
-                })
-                .eq('id', mpOrder.id);
-        } catch (err) {
-            await supabaseServer
-                .from('marketplace_orders')
-                .update({
-                    sync_status: 'failed',
-                    sync_error: (err as Error).message
-                })
-                .eq('id', mpOrder.id);
-        }
+    const convertible = mappedStatus !== 'pending' && mappedStatus !== 'cancelled';
+    if (!mpOrder.so_id && mpOrder.sync_status !== 'ignored' && convertible) {
+        await convertToSalesOrder(mpOrder.id, userId);
     }
 
     return mpOrder.id;
 }
 
+/**
+ * Converts a marketplace order to a Sales Order and records the outcome on the order.
+ * @returns true if the Sales Order was created
+ */
+async function convertToSalesOrder(mpOrderId: string, userId: string): Promise<boolean> {
+    try {
+        const soId = await mapOrderToSO(mpOrderId, userId);
+
+        // Link SO
+        await supabaseServer
+            .from('marketplace_orders')
+            .update({
+                so_id: soId,
+                sync_status: 'synced',
+                sync_error: null
+            })
+            .eq('id', mpOrderId);
+        return true;
+    } catch (err) {
+        await supabaseServer
+            .from('marketplace_orders')
+            .update({
+                sync_status: 'failed',
+                sync_error: (err as Error).message
+            })
+            .eq('id', mpOrderId);
+        return false;
+    }
+}
+
+/** Order item with the variants it resolved to (see resolve_marketplace_order_items) */
+interface ResolvedOrderItem {
+    sku: string;
+    mapping_status: string;
+    components: { product_variant_id: string; quantity: number; unit_price: number }[] | null;
+}
+
 /**
  * Creates an internal Sales Order from a Marketplace Order.
  */
 async function mapOrderToSO(mpOrderId: string, userId: string): Promise<string> {
-    // Fetch MP order with items
+    // Fetch MP order with resolved items
     const { data: mpOrder, error } = await supabaseServer
         .from('marketplace_orders')
-        .select('*, items:marketplace_order_items(*), account:marketplace_accounts(warehouse_id)')
+        .select('*, items:marketplace_order_items(*, components:marketplace_order_item_components(*)), account:marketplace_accounts(warehouse_id, platform)')
         .eq('id', mpOrderId)
         .single();
 
@@ -239,6 +409,12 @@ async function mapOrderToSO(mpOrderId: string, userId: string): Promise<string>
         throw new Error('No default warehouse mapped for this account');
     }
 
+    const items: ResolvedOrderItem[] = mpOrder.items;
+    const unmapped = items.find(item => item.mapping_status !== 'mapped' || !item.components?.length);
+    if (unmapped) {
+        throw new Error(`Cannot map item ${unmapped.sku}: no SKU mapping`);
+    }
+
     // Get generic "Marketplace Customer" or create one
     // Ideally look up by name, but for MVP use a generic placeholder or find existing
     const { data: customer } = await supabaseServer
@@ -292,28 +468,26 @@ async function mapOrderToSO(mpOrderId: string, userId: string): Promise<string>
         notes: `Imported from ${mpOrder.account.platform} (Ref: ${mpOrder.external_order_id})`
     }, userId);
 
-    // Add SO Lines
+    // Add SO Lines (bundles expand into one line per component variant)
     let lineNum = 1;
-    for (const item of mpOrder.items) {
-        if (!item.product_variant_id) {
-            throw new Error(`Cannot map item ${item.sku}: Product not linked`);
+    for (const item of items) {
+        for (const component of item.components || []) {
+            await addSOLine({
+                so_id: so.id!,
+                line_number: lineNum++,
+                product_variant_id: component.product_variant_id,
+                qty_ordered: Number(component.quantity),
+                unit_price: Number(component.unit_price), // Deal price share
+                discount_percentage: 0 // Net price used
+            });
         }
-
-        await addSOLine({
-            so_id: so.id!,
-            line_number: lineNum++,
-            product_variant_id: item.product_variant_id,
-            qty_ordered: item.quantity,
-            unit_price: item.deal_price, // Use deal price
-            discount_percentage: 0 // Net price used
-        });
     }
 
     return so.id!;
 }
 
-// Helper
-function mapStatus(extStatus: string): 'pending' | 'ready_to_ship' | 'in_transit' | 'delivered' | 'cancelled' | 'returned' {
+// Helper (fallback for CSV imports and connectors that leave mapped_status unset)
+function mapStatus(extStatus: string): MarketplaceOrderStatus {
     const s = extStatus.toUpperCase();
     if (s === 'UNPAID') return 'pending';
     if (s === 'READY_TO_SHIP') return 'ready_to_ship';
@@ -323,7 +497,7 @@ function mapStatus(extStatus: string): 'pending' | 'ready_to_ship' | 'in_transit
     return 'pending';
 }
 
-export async function getMarketplaceOrders(companyId: string): Promise<any[]> {
+export async function getMarketplaceOrders(companyId: string): Promise<MarketplaceOrder[]> {
     const { data, error } = await supabaseServer
         .from('marketplace_orders')
         .select('*, account:marketplace_accounts(platform, shop_id)')
@@ -334,80 +508,757 @@ export async function getMarketplaceOrders(companyId: string): Promise<any[]> {
     return data || [];
 }
 
-// ==================== CSV IMPORT & RETURNS ====================
+// ==================== SKU MAPPING ====================
+
+export interface SKUMappingComponent {
+    product_variant_id: string;
+    /** Variant units per listing unit (default 1) */
+    quantity?: number;
+}
+
+export interface SKUMapping {
+    id: string;
+    company_id: string;
+    account_id: string;
+    external_sku: string;
+    listing_name: string | null;
+    product_variant_id: string;
+    quantity: number;
+    is_active: boolean;
+    created_at: string;
+    variant: { sku: string; product: { name: string } | null } | null;
+}
+
+export interface UnmappedItem {
+    company_id: string;
+    account_id: string;
+    platform: MarketplacePlatform;
+    account_name: string;
+    external_sku: string;
+    listing_name: string;
+    order_count: number;
+    total_quantity: number;
+    first_order_date: string;
+}
+
+/**
+ * Lists the SKU mappings of a marketplace account, one row per component.
+ */
+export async function getSKUMappings(accountId: string): Promise<SKUMapping[]> {
+    const { data, error } = await supabaseServer
+        .from('marketplace_sku_mappings')
+        .select('*, variant:product_variants(sku, product:products(name))')
+        .eq('account_id', accountId)
+        .order('external_sku');
+
+    if (error) throw error;
+    return data || [];
+}
+
+/**
+ * Returns the review queue: listing SKUs of unconverted orders that match no variant.
+ */
+export async function getUnmappedItems(companyId: string): Promise<UnmappedItem[]> {
+    const { data, error } = await supabaseServer
+        .from('marketplace_unmapped_items_vw')
+        .select('*')
+        .eq('company_id', companyId)
+        .order('order_count', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+}
+
+/**
+ * Maps a marketplace listing SKU to one variant, or to several for a bundle / kit.
+ *
+ * **Workflow:**
+ * 1. Replace the existing mapping of the listing SKU
+ * 2. Re-resolve items of unconverted orders containing the SKU
+ * 3. Retry Sales Order conversion of those orders that are now fully mapped
+ *
+ * Bundle deal prices are split across components by variant list price.
+ *
+ * @param companyId - Company UUID
+ * @param accountId - Marketplace account UUID
+ * @param externalSku - Listing SKU as sent by the platform
+ * @param components - Variants (and units per listing unit) the listing contains
+ * @param userId - User saving the mapping
+ * @param listingName - Optional listing title for reference
+ *
+ * @throws {ValidationError} If no components, duplicate variants or non-positive quantities are given
+ * @returns Number of orders re-resolved and converted to Sales Orders
+ *
+ * @example
+ * ```typescript
+ * // "Paket Hemat 3 Kaos" = 3 black tees, size M
+ * await saveSKUMapping(companyId, shopeeAccountId, 'BUNDLE-3TS', [
+ *   { product_variant_id: blackTeeM, quantity: 3 }
+ * ], userId, 'Paket Hemat 3 Kaos');
+ * ```
+ */
+export async function saveSKUMapping(
+    companyId: string,
+    accountId: string,
+    externalSku: string,
+    components: SKUMappingComponent[],
+    userId: string,
+    listingName?: string
+): Promise<{ resolved: number; converted: number }> {
+    if (!components.length) {
+        throw new ValidationError('SKU mapping needs at least one variant');
+    }
+    if (new Set(components.map(c => c.product_variant_id)).size !== components.length) {
+        throw new ValidationError('Each variant can appear only once in a SKU mapping');
+    }
+    if (components.some(c => (c.quantity ?? 1) <= 0)) {
+        throw new ValidationError('Mapping quantities must be positive');
+    }
+
+    const { error: deleteError } = await supabaseServer
+        .from('marketplace_sku_mappings')
+        .delete()
+        .eq('account_id', accountId)
+        .eq('external_sku', externalSku);
+
+    if (deleteError) throw deleteError;
+
+    const { error } = await supabaseServer
+        .from('marketplace_sku_mappings')
+        .insert(components.map(c => ({
+            company_id: companyId,
+            account_id: accountId,
+            external_sku: externalSku,
+            listing_name: listingName,
+            product_variant_id: c.product_variant_id,
+            quantity: c.quantity ?? 1,
+            created_by: userId
+        })));
+
+    if (error) throw error;
+
+    return applySKUMapping(accountId, externalSku, userId);
+}
+
+/**
+ * Removes the mapping of a listing SKU. Open orders fall back to matching the variant SKU directly.
+ */
+export async function deleteSKUMapping(accountId: string, externalSku: string, userId: string): Promise<void> {
+    const { error } = await supabaseServer
+        .from('marketplace_sku_mappings')
+        .delete()
+        .eq('account_id', accountId)
+        .eq('external_sku', externalSku);
+
+    if (error) throw error;
+
+    await applySKUMapping(accountId, externalSku, userId);
+}
+
+async function applySKUMapping(
+    accountId: string,
+    externalSku: string,
+    userId: string
+): Promise<{ resolved: number; converted: number }> {
+    const { data: resolved, error } = await supabaseServer.rpc('apply_marketplace_sku_mapping', {
+        p_account_id: accountId,
+        p_external_sku: externalSku
+    });
+
+    if (error) throw error;
+
+    const converted = await convertWaitingOrders(accountId, userId, externalSku);
+    return { resolved: resolved || 0, converted };
+}
+
+/**
+ * Retries Sales Order conversion of unconverted orders that failed (or waited) on an
+ * unmapped SKU and are now fully mapped. Limited to orders containing `externalSku` when given.
+ * @returns Number of orders converted
+ */
+async function convertWaitingOrders(accountId: string, userId: string, externalSku?: string): Promise<number> {
+    let query = supabaseServer
+        .from('marketplace_orders')
+        .select('id, mapped_status, items:marketplace_order_items!inner(sku, mapping_status)')
+        .eq('account_id', accountId)
+        .is('so_id', null)
+        .in('sync_status', ['pending', 'failed'])
+        .not('mapped_status', 'in', '(pending,cancelled)');
+
+    if (externalSku) query = query.eq('items.sku', externalSku);
+
+    const { data: orders, error } = await query;
+    if (error) throw error;
+
+    let converted = 0;
+    for (const order of orders || []) {
+        // With the SKU filter only the matching items are returned; the conversion checks the rest
+        if (!externalSku && order.items.some(item => item.mapping_status !== 'mapped')) continue;
+        if (await convertToSalesOrder(order.id, userId)) converted++;
+    }
+
+    return converted;
+}
+
+// ==================== CSV IMPORT ====================
+
+export type CSVImportField =
+    | 'order_id' | 'status' | 'order_date' | 'customer_name' | 'currency'
+    | 'total_amount' | 'shipping_fee'
+    | 'item_id' | 'sku' | 'product_name' | 'quantity' | 'original_price' | 'deal_price';
+
+/** Import field -> CSV header */
+export type CSVColumnMap = Partial<Record<CSVImportField, string>>;
+
+export interface CSVProfile {
+    id?: string;
+    company_id: string;
+    platform: MarketplacePlatform;
+    profile_name: string;
+    column_map: CSVColumnMap;
+    is_default?: boolean;
+}
+
+export interface CSVImportOptions {
+    /** Saved profile to map columns with */
+    profileId?: string;
+    /** Ad-hoc mapping, takes precedence over profiles */
+    columnMap?: CSVColumnMap;
+    /** Parse and validate only; nothing is written */
+    dryRun?: boolean;
+}
+
+export interface CSVRowError {
+    /** 1-based CSV line number (header is line 1) */
+    row: number;
+    order_id?: string;
+    message: string;
+}
+
+export interface CSVImportResult {
+    /** Distinct orders found in the file */
+    orders: number;
+    imported: number;
+    failed: number;
+    errors: CSVRowError[];
+    /** SKUs with no product variant (dry run only) */
+    unknown_skus: { sku: string; rows: number[] }[];
+    /** Parsed orders (dry run only) */
+    preview?: ExternalOrder[];
+}
+
+/** Header names used when no profile is given; unmapped fields of a profile fall back to these */
+export const STANDARD_CSV_COLUMNS: Record<CSVImportField, string> = {
+    order_id: 'order_id',
+    status: 'status',
+    order_date: 'order_date',
+    customer_name: 'customer_name',
+    currency: 'currency',
+    total_amount: 'total_amount',
+    shipping_fee: 'shipping_fee',
+    item_id: 'item_id',
+    sku: 'sku',
+    product_name: 'product_name',
+    quantity: 'quantity',
+    original_price: 'original_price',
+    deal_price: 'deal_price',
+};
 
 /**
  * Imports orders from parsed CSV data.
  * Useful for bulk importing history or when API sync is unavailable.
- * 
+ *
+ * **Workflow:**
+ * 1. Resolve the column mapping: `options.columnMap`, else `options.profileId`,
+ *    else the default profile of the account's platform, else standard headers
+ * 2. Group rows by order ID into multi-item orders ({@link parseOrderCSV})
+ * 3. Dry run: look up every SKU and return the preview without writing
+ * 4. Otherwise process each order like an API-synced one
+ *
+ * Orders with an invalid row are not imported; the offending rows are listed in `errors`.
+ *
  * @param companyId - Company UUID
  * @param accountId - Marketplace Account UUID
- * @param csvData - Array of objects parsed from CSV (must have standard cols)
+ * @param csvData - Array of objects parsed from CSV, keyed by header
  * @param userId - User performing import
+ * @param options - Column mapping and dry-run flag
+ *
+ * @throws {ValidationError} If the order ID or SKU column is missing from the file
+ * @returns Order counts, row-level errors and (dry run) unknown SKUs and preview
+ *
+ * @example
+ * ```typescript
+ * const preview = await importOrdersFromCSV(companyId, accountId, rows, userId, {
+ *   profileId: shopeeProfileId,
+ *   dryRun: true
+ * });
+ * if (!preview.errors.length && !preview.unknown_skus.length) {
+ *   await importOrdersFromCSV(companyId, accountId, rows, userId, { profileId: shopeeProfileId });
+ * }
+ * ```
  */
 export async function importOrdersFromCSV(
     companyId: string,
     accountId: string,
-    csvData: any[],
-    userId: string
-): Promise<{ imported: number, failed: number }> {
+    csvData: Record<string, string>[],
+    userId: string,
+    options: CSVImportOptions = {}
+): Promise<CSVImportResult> {
+    const columnMap = await resolveColumnMap(companyId, accountId, options);
+    const { orders, errors, rows } = parseOrderCSV(csvData, columnMap);
+    const invalidOrders = new Set(errors.map(e => e.order_id).filter(Boolean)).size;
+
+    if (options.dryRun) {
+        return {
+            orders: orders.length + invalidOrders,
+            imported: 0,
+            failed: invalidOrders,
+            errors,
+            unknown_skus: await findUnknownSKUs(companyId, csvData, columnMap),
+            preview: orders,
+        };
+    }
+
     let imported = 0;
-    let failed = 0;
+    let failed = invalidOrders;
 
-    for (const row of csvData) {
+    for (const order of orders) {
         try {
-            // Basic mapping - assumes CSV has specific headers
-            // In a real app, you might need a column mapper
-            const extOrder: ExternalOrder = {
-                external_id: row.order_id,
-                external_status: row.status || 'READY_TO_SHIP',
-                order_date: row.order_date || new Date().toISOString(),
-                customer_name: row.customer_name || 'Generic Customer',
-                currency: row.currency || 'IDR',
-                total_amount: parseFloat(row.total_amount || '0'),
-                shipping_fee: parseFloat(row.shipping_fee || '0'),
-                items: [
-                    {
-                        external_item_id: row.item_id || `${row.order_id}-1`,
-                        sku: row.sku,
-                        product_name: row.product_name || 'Imported Item',
-                        quantity: parseInt(row.quantity || '1'),
-                        original_price: parseFloat(row.original_price || '0'),
-                        deal_price: parseFloat(row.deal_price || '0')
-                    }
-                ]
-            };
-
-            await processMarketplaceOrder(companyId, accountId, extOrder, userId);
+            await processMarketplaceOrder(companyId, accountId, order, userId);
             imported++;
         } catch (err) {
-            console.error(`CSV Import Failed for row ${row.order_id}:`, err);
+            errors.push({
+                row: rows[order.external_id][0],
+                order_id: order.external_id,
+                message: (err as Error).message,
+            });
             failed++;
         }
     }
-    return { imported, failed };
+
+    return { orders: orders.length + invalidOrders, imported, failed, errors, unknown_skus: [] };
+}
+
+/**
+ * Groups CSV rows into orders using a column mapping.
+ *
+ * Rows sharing an order ID become items of one order; order-level values
+ * (status, date, customer, totals) are taken from the first row. Without a
+ * total column the total is the sum of item deal prices. Amounts may use
+ * Indonesian formatting ('Rp 150.000') and dates may be DD-MM-YYYY.
+ *
+ * @param rows - CSV rows keyed by header
+ * @param columnMap - Field to header mapping (defaults to standard headers)
+ * @throws {ValidationError} If the order ID or SKU column is missing
+ * @returns Valid orders, row errors and the CSV line numbers of each order
+ */
+export function parseOrderCSV(
+    rows: Record<string, string>[],
+    columnMap: CSVColumnMap = STANDARD_CSV_COLUMNS
+): { orders: ExternalOrder[]; errors: CSVRowError[]; rows: Record<string, number[]> } {
+    const columns = { ...STANDARD_CSV_COLUMNS, ...columnMap };
+    const errors: CSVRowError[] = [];
+    const grouped = new Map<string, { line: number; row: Record<string, string> }[]>();
+
+    if (rows.length) {
+        const headers = Object.keys(rows[0]);
+        const missing = (['order_id', 'sku'] as const).filter(field => !headers.includes(columns[field]));
+        if (missing.length) {
+            throw new ValidationError(
+                `CSV is missing column(s): ${missing.map(field => columns[field]).join(', ')}`,
+                { headers, columnMap: columns }
+            );
+        }
+    }
+
+    rows.forEach((row, index) => {
+        const line = index + 2;
+        const value = (field: CSVImportField) => row[columns[field]]?.toString().trim() || '';
+        const orderId = value('order_id');
+
+        if (!orderId) {
+            errors.push({ row: line, message: 'Missing order ID' });
+            return;
+        }
+        if (!value('sku')) {
+            errors.push({ row: line, order_id: orderId, message: 'Missing SKU' });
+        }
+        const quantity = value('quantity');
+        if (quantity && !/^\d+$/.test(quantity.replace(/[.,]0+$/, ''))) {
+            errors.push({ row: line, order_id: orderId, message: `Invalid quantity '${quantity}'` });
+        } else if (quantity && parseInt(quantity) <= 0) {
+            errors.push({ row: line, order_id: orderId, message: 'Quantity must be positive' });
+        }
+        if (value('order_date') && !parseOrderDate(value('order_date'))) {
+            errors.push({ row: line, order_id: orderId, message: `Invalid order date '${value('order_date')}'` });
+        }
+
+        if (!grouped.has(orderId)) grouped.set(orderId, []);
+        grouped.get(orderId)!.push({ line, row });
+    });
+
+    const invalid = new Set(errors.map(e => e.order_id));
+    const orders: ExternalOrder[] = [];
+    const orderRows: Record<string, number[]> = {};
+
+    for (const [orderId, orderLines] of grouped) {
+        if (invalid.has(orderId)) continue;
+
+        const first = orderLines[0].row;
+        const value = (row: Record<string, string>, field: CSVImportField) =>
+            row[columns[field]]?.toString().trim() || '';
+
+        const items: ExternalOrderItem[] = orderLines.map(({ row }, index) => {
+            const dealPrice = parseAmount(value(row, 'deal_price'));
+            return {
+                external_item_id: value(row, 'item_id') || `${orderId}-${index + 1}`,
+                sku: value(row, 'sku'),
+                product_name: value(row, 'product_name') || 'Imported Item',
+                quantity: parseInt(value(row, 'quantity') || '1'),
+                original_price: parseAmount(value(row, 'original_price')) || dealPrice,
+                deal_price: dealPrice,
+            };
+        });
+
+        const total = value(first, 'total_amount');
+        orders.push({
+            external_id: orderId,
+            external_status: value(first, 'status') || 'READY_TO_SHIP',
+            order_date: parseOrderDate(value(first, 'order_date')) || new Date().toISOString(),
+            customer_name: value(first, 'customer_name') || 'Generic Customer',
+            currency: value(first, 'currency') || 'IDR',
+            total_amount: total
+                ? parseAmount(total)
+                : items.reduce((sum, item) => sum + item.deal_price * item.quantity, 0),
+            shipping_fee: parseAmount(value(first, 'shipping_fee')),
+            items,
+        });
+        orderRows[orderId] = orderLines.map(({ line }) => line);
+    }
+
+    return { orders, errors, rows: orderRows };
+}
+
+/**
+ * Lists saved CSV profiles of a company, optionally for one platform.
+ */
+export async function getCSVProfiles(companyId: string, platform?: MarketplacePlatform): Promise<CSVProfile[]> {
+    let query = supabaseServer
+        .from('marketplace_csv_profiles')
+        .select('*')
+        .eq('company_id', companyId)
+        .order('profile_name');
+
+    if (platform) query = query.eq('platform', platform);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+}
+
+/**
+ * Creates or updates a CSV profile (matched by platform and name).
+ * Marking a profile as default clears the previous default of that platform.
+ */
+export async function saveCSVProfile(profile: CSVProfile, userId: string): Promise<CSVProfile> {
+    if (!profile.column_map.order_id || !profile.column_map.sku) {
+        throw new ValidationError('CSV profile must map the order ID and SKU columns');
+    }
+
+    if (profile.is_default) {
+        const { error: clearError } = await supabaseServer
+            .from('marketplace_csv_profiles')
+            .update({ is_default: false })
+            .eq('company_id', profile.company_id)
+            .eq('platform', profile.platform)
+            .neq('profile_name', profile.profile_name);
+
+        if (clearError) throw clearError;
+    }
+
+    const { data, error } = await supabaseServer
+        .from('marketplace_csv_profiles')
+        .upsert({ ...profile, created_by: userId }, { onConflict: 'company_id, platform, profile_name' })
+        .select()
+        .single();
+
+    if (error) throw error;
+    return data;
+}
+
+export async function deleteCSVProfile(profileId: string): Promise<void> {
+    const { error } = await supabaseServer
+        .from('marketplace_csv_profiles')
+        .delete()
+        .eq('id', profileId);
+
+    if (error) throw error;
+}
+
+async function resolveColumnMap(
+    companyId: string,
+    accountId: string,
+    options: CSVImportOptions
+): Promise<CSVColumnMap> {
+    if (options.columnMap) return options.columnMap;
+
+    if (options.profileId) {
+        const { data, error } = await supabaseServer
+            .from('marketplace_csv_profiles')
+            .select('column_map')
+            .eq('id', options.profileId)
+            .single();
+
+        if (error) throw error;
+        return data.column_map;
+    }
+
+    const { data: account } = await supabaseServer
+        .from('marketplace_accounts')
+        .select('platform')
+        .eq('id', accountId)
+        .single();
+
+    if (!account) return STANDARD_CSV_COLUMNS;
+
+    const { data: profile } = await supabaseServer
+        .from('marketplace_csv_profiles')
+        .select('column_map')
+        .eq('company_id', companyId)
+        .eq('platform', account.platform)
+        .eq('is_default', true)
+        .maybeSingle();
+
+    return profile?.column_map || STANDARD_CSV_COLUMNS;
+}
+
+async function findUnknownSKUs(
+    companyId: string,
+    rows: Record<string, string>[],
+    columnMap: CSVColumnMap
+): Promise<{ sku: string; rows: number[] }[]> {
+    const skuColumn = columnMap.sku || STANDARD_CSV_COLUMNS.sku;
+    const skuRows = new Map<string, number[]>();
+
+    rows.forEach((row, index) => {
+        const sku = row[skuColumn]?.toString().trim();
+        if (!sku) return;
+        if (!skuRows.has(sku)) skuRows.set(sku, []);
+        skuRows.get(sku)!.push(index + 2);
+    });
+
+    const unknown: { sku: string; rows: number[] }[] = [];
+    for (const [sku, lines] of skuRows) {
+        try {
+            await getVariantBySKU(companyId, sku);
+        } catch {
+            unknown.push({ sku, rows: lines });
+        }
+    }
+    return unknown;
+}
+
+/**
+ * Parses ISO dates and the DD-MM-YYYY [HH:mm] / DD/MM/YYYY formats of Indonesian exports.
+ * Returns an ISO string, or null if the value is not a date.
+ */
+function parseOrderDate(value: string): string | null {
+    if (!value) return null;
+
+    const local = value.match(/^(\d{1,2})[-/](\d{1,2})[-/](\d{4})(?:[ T](\d{1,2}):(\d{2}))?/);
+    const date = local
+        ? new Date(Number(local[3]), Number(local[2]) - 1, Number(local[1]), Number(local[4] || 0), Number(local[5] || 0))
+        : new Date(value);
+
+    return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+// ==================== RETURNS ====================
+
+export interface MarketplaceReturnItem {
+    sku: string;
+    quantity: number;
+    disposition: ReturnDisposition;
+    /** Defaults to the account's warehouse */
+    warehouse_id?: string;
+    /** Required for RESTOCK; QUARANTINE / SCRAP fall back to the warehouse quarantine bin */
+    bin_id?: string;
 }
 
 /**
  * Handles a marketplace return event.
- * Marks the order as returned and logs the reason.
- * In a full system, this should also trigger a Sales Return (SR) to restock inventory.
+ *
+ * When the order was converted to a sales order, creates and posts a sales return
+ * against it so inventory is received back per QC disposition and revenue / COGS are
+ * reversed. The order is marked returned once that succeeded.
+ *
+ * Returned SKUs are matched across all lines of the sales order and limited to what
+ * was delivered and not returned before. Without explicit items every line's remaining
+ * delivered quantity goes back to the account warehouse's quarantine bin, pending
+ * inspection. Repeat returns of an order are numbered `SR-<order>-2`, `SR-<order>-3`, ...
+ * If posting fails, the draft return is deleted again and the error rethrown.
+ *
+ * @param orderId - Marketplace order UUID
+ * @param reason - Return reason from the platform
+ * @param userId - User processing the return
+ * @param items - Optional per-SKU quantities and dispositions
+ *
+ * @throws {Error} If the order is not found or an item is not on the sales order
+ * @throws {BusinessRuleError} If a quantity exceeds what was delivered and not yet returned
+ * @returns Created sales return ID, or null when the order has no sales order
+ *
+ * @example
+ * ```typescript
+ * await processMarketplaceReturn(orderId, 'Wrong size', userId, [
+ *   { sku: 'TSHIRT-BLK-L', quantity: 1, disposition: 'RESTOCK', bin_id: mainBinId },
+ *   { sku: 'TSHIRT-BLK-L', quantity: 1, disposition: 'SCRAP' },
+ * ]);
+ * ```
  */
 export async function processMarketplaceReturn(
     orderId: string,
     reason: string,
-    userId: string
-): Promise<void> {
+    userId: string,
+    items?: MarketplaceReturnItem[]
+): Promise<string | null> {
     const { data: mpOrder, error } = await supabaseServer
         .from('marketplace_orders')
-        .select('*')
+        .select('*, account:marketplace_accounts(warehouse_id)')
         .eq('id', orderId)
         .single();
 
     if (error || !mpOrder) throw new Error('Marketplace order not found');
 
-    // Update status to returned
-    const { error: upError } = await supabaseServer
+    if (!mpOrder.so_id) {
+        await markOrderReturned(orderId, reason);
+        return null;
+    }
+
+    const so = await getSalesOrder(mpOrder.so_id);
+    const soLines: ReturnableSOLine[] = so.lines;
+    const returnDate = new Date().toISOString().split('T')[0];
+
+    const { data: period } = await supabaseServer
+        .from('accounting_periods')
+        .select('id')
+        .eq('company_id', mpOrder.company_id)
+        .eq('status', 'open')
+        .lte('start_date', returnDate)
+        .gte('end_date', returnDate)
+        .single();
+
+    if (!period) throw new Error('No open accounting period for return date');
+
+    // Delivered quantity per SO line not yet taken back by an earlier return
+    const { data: earlierLines, error: earlierError } = await supabaseServer
+        .from('sales_return_lines')
+        .select('so_line_id, qty_returned, sales_return:sales_returns!inner(status)')
+        .in('so_line_id', soLines.map(line => line.id))
+        .neq('sales_return.status', 'void');
+
+    if (earlierError) throw earlierError;
+
+    const returnable = new Map(soLines.map(line => [line.id, Number(line.qty_delivered)]));
+    for (const earlier of earlierLines || []) {
+        returnable.set(earlier.so_line_id, (returnable.get(earlier.so_line_id) || 0) - Number(earlier.qty_returned));
+    }
+
+    const defaultWarehouse = mpOrder.account?.warehouse_id || so.warehouse_id;
+    const requested: MarketplaceReturnItem[] = items || soLines
+        .filter(line => (returnable.get(line.id) || 0) > 0)
+        .map(line => ({
+            sku: line.variant.sku,
+            quantity: returnable.get(line.id)!,
+            disposition: 'QUARANTINE' as ReturnDisposition,
+        }));
+
+    if (!requested.length) {
+        throw new BusinessRuleError(`Sales order ${so.so_number} has no delivered quantity left to return`);
+    }
+
+    // A SKU can sit on several SO lines; take the quantity from them in line order
+    const lines: SalesReturnLine[] = [];
+    for (const item of requested) {
+        const matching = soLines
+            .filter(line => line.variant.sku === item.sku)
+            .sort((a, b) => a.line_number - b.line_number);
+        if (!matching.length) throw new Error(`Returned SKU ${item.sku} is not on sales order ${so.so_number}`);
+
+        let remaining = item.quantity;
+        for (const soLine of matching) {
+            const take = Math.min(remaining, returnable.get(soLine.id) || 0);
+            if (take <= 0) continue;
+
+            returnable.set(soLine.id, returnable.get(soLine.id)! - take);
+            remaining -= take;
+            lines.push({
+                line_number: lines.length + 1,
+                so_line_id: soLine.id,
+                product_variant_id: soLine.product_variant_id,
+                qty_returned: take,
+                unit_price: Number(soLine.unit_price) * (1 - Number(soLine.discount_percentage || 0) / 100),
+                disposition: item.disposition,
+                warehouse_id: item.warehouse_id || defaultWarehouse,
+                bin_id: item.bin_id,
+                return_reason: reason,
+            });
+            if (remaining <= 0) break;
+        }
+
+        if (remaining > 0) {
+            throw new BusinessRuleError(
+                `Returned quantity of SKU ${item.sku} exceeds the quantity delivered on sales order ${so.so_number}`,
+                { sku: item.sku, not_delivered: remaining }
+            );
+        }
+    }
+
+    // Later returns of the same order get a running suffix: SR-<order>, SR-<order>-2, ...
+    const { count: earlierReturns, error: countError } = await supabaseServer
+        .from('sales_returns')
+        .select('id', { count: 'exact', head: true })
+        .eq('marketplace_order_id', mpOrder.id);
+
+    if (countError) throw countError;
+
+    const salesReturn = await createSalesReturn({
+        company_id: mpOrder.company_id,
+        return_number: earlierReturns
+            ? `SR-${mpOrder.external_order_id}-${earlierReturns + 1}`
+            : `SR-${mpOrder.external_order_id}`,
+        return_date: returnDate,
+        so_id: mpOrder.so_id,
+        marketplace_order_id: mpOrder.id,
+        customer_id: so.customer_id,
+        period_id: period.id,
+        return_reason: reason,
+        notes: `Marketplace return (Ref: ${mpOrder.external_order_id})`,
+    }, lines, userId);
+
+    try {
+        await postSalesReturn(salesReturn.id!, userId);
+    } catch (err) {
+        // Drop the draft so a retry can return the same quantity under the same number
+        await deleteDraftSalesReturn(salesReturn.id!);
+        throw err;
+    }
+    await markOrderReturned(orderId, reason);
+    return salesReturn.id!;
+}
+
+/** Sales order line fields a marketplace return is matched and priced against */
+interface ReturnableSOLine {
+    id: string;
+    line_number: number;
+    product_variant_id: string;
+    qty_delivered: number;
+    unit_price: number;
+    discount_percentage: number | null;
+    variant: { sku: string };
+}
+
+async function markOrderReturned(orderId: string, reason: string): Promise<void> {
+    const { error } = await supabaseServer
         .from('marketplace_orders')
         .update({
             mapped_status: 'returned',
@@ -416,7 +1267,5 @@ export async function processMarketplaceReturn(
         })
         .eq('id', orderId);
 
-    if (upError) throw upError;
-
-    // TODO: Trigger Sales Return creation if SO exists
+    if (error) throw error;
 }
@@ -26,10 +26,37 @@ export interface Material {
     unit_of_measure: string;
     supplier_code?: string;
     reorder_level?: number;
+    /** Minimum quantity to order when replenishing */
+    reorder_qty?: number;
+    /** Vendor replenishment orders from */
+    preferred_vendor_id?: string;
     standard_cost?: number;
+    /** Default PPN code on purchase lines */
+    tax_code_id?: string;
     status: 'active' | 'inactive' | 'discontinued';
 }
 
+/** Projected stock of a material in a warehouse (`material_replenishment_position_vw`) */
+export interface MaterialReorderPosition {
+    company_id: string;
+    material_id: string;
+    warehouse_id: string;
+    material_code: string;
+    material_name: string;
+    unit_of_measure: string;
+    reorder_level: number;
+    reorder_qty: number;
+    preferred_vendor_id: string | null;
+    standard_cost: number;
+    on_hand_qty: number;
+    /** Ordered and not yet received, draft POs included */
+    open_po_qty: number;
+    /** Outstanding reservations of planned/released/in-progress production orders */
+    reserved_qty: number;
+    /** on_hand_qty + open_po_qty - reserved_qty */
+    projected_qty: number;
+}
+
 // ==================== CATEGORIES ====================
 
 /**
@@ -399,15 +426,16 @@ export async function updateMaterial(
 }
 
 /**
- * Retrieves materials below their reorder level for purchase planning.
+ * Retrieves materials whose projected stock is below their reorder level, per warehouse.
  * 
- * Compares current inventory balance against reorder_level threshold.
- * Materials below threshold should be reordered. This query joins with
- * the materialized view `raw_material_balance_mv` for current quantities.
+ * Projected stock is on hand plus open PO quantity (drafts included) less the outstanding
+ * reservations of planned, released and in-progress production orders, so materials
+ * already on order are not flagged again and committed stock is not counted as available.
+ * Materials with no stock in a warehouse are included.
  * 
  * **Use Cases:**
  * - Daily reorder alerts
- * - Automatic purchase requisition generation
+ * - Replenishment runs ({@link runReplenishment})
  * - Inventory dashboard warnings
  * - Procurement planning
  * 
@@ -415,57 +443,32 @@ export async function updateMaterial(
  * @param warehouseId - Optional filter by warehouse
  * 
  * @returns Promise resolving to materials needing reorder
- * @returns material.current_qty - Current quantity on hand
- * @returns material.reorder_level - Threshold quantity
- * @returns material.qty_needed - Suggested order quantity (reorder_level - current_qty)
+ * @returns position.projected_qty - On hand + open POs - reservations
+ * @returns position.reorder_level - Threshold quantity
+ * @returns position.qty_needed - Shortfall against the reorder level (reorder_level - projected_qty)
  * 
  * @example
  * ```typescript
- * // Get all materials needing reorder
- * const lowStockMaterials = await getMaterialsBelowReorderLevel(companyId);
+ * const lowStock = await getMaterialsBelowReorderLevel(companyId, mainWarehouseId);
  * 
- * console.log('Materials to Reorder:');
- * lowStockMaterials.forEach(m => {
- *   console.log(`${m.code}: Current ${m.current_qty}, Reorder at ${m.reorder_level}`);
- *   console.log(`  Suggested order: ${m.qty_needed} ${m.unit_of_measure}`);
+ * lowStock.forEach(m => {
+ *   console.log(`${m.material_code}: on hand ${m.on_hand_qty}, on order ${m.open_po_qty}, reserved ${m.reserved_qty}`);
+ *   console.log(`  Short by ${m.qty_needed} ${m.unit_of_measure}`);
  * });
  * ```
  * 
- * @example
- * ```typescript
- * // Auto-generate purchase requisitions
- * const lowStock = await getMaterialsBelowReorderLevel(companyId);
- * 
- * for (const material of lowStock) {
- *   await createPurchaseRequisition({
- *     material_id: material.id,
- *     qty_requested: material.qty_needed,
- *     reason: 'Below reorder level'
- *   });
- * }
- * ```
- * 
  * @see {@link getAllMaterials} for all materials
  * @see {@link updateMaterial} for adjusting reorder levels
  */
 export async function getMaterialsBelowReorderLevel(
     companyId: string,
     warehouseId?: string
-): Promise<any[]> {
+): Promise<(MaterialReorderPosition & { qty_needed: number })[]> {
     let query = supabaseServer
-        .from('raw_material_balance_mv')
-        .select(`
-      *,
-      material:materials!inner(
-        code,
-        name,
-        unit_of_measure,
-        reorder_level,
-        category:material_categories(name)
-      )
-    `)
+        .from('material_replenishment_position_vw')
+        .select('*')
         .eq('company_id', companyId)
-        .not('material.reorder_level', 'is', null);
+        .order('material_code');
 
     if (warehouseId) {
         query = query.eq('warehouse_id', warehouseId);
@@ -475,16 +478,10 @@ export async function getMaterialsBelowReorderLevel(
 
     if (error) throw error;
 
-    // Filter where current_qty < reorder_level
-    const belowReorder = (data || []).filter((item: any) => {
-        const currentQty = parseFloat(item.current_qty || 0);
-        const reorderLevel = parseFloat(item.material.reorder_level || 0);
-        return currentQty < reorderLevel;
-    });
-
-    // Calculate qty needed
-    return belowReorder.map((item: any) => ({
-        ...item,
-        qty_needed: item.material.reorder_level - item.current_qty,
-    }));
+    return ((data || []) as MaterialReorderPosition[])
+        .filter(position => Number(position.projected_qty) < Number(position.reorder_level))
+        .map(position => ({
+            ...position,
+            qty_needed: Number(position.reorder_level) - Number(position.projected_qty),
+        }));
 }
@@ -0,0 +1,233 @@
+/**
+ * MRP Service
+ * Company-wide material requirements planning across all open demand.
+ *
+ * **Run ({@link runMRP}, RPC `run_mrp`):**
+ * 1. **Gross requirements:** open sales order lines (per product), outstanding material reservations
+ *    and stocked sub-assemblies of open production orders, and safety stock shortfalls
+ * 2. **Netting:** per item and date, against on-hand stock (all warehouses), then open POs and open
+ *    production orders in date order. Products are netted by low-level code, parents first
+ * 3. **Planned orders:** each remaining shortage becomes a buy (material) or make (product) order due
+ *    on the requirement date, released lead-time days earlier; make orders explode their BOM into
+ *    requirements on the release date
+ * 4. **Action messages:** open supply arriving after its first need is expedited, well before it is
+ *    deferred, and supply nothing needs is cancelled
+ *
+ * **Review:** the planner works the planned orders and messages off ({@link reviewPlannedOrders},
+ * {@link reviewActionMessages}). Single production orders are still checked with `calculateMRP`.
+ */
+import { supabaseServer } from '../config/supabase';
+import { NotFoundError } from './error.service';
+
+// Types
+export type MRPReviewStatus = 'open' | 'done' | 'dismissed';
+export type MRPAction = 'expedite' | 'defer' | 'cancel';
+
+export interface MRPRequirement {
+    id: string;
+    run_id: string;
+    material_id: string | null;
+    product_id: string | null;
+    required_date: string;
+    qty: number;
+    source_type: 'sales_order' | 'production_order' | 'planned_order' | 'safety_stock';
+    sales_order_id: string | null;
+    production_order_id: string | null;
+    /** Parent planned make order of dependent demand */
+    planned_order_id: string | null;
+    source_number: string | null;
+}
+
+export interface MRPPlannedOrder {
+    id: string;
+    run_id: string;
+    order_type: 'buy' | 'make';
+    material_id: string | null;
+    product_id: string | null;
+    bom_id: string | null;
+    vendor_id: string | null;
+    qty: number;
+    /** Shortage covered; qty is rounded up to the material's minimum lot */
+    net_requirement: number;
+    release_date: string;
+    due_date: string;
+    /** Should have been released before the run date */
+    is_late: boolean;
+    status: MRPReviewStatus;
+}
+
+export interface MRPScheduledReceipt {
+    id: string;
+    run_id: string;
+    material_id: string | null;
+    product_id: string | null;
+    source_type: 'purchase_order' | 'production_order';
+    purchase_order_id: string | null;
+    po_line_id: string | null;
+    production_order_id: string | null;
+    document_number: string;
+    receipt_date: string;
+    qty: number;
+    qty_needed: number;
+    /** First requirement the receipt covers */
+    needed_date: string | null;
+    action: MRPAction | null;
+    action_status: MRPReviewStatus | null;
+}
+
+export interface MRPRun {
+    id: string;
+    company_id: string;
+    run_date: string;
+    tolerance_days: number;
+    requirements?: MRPRequirement[];
+    planned_orders?: MRPPlannedOrder[];
+    receipts?: MRPScheduledReceipt[];
+}
+
+export interface MRPRunSummary {
+    buy_orders: number;
+    make_orders: number;
+    late_orders: number;
+    expedite: number;
+    defer: number;
+    cancel: number;
+    /** Planned orders and action messages not yet worked off */
+    open_items: number;
+}
+
+// ==================== RUNS ====================
+
+/**
+ * Plans the whole company: nets all open demand against stock and open supply.
+ *
+ * @param companyId - UUID of the company
+ * @param userId - UUID of the planner
+ * @param toleranceDays - Receipts this close to their need date get no expedite/defer message
+ * @returns The run with its requirements, planned orders and scheduled receipts
+ *
+ * @example
+ * ```typescript
+ * const run = await runMRP(companyId, plannerId);
+ * // SO-0412 needs 500 TS-01 on 2025-03-10, 120 in stock, PROD-031 brings 200 on 2025-03-14
+ * // → make 180 TS-01 due 2025-03-10, released 2025-03-03 (7 days lead time)
+ * // → expedite PROD-031 from 2025-03-14 to 2025-03-10
+ * // → buy 144 m FAB-01 due 2025-03-03 for the planned TS-01 order
+ *
+ * summarizeMRPRun(run); // { buy_orders: 1, make_orders: 1, expedite: 1, ... }
+ * ```
+ */
+export async function runMRP(companyId: string, userId: string, toleranceDays = 2): Promise<MRPRun> {
+    const { data: runId, error } = await supabaseServer.rpc('run_mrp', {
+        p_company_id: companyId,
+        p_user_id: userId,
+        p_tolerance_days: toleranceDays,
+    });
+
+    if (error) throw error;
+    return getMRPRun(runId as string);
+}
+
+/**
+ * Retrieves a run with its requirements, planned orders and scheduled receipts.
+ *
+ * @throws {NotFoundError} If the run does not exist
+ */
+export async function getMRPRun(runId: string): Promise<MRPRun> {
+    const { data, error } = await supabaseServer
+        .from('mrp_runs')
+        .select(`
+            *,
+            requirements:mrp_requirements(*, material:materials(code, name), product:products(code, name)),
+            planned_orders:mrp_planned_orders(
+                *,
+                material:materials(code, name, unit_of_measure),
+                product:products(code, name, unit_of_measure),
+                vendor:vendors(code, name)
+            ),
+            receipts:mrp_scheduled_receipts(*, material:materials(code, name), product:products(code, name))
+        `)
+        .eq('id', runId)
+        .maybeSingle();
+
+    if (error) throw error;
+    if (!data) throw new NotFoundError('MRP run', runId);
+    return data;
+}
+
+/**
+ * Lists runs, newest first.
+ */
+export async function getMRPRuns(companyId: string): Promise<MRPRun[]> {
+    const { data, error } = await supabaseServer
+        .from('mrp_runs')
+        .select('*')
+        .eq('company_id', companyId)
+        .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+}
+
+/**
+ * Counts what a run asks the planner to do.
+ */
+export function summarizeMRPRun(run: Pick<MRPRun, 'planned_orders' | 'receipts'>): MRPRunSummary {
+    const plannedOrders = run.planned_orders || [];
+    const messages = (run.receipts || []).filter(r => r.action !== null);
+
+    return {
+        buy_orders: plannedOrders.filter(o => o.order_type === 'buy').length,
+        make_orders: plannedOrders.filter(o => o.order_type === 'make').length,
+        late_orders: plannedOrders.filter(o => o.is_late).length,
+        expedite: messages.filter(m => m.action === 'expedite').length,
+        defer: messages.filter(m => m.action === 'defer').length,
+        cancel: messages.filter(m => m.action === 'cancel').length,
+        open_items: plannedOrders.filter(o => o.status === 'open').length
+            + messages.filter(m => m.action_status === 'open').length,
+    };
+}
+
+// ==================== REVIEW ====================
+
+/**
+ * Marks open planned orders as done (ordered or scheduled) or dismissed.
+ *
+ * @returns Number of planned orders changed
+ */
+export async function reviewPlannedOrders(
+    plannedOrderIds: string[],
+    status: Exclude<MRPReviewStatus, 'open'>,
+    userId: string
+): Promise<number> {
+    const { data, error } = await supabaseServer
+        .from('mrp_planned_orders')
+        .update({ status, reviewed_by: userId, reviewed_at: new Date().toISOString() })
+        .in('id', plannedOrderIds)
+        .eq('status', 'open')
+        .select('id');
+
+    if (error) throw error;
+    return (data || []).length;
+}
+
+/**
+ * Marks open action messages as done (PO or production order rescheduled/cancelled) or dismissed.
+ *
+ * @returns Number of messages changed
+ */
+export async function reviewActionMessages(
+    receiptIds: string[],
+    status: Exclude<MRPReviewStatus, 'open'>,
+    userId: string
+): Promise<number> {
+    const { data, error } = await supabaseServer
+        .from('mrp_scheduled_receipts')
+        .update({ action_status: status, reviewed_by: userId, reviewed_at: new Date().toISOString() })
+        .in('id', receiptIds)
+        .eq('action_status', 'open')
+        .select('id');
+
+    if (error) throw error;
+    return (data || []).length;
+}
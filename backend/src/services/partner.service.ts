@@ -3,9 +3,11 @@
  * Manages business partners: vendors (suppliers) and customers
  * 
  * Vendors supply materials and products. Customers purchase finished goods.
- * Includes customer-specific pricing with time-based validity.
+ * Includes customer-specific pricing with time-based validity and vendor price lists
+ * (contract prices with quantity breaks, minimum order quantity and lead time).
  */
 import { supabaseServer } from '../config/supabase';
+import { ValidationError } from './error.service';
 
 export interface Vendor {
     id?: string;
@@ -18,6 +20,12 @@ export interface Vendor {
     address?: string;
     city?: string;
     tax_id?: string;
+    /** PPN status, e.g. exempt for a non-PKP vendor */
+    tax_code_id?: string;
+    /** PPh withheld on payments */
+    withholding_tax_code_id?: string;
+    /** Kode objek pajak reported on bukti potong, e.g. 24-104-14 */
+    withholding_object_code?: string;
     payment_terms?: string; // e.g., 'Net 30', 'COD'
     credit_limit?: number;
     is_blocked?: boolean;
@@ -37,6 +45,10 @@ export interface Customer {
     address?: string;
     city?: string;
     tax_id?: string;
+    /** What tax_id holds; buyers without NPWP are reported on faktur pajak by NIK */
+    tax_id_type?: 'NPWP' | 'NIK' | 'PASSPORT' | 'OTHER';
+    /** PPN status, e.g. zero-rated for export customers */
+    tax_code_id?: string;
     payment_terms?: string;
     credit_limit?: number;
     is_blocked?: boolean;
@@ -55,6 +67,82 @@ export interface CustomerPriceList {
     is_active?: boolean;
 }
 
+export interface VendorPriceBreak {
+    /** Break applies from this quantity on one PO line */
+    min_qty: number;
+    unit_price: number;
+}
+
+export interface VendorPriceList {
+    id?: string;
+    company_id: string;
+    vendor_id: string;
+    material_id: string;
+    vendor_material_code?: string;
+    currency?: string;
+    /** Price below the first quantity break */
+    unit_price: number;
+    min_order_qty?: number;
+    lead_time_days?: number;
+    /** PO price deviation (%) accepted without a warning */
+    price_tolerance_pct?: number;
+    effective_from: string;
+    effective_to?: string;
+    is_active?: boolean;
+    notes?: string;
+    breaks?: VendorPriceBreak[];
+}
+
+/** Contract price for a quantity (`get_vendor_price`) */
+export interface VendorPrice {
+    price_list_id: string;
+    unit_price: number;
+    list_price: number;
+    currency: string;
+    min_order_qty: number;
+    lead_time_days: number;
+    price_tolerance_pct: number;
+}
+
+/** Scorecard metrics; percentages are null when the vendor has no data for them */
+export interface VendorScorecardMetrics {
+    on_time_pct: number | null;
+    fill_rate_pct: number | null;
+    reject_pct: number | null;
+    return_pct: number | null;
+    price_variance_pct: number | null;
+    score: number | null;
+}
+
+/** One month of `vendor_scorecard_monthly_vw` */
+export interface VendorScorecardMonth extends VendorScorecardMetrics {
+    company_id: string;
+    vendor_id: string;
+    vendor_code: string;
+    vendor_name: string;
+    month: string;
+    receipt_count: number;
+    on_time_count: number;
+    qty_ordered: number;
+    qty_filled: number;
+    qty_received: number;
+    qty_rejected: number;
+    qty_returned: number;
+    po_value: number;
+    price_variance: number;
+    /** Sum of absolute line variances, the basis of price_variance_pct */
+    price_variance_abs: number;
+}
+
+/** A row of `get_vendor_scorecard_ranking` */
+export interface VendorScorecardRank extends VendorScorecardMetrics {
+    rank: number;
+    vendor_id: string;
+    vendor_code: string;
+    vendor_name: string;
+    receipt_count: number;
+}
+
 // ==================== VENDORS ====================
 
 /**
@@ -703,6 +791,233 @@ export async function getCustomerPrice(
     return data;
 }
 
+// ==================== VENDOR PRICING ====================
+
+/**
+ * Unit price of a price list for a quantity: the highest break at or below the quantity,
+ * else the list price. Mirrors `get_vendor_price`.
+ *
+ * @example
+ * ```typescript
+ * const list = { unit_price: 48000, breaks: [{ min_qty: 500, unit_price: 46000 }, { min_qty: 1000, unit_price: 45000 }] };
+ * resolveVendorPrice(list, 300);  // 48000
+ * resolveVendorPrice(list, 750);  // 46000
+ * resolveVendorPrice(list, 1000); // 45000
+ * ```
+ */
+export function resolveVendorPrice(priceList: Pick<VendorPriceList, 'unit_price' | 'breaks'>, qty: number): number {
+    const applicable = (priceList.breaks || [])
+        .filter(b => Number(b.min_qty) <= qty)
+        .sort((a, b) => Number(b.min_qty) - Number(a.min_qty));
+
+    return Number(applicable.length > 0 ? applicable[0].unit_price : priceList.unit_price);
+}
+
+/**
+ * Compares a PO line against the vendor contract. Deviations are warnings: the buyer may still
+ * order, and the line shows in `purchase_order_price_deviations_vw`.
+ *
+ * @returns Warning messages; empty when the line is within the contract
+ *
+ * @example
+ * ```typescript
+ * checkContractPrice(200, 50000, { unit_price: 48000, min_order_qty: 300, price_tolerance_pct: 2 });
+ * // ['Quantity 200 is below the minimum order quantity of 300',
+ * //  'Price 50000 deviates 4.17% from the contract price 48000 (tolerance 2%)']
+ * ```
+ */
+export function checkContractPrice(
+    qty: number,
+    unitPrice: number,
+    contract: Pick<VendorPrice, 'unit_price' | 'min_order_qty' | 'price_tolerance_pct'>
+): string[] {
+    const warnings: string[] = [];
+    const contractPrice = Number(contract.unit_price);
+
+    if (qty < Number(contract.min_order_qty)) {
+        warnings.push(`Quantity ${qty} is below the minimum order quantity of ${Number(contract.min_order_qty)}`);
+    }
+
+    const deviation = unitPrice - contractPrice;
+    if (Math.abs(deviation) > contractPrice * Number(contract.price_tolerance_pct) / 100) {
+        const pct = contractPrice > 0 ? Math.round(deviation / contractPrice * 10000) / 100 : null;
+        warnings.push(
+            `Price ${unitPrice} deviates ${pct === null ? '' : `${pct}% `}from the contract price ${contractPrice}` +
+            ` (tolerance ${Number(contract.price_tolerance_pct)}%)`
+        );
+    }
+
+    return warnings;
+}
+
+/**
+ * Creates a vendor price list for a material, with optional quantity breaks.
+ *
+ * PO lines entered for the vendor and material within the validity dates record the contract
+ * price for their quantity (`purchase_order_lines.contract_price`).
+ *
+ * @param priceList - Price list with its breaks
+ * @param userId - UUID of the user
+ * @throws {ValidationError} If a break repeats a quantity, or MOQ/lead time is negative
+ * @returns The price list with its breaks
+ *
+ * @example
+ * ```typescript
+ * // Cotton combed 30s from PT Sinar Tekstil, 2025 contract
+ * await createVendorPriceList({
+ *   company_id: companyId,
+ *   vendor_id: sinarId,
+ *   material_id: cottonId,
+ *   unit_price: 48000,
+ *   min_order_qty: 300,
+ *   lead_time_days: 14,
+ *   price_tolerance_pct: 2,
+ *   effective_from: '2025-01-01',
+ *   effective_to: '2025-12-31',
+ *   breaks: [{ min_qty: 500, unit_price: 46000 }, { min_qty: 1000, unit_price: 45000 }]
+ * }, userId);
+ * ```
+ *
+ * @see {@link getVendorPrice} for the price of a quantity
+ */
+export async function createVendorPriceList(priceList: VendorPriceList, userId: string): Promise<VendorPriceList> {
+    const { breaks = [], ...header } = priceList;
+
+    if ((header.min_order_qty ?? 0) < 0 || (header.lead_time_days ?? 0) < 0) {
+        throw new ValidationError('Minimum order quantity and lead time cannot be negative');
+    }
+    const quantities = breaks.map(b => Number(b.min_qty));
+    if (quantities.some(q => q <= 0) || new Set(quantities).size !== quantities.length) {
+        throw new ValidationError('Each quantity break needs a distinct quantity greater than 0');
+    }
+
+    const { data, error } = await supabaseServer
+        .from('vendor_price_lists')
+        .insert({ ...header, created_by: userId })
+        .select()
+        .single();
+
+    if (error) throw error;
+    if (breaks.length === 0) return { ...data, breaks: [] };
+
+    const { data: savedBreaks, error: breaksError } = await supabaseServer
+        .from('vendor_price_list_breaks')
+        .insert(breaks.map(b => ({ price_list_id: data.id, min_qty: b.min_qty, unit_price: b.unit_price })))
+        .select('min_qty, unit_price');
+
+    if (breaksError) throw breaksError;
+    return { ...data, breaks: savedBreaks || [] };
+}
+
+/**
+ * Lists a vendor's price lists with their breaks, optionally only those valid on a date.
+ */
+export async function getVendorPriceLists(vendorId: string, date?: string): Promise<VendorPriceList[]> {
+    let query = supabaseServer
+        .from('vendor_price_lists')
+        .select('*, breaks:vendor_price_list_breaks(min_qty, unit_price)')
+        .eq('vendor_id', vendorId)
+        .order('effective_from', { ascending: false });
+
+    if (date) {
+        query = query
+            .eq('is_active', true)
+            .lte('effective_from', date)
+            .or(`effective_to.is.null,effective_to.gte.${date}`);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+}
+
+/**
+ * Retrieves the contract price of a material from a vendor for a quantity on a date.
+ *
+ * @returns The price, or null when no price list is valid (fall back to the last purchase price)
+ */
+export async function getVendorPrice(
+    vendorId: string,
+    materialId: string,
+    qty: number,
+    date: string = new Date().toISOString().split('T')[0]
+): Promise<VendorPrice | null> {
+    const { data, error } = await supabaseServer.rpc('get_vendor_price', {
+        p_vendor_id: vendorId,
+        p_material_id: materialId,
+        p_qty: qty,
+        p_date: date,
+    });
+
+    if (error) throw error;
+    return data && data.length > 0 ? data[0] : null;
+}
+
+/**
+ * Ends a price list; POs entered after `effectiveTo` no longer use it.
+ */
+export async function expireVendorPriceList(priceListId: string, effectiveTo: string): Promise<void> {
+    const { error } = await supabaseServer
+        .from('vendor_price_lists')
+        .update({ effective_to: effectiveTo })
+        .eq('id', priceListId);
+
+    if (error) throw error;
+}
+
+// ==================== VENDOR SCORECARDS ====================
+
+/**
+ * Retrieves a vendor's monthly scorecard for a trend, oldest month first.
+ *
+ * **Metrics (per month):**
+ * - On-time delivery: posted GRNs dated on or before the PO delivery date
+ * - Fill rate: received vs ordered on PO lines due that month
+ * - Rejects: QC rejected vs received quantity
+ * - Returns: quantity returned to the vendor vs received
+ * - Price variance: invoiced vs PO price
+ *
+ * The score weights them 35/25/20/10/10 (`vendor_score`), leaving out metrics without data.
+ *
+ * @param vendorId - UUID of the vendor
+ * @param fromMonth - First month to include (YYYY-MM-01)
+ */
+export async function getVendorScorecardTrend(vendorId: string, fromMonth: string): Promise<VendorScorecardMonth[]> {
+    const { data, error } = await supabaseServer
+        .from('vendor_scorecard_monthly_vw')
+        .select('*')
+        .eq('vendor_id', vendorId)
+        .gte('month', fromMonth)
+        .order('month', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+}
+
+/**
+ * Ranks vendors by scorecard over the months in a date range, best first.
+ *
+ * @example
+ * ```typescript
+ * const ranking = await getVendorScorecardRanking(companyId, '2025-01-01', '2025-06-30');
+ * // [{ rank: 1, vendor_name: 'PT Kain Jaya', on_time_pct: 96.5, fill_rate_pct: 99.2, score: 95.8 }, ...]
+ * ```
+ */
+export async function getVendorScorecardRanking(
+    companyId: string,
+    from: string,
+    to: string = new Date().toISOString().split('T')[0]
+): Promise<VendorScorecardRank[]> {
+    const { data, error } = await supabaseServer.rpc('get_vendor_scorecard_ranking', {
+        p_company_id: companyId,
+        p_from: from,
+        p_to: to,
+    });
+
+    if (error) throw error;
+    return data || [];
+}
+
 /**
  * Validates customer credit limit before processing sale (placeholder).
  * 
@@ -20,6 +20,8 @@ export interface Product {
     name: string;
     description?: string;
     category?: string;
+    /** Default PPN code on sales lines */
+    tax_code_id?: string;
     status: 'active' | 'inactive' | 'discontinued';
     is_active?: boolean;
 }
@@ -17,6 +17,7 @@
  * All operations integrate with inventory and accounting systems.
  */
 import { supabaseServer } from '../config/supabase';
+import { BusinessRuleError } from './error.service';
 import { validatePeriodIsOpen } from './period.service';
 
 // ==================== TYPES ====================
@@ -31,6 +32,8 @@ export interface BOMHeader {
     is_active?: boolean;
     base_qty?: number;
     yield_percentage?: number;
+    /** Non-stocked sub-assembly, blown through into the parent on explosion */
+    is_phantom?: boolean;
     notes?: string;
 }
 
@@ -47,6 +50,86 @@ export interface BOMLine {
     notes?: string;
 }
 
+/** One row of the indented multi-level explosion returned by `explode_bom` */
+export interface BOMExplosionRow {
+    level_num: number;
+    /** Line numbers down the tree ('0001.0002'), orders rows as an indented BOM */
+    sort_path: string;
+    bom_id: string;
+    bom_line_id: string;
+    parent_product_id: string;
+    material_id: string | null;
+    material_code: string | null;
+    material_name: string | null;
+    component_product_id: string | null;
+    product_code: string | null;
+    product_name: string | null;
+    qty_per: number;
+    /** For the exploded quantity, incl. scrap at every level */
+    total_qty: number;
+    scrap_percentage: number;
+    stage: 'CUT' | 'SEW' | 'FINISH' | null;
+    uom: string | null;
+    /** Active BOM of a sub-assembly component */
+    component_bom_id: string | null;
+    is_phantom: boolean;
+    /** Consumed by the order of the exploded product (reached through phantoms only) */
+    is_requirement: boolean;
+    /** Quantity or material replaced by a size rule / color substitution */
+    is_variant_specific: boolean;
+}
+
+export interface BOMRequirement {
+    material_id: string | null;
+    component_product_id: string | null;
+    code: string;
+    name: string;
+    uom: string | null;
+    total_qty: number;
+}
+
+/** Quantity of a BOM line for one size (XXL uses more fabric than S) */
+export interface BOMSizeRule {
+    id?: string;
+    bom_line_id?: string;
+    size_id: string;
+    qty_per: number;
+}
+
+/** Material of a BOM line for one color (thread follows the garment color) */
+export interface BOMColorSubstitution {
+    id?: string;
+    bom_line_id?: string;
+    color_id: string;
+    material_id: string;
+}
+
+/** One variant of the size / color mix of a production order */
+export interface ProductionOrderVariant {
+    product_variant_id: string;
+    qty_planned: number;
+}
+
+/** One requirement row of `explode_production_order`, per variant of the mix */
+export interface VariantMaterialNeed {
+    /** NULL for an order without a variant mix */
+    product_variant_id: string | null;
+    sku: string | null;
+    size_code: string | null;
+    color_code: string | null;
+    variant_qty: number;
+    material_id: string | null;
+    material_code: string | null;
+    material_name: string | null;
+    component_product_id: string | null;
+    product_code: string | null;
+    product_name: string | null;
+    stage: 'CUT' | 'SEW' | 'FINISH' | null;
+    uom: string | null;
+    total_qty: number;
+    is_variant_specific: boolean;
+}
+
 export interface ProductionOrder {
     id?: string;
     company_id: string;
@@ -72,9 +155,47 @@ export interface WorkOrder {
     stage: 'CUT' | 'SEW' | 'FINISH';
     qty_started: number;
     operator_id?: string;
+    /** Operation run; its work center and standard time drive scheduling */
+    operation_id?: string;
+    /** Defaults to the operation's work center when scheduled */
+    work_center_id?: string;
+    notes?: string;
+}
+
+/** Operation of a BOM routing; work orders are generated from these on release */
+export interface BOMRoutingStep {
+    id?: string;
+    bom_id?: string;
+    /** Steps start once every lower sequence is completed */
+    sequence: number;
+    operation_id: string;
+    /** Defaults to the operation's work center */
+    work_center_id?: string | null;
+    stage: 'CUT' | 'SEW' | 'FINISH';
+    setup_minutes: number;
+    /** Per unit; defaults to the operation's standard time */
+    run_minutes?: number | null;
     notes?: string;
 }
 
+/** One day of a work center in `work_center_load` */
+export interface WorkCenterLoadDay {
+    work_center_id: string;
+    work_center_code: string;
+    work_center_name: string;
+    load_date: string;
+    capacity_minutes: number;
+    loaded_minutes: number;
+    is_overloaded: boolean;
+}
+
+export interface WorkCenterOverload {
+    work_center_id: string;
+    work_center_code: string;
+    days: { load_date: string; excess_minutes: number }[];
+    excess_minutes: number;
+}
+
 export interface TimeEntry {
     id?: string;
     work_order_id: string;
@@ -311,57 +432,289 @@ export async function getActiveBOMForProduct(productId: string): Promise<any> {
 }
 
 /**
- * Explodes BOM to calculate total material requirements (MRP).
- * 
- * **BOM Explosion:**
- * - Recursively expands multi-level BOMs
- * - Calculates material needs for planned quantity
- * - Includes scrap allowance
- * - Handles component BOMs (sub-assemblies)
+ * Explodes a BOM through all sub-assembly levels (cut panels, printed fronts, patches).
+ * 
+ * **BOM Explosion (RPC `explode_bom`):**
+ * - Lines can reference materials or other products with their own BOMs
+ * - Sub-assemblies are exploded through their active BOM, level by level
+ * - Quantities per BOM base quantity, with scrap at every level
+ * - Phantom sub-assemblies (`is_phantom` BOMs, not stocked) are blown through: their
+ *   components become requirements of the parent
+ * - Stocked sub-assemblies are a requirement themselves; their components are listed
+ *   for the structure but consumed by the sub-assembly's own production order
+ * - Circular references raise an error naming the path
  * 
  * **Example:**
- * - Product: T-Shirt (qty = 100)
- * - BOM: 0.8m fabric per shirt
- * - Scrap: 5%
- * - Result: Need 84m fabric (100 × 0.8 × 1.05)
+ * - Product: T-Shirt (qty = 100), BOM: 1 printed front (phantom) + 0.5m fabric
+ * - Printed front: 0.3m fabric, 5% scrap + 0.02 kg ink
+ * - Result: 81.5m fabric (50 + 31.5), 2 kg ink
  * 
  * @param productId - UUID of the product
  * @param qty - Quantity to produce
+ * @param bomId - Optional BOM version to explode (defaults to the active BOM)
+ * @param variant - Optional size / color; applies the size rules and color substitutions of the lines
  * 
- * @returns Promise resolving to material requirements list
- * @returns material.material_id - UUID of required material
- * @returns material.total_qty_needed - Total quantity needed (with scrap)
- * @returns material.current_stock - Current available stock
- * @returns material.shortage - Quantity to purchase (if negative)
+ * @throws {Error} If the BOM structure contains a cycle
+ * @returns Promise resolving to the indented explosion, in BOM order
  * 
  * @example
  * ```typescript
- * // Plan to make 100 T-shirts
- * const requirements = await explodeBOM(tshirtId, 100);
+ * const rows = await explodeBOM(tshirtId, 100);
  * 
- * console.log('Material Requirements:');
- * requirements.forEach(req => {
- *   console.log(`${req.material_name}:`);
- *   console.log(`  Need: ${req.total_qty_needed}`);
- *   console.log(`  Have: ${req.current_stock}`);
- *   if (req.shortage > 0) {
- *     console.log(`  ⚠️  Buy: ${req.shortage}`);
- *   }
+ * rows.forEach(row => {
+ *   const indent = '  '.repeat(row.level_num - 1);
+ *   console.log(`${indent}${row.material_name ?? row.product_name}: ${row.total_qty}`);
  * });
+ * 
+ * // What the production order consumes
+ * const requirements = summarizeBOMRequirements(rows);
  * ```
  * 
+ * @see {@link summarizeBOMRequirements} for the flat requirement list
  * @see {@link calculateMRP} for detailed MRP calculation
  */
-export async function explodeBOM(productId: string, qty: number): Promise<any[]> {
+export async function explodeBOM(
+    productId: string,
+    qty: number,
+    bomId?: string,
+    variant?: { size_id?: string | null; color_id?: string | null }
+): Promise<BOMExplosionRow[]> {
     const { data, error } = await supabaseServer.rpc('explode_bom', {
         p_product_id: productId,
         p_qty: qty,
+        p_bom_id: bomId ?? null,
+        p_size_id: variant?.size_id ?? null,
+        p_color_id: variant?.color_id ?? null,
     });
 
     if (error) throw error;
     return data || [];
 }
 
+/**
+ * Flattens an explosion into what the order consumes, summed per material or stocked
+ * sub-assembly (the same component can be reached through several phantoms).
+ * 
+ * @param rows - Rows returned by {@link explodeBOM}
+ * @returns Requirements in order of first appearance
+ */
+export function summarizeBOMRequirements(rows: BOMExplosionRow[]): BOMRequirement[] {
+    const requirements = new Map<string, BOMRequirement>();
+
+    for (const row of rows) {
+        if (!row.is_requirement) continue;
+
+        const key = row.material_id ?? row.component_product_id ?? row.bom_line_id;
+        const existing = requirements.get(key);
+
+        if (existing) {
+            existing.total_qty = Math.round((existing.total_qty + Number(row.total_qty)) * 10000) / 10000;
+        } else {
+            requirements.set(key, {
+                material_id: row.material_id,
+                component_product_id: row.component_product_id,
+                code: row.material_code ?? row.product_code ?? '',
+                name: row.material_name ?? row.product_name ?? '',
+                uom: row.uom,
+                total_qty: Number(row.total_qty),
+            });
+        }
+    }
+
+    return [...requirements.values()];
+}
+
+/**
+ * Replaces the size rules and color substitutions of a BOM line.
+ * 
+ * **Variant Matrix:**
+ * - Size rule: qty_per for that size (XXL 1.1m, S 0.7m fabric); other sizes use the line qty_per
+ * - Color substitution: material for that color (black thread on black shirts); material lines only
+ * 
+ * @param bomLineId - UUID of the BOM line
+ * @param sizeRules - Quantity per size
+ * @param substitutions - Material per color
+ * 
+ * @throws {BusinessRuleError} If a size or color appears twice, or a quantity is not positive
+ * @throws {Error} If the line is not a material line and substitutions are given
+ * @returns Promise that resolves when the rules are saved
+ * 
+ * @example
+ * ```typescript
+ * await setBOMLineVariantRules(fabricLineId, [
+ *   { size_id: sizeS, qty_per: 0.7 },
+ *   { size_id: sizeXXL, qty_per: 1.1 },
+ * ], []);
+ * 
+ * await setBOMLineVariantRules(threadLineId, [], [
+ *   { color_id: black, material_id: blackThreadId },
+ * ]);
+ * ```
+ */
+export async function setBOMLineVariantRules(
+    bomLineId: string,
+    sizeRules: BOMSizeRule[],
+    substitutions: BOMColorSubstitution[]
+): Promise<void> {
+    if (new Set(sizeRules.map(r => r.size_id)).size !== sizeRules.length) {
+        throw new BusinessRuleError('A size can only have one rule per BOM line');
+    }
+    if (sizeRules.some(r => r.qty_per <= 0)) {
+        throw new BusinessRuleError('Size quantities must be greater than zero');
+    }
+    if (new Set(substitutions.map(s => s.color_id)).size !== substitutions.length) {
+        throw new BusinessRuleError('A color can only have one substitution per BOM line');
+    }
+
+    const { error: deleteRulesError } = await supabaseServer
+        .from('bom_line_size_rules')
+        .delete()
+        .eq('bom_line_id', bomLineId);
+
+    if (deleteRulesError) throw deleteRulesError;
+
+    const { error: deleteSubsError } = await supabaseServer
+        .from('bom_line_color_substitutions')
+        .delete()
+        .eq('bom_line_id', bomLineId);
+
+    if (deleteSubsError) throw deleteSubsError;
+
+    if (sizeRules.length > 0) {
+        const { error } = await supabaseServer
+            .from('bom_line_size_rules')
+            .insert(sizeRules.map(r => ({ bom_line_id: bomLineId, size_id: r.size_id, qty_per: r.qty_per })));
+
+        if (error) throw error;
+    }
+
+    if (substitutions.length > 0) {
+        const { error } = await supabaseServer
+            .from('bom_line_color_substitutions')
+            .insert(substitutions.map(s => ({ bom_line_id: bomLineId, color_id: s.color_id, material_id: s.material_id })));
+
+        if (error) throw error;
+    }
+}
+
+/**
+ * Validates a BOM routing.
+ * 
+ * @param steps - Routing steps
+ * @returns Error messages, empty when the routing is valid
+ */
+export function validateRoutingSteps(steps: BOMRoutingStep[]): string[] {
+    const errors: string[] = [];
+    const stageOrder = ['CUT', 'SEW', 'FINISH'];
+
+    if (steps.some(s => !Number.isInteger(s.sequence) || s.sequence <= 0)) {
+        errors.push('Sequences must be positive whole numbers');
+    }
+
+    if (new Set(steps.map(s => s.sequence)).size !== steps.length) {
+        errors.push('Each sequence can only be used once');
+    }
+
+    if (steps.some(s => s.setup_minutes < 0 || (s.run_minutes ?? 0) < 0)) {
+        errors.push('Setup and run times cannot be negative');
+    }
+
+    const sorted = [...steps].sort((a, b) => a.sequence - b.sequence);
+    if (sorted.some((s, i) => i > 0 && stageOrder.indexOf(s.stage) < stageOrder.indexOf(sorted[i - 1].stage))) {
+        errors.push('Stages must follow the routing order (CUT, SEW, FINISH)');
+    }
+
+    return errors;
+}
+
+/**
+ * Work center minutes of a routing step for a quantity: setup once plus run time per unit.
+ * 
+ * @param step - Routing step
+ * @param qty - Quantity of the production order
+ * @param standardTimeMinutes - Standard time of the step's operation, used without a run time
+ */
+export function routingStepMinutes(
+    step: Pick<BOMRoutingStep, 'setup_minutes' | 'run_minutes'>,
+    qty: number,
+    standardTimeMinutes = 0
+): number {
+    return step.setup_minutes + (step.run_minutes ?? standardTimeMinutes) * qty;
+}
+
+/**
+ * Retrieves the routing of a BOM version in sequence order.
+ * 
+ * @param bomId - UUID of the BOM version
+ * @returns Promise resolving to steps with operation and work center
+ */
+export async function getBOMRouting(bomId: string): Promise<any[]> {
+    const { data, error } = await supabaseServer
+        .from('bom_routing_steps')
+        .select(`
+      *,
+      operation:operations(name, standard_time_minutes, work_center_id),
+      work_center:work_centers(code, name)
+    `)
+        .eq('bom_id', bomId)
+        .order('sequence');
+
+    if (error) throw error;
+    return data || [];
+}
+
+/**
+ * Replaces the routing of a BOM version.
+ * 
+ * Production orders released afterwards get one work order per step
+ * (see {@link generateRoutingWorkOrders}); existing work orders are not changed.
+ * 
+ * @param bomId - UUID of the BOM version
+ * @param steps - Operations in sequence with setup and per-unit run times
+ * 
+ * @throws {BusinessRuleError} If sequences repeat, times are negative or stages go backwards
+ * @returns Promise that resolves when the routing is saved
+ * 
+ * @example
+ * ```typescript
+ * await setBOMRouting(bomId, [
+ *   { sequence: 10, operation_id: cutting, stage: 'CUT', setup_minutes: 30, run_minutes: 2 },
+ *   { sequence: 20, operation_id: stitching, stage: 'SEW', setup_minutes: 15, run_minutes: 12 },
+ *   { sequence: 30, operation_id: packing, stage: 'FINISH', setup_minutes: 0 },  // operation standard time
+ * ]);
+ * ```
+ */
+export async function setBOMRouting(bomId: string, steps: BOMRoutingStep[]): Promise<void> {
+    const errors = validateRoutingSteps(steps);
+    if (errors.length > 0) {
+        throw new BusinessRuleError(errors.join('; '));
+    }
+
+    const { error: deleteError } = await supabaseServer
+        .from('bom_routing_steps')
+        .delete()
+        .eq('bom_id', bomId);
+
+    if (deleteError) throw deleteError;
+
+    if (steps.length > 0) {
+        const { error } = await supabaseServer
+            .from('bom_routing_steps')
+            .insert(steps.map(s => ({
+                bom_id: bomId,
+                sequence: s.sequence,
+                operation_id: s.operation_id,
+                work_center_id: s.work_center_id ?? null,
+                stage: s.stage,
+                setup_minutes: s.setup_minutes,
+                run_minutes: s.run_minutes ?? null,
+                notes: s.notes,
+            })));
+
+        if (error) throw error;
+    }
+}
+
 /**
  * Deactivates a BOM version (makes it inactive).
  * 
@@ -425,7 +778,10 @@ export async function deactivateBOM(bomId: string): Promise<void> {
  * @param po.due_date - Expected completion date
  * @param po.standard_cost - Optional standard cost per unit
  * @param userId - UUID of user creating PO
+ * @param variants - Optional size / color mix; qty_planned becomes its total and
+ *   reservations are exploded per variant
  * 
+ * @throws {BusinessRuleError} If the variant mix is invalid
  * @throws {Error} If period is closed
  * @throws {Error} If BOM not active
  * @throws {Error} If database insert fails
@@ -450,6 +806,12 @@ export async function deactivateBOM(bomId: string): Promise<void> {
  * 
  * // Auto-created: Material reservations for 80m fabric, etc.
  * 
+ * // Or a size / color mix: 40 S-Black + 60 XXL-White
+ * await createProductionOrder({ ...order, qty_planned: 100 }, userId, [
+ *   { product_variant_id: sBlackId, qty_planned: 40 },
+ *   { product_variant_id: xxlWhiteId, qty_planned: 60 },
+ * ]);
+ * 
  * // Check material availability
  * const mrp = await calculateMRP(productionOrder.id);
  * 
@@ -462,18 +824,42 @@ export async function deactivateBOM(bomId: string): Promise<void> {
  */
 export async function createProductionOrder(
     po: ProductionOrder,
-    userId: string
+    userId: string,
+    variants?: ProductionOrderVariant[]
 ): Promise<ProductionOrder> {
     await validatePeriodIsOpen(po.period_id);
 
+    if (variants && variants.length > 0) {
+        const errors = validateVariantMix(variants);
+        if (errors.length > 0) {
+            throw new BusinessRuleError(errors.join('; '));
+        }
+    }
+
+    const qtyPlanned = variants && variants.length > 0
+        ? variants.reduce((sum, v) => sum + v.qty_planned, 0)
+        : po.qty_planned;
+
     const { data, error } = await supabaseServer
         .from('production_orders')
-        .insert({ ...po, created_by: userId })
+        .insert({ ...po, qty_planned: qtyPlanned, created_by: userId })
         .select()
         .single();
 
     if (error) throw error;
 
+    if (variants && variants.length > 0) {
+        const { error: variantsError } = await supabaseServer
+            .from('production_order_variants')
+            .insert(variants.map(v => ({
+                production_order_id: data.id,
+                product_variant_id: v.product_variant_id,
+                qty_planned: v.qty_planned,
+            })));
+
+        if (variantsError) throw variantsError;
+    }
+
     // Auto-create material reservations
     await supabaseServer.rpc('create_production_reservations', {
         p_production_order_id: data.id,
@@ -482,6 +868,47 @@ export async function createProductionOrder(
     return data;
 }
 
+/**
+ * Validates the size / color mix of a production order.
+ * 
+ * @param variants - Variant quantities
+ * @returns Error messages, empty when the mix is valid
+ */
+export function validateVariantMix(variants: ProductionOrderVariant[]): string[] {
+    const errors: string[] = [];
+
+    if (variants.some(v => !(v.qty_planned > 0))) {
+        errors.push('Variant quantities must be greater than zero');
+    }
+
+    if (new Set(variants.map(v => v.product_variant_id)).size !== variants.length) {
+        errors.push('Each variant can only appear once in the mix');
+    }
+
+    return errors;
+}
+
+/**
+ * Exact material needs of a production order per variant of its mix.
+ * 
+ * Each variant is exploded with its size rules and color substitutions, so an
+ * XXL-Black row needs more fabric and black thread where S-White needs white.
+ * Orders without a mix return one set of rows with product_variant_id null.
+ * 
+ * @param poId - UUID of the production order
+ * @returns Promise resolving to requirement rows per variant
+ * 
+ * @see {@link createProductionOrder} for reservations summed from these rows
+ */
+export async function getProductionOrderMaterialNeeds(poId: string): Promise<VariantMaterialNeed[]> {
+    const { data, error } = await supabaseServer.rpc('explode_production_order', {
+        p_production_order_id: poId,
+    });
+
+    if (error) throw error;
+    return data || [];
+}
+
 /**
  * Retrieves production order with all details.
  * 
@@ -558,6 +985,7 @@ export async function getProductionOrder(poId: string): Promise<any> {
  * ```
  * 
  * @see {@link explodeBOM} for BOM explosion
+ * @see runMRP in mrp.service for planning all open demand at once
  */
 export async function calculateMRP(poId: string): Promise<any[]> {
     const { data, error } = await supabaseServer.rpc('calculate_mrp', {
@@ -575,7 +1003,7 @@ export async function calculateMRP(poId: string): Promise<any[]> {
  * 1. Checks all materials are available
  * 2. Validates reservations can be fulfilled
  * 3. Changes status: planned → released
- * 4. Ready for work order creation
+ * 4. Generates one work order per step of the BOM routing, if it has one
  * 
  * @param poId - UUID of production order to release
  * @param userId - UUID of user releasing
@@ -609,7 +1037,7 @@ export async function calculateMRP(poId: string): Promise<any[]> {
  * ```
  * 
  * @see {@link calculateMRP} for checking availability
- * @see {@link createWorkOrder} for next step
+ * @see {@link generateRoutingWorkOrders} for the generated work orders
  */
 export async function releaseProductionOrder(poId: string, userId: string): Promise<void> {
     const { error } = await supabaseServer.rpc('release_production_order', {
@@ -620,6 +1048,36 @@ export async function releaseProductionOrder(poId: string, userId: string): Prom
     if (error) throw error;
 }
 
+/**
+ * Creates the work orders of a production order from the routing of its BOM version.
+ * 
+ * Called by release; use it directly for orders released before their BOM had a routing.
+ * Each step becomes a pending work order `<po_number>-<sequence>` for the full order
+ * quantity, with the step's work center and setup + run × qty planned minutes.
+ * Orders that already have work orders are left alone.
+ * 
+ * @param poId - UUID of the production order
+ * @param userId - UUID of the user
+ * @returns Number of work orders created
+ * 
+ * @example
+ * ```typescript
+ * // PO-031, 200 pcs, routing 10 Cutting / 20 Sewing / 30 Packing
+ * await generateRoutingWorkOrders(poId, userId); // 3
+ * // PO-031-010 (CUT), PO-031-020 (SEW), PO-031-030 (FINISH)
+ * // PO-031-020 cannot start before PO-031-010 is completed
+ * ```
+ */
+export async function generateRoutingWorkOrders(poId: string, userId: string): Promise<number> {
+    const { data, error } = await supabaseServer.rpc('generate_routing_work_orders', {
+        p_production_order_id: poId,
+        p_user_id: userId,
+    });
+
+    if (error) throw error;
+    return data as number;
+}
+
 /**
  * Retrieves all production orders with optional status filter.
  * 
@@ -709,6 +1167,7 @@ export async function closeProductionOrder(poId: string, userId: string): Promis
  * @param wo.stage - Production stage (CUT/SEW/FINISH)
  * @param wo.qty_started - Quantity starting this stage
  * @param wo.operator_id - Optional UUID of assigned operator
+ * @param wo.operation_id - Optional UUID of the operation (work center and time for scheduling)
  * @param userId - UUID of user creating WO
  * 
  * @throws {Error} If production order not released
@@ -764,9 +1223,13 @@ export async function createWorkOrder(wo: WorkOrder, userId: string): Promise<Wo
  * Changes status from draft to in_progress.
  * Records start time for labor costing.
  * 
+ * Work orders generated from a routing start only after every lower
+ * sequence of their production order is completed.
+ * 
  * @param woId - UUID of work order to start
  * @param userId - UUID of operator starting WO
  * 
+ * @throws {Error} If a predecessor routing step is not completed
  * @throws {Error} If update fails
  * @returns Promise that resolves when started
  * 
@@ -931,6 +1394,186 @@ export async function getWorkOrderSummary(companyId: string): Promise<any[]> {
     return data || [];
 }
 
+// ==================== SCHEDULING ====================
+
+/**
+ * Schedules all open work orders on finite work center capacity (RPC `schedule_work_orders`).
+ * 
+ * **Finite-Capacity Scheduling:**
+ * - Load: operation standard time × outstanding quantity, on the operation's work center
+ * - Capacity: `capacity_per_day` hours on the work center's working days, overridden per day
+ *   by `work_center_calendar` (holidays, overtime, maintenance)
+ * - Production orders by priority (1 first), then due date; their work orders stage after stage
+ *   (CUT → SEW → FINISH)
+ * - **Forward:** as soon as possible from today
+ * - **Backward:** as late as possible, ending on the production due date; an order that does not
+ *   fit between today and its due date is scheduled forward instead and finishes late
+ * - Work orders moved by hand ({@link rescheduleWorkOrder}) stay put unless `includeLocked`
+ * 
+ * @param companyId - UUID of the company
+ * @param direction - 'forward' or 'backward'
+ * @param userId - UUID of the planner
+ * @param includeLocked - Also reschedule work orders moved by hand
+ * 
+ * @throws {Error} If a work center has no free capacity within a year
+ * @returns Promise resolving to the number of scheduled work orders
+ * 
+ * @example
+ * ```typescript
+ * // SEW-01 runs 8 h Mon-Sat; WO-SEW-001 needs 100 pcs × 12 min = 1200 min
+ * await scheduleWorkOrders(companyId, 'backward', plannerId);
+ * // Due Sat 2025-03-15 → booked Sat 480 min, Fri 480, Thu 240 (starts Thu 2025-03-13)
+ * 
+ * const load = await getWorkCenterLoad(companyId, '2025-03-10', '2025-03-22');
+ * const overloads = summarizeOverloads(load);
+ * ```
+ * 
+ * @see {@link getWorkCenterLoad} for the load chart
+ */
+export async function scheduleWorkOrders(
+    companyId: string,
+    direction: 'forward' | 'backward',
+    userId: string,
+    includeLocked = false
+): Promise<number> {
+    const { data, error } = await supabaseServer.rpc('schedule_work_orders', {
+        p_company_id: companyId,
+        p_direction: direction,
+        p_user_id: userId,
+        p_include_locked: includeLocked,
+    });
+
+    if (error) throw error;
+    return data ?? 0;
+}
+
+/**
+ * Moves a work order to a new start day and locks it there (drag-to-reschedule).
+ * 
+ * Books the work order at the full daily capacity of its work center regardless of what else
+ * is booked, so the move can overload the work center; {@link summarizeOverloads} reports it.
+ * 
+ * @param woId - UUID of the work order
+ * @param startDate - New first day (YYYY-MM-DD)
+ * @param userId - UUID of the planner
+ * 
+ * @throws {Error} If the work order is not pending or in progress, or has no work center
+ * @returns Promise resolving to the new last day
+ */
+export async function rescheduleWorkOrder(woId: string, startDate: string, userId: string): Promise<string> {
+    const { data, error } = await supabaseServer.rpc('reschedule_work_order', {
+        p_work_order_id: woId,
+        p_start_date: startDate,
+        p_user_id: userId,
+    });
+
+    if (error) throw error;
+    return data;
+}
+
+/**
+ * Capacity and booked load per active work center and day.
+ * 
+ * @param companyId - UUID of the company
+ * @param from - First day (YYYY-MM-DD)
+ * @param to - Last day (YYYY-MM-DD)
+ * @returns Promise resolving to one row per work center and day
+ */
+export async function getWorkCenterLoad(companyId: string, from: string, to: string): Promise<WorkCenterLoadDay[]> {
+    const { data, error } = await supabaseServer.rpc('work_center_load', {
+        p_company_id: companyId,
+        p_from: from,
+        p_to: to,
+    });
+
+    if (error) throw error;
+    return data || [];
+}
+
+/**
+ * Sets the capacity of a day: a holiday (0 hours), overtime or maintenance.
+ * 
+ * @param companyId - UUID of the company
+ * @param workCenterId - UUID of the work center, or null for every work center
+ * @param date - Calendar day (YYYY-MM-DD)
+ * @param capacityHours - Hours available that day
+ * @param reason - Optional reason ('Idul Fitri', 'Overtime')
+ * 
+ * @throws {BusinessRuleError} If capacityHours is negative
+ */
+export async function setWorkCenterCalendarDay(
+    companyId: string,
+    workCenterId: string | null,
+    date: string,
+    capacityHours: number,
+    reason?: string
+): Promise<void> {
+    if (capacityHours < 0) {
+        throw new BusinessRuleError('Capacity hours cannot be negative');
+    }
+
+    await removeWorkCenterCalendarDay(companyId, workCenterId, date);
+
+    const { error } = await supabaseServer
+        .from('work_center_calendar')
+        .insert({
+            company_id: companyId,
+            work_center_id: workCenterId,
+            calendar_date: date,
+            capacity_hours: capacityHours,
+            reason,
+        });
+
+    if (error) throw error;
+}
+
+/**
+ * Removes a calendar exception; the day falls back to the working-day capacity.
+ */
+export async function removeWorkCenterCalendarDay(
+    companyId: string,
+    workCenterId: string | null,
+    date: string
+): Promise<void> {
+    let query = supabaseServer
+        .from('work_center_calendar')
+        .delete()
+        .eq('company_id', companyId)
+        .eq('calendar_date', date);
+
+    query = workCenterId ? query.eq('work_center_id', workCenterId) : query.is('work_center_id', null);
+
+    const { error } = await query;
+    if (error) throw error;
+}
+
+/**
+ * Overloaded days per work center, worst work center first.
+ * 
+ * @param load - Rows returned by {@link getWorkCenterLoad}
+ * @returns Work centers with at least one day loaded beyond capacity
+ */
+export function summarizeOverloads(load: WorkCenterLoadDay[]): WorkCenterOverload[] {
+    const overloads = new Map<string, WorkCenterOverload>();
+
+    for (const day of load) {
+        const excess = Math.round((Number(day.loaded_minutes) - Number(day.capacity_minutes)) * 100) / 100;
+        if (excess <= 0) continue;
+
+        const overload = overloads.get(day.work_center_id) ?? {
+            work_center_id: day.work_center_id,
+            work_center_code: day.work_center_code,
+            days: [],
+            excess_minutes: 0,
+        };
+        overload.days.push({ load_date: day.load_date, excess_minutes: excess });
+        overload.excess_minutes = Math.round((overload.excess_minutes + excess) * 100) / 100;
+        overloads.set(day.work_center_id, overload);
+    }
+
+    return [...overloads.values()].sort((a, b) => b.excess_minutes - a.excess_minutes);
+}
+
 // ==================== TIME TRACKING ====================
 
 /**
@@ -0,0 +1,495 @@
+/**
+ * Purchase Return Service
+ * Goods returned to a vendor after the GRN was posted (retur pembelian)
+ *
+ * **Return Workflow:**
+ * 1. Create return against a posted GRN with the returned GRN lines ({@link createPurchaseReturn}),
+ *    or from the quantities rejected on incoming inspection ({@link createPurchaseReturnFromRejections})
+ * 2. Post ({@link postPurchaseReturn}) → goods issued out of stock at the received cost,
+ *    vendor debit note issued, and inventory / AP reversed in the general ledger
+ * 3. Apply the debit note against open vendor invoices ({@link allocateDebitNote})
+ *
+ * **Costing:**
+ * Returned goods leave at the GRN line cost, not the running average. Under FIFO the
+ * quantity is taken out of the layers the GRN created, then out of the oldest layers.
+ */
+import { supabaseServer } from '../config/supabase';
+import { getMappedAccountCodes } from './coa.service';
+import { calculateRealizedFx, convertToBase } from './currency.service';
+import { BusinessRuleError, ValidationError } from './error.service';
+import { createJournal, JournalLine } from './journal.service';
+import { validatePeriodIsOpen } from './period.service';
+
+// ==================== TYPES ====================
+
+export type PurchaseReturnStatus = 'draft' | 'posted' | 'void';
+export type DebitNoteStatus = 'open' | 'partial' | 'applied' | 'void';
+
+export interface PurchaseReturn {
+    id?: string;
+    company_id: string;
+    return_number: string;
+    return_date: string;
+    grn_id: string;
+    vendor_id: string;
+    warehouse_id: string;
+    period_id: string;
+    currency?: string;
+    exchange_rate?: number;
+    return_reason?: string;
+    notes?: string;
+}
+
+export interface PurchaseReturnLine {
+    id?: string;
+    return_id?: string;
+    line_number: number;
+    grn_line_id: string;
+    qty_returned: number;
+    unit_price?: number;  // Document currency; defaults to the PO price
+    bin_id?: string;      // Defaults to the bin the GRN line was received into
+    tax_code_id?: string;
+    return_reason?: string;
+    notes?: string;
+}
+
+export interface PostedPurchaseReturn extends PurchaseReturn {
+    id: string;
+    status: PurchaseReturnStatus;
+    subtotal: number;
+    tax_amount: number;
+    total_amount: number;
+    total_cost: number;
+    journal_id: string | null;
+    lines?: (PurchaseReturnLine & { material_id: string; unit_cost: number; line_total: number })[];
+}
+
+export interface VendorDebitNote {
+    id: string;
+    company_id: string;
+    debit_note_number: string;
+    debit_note_date: string;
+    vendor_id: string;
+    return_id: string | null;
+    period_id: string;
+    currency: string;
+    exchange_rate: number;
+    subtotal: number;
+    tax_amount: number;
+    total_amount: number;
+    amount_applied: number;
+    amount_open: number;
+    status: DebitNoteStatus;
+    journal_id: string | null;
+}
+
+export interface DebitNoteAllocation {
+    id: string;
+    debit_note_id: string;
+    invoice_id: string;
+    allocation_date: string;
+    amount_allocated: number;
+    invoice_rate: number;
+    debit_note_rate: number;
+    realized_fx_amount: number;
+    journal_id: string | null;
+}
+
+// ==================== PURCHASE RETURNS ====================
+
+/**
+ * Creates a purchase return with its lines.
+ *
+ * Material, bin, received cost, price and tax code default from the GRN line and its
+ * PO line. The database rejects lines from another GRN and quantities above what was
+ * received less earlier returns (`apply_purchase_return_line`).
+ *
+ * @param header - Return header; currency and rate should match the PO
+ * @param lines - Returned GRN lines
+ * @param userId - UUID of user creating the return
+ *
+ * @throws {ValidationError} If no lines are given
+ * @throws {Error} If period is closed or quantities exceed the GRN
+ * @returns Promise resolving to created return
+ *
+ * @example
+ * ```typescript
+ * const purchaseReturn = await createPurchaseReturn({
+ *   company_id: companyId,
+ *   return_number: 'PR-2025-001',
+ *   return_date: '2025-01-20',
+ *   grn_id: grnId,
+ *   vendor_id: vendorId,
+ *   warehouse_id: warehouseId,
+ *   period_id: periodId,
+ *   return_reason: 'DEFECTIVE'
+ * }, [
+ *   { line_number: 1, grn_line_id: grnLineId, qty_returned: 40, notes: 'Dye streaks' }
+ * ], userId);
+ *
+ * await postPurchaseReturn(purchaseReturn.id, userId);
+ * ```
+ */
+export async function createPurchaseReturn(
+    header: PurchaseReturn,
+    lines: PurchaseReturnLine[],
+    userId: string
+): Promise<PurchaseReturn> {
+    if (!lines.length) {
+        throw new ValidationError('Purchase return has no lines');
+    }
+
+    await validatePeriodIsOpen(header.period_id);
+
+    const { data: purchaseReturn, error } = await supabaseServer
+        .from('purchase_returns')
+        .insert({ ...header, status: 'draft', created_by: userId })
+        .select()
+        .single();
+
+    if (error) throw error;
+
+    const { error: linesError } = await supabaseServer
+        .from('purchase_return_lines')
+        .insert(lines.map(line => ({ ...line, return_id: purchaseReturn.id })));
+
+    if (linesError) {
+        // Rollback header if lines fail
+        await supabaseServer.from('purchase_returns').delete().eq('id', purchaseReturn.id);
+        throw linesError;
+    }
+
+    return purchaseReturn;
+}
+
+/**
+ * Creates a draft purchase return of the quantities rejected on incoming inspection of a GRN.
+ *
+ * Via RPC `create_purchase_return_from_rejections`: one line per inspected GRN line with
+ * rejected quantity not yet returned, issued from the quarantine bin it is held in, with
+ * the defect reason as the line reason. The header takes the PO currency and rate and
+ * `QUALITY_REJECTED` as the return reason.
+ *
+ * @param grnId - UUID of the inspected GRN
+ * @param userId - UUID of user creating the return
+ *
+ * @throws {Error} If the GRN has no rejected quantity left to return
+ * @throws {Error} If there is no open accounting period
+ * @returns Promise resolving to the draft return ID
+ *
+ * @see {@link postPurchaseReturn} to issue the goods and debit note
+ */
+export async function createPurchaseReturnFromRejections(grnId: string, userId: string): Promise<string> {
+    const { data, error } = await supabaseServer.rpc('create_purchase_return_from_rejections', {
+        p_grn_id: grnId,
+        p_user_id: userId,
+    });
+
+    if (error) throw error;
+    return data;
+}
+
+/**
+ * Posts a purchase return to inventory, the vendor subledger and general ledger.
+ *
+ * **This function:**
+ * 1. Calls RPC `post_purchase_return`, which issues each line out of `raw_material_ledger`
+ *    at the GRN cost, issues the vendor debit note and marks the return 'posted'
+ * 2. Creates the reversal journal in base currency:
+ *    - DR Accounts Payable — return value incl. VAT at the return rate
+ *    - CR Raw Materials Inventory — received cost of the returned goods
+ *    - CR VAT Input — VAT on the returned goods
+ *    - DR/CR Purchase Price Variance — difference between price and received cost
+ *
+ * @param returnId - UUID of return to post
+ * @param userId - UUID of user posting the return
+ *
+ * @throws {Error} If the return is not in draft or the GRN is not posted
+ * @throws {Error} If an account mapping is missing (checked before anything is posted)
+ * @returns Created journal ID and number
+ *
+ * @example
+ * ```typescript
+ * // 40 m returned at 48,000 + 11% VAT, received at 48,000:
+ * // Dr. Accounts Payable          2,131,200
+ * // Cr. Raw Materials Inventory   1,920,000
+ * // Cr. VAT Input                   211,200
+ * ```
+ */
+export async function postPurchaseReturn(
+    returnId: string,
+    userId: string
+): Promise<{ id: string; journal_number: string }> {
+    const draft = await getPurchaseReturn(returnId);
+
+    // Resolved before posting: a posted return cannot be posted again to add its journal
+    const accounts = await getMappedAccountCodes(draft.company_id, [
+        'ACCOUNTS_PAYABLE',
+        'INVENTORY_RAW_MATERIALS',
+        'VAT_INPUT',
+        'PURCHASE_PRICE_VARIANCE',
+    ]);
+
+    const { data: debitNoteId, error: postError } = await supabaseServer.rpc('post_purchase_return', {
+        p_return_id: returnId,
+        p_user_id: userId,
+    });
+
+    if (postError) throw postError;
+
+    const purchaseReturn = await getPurchaseReturn(returnId);
+
+    const journal = await createJournal({
+        company_id: purchaseReturn.company_id,
+        period_id: purchaseReturn.period_id,
+        journal_number: `JE-${purchaseReturn.return_number}`,
+        journal_date: purchaseReturn.return_date,
+        description: `Purchase return ${purchaseReturn.return_number}`,
+        reference_type: 'PURCHASE_RETURN',
+        reference_id: purchaseReturn.id,
+    }, buildPurchaseReturnJournalLines(purchaseReturn, {
+        payable: accounts.ACCOUNTS_PAYABLE,
+        inventory: accounts.INVENTORY_RAW_MATERIALS,
+        vatInput: accounts.VAT_INPUT,
+        priceVariance: accounts.PURCHASE_PRICE_VARIANCE,
+    }), userId);
+
+    const [returnUpdate, debitNoteUpdate] = await Promise.all([
+        supabaseServer.from('purchase_returns').update({ journal_id: journal.id }).eq('id', returnId),
+        supabaseServer.from('vendor_debit_notes').update({ journal_id: journal.id }).eq('id', debitNoteId),
+    ]);
+
+    if (returnUpdate.error) throw returnUpdate.error;
+    if (debitNoteUpdate.error) throw debitNoteUpdate.error;
+    return journal;
+}
+
+/**
+ * Builds balanced purchase return journal lines. Document amounts are converted at the
+ * return rate; any difference to the received cost goes to purchase price variance.
+ * Zero amounts are omitted.
+ */
+export function buildPurchaseReturnJournalLines(
+    purchaseReturn: { subtotal: number; tax_amount: number; total_cost: number; exchange_rate?: number | null },
+    accounts: { payable: string; inventory: string; vatInput: string; priceVariance: string }
+): JournalLine[] {
+    const rate = Number(purchaseReturn.exchange_rate || 1);
+    const net = convertToBase(purchaseReturn.subtotal, rate);
+    const tax = convertToBase(purchaseReturn.tax_amount, rate);
+    const cost = Number(purchaseReturn.total_cost);
+    const variance = Math.round((net - cost) * 100) / 100;
+
+    const journalLines: JournalLine[] = [
+        { account_code: accounts.payable, debit: net + tax, credit: 0, description: 'Debit note to vendor' },
+        { account_code: accounts.inventory, debit: 0, credit: cost, description: 'Goods returned to vendor' },
+        { account_code: accounts.vatInput, debit: 0, credit: tax, description: 'Reverse input VAT' },
+        {
+            account_code: accounts.priceVariance,
+            debit: variance < 0 ? -variance : 0,
+            credit: variance > 0 ? variance : 0,
+            description: 'Return price vs received cost',
+        },
+    ];
+
+    return journalLines.filter(line => line.debit > 0 || line.credit > 0);
+}
+
+/**
+ * Retrieves a purchase return with lines, GRN and debit note.
+ *
+ * @param returnId - UUID of the return
+ * @throws {Error} If return not found
+ */
+export async function getPurchaseReturn(returnId: string): Promise<PostedPurchaseReturn> {
+    const { data, error } = await supabaseServer
+        .from('purchase_returns')
+        .select(`
+      *,
+      grn:goods_receipt_notes(grn_number),
+      vendor:vendors(name),
+      debit_note:vendor_debit_notes(debit_note_number, total_amount, amount_open, status),
+      lines:purchase_return_lines(*, material:materials(code, name), bin:bins(code))
+    `)
+        .eq('id', returnId)
+        .single();
+
+    if (error) throw error;
+    return data;
+}
+
+/**
+ * Lists purchase returns for a company, newest first.
+ */
+export async function getPurchaseReturns(companyId: string): Promise<PostedPurchaseReturn[]> {
+    const { data, error } = await supabaseServer
+        .from('purchase_returns')
+        .select('*, grn:goods_receipt_notes(grn_number), vendor:vendors(name)')
+        .eq('company_id', companyId)
+        .order('return_date', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+}
+
+/**
+ * Voids a draft purchase return. Posted returns are settled through their debit note.
+ *
+ * @throws {BusinessRuleError} If the return is already posted
+ */
+export async function voidPurchaseReturn(returnId: string): Promise<void> {
+    const { data: purchaseReturn, error: fetchError } = await supabaseServer
+        .from('purchase_returns')
+        .select('status')
+        .eq('id', returnId)
+        .single();
+
+    if (fetchError) throw fetchError;
+    if (purchaseReturn.status === 'posted') {
+        throw new BusinessRuleError('Posted purchase returns cannot be voided');
+    }
+
+    const { error } = await supabaseServer
+        .from('purchase_returns')
+        .update({ status: 'void' })
+        .eq('id', returnId);
+
+    if (error) throw error;
+}
+
+// ==================== DEBIT NOTES ====================
+
+/**
+ * Lists open debit notes of a vendor, oldest first.
+ */
+export async function getOpenDebitNotes(vendorId: string): Promise<VendorDebitNote[]> {
+    const { data, error } = await supabaseServer
+        .from('vendor_debit_notes')
+        .select('*')
+        .eq('vendor_id', vendorId)
+        .in('status', ['open', 'partial'])
+        .order('debit_note_date', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+}
+
+/**
+ * Applies a debit note against an open vendor invoice.
+ *
+ * The allocation counts towards the invoice's amount_paid, so its outstanding
+ * balance and AP aging drop like a payment. The database checks vendor, currency
+ * and that the amount fits both documents (`validate_debit_note_allocation`).
+ *
+ * When the invoice and debit note rates differ, the AP difference is posted to
+ * realized FX (loss when the debit note rate is higher).
+ *
+ * @param debitNoteId - UUID of the debit note
+ * @param invoiceId - UUID of the vendor invoice
+ * @param amount - Amount applied, in the document currency
+ * @param options.allocation_date - Date of the allocation
+ * @param options.period_id - Period for the FX journal
+ * @param userId - UUID of user applying the note
+ *
+ * @throws {BusinessRuleError} If the debit note is void or currencies differ
+ * @throws {Error} If period is closed or the amount exceeds either document
+ * @returns Created allocation
+ *
+ * @example
+ * ```typescript
+ * // USD 500 debit note at 15,800 applied to an invoice booked at 15,500:
+ * await allocateDebitNote(debitNoteId, invoiceId, 500, { allocation_date: '2025-02-05', period_id }, userId);
+ * // Dr. Realized FX       150,000
+ * // Cr. Accounts Payable  150,000
+ * ```
+ */
+export async function allocateDebitNote(
+    debitNoteId: string,
+    invoiceId: string,
+    amount: number,
+    options: { allocation_date: string; period_id: string },
+    userId: string
+): Promise<DebitNoteAllocation> {
+    const [noteResult, invoiceResult] = await Promise.all([
+        supabaseServer
+            .from('vendor_debit_notes')
+            .select('company_id, debit_note_number, status, currency, exchange_rate')
+            .eq('id', debitNoteId)
+            .single(),
+        supabaseServer
+            .from('vendor_invoices')
+            .select('invoice_number, currency, exchange_rate')
+            .eq('id', invoiceId)
+            .single(),
+    ]);
+
+    if (noteResult.error) throw noteResult.error;
+    if (invoiceResult.error) throw invoiceResult.error;
+
+    const debitNote = noteResult.data;
+    if (debitNote.status === 'void' || debitNote.status === 'applied') {
+        throw new BusinessRuleError(`Debit note ${debitNote.debit_note_number} is ${debitNote.status}`);
+    }
+    const invoice = invoiceResult.data;
+    if (invoice.currency !== debitNote.currency) {
+        throw new BusinessRuleError(
+            `Invoice ${invoice.invoice_number} is in ${invoice.currency}, debit note ${debitNote.debit_note_number} in ${debitNote.currency}`
+        );
+    }
+
+    await validatePeriodIsOpen(options.period_id);
+
+    const realizedFx = calculateRealizedFx(amount, invoice.exchange_rate, debitNote.exchange_rate);
+
+    const { data: allocation, error } = await supabaseServer
+        .from('debit_note_allocations')
+        .insert({
+            debit_note_id: debitNoteId,
+            invoice_id: invoiceId,
+            allocation_date: options.allocation_date,
+            amount_allocated: amount,
+            invoice_rate: invoice.exchange_rate,
+            debit_note_rate: debitNote.exchange_rate,
+            realized_fx_amount: realizedFx,
+            created_by: userId,
+        })
+        .select()
+        .single();
+
+    if (error) throw error;
+    if (realizedFx === 0) return allocation;
+
+    const accounts = await getMappedAccountCodes(debitNote.company_id, ['ACCOUNTS_PAYABLE', 'FX_REALIZED']);
+    const fx = Math.abs(realizedFx);
+    const journal = await createJournal({
+        company_id: debitNote.company_id,
+        period_id: options.period_id,
+        journal_number: `JE-${debitNote.debit_note_number}-${invoice.invoice_number}`,
+        journal_date: options.allocation_date,
+        description: `Debit note ${debitNote.debit_note_number} applied to ${invoice.invoice_number}`,
+        reference_type: 'DEBIT_NOTE_ALLOCATION',
+        reference_id: allocation.id,
+    }, [
+        {
+            account_code: accounts.FX_REALIZED,
+            debit: realizedFx > 0 ? fx : 0,
+            credit: realizedFx < 0 ? fx : 0,
+            description: realizedFx > 0 ? 'Realized FX loss' : 'Realized FX gain',
+        },
+        {
+            account_code: accounts.ACCOUNTS_PAYABLE,
+            debit: realizedFx < 0 ? fx : 0,
+            credit: realizedFx > 0 ? fx : 0,
+            description: 'Debit note rate difference',
+        },
+    ], userId);
+
+    const { data: updated, error: updateError } = await supabaseServer
+        .from('debit_note_allocations')
+        .update({ journal_id: journal.id })
+        .eq('id', allocation.id)
+        .select()
+        .single();
+
+    if (updateError) throw updateError;
+    return updated;
+}
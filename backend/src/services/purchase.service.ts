@@ -6,7 +6,7 @@
  * 1. **Purchase Order (PO):** Request materials from vendor
  * 2. **Goods Receipt Note (GRN):** Receive materials into warehouse
  * 3. **Vendor Invoice:** Vendor bills for materials
- * 4. **Payment:** Pay vendor and settle invoice
+ * 4. **Payment:** Pay vendor and settle invoice, withholding PPh 23 for service vendors
  * 
  * **3-Way Matching:**
  * - PO: What we ordered
@@ -16,7 +16,12 @@
  * Critical for inventory accuracy and financial control.
  */
 import { supabaseServer } from '../config/supabase';
+import { getMappedAccountCodes } from './coa.service';
+import { calculateRealizedFx, convertToBase } from './currency.service';
+import { BusinessRuleError } from './error.service';
+import { createJournal, JournalLine } from './journal.service';
 import { validatePeriodIsOpen } from './period.service';
+import { calculateWithholding, issueWithholdingCertificate, TaxCodeRates } from './tax.service';
 
 // ==================== TYPES ====================
 
@@ -28,7 +33,10 @@ export interface PurchaseOrder {
     vendor_id: string;
     warehouse_id: string;
     period_id: string;
+    /** Defaults to the base currency */
     currency?: string;
+    /** Base currency per unit; defaults to the rate on the PO date */
+    exchange_rate?: number;
     subtotal?: number;
     tax_amount?: number;
     delivery_date?: string;
@@ -44,6 +52,34 @@ export interface POLine {
     qty_ordered: number;
     unit_price: number;
     description?: string;
+    /** Defaults from the vendor/material tax codes */
+    tax_code_id?: string;
+    price_includes_tax?: boolean;
+    /** Set on insert from the vendor price list valid on the PO date */
+    price_list_id?: string | null;
+    contract_price?: number | null;
+}
+
+/** Row of purchase_order_price_deviations_vw */
+export interface POPriceDeviation {
+    po_id: string;
+    po_number: string;
+    po_date: string;
+    po_status: string;
+    vendor_id: string;
+    vendor_name: string;
+    po_line_id: string;
+    material_id: string;
+    material_code: string;
+    material_name: string;
+    qty_ordered: number;
+    unit_price: number;
+    contract_price: number;
+    min_order_qty: number;
+    price_tolerance_pct: number;
+    price_deviation_pct: number | null;
+    is_price_deviation: boolean;
+    is_below_moq: boolean;
 }
 
 export interface GoodsReceiptNote {
@@ -66,7 +102,46 @@ export interface GRNLine {
     material_id: string;
     bin_id: string;
     qty_received: number;
+    /** Base currency: PO price × PO exchange rate on foreign currency orders */
     unit_cost: number;
+    qty_accepted?: number | null;
+    qty_rejected?: number | null;
+    /** Quarantine bin the line is received into when the material requires inspection */
+    qc_bin_id?: string | null;
+    inspection_status?: GRNInspectionStatus;
+    defect_reason?: GRNDefectReason | null;
+    inspection_notes?: string | null;
+}
+
+export type GRNInspectionStatus = 'not_required' | 'pending' | 'accepted' | 'partial' | 'rejected';
+export type GRNDefectReason = 'SHADE_VARIATION' | 'HOLES' | 'STAINS' | 'WIDTH_SHORT' | 'GSM_OFF' | 'WRONG_ITEM' | 'OTHER';
+
+export interface GRNInspectionResult {
+    qty_accepted: number;
+    qty_rejected: number;
+    defect_reason?: GRNDefectReason | null;
+    notes?: string | null;
+}
+
+export interface GRNInspectionQueueItem {
+    company_id: string;
+    grn_id: string;
+    grn_number: string;
+    grn_date: string;
+    po_id: string | null;
+    warehouse_id: string;
+    vendor_id: string;
+    vendor_name: string;
+    grn_line_id: string;
+    material_id: string;
+    material_code: string;
+    material_name: string;
+    unit_of_measure: string;
+    qty_received: number;
+    qc_bin_id: string;
+    qc_bin_code: string;
+    bin_id: string;
+    bin_code: string;
 }
 
 export interface VendorInvoice {
@@ -78,6 +153,10 @@ export interface VendorInvoice {
     vendor_id: string;
     po_id?: string;
     period_id: string;
+    /** Defaults to the PO currency, else the base currency */
+    currency?: string;
+    /** Base currency per unit; defaults to the rate on the invoice date */
+    exchange_rate?: number;
     subtotal?: number;
     tax_amount?: number;
     payment_terms?: string;
@@ -93,6 +172,9 @@ export interface InvoiceLine {
     qty_invoiced: number;
     unit_price: number;
     variance_approved?: boolean;
+    /** Defaults from the PO line, else the vendor/material tax codes */
+    tax_code_id?: string;
+    price_includes_tax?: boolean;
 }
 
 export interface VendorPayment {
@@ -103,17 +185,114 @@ export interface VendorPayment {
     vendor_id: string;
     period_id: string;
     payment_method: 'CASH' | 'BANK_TRANSFER' | 'CHECK' | 'GIRO' | 'CREDIT_CARD';
+    /** Must match the currency of the allocated invoices */
+    currency?: string;
+    /** Base currency per unit; defaults to the rate on the payment date */
+    exchange_rate?: number;
+    /** Cash/bank amount paid in the payment currency, after withholding */
     total_amount: number;
     reference_number?: string;
     notes?: string;
+    /** PPh code withheld; defaults to the vendor's tax profile, null to withhold nothing */
+    withholding_tax_code_id?: string | null;
+    /** Sum of PPh withheld on the allocations (maintained by the database) */
+    withholding_amount?: number;
+    /** The same in rupiah, as owed to the tax office (maintained by the database) */
+    withholding_amount_idr?: number;
+    /** Sum of realized FX on the allocations in base currency (maintained by the database) */
+    realized_fx_amount?: number;
 }
 
 export interface PaymentAllocation {
     payment_id: string;
     invoice_id: string;
+    /** Invoice amount settled, including the PPh withheld */
     amount_allocated: number;
+    withholding_base?: number;
+    withholding_rate?: number;
+    withholding_amount?: number;
+    withholding_base_idr?: number;
+    withholding_amount_idr?: number;
+    invoice_rate?: number;
+    payment_rate?: number;
+    /** Base currency difference between payment and invoice rate: positive is a loss */
+    realized_fx_amount?: number;
+}
+
+export type MatchExceptionType = 'QTY_OVER_RECEIVED' | 'QTY_OVER_ORDERED' | 'PRICE' | 'NO_REFERENCE';
+export type MatchExceptionStatus = 'pending' | 'approved' | 'rejected';
+
+export interface MatchTolerance {
+    qty_tolerance_pct: number;
+    price_tolerance_pct: number;
+    /** Absolute line variance allowed regardless of percentage */
+    price_tolerance_amount: number;
+}
+
+/** What an invoice line is matched against */
+export interface LineMatchInput {
+    qty_invoiced: number;
+    unit_price: number;
+    /** Received qty on the GRN line not yet invoiced elsewhere (null without a GRN line) */
+    uninvoiced_received_qty: number | null;
+    /** Ordered qty on the PO line not yet invoiced elsewhere (null without a PO line) */
+    uninvoiced_ordered_qty: number | null;
+    /** PO price, else GRN cost (null without either) */
+    reference_price: number | null;
+}
+
+export interface MatchExceptionDraft {
+    exception_type: MatchExceptionType;
+    expected_value: number | null;
+    actual_value: number;
+    variance_amount: number;
+    variance_pct: number | null;
+    tolerance_pct: number | null;
+}
+
+export interface MatchException extends MatchExceptionDraft {
+    id: string;
+    company_id: string;
+    invoice_id: string;
+    invoice_line_id: string;
+    status: MatchExceptionStatus;
+    resolved_by: string | null;
+    resolved_at: string | null;
+    resolution_notes: string | null;
+}
+
+/** Row of the approval queue (invoice_match_exceptions_vw) */
+export interface MatchExceptionQueueItem extends MatchException {
+    invoice_number: string;
+    invoice_date: string;
+    vendor_id: string;
+    vendor_name: string;
+    material_id: string;
+    material_code: string;
+    material_name: string;
+    qty_invoiced: number;
+    unit_price: number;
+}
+
+export interface InvoiceMatchResult {
+    invoice_id: string;
+    match_status: 'matched' | 'exception' | 'approved';
+    /** Invoiced quantities at the PO/GRN price */
+    inventory_amount: number;
+    /** Invoice subtotal minus inventory_amount */
+    price_variance: number;
+    exceptions: MatchException[];
 }
 
+/** Used when a company has not configured tolerances (same 5% price rule the entry trigger used to enforce) */
+export const DEFAULT_MATCH_TOLERANCE: MatchTolerance = {
+    qty_tolerance_pct: 0,
+    price_tolerance_pct: 5,
+    price_tolerance_amount: 0,
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
 // ==================== PURCHASE ORDERS ====================
 
 /**
@@ -205,13 +384,13 @@ export async function createPurchaseOrder(po: PurchaseOrder, userId: string): Pr
  * @param line.line_number - Sequential line number (1, 2, 3, ...)
  * @param line.material_id - UUID of material to purchase
  * @param line.qty_ordered - Quantity to order
- * @param line.unit_price - Agreed price per unit (from vendor quote)
+ * @param line.unit_price - Agreed price per unit (default from {@link getVendorPrice})
  * @param line.description - Optional description/specification
  * @param userId - UUID of user adding the line
  * 
  * @throws {Error} If PO not found or already approved
  * @throws {Error} If database insert fails
- * @returns Promise resolving to created line
+ * @returns Promise resolving to created line, with the contract price of its quantity when the vendor has a price list
  * 
  * @example
  * ```typescript
@@ -247,6 +426,27 @@ export async function addPOLine(line: POLine, userId: string): Promise<POLine> {
     return data;
 }
 
+/**
+ * Lists PO lines priced outside the vendor contract tolerance or ordered below the minimum
+ * order quantity, newest first.
+ *
+ * @param companyId - UUID of the company
+ * @param poId - Optional PO to check
+ */
+export async function getPOPriceDeviations(companyId: string, poId?: string): Promise<POPriceDeviation[]> {
+    let query = supabaseServer
+        .from('purchase_order_price_deviations_vw')
+        .select('*')
+        .eq('company_id', companyId)
+        .order('po_date', { ascending: false });
+
+    if (poId) query = query.eq('po_id', poId);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+}
+
 /**
  * Approves purchase order and marks it as sent to vendor.
  * 
@@ -489,6 +689,11 @@ export async function addGRNLine(line: GRNLine, userId: string): Promise<GRNLine
  * 3. Mark GRN as posted
  * 4. Update PO received quantities
  * 
+ * **Incoming Inspection:**
+ * Materials flagged `requires_inspection` (on the material or its category, e.g. fabric
+ * and trims) are received into the warehouse quarantine bin with inspection status
+ * `pending` and only reach `bin_id` once inspected ({@link recordGRNInspection}).
+ * 
  * **Accounting Impact:**
  * - Dr. Raw Material Inventory
  * - Cr. Accounts Payable (or GRN Clearing)
@@ -498,6 +703,7 @@ export async function addGRNLine(line: GRNLine, userId: string): Promise<GRNLine
  * 
  * @throws {Error} If period is closed
  * @throws {Error} If GRN already posted
+ * @throws {Error} If materials need inspection and the warehouse has no quarantine bin
  * @throws {Error} If database RPC fails
  * @returns Promise that resolves when posted
  * 
@@ -553,6 +759,120 @@ export async function getGRN(grnId: string): Promise<any> {
     return data;
 }
 
+// ==================== INCOMING INSPECTION ====================
+
+/**
+ * Validates an inspection result against the received quantity of a GRN line.
+ *
+ * Accepted and rejected must add up to the received quantity, and any rejection
+ * needs a defect reason so it can be carried to the vendor return.
+ *
+ * @param qtyReceived - Quantity received on the GRN line
+ * @param result - Accepted / rejected quantities and defect reason
+ * @returns Error messages (empty when valid)
+ */
+export function validateGRNInspection(qtyReceived: number, result: GRNInspectionResult): string[] {
+    const errors: string[] = [];
+
+    if (result.qty_accepted < 0 || result.qty_rejected < 0) {
+        errors.push('Accepted and rejected quantities cannot be negative');
+    } else if (Math.abs(result.qty_accepted + result.qty_rejected - qtyReceived) > 0.0001) {
+        errors.push(`Accepted and rejected must add up to the received quantity (${qtyReceived})`);
+    }
+
+    if (result.qty_rejected > 0 && !result.defect_reason) {
+        errors.push('A defect reason is required for rejected quantity');
+    }
+
+    return errors;
+}
+
+/**
+ * Inspection status of a line after recording the result.
+ *
+ * @param result - Accepted / rejected quantities
+ * @returns `accepted` when nothing was rejected, `rejected` when nothing was accepted, else `partial`
+ */
+export function getGRNInspectionStatus(result: Pick<GRNInspectionResult, 'qty_accepted' | 'qty_rejected'>): GRNInspectionStatus {
+    if (result.qty_rejected <= 0) return 'accepted';
+    if (result.qty_accepted <= 0) return 'rejected';
+    return 'partial';
+}
+
+/**
+ * Lists posted GRN lines waiting in quarantine for inspection.
+ *
+ * @param companyId - UUID of the company
+ * @param warehouseId - Optional warehouse filter
+ * @returns Promise resolving to pending lines, oldest receipt first
+ */
+export async function getGRNInspectionQueue(companyId: string, warehouseId?: string): Promise<GRNInspectionQueueItem[]> {
+    let query = supabaseServer
+        .from('grn_inspection_queue_vw')
+        .select('*')
+        .eq('company_id', companyId);
+
+    if (warehouseId) query = query.eq('warehouse_id', warehouseId);
+
+    const { data, error } = await query.order('grn_date').order('grn_number');
+
+    if (error) throw error;
+    return data || [];
+}
+
+/**
+ * Records the incoming inspection of a GRN line received into quarantine.
+ *
+ * **Via Database RPC:**
+ * - Accepted quantity is moved from the quarantine bin to the line's put-away bin
+ *   at the received cost (a `QC_INSPECTION` bin move; the cost position is unchanged)
+ * - Rejected quantity stays in quarantine until returned to the vendor
+ *   ({@link createPurchaseReturnFromRejections})
+ *
+ * @param grnLineId - UUID of the GRN line
+ * @param result - Accepted / rejected quantities, defect reason and notes
+ * @param qtyReceived - Received quantity of the line, to validate before calling the database
+ * @param userId - UUID of the inspector
+ *
+ * @throws {BusinessRuleError} If the quantities do not add up or a rejection has no reason
+ * @throws {Error} If the line is not awaiting inspection
+ * @returns Promise that resolves when recorded
+ *
+ * @example
+ * ```typescript
+ * // 500m of fabric received, 40m rejected for shade variation
+ * await recordGRNInspection(lineId, {
+ *   qty_accepted: 460,
+ *   qty_rejected: 40,
+ *   defect_reason: 'SHADE_VARIATION',
+ * }, 500, userId);
+ * ```
+ *
+ * @see {@link postGRN} for receiving into quarantine
+ */
+export async function recordGRNInspection(
+    grnLineId: string,
+    result: GRNInspectionResult,
+    qtyReceived: number,
+    userId: string
+): Promise<void> {
+    const errors = validateGRNInspection(qtyReceived, result);
+    if (errors.length > 0) {
+        throw new BusinessRuleError(errors.join('; '));
+    }
+
+    const { error } = await supabaseServer.rpc('record_grn_inspection', {
+        p_grn_line_id: grnLineId,
+        p_qty_accepted: result.qty_accepted,
+        p_qty_rejected: result.qty_rejected,
+        p_defect_reason: result.qty_rejected > 0 ? result.defect_reason : null,
+        p_notes: result.notes ?? null,
+        p_user_id: userId,
+    });
+
+    if (error) throw error;
+}
+
 // ==================== VENDOR INVOICES ====================
 
 /**
@@ -636,9 +956,9 @@ export async function createVendorInvoice(invoice: VendorInvoice, userId: string
  * Adds a line item to vendor invoice.
  * 
  * **Variance Handling:**
- * - If qty_invoiced ≠ qty_received, requires approval
- * - If unit_price ≠ PO price, requires approval
- * - Set variance_approved = true after manager approval
+ * - Lines are matched against PO and GRN when the invoice is posted
+ * - Quantity/price differences beyond tolerance become match exceptions
+ * - Approving a price exception sets variance_approved = true
  * 
  * @param line - Invoice line details
  * @param line.invoice_id - UUID of parent invoice
@@ -690,12 +1010,16 @@ export async function addInvoiceLine(line: InvoiceLine, userId: string): Promise
  * Posts vendor invoice to create Accounts Payable liability.
  * 
  * **Posting Process:**
- * 1. Validates 3-way match (PO-GRN-Invoice)
- * 2. Creates journal entry:
- *    - Dr. Inventory / Expense
+ * 1. Runs the 3-way match (PO-GRN-Invoice) against the vendor's tolerances
+ * 2. Stops if any match exception is not approved
+ * 3. Creates journal entry:
+ *    - Dr. Raw Material Inventory (invoiced qty at PO/GRN price)
+ *    - Dr/Cr. Purchase Price Variance (invoice price difference)
+ *    - Dr. Input VAT (PPN Masukan, sum of line PPN)
  *    - Cr. Accounts Payable
- * 3. Marks invoice as posted
- * 4. Updates AP aging
+ * 4. Marks invoice as posted
+ * 
+ * Foreign currency invoices are booked in base currency at the invoice `exchange_rate`.
  * 
  * **Status Change:** draft → posted
  * 
@@ -703,39 +1027,142 @@ export async function addInvoiceLine(line: InvoiceLine, userId: string): Promise
  * @param userId - UUID of user posting
  * 
  * @throws {Error} If period is closed
- * @throws {Error} If 3-way match fails (unapproved variances)
- * @throws {Error} If update fails
+ * @throws {BusinessRuleError} If the invoice is not a draft
+ * @throws {BusinessRuleError} If 3-way match exceptions await approval or were rejected
+ * @throws {Error} If an account mapping is missing or the update fails
  * @returns Promise that resolves when posted
  * 
  * @example
  * ```typescript
- * // Post invoice (creates AP liability)
- * await postVendorInvoice(invoiceId, userId);
- * 
- * // Accounting:
+ * try {
+ *   await postVendorInvoice(invoiceId, userId);
+ * } catch (error) {
+ *   // Out of tolerance: exceptions are now in the approval queue
+ *   const queue = await getMatchExceptions(companyId);
+ * }
+ * 
+ * // Accounting (PO price 50,000, invoiced 480 @ 51,000):
  * // Dr. Raw Material Inventory  24,000,000
- * // Cr. Accounts Payable         24,000,000
- * 
- * // Invoice now appears in AP aging
- * // Due date tracked for payment
+ * // Dr. Purchase Price Variance    480,000
+ * // Cr. Accounts Payable         24,480,000
  * ```
  * 
- * @see {@link createVendorInvoice} for creating invoice
- * @see {@link createVendorPayment} for payment
+ * @see {@link matchVendorInvoice} for the matching rules
+ * @see {@link approveMatchException} for clearing exceptions
  */
 export async function postVendorInvoice(invoiceId: string, userId: string): Promise<void> {
+    const invoice = await getVendorInvoice(invoiceId);
+    if (invoice.status !== 'draft') {
+        throw new BusinessRuleError(`Invoice ${invoice.invoice_number} is already ${invoice.status}`);
+    }
+    await validatePeriodIsOpen(invoice.period_id);
+
+    const match = await matchVendorInvoice(invoiceId);
+    if (match.match_status === 'exception') {
+        const open = match.exceptions.filter(exception => exception.status !== 'approved');
+        throw new BusinessRuleError(
+            `Invoice ${invoice.invoice_number} has ${open.length} three-way match exception(s) awaiting approval`
+        );
+    }
+
+    const accounts = await getMappedAccountCodes(invoice.company_id, [
+        'INVENTORY_RAW_MATERIALS',
+        'PURCHASE_PRICE_VARIANCE',
+        'VAT_INPUT',
+        'ACCOUNTS_PAYABLE',
+    ]);
+    const journalLines = buildVendorInvoiceJournalLines(
+        getVendorInvoicePostingAmounts(match, Number(invoice.tax_amount || 0), Number(invoice.exchange_rate || 1)),
+        {
+            inventory: accounts.INVENTORY_RAW_MATERIALS,
+            price_variance: accounts.PURCHASE_PRICE_VARIANCE,
+            tax: accounts.VAT_INPUT,
+            payable: accounts.ACCOUNTS_PAYABLE,
+        },
+        invoice.invoice_number
+    );
+
+    let journalId: string | null = null;
+    if (journalLines.length > 0) {
+        const journal = await createJournal({
+            company_id: invoice.company_id,
+            period_id: invoice.period_id,
+            journal_number: `AP-${invoice.vendor?.code || ''}-${invoice.invoice_number}`.slice(0, 50),
+            journal_date: invoice.invoice_date,
+            description: `Vendor invoice ${invoice.invoice_number}`,
+            reference_type: 'PURCHASE',
+            reference_id: invoice.id,
+        }, journalLines, userId);
+        journalId = journal.id;
+    }
+
     const { error } = await supabaseServer
         .from('vendor_invoices')
         .update({
             status: 'posted',
             posted_by: userId,
             posted_at: new Date().toISOString(),
+            journal_id: journalId,
         })
         .eq('id', invoiceId);
 
     if (error) throw error;
 }
 
+/**
+ * Base currency amounts to post for a matched vendor invoice.
+ * 
+ * The price variance takes the conversion rounding so the payable equals the
+ * converted invoice total.
+ */
+export function getVendorInvoicePostingAmounts(
+    match: Pick<InvoiceMatchResult, 'inventory_amount' | 'price_variance'>,
+    taxAmount: number,
+    exchangeRate: number
+): { inventory: number; price_variance: number; tax: number } {
+    const inventory = convertToBase(match.inventory_amount, exchangeRate);
+    const tax = convertToBase(taxAmount, exchangeRate);
+    const payable = convertToBase(match.inventory_amount + match.price_variance + taxAmount, exchangeRate);
+    return { inventory, price_variance: round2(payable - inventory - tax), tax };
+}
+
+/**
+ * Journal lines for a matched vendor invoice.
+ * 
+ * A positive price variance (invoice above PO/GRN price) is debited to purchase
+ * price variance, a negative one credited.
+ */
+export function buildVendorInvoiceJournalLines(
+    amounts: { inventory: number; price_variance: number; tax: number },
+    accounts: { inventory: string; price_variance: string; tax: string; payable: string },
+    invoiceNumber: string
+): JournalLine[] {
+    const inventory = round2(amounts.inventory);
+    const variance = round2(amounts.price_variance);
+    const tax = round2(amounts.tax);
+    const payable = round2(inventory + variance + tax);
+    if (payable === 0 && inventory === 0) return [];
+
+    const description = `Vendor invoice ${invoiceNumber}`;
+    const lines: JournalLine[] = [];
+    if (inventory !== 0) {
+        lines.push({ account_code: accounts.inventory, debit: inventory, credit: 0, description });
+    }
+    if (variance !== 0) {
+        lines.push({
+            account_code: accounts.price_variance,
+            debit: variance > 0 ? variance : 0,
+            credit: variance < 0 ? -variance : 0,
+            description: `Price variance ${invoiceNumber}`,
+        });
+    }
+    if (tax !== 0) {
+        lines.push({ account_code: accounts.tax, debit: tax, credit: 0, description });
+    }
+    lines.push({ account_code: accounts.payable, debit: 0, credit: payable, description });
+    return lines;
+}
+
 /**
  * Retrieves vendor invoice with all line items and vendor details.
  * 
@@ -804,6 +1231,396 @@ export async function getAPAging(companyId: string): Promise<any[]> {
     return data;
 }
 
+// ==================== THREE-WAY MATCH ====================
+
+/**
+ * Checks one invoice line against its GRN and PO line.
+ * 
+ * **Rules:**
+ * - Quantity: invoiced qty may exceed the uninvoiced received (GRN) and ordered (PO)
+ *   qty by at most `qty_tolerance_pct`. Invoicing less is a partial invoice, not an exception.
+ * - Price: the unit price may differ from the PO price (GRN cost without a PO) by at most
+ *   `price_tolerance_pct`, or by at most `price_tolerance_amount` on the line.
+ * - A line with neither a GRN nor a PO line cannot be matched and always needs approval.
+ * 
+ * @returns Exceptions for the line; empty when it is within tolerance
+ * 
+ * @example
+ * ```typescript
+ * matchInvoiceLine({
+ *   qty_invoiced: 100, unit_price: 52000,
+ *   uninvoiced_received_qty: 100, uninvoiced_ordered_qty: 100,
+ *   reference_price: 50000,
+ * }, { qty_tolerance_pct: 0, price_tolerance_pct: 2, price_tolerance_amount: 0 });
+ * // → [{ exception_type: 'PRICE', variance_amount: 200000, variance_pct: 4, ... }]
+ * ```
+ */
+export function matchInvoiceLine(input: LineMatchInput, tolerance: MatchTolerance): MatchExceptionDraft[] {
+    const exceptions: MatchExceptionDraft[] = [];
+
+    if (input.uninvoiced_received_qty === null && input.uninvoiced_ordered_qty === null && input.reference_price === null) {
+        exceptions.push({
+            exception_type: 'NO_REFERENCE',
+            expected_value: null,
+            actual_value: input.qty_invoiced,
+            variance_amount: round2(input.qty_invoiced * input.unit_price),
+            variance_pct: null,
+            tolerance_pct: null,
+        });
+        return exceptions;
+    }
+
+    const checkQty = (type: MatchExceptionType, expected: number | null) => {
+        if (expected === null) return;
+        const allowed = expected * (1 + tolerance.qty_tolerance_pct / 100);
+        if (input.qty_invoiced - allowed > 0.00005) {
+            exceptions.push({
+                exception_type: type,
+                expected_value: expected,
+                actual_value: input.qty_invoiced,
+                variance_amount: round2((input.qty_invoiced - expected) * input.unit_price),
+                variance_pct: expected > 0 ? round2((input.qty_invoiced - expected) / expected * 100) : null,
+                tolerance_pct: tolerance.qty_tolerance_pct,
+            });
+        }
+    };
+    checkQty('QTY_OVER_RECEIVED', input.uninvoiced_received_qty);
+    checkQty('QTY_OVER_ORDERED', input.uninvoiced_ordered_qty);
+
+    if (input.reference_price !== null) {
+        const varianceAmount = round2((input.unit_price - input.reference_price) * input.qty_invoiced);
+        const variancePct = input.reference_price > 0
+            ? round2((input.unit_price - input.reference_price) / input.reference_price * 100)
+            : null;
+        const overPct = variancePct === null ? varianceAmount !== 0 : Math.abs(variancePct) > tolerance.price_tolerance_pct;
+
+        if (overPct && Math.abs(varianceAmount) > tolerance.price_tolerance_amount) {
+            exceptions.push({
+                exception_type: 'PRICE',
+                expected_value: input.reference_price,
+                actual_value: input.unit_price,
+                variance_amount: varianceAmount,
+                variance_pct: variancePct,
+                tolerance_pct: tolerance.price_tolerance_pct,
+            });
+        }
+    }
+
+    return exceptions;
+}
+
+/**
+ * Matches a draft invoice against its PO and GRN lines and refreshes its exceptions.
+ * 
+ * Exceptions whose expected and actual values are unchanged keep their approval;
+ * changed ones go back to pending, and ones that no longer apply are removed.
+ * 
+ * @param invoiceId - UUID of the draft invoice
+ * @returns Match status, inventory/variance split and the current exceptions
+ * @throws {BusinessRuleError} If the invoice is not a draft
+ */
+export async function matchVendorInvoice(invoiceId: string): Promise<InvoiceMatchResult> {
+    const { data: invoice, error } = await supabaseServer
+        .from('vendor_invoices')
+        .select(`
+            id, company_id, vendor_id, invoice_number, status, currency, exchange_rate,
+            lines:vendor_invoice_lines(
+                id, qty_invoiced, unit_price, line_total, taxable_amount, price_includes_tax, grn_line_id, po_line_id,
+                grn_line:grn_lines(qty_received, qty_accepted, unit_cost),
+                po_line:purchase_order_lines(qty_ordered, unit_price, po:purchase_orders(currency, exchange_rate))
+            )
+        `)
+        .eq('id', invoiceId)
+        .single();
+
+    if (error) throw error;
+    if (invoice.status !== 'draft') {
+        throw new BusinessRuleError(`Invoice ${invoice.invoice_number} is already ${invoice.status}`);
+    }
+
+    const lines = (invoice.lines || []) as unknown as InvoiceLineForMatch[];
+    const invoiceRate = Number(invoice.exchange_rate || 1);
+    const tolerance = await getMatchTolerance(invoice.company_id, invoice.vendor_id);
+    const invoicedOnReceipts = await getInvoicedElsewhere(invoiceId, 'grn_line_id', lines.map(l => l.grn_line_id));
+    const invoicedOnOrders = await getInvoicedElsewhere(invoiceId, 'po_line_id', lines.map(l => l.po_line_id));
+
+    let inventoryAmount = 0;
+    let subtotal = 0;
+    const drafts: (MatchExceptionDraft & { invoice_line_id: string })[] = [];
+
+    for (const line of lines) {
+        const received = line.grn_line
+            ? Number(line.grn_line.qty_accepted ?? line.grn_line.qty_received) - (invoicedOnReceipts[line.grn_line_id as string] || 0)
+            : null;
+        const ordered = line.po_line
+            ? Number(line.po_line.qty_ordered) - (invoicedOnOrders[line.po_line_id as string] || 0)
+            : null;
+        // Compared in the invoice currency: GRN costs are in base currency, PO prices in the PO currency
+        const referencePrice = line.po_line
+            ? toInvoiceCurrency(line.po_line, invoice.currency, invoiceRate)
+            : line.grn_line ? round4(Number(line.grn_line.unit_cost) / invoiceRate) : null;
+
+        const qty = Number(line.qty_invoiced);
+        const netAmount = Number(line.taxable_amount ?? line.line_total);
+        // PPN-inclusive invoice prices are compared to the PO price net of tax
+        const unitPrice = line.price_includes_tax ? round4(netAmount / qty) : Number(line.unit_price);
+        inventoryAmount += round2(qty * (referencePrice ?? unitPrice));
+        subtotal += netAmount;
+
+        for (const draft of matchInvoiceLine({
+            qty_invoiced: qty,
+            unit_price: unitPrice,
+            uninvoiced_received_qty: received,
+            uninvoiced_ordered_qty: ordered,
+            reference_price: referencePrice,
+        }, tolerance)) {
+            drafts.push({ ...draft, invoice_line_id: line.id });
+        }
+    }
+
+    const { data: existing, error: existingError } = await supabaseServer
+        .from('invoice_match_exceptions')
+        .select('*')
+        .eq('invoice_id', invoiceId);
+
+    if (existingError) throw existingError;
+
+    const { rows, stale } = reconcileMatchExceptions(drafts, existing || []);
+
+    if (stale.length > 0) {
+        const { error: deleteError } = await supabaseServer
+            .from('invoice_match_exceptions')
+            .delete()
+            .in('id', stale);
+
+        if (deleteError) throw deleteError;
+    }
+
+    let exceptions: MatchException[] = [];
+    if (rows.length > 0) {
+        const { data: saved, error: saveError } = await supabaseServer
+            .from('invoice_match_exceptions')
+            .upsert(
+                rows.map(row => ({ company_id: invoice.company_id, invoice_id: invoiceId, ...row })),
+                { onConflict: 'invoice_line_id,exception_type' }
+            )
+            .select();
+
+        if (saveError) throw saveError;
+        exceptions = saved || [];
+    }
+
+    const matchStatus = getInvoiceMatchStatus(exceptions);
+
+    const { error: statusError } = await supabaseServer
+        .from('vendor_invoices')
+        .update({ match_status: matchStatus, matched_at: new Date().toISOString() })
+        .eq('id', invoiceId);
+
+    if (statusError) throw statusError;
+
+    return {
+        invoice_id: invoiceId,
+        match_status: matchStatus,
+        inventory_amount: round2(inventoryAmount),
+        price_variance: round2(subtotal - inventoryAmount),
+        exceptions,
+    };
+}
+
+/**
+ * Merges freshly computed exceptions with the ones saved by the previous match.
+ * 
+ * An exception whose expected and actual values are unchanged keeps its approval;
+ * a changed one goes back to pending. Saved exceptions that no longer occur are
+ * returned as stale.
+ */
+export function reconcileMatchExceptions(
+    drafts: (MatchExceptionDraft & { invoice_line_id: string })[],
+    existing: MatchException[]
+): {
+    rows: Omit<MatchException, 'id' | 'company_id' | 'invoice_id'>[];
+    stale: string[];
+} {
+    const key = (lineId: string, type: string) => `${lineId}:${type}`;
+    const previous = new Map<string, MatchException>(
+        existing.map(e => [key(e.invoice_line_id, e.exception_type), e])
+    );
+
+    const rows = drafts.map(draft => {
+        const prior = previous.get(key(draft.invoice_line_id, draft.exception_type));
+        const unchanged = prior
+            && Number(prior.expected_value) === Number(draft.expected_value)
+            && Number(prior.actual_value) === Number(draft.actual_value);
+        return {
+            ...draft,
+            status: unchanged ? prior.status : 'pending' as const,
+            resolved_by: unchanged ? prior.resolved_by : null,
+            resolved_at: unchanged ? prior.resolved_at : null,
+            resolution_notes: unchanged ? prior.resolution_notes : null,
+        };
+    });
+
+    const current = new Set(drafts.map(d => key(d.invoice_line_id, d.exception_type)));
+    const stale = existing
+        .filter(e => !current.has(key(e.invoice_line_id, e.exception_type)))
+        .map(e => e.id);
+
+    return { rows, stale };
+}
+
+/**
+ * Invoice match status: matched without exceptions, approved once every
+ * exception is approved, otherwise exception (blocks posting).
+ */
+export function getInvoiceMatchStatus(exceptions: Pick<MatchException, 'status'>[]): InvoiceMatchResult['match_status'] {
+    if (exceptions.length === 0) return 'matched';
+    return exceptions.every(e => e.status === 'approved') ? 'approved' : 'exception';
+}
+
+/**
+ * Approves a match exception. Approved price differences post to purchase price variance.
+ * 
+ * @param exceptionId - UUID of the exception
+ * @param userId - Approver
+ * @param notes - Reason for accepting the difference
+ * @throws {Error} If the invoice is already posted
+ */
+export async function approveMatchException(exceptionId: string, userId: string, notes?: string): Promise<void> {
+    await resolveMatchException(exceptionId, 'approved', userId, notes);
+}
+
+/**
+ * Rejects a match exception; the invoice cannot be posted until it is corrected and re-matched.
+ */
+export async function rejectMatchException(exceptionId: string, userId: string, notes?: string): Promise<void> {
+    await resolveMatchException(exceptionId, 'rejected', userId, notes);
+}
+
+/**
+ * Match exceptions queue with invoice, vendor and material details.
+ * 
+ * @param companyId - UUID of the company
+ * @param status - Defaults to pending (the approval queue)
+ */
+export async function getMatchExceptions(companyId: string, status: MatchExceptionStatus = 'pending'): Promise<MatchExceptionQueueItem[]> {
+    const { data, error } = await supabaseServer
+        .from('invoice_match_exceptions_vw')
+        .select('*')
+        .eq('company_id', companyId)
+        .eq('status', status)
+        .order('created_at');
+
+    if (error) throw error;
+    return data || [];
+}
+
+/**
+ * Tolerance for a vendor: the vendor override, else the company default, else
+ * {@link DEFAULT_MATCH_TOLERANCE}.
+ */
+export async function getMatchTolerance(companyId: string, vendorId?: string): Promise<MatchTolerance> {
+    const { data, error } = await supabaseServer
+        .from('invoice_match_tolerances')
+        .select('vendor_id, qty_tolerance_pct, price_tolerance_pct, price_tolerance_amount')
+        .eq('company_id', companyId);
+
+    if (error) throw error;
+
+    const rows = data || [];
+    const row = rows.find(r => vendorId && r.vendor_id === vendorId) || rows.find(r => r.vendor_id === null);
+    if (!row) return DEFAULT_MATCH_TOLERANCE;
+
+    return {
+        qty_tolerance_pct: Number(row.qty_tolerance_pct),
+        price_tolerance_pct: Number(row.price_tolerance_pct),
+        price_tolerance_amount: Number(row.price_tolerance_amount),
+    };
+}
+
+/**
+ * Sets the company default tolerance, or a vendor override when `vendorId` is given.
+ */
+export async function setMatchTolerance(companyId: string, tolerance: MatchTolerance, vendorId?: string): Promise<void> {
+    let query = supabaseServer
+        .from('invoice_match_tolerances')
+        .select('id')
+        .eq('company_id', companyId);
+    query = vendorId ? query.eq('vendor_id', vendorId) : query.is('vendor_id', null);
+
+    const { data: existing, error } = await query.maybeSingle();
+    if (error) throw error;
+
+    const { error: saveError } = existing
+        ? await supabaseServer.from('invoice_match_tolerances').update(tolerance).eq('id', existing.id)
+        : await supabaseServer.from('invoice_match_tolerances').insert({ company_id: companyId, vendor_id: vendorId || null, ...tolerance });
+
+    if (saveError) throw saveError;
+}
+
+interface InvoiceLineForMatch {
+    id: string;
+    qty_invoiced: number;
+    unit_price: number;
+    line_total: number;
+    taxable_amount: number | null;
+    price_includes_tax: boolean | null;
+    grn_line_id: string | null;
+    po_line_id: string | null;
+    grn_line: { qty_received: number; qty_accepted: number | null; unit_cost: number } | null;
+    po_line: { qty_ordered: number; unit_price: number; po: { currency: string; exchange_rate: number } | null } | null;
+}
+
+const round4 = (value: number) => Math.round(value * 10000) / 10000;
+
+function toInvoiceCurrency(poLine: NonNullable<InvoiceLineForMatch['po_line']>, currency: string, invoiceRate: number): number {
+    const price = Number(poLine.unit_price);
+    if (!poLine.po || poLine.po.currency === currency) return price;
+    return round4(price * Number(poLine.po.exchange_rate) / invoiceRate);
+}
+
+async function resolveMatchException(
+    exceptionId: string,
+    status: Exclude<MatchExceptionStatus, 'pending'>,
+    userId: string,
+    notes?: string
+): Promise<void> {
+    const { error } = await supabaseServer.rpc('resolve_invoice_match_exception', {
+        p_exception_id: exceptionId,
+        p_status: status,
+        p_notes: notes || null,
+        p_user_id: userId,
+    });
+
+    if (error) throw error;
+}
+
+/** Quantity already invoiced per GRN/PO line on other, non-draft invoices */
+async function getInvoicedElsewhere(
+    invoiceId: string,
+    column: 'grn_line_id' | 'po_line_id',
+    ids: (string | null)[]
+): Promise<Record<string, number>> {
+    const lineIds = [...new Set(ids.filter((id): id is string => !!id))];
+    if (lineIds.length === 0) return {};
+
+    const { data, error } = await supabaseServer
+        .from('vendor_invoice_lines')
+        .select(`${column}, qty_invoiced, invoice:vendor_invoices!inner(status)`)
+        .in(column, lineIds)
+        .neq('invoice_id', invoiceId)
+        .not('invoice.status', 'in', '(draft,cancelled)');
+
+    if (error) throw error;
+
+    const totals: Record<string, number> = {};
+    for (const row of (data || []) as unknown as Record<string, string | number>[]) {
+        const lineId = row[column] as string;
+        totals[lineId] = (totals[lineId] || 0) + Number(row.qty_invoiced);
+    }
+    return totals;
+}
+
 // ==================== VENDOR PAYMENTS ====================
 
 /**
@@ -821,6 +1638,10 @@ export async function getAPAging(companyId: string): Promise<any[]> {
  * - GIRO: Giro (post-dated check)
  * - CREDIT_CARD: Credit card
  * 
+ * **Withholding:** The payment takes the vendor's PPh code (`vendors.withholding_tax_code_id`)
+ * unless `withholding_tax_code_id` is given; pass null to withhold nothing.
+ * `total_amount` is what leaves the bank, i.e. after withholding.
+ * 
  * @param payment - Payment details
  * @param payment.company_id - UUID of the company
  * @param payment.payment_number - Unique payment number
@@ -828,8 +1649,9 @@ export async function getAPAging(companyId: string): Promise<any[]> {
  * @param payment.vendor_id - UUID of vendor being paid
  * @param payment.period_id - UUID of accounting period (must be open)
  * @param payment.payment_method - Payment method
- * @param payment.total_amount - Total payment amount
+ * @param payment.total_amount - Total payment amount (net of withholding)
  * @param payment.reference_number - Bank reference / check number
+ * @param payment.withholding_tax_code_id - PPh code override
  * @param userId - UUID of user creating payment
  * 
  * @throws {Error} If period is closed
@@ -864,9 +1686,21 @@ export async function getAPAging(companyId: string): Promise<any[]> {
 export async function createVendorPayment(payment: VendorPayment, userId: string): Promise<VendorPayment> {
     await validatePeriodIsOpen(payment.period_id);
 
+    let withholdingTaxCodeId = payment.withholding_tax_code_id;
+    if (withholdingTaxCodeId === undefined) {
+        const { data: vendor, error: vendorError } = await supabaseServer
+            .from('vendors')
+            .select('withholding_tax_code_id')
+            .eq('id', payment.vendor_id)
+            .single();
+
+        if (vendorError) throw vendorError;
+        withholdingTaxCodeId = vendor.withholding_tax_code_id;
+    }
+
     const { data, error } = await supabaseServer
         .from('vendor_payments')
-        .insert({ ...payment, created_by: userId })
+        .insert({ ...payment, withholding_tax_code_id: withholdingTaxCodeId ?? null, created_by: userId })
         .select()
         .single();
 
@@ -878,14 +1712,23 @@ export async function createVendorPayment(payment: VendorPayment, userId: string
  * Allocates payment amount to specific invoice(s).
  * 
  * One payment can be allocated to multiple invoices.
- * Total allocations must equal payment total_amount.
+ * Total allocations, net of withholding, must equal payment total_amount.
+ * 
+ * **Withholding:** With a PPh code on the payment, the allocation withholds
+ * {@link calculateWithholding} of the invoice DPP it settles: settling 11,100,000 of an
+ * invoice of 10,000,000 + PPN 1,100,000 at PPh 23 2% withholds 200,000 and pays 10,900,000.
+ * 
+ * **Foreign currency:** Payment and invoice must be in the same currency. The allocation
+ * records both rates and the realized FX ({@link calculateRealizedFx}) in base currency.
  * 
  * @param paymentId - UUID of the payment
  * @param invoiceId - UUID of invoice to pay
- * @param amount - Amount to allocate to this invoice
+ * @param amount - Invoice amount to settle, including the PPh withheld
  * 
+ * @throws {BusinessRuleError} If the payment is not a draft
+ * @throws {BusinessRuleError} If payment and invoice currencies differ
  * @throws {Error} If database insert fails
- * @returns Promise that resolves when allocated
+ * @returns Promise resolving to the allocation with its withholding and realized FX
  * 
  * @example
  * ```typescript
@@ -906,35 +1749,78 @@ export async function allocatePayment(
     paymentId: string,
     invoiceId: string,
     amount: number
-): Promise<void> {
-    const { error } = await supabaseServer
+): Promise<PaymentAllocation> {
+    const [paymentResult, invoiceResult] = await Promise.all([
+        supabaseServer
+            .from('vendor_payments')
+            .select('payment_number, status, currency, exchange_rate, withholding_tax_code:tax_codes(code, tax_type, category, rate, dpp_factor)')
+            .eq('id', paymentId)
+            .single(),
+        supabaseServer
+            .from('vendor_invoices')
+            .select('invoice_number, subtotal, tax_amount, currency, exchange_rate')
+            .eq('id', invoiceId)
+            .single(),
+    ]);
+
+    if (paymentResult.error) throw paymentResult.error;
+    if (invoiceResult.error) throw invoiceResult.error;
+
+    const payment = paymentResult.data;
+    if (payment.status !== 'draft') {
+        throw new BusinessRuleError(`Payment ${payment.payment_number} is already ${payment.status}`);
+    }
+    const invoice = invoiceResult.data;
+    if (invoice.currency !== payment.currency) {
+        throw new BusinessRuleError(
+            `Invoice ${invoice.invoice_number} is in ${invoice.currency}, payment ${payment.payment_number} in ${payment.currency}`
+        );
+    }
+
+    const withholding = calculateWithholding(
+        amount,
+        invoice,
+        payment.withholding_tax_code as unknown as TaxCodeRates | null,
+        payment.exchange_rate
+    );
+
+    const { data, error } = await supabaseServer
         .from('payment_allocations')
         .insert({
             payment_id: paymentId,
             invoice_id: invoiceId,
             amount_allocated: amount,
-        });
+            ...withholding,
+            invoice_rate: invoice.exchange_rate,
+            payment_rate: payment.exchange_rate,
+            realized_fx_amount: calculateRealizedFx(amount, invoice.exchange_rate, payment.exchange_rate),
+        })
+        .select()
+        .single();
 
     if (error) throw error;
+    return data;
 }
 
 /**
  * Posts payment to reduce Accounts Payable.
  * 
  * **Posting Process:**
- * 1. Validates allocations equal payment amount
- * 2. Creates journal entry:
- *    - Dr. Accounts Payable
- *    - Cr. Bank / Cash
- * 3. Marks payment as posted
- * 4. Updates invoice payment status
- * 5. Updates AP aging
+ * 1. Creates journal entry in base currency:
+ *    - Dr. Accounts Payable (cash paid + PPh withheld, at the invoice rates)
+ *    - Cr. Bank / Cash (at the payment rate)
+ *    - Cr. PPh withholding payable (WITHHOLDING_TAX_PAYABLE), in rupiah as on the bukti potong
+ *    - Dr/Cr. Realized FX (FX_REALIZED) for the rate difference on foreign currency invoices
+ * 2. Marks payment as posted
+ * 3. Issues the bukti potong when PPh was withheld
+ * 
+ * Invoice payment status and AP aging follow the allocations.
  * 
  * @param paymentId - UUID of payment to post
  * @param userId - UUID of user posting
  * 
  * @throws {Error} If period is closed
- * @throws {Error} If allocations don't match total
+ * @throws {BusinessRuleError} If the payment is not a draft
  * @throws {Error} If update fails
  * @returns Promise that resolves when posted
  * 
@@ -947,24 +1833,121 @@ export async function allocatePayment(
  * // Dr. Accounts Payable  50,000,000
  * // Cr. Bank              50,000,000
  * 
- * // Invoices marked as paid (full or partial)
- * // AP aging updated
+ * // Sewing subcontractor, PPh 23 2% on a DPP of 10,000,000:
+ * // Dr. Accounts Payable      11,100,000
+ * // Cr. Bank                  10,900,000
+ * // Cr. Tax Payable - Income     200,000
+ * // + bukti potong BP-202502-0001
+ * 
+ * // USD 1,000 invoice booked at 15,500, paid at 15,800:
+ * // Dr. Accounts Payable      15,500,000
+ * // Dr. Realized FX              300,000
+ * // Cr. Bank                  15,800,000
  * ```
  * 
  * @see {@link createVendorPayment} for creating payment
  * @see {@link allocatePayment} for allocations
  */
 export async function postPayment(paymentId: string, userId: string): Promise<void> {
+    const { data: payment, error: paymentError } = await supabaseServer
+        .from('vendor_payments')
+        .select('id, company_id, period_id, payment_number, payment_date, payment_method, exchange_rate, total_amount, withholding_amount, withholding_amount_idr, realized_fx_amount, status')
+        .eq('id', paymentId)
+        .single();
+
+    if (paymentError) throw paymentError;
+    if (payment.status !== 'draft') {
+        throw new BusinessRuleError(`Payment ${payment.payment_number} is already ${payment.status}`);
+    }
+    await validatePeriodIsOpen(payment.period_id);
+
+    const rate = Number(payment.exchange_rate || 1);
+    // The rupiah PPh is what is owed to the tax office; rounding against the payment
+    // currency share withheld from the vendor is realized FX
+    const withholding = Number(payment.withholding_amount_idr || 0);
+    const withholdingAtRate = convertToBase(payment.withholding_amount || 0, rate);
+    const amounts = {
+        cash: convertToBase(payment.total_amount, rate),
+        withholding,
+        realized_fx: round2(Number(payment.realized_fx_amount || 0) + withholding - withholdingAtRate),
+    };
+    const cashCode = payment.payment_method === 'CASH' ? 'DEFAULT_CASH' : 'DEFAULT_BANK';
+    const accounts = await getMappedAccountCodes(payment.company_id, [
+        'ACCOUNTS_PAYABLE',
+        cashCode,
+        ...(amounts.withholding > 0 ? ['WITHHOLDING_TAX_PAYABLE'] : []),
+        ...(amounts.realized_fx !== 0 ? ['FX_REALIZED'] : []),
+    ]);
+
+    const journal = await createJournal({
+        company_id: payment.company_id,
+        period_id: payment.period_id,
+        journal_number: payment.payment_number,
+        journal_date: payment.payment_date,
+        description: `Vendor payment ${payment.payment_number}`,
+        reference_type: 'PAYMENT',
+        reference_id: payment.id,
+    }, buildVendorPaymentJournalLines(
+        amounts,
+        {
+            payable: accounts.ACCOUNTS_PAYABLE,
+            cash: accounts[cashCode],
+            withholding: accounts.WITHHOLDING_TAX_PAYABLE,
+            fx: accounts.FX_REALIZED,
+        },
+        payment.payment_number
+    ), userId);
+
     const { error } = await supabaseServer
         .from('vendor_payments')
         .update({
             status: 'posted',
             posted_by: userId,
             posted_at: new Date().toISOString(),
+            journal_id: journal.id,
         })
         .eq('id', paymentId);
 
     if (error) throw error;
+
+    if (amounts.withholding > 0) {
+        await issueWithholdingCertificate(paymentId, userId);
+    }
+}
+
+/**
+ * Journal lines for a vendor payment.
+ * 
+ * AP is relieved by the cash paid plus the PPh withheld; the withholding is
+ * owed to the tax office until remitted. On foreign currency payments AP is relieved
+ * at the invoice rates: a realized loss (positive `realized_fx`) is debited, a gain credited.
+ */
+export function buildVendorPaymentJournalLines(
+    amounts: { cash: number; withholding: number; realized_fx?: number },
+    accounts: { payable: string; cash: string; withholding?: string; fx?: string },
+    paymentNumber: string
+): JournalLine[] {
+    const cash = round2(amounts.cash);
+    const withholding = round2(amounts.withholding);
+    const fx = accounts.fx ? round2(amounts.realized_fx || 0) : 0;
+    const description = `Vendor payment ${paymentNumber}`;
+
+    const lines: JournalLine[] = [
+        { account_code: accounts.payable, debit: round2(cash + withholding - fx), credit: 0, description },
+        { account_code: accounts.cash, debit: 0, credit: cash, description },
+    ];
+    if (withholding > 0 && accounts.withholding) {
+        lines.push({ account_code: accounts.withholding, debit: 0, credit: withholding, description: `PPh withheld ${paymentNumber}` });
+    }
+    if (fx !== 0 && accounts.fx) {
+        lines.push({
+            account_code: accounts.fx,
+            debit: fx > 0 ? fx : 0,
+            credit: fx < 0 ? -fx : 0,
+            description: `Realized FX ${paymentNumber}`,
+        });
+    }
+    return lines;
 }
 
 /**
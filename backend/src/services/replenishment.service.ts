@@ -0,0 +1,382 @@
+/**
+ * Replenishment Service
+ * Reorder suggestions for raw materials, approved by a buyer and ordered in bulk.
+ *
+ * **Workflow:**
+ * 1. **Run:** {@link runReplenishment} takes the materials whose projected stock (on hand + open POs
+ *    - production reservations) is below the reorder level ({@link getMaterialsBelowReorderLevel})
+ *    and suggests a quantity, vendor and price for each
+ * 2. **Review:** The buyer adjusts quantity/vendor/price ({@link updateSuggestion}), then approves or
+ *    rejects suggestions in bulk ({@link approveSuggestions}, {@link rejectSuggestions})
+ * 3. **Order:** {@link convertSuggestionsToPurchaseOrders} creates one draft PO per vendor
+ */
+import { supabaseServer } from '../config/supabase';
+import { BusinessRuleError, NotFoundError, ValidationError } from './error.service';
+import { getMaterialsBelowReorderLevel, MaterialReorderPosition } from './material.service';
+import { addPOLine, createPurchaseOrder } from './purchase.service';
+
+// Types
+export type SuggestionStatus = 'suggested' | 'approved' | 'rejected' | 'ordered';
+export type PriceSource = 'last_vendor_price' | 'last_price' | 'standard_cost';
+
+export interface ReplenishmentSuggestion {
+    id?: string;
+    run_id?: string;
+    material_id: string;
+    reorder_level: number;
+    on_hand_qty: number;
+    open_po_qty: number;
+    reserved_qty: number;
+    projected_qty: number;
+    suggested_qty: number;
+    vendor_id: string | null;
+    unit_price: number;
+    price_source: PriceSource | null;
+    status?: SuggestionStatus;
+    po_id?: string | null;
+    po_line_id?: string | null;
+}
+
+export interface ReplenishmentRun {
+    id: string;
+    company_id: string;
+    warehouse_id: string;
+    run_date: string;
+    status: 'open' | 'completed';
+    suggestions?: ReplenishmentSuggestion[];
+}
+
+export interface LastPurchasePrice {
+    unit_price: number;
+    vendor_id: string;
+    po_date: string;
+    currency: string;
+}
+
+// ==================== SUGGESTIONS ====================
+
+/**
+ * Quantity to order for a material below its reorder level: the shortfall against the
+ * reorder level, at least the material's reorder quantity.
+ *
+ * @example
+ * ```typescript
+ * // Reorder at 500 m, min order 300 m; 120 on hand, 200 on order, 180 reserved → projected 140
+ * calculateSuggestedOrderQty({ reorder_level: 500, reorder_qty: 300, projected_qty: 140 }); // 360
+ * calculateSuggestedOrderQty({ reorder_level: 500, reorder_qty: 300, projected_qty: 400 }); // 300
+ * ```
+ */
+export function calculateSuggestedOrderQty(
+    position: Pick<MaterialReorderPosition, 'reorder_level' | 'reorder_qty' | 'projected_qty'>
+): number {
+    const shortfall = Number(position.reorder_level) - Number(position.projected_qty);
+    if (shortfall <= 0) return 0;
+    return Math.round(Math.max(shortfall, Number(position.reorder_qty || 0)) * 10000) / 10000;
+}
+
+/**
+ * Vendor and price for a suggestion: the preferred vendor (else the vendor last ordered from)
+ * at its last price, else the last price from anyone, else the standard cost.
+ */
+export function pickSupplier(
+    preferredVendorId: string | null,
+    standardCost: number,
+    lastFromPreferred: LastPurchasePrice | null,
+    lastOverall: LastPurchasePrice | null
+): { vendor_id: string | null; unit_price: number; price_source: PriceSource } {
+    const vendorId = preferredVendorId || lastOverall?.vendor_id || null;
+    const lastFromVendor = preferredVendorId ? lastFromPreferred : lastOverall;
+
+    if (lastFromVendor) {
+        return { vendor_id: vendorId, unit_price: Number(lastFromVendor.unit_price), price_source: 'last_vendor_price' };
+    }
+    if (lastOverall) {
+        return { vendor_id: vendorId, unit_price: Number(lastOverall.unit_price), price_source: 'last_price' };
+    }
+    return { vendor_id: vendorId, unit_price: Number(standardCost || 0), price_source: 'standard_cost' };
+}
+
+/**
+ * Latest ordered price of a material (`get_last_purchase_price`), optionally from one vendor.
+ */
+export async function getLastPurchasePrice(materialId: string, vendorId?: string): Promise<LastPurchasePrice | null> {
+    const { data, error } = await supabaseServer.rpc('get_last_purchase_price', {
+        p_material_id: materialId,
+        p_vendor_id: vendorId || null,
+    });
+
+    if (error) throw error;
+    return data && data.length > 0 ? data[0] : null;
+}
+
+// ==================== RUNS ====================
+
+/**
+ * Computes reorder suggestions for a warehouse.
+ *
+ * @param companyId - UUID of the company
+ * @param warehouseId - UUID of the warehouse to replenish
+ * @param userId - UUID of the buyer
+ * @throws {BusinessRuleError} If the warehouse has an open run with suggestions still to review
+ * @returns The run with its suggestions; empty when nothing is below its reorder level
+ *
+ * @example
+ * ```typescript
+ * const run = await runReplenishment(companyId, mainWarehouseId, buyerId);
+ * // Combed cotton 30s: reorder 500 m, projected 140 m → suggest 360 m from PT Sinar Tekstil @ 45,000 (last PO)
+ *
+ * await updateSuggestion(run.suggestions[0].id, { suggested_qty: 400 });
+ * await approveSuggestions(run.suggestions.map(s => s.id), buyerId);
+ * await convertSuggestionsToPurchaseOrders(run.id, { po_date: '2025-02-03', period_id: febId }, buyerId);
+ * ```
+ */
+export async function runReplenishment(companyId: string, warehouseId: string, userId: string): Promise<ReplenishmentRun> {
+    const { data: openRuns, error: openError } = await supabaseServer
+        .from('replenishment_runs')
+        .select('id, run_date, suggestions:replenishment_suggestions(status)')
+        .eq('company_id', companyId)
+        .eq('warehouse_id', warehouseId)
+        .eq('status', 'open');
+
+    if (openError) throw openError;
+
+    const pending = (openRuns || []).find(run =>
+        (run.suggestions || []).some((s: { status: SuggestionStatus }) => s.status === 'suggested' || s.status === 'approved')
+    );
+    if (pending) {
+        throw new BusinessRuleError(`Finish the replenishment run of ${pending.run_date} for this warehouse first`);
+    }
+
+    const positions = await getMaterialsBelowReorderLevel(companyId, warehouseId);
+
+    const suggestions: ReplenishmentSuggestion[] = [];
+    for (const position of positions) {
+        const qty = calculateSuggestedOrderQty(position);
+        if (qty <= 0) continue;
+
+        const lastOverall = await getLastPurchasePrice(position.material_id);
+        const lastFromPreferred = position.preferred_vendor_id
+            ? await getLastPurchasePrice(position.material_id, position.preferred_vendor_id)
+            : null;
+
+        suggestions.push({
+            material_id: position.material_id,
+            reorder_level: Number(position.reorder_level),
+            on_hand_qty: Number(position.on_hand_qty),
+            open_po_qty: Number(position.open_po_qty),
+            reserved_qty: Number(position.reserved_qty),
+            projected_qty: Number(position.projected_qty),
+            suggested_qty: qty,
+            ...pickSupplier(position.preferred_vendor_id, position.standard_cost, lastFromPreferred, lastOverall),
+        });
+    }
+
+    const { data: run, error } = await supabaseServer
+        .from('replenishment_runs')
+        .insert({
+            company_id: companyId,
+            warehouse_id: warehouseId,
+            status: suggestions.length > 0 ? 'open' : 'completed',
+            created_by: userId,
+        })
+        .select()
+        .single();
+
+    if (error) throw error;
+    if (suggestions.length === 0) return { ...run, suggestions: [] };
+
+    const { data: saved, error: suggestionsError } = await supabaseServer
+        .from('replenishment_suggestions')
+        .insert(suggestions.map(suggestion => ({ ...suggestion, run_id: run.id })))
+        .select();
+
+    if (suggestionsError) throw suggestionsError;
+    return { ...run, suggestions: saved || [] };
+}
+
+/**
+ * Retrieves a run with its suggestions, material and vendor details.
+ *
+ * @throws {NotFoundError} If the run does not exist
+ */
+export async function getReplenishmentRun(runId: string): Promise<ReplenishmentRun> {
+    const { data, error } = await supabaseServer
+        .from('replenishment_runs')
+        .select(`
+            *,
+            suggestions:replenishment_suggestions(
+                *,
+                material:materials(code, name, unit_of_measure),
+                vendor:vendors(code, name),
+                purchase_order:purchase_orders(po_number, status)
+            )
+        `)
+        .eq('id', runId)
+        .maybeSingle();
+
+    if (error) throw error;
+    if (!data) throw new NotFoundError('Replenishment run', runId);
+    return data;
+}
+
+/**
+ * Lists runs, newest first.
+ */
+export async function getReplenishmentRuns(companyId: string, warehouseId?: string): Promise<ReplenishmentRun[]> {
+    let query = supabaseServer
+        .from('replenishment_runs')
+        .select('*')
+        .eq('company_id', companyId)
+        .order('created_at', { ascending: false });
+
+    if (warehouseId) query = query.eq('warehouse_id', warehouseId);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+}
+
+// ==================== REVIEW ====================
+
+/**
+ * Changes quantity, vendor or price of a suggestion before it is approved.
+ *
+ * @throws {BusinessRuleError} If the suggestion is already approved, rejected or ordered
+ * @throws {ValidationError} If the quantity is not positive
+ */
+export async function updateSuggestion(
+    suggestionId: string,
+    changes: Partial<Pick<ReplenishmentSuggestion, 'suggested_qty' | 'vendor_id' | 'unit_price'>>
+): Promise<ReplenishmentSuggestion> {
+    if (changes.suggested_qty !== undefined && !(changes.suggested_qty > 0)) {
+        throw new ValidationError('Suggested quantity must be greater than 0');
+    }
+
+    const { data, error } = await supabaseServer
+        .from('replenishment_suggestions')
+        .update(changes)
+        .eq('id', suggestionId)
+        .eq('status', 'suggested')
+        .select()
+        .maybeSingle();
+
+    if (error) throw error;
+    if (!data) throw new BusinessRuleError('Only suggestions awaiting review can be changed');
+    return data;
+}
+
+/**
+ * Approves suggestions in bulk.
+ *
+ * @throws {ValidationError} If a suggestion has no vendor
+ * @returns Number of suggestions approved
+ */
+export async function approveSuggestions(suggestionIds: string[], userId: string): Promise<number> {
+    const { data: missingVendor, error: checkError } = await supabaseServer
+        .from('replenishment_suggestions')
+        .select('id, material:materials(code)')
+        .in('id', suggestionIds)
+        .is('vendor_id', null);
+
+    if (checkError) throw checkError;
+    if ((missingVendor || []).length > 0) {
+        const codes = (missingVendor as unknown as { material: { code: string } | null }[]).map(s => s.material?.code);
+        throw new ValidationError(`Choose a vendor first for ${codes.join(', ')}`);
+    }
+
+    return setSuggestionStatus(suggestionIds, 'approved', userId);
+}
+
+/**
+ * Rejects suggestions in bulk; they are not ordered.
+ */
+export async function rejectSuggestions(suggestionIds: string[], userId: string): Promise<number> {
+    return setSuggestionStatus(suggestionIds, 'rejected', userId);
+}
+
+// ==================== ORDERING ====================
+
+/**
+ * Orders the approved suggestions of a run: one draft PO per vendor via {@link createPurchaseOrder},
+ * one line per material via {@link addPOLine}. The run completes when nothing is left to review.
+ *
+ * @param runId - UUID of the run
+ * @param params - PO date and open period; `po_number_prefix` defaults to PO-<timestamp>
+ * @param userId - UUID of the buyer
+ * @throws {BusinessRuleError} If the run has no approved suggestions
+ * @returns The draft POs created
+ */
+export async function convertSuggestionsToPurchaseOrders(
+    runId: string,
+    params: { po_date: string; period_id: string; po_number_prefix?: string },
+    userId: string
+): Promise<{ id: string; po_number: string; vendor_id: string; line_count: number }[]> {
+    const run = await getReplenishmentRun(runId);
+    const approved = (run.suggestions || []).filter(s => s.status === 'approved');
+    if (approved.length === 0) {
+        throw new BusinessRuleError('Approve suggestions before ordering them');
+    }
+
+    const byVendor = new Map<string, ReplenishmentSuggestion[]>();
+    for (const suggestion of approved) {
+        const vendorId = suggestion.vendor_id as string;
+        byVendor.set(vendorId, [...(byVendor.get(vendorId) || []), suggestion]);
+    }
+
+    const prefix = params.po_number_prefix || `PO-${Date.now().toString().slice(-6)}`;
+    const orders: { id: string; po_number: string; vendor_id: string; line_count: number }[] = [];
+
+    for (const [vendorId, suggestions] of byVendor) {
+        const po = await createPurchaseOrder({
+            company_id: run.company_id,
+            po_number: `${prefix}-${String(orders.length + 1).padStart(2, '0')}`,
+            po_date: params.po_date,
+            vendor_id: vendorId,
+            warehouse_id: run.warehouse_id,
+            period_id: params.period_id,
+            notes: `Replenishment run ${run.run_date}`,
+        }, userId);
+
+        for (const [index, suggestion] of suggestions.entries()) {
+            const poLine = await addPOLine({
+                po_id: po.id as string,
+                line_number: index + 1,
+                material_id: suggestion.material_id,
+                qty_ordered: Number(suggestion.suggested_qty),
+                unit_price: Number(suggestion.unit_price),
+            }, userId);
+
+            const { error } = await supabaseServer
+                .from('replenishment_suggestions')
+                .update({ status: 'ordered', po_id: po.id, po_line_id: poLine.id })
+                .eq('id', suggestion.id as string);
+
+            if (error) throw error;
+        }
+
+        orders.push({ id: po.id as string, po_number: po.po_number, vendor_id: vendorId, line_count: suggestions.length });
+    }
+
+    if (!(run.suggestions || []).some(s => s.status === 'suggested')) {
+        const { error } = await supabaseServer
+            .from('replenishment_runs')
+            .update({ status: 'completed' })
+            .eq('id', runId);
+
+        if (error) throw error;
+    }
+
+    return orders;
+}
+
+async function setSuggestionStatus(suggestionIds: string[], status: 'approved' | 'rejected', userId: string): Promise<number> {
+    const { data, error } = await supabaseServer
+        .from('replenishment_suggestions')
+        .update({ status, approved_by: userId, approved_at: new Date().toISOString() })
+        .in('id', suggestionIds)
+        .eq('status', 'suggested')
+        .select('id');
+
+    if (error) throw error;
+    return (data || []).length;
+}
@@ -0,0 +1,626 @@
+/**
+ * Requisition Service
+ * Purchase requisitions from production: request, approve, consolidate into POs.
+ *
+ * **Workflow:**
+ * 1. **Request:** A supervisor lists materials (or bought-in variants), quantities and need-by dates
+ *    ({@link createRequisition}); estimated prices default from the item cost
+ * 2. **Submit:** {@link submitRequisition} starts the approval chain. Every level in
+ *    `purchase_requisition_approval_rules` whose `min_amount` the estimated total reaches must
+ *    approve, lowest level first, by a user with that `user_company_mapping.role`
+ * 3. **Approve:** {@link approveRequisition} / {@link rejectRequisition} act on the next level
+ * 4. **Consolidate:** {@link convertRequisitionsToPurchaseOrders} merges approved material lines
+ *    into one draft PO per vendor and warehouse; each requisition line keeps its PO line
+ */
+import { supabaseServer } from '../config/supabase';
+import { BusinessRuleError, NotFoundError, ValidationError } from './error.service';
+import { addPOLine, createPurchaseOrder } from './purchase.service';
+
+// Types
+export type RequisitionStatus = 'draft' | 'submitted' | 'approved' | 'rejected' | 'converted' | 'cancelled';
+
+export interface PurchaseRequisition {
+    id?: string;
+    company_id: string;
+    requisition_number: string;
+    requisition_date?: string;
+    /** Defaults to the user creating it */
+    requested_by?: string;
+    warehouse_id?: string;
+    /** Default need-by date of the lines */
+    need_by_date?: string;
+    status?: RequisitionStatus;
+    /** Maintained from the lines */
+    estimated_total?: number;
+    notes?: string;
+}
+
+export interface RequisitionLine {
+    id?: string;
+    requisition_id?: string;
+    line_number: number;
+    /** Either a material or a product variant */
+    material_id?: string;
+    product_variant_id?: string;
+    description?: string;
+    qty_requested: number;
+    need_by_date?: string;
+    /** Defaults to the material standard cost / variant unit cost */
+    estimated_unit_price?: number;
+    /** Suggested vendor; defaults to the vendor last ordered from on conversion */
+    vendor_id?: string;
+    notes?: string;
+}
+
+export interface RequisitionApprovalRule {
+    approval_level: number;
+    /** Estimated total from which this level must approve */
+    min_amount: number;
+    /** `user_company_mapping.role` of the approver, e.g. manager, admin, owner */
+    approver_role: string;
+}
+
+export interface RequisitionApproval {
+    id: string;
+    requisition_id: string;
+    approval_level: number;
+    approver_role: string;
+    action: 'approved' | 'rejected';
+    acted_by: string;
+    acted_at: string;
+    notes: string | null;
+}
+
+export interface RequisitionDetail extends PurchaseRequisition {
+    id: string;
+    status: RequisitionStatus;
+    lines: (RequisitionLine & {
+        id: string;
+        estimated_total: number;
+        po_id: string | null;
+        po_line_id: string | null;
+        material: { code: string; name: string; unit_of_measure: string } | null;
+        variant: { sku: string } | null;
+        vendor: { code: string; name: string } | null;
+        purchase_order: { po_number: string; status: string } | null;
+    })[];
+    approvals: RequisitionApproval[];
+}
+
+export interface RequisitionApprovalQueueItem {
+    requisition_id: string;
+    company_id: string;
+    requisition_number: string;
+    requisition_date: string;
+    requested_by: string;
+    need_by_date: string | null;
+    estimated_total: number;
+    submitted_at: string;
+    approval_level: number;
+    approver_role: string;
+}
+
+/** Approved material line ready to be ordered */
+export interface LineToOrder {
+    id: string;
+    requisition_number: string;
+    material_id: string;
+    qty_requested: number;
+    estimated_unit_price: number;
+    need_by_date: string | null;
+    vendor_id: string;
+    warehouse_id: string;
+}
+
+export interface ConsolidatedPurchaseOrder {
+    vendor_id: string;
+    warehouse_id: string;
+    /** Earliest need-by date of the lines */
+    delivery_date: string | null;
+    requisition_numbers: string[];
+    lines: {
+        material_id: string;
+        qty_ordered: number;
+        /** Quantity-weighted estimated price */
+        unit_price: number;
+        requisition_line_ids: string[];
+    }[];
+}
+
+export interface RequisitionConversionResult {
+    purchase_orders: { id: string; po_number: string; vendor_id: string; line_count: number }[];
+    /** Variant lines stay open: PO lines take raw materials only */
+    unconverted_line_ids: string[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// ==================== APPROVAL CHAIN ====================
+
+/**
+ * Replaces the company's approval chain.
+ *
+ * @throws {ValidationError} If levels repeat or a higher level has a lower threshold
+ */
+export async function setRequisitionApprovalRules(companyId: string, rules: RequisitionApprovalRule[]): Promise<void> {
+    const sorted = [...rules].sort((a, b) => a.approval_level - b.approval_level);
+    for (let i = 1; i < sorted.length; i++) {
+        if (sorted[i].approval_level === sorted[i - 1].approval_level) {
+            throw new ValidationError(`Approval level ${sorted[i].approval_level} is defined twice`);
+        }
+        if (sorted[i].min_amount < sorted[i - 1].min_amount) {
+            throw new ValidationError(`Approval level ${sorted[i].approval_level} starts below level ${sorted[i - 1].approval_level}`);
+        }
+    }
+
+    const { error: deleteError } = await supabaseServer
+        .from('purchase_requisition_approval_rules')
+        .delete()
+        .eq('company_id', companyId);
+
+    if (deleteError) throw deleteError;
+    if (sorted.length === 0) return;
+
+    const { error } = await supabaseServer
+        .from('purchase_requisition_approval_rules')
+        .insert(sorted.map(rule => ({ ...rule, company_id: companyId })));
+
+    if (error) throw error;
+}
+
+export async function getRequisitionApprovalRules(companyId: string): Promise<RequisitionApprovalRule[]> {
+    const { data, error } = await supabaseServer
+        .from('purchase_requisition_approval_rules')
+        .select('approval_level, min_amount, approver_role')
+        .eq('company_id', companyId)
+        .order('approval_level');
+
+    if (error) throw error;
+    return data || [];
+}
+
+// ==================== REQUISITIONS ====================
+
+/**
+ * Creates a draft requisition with its lines.
+ *
+ * @param requisition - Header; `requested_by` defaults to the user
+ * @param lines - Materials or variants with quantities
+ * @param userId - UUID of the user
+ * @throws {ValidationError} If there are no lines or a line names both or neither of material and variant
+ * @returns The requisition with its estimated total
+ *
+ * @example
+ * ```typescript
+ * const pr = await createRequisition({
+ *   company_id: companyId,
+ *   requisition_number: 'PR-2025-0012',
+ *   warehouse_id: mainWarehouseId,
+ *   need_by_date: '2025-02-10',
+ *   notes: 'Cutting line 2, order SO-2025-0040'
+ * }, [
+ *   { line_number: 1, material_id: cottonCombedId, qty_requested: 800 },
+ *   { line_number: 2, material_id: ykkZipperId, qty_requested: 1200, vendor_id: zipperVendorId }
+ * ], supervisorId);
+ * await submitRequisition(pr.id, supervisorId);
+ * ```
+ */
+export async function createRequisition(
+    requisition: PurchaseRequisition,
+    lines: RequisitionLine[],
+    userId: string
+): Promise<PurchaseRequisition> {
+    if (lines.length === 0) {
+        throw new ValidationError('A requisition needs at least one line');
+    }
+    for (const line of lines) {
+        if (!!line.material_id === !!line.product_variant_id) {
+            throw new ValidationError(`Line ${line.line_number} needs either a material or a product variant`);
+        }
+        if (!(line.qty_requested > 0)) {
+            throw new ValidationError(`Line ${line.line_number} needs a quantity greater than 0`);
+        }
+    }
+
+    const { data, error } = await supabaseServer
+        .from('purchase_requisitions')
+        .insert({ ...requisition, requested_by: requisition.requested_by || userId, status: 'draft', created_by: userId })
+        .select()
+        .single();
+
+    if (error) throw error;
+
+    const { error: linesError } = await supabaseServer
+        .from('purchase_requisition_lines')
+        .insert(lines.map(line => ({ ...line, requisition_id: data.id })));
+
+    if (linesError) {
+        await supabaseServer.from('purchase_requisitions').delete().eq('id', data.id);
+        throw linesError;
+    }
+
+    return getRequisition(data.id);
+}
+
+/**
+ * Submits a draft into its approval chain.
+ *
+ * @returns 'submitted', or 'approved' when the total is below every approval threshold
+ * @throws {Error} If the requisition is not a draft or has no lines
+ */
+export async function submitRequisition(requisitionId: string, userId: string): Promise<RequisitionStatus> {
+    const { data, error } = await supabaseServer.rpc('submit_purchase_requisition', {
+        p_requisition_id: requisitionId,
+        p_user_id: userId,
+    });
+
+    if (error) throw error;
+    return data;
+}
+
+/**
+ * Approves the next level of a submitted requisition.
+ *
+ * @param requisitionId - UUID of the requisition
+ * @param userId - Approver: needs the level's role (owners may approve any level), not the requester
+ * @param notes - Optional approval remarks
+ * @returns 'submitted' while higher levels remain, else 'approved'
+ * @throws {Error} If the requisition is not awaiting approval or the user may not approve this level
+ */
+export async function approveRequisition(requisitionId: string, userId: string, notes?: string): Promise<RequisitionStatus> {
+    return actOnRequisition(requisitionId, 'approved', userId, notes);
+}
+
+/**
+ * Rejects a submitted requisition at its current level.
+ */
+export async function rejectRequisition(requisitionId: string, userId: string, notes?: string): Promise<RequisitionStatus> {
+    return actOnRequisition(requisitionId, 'rejected', userId, notes);
+}
+
+/**
+ * Cancels a requisition that has not been ordered yet.
+ *
+ * @throws {BusinessRuleError} If it is already converted into POs or cancelled
+ */
+export async function cancelRequisition(requisitionId: string): Promise<void> {
+    const requisition = await getRequisition(requisitionId);
+    if (requisition.status === 'converted' || requisition.status === 'cancelled') {
+        throw new BusinessRuleError(`Requisition ${requisition.requisition_number} is already ${requisition.status}`);
+    }
+
+    const { error } = await supabaseServer
+        .from('purchase_requisitions')
+        .update({ status: 'cancelled' })
+        .eq('id', requisitionId);
+
+    if (error) throw error;
+}
+
+/**
+ * Retrieves a requisition with its lines, approval history and the POs its lines went into.
+ *
+ * @throws {NotFoundError} If the requisition does not exist
+ */
+export async function getRequisition(requisitionId: string): Promise<RequisitionDetail> {
+    const { data, error } = await supabaseServer
+        .from('purchase_requisitions')
+        .select(`
+            *,
+            lines:purchase_requisition_lines(
+                *,
+                material:materials(code, name, unit_of_measure),
+                variant:product_variants(sku),
+                vendor:vendors(code, name),
+                purchase_order:purchase_orders(po_number, status)
+            ),
+            approvals:purchase_requisition_approvals(*)
+        `)
+        .eq('id', requisitionId)
+        .maybeSingle();
+
+    if (error) throw error;
+    if (!data) throw new NotFoundError('Purchase requisition', requisitionId);
+    return data;
+}
+
+/**
+ * Lists requisitions, newest first.
+ *
+ * @param companyId - UUID of the company
+ * @param status - Only this status
+ * @param requestedBy - Only this requester
+ */
+export async function getRequisitions(
+    companyId: string,
+    status?: RequisitionStatus,
+    requestedBy?: string
+): Promise<PurchaseRequisition[]> {
+    let query = supabaseServer
+        .from('purchase_requisitions')
+        .select('*')
+        .eq('company_id', companyId)
+        .order('requisition_date', { ascending: false })
+        .order('created_at', { ascending: false });
+
+    if (status) query = query.eq('status', status);
+    if (requestedBy) query = query.eq('requested_by', requestedBy);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+}
+
+/**
+ * Submitted requisitions with the level and role they wait on.
+ *
+ * @param companyId - UUID of the company
+ * @param role - Only levels this role approves (owners see every level)
+ */
+export async function getRequisitionApprovalQueue(companyId: string, role?: string): Promise<RequisitionApprovalQueueItem[]> {
+    let query = supabaseServer
+        .from('purchase_requisition_approval_queue_vw')
+        .select('*')
+        .eq('company_id', companyId)
+        .order('submitted_at');
+
+    if (role && role !== 'owner') query = query.eq('approver_role', role);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+}
+
+// ==================== CONVERSION TO PURCHASE ORDERS ====================
+
+/**
+ * Groups approved lines into one PO per vendor and warehouse, merging lines of the same material.
+ */
+export function consolidateRequisitionLines(lines: LineToOrder[]): ConsolidatedPurchaseOrder[] {
+    const orders = new Map<string, ConsolidatedPurchaseOrder>();
+
+    for (const line of lines) {
+        const key = `${line.vendor_id}:${line.warehouse_id}`;
+        let order = orders.get(key);
+        if (!order) {
+            order = { vendor_id: line.vendor_id, warehouse_id: line.warehouse_id, delivery_date: null, requisition_numbers: [], lines: [] };
+            orders.set(key, order);
+        }
+
+        if (line.need_by_date && (!order.delivery_date || line.need_by_date < order.delivery_date)) {
+            order.delivery_date = line.need_by_date;
+        }
+        if (!order.requisition_numbers.includes(line.requisition_number)) {
+            order.requisition_numbers.push(line.requisition_number);
+        }
+
+        const qty = Number(line.qty_requested);
+        const price = Number(line.estimated_unit_price || 0);
+        const existing = order.lines.find(l => l.material_id === line.material_id);
+        if (existing) {
+            const total = existing.qty_ordered + qty;
+            existing.unit_price = round2((existing.unit_price * existing.qty_ordered + price * qty) / total);
+            existing.qty_ordered = total;
+            existing.requisition_line_ids.push(line.id);
+        } else {
+            order.lines.push({ material_id: line.material_id, qty_ordered: qty, unit_price: price, requisition_line_ids: [line.id] });
+        }
+    }
+
+    return [...orders.values()];
+}
+
+/**
+ * Consolidates approved requisitions into draft purchase orders.
+ *
+ * **Process:**
+ * 1. Collects the open material lines of the approved requisitions
+ * 2. Vendor: the line's vendor, else the vendor the material was last ordered from
+ * 3. Warehouse: the requisition's, else `params.warehouse_id`
+ * 4. One draft PO per vendor and warehouse via {@link createPurchaseOrder}; lines of the same
+ *    material are merged via {@link addPOLine}, delivery date is the earliest need-by date
+ * 5. Each requisition line records its PO and PO line; fully ordered requisitions become 'converted'
+ *
+ * Variant lines are left open and returned in `unconverted_line_ids`: PO lines take raw materials only.
+ * If any step fails, the draft POs created so far are deleted and the requisitions stay approved.
+ *
+ * @param companyId - UUID of the company
+ * @param requisitionIds - Approved requisitions to order
+ * @param params - PO date, open period and fallback warehouse; `po_number_prefix` defaults to PO-<timestamp>
+ * @param userId - UUID of the buyer
+ * @throws {BusinessRuleError} If a requisition is not approved or nothing is left to order
+ * @throws {ValidationError} If a material has no vendor or a line has no warehouse
+ * @returns The draft POs created and the lines left open
+ *
+ * @example
+ * ```typescript
+ * // PR-0012 (cotton 800 m, zipper 1,200 pcs) and PR-0015 (cotton 400 m)
+ * const result = await convertRequisitionsToPurchaseOrders(companyId, [pr12, pr15], {
+ *   po_date: '2025-02-03',
+ *   period_id: febId,
+ * }, buyerId);
+ * // → PO-xxxxxx-01 to the fabric mill: cotton 1,200 m (PR-0012, PR-0015)
+ * // → PO-xxxxxx-02 to the zipper vendor: 1,200 pcs (PR-0012)
+ * ```
+ */
+export async function convertRequisitionsToPurchaseOrders(
+    companyId: string,
+    requisitionIds: string[],
+    params: { po_date: string; period_id: string; warehouse_id?: string; po_number_prefix?: string },
+    userId: string
+): Promise<RequisitionConversionResult> {
+    const { data, error } = await supabaseServer
+        .from('purchase_requisitions')
+        .select('id, requisition_number, status, warehouse_id, lines:purchase_requisition_lines(*)')
+        .eq('company_id', companyId)
+        .in('id', requisitionIds);
+
+    if (error) throw error;
+    const requisitions = (data || []) as unknown as {
+        id: string;
+        requisition_number: string;
+        status: RequisitionStatus;
+        warehouse_id: string | null;
+        lines: (RequisitionLine & { id: string; po_line_id: string | null })[];
+    }[];
+
+    const missing = requisitionIds.filter(id => !requisitions.some(r => r.id === id));
+    if (missing.length > 0) throw new NotFoundError('Purchase requisition', missing[0]);
+
+    const notApproved = requisitions.filter(r => r.status !== 'approved');
+    if (notApproved.length > 0) {
+        throw new BusinessRuleError(
+            `Only approved requisitions can be ordered: ${notApproved.map(r => `${r.requisition_number} (${r.status})`).join(', ')}`
+        );
+    }
+
+    const openLines = requisitions.flatMap(r =>
+        (r.lines || [])
+            .filter(line => !line.po_line_id)
+            .map(line => ({ ...line, requisition_number: r.requisition_number, warehouse_id: r.warehouse_id || params.warehouse_id }))
+    );
+    const materialLines = openLines.filter(line => line.material_id);
+    const unconverted = openLines.filter(line => !line.material_id).map(line => line.id);
+    if (materialLines.length === 0) {
+        throw new BusinessRuleError('The selected requisitions have no material lines left to order');
+    }
+
+    const lastVendors = await getLastVendorsByMaterial(
+        companyId,
+        materialLines.filter(line => !line.vendor_id).map(line => line.material_id as string)
+    );
+
+    const toOrder: LineToOrder[] = materialLines.map(line => {
+        const materialId = line.material_id as string;
+        const vendorId = line.vendor_id || lastVendors[materialId];
+        if (!vendorId) {
+            throw new ValidationError(`${line.requisition_number} line ${line.line_number}: no vendor given and the material was never ordered`);
+        }
+        if (!line.warehouse_id) {
+            throw new ValidationError(`${line.requisition_number} has no warehouse; pass one to deliver to`);
+        }
+        return {
+            id: line.id,
+            requisition_number: line.requisition_number,
+            material_id: materialId,
+            qty_requested: Number(line.qty_requested),
+            estimated_unit_price: Number(line.estimated_unit_price || 0),
+            need_by_date: line.need_by_date || null,
+            vendor_id: vendorId,
+            warehouse_id: line.warehouse_id,
+        };
+    });
+
+    const prefix = params.po_number_prefix || `PO-${Date.now().toString().slice(-6)}`;
+    const result: RequisitionConversionResult = { purchase_orders: [], unconverted_line_ids: unconverted };
+    const createdPoIds: string[] = [];
+
+    try {
+        for (const [index, order] of consolidateRequisitionLines(toOrder).entries()) {
+            const po = await createPurchaseOrder({
+                company_id: companyId,
+                po_number: `${prefix}-${String(index + 1).padStart(2, '0')}`,
+                po_date: params.po_date,
+                vendor_id: order.vendor_id,
+                warehouse_id: order.warehouse_id,
+                period_id: params.period_id,
+                delivery_date: order.delivery_date || undefined,
+                notes: `From requisitions ${order.requisition_numbers.join(', ')}`,
+            }, userId);
+            createdPoIds.push(po.id as string);
+
+            for (const [lineIndex, line] of order.lines.entries()) {
+                const poLine = await addPOLine({
+                    po_id: po.id as string,
+                    line_number: lineIndex + 1,
+                    material_id: line.material_id,
+                    qty_ordered: line.qty_ordered,
+                    unit_price: line.unit_price,
+                }, userId);
+
+                const { error: linkError } = await supabaseServer
+                    .from('purchase_requisition_lines')
+                    .update({ po_id: po.id, po_line_id: poLine.id })
+                    .in('id', line.requisition_line_ids);
+
+                if (linkError) throw linkError;
+            }
+
+            result.purchase_orders.push({ id: po.id as string, po_number: po.po_number, vendor_id: order.vendor_id, line_count: order.lines.length });
+        }
+
+        const fullyOrdered = requisitions
+            .filter(r => !(r.lines || []).some(line => unconverted.includes(line.id)))
+            .map(r => r.id);
+
+        if (fullyOrdered.length > 0) {
+            const { error: statusError } = await supabaseServer
+                .from('purchase_requisitions')
+                .update({ status: 'converted' })
+                .in('id', fullyOrdered);
+
+            if (statusError) throw statusError;
+        }
+    } catch (err) {
+        // Rollback: deleting the draft POs drops their lines and unlinks the requisition lines
+        if (createdPoIds.length > 0) {
+            await supabaseServer.from('purchase_orders').delete().in('id', createdPoIds);
+        }
+        throw err;
+    }
+
+    return result;
+}
+
+/**
+ * Requisition lines behind a purchase order, with their requesters.
+ */
+export async function getPurchaseOrderRequisitions(poId: string): Promise<(RequisitionLine & {
+    requisition: { requisition_number: string; requisition_date: string; requested_by: string; warehouse_id: string | null };
+})[]> {
+    const { data, error } = await supabaseServer
+        .from('purchase_requisition_lines')
+        .select('*, requisition:purchase_requisitions(requisition_number, requisition_date, requested_by, warehouse_id)')
+        .eq('po_id', poId);
+
+    if (error) throw error;
+    return data || [];
+}
+
+async function actOnRequisition(
+    requisitionId: string,
+    action: 'approved' | 'rejected',
+    userId: string,
+    notes?: string
+): Promise<RequisitionStatus> {
+    const { data, error } = await supabaseServer.rpc('act_on_purchase_requisition', {
+        p_requisition_id: requisitionId,
+        p_action: action,
+        p_notes: notes || null,
+        p_user_id: userId,
+    });
+
+    if (error) throw error;
+    return data;
+}
+
+async function getLastVendorsByMaterial(companyId: string, materialIds: string[]): Promise<Record<string, string>> {
+    const ids = [...new Set(materialIds)];
+    if (ids.length === 0) return {};
+
+    const { data, error } = await supabaseServer
+        .from('purchase_order_lines')
+        .select('material_id, po:purchase_orders!inner(vendor_id, po_date, status, company_id)')
+        .in('material_id', ids)
+        .eq('po.company_id', companyId)
+        .neq('po.status', 'cancelled');
+
+    if (error) throw error;
+
+    const vendors: Record<string, string> = {};
+    const rows = (data || []) as unknown as { material_id: string; po: { vendor_id: string; po_date: string } }[];
+    for (const row of [...rows].sort((a, b) => b.po.po_date.localeCompare(a.po.po_date))) {
+        if (!vendors[row.material_id]) vendors[row.material_id] = row.po.vendor_id;
+    }
+    return vendors;
+}
@@ -16,7 +16,10 @@
  * delivery tracking, invoicing, and accounts receivable.
  */
 import { supabaseServer } from '../config/supabase';
+import { getMappedAccountCodes } from './coa.service';
+import { createJournal } from './journal.service';
 import { validatePeriodIsOpen } from './period.service';
+import { buildSalesJournalLines } from './sales.service';
 
 // ==================== TYPES ====================
 
@@ -44,6 +47,9 @@ export interface SOLine {
     qty_ordered: number;
     unit_price: number;
     discount_percentage?: number;
+    /** Defaults from the customer/product tax codes */
+    tax_code_id?: string;
+    price_includes_tax?: boolean;
     notes?: string;
 }
 
@@ -911,6 +917,9 @@ export interface InvoiceLine {
     qty_invoiced: number;
     unit_price: number;
     discount_percentage?: number;
+    /** Defaults from the SO line, else the customer/product tax codes */
+    tax_code_id?: string;
+    price_includes_tax?: boolean;
     notes?: string;
 }
 
@@ -956,9 +965,9 @@ export interface InvoiceLine {
  *   do_id: doId,
  *   customer_id: customerId,
  *   period_id: periodId,
- *   payment_terms: 'Net 30',
- *   tax_amount: 450000  // 10% PPN
+ *   payment_terms: 'Net 30'
  * }, userId);
+ * // PPN is computed per line from the tax codes and summed into tax_amount
  * 
  * // Add invoice lines
  * await addInvoiceLine({
@@ -1037,15 +1046,14 @@ export async function addInvoiceLine(line: InvoiceLine): Promise<InvoiceLine> {
 /**
  * Posts a sales invoice to create Accounts Receivable.
  * 
- * **This function calls the database RPC `post_sales_invoice` which:**
- * 1. Validates invoice is in draft status
- * 2. **Creates AR liability** (customer owes money)
- * 3. Creates journal entries:
+ * **Posting Process:**
+ * 1. Database RPC `post_sales_invoice` validates the draft status, updates
+ *    SO line qty_invoiced and marks the invoice 'posted' (**creates AR**)
+ * 2. Creates journal entry:
  *    - DR Accounts Receivable (total)
- *    - CR Sales Revenue (subtotal)
- *    - CR Sales Tax Payable (tax)
- * 4. Updates SO line qty_invoiced
- * 5. Changes invoice status to 'posted'
+ *    - DR Sales Discounts (header discount)
+ *    - CR Sales Revenue - Wholesale (subtotal, net of PPN)
+ *    - CR Output VAT (PPN Keluaran, sum of line PPN)
  * 
  * **Important:** This is irreversible. Use {@link voidInvoice} to cancel.
  * 
@@ -1088,12 +1096,62 @@ export async function addInvoiceLine(line: InvoiceLine): Promise<InvoiceLine> {
  * @see {@link voidInvoice} for cancelling posted invoice
  */
 export async function postSalesInvoice(invoiceId: string, userId: string): Promise<void> {
+    const { data: invoice, error: invoiceError } = await supabaseServer
+        .from('sales_invoices')
+        .select('id, company_id, period_id, invoice_number, invoice_date, subtotal, discount_amount, tax_amount')
+        .eq('id', invoiceId)
+        .single();
+
+    if (invoiceError) throw invoiceError;
+    await validatePeriodIsOpen(invoice.period_id);
+
+    const amounts = {
+        subtotal: Number(invoice.subtotal || 0),
+        discount_amount: Number(invoice.discount_amount || 0),
+        tax_amount: Number(invoice.tax_amount || 0),
+    };
+    const accounts = await getMappedAccountCodes(invoice.company_id, [
+        'ACCOUNTS_RECEIVABLE',
+        'SALES_WHOLESALE',
+        ...(amounts.discount_amount > 0 ? ['SALES_DISCOUNTS'] : []),
+        ...(amounts.tax_amount > 0 ? ['VAT_OUTPUT'] : []),
+    ]);
+
     const { error } = await supabaseServer.rpc('post_sales_invoice', {
         p_invoice_id: invoiceId,
         p_user_id: userId,
     });
 
     if (error) throw error;
+
+    const journalLines = buildSalesJournalLines(
+        amounts,
+        {
+            debit: accounts.ACCOUNTS_RECEIVABLE,
+            revenue: accounts.SALES_WHOLESALE,
+            discount: accounts.SALES_DISCOUNTS,
+            tax: accounts.VAT_OUTPUT,
+        },
+        `Sales invoice ${invoice.invoice_number}`
+    );
+    if (journalLines.length === 0) return;
+
+    const journal = await createJournal({
+        company_id: invoice.company_id,
+        period_id: invoice.period_id,
+        journal_number: invoice.invoice_number,
+        journal_date: invoice.invoice_date,
+        description: `Sales invoice ${invoice.invoice_number}`,
+        reference_type: 'SALES_INVOICE',
+        reference_id: invoice.id,
+    }, journalLines, userId);
+
+    const { error: linkError } = await supabaseServer
+        .from('sales_invoices')
+        .update({ journal_id: journal.id })
+        .eq('id', invoiceId);
+
+    if (linkError) throw linkError;
 }
 
 /**
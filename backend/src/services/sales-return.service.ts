@@ -0,0 +1,347 @@
+/**
+ * Sales Return Service
+ * Customer returns against sales orders / invoices (distributor and marketplace)
+ *
+ * **Return Workflow:**
+ * 1. Create return with lines and a QC disposition per line ({@link createSalesReturn})
+ * 2. Post ({@link postSalesReturn}) → goods received into restock / quarantine bins
+ *    or scrapped, then revenue and COGS are reversed in the general ledger
+ *
+ * **Dispositions:**
+ * - RESTOCK: back into a sellable bin of the chosen warehouse
+ * - QUARANTINE: held in the warehouse's quarantine bin for inspection
+ * - SCRAP: received and written off immediately
+ */
+import { supabaseServer } from '../config/supabase';
+import { getMappedAccountCodes } from './coa.service';
+import { BusinessRuleError, ValidationError } from './error.service';
+import { createJournal, JournalLine } from './journal.service';
+import { validatePeriodIsOpen } from './period.service';
+
+// ==================== TYPES ====================
+
+export type ReturnDisposition = 'RESTOCK' | 'QUARANTINE' | 'SCRAP';
+
+export interface SalesReturn {
+    id?: string;
+    company_id: string;
+    return_number: string;
+    return_date: string;
+    so_id?: string;
+    invoice_id?: string;
+    marketplace_order_id?: string;
+    customer_id: string;
+    period_id: string;
+    return_reason?: string;
+    notes?: string;
+}
+
+export interface SalesReturnLine {
+    id?: string;
+    return_id?: string;
+    line_number: number;
+    so_line_id?: string;
+    invoice_line_id?: string;
+    product_variant_id: string;
+    qty_returned: number;
+    unit_price: number;
+    disposition: ReturnDisposition;
+    warehouse_id: string;
+    bin_id?: string;
+    return_reason?: string;
+    notes?: string;
+}
+
+export type SalesReturnStatus = 'draft' | 'posted' | 'void';
+
+/** Stored return header as listed by {@link getSalesReturns} */
+export interface SalesReturnSummary extends SalesReturn {
+    id: string;
+    status: SalesReturnStatus;
+    subtotal: number;
+    total_cost: number;
+    journal_id: string | null;
+    created_at: string;
+    posted_at: string | null;
+    sales_order: { so_number: string } | null;
+    customer: { name: string } | null;
+}
+
+/** Stored return with lines as loaded by {@link getSalesReturn} */
+export interface SalesReturnDetail extends SalesReturnSummary {
+    invoice: { invoice_number: string } | null;
+    lines: (SalesReturnLine & {
+        id: string;
+        line_total: number;
+        unit_cost: number | null;
+        scrap_unit_cost: number | null;
+        variant: { sku: string } | null;
+        warehouse: { name: string } | null;
+        bin: { code: string } | null;
+    })[];
+}
+
+// ==================== SALES RETURNS ====================
+
+/**
+ * Creates a sales return with its lines.
+ *
+ * The return must reference the originating sales order or invoice. Returned
+ * quantities per SO line are validated against delivered quantities by the
+ * database (`validate_sales_return_qty`).
+ *
+ * @param header - Return header
+ * @param header.so_id - Originating sales order (required if no invoice_id)
+ * @param header.invoice_id - Originating sales invoice (required if no so_id)
+ * @param lines - Returned items with disposition and target warehouse/bin
+ * @param userId - UUID of user creating the return
+ *
+ * @throws {ValidationError} If no origin document or no lines are given
+ * @throws {ValidationError} If a RESTOCK line has no bin
+ * @throws {Error} If period is closed or quantities exceed deliveries
+ * @returns Promise resolving to created return
+ *
+ * @example
+ * ```typescript
+ * const salesReturn = await createSalesReturn({
+ *   company_id: companyId,
+ *   return_number: 'SR-2025-001',
+ *   return_date: '2025-01-20',
+ *   so_id: soId,
+ *   customer_id: customerId,
+ *   period_id: periodId,
+ *   return_reason: 'WRONG_SIZE'
+ * }, [
+ *   { line_number: 1, so_line_id, product_variant_id, qty_returned: 2, unit_price: 70000,
+ *     disposition: 'RESTOCK', warehouse_id, bin_id },
+ *   { line_number: 2, so_line_id, product_variant_id, qty_returned: 1, unit_price: 70000,
+ *     disposition: 'SCRAP', warehouse_id }
+ * ], userId);
+ *
+ * await postSalesReturn(salesReturn.id, userId);
+ * ```
+ */
+export async function createSalesReturn(
+    header: SalesReturn,
+    lines: SalesReturnLine[],
+    userId: string
+): Promise<SalesReturn> {
+    if (!header.so_id && !header.invoice_id) {
+        throw new ValidationError('Sales return must reference a sales order or invoice');
+    }
+    if (!lines.length) {
+        throw new ValidationError('Sales return has no lines');
+    }
+    const missingBin = lines.find(line => line.disposition === 'RESTOCK' && !line.bin_id);
+    if (missingBin) {
+        throw new ValidationError(`Line ${missingBin.line_number}: restocked items need a target bin`);
+    }
+
+    await validatePeriodIsOpen(header.period_id);
+
+    const { data: salesReturn, error } = await supabaseServer
+        .from('sales_returns')
+        .insert({ ...header, status: 'draft', created_by: userId })
+        .select()
+        .single();
+
+    if (error) throw error;
+
+    const { error: linesError } = await supabaseServer
+        .from('sales_return_lines')
+        .insert(lines.map(line => ({ ...line, return_id: salesReturn.id })));
+
+    if (linesError) {
+        // Rollback header if lines fail
+        await supabaseServer.from('sales_returns').delete().eq('id', salesReturn.id);
+        throw linesError;
+    }
+
+    return salesReturn;
+}
+
+/**
+ * Posts a sales return to inventory and general ledger.
+ *
+ * **This function:**
+ * 1. Calls RPC `post_sales_return`, which receives each line into its
+ *    restock / quarantine bin (scrap lines are received then written off)
+ *    at the original issue cost and marks the return 'posted'
+ * 2. Creates the reversal journal:
+ *    - DR Sales Returns (contra-revenue) / CR Accounts Receivable — return value
+ *    - DR Finished Goods Inventory — cost of restocked and quarantined items, plus any
+ *      difference between the issue cost of scrapped items and the cost they were written off at
+ *    - DR Inventory Scrap — cost the scrapped items left inventory at
+ *    - CR Cost of Goods Sold — total issue cost of returned items
+ *
+ * @param returnId - UUID of return to post
+ * @param userId - UUID of user posting the return
+ *
+ * @throws {Error} If the return is not in draft or a target bin is missing
+ * @throws {Error} If an account mapping is missing
+ * @returns Created journal ID and number
+ */
+export async function postSalesReturn(
+    returnId: string,
+    userId: string
+): Promise<{ id: string; journal_number: string }> {
+    const { error: postError } = await supabaseServer.rpc('post_sales_return', {
+        p_return_id: returnId,
+        p_user_id: userId,
+    });
+
+    if (postError) throw postError;
+
+    const salesReturn = await getSalesReturn(returnId);
+    const accounts = await getMappedAccountCodes(salesReturn.company_id, [
+        'SALES_RETURNS',
+        'ACCOUNTS_RECEIVABLE',
+        'INVENTORY_FG',
+        'INVENTORY_SCRAP',
+        'COGS_DEFAULT',
+    ]);
+
+    const journal = await createJournal({
+        company_id: salesReturn.company_id,
+        period_id: salesReturn.period_id,
+        journal_number: `JE-${salesReturn.return_number}`,
+        journal_date: salesReturn.return_date,
+        description: `Sales return ${salesReturn.return_number}`,
+        reference_type: 'SALES_RETURN',
+        reference_id: salesReturn.id,
+    }, buildReturnJournalLines(salesReturn.lines, {
+        salesReturns: accounts.SALES_RETURNS,
+        receivable: accounts.ACCOUNTS_RECEIVABLE,
+        inventory: accounts.INVENTORY_FG,
+        scrap: accounts.INVENTORY_SCRAP,
+        cogs: accounts.COGS_DEFAULT,
+    }), userId);
+
+    const { error } = await supabaseServer
+        .from('sales_returns')
+        .update({ journal_id: journal.id })
+        .eq('id', returnId);
+
+    if (error) throw error;
+    return journal;
+}
+
+/**
+ * Builds balanced return journal lines from costed return lines. Zero amounts are omitted.
+ *
+ * Scrapped lines are received at the issue cost and written off at the cost the ledger
+ * took them out at (`scrap_unit_cost`); any difference stays in inventory, as it does in the ledger.
+ */
+export function buildReturnJournalLines(
+    lines: (Pick<SalesReturnLine, 'qty_returned' | 'unit_price' | 'disposition'> & {
+        unit_cost?: number | null;
+        scrap_unit_cost?: number | null;
+    })[],
+    accounts: { salesReturns: string; receivable: string; inventory: string; scrap: string; cogs: string }
+): JournalLine[] {
+    let revenue = 0;
+    let totalCost = 0;
+    let scrappedCost = 0;
+
+    for (const line of lines) {
+        const qty = Number(line.qty_returned);
+        totalCost += qty * Number(line.unit_cost || 0);
+        revenue += qty * Number(line.unit_price);
+        if (line.disposition === 'SCRAP') {
+            scrappedCost += qty * Number(line.scrap_unit_cost ?? line.unit_cost ?? 0);
+        }
+    }
+
+    const round2 = (value: number) => Math.round(value * 100) / 100;
+    const inventory = round2(round2(totalCost) - round2(scrappedCost));
+
+    const journalLines: JournalLine[] = [
+        { account_code: accounts.salesReturns, debit: round2(revenue), credit: 0, description: 'Sales return' },
+        { account_code: accounts.receivable, debit: 0, credit: round2(revenue), description: 'Credit customer for return' },
+        {
+            account_code: accounts.inventory,
+            debit: inventory > 0 ? inventory : 0,
+            credit: inventory < 0 ? -inventory : 0,
+            description: 'Returned goods to inventory',
+        },
+        { account_code: accounts.scrap, debit: round2(scrappedCost), credit: 0, description: 'Scrapped returned goods' },
+        { account_code: accounts.cogs, debit: 0, credit: round2(totalCost), description: 'Reverse COGS' },
+    ];
+
+    return journalLines.filter(line => line.debit > 0 || line.credit > 0);
+}
+
+/**
+ * Retrieves a sales return with lines and origin documents.
+ *
+ * @param returnId - UUID of the return
+ * @throws {Error} If return not found
+ */
+export async function getSalesReturn(returnId: string): Promise<SalesReturnDetail> {
+    const { data, error } = await supabaseServer
+        .from('sales_returns')
+        .select(`
+      *,
+      sales_order:sales_orders(so_number),
+      invoice:sales_invoices(invoice_number),
+      customer:customers(name),
+      lines:sales_return_lines(*, variant:product_variants(sku), warehouse:warehouses(name), bin:bins(code))
+    `)
+        .eq('id', returnId)
+        .single();
+
+    if (error) throw error;
+    return data;
+}
+
+/**
+ * Lists sales returns for a company, newest first.
+ */
+export async function getSalesReturns(companyId: string): Promise<SalesReturnSummary[]> {
+    const { data, error } = await supabaseServer
+        .from('sales_returns')
+        .select('*, sales_order:sales_orders(so_number), customer:customers(name)')
+        .eq('company_id', companyId)
+        .order('return_date', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+}
+
+/**
+ * Voids a draft sales return. Posted returns must be reversed by a new document.
+ *
+ * @throws {BusinessRuleError} If the return is already posted
+ */
+export async function voidSalesReturn(returnId: string): Promise<void> {
+    const { data: salesReturn, error: fetchError } = await supabaseServer
+        .from('sales_returns')
+        .select('status')
+        .eq('id', returnId)
+        .single();
+
+    if (fetchError) throw fetchError;
+    if (salesReturn.status === 'posted') {
+        throw new BusinessRuleError('Posted sales returns cannot be voided');
+    }
+
+    const { error } = await supabaseServer
+        .from('sales_returns')
+        .update({ status: 'void' })
+        .eq('id', returnId);
+
+    if (error) throw error;
+}
+
+/**
+ * Deletes a sales return that is still a draft, with its lines. Posted and void returns are kept.
+ */
+export async function deleteDraftSalesReturn(returnId: string): Promise<void> {
+    const { error } = await supabaseServer
+        .from('sales_returns')
+        .delete()
+        .eq('id', returnId)
+        .eq('status', 'draft');
+
+    if (error) throw error;
+}
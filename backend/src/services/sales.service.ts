@@ -6,6 +6,8 @@
  * sales analytics, and multi-payment method support.
  */
 import { supabaseServer } from '../config/supabase';
+import { getMappedAccountCodes } from './coa.service';
+import { createJournal, JournalLine } from './journal.service';
 import { validatePeriodIsOpen } from './period.service';
 
 // ==================== TYPES ====================
@@ -34,8 +36,21 @@ export interface POSLine {
     qty: number;
     unit_price: number;
     discount_percentage?: number;
+    /** Defaults from the customer/product tax codes */
+    tax_code_id?: string;
+    /** POS prices include PPN unless set to false */
+    price_includes_tax?: boolean;
 }
 
+/** Header amounts of a sales document as stored (subtotal excludes PPN) */
+export interface SalesJournalAmounts {
+    subtotal: number;
+    discount_amount: number;
+    tax_amount: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
 // ==================== SALES POS ====================
 
 /**
@@ -108,6 +123,8 @@ export async function createPOSSale(pos: SalesPOS, userId: string): Promise<Sale
  * 
  * Each line represents one product variant with quantity and price.
  * Discounts can be applied at the line level as a percentage.
+ * PPN is computed per line from the tax code (customer/product default);
+ * POS prices include PPN, so the sale subtotal holds the net amount.
  * 
  * @param line - POS line item details
  * @param line.pos_id - UUID of the parent POS transaction
@@ -150,14 +167,13 @@ export async function addPOSLine(line: POSLine): Promise<POSLine> {
 /**
  * Posts a POS sale to inventory and general ledger.
  * 
- * **This function calls the database RPC `post_pos_sale` which:**
- * 1. Issues finished goods inventory (reduces quantity)
- * 2. Creates journal entries:
- *    - DR Cash/Bank (or AR)
- *    - CR Sales Revenue
- *    - DR Cost of Goods Sold
- *    - CR Finished Goods Inventory
- * 3. Updates POS status to 'posted'
+ * **Posting Process:**
+ * 1. Database RPC `post_pos_sale` issues finished goods inventory and marks the sale 'posted'
+ * 2. Creates journal entry:
+ *    - DR Cash (cash sales) or Bank (transfer, card, check, giro)
+ *    - DR Sales Discounts (header discount)
+ *    - CR Sales Revenue - POS (net of PPN)
+ *    - CR Output VAT (PPN Keluaran)
  * 
  * **Important:** This is a blocking operation. Inventory is immediately deducted.
  * 
@@ -185,12 +201,111 @@ export async function addPOSLine(line: POSLine): Promise<POSLine> {
  * @see {@link voidPOSSale} for cancelling posted sales
  */
 export async function postPOSSale(posId: string, userId: string): Promise<void> {
+    const { data: pos, error: posError } = await supabaseServer
+        .from('sales_pos')
+        .select('id, company_id, period_id, pos_number, sale_date, payment_method, subtotal, discount_amount, tax_amount')
+        .eq('id', posId)
+        .single();
+
+    if (posError) throw posError;
+    await validatePeriodIsOpen(pos.period_id);
+
+    const amounts: SalesJournalAmounts = {
+        subtotal: Number(pos.subtotal || 0),
+        discount_amount: Number(pos.discount_amount || 0),
+        tax_amount: Number(pos.tax_amount || 0),
+    };
+    const debitCode = pos.payment_method === 'CASH' ? 'DEFAULT_CASH' : 'DEFAULT_BANK';
+    const accounts = await getMappedAccountCodes(pos.company_id, [
+        debitCode,
+        'SALES_POS',
+        ...(amounts.discount_amount > 0 ? ['SALES_DISCOUNTS'] : []),
+        ...(amounts.tax_amount > 0 ? ['VAT_OUTPUT'] : []),
+    ]);
+
     const { error } = await supabaseServer.rpc('post_pos_sale', {
         p_pos_id: posId,
         p_user_id: userId,
     });
 
     if (error) throw error;
+
+    const journalLines = buildSalesJournalLines(
+        amounts,
+        {
+            debit: accounts[debitCode],
+            revenue: accounts.SALES_POS,
+            discount: accounts.SALES_DISCOUNTS,
+            tax: accounts.VAT_OUTPUT,
+        },
+        `POS sale ${pos.pos_number}`
+    );
+    if (journalLines.length === 0) return;
+
+    const journal = await createJournal({
+        company_id: pos.company_id,
+        period_id: pos.period_id,
+        journal_number: pos.pos_number,
+        journal_date: pos.sale_date,
+        description: `POS sale ${pos.pos_number}`,
+        reference_type: 'SALES_POS',
+        reference_id: pos.id,
+    }, journalLines, userId);
+
+    const { error: linkError } = await supabaseServer
+        .from('sales_pos')
+        .update({ journal_id: journal.id })
+        .eq('id', posId);
+
+    if (linkError) throw linkError;
+}
+
+/**
+ * Revenue journal lines for a POS sale or sales invoice.
+ * 
+ * The debit account (cash, bank or receivable) takes the document total:
+ * subtotal - discount + PPN. Revenue is credited at the net subtotal,
+ * PPN to output VAT, and the header discount is debited to sales discounts.
+ * 
+ * @example
+ * ```typescript
+ * buildSalesJournalLines(
+ *   { subtotal: 1000000, discount_amount: 0, tax_amount: 110000 },
+ *   { debit: '1100', revenue: '4020', tax: '2030' },
+ *   'Invoice INV-001'
+ * );
+ * // Dr 1100  1,110,000 / Cr 4020  1,000,000 / Cr 2030  110,000
+ * ```
+ */
+export function buildSalesJournalLines(
+    amounts: SalesJournalAmounts,
+    accounts: { debit: string; revenue: string; discount?: string; tax?: string },
+    description: string
+): JournalLine[] {
+    const subtotal = round2(amounts.subtotal);
+    const discount = round2(amounts.discount_amount);
+    const tax = round2(amounts.tax_amount);
+    const total = round2(subtotal - discount + tax);
+    if (subtotal === 0 && tax === 0) return [];
+
+    if (discount > 0 && !accounts.discount) {
+        throw new Error('Sales discount account is required when the document has a discount');
+    }
+    if (tax > 0 && !accounts.tax) {
+        throw new Error('Output VAT account is required when the document has tax');
+    }
+
+    const lines: JournalLine[] = [
+        { account_code: accounts.debit, debit: total, credit: 0, description },
+    ];
+    if (discount > 0) {
+        lines.push({ account_code: accounts.discount as string, debit: discount, credit: 0, description });
+    }
+    lines.push({ account_code: accounts.revenue, debit: 0, credit: subtotal, description });
+    if (tax > 0) {
+        lines.push({ account_code: accounts.tax as string, debit: 0, credit: tax, description: `PPN ${description}` });
+    }
+    return lines;
 }
 
 /**
@@ -0,0 +1,559 @@
+/**
+ * Tax Service
+ * Indonesian PPN (VAT) and PPh (withholding) tax codes.
+ *
+ * **How tax reaches a document:**
+ * 1. **Master data:** Customers, vendors, products and materials carry a default `tax_code_id`
+ * 2. **Line default:** A new POS/SO/sales invoice/PO/vendor invoice line without a code takes
+ *    the source order line's code, else {@link resolveLineTaxCode} of party and item
+ * 3. **Line tax:** `calculate_line_tax` splits the line into net amount, DPP and PPN
+ *    ({@link calculateLineTax} is the same calculation for previews)
+ * 4. **Header:** subtotal = net line amounts, tax_amount = sum of line PPN
+ * 5. **Journal:** Output VAT (VAT_OUTPUT) on sales invoices and POS, input VAT (VAT_INPUT) on vendor invoices
+ *
+ * **PPh 23 withholding:** A vendor's `withholding_tax_code_id` is copied to its payments; each
+ * allocation withholds {@link calculateWithholding} of the invoice DPP settled, credited to
+ * WITHHOLDING_TAX_PAYABLE, and posting issues the bukti potong ({@link issueWithholdingCertificate}).
+ *
+ * **PPN 12% from 2025:** Non-luxury goods are taxed at 12% of a DPP of 11/12 of the price
+ * (effective 11%); luxury goods at 12% of the full price. Both are seeded as separate codes.
+ */
+import { supabaseServer } from '../config/supabase';
+import { NotFoundError, ValidationError } from './error.service';
+
+// Types
+export type TaxType = 'PPN' | 'PPH';
+export type TaxCategory = 'STANDARD' | 'ZERO_RATED' | 'EXEMPT' | 'WITHHOLDING';
+
+export interface TaxCode {
+    id?: string;
+    company_id: string;
+    code: string;
+    name: string;
+    tax_type: TaxType;
+    category: TaxCategory;
+    /** Percentage, e.g. 11 for 11% */
+    rate: number;
+    /** Share of the net amount that forms the DPP, e.g. 11/12 */
+    dpp_factor?: number;
+    description?: string;
+    is_active?: boolean;
+}
+
+export type TaxCodeRates = Pick<TaxCode, 'code' | 'tax_type' | 'category' | 'rate' | 'dpp_factor'>;
+
+export interface LineTax {
+    /** Line amount excluding PPN */
+    taxable_amount: number;
+    /** DPP reported on the tax invoice, null for lines without a tax code */
+    tax_base: number | null;
+    tax_rate: number;
+    tax_amount: number;
+}
+
+export interface VatSummary {
+    output_vat: number;
+    input_vat: number;
+    /** Positive: PPN kurang bayar (payable), negative: lebih bayar (carried forward) */
+    net_vat_payable: number;
+    sales_invoice_count: number;
+    pos_count: number;
+    vendor_invoice_count: number;
+}
+
+export interface WithholdingAmount {
+    /** Invoice DPP (excluding PPN) settled, in the payment currency */
+    withholding_base: number;
+    withholding_rate: number;
+    /** PPh withheld, in the payment currency (what the vendor is not paid) */
+    withholding_amount: number;
+    /** DPP at the payment rate, as reported on the bukti potong */
+    withholding_base_idr: number;
+    /** PPh withheld and owed to the tax office, in whole rupiah */
+    withholding_amount_idr: number;
+}
+
+export interface WithholdingCertificate {
+    id: string;
+    company_id: string;
+    certificate_number: string;
+    payment_id: string;
+    vendor_id: string;
+    tax_code_id: string;
+    withholding_date: string;
+    /** First day of the masa pajak */
+    tax_period: string;
+    vendor_name: string;
+    vendor_tax_id: string | null;
+    object_code: string | null;
+    /** In rupiah, also for foreign currency payments */
+    tax_base: number;
+    tax_rate: number;
+    /** In rupiah, also for foreign currency payments */
+    withholding_amount: number;
+    status: 'issued' | 'cancelled';
+    cancelled_reason: string | null;
+}
+
+export interface WithholdingSummaryLine {
+    tax_code: string;
+    tax_code_name: string;
+    object_code: string | null;
+    certificate_count: number;
+    vendor_count: number;
+    total_tax_base: number;
+    total_withheld: number;
+}
+
+export interface WithholdingSummary {
+    /** First day of the masa pajak */
+    tax_period: string;
+    lines: WithholdingSummaryLine[];
+    total_tax_base: number;
+    total_withheld: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// ==================== CALCULATION ====================
+
+/**
+ * Splits a line amount into net amount, DPP and PPN.
+ *
+ * Mirrors the database function `calculate_line_tax`, which is what documents store.
+ * Exclusive prices: PPN = DPP × rate. Inclusive prices: net = gross / (1 + rate × dpp_factor)
+ * and PPN is the remainder, so net + PPN always equals the gross amount.
+ *
+ * @param amount - Line amount after line discount
+ * @param taxCode - PPN code, or null for an untaxed line
+ * @param priceIncludesTax - Whether `amount` already contains PPN
+ * @throws {ValidationError} If a withholding (PPh) code is used
+ * @returns Net amount, DPP, rate and tax
+ *
+ * @example
+ * ```typescript
+ * calculateLineTax(1000000, { code: 'PPN12', tax_type: 'PPN', category: 'STANDARD', rate: 12, dpp_factor: 11 / 12 }, false);
+ * // { taxable_amount: 1000000, tax_base: 916666.67, tax_rate: 12, tax_amount: 110000 }
+ *
+ * calculateLineTax(111000, { code: 'PPN11', tax_type: 'PPN', category: 'STANDARD', rate: 11 }, true);
+ * // { taxable_amount: 100000, tax_base: 100000, tax_rate: 11, tax_amount: 11000 }
+ * ```
+ */
+export function calculateLineTax(amount: number, taxCode: TaxCodeRates | null, priceIncludesTax: boolean): LineTax {
+    const gross = round2(amount);
+    if (!taxCode) {
+        return { taxable_amount: gross, tax_base: null, tax_rate: 0, tax_amount: 0 };
+    }
+    if (taxCode.tax_type !== 'PPN') {
+        throw new ValidationError(`Tax code ${taxCode.code} is a withholding code and cannot be used on a document line`);
+    }
+    if (taxCode.category !== 'STANDARD') {
+        return { taxable_amount: gross, tax_base: gross, tax_rate: 0, tax_amount: 0 };
+    }
+
+    const dppFactor = Number(taxCode.dpp_factor ?? 1);
+    const rate = Number(taxCode.rate);
+
+    if (priceIncludesTax) {
+        const taxable = round2(amount / (1 + rate * dppFactor / 100));
+        return {
+            taxable_amount: taxable,
+            tax_base: round2(taxable * dppFactor),
+            tax_rate: rate,
+            tax_amount: round2(gross - taxable),
+        };
+    }
+
+    const taxBase = round2(gross * dppFactor);
+    return { taxable_amount: gross, tax_base: taxBase, tax_rate: rate, tax_amount: round2(taxBase * rate / 100) };
+}
+
+/**
+ * Picks the default tax code for a document line (mirrors `resolve_line_tax_code`).
+ *
+ * A party code that is not STANDARD (non-PKP vendor, zero-rated export customer) wins over
+ * the item's code; otherwise the product/material decides, falling back to the party's code.
+ *
+ * @param partyCode - Customer or vendor tax code
+ * @param itemCode - Product or material tax code
+ * @returns The code to use, or null when neither has one
+ */
+export function resolveLineTaxCode<T extends Pick<TaxCode, 'category'>>(partyCode: T | null, itemCode: T | null): T | null {
+    if (partyCode && partyCode.category !== 'STANDARD') return partyCode;
+    return itemCode ?? partyCode;
+}
+
+/**
+ * PPh withheld when a payment settles part of a vendor invoice.
+ *
+ * PPh 23 is charged on the amount excluding PPN, so the DPP settled is the
+ * allocation's share of the invoice subtotal. PPh is reported and paid in rupiah: for
+ * foreign currency payments the DPP is converted at the payment rate before the tax is
+ * rounded down to whole rupiah, and the vendor is short-paid that rupiah amount converted back.
+ *
+ * @param amountSettled - Invoice amount (including PPN) the allocation settles
+ * @param invoice - Invoice subtotal (excluding PPN) and PPN
+ * @param taxCode - The payment's PPh code, or null when nothing is withheld
+ * @param exchangeRate - Payment rate to rupiah (1 for IDR payments)
+ * @throws {ValidationError} If a PPN code is given
+ *
+ * @example
+ * ```typescript
+ * // Sewing subcontractor invoice: 10,000,000 + PPN 1,100,000, paid in full
+ * calculateWithholding(11100000, { subtotal: 10000000, tax_amount: 1100000 }, pph23);
+ * // { withholding_base: 10000000, withholding_rate: 2, withholding_amount: 200000, ... }
+ *
+ * // USD 1,000 design service, no PPN, paid at 15,800:
+ * calculateWithholding(1000, { subtotal: 1000, tax_amount: 0 }, pph23, 15800);
+ * // { withholding_base_idr: 15800000, withholding_amount_idr: 316000, withholding_amount: 20, ... }
+ * ```
+ */
+export function calculateWithholding(
+    amountSettled: number,
+    invoice: { subtotal: number; tax_amount: number },
+    taxCode: TaxCodeRates | null,
+    exchangeRate = 1
+): WithholdingAmount {
+    if (!taxCode) {
+        return {
+            withholding_base: 0,
+            withholding_rate: 0,
+            withholding_amount: 0,
+            withholding_base_idr: 0,
+            withholding_amount_idr: 0,
+        };
+    }
+    if (taxCode.tax_type !== 'PPH') {
+        throw new ValidationError(`Tax code ${taxCode.code} is not a withholding code`);
+    }
+
+    const subtotal = Number(invoice.subtotal || 0);
+    const invoiceTotal = subtotal + Number(invoice.tax_amount || 0);
+    const base = invoiceTotal > 0 ? round2(amountSettled * subtotal / invoiceTotal) : 0;
+    const rate = Number(taxCode.rate);
+    const fxRate = Number(exchangeRate || 1);
+    const baseIdr = round2(base * fxRate);
+    const amountIdr = Math.floor(round2(baseIdr * rate / 100));
+
+    return {
+        withholding_base: base,
+        withholding_rate: rate,
+        withholding_amount: fxRate === 1 ? amountIdr : round2(amountIdr / fxRate),
+        withholding_base_idr: baseIdr,
+        withholding_amount_idr: amountIdr,
+    };
+}
+
+// ==================== TAX CODES ====================
+
+/**
+ * Lists a company's tax codes.
+ *
+ * @param companyId - UUID of the company
+ * @param taxType - Only PPN or only PPH codes
+ * @param includeInactive - Include deactivated codes
+ */
+export async function getTaxCodes(companyId: string, taxType?: TaxType, includeInactive = false): Promise<TaxCode[]> {
+    let query = supabaseServer
+        .from('tax_codes')
+        .select('*')
+        .eq('company_id', companyId)
+        .order('tax_type')
+        .order('code');
+
+    if (taxType) query = query.eq('tax_type', taxType);
+    if (!includeInactive) query = query.eq('is_active', true);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+}
+
+/**
+ * Retrieves a tax code.
+ *
+ * @throws {NotFoundError} If the code does not exist
+ */
+export async function getTaxCode(taxCodeId: string): Promise<TaxCode> {
+    const { data, error } = await supabaseServer
+        .from('tax_codes')
+        .select('*')
+        .eq('id', taxCodeId)
+        .maybeSingle();
+
+    if (error) throw error;
+    if (!data) throw new NotFoundError('Tax code', taxCodeId);
+    return data;
+}
+
+/**
+ * Creates a tax code.
+ *
+ * PPN codes are STANDARD, ZERO_RATED or EXEMPT; PPh codes are WITHHOLDING.
+ * Only STANDARD and WITHHOLDING codes carry a rate.
+ *
+ * @param taxCode - Code details
+ * @param userId - UUID of the creating user
+ * @throws {ValidationError} If type, category, rate or DPP factor do not fit together
+ *
+ * @example
+ * ```typescript
+ * await createTaxCode({
+ *   company_id: companyId,
+ *   code: 'PPH4-2',
+ *   name: 'PPh 4(2) Sewa 10%',
+ *   tax_type: 'PPH',
+ *   category: 'WITHHOLDING',
+ *   rate: 10
+ * }, userId);
+ * ```
+ */
+export async function createTaxCode(taxCode: TaxCode, userId: string): Promise<TaxCode> {
+    validateTaxCode(taxCode);
+
+    const { data, error } = await supabaseServer
+        .from('tax_codes')
+        .insert({ ...taxCode, created_by: userId })
+        .select()
+        .single();
+
+    if (error) throw error;
+    return data;
+}
+
+/**
+ * Updates a tax code.
+ *
+ * Rate changes apply to lines entered or edited afterwards; existing lines keep their stored tax.
+ *
+ * @throws {ValidationError} If the resulting code is inconsistent
+ */
+export async function updateTaxCode(
+    taxCodeId: string,
+    updates: Partial<Omit<TaxCode, 'id' | 'company_id'>>
+): Promise<TaxCode> {
+    const current = await getTaxCode(taxCodeId);
+    validateTaxCode({ ...current, ...updates });
+
+    const { data, error } = await supabaseServer
+        .from('tax_codes')
+        .update(updates)
+        .eq('id', taxCodeId)
+        .select()
+        .single();
+
+    if (error) throw error;
+    return data;
+}
+
+/**
+ * Deactivates a tax code. Documents and master data that use it are unchanged.
+ */
+export async function deactivateTaxCode(taxCodeId: string): Promise<void> {
+    const { error } = await supabaseServer
+        .from('tax_codes')
+        .update({ is_active: false })
+        .eq('id', taxCodeId);
+
+    if (error) throw error;
+}
+
+/**
+ * Creates the standard codes (PPN 11%, PPN 12% DPP 11/12, PPN 12% luxury,
+ * zero-rated, exempt, PPh 23 2%/4%) for a company. Existing codes are kept.
+ *
+ * @returns Number of codes created
+ */
+export async function seedTaxCodes(companyId: string): Promise<number> {
+    const { data, error } = await supabaseServer.rpc('seed_tax_codes', { p_company_id: companyId });
+
+    if (error) throw error;
+    return data || 0;
+}
+
+// ==================== REPORTING ====================
+
+/**
+ * Output VAT vs input VAT over posted documents, the basis of the monthly SPT Masa PPN.
+ *
+ * @param companyId - UUID of the company
+ * @param fromDate - First document date (inclusive)
+ * @param toDate - Last document date (inclusive)
+ */
+export async function getVatSummary(companyId: string, fromDate: string, toDate: string): Promise<VatSummary> {
+    const [sales, pos, purchases] = await Promise.all([
+        supabaseServer
+            .from('sales_invoices')
+            .select('tax_amount')
+            .eq('company_id', companyId)
+            .eq('status', 'posted')
+            .gte('invoice_date', fromDate)
+            .lte('invoice_date', toDate),
+        supabaseServer
+            .from('sales_pos')
+            .select('tax_amount')
+            .eq('company_id', companyId)
+            .eq('status', 'posted')
+            .gte('sale_date', fromDate)
+            .lte('sale_date', toDate),
+        supabaseServer
+            .from('vendor_invoices')
+            .select('tax_amount')
+            .eq('company_id', companyId)
+            .eq('status', 'posted')
+            .gte('invoice_date', fromDate)
+            .lte('invoice_date', toDate),
+    ]);
+
+    if (sales.error) throw sales.error;
+    if (pos.error) throw pos.error;
+    if (purchases.error) throw purchases.error;
+
+    const sum = (rows: { tax_amount: number | null }[] | null) =>
+        round2((rows || []).reduce((total, row) => total + Number(row.tax_amount || 0), 0));
+
+    const outputVat = round2(sum(sales.data) + sum(pos.data));
+    const inputVat = sum(purchases.data);
+
+    return {
+        output_vat: outputVat,
+        input_vat: inputVat,
+        net_vat_payable: round2(outputVat - inputVat),
+        sales_invoice_count: sales.data?.length || 0,
+        pos_count: pos.data?.length || 0,
+        vendor_invoice_count: purchases.data?.length || 0,
+    };
+}
+
+// ==================== WITHHOLDING ====================
+
+/**
+ * Issues the bukti potong for a posted vendor payment with PPh withheld.
+ *
+ * Numbered BP-YYYYMM-NNNN per company and month. Calling it again returns the existing certificate.
+ *
+ * @param paymentId - UUID of the posted payment
+ * @param userId - UUID of the issuing user
+ * @throws {Error} If the payment is not posted
+ * @returns Certificate id, or null when the payment has no withholding
+ */
+export async function issueWithholdingCertificate(paymentId: string, userId: string): Promise<string | null> {
+    const { data, error } = await supabaseServer.rpc('issue_withholding_certificate', {
+        p_payment_id: paymentId,
+        p_user_id: userId,
+    });
+
+    if (error) throw error;
+    return data;
+}
+
+/**
+ * Lists bukti potong issued in a masa pajak.
+ *
+ * @param companyId - UUID of the company
+ * @param taxPeriod - Month as YYYY-MM
+ * @param vendorId - Only certificates of this vendor
+ */
+export async function getWithholdingCertificates(
+    companyId: string,
+    taxPeriod: string,
+    vendorId?: string
+): Promise<WithholdingCertificate[]> {
+    let query = supabaseServer
+        .from('withholding_certificates')
+        .select('*')
+        .eq('company_id', companyId)
+        .eq('tax_period', toTaxPeriod(taxPeriod))
+        .order('certificate_number');
+
+    if (vendorId) query = query.eq('vendor_id', vendorId);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+}
+
+/**
+ * Cancels a bukti potong, e.g. after the payment was reversed. The number is not reused.
+ *
+ * @throws {ValidationError} If no reason is given
+ */
+export async function cancelWithholdingCertificate(certificateId: string, reason: string): Promise<void> {
+    if (!reason || !reason.trim()) {
+        throw new ValidationError('A cancellation reason is required');
+    }
+
+    const { error } = await supabaseServer
+        .from('withholding_certificates')
+        .update({ status: 'cancelled', cancelled_reason: reason })
+        .eq('id', certificateId)
+        .eq('status', 'issued');
+
+    if (error) throw error;
+}
+
+/**
+ * PPh withheld in a masa pajak per tax code and object code, for the SPT Masa PPh 23.
+ *
+ * @param companyId - UUID of the company
+ * @param taxPeriod - Month as YYYY-MM
+ *
+ * @example
+ * ```typescript
+ * const summary = await getWithholdingSummary(companyId, '2025-02');
+ * // summary.total_withheld → remit by the 15th of the following month
+ * ```
+ */
+export async function getWithholdingSummary(companyId: string, taxPeriod: string): Promise<WithholdingSummary> {
+    const period = toTaxPeriod(taxPeriod);
+    const { data, error } = await supabaseServer
+        .from('withholding_monthly_summary_vw')
+        .select('tax_code, tax_code_name, object_code, certificate_count, vendor_count, total_tax_base, total_withheld')
+        .eq('company_id', companyId)
+        .eq('tax_period', period)
+        .order('tax_code');
+
+    if (error) throw error;
+
+    const lines: WithholdingSummaryLine[] = (data || []).map((row: WithholdingSummaryLine) => ({
+        ...row,
+        certificate_count: Number(row.certificate_count),
+        vendor_count: Number(row.vendor_count),
+        total_tax_base: Number(row.total_tax_base),
+        total_withheld: Number(row.total_withheld),
+    }));
+
+    return {
+        tax_period: period,
+        lines,
+        total_tax_base: round2(lines.reduce((sum, line) => sum + line.total_tax_base, 0)),
+        total_withheld: round2(lines.reduce((sum, line) => sum + line.total_withheld, 0)),
+    };
+}
+
+function toTaxPeriod(month: string): string {
+    if (!/^\d{4}-\d{2}$/.test(month)) {
+        throw new ValidationError('Tax period must be given as YYYY-MM');
+    }
+    return `${month}-01`;
+}
+
+function validateTaxCode(taxCode: Pick<TaxCode, 'code' | 'tax_type' | 'category' | 'rate' | 'dpp_factor'>): void {
+    const ppnCategories: TaxCategory[] = ['STANDARD', 'ZERO_RATED', 'EXEMPT'];
+    if (taxCode.tax_type === 'PPN' && !ppnCategories.includes(taxCode.category)) {
+        throw new ValidationError(`PPN code ${taxCode.code} must be STANDARD, ZERO_RATED or EXEMPT`);
+    }
+    if (taxCode.tax_type === 'PPH' && taxCode.category !== 'WITHHOLDING') {
+        throw new ValidationError(`PPh code ${taxCode.code} must be WITHHOLDING`);
+    }
+    if (taxCode.rate < 0 || taxCode.rate > 100) {
+        throw new ValidationError('Tax rate must be between 0 and 100');
+    }
+    if ((taxCode.category === 'ZERO_RATED' || taxCode.category === 'EXEMPT') && taxCode.rate !== 0) {
+        throw new ValidationError(`${taxCode.category} code ${taxCode.code} must have a rate of 0`);
+    }
+    const dppFactor = taxCode.dpp_factor ?? 1;
+    if (dppFactor <= 0 || dppFactor > 1) {
+        throw new ValidationError('DPP factor must be greater than 0 and at most 1');
+    }
+}
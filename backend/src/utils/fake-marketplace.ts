@@ -0,0 +1,620 @@
+/**
+ * Fake Marketplace
+ * Local HTTP stand-in for the Shopee, Tokopedia, TikTok Shop and Lazada order and product APIs.
+ * Point a marketplace account's api_base_url at it to run order sync and stock push offline.
+ */
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import type { MarketplacePlatform } from '../services/marketplace.service';
+
+export interface FakeOrderItem {
+    sku: string;
+    name: string;
+    variation?: string;
+    quantity: number;
+    original_price: number;
+    deal_price: number;
+}
+
+export interface FakeOrder {
+    id: string;
+    /** Status in the platform's own vocabulary (e.g. READY_TO_SHIP, 400, AWAITING_SHIPMENT, packed) */
+    status: string;
+    created_at: string;
+    updated_at: string;
+    buyer: string;
+    total_amount: number;
+    shipping_fee: number;
+    items: FakeOrderItem[];
+}
+
+export interface FakeListing {
+    /** Parent product / item ID */
+    item_id: string;
+    /** Variation (model / SKU) ID; '0' for items without variations */
+    variation_id: string;
+    sku: string;
+    name: string;
+    stock: number;
+}
+
+/** Request bodies the fake reads, per endpoint */
+interface ShopeeStockBody {
+    item_id: number;
+    stock_list?: { model_id: number; seller_stock: { stock: number }[] }[];
+}
+
+interface TokopediaStockRow {
+    product_id: number;
+    new_stock: number;
+}
+
+interface TikTokOrderSearchBody {
+    update_time_ge: number;
+    update_time_lt: number;
+}
+
+interface TikTokInventoryBody {
+    skus?: { id: string; inventory: { quantity: number }[] }[];
+}
+
+const TOKEN_TTL_SECONDS = 4 * 60 * 60;
+
+export class FakeMarketplace {
+    orders: Record<MarketplacePlatform, FakeOrder[]> = { Shopee: [], Tokopedia: [], TikTok: [], Lazada: [] };
+    listings: Record<MarketplacePlatform, FakeListing[]> = { Shopee: [], Tokopedia: [], TikTok: [], Lazada: [] };
+    accessToken = 'fake-access-token';
+    refreshToken = 'fake-refresh-token';
+    refreshCount = 0;
+    /** Every request path received, in order */
+    requests: string[] = [];
+
+    private server: Server | null = null;
+    private tokenSeq = 0;
+
+    /**
+     * Starts listening on a random local port.
+     * @returns Base URL to use as api_base_url
+     */
+    async start(): Promise<string> {
+        this.server = createServer((req, res) => {
+            this.handle(req, res).catch(err => send(res, 500, { message: (err as Error).message }));
+        });
+        await new Promise<void>(resolve => this.server!.listen(0, '127.0.0.1', resolve));
+        const { port } = this.server.address() as AddressInfo;
+        return `http://127.0.0.1:${port}`;
+    }
+
+    async stop(): Promise<void> {
+        if (!this.server) return;
+        await new Promise<void>(resolve => this.server!.close(() => resolve()));
+        this.server = null;
+    }
+
+    addOrders(platform: MarketplacePlatform, ...orders: FakeOrder[]): void {
+        this.orders[platform].push(...orders);
+    }
+
+    addListings(platform: MarketplacePlatform, ...listings: FakeListing[]): void {
+        this.listings[platform].push(...listings);
+    }
+
+    /** Invalidates the current access token so the next order call fails with an auth error */
+    expireToken(): void {
+        this.accessToken = `expired-${this.accessToken}`;
+    }
+
+    private issueTokens(): { access_token: string; refresh_token: string } {
+        this.refreshCount++;
+        this.tokenSeq++;
+        this.accessToken = `fake-access-token-${this.tokenSeq}`;
+        this.refreshToken = `fake-refresh-token-${this.tokenSeq}`;
+        return { access_token: this.accessToken, refresh_token: this.refreshToken };
+    }
+
+    private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        const url = new URL(req.url || '/', 'http://localhost');
+        const query = Object.fromEntries(url.searchParams.entries());
+        const body = await readJson(req);
+        this.requests.push(url.pathname);
+
+        // Paths with IDs in them
+        const tokopediaPath = url.pathname.match(/^\/inventory\/v1\/fs\/[^/]+\/(product\/info|stock\/update)$/);
+        if (tokopediaPath) {
+            if (req.headers.authorization !== `Bearer ${this.accessToken}`) {
+                return send(res, 401, { message: 'Invalid access token' });
+            }
+            return tokopediaPath[1] === 'product/info'
+                ? this.tokopediaProducts(res, query)
+                : this.tokopediaStockUpdate(res, body as TokopediaStockRow[]);
+        }
+        const tiktokInventory = url.pathname.match(/^\/product\/202309\/products\/([^/]+)\/inventory\/update$/);
+        if (tiktokInventory) {
+            if (req.headers['x-tts-access-token'] !== this.accessToken) {
+                return send(res, 200, { code: 105002, message: 'Expired credentials' });
+            }
+            return this.tiktokInventoryUpdate(res, tiktokInventory[1], body as TikTokInventoryBody);
+        }
+
+        switch (url.pathname) {
+            // ---- Shopee ----
+            case '/api/v2/auth/access_token/get':
+                if ((body as { refresh_token?: string }).refresh_token !== this.refreshToken) {
+                    return send(res, 200, { error: 'error_param', message: 'Invalid refresh_token' });
+                }
+                return send(res, 200, { ...this.issueTokens(), expire_in: TOKEN_TTL_SECONDS, error: '' });
+            case '/api/v2/order/get_order_list':
+                if (query.access_token !== this.accessToken) return shopeeAuthError(res);
+                return this.shopeeOrderList(res, query);
+            case '/api/v2/order/get_order_detail':
+                if (query.access_token !== this.accessToken) return shopeeAuthError(res);
+                return this.shopeeOrderDetail(res, query);
+            case '/api/v2/product/get_item_list':
+                if (query.access_token !== this.accessToken) return shopeeAuthError(res);
+                return this.shopeeItemList(res, query);
+            case '/api/v2/product/get_item_base_info':
+                if (query.access_token !== this.accessToken) return shopeeAuthError(res);
+                return this.shopeeItemInfo(res, query);
+            case '/api/v2/product/get_model_list':
+                if (query.access_token !== this.accessToken) return shopeeAuthError(res);
+                return this.shopeeModelList(res, query);
+            case '/api/v2/product/update_stock':
+                if (query.access_token !== this.accessToken) return shopeeAuthError(res);
+                return this.shopeeUpdateStock(res, body as ShopeeStockBody);
+
+            // ---- Tokopedia ----
+            case '/token':
+                if (!req.headers.authorization?.startsWith('Basic ')) {
+                    return send(res, 401, { message: 'Missing client credentials' });
+                }
+                return send(res, 200, {
+                    access_token: this.issueTokens().access_token,
+                    expires_in: TOKEN_TTL_SECONDS,
+                    token_type: 'Bearer',
+                });
+            case '/v2/order/list':
+                if (req.headers.authorization !== `Bearer ${this.accessToken}`) {
+                    return send(res, 401, { message: 'Invalid access token' });
+                }
+                return this.tokopediaOrderList(res, query);
+
+            // ---- TikTok Shop ----
+            case '/api/v2/token/refresh':
+                if (query.refresh_token !== this.refreshToken) {
+                    return send(res, 200, { code: 36004004, message: 'Invalid refresh token' });
+                }
+                return send(res, 200, {
+                    code: 0,
+                    data: {
+                        ...this.issueTokens(),
+                        access_token_expire_in: Math.floor(Date.now() / 1000) + TOKEN_TTL_SECONDS,
+                    },
+                });
+            case '/order/202309/orders/search':
+                if (req.headers['x-tts-access-token'] !== this.accessToken) {
+                    return send(res, 200, { code: 105002, message: 'Expired credentials' });
+                }
+                return this.tiktokOrderSearch(res, query, body as TikTokOrderSearchBody);
+            case '/product/202309/products/search':
+                if (req.headers['x-tts-access-token'] !== this.accessToken) {
+                    return send(res, 200, { code: 105002, message: 'Expired credentials' });
+                }
+                return this.tiktokProductSearch(res, query);
+
+            // ---- Lazada ----
+            case '/auth/token/refresh':
+                if (query.refresh_token !== this.refreshToken) {
+                    return send(res, 200, { code: 'IllegalRefreshToken', message: 'Invalid refresh token' });
+                }
+                return send(res, 200, { code: '0', ...this.issueTokens(), expires_in: TOKEN_TTL_SECONDS });
+            case '/orders/get':
+                if (query.access_token !== this.accessToken) return lazadaAuthError(res);
+                return this.lazadaOrders(res, query);
+            case '/orders/items/get':
+                if (query.access_token !== this.accessToken) return lazadaAuthError(res);
+                return this.lazadaOrderItems(res, query);
+            case '/products/get':
+                if (query.access_token !== this.accessToken) return lazadaAuthError(res);
+                return this.lazadaProducts(res, query);
+            case '/product/stock/sellable/update':
+                if (query.access_token !== this.accessToken) return lazadaAuthError(res);
+                return this.lazadaStockUpdate(res, query);
+
+            default:
+                return send(res, 404, { message: `Unknown path ${url.pathname}` });
+        }
+    }
+
+    // ==================== SHOPEE ====================
+
+    private shopeeOrderList(res: ServerResponse, query: Record<string, string>): void {
+        const matches = inWindow(this.orders.Shopee, seconds(query.time_from), seconds(query.time_to));
+        const offset = parseInt(query.cursor || '0', 10) || 0;
+        const size = parseInt(query.page_size, 10);
+        const page = matches.slice(offset, offset + size);
+        const more = offset + size < matches.length;
+
+        send(res, 200, {
+            error: '',
+            response: {
+                order_list: page.map(o => ({ order_sn: o.id })),
+                more,
+                next_cursor: more ? String(offset + size) : '',
+            },
+        });
+    }
+
+    private shopeeOrderDetail(res: ServerResponse, query: Record<string, string>): void {
+        const ids = (query.order_sn_list || '').split(',');
+        const orders = this.orders.Shopee.filter(o => ids.includes(o.id));
+
+        send(res, 200, {
+            error: '',
+            response: {
+                order_list: orders.map(o => ({
+                    order_sn: o.id,
+                    order_status: o.status,
+                    create_time: toSeconds(o.created_at),
+                    update_time: toSeconds(o.updated_at),
+                    buyer_username: o.buyer,
+                    currency: 'IDR',
+                    total_amount: o.total_amount,
+                    estimated_shipping_fee: o.shipping_fee,
+                    item_list: o.items.map((item, i) => ({
+                        item_id: 1000 + i,
+                        model_id: i,
+                        item_name: item.name,
+                        model_name: item.variation || '',
+                        model_sku: item.sku,
+                        model_quantity_purchased: item.quantity,
+                        model_original_price: item.original_price,
+                        model_discounted_price: item.deal_price,
+                    })),
+                })),
+            },
+        });
+    }
+
+    private shopeeItemList(res: ServerResponse, query: Record<string, string>): void {
+        const itemIds = distinctItems(this.listings.Shopee);
+        const offset = parseInt(query.offset || '0', 10) || 0;
+        const size = parseInt(query.page_size, 10);
+        const hasNext = offset + size < itemIds.length;
+
+        send(res, 200, {
+            error: '',
+            response: {
+                item: itemIds.slice(offset, offset + size).map(id => ({ item_id: Number(id), item_status: 'NORMAL' })),
+                has_next_page: hasNext,
+                next_offset: hasNext ? offset + size : 0,
+            },
+        });
+    }
+
+    private shopeeItemInfo(res: ServerResponse, query: Record<string, string>): void {
+        const ids = (query.item_id_list || '').split(',');
+
+        send(res, 200, {
+            error: '',
+            response: {
+                item_list: ids.map(id => {
+                    const variations = this.listings.Shopee.filter(l => l.item_id === id);
+                    const single = variations.length === 1 && variations[0].variation_id === '0' ? variations[0] : null;
+                    return {
+                        item_id: Number(id),
+                        item_name: variations[0]?.name,
+                        item_sku: single?.sku || '',
+                        has_model: !single,
+                        stock_info_v2: single ? { summary_info: { total_available_stock: single.stock } } : undefined,
+                    };
+                }),
+            },
+        });
+    }
+
+    private shopeeModelList(res: ServerResponse, query: Record<string, string>): void {
+        send(res, 200, {
+            error: '',
+            response: {
+                model: this.listings.Shopee.filter(l => l.item_id === query.item_id).map(l => ({
+                    model_id: Number(l.variation_id),
+                    model_sku: l.sku,
+                    stock_info_v2: { summary_info: { total_available_stock: l.stock } },
+                })),
+            },
+        });
+    }
+
+    private shopeeUpdateStock(res: ServerResponse, body: ShopeeStockBody): void {
+        const successList: { model_id: number }[] = [];
+        const failureList: { model_id: number; failed_reason: string }[] = [];
+
+        for (const entry of body.stock_list || []) {
+            const listing = this.findListing('Shopee', String(body.item_id), String(entry.model_id));
+            if (listing) {
+                listing.stock = entry.seller_stock[0].stock;
+                successList.push({ model_id: entry.model_id });
+            } else {
+                failureList.push({ model_id: entry.model_id, failed_reason: 'Model not found' });
+            }
+        }
+
+        send(res, 200, { error: '', response: { success_list: successList, failure_list: failureList } });
+    }
+
+    // ==================== TOKOPEDIA ====================
+
+    private tokopediaOrderList(res: ServerResponse, query: Record<string, string>): void {
+        const matches = inWindow(this.orders.Tokopedia, seconds(query.from_date), seconds(query.to_date));
+        const perPage = parseInt(query.per_page, 10);
+        const page = parseInt(query.page, 10) || 1;
+        const rows = matches.slice((page - 1) * perPage, page * perPage);
+
+        send(res, 200, {
+            header: { error_code: '' },
+            data: rows.map((o, index) => ({
+                order_id: 5000 + index,
+                invoice_ref_num: o.id,
+                order_status: parseInt(o.status, 10),
+                create_time: toSeconds(o.created_at),
+                update_time: toSeconds(o.updated_at),
+                buyer: { name: o.buyer },
+                amt: { ttl_amount: o.total_amount, shipping_cost: o.shipping_fee },
+                products: o.items.map((item, i) => ({
+                    id: 7000 + i,
+                    sku: item.sku,
+                    name: item.name,
+                    quantity: item.quantity,
+                    price: item.original_price,
+                    total_price: item.deal_price * item.quantity,
+                })),
+            })),
+        });
+    }
+
+    private tokopediaProducts(res: ServerResponse, query: Record<string, string>): void {
+        const perPage = parseInt(query.per_page, 10);
+        const page = parseInt(query.page, 10) || 1;
+
+        send(res, 200, {
+            header: { error_code: '' },
+            data: this.listings.Tokopedia.slice((page - 1) * perPage, page * perPage).map(l => ({
+                basic: { productID: Number(l.item_id), name: l.name },
+                stock: { value: l.stock },
+                other: { sku: l.sku },
+            })),
+        });
+    }
+
+    private tokopediaStockUpdate(res: ServerResponse, body: TokopediaStockRow[]): void {
+        const failed: { product_id: number; message: string }[] = [];
+        for (const row of body || []) {
+            const listing = this.listings.Tokopedia.find(l => l.item_id === String(row.product_id));
+            if (listing) {
+                listing.stock = row.new_stock;
+            } else {
+                failed.push({ product_id: row.product_id, message: 'Product not found' });
+            }
+        }
+
+        send(res, 200, {
+            header: { error_code: '' },
+            data: { failed_rows: failed.length, failed_rows_data: failed, succeed_rows: (body || []).length - failed.length },
+        });
+    }
+
+    // ==================== TIKTOK ====================
+
+    private tiktokOrderSearch(res: ServerResponse, query: Record<string, string>, body: TikTokOrderSearchBody): void {
+        const matches = inWindow(this.orders.TikTok, body.update_time_ge * 1000, body.update_time_lt * 1000);
+        const offset = parseInt(query.page_token || '0', 10) || 0;
+        const size = parseInt(query.page_size, 10);
+        const page = matches.slice(offset, offset + size);
+
+        send(res, 200, {
+            code: 0,
+            message: 'Success',
+            data: {
+                next_page_token: offset + size < matches.length ? String(offset + size) : '',
+                total_count: matches.length,
+                orders: page.map(o => ({
+                    id: o.id,
+                    status: o.status,
+                    create_time: toSeconds(o.created_at),
+                    update_time: toSeconds(o.updated_at),
+                    recipient_address: { name: o.buyer },
+                    payment: {
+                        currency: 'IDR',
+                        total_amount: String(o.total_amount),
+                        shipping_fee: String(o.shipping_fee),
+                    },
+                    line_items: unitLines(o.items).map((item, i) => ({
+                        id: `${o.id}-${i}`,
+                        sku_id: `${item.sku}-ID`,
+                        seller_sku: item.sku,
+                        product_name: item.name,
+                        sku_name: item.variation || '',
+                        original_price: String(item.original_price),
+                        sale_price: String(item.deal_price),
+                    })),
+                })),
+            },
+        });
+    }
+
+    private tiktokProductSearch(res: ServerResponse, query: Record<string, string>): void {
+        const itemIds = distinctItems(this.listings.TikTok);
+        const offset = parseInt(query.page_token || '0', 10) || 0;
+        const size = parseInt(query.page_size, 10);
+
+        send(res, 200, {
+            code: 0,
+            message: 'Success',
+            data: {
+                next_page_token: offset + size < itemIds.length ? String(offset + size) : '',
+                products: itemIds.slice(offset, offset + size).map(id => {
+                    const skus = this.listings.TikTok.filter(l => l.item_id === id);
+                    return {
+                        id,
+                        title: skus[0].name,
+                        skus: skus.map(l => ({ id: l.variation_id, seller_sku: l.sku, inventory: [{ quantity: l.stock }] })),
+                    };
+                }),
+            },
+        });
+    }
+
+    private tiktokInventoryUpdate(res: ServerResponse, productId: string, body: TikTokInventoryBody): void {
+        const updates = (body.skus || []).map(sku => ({
+            listing: this.findListing('TikTok', productId, String(sku.id)),
+            quantity: sku.inventory[0].quantity,
+        }));
+
+        if (updates.some(u => !u.listing)) {
+            return send(res, 200, { code: 12052700, message: 'SKU not found' });
+        }
+        updates.forEach(u => { u.listing!.stock = u.quantity; });
+        send(res, 200, { code: 0, message: 'Success', data: {} });
+    }
+
+    // ==================== LAZADA ====================
+
+    private lazadaOrders(res: ServerResponse, query: Record<string, string>): void {
+        const matches = inWindow(
+            this.orders.Lazada,
+            new Date(query.update_after).getTime(),
+            new Date(query.update_before).getTime()
+        );
+        const offset = parseInt(query.offset || '0', 10) || 0;
+        const limit = parseInt(query.limit, 10);
+
+        send(res, 200, {
+            code: '0',
+            data: {
+                count: matches.length,
+                orders: matches.slice(offset, offset + limit).map(o => ({
+                    order_id: o.id,
+                    order_number: o.id,
+                    statuses: [o.status],
+                    created_at: o.created_at,
+                    updated_at: o.updated_at,
+                    customer_first_name: o.buyer,
+                    customer_last_name: '',
+                    price: o.total_amount.toFixed(2),
+                    shipping_fee: o.shipping_fee,
+                })),
+            },
+        });
+    }
+
+    private lazadaOrderItems(res: ServerResponse, query: Record<string, string>): void {
+        const ids: string[] = JSON.parse(query.order_ids || '[]').map(String);
+        const orders = this.orders.Lazada.filter(o => ids.includes(o.id));
+
+        send(res, 200, {
+            code: '0',
+            data: orders.map(o => ({
+                order_id: o.id,
+                order_items: unitLines(o.items).map((item, i) => ({
+                    order_item_id: `${o.id}-${i}`,
+                    sku_id: `${item.sku}-ID`,
+                    sku: item.sku,
+                    name: item.name,
+                    variation: item.variation || '',
+                    item_price: item.original_price,
+                    paid_price: item.deal_price,
+                })),
+            })),
+        });
+    }
+
+    private lazadaProducts(res: ServerResponse, query: Record<string, string>): void {
+        const itemIds = distinctItems(this.listings.Lazada);
+        const offset = parseInt(query.offset || '0', 10) || 0;
+        const limit = parseInt(query.limit, 10);
+
+        send(res, 200, {
+            code: '0',
+            data: {
+                total_products: itemIds.length,
+                products: itemIds.slice(offset, offset + limit).map(id => {
+                    const skus = this.listings.Lazada.filter(l => l.item_id === id);
+                    return {
+                        item_id: Number(id),
+                        attributes: { name: skus[0].name },
+                        skus: skus.map(l => ({ SkuId: Number(l.variation_id), SellerSku: l.sku, quantity: l.stock })),
+                    };
+                }),
+            },
+        });
+    }
+
+    private lazadaStockUpdate(res: ServerResponse, query: Record<string, string>): void {
+        const detail: { item_id: string; sku_id: string; message: string }[] = [];
+        const skuPattern = /<Sku><ItemId>(.*?)<\/ItemId><SkuId>(.*?)<\/SkuId>.*?<SellableQuantity>(\d+)<\/SellableQuantity><\/Sku>/g;
+
+        for (const [, itemId, skuId, quantity] of (query.payload || '').matchAll(skuPattern)) {
+            const listing = this.findListing('Lazada', itemId, skuId);
+            if (listing) {
+                listing.stock = parseInt(quantity, 10);
+            } else {
+                detail.push({ item_id: itemId, sku_id: skuId, message: 'SKU not found' });
+            }
+        }
+
+        send(res, 200, { code: '0', detail });
+    }
+
+    private findListing(platform: MarketplacePlatform, itemId: string, variationId: string): FakeListing | undefined {
+        return this.listings[platform].find(l => l.item_id === itemId && l.variation_id === variationId);
+    }
+}
+
+// ==================== HELPERS ====================
+
+function send(res: ServerResponse, status: number, payload: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(payload));
+}
+
+function shopeeAuthError(res: ServerResponse): void {
+    send(res, 200, { error: 'invalid_access_token', message: 'Invalid access_token' });
+}
+
+function lazadaAuthError(res: ServerResponse): void {
+    send(res, 200, { code: 'IllegalAccessToken', message: 'The specified access token is invalid or expired' });
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const text = Buffer.concat(chunks).toString();
+    return text ? JSON.parse(text) : {};
+}
+
+function seconds(value: string): number {
+    return parseInt(value, 10) * 1000;
+}
+
+function toSeconds(iso: string): number {
+    return Math.floor(new Date(iso).getTime() / 1000);
+}
+
+/** Orders updated in [fromMs, toMs), oldest first */
+function inWindow(orders: FakeOrder[], fromMs: number, toMs: number): FakeOrder[] {
+    return orders
+        .filter(o => {
+            const updated = new Date(o.updated_at).getTime();
+            return updated >= fromMs && updated < toMs;
+        })
+        .sort((a, b) => new Date(a.updated_at).getTime() - new Date(b.updated_at).getTime());
+}
+
+/** TikTok and Lazada report one line per unit */
+function unitLines(items: FakeOrderItem[]): FakeOrderItem[] {
+    return items.flatMap(item => Array.from({ length: item.quantity }, () => ({ ...item, quantity: 1 })));
+}
+
+function distinctItems(listings: FakeListing[]): string[] {
+    return Array.from(new Set(listings.map(l => l.item_id)));
+}
@@ -0,0 +1,85 @@
+/**
+ * Supabase Client Stub
+ * Stands in for supabaseServer in unit tests of services that query the database
+ *
+ * @example
+ * ```typescript
+ * jest.mock('../config/supabase', () => ({
+ *     supabaseServer: jest.requireActual<typeof import('../utils/supabase-mock')>('../utils/supabase-mock').mockSupabase.client,
+ * }));
+ *
+ * mockSupabase.respond(call => call.table === 'sales_returns' ? { count: 0 } : {});
+ * ```
+ */
+
+export type MockSupabaseAction = 'select' | 'insert' | 'update' | 'upsert' | 'delete' | 'rpc';
+
+export interface MockSupabaseCall {
+    /** Table, view or RPC function name */
+    table: string;
+    action: MockSupabaseAction;
+    /** Row(s) written or RPC arguments */
+    payload?: unknown;
+    /** Filters and modifiers in call order, e.g. ['eq', 'id', 'sr-1'] */
+    filters: unknown[][];
+}
+
+export interface MockSupabaseResult {
+    data?: unknown;
+    error?: unknown;
+    count?: number | null;
+}
+
+type Responder = (call: MockSupabaseCall) => MockSupabaseResult;
+
+const WRITE_ACTIONS = ['insert', 'update', 'upsert', 'delete'];
+
+function createMockSupabase() {
+    const calls: MockSupabaseCall[] = [];
+    let responder: Responder = () => ({});
+
+    // Every builder method returns the query; awaiting it records the call and resolves the response
+    const query = (call: MockSupabaseCall): unknown => {
+        const builder: object = new Proxy({}, {
+            get(_target, prop) {
+                if (prop === 'then') {
+                    calls.push(call);
+                    const result = { data: null, error: null, count: null, ...responder(call) };
+                    return (resolve: (value: unknown) => void) => resolve(result);
+                }
+                return (...args: unknown[]) => {
+                    const name = String(prop);
+                    if (WRITE_ACTIONS.includes(name) || (name === 'select' && call.action === 'select' && call.filters.length === 0)) {
+                        if (name !== 'select') {
+                            call.action = name as MockSupabaseAction;
+                            call.payload = args[0];
+                        }
+                    } else {
+                        call.filters.push([name, ...args]);
+                    }
+                    return builder;
+                };
+            },
+        });
+        return builder;
+    };
+
+    return {
+        client: {
+            from: (table: string) => query({ table, action: 'select', filters: [] }),
+            rpc: (fn: string, args?: unknown) => query({ table: fn, action: 'rpc', payload: args, filters: [] }),
+        },
+        /** Calls awaited so far, in order */
+        calls,
+        /** Sets the response for subsequent calls (default: no data, no error) */
+        respond(next: Responder) {
+            responder = next;
+        },
+        reset() {
+            calls.length = 0;
+            responder = () => ({});
+        },
+    };
+}
+
+export const mockSupabase = createMockSupabase();
@@ -0,0 +1,30 @@
+/**
+ * Marketplace Stock Push Worker
+ * Long-running consumer of marketplace_stock_queue (filled by the finished_goods_ledger trigger)
+ *
+ * Set STOCK_PUSH_INTERVAL_MS to change how often the queue is drained (default one minute).
+ */
+import { scheduleStockPushQueue } from '../services/marketplace-stock.service';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('MarketplaceStockWorker');
+
+/**
+ * Starts draining the stock push queue and stops on SIGTERM / SIGINT.
+ *
+ * @param intervalMs - Time between runs
+ * @returns Function that stops the worker
+ */
+export function startStockPushWorker(intervalMs = Number(process.env.STOCK_PUSH_INTERVAL_MS) || 60_000): () => void {
+    logger.info(`Draining marketplace stock push queue every ${intervalMs}ms`);
+    const stop = scheduleStockPushQueue(intervalMs);
+
+    process.once('SIGTERM', stop);
+    process.once('SIGINT', stop);
+
+    return stop;
+}
+
+if (require.main === module) {
+    startStockPushWorker();
+}
@@ -15,10 +15,16 @@ export const ACCOUNT_MAPPINGS = {
     // Payables
     ACCOUNTS_PAYABLE_ACCRUED: 'ACCOUNTS_PAYABLE_ACCRUED',
     ACCOUNTS_PAYABLE: 'ACCOUNTS_PAYABLE',
+    ACCRUED_LANDED_COSTS: 'ACCRUED_LANDED_COSTS',
 
     // Receivables
     ACCOUNTS_RECEIVABLE: 'ACCOUNTS_RECEIVABLE',
 
+    // Tax
+    VAT_INPUT: 'VAT_INPUT',
+    VAT_OUTPUT: 'VAT_OUTPUT',
+    WITHHOLDING_TAX_PAYABLE: 'WITHHOLDING_TAX_PAYABLE',
+
     // Revenue & Expenses
     SALES_REVENUE: 'SALES_REVENUE',
     COST_OF_GOODS_SOLD: 'COST_OF_GOODS_SOLD',
@@ -27,6 +33,10 @@ export const ACCOUNT_MAPPINGS = {
     INVENTORY_VARIANCE: 'INVENTORY_VARIANCE',
     PURCHASE_PRICE_VARIANCE: 'PURCHASE_PRICE_VARIANCE',
 
+    // Foreign exchange
+    FX_REALIZED: 'FX_REALIZED',
+    FX_UNREALIZED: 'FX_UNREALIZED',
+
     // Cash & Bank
     CASH_IN_HAND: 'CASH_IN_HAND',
     BANK_ACCOUNT: 'BANK_ACCOUNT',
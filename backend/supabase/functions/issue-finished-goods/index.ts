@@ -50,15 +50,13 @@ serve(async (req: Request) => {
         // Database trigger will validate stock availability
         const ledgerEntry = {
             company_id: payload.company_id,
-            product_id: payload.product_id,
-            variant_id: payload.variant_id,
+            product_variant_id: payload.variant_id,
             warehouse_id: payload.warehouse_id,
             bin_id: payload.bin_id,
             transaction_type: 'ISSUE',
             transaction_date: payload.transaction_date,
-            quantity: -payload.qty_out, // Negative for issues
-            unit_cost: payload.unit_cost,
-            total_cost: payload.qty_out * payload.unit_cost,
+            qty_out: payload.qty_out,
+            unit_cost: 0, // Valued at weighted-average cost by the database
             reference_type: payload.reference_type,
             reference_id: payload.reference_id,
             reference_number: payload.reference_number,
@@ -115,8 +113,10 @@ serve(async (req: Request) => {
                 ]
             );
 
-            const costAmount = payload.qty_out * payload.unit_cost;
-            const revenueAmount = payload.qty_out * (payload.selling_price || payload.unit_cost * 1.3); // Default 30% markup if no selling price
+            // unit_cost is set by the ledger trigger from the weighted-average cost
+            const unitCost = Number(data.unit_cost);
+            const costAmount = payload.qty_out * unitCost;
+            const revenueAmount = payload.qty_out * (payload.selling_price || unitCost * 1.3); // Default 30% markup if no selling price
 
             // Journal Entry 1: Revenue Recognition
             const revenueJournal = await createAutoJournal(
@@ -21,7 +21,6 @@ interface IssueRawMaterialRequest {
     warehouse_id: string;
     bin_id?: string;
     qty_out: number;
-    unit_cost: number;
     transaction_date: string;
     reference_type: string;
     reference_id?: string;
@@ -63,7 +62,7 @@ serve(async (req: Request) => {
         });
 
         if (!payload.company_id || !payload.material_id || !payload.warehouse_id ||
-            !payload.qty_out || !payload.unit_cost || !payload.transaction_date || !payload.user_id) {
+            !payload.qty_out || !payload.transaction_date || !payload.user_id) {
             logger.warn('Validation failed: Missing required fields');
             return new Response(
                 JSON.stringify({ error: 'Missing required fields', requestId }),
@@ -86,9 +85,8 @@ serve(async (req: Request) => {
             bin_id: payload.bin_id,
             transaction_type: 'ISSUE',
             transaction_date: payload.transaction_date,
-            quantity: -payload.qty_out, // Negative for issues
-            unit_cost: payload.unit_cost,
-            total_cost: payload.qty_out * payload.unit_cost,
+            qty_out: payload.qty_out,
+            unit_cost: 0, // Valued at weighted-average cost by the database
             reference_type: payload.reference_type,
             reference_id: payload.reference_id,
             reference_number: payload.reference_number,
@@ -138,7 +136,8 @@ serve(async (req: Request) => {
                 ]
             );
 
-            const totalAmount = payload.qty_out * payload.unit_cost;
+            // unit_cost is set by the ledger trigger from the weighted-average cost
+            const totalAmount = payload.qty_out * Number(data.unit_cost);
 
             const journalResult = await createAutoJournal(
                 supabaseClient,
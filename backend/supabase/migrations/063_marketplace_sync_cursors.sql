@@ -0,0 +1,33 @@
+-- Migration: 063_marketplace_sync_cursors.sql
+-- Description: Incremental order sync state and connector credentials for marketplace accounts
+-- Dependencies: 027_marketplace_integration.sql
+-- Author: Ziyada ERP Team
+-- Date: 2026-01-05
+
+-- ==================== CONNECTOR CREDENTIALS ====================
+
+ALTER TABLE marketplace_accounts
+ADD COLUMN IF NOT EXISTS app_id VARCHAR(100),
+ADD COLUMN IF NOT EXISTS api_base_url TEXT;
+
+COMMENT ON COLUMN marketplace_accounts.api_key IS 'Platform app key (Shopee partner_id, Tokopedia client_id, TikTok app_key, Lazada app_key)';
+COMMENT ON COLUMN marketplace_accounts.api_secret IS 'Platform signing secret (Shopee partner_key, Tokopedia client_secret, TikTok/Lazada app_secret)';
+COMMENT ON COLUMN marketplace_accounts.app_id IS 'Additional app identifier where the platform needs one (Tokopedia fs_id)';
+COMMENT ON COLUMN marketplace_accounts.api_base_url IS 'Override for the platform API host (sandbox or local fake marketplace)';
+
+-- ==================== INCREMENTAL SYNC STATE ====================
+
+ALTER TABLE marketplace_accounts
+ADD COLUMN IF NOT EXISTS orders_synced_until TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS last_order_sync_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS last_sync_error TEXT;
+
+COMMENT ON COLUMN marketplace_accounts.orders_synced_until IS 'High-water mark: orders updated before this instant have been fetched';
+COMMENT ON COLUMN marketplace_accounts.last_order_sync_at IS 'When the last order sync run finished';
+COMMENT ON COLUMN marketplace_accounts.last_sync_error IS 'Error from the last failed sync run (NULL when it succeeded)';
+
+-- Orders are re-fetched whenever their status changes, keep track of the latest platform update
+ALTER TABLE marketplace_orders
+ADD COLUMN IF NOT EXISTS external_updated_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN marketplace_orders.external_updated_at IS 'Last update time reported by the marketplace';
@@ -0,0 +1,206 @@
+-- Migration: 064_marketplace_settlement_reconciliation.sql
+-- Description: Settlement payout lines, order matching and journal link for marketplace settlements
+-- Dependencies: 027_marketplace_integration.sql, 028_journals_schema.sql, 051_fix_security_functions.sql
+-- Author: Ziyada ERP Team
+-- Date: 2026-01-06
+
+-- ==================== SETTLEMENT HEADER ====================
+
+ALTER TABLE marketplace_settlements
+ADD COLUMN IF NOT EXISTS source VARCHAR(10) DEFAULT 'CSV' CHECK (source IN ('CSV', 'API')),
+ADD COLUMN IF NOT EXISTS amount_shipping_subsidy DECIMAL(15,2) DEFAULT 0,
+ADD COLUMN IF NOT EXISTS amount_unmatched DECIMAL(15,2) DEFAULT 0,
+ADD COLUMN IF NOT EXISTS amount_short_paid DECIMAL(15,2) DEFAULT 0,
+ADD COLUMN IF NOT EXISTS journal_id UUID REFERENCES journals(id),
+ADD COLUMN IF NOT EXISTS confirmed_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS confirmed_by UUID REFERENCES auth.users(id),
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+ALTER TABLE marketplace_settlements ALTER COLUMN status SET DEFAULT 'draft';
+
+COMMENT ON COLUMN marketplace_settlements.status IS 'draft (imported), reconciled (matched to orders), confirmed (journal posted); legacy rows: processed';
+COMMENT ON COLUMN marketplace_settlements.amount_fees IS 'Total platform deductions (commission, service, payment fees)';
+COMMENT ON COLUMN marketplace_settlements.amount_shipping_subsidy IS 'Shipping cost charged to the seller and netted from the payout';
+COMMENT ON COLUMN marketplace_settlements.amount_unmatched IS 'Gross amount of payout lines with no matching marketplace order';
+COMMENT ON COLUMN marketplace_settlements.amount_short_paid IS 'Total shortfall of matched orders paid below their order total';
+
+-- ==================== SETTLEMENT LINES ====================
+
+CREATE TABLE IF NOT EXISTS marketplace_settlement_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE NOT NULL,
+  settlement_id UUID REFERENCES marketplace_settlements(id) ON DELETE CASCADE NOT NULL,
+
+  external_order_id VARCHAR(100) NOT NULL,
+  order_id UUID REFERENCES marketplace_orders(id), -- Filled by matching
+
+  amount_gross DECIMAL(15,2) NOT NULL DEFAULT 0, -- Order amount released by the platform
+  commission_fee DECIMAL(15,2) NOT NULL DEFAULT 0,
+  service_fee DECIMAL(15,2) NOT NULL DEFAULT 0,
+  payment_fee DECIMAL(15,2) NOT NULL DEFAULT 0,
+  shipping_subsidy DECIMAL(15,2) NOT NULL DEFAULT 0,
+  amount_net DECIMAL(15,2) NOT NULL DEFAULT 0,
+
+  -- Matching result
+  expected_amount DECIMAL(15,2),
+  variance DECIMAL(15,2) DEFAULT 0, -- expected_amount - amount_gross
+  match_status VARCHAR(20) DEFAULT 'pending'
+    CHECK (match_status IN ('pending', 'matched', 'unmatched', 'short_paid', 'over_paid')),
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(settlement_id, external_order_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_mp_settlement_line_settlement ON marketplace_settlement_lines(settlement_id);
+CREATE INDEX IF NOT EXISTS idx_mp_settlement_line_order ON marketplace_settlement_lines(order_id);
+CREATE INDEX IF NOT EXISTS idx_mp_settlement_line_status ON marketplace_settlement_lines(match_status);
+
+COMMENT ON TABLE marketplace_settlement_lines IS 'Per-order payout lines of a marketplace settlement, matched to marketplace_orders';
+COMMENT ON COLUMN marketplace_settlement_lines.match_status IS 'matched, unmatched (no order), short_paid / over_paid (gross differs from order total)';
+
+-- Settlement state on the order
+ALTER TABLE marketplace_orders
+ADD COLUMN IF NOT EXISTS settlement_id UUID REFERENCES marketplace_settlements(id),
+ADD COLUMN IF NOT EXISTS settled_amount DECIMAL(15,2);
+
+COMMENT ON COLUMN marketplace_orders.settlement_id IS 'Confirmed settlement that paid this order';
+COMMENT ON COLUMN marketplace_orders.settled_amount IS 'Net amount received for the order';
+
+-- ==================== RLS POLICIES ====================
+
+ALTER TABLE marketplace_settlement_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY mp_settlement_lines_tenant_isolation ON marketplace_settlement_lines
+  FOR ALL USING (company_id IN (
+    SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+  ));
+
+CREATE POLICY mp_settlement_lines_service ON marketplace_settlement_lines FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- ==================== TRIGGERS ====================
+
+CREATE TRIGGER trigger_audit_mp_settlements
+  AFTER INSERT OR UPDATE OR DELETE ON marketplace_settlements
+  FOR EACH ROW EXECUTE FUNCTION audit_trigger();
+
+CREATE TRIGGER update_mp_settlements_updated_at
+  BEFORE UPDATE ON marketplace_settlements
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ==================== CONFIRMATION ====================
+
+-- Marks a reconciled settlement confirmed with its journal and stamps the paid orders,
+-- all or nothing. Split payouts add up on the order.
+CREATE OR REPLACE FUNCTION confirm_marketplace_settlement(
+  p_settlement_id UUID,
+  p_journal_id UUID,
+  p_user_id UUID
+)
+RETURNS VOID AS $$
+DECLARE
+  v_settlement RECORD;
+BEGIN
+  SELECT * INTO v_settlement FROM marketplace_settlements WHERE id = p_settlement_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Settlement not found';
+  END IF;
+
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    PERFORM check_tenant_access(v_settlement.company_id);
+  END IF;
+
+  IF v_settlement.status <> 'reconciled' THEN
+    RAISE EXCEPTION 'Settlement must be reconciled before confirmation (status: %)', v_settlement.status;
+  END IF;
+
+  UPDATE marketplace_settlements
+  SET status = 'confirmed',
+      journal_id = p_journal_id,
+      confirmed_at = NOW(),
+      confirmed_by = p_user_id
+  WHERE id = p_settlement_id;
+
+  UPDATE marketplace_orders o
+  SET settlement_id = p_settlement_id,
+      settled_amount = COALESCE(o.settled_amount, 0) + l.amount_net,
+      commission_fee = COALESCE(o.commission_fee, 0) + l.commission_fee,
+      platform_fee = COALESCE(o.platform_fee, 0) + l.service_fee + l.payment_fee
+  FROM marketplace_settlement_lines l
+  WHERE l.settlement_id = p_settlement_id
+    AND l.order_id = o.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION confirm_marketplace_settlement IS 'Confirm a reconciled settlement with its journal and stamp the settled orders in one transaction';
+
+-- ==================== ACCOUNT MAPPINGS ====================
+-- Marketplace settlement posting needs fee, shipping and per-platform clearing accounts.
+-- Also restores the returns/discount/adjustment mappings from 047 that 051 dropped.
+
+CREATE OR REPLACE FUNCTION seed_account_mappings(p_company_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER := 0;
+BEGIN
+  -- SECURITY CHECK
+  PERFORM check_tenant_access(p_company_id);
+
+  INSERT INTO system_account_mappings (company_id, mapping_code, account_id, description)
+  SELECT p_company_id, m.mapping_code, coa.id, m.description
+  FROM (VALUES
+    -- Cash & Bank
+    ('DEFAULT_CASH', '1010', 'Default Cash Account for POS/Payments'),
+    ('DEFAULT_BANK', '1020', 'Default Bank Account'),
+    -- Receivables
+    ('ACCOUNTS_RECEIVABLE', '1100', 'Default AR Account'),
+    -- Inventory
+    ('INVENTORY_RAW', '1210', 'Raw Material Inventory'),
+    ('INVENTORY_WIP', '1220', 'Work in Progress Inventory'),
+    ('INVENTORY_FG', '1250', 'Finished Goods Inventory'),
+    ('INVENTORY_ADJUSTMENT', '6910', 'Inventory Variance/Adjustment Expense'),
+    ('INVENTORY_SCRAP', '6900', 'Loss or Scrap Expense'),
+    -- Payables & Tax
+    ('ACCOUNTS_PAYABLE', '2010', 'Default AP Account'),
+    ('TAX_PAYABLE', '2030', 'VAT/Tax Payable'),
+    -- Sales
+    ('SALES_POS', '4010', 'Sales Revenue for Retail/POS'),
+    ('SALES_WHOLESALE', '4020', 'Sales Revenue for Distributor/B2B'),
+    ('SALES_RETURNS', '4100', 'Sales Returns and Allowances'),
+    ('SALES_DISCOUNTS', '4200', 'Sales Discounts'),
+    -- COGS & Expenses
+    ('COGS_DEFAULT', '5010', 'Cost of Goods Sold'),
+    ('EXPENSE_LABOR', '6010', 'Direct Labor Expense'),
+    ('EXPENSE_OVERHEAD', '6020', 'Factory Overhead Expense'),
+    -- Marketplace
+    ('MARKETPLACE_FEES', '6100', 'Marketplace commission, service and payment fees'),
+    ('MARKETPLACE_SHIPPING', '6110', 'Shipping cost borne by seller on marketplace orders'),
+    ('CLEARING_SHOPEE', '2110', 'Shopee Wallet Clearing'),
+    ('CLEARING_TIKTOK', '2120', 'TikTok Shop Clearing'),
+    ('CLEARING_TOKOPEDIA', '2130', 'Tokopedia Clearing'),
+    ('CLEARING_LAZADA', '2140', 'Lazada Clearing')
+  ) AS m(mapping_code, account_code, description)
+  JOIN chart_of_accounts coa
+    ON coa.company_id = p_company_id AND coa.account_code = m.account_code
+  ON CONFLICT DO NOTHING;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Backfill new mappings for existing companies (bypasses the tenant check, runs as migration owner)
+INSERT INTO system_account_mappings (company_id, mapping_code, account_id, description)
+SELECT coa.company_id, m.mapping_code, coa.id, m.description
+FROM (VALUES
+  ('MARKETPLACE_FEES', '6100', 'Marketplace commission, service and payment fees'),
+  ('MARKETPLACE_SHIPPING', '6110', 'Shipping cost borne by seller on marketplace orders'),
+  ('CLEARING_TIKTOK', '2120', 'TikTok Shop Clearing'),
+  ('CLEARING_TOKOPEDIA', '2130', 'Tokopedia Clearing'),
+  ('CLEARING_LAZADA', '2140', 'Lazada Clearing')
+) AS m(mapping_code, account_code, description)
+JOIN chart_of_accounts coa ON coa.account_code = m.account_code
+ON CONFLICT DO NOTHING;
+
+ALTER FUNCTION public.confirm_marketplace_settlement SET search_path = public;
@@ -0,0 +1,321 @@
+-- Migration: 065_sales_returns.sql
+-- Description: Sales returns against sales orders / invoices with per-line QC disposition
+-- Dependencies: 011_inventory_finished_goods.sql, 022_sales_orders.sql, 024_sales_invoices.sql, 027_marketplace_integration.sql
+-- Author: Ziyada ERP Team
+-- Date: 2026-01-07
+
+-- ==================== QUARANTINE BINS ====================
+
+ALTER TABLE bins
+ADD COLUMN IF NOT EXISTS is_quarantine BOOLEAN DEFAULT false;
+
+COMMENT ON COLUMN bins.is_quarantine IS 'Holding bin for stock awaiting inspection; excluded from available stock';
+
+CREATE INDEX IF NOT EXISTS idx_bins_quarantine ON bins(warehouse_id) WHERE is_quarantine = true;
+
+-- ==================== SALES RETURNS ====================
+
+CREATE TABLE IF NOT EXISTS sales_returns (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE NOT NULL,
+  return_number VARCHAR(50) NOT NULL,
+  return_date DATE NOT NULL,
+
+  -- Origin (at least one of SO / invoice)
+  so_id UUID REFERENCES sales_orders(id),
+  invoice_id UUID REFERENCES sales_invoices(id),
+  marketplace_order_id UUID REFERENCES marketplace_orders(id),
+  customer_id UUID REFERENCES customers(id) NOT NULL,
+  period_id UUID REFERENCES accounting_periods(id) NOT NULL,
+
+  subtotal DECIMAL(15,2) DEFAULT 0,
+  total_cost DECIMAL(15,2) DEFAULT 0, -- Cost of returned goods, set on posting
+
+  return_reason VARCHAR(50), -- DEFECTIVE, WRONG_SIZE, WRONG_ITEM, CUSTOMER_REQUEST, FAILED_DELIVERY
+  status VARCHAR(20) DEFAULT 'draft',
+
+  journal_id UUID REFERENCES journals(id),
+  notes TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  posted_at TIMESTAMPTZ,
+  posted_by UUID REFERENCES auth.users(id),
+
+  UNIQUE(company_id, return_number),
+  CONSTRAINT sales_return_origin CHECK (so_id IS NOT NULL OR invoice_id IS NOT NULL),
+  CONSTRAINT valid_sales_return_status CHECK (status IN ('draft', 'posted', 'void'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_sales_returns_company ON sales_returns(company_id);
+CREATE INDEX IF NOT EXISTS idx_sales_returns_so ON sales_returns(so_id);
+CREATE INDEX IF NOT EXISTS idx_sales_returns_invoice ON sales_returns(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_sales_returns_mp_order ON sales_returns(marketplace_order_id);
+CREATE INDEX IF NOT EXISTS idx_sales_returns_date ON sales_returns(return_date DESC);
+
+COMMENT ON TABLE sales_returns IS 'Customer returns against sales orders or invoices (distributor and marketplace)';
+
+-- ==================== SALES RETURN LINES ====================
+
+CREATE TABLE IF NOT EXISTS sales_return_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  return_id UUID REFERENCES sales_returns(id) ON DELETE CASCADE NOT NULL,
+  line_number INTEGER NOT NULL,
+
+  so_line_id UUID REFERENCES sales_order_lines(id),
+  invoice_line_id UUID REFERENCES sales_invoice_lines(id),
+  product_variant_id UUID REFERENCES product_variants(id) NOT NULL,
+
+  qty_returned DECIMAL(15,4) NOT NULL CHECK (qty_returned > 0),
+  unit_price DECIMAL(15,2) NOT NULL CHECK (unit_price >= 0),
+  line_total DECIMAL(15,2) GENERATED ALWAYS AS (qty_returned * unit_price) STORED,
+
+  -- QC disposition
+  disposition VARCHAR(20) NOT NULL DEFAULT 'RESTOCK',
+  warehouse_id UUID REFERENCES warehouses(id) NOT NULL,
+  bin_id UUID REFERENCES bins(id), -- Required for RESTOCK; quarantine bin used for QUARANTINE / SCRAP when NULL
+
+  unit_cost DECIMAL(15,2), -- Original issue cost, set on posting
+  scrap_unit_cost DECIMAL(15,2), -- SCRAP: cost the write-off left inventory at, set on posting
+
+  return_reason VARCHAR(50),
+  notes TEXT,
+
+  UNIQUE(return_id, line_number),
+  CONSTRAINT valid_return_disposition CHECK (disposition IN ('RESTOCK', 'QUARANTINE', 'SCRAP'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_sales_return_lines_return ON sales_return_lines(return_id);
+CREATE INDEX IF NOT EXISTS idx_sales_return_lines_so_line ON sales_return_lines(so_line_id);
+CREATE INDEX IF NOT EXISTS idx_sales_return_lines_variant ON sales_return_lines(product_variant_id);
+
+COMMENT ON TABLE sales_return_lines IS 'Returned items with QC disposition';
+COMMENT ON COLUMN sales_return_lines.disposition IS 'RESTOCK (back to sellable bin), QUARANTINE (held for inspection), SCRAP (written off)';
+
+-- ==================== TRIGGERS ====================
+
+CREATE OR REPLACE FUNCTION update_sales_return_total()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_return_id UUID;
+BEGIN
+  v_return_id := COALESCE(NEW.return_id, OLD.return_id);
+
+  UPDATE sales_returns
+  SET subtotal = (
+    SELECT COALESCE(SUM(line_total), 0)
+    FROM sales_return_lines
+    WHERE return_id = v_return_id
+  )
+  WHERE id = v_return_id;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_sales_return_total
+  AFTER INSERT OR UPDATE OR DELETE ON sales_return_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION update_sales_return_total();
+
+-- Returned quantity cannot exceed what was delivered on the SO line
+CREATE OR REPLACE FUNCTION validate_sales_return_qty()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_delivered DECIMAL(15,4);
+  v_already_returned DECIMAL(15,4);
+BEGIN
+  IF NEW.so_line_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT qty_delivered INTO v_delivered
+  FROM sales_order_lines
+  WHERE id = NEW.so_line_id;
+
+  IF v_delivered IS NULL THEN
+    RAISE EXCEPTION 'Sales order line not found';
+  END IF;
+
+  SELECT COALESCE(SUM(srl.qty_returned), 0) INTO v_already_returned
+  FROM sales_return_lines srl
+  JOIN sales_returns sr ON sr.id = srl.return_id
+  WHERE srl.so_line_id = NEW.so_line_id
+    AND sr.status != 'void'
+    AND srl.id != NEW.id;
+
+  IF v_already_returned + NEW.qty_returned > v_delivered THEN
+    RAISE EXCEPTION 'Return quantity (%) exceeds delivered quantity (%)',
+      v_already_returned + NEW.qty_returned, v_delivered;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_validate_sales_return_qty
+  BEFORE INSERT OR UPDATE ON sales_return_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_sales_return_qty();
+
+CREATE TRIGGER update_sales_returns_updated_at
+  BEFORE UPDATE ON sales_returns
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER trigger_set_created_by
+  BEFORE INSERT ON sales_returns
+  FOR EACH ROW EXECUTE FUNCTION set_created_by();
+
+CREATE TRIGGER trigger_audit_sales_returns
+  AFTER INSERT OR UPDATE OR DELETE ON sales_returns
+  FOR EACH ROW EXECUTE FUNCTION audit_trigger();
+
+-- ==================== POSTING FUNCTION ====================
+
+-- Post sales return: receive goods per disposition and value them at original issue cost.
+-- Journal (revenue + COGS reversal) is created by the service layer from the costed lines.
+CREATE OR REPLACE FUNCTION post_sales_return(
+  p_return_id UUID,
+  p_user_id UUID
+)
+RETURNS DECIMAL AS $$
+DECLARE
+  v_return RECORD;
+  v_line RECORD;
+  v_bin_id UUID;
+  v_unit_cost DECIMAL(15,2);
+  v_scrap_unit_cost DECIMAL(15,2);
+  v_total_cost DECIMAL(15,2) := 0;
+BEGIN
+  SELECT * INTO v_return
+  FROM sales_returns
+  WHERE id = p_return_id;
+
+  IF v_return IS NULL THEN
+    RAISE EXCEPTION 'Sales return not found or access denied';
+  END IF;
+
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    PERFORM check_tenant_access(v_return.company_id);
+  END IF;
+
+  IF v_return.status != 'draft' THEN
+    RAISE EXCEPTION 'Sales return must be in draft status';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM sales_return_lines WHERE return_id = p_return_id) THEN
+    RAISE EXCEPTION 'Sales return has no lines';
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM sales_return_lines WHERE return_id = p_return_id ORDER BY line_number
+  LOOP
+    -- Original issue cost: deliveries of the originating SO, else current average
+    SELECT ROUND(SUM(fgl.qty_out * fgl.unit_cost) / NULLIF(SUM(fgl.qty_out), 0), 2) INTO v_unit_cost
+    FROM finished_goods_ledger fgl
+    JOIN delivery_notes dn ON dn.id = fgl.reference_id
+    WHERE dn.so_id = v_return.so_id
+      AND fgl.product_variant_id = v_line.product_variant_id
+      AND fgl.qty_out > 0;
+
+    IF v_unit_cost IS NULL THEN
+      SELECT ROUND(SUM(fgl.qty_in * fgl.unit_cost) / NULLIF(SUM(fgl.qty_in), 0), 2) INTO v_unit_cost
+      FROM finished_goods_ledger fgl
+      WHERE fgl.company_id = v_return.company_id
+        AND fgl.product_variant_id = v_line.product_variant_id
+        AND fgl.qty_in > 0;
+    END IF;
+
+    v_unit_cost := COALESCE(v_unit_cost, 0);
+
+    -- Resolve target bin
+    v_bin_id := v_line.bin_id;
+    IF v_bin_id IS NULL AND v_line.disposition IN ('QUARANTINE', 'SCRAP') THEN
+      SELECT id INTO v_bin_id
+      FROM bins
+      WHERE warehouse_id = v_line.warehouse_id
+        AND is_quarantine = true
+        AND is_active = true
+      ORDER BY code
+      LIMIT 1;
+    END IF;
+
+    IF v_bin_id IS NULL THEN
+      RAISE EXCEPTION 'Line %: no % bin found for warehouse', v_line.line_number,
+        CASE WHEN v_line.disposition = 'RESTOCK' THEN 'target' ELSE 'quarantine' END;
+    END IF;
+
+    -- Receive returned goods
+    INSERT INTO finished_goods_ledger (
+      company_id, product_variant_id, warehouse_id, bin_id, period_id,
+      transaction_date, transaction_type, reference_type, reference_id, reference_number,
+      qty_in, qty_out, unit_cost, created_by, is_posted, notes
+    ) VALUES (
+      v_return.company_id, v_line.product_variant_id, v_line.warehouse_id, v_bin_id, v_return.period_id,
+      v_return.return_date, 'RECEIPT', 'SALES_RETURN', v_return.id, v_return.return_number,
+      v_line.qty_returned, 0, v_unit_cost, p_user_id, true,
+      'Sales return - ' || v_line.disposition
+    );
+
+    -- Scrapped goods are written off straight away. The outflow is costed by the ledger
+    -- (average / FIFO), so the write-off is read back for the journal.
+    v_scrap_unit_cost := NULL;
+    IF v_line.disposition = 'SCRAP' THEN
+      INSERT INTO finished_goods_ledger (
+        company_id, product_variant_id, warehouse_id, bin_id, period_id,
+        transaction_date, transaction_type, reference_type, reference_id, reference_number,
+        qty_in, qty_out, unit_cost, created_by, is_posted, notes
+      ) VALUES (
+        v_return.company_id, v_line.product_variant_id, v_line.warehouse_id, v_bin_id, v_return.period_id,
+        v_return.return_date, 'ADJUSTMENT', 'SALES_RETURN', v_return.id, v_return.return_number,
+        0, v_line.qty_returned, v_unit_cost, p_user_id, true,
+        'Sales return - scrapped'
+      )
+      RETURNING unit_cost INTO v_scrap_unit_cost;
+    END IF;
+
+    UPDATE sales_return_lines
+    SET unit_cost = v_unit_cost,
+        scrap_unit_cost = v_scrap_unit_cost,
+        bin_id = v_bin_id
+    WHERE id = v_line.id;
+
+    v_total_cost := v_total_cost + (v_line.qty_returned * v_unit_cost);
+  END LOOP;
+
+  UPDATE sales_returns
+  SET
+    status = 'posted',
+    total_cost = v_total_cost,
+    posted_at = NOW(),
+    posted_by = p_user_id
+  WHERE id = p_return_id;
+
+  RETURN v_total_cost;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+ALTER FUNCTION public.post_sales_return SET search_path = public;
+
+COMMENT ON FUNCTION post_sales_return IS 'Post sales return: receive goods into restock/quarantine bins or scrap them, costed at original issue cost';
+
+-- ==================== RLS POLICIES ====================
+
+ALTER TABLE sales_returns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sales_return_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY sales_returns_tenant_isolation ON sales_returns
+  FOR ALL USING (company_id IN (
+    SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+  ));
+
+CREATE POLICY sales_return_lines_tenant ON sales_return_lines
+  FOR ALL USING (return_id IN (
+    SELECT id FROM sales_returns WHERE company_id IN (
+      SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+    )
+  ));
+
+CREATE POLICY sales_returns_service_role ON sales_returns FOR ALL TO service_role USING (true) WITH CHECK (true);
+CREATE POLICY sales_return_lines_service_role ON sales_return_lines FOR ALL TO service_role USING (true) WITH CHECK (true);
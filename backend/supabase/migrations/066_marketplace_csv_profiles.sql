@@ -0,0 +1,53 @@
+-- Migration: 066_marketplace_csv_profiles.sql
+-- Description: Saved CSV column-mapping profiles for marketplace order imports
+-- Dependencies: 027_marketplace_integration.sql
+-- Author: Ziyada ERP Team
+-- Date: 2026-01-08
+
+-- ==================== CSV IMPORT PROFILES ====================
+
+CREATE TABLE IF NOT EXISTS marketplace_csv_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE NOT NULL,
+  platform VARCHAR(20) NOT NULL CHECK (platform IN ('Shopee', 'Tokopedia', 'TikTok', 'Lazada')),
+  profile_name VARCHAR(100) NOT NULL,
+
+  -- Import field -> CSV header, e.g. {"order_id": "No. Pesanan", "sku": "Nomor Referensi SKU"}
+  column_map JSONB NOT NULL DEFAULT '{}'::jsonb,
+  is_default BOOLEAN DEFAULT false,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(company_id, platform, profile_name)
+);
+
+-- One default profile per platform
+CREATE UNIQUE INDEX IF NOT EXISTS idx_mp_csv_profile_default
+  ON marketplace_csv_profiles(company_id, platform) WHERE is_default = true;
+
+COMMENT ON TABLE marketplace_csv_profiles IS 'Per-platform column mappings for importing marketplace order exports';
+COMMENT ON COLUMN marketplace_csv_profiles.column_map IS 'Maps import fields (order_id, sku, quantity, ...) to CSV headers';
+COMMENT ON COLUMN marketplace_csv_profiles.is_default IS 'Used for imports into accounts of this platform when no profile is chosen';
+
+-- ==================== RLS POLICIES ====================
+
+ALTER TABLE marketplace_csv_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY mp_csv_profiles_tenant_isolation ON marketplace_csv_profiles
+  FOR ALL USING (company_id IN (
+    SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+  ));
+
+CREATE POLICY mp_csv_profiles_service ON marketplace_csv_profiles FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- ==================== TRIGGERS ====================
+
+CREATE TRIGGER update_mp_csv_profiles_updated_at
+  BEFORE UPDATE ON marketplace_csv_profiles
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER trigger_set_created_by
+  BEFORE INSERT ON marketplace_csv_profiles
+  FOR EACH ROW EXECUTE FUNCTION set_created_by();
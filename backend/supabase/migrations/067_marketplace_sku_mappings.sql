@@ -0,0 +1,235 @@
+-- Migration: 067_marketplace_sku_mappings.sql
+-- Description: Marketplace listing SKU to product variant mappings (incl. bundles) and unmapped item review queue
+-- Dependencies: 006_master_data_products.sql, 027_marketplace_integration.sql
+-- Author: Ziyada ERP Team
+-- Date: 2026-01-09
+
+-- ==================== SKU MAPPINGS ====================
+-- One row per component. A listing mapped to several variants is a bundle / kit.
+
+CREATE TABLE IF NOT EXISTS marketplace_sku_mappings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE NOT NULL,
+  account_id UUID REFERENCES marketplace_accounts(id) ON DELETE CASCADE NOT NULL,
+
+  external_sku VARCHAR(100) NOT NULL, -- Listing SKU as sent by the platform
+  listing_name VARCHAR(255),
+  product_variant_id UUID REFERENCES product_variants(id) NOT NULL,
+  quantity DECIMAL(10,2) NOT NULL DEFAULT 1 CHECK (quantity > 0), -- Units of the variant per listing unit
+
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(account_id, external_sku, product_variant_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_mp_sku_mapping_lookup ON marketplace_sku_mappings(account_id, external_sku) WHERE is_active = true;
+CREATE INDEX IF NOT EXISTS idx_mp_sku_mapping_variant ON marketplace_sku_mappings(product_variant_id);
+
+COMMENT ON TABLE marketplace_sku_mappings IS 'Per-account mapping of marketplace listing SKUs to product variants; several rows per SKU form a bundle';
+COMMENT ON COLUMN marketplace_sku_mappings.quantity IS 'Variant units contained in one unit of the listing';
+
+-- ==================== RESOLVED ORDER ITEMS ====================
+
+ALTER TABLE marketplace_order_items
+ADD COLUMN IF NOT EXISTS mapping_status VARCHAR(20) DEFAULT 'unmapped'
+  CHECK (mapping_status IN ('mapped', 'unmapped'));
+
+COMMENT ON COLUMN marketplace_order_items.mapping_status IS 'mapped when the listing SKU resolved to variants (see marketplace_order_item_components)';
+COMMENT ON COLUMN marketplace_order_items.product_variant_id IS 'Resolved variant for single-variant listings; NULL for bundles';
+
+CREATE TABLE IF NOT EXISTS marketplace_order_item_components (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_item_id UUID REFERENCES marketplace_order_items(id) ON DELETE CASCADE NOT NULL,
+  product_variant_id UUID REFERENCES product_variants(id) NOT NULL,
+  quantity DECIMAL(10,2) NOT NULL CHECK (quantity > 0),
+  unit_price DECIMAL(15,2) NOT NULL DEFAULT 0, -- Share of the listing deal price
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mp_item_component_item ON marketplace_order_item_components(order_item_id);
+
+COMMENT ON TABLE marketplace_order_item_components IS 'Variants an order item resolves to; bundle prices are split by variant list price';
+
+-- ==================== RESOLUTION ====================
+
+CREATE OR REPLACE FUNCTION resolve_marketplace_order_items(p_order_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_order RECORD;
+  v_item RECORD;
+  v_variant_id UUID;
+  v_weight_total DECIMAL;
+  v_qty_total DECIMAL;
+  v_unmapped INTEGER := 0;
+BEGIN
+  SELECT * INTO v_order FROM marketplace_orders WHERE id = p_order_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Marketplace order not found';
+  END IF;
+
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    PERFORM check_tenant_access(v_order.company_id);
+  END IF;
+
+  FOR v_item IN SELECT * FROM marketplace_order_items WHERE order_id = p_order_id LOOP
+    DELETE FROM marketplace_order_item_components WHERE order_item_id = v_item.id;
+
+    IF EXISTS (
+      SELECT 1 FROM marketplace_sku_mappings
+      WHERE account_id = v_order.account_id AND external_sku = v_item.sku AND is_active = true
+    ) THEN
+      SELECT
+        SUM(m.quantity * COALESCE(pv.unit_price, 0)),
+        SUM(m.quantity)
+      INTO v_weight_total, v_qty_total
+      FROM marketplace_sku_mappings m
+      JOIN product_variants pv ON pv.id = m.product_variant_id
+      WHERE m.account_id = v_order.account_id AND m.external_sku = v_item.sku AND m.is_active = true;
+
+      INSERT INTO marketplace_order_item_components (order_item_id, product_variant_id, quantity, unit_price)
+      SELECT
+        v_item.id,
+        m.product_variant_id,
+        v_item.quantity * m.quantity,
+        -- Split the listing price by list price (or by quantity when variants have no price)
+        ROUND(v_item.deal_price * CASE
+          WHEN v_weight_total > 0 THEN COALESCE(pv.unit_price, 0) / v_weight_total
+          ELSE 1 / v_qty_total
+        END, 2)
+      FROM marketplace_sku_mappings m
+      JOIN product_variants pv ON pv.id = m.product_variant_id
+      WHERE m.account_id = v_order.account_id AND m.external_sku = v_item.sku AND m.is_active = true;
+
+      SELECT CASE WHEN COUNT(*) = 1 THEN MIN(product_variant_id::text)::uuid END INTO v_variant_id
+      FROM marketplace_order_item_components WHERE order_item_id = v_item.id;
+
+      UPDATE marketplace_order_items
+      SET mapping_status = 'mapped', product_variant_id = v_variant_id
+      WHERE id = v_item.id;
+    ELSE
+      -- Fallback: listing SKU equals our variant SKU
+      SELECT id INTO v_variant_id FROM product_variants
+      WHERE company_id = v_order.company_id AND sku = v_item.sku;
+
+      IF v_variant_id IS NOT NULL THEN
+        INSERT INTO marketplace_order_item_components (order_item_id, product_variant_id, quantity, unit_price)
+        VALUES (v_item.id, v_variant_id, v_item.quantity, v_item.deal_price);
+
+        UPDATE marketplace_order_items
+        SET mapping_status = 'mapped', product_variant_id = v_variant_id
+        WHERE id = v_item.id;
+      ELSE
+        UPDATE marketplace_order_items
+        SET mapping_status = 'unmapped', product_variant_id = NULL
+        WHERE id = v_item.id;
+        v_unmapped := v_unmapped + 1;
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN v_unmapped;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION resolve_marketplace_order_items IS 'Resolves order items through SKU mappings (falling back to variant SKU); returns the number of unmapped items';
+
+-- Re-resolve open orders containing a listing SKU after its mapping changed
+CREATE OR REPLACE FUNCTION apply_marketplace_sku_mapping(p_account_id UUID, p_external_sku VARCHAR)
+RETURNS INTEGER AS $$
+DECLARE
+  v_order_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    PERFORM check_tenant_access((SELECT company_id FROM marketplace_accounts WHERE id = p_account_id));
+  END IF;
+
+  FOR v_order_id IN
+    SELECT DISTINCT o.id
+    FROM marketplace_orders o
+    JOIN marketplace_order_items i ON i.order_id = o.id
+    WHERE o.account_id = p_account_id AND i.sku = p_external_sku AND o.so_id IS NULL
+  LOOP
+    PERFORM resolve_marketplace_order_items(v_order_id);
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Resolve items synced before this migration (no session here, so act as the backend service)
+DO $$
+DECLARE
+  v_order_id UUID;
+BEGIN
+  PERFORM set_config('request.jwt.claim.role', 'service_role', true);
+
+  FOR v_order_id IN SELECT id FROM marketplace_orders LOOP
+    PERFORM resolve_marketplace_order_items(v_order_id);
+  END LOOP;
+END $$;
+
+-- ==================== REVIEW QUEUE ====================
+
+CREATE OR REPLACE VIEW marketplace_unmapped_items_vw AS
+SELECT
+  o.company_id,
+  o.account_id,
+  a.platform,
+  a.account_name,
+  i.sku AS external_sku,
+  MAX(i.product_name) AS listing_name,
+  COUNT(DISTINCT o.id) AS order_count,
+  SUM(i.quantity) AS total_quantity,
+  MIN(o.order_date) AS first_order_date
+FROM marketplace_order_items i
+JOIN marketplace_orders o ON o.id = i.order_id
+JOIN marketplace_accounts a ON a.id = o.account_id
+WHERE i.mapping_status = 'unmapped'
+  AND o.so_id IS NULL
+  AND o.sync_status <> 'ignored'
+GROUP BY o.company_id, o.account_id, a.platform, a.account_name, i.sku;
+
+ALTER VIEW marketplace_unmapped_items_vw SET (security_invoker = true);
+
+COMMENT ON VIEW marketplace_unmapped_items_vw IS 'Listing SKUs of unconverted orders that resolve to no variant, per account';
+
+-- ==================== RLS POLICIES ====================
+
+ALTER TABLE marketplace_sku_mappings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE marketplace_order_item_components ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY mp_sku_mappings_tenant_isolation ON marketplace_sku_mappings
+  FOR ALL USING (company_id IN (
+    SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+  ));
+
+CREATE POLICY mp_item_components_tenant_isolation ON marketplace_order_item_components
+  FOR ALL USING (order_item_id IN (
+    SELECT i.id FROM marketplace_order_items i
+    JOIN marketplace_orders o ON o.id = i.order_id
+    WHERE o.company_id IN (
+      SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+    )
+  ));
+
+CREATE POLICY mp_sku_mappings_service ON marketplace_sku_mappings FOR ALL TO service_role USING (true) WITH CHECK (true);
+CREATE POLICY mp_item_components_service ON marketplace_order_item_components FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- ==================== TRIGGERS ====================
+
+CREATE TRIGGER trigger_audit_mp_sku_mappings
+  AFTER INSERT OR UPDATE OR DELETE ON marketplace_sku_mappings
+  FOR EACH ROW EXECUTE FUNCTION audit_trigger();
+
+CREATE TRIGGER update_mp_sku_mappings_updated_at
+  BEFORE UPDATE ON marketplace_sku_mappings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER trigger_set_created_by
+  BEFORE INSERT ON marketplace_sku_mappings
+  FOR EACH ROW EXECUTE FUNCTION set_created_by();
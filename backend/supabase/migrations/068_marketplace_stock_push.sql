@@ -0,0 +1,250 @@
+-- Migration: 068_marketplace_stock_push.sql
+-- Description: Publish available finished-goods stock to marketplaces (listings, push queue, sync log, reconciliation)
+-- Dependencies: 022_sales_orders.sql, 049_inventory_optimization.sql, 065_sales_returns.sql, 067_marketplace_sku_mappings.sql
+-- Author: Ziyada ERP Team
+-- Date: 2026-01-10
+
+-- ==================== ACCOUNT SETTINGS ====================
+
+ALTER TABLE marketplace_accounts
+ADD COLUMN IF NOT EXISTS stock_warehouse_ids UUID[],
+ADD COLUMN IF NOT EXISTS stock_safety_buffer INTEGER DEFAULT 0 CHECK (stock_safety_buffer >= 0),
+ADD COLUMN IF NOT EXISTS last_stock_push_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN marketplace_accounts.stock_warehouse_ids IS 'Warehouses whose stock is published to this account (NULL = warehouse_id)';
+COMMENT ON COLUMN marketplace_accounts.stock_safety_buffer IS 'Units held back per listing when publishing stock';
+COMMENT ON COLUMN marketplace_accounts.auto_sync_inventory IS 'Push stock automatically when finished-goods ledger changes';
+
+-- ==================== LISTINGS ====================
+
+CREATE TABLE IF NOT EXISTS marketplace_listings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE NOT NULL,
+  account_id UUID REFERENCES marketplace_accounts(id) ON DELETE CASCADE NOT NULL,
+
+  external_item_id VARCHAR(100) NOT NULL, -- Platform variation ID used for stock updates
+  external_sku VARCHAR(100),
+  listing_name VARCHAR(255),
+
+  marketplace_qty DECIMAL(15,4), -- Stock the marketplace shows (from last fetch or push)
+  last_pushed_qty DECIMAL(15,4),
+  last_pushed_at TIMESTAMPTZ,
+  last_fetched_at TIMESTAMPTZ,
+  is_active BOOLEAN DEFAULT true,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(account_id, external_item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_mp_listings_sku ON marketplace_listings(account_id, external_sku);
+
+COMMENT ON TABLE marketplace_listings IS 'Listings fetched from each marketplace account; targets of stock push';
+
+-- ==================== PUSH QUEUE ====================
+
+CREATE TABLE IF NOT EXISTS marketplace_stock_queue (
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE NOT NULL,
+  product_variant_id UUID REFERENCES product_variants(id) ON DELETE CASCADE NOT NULL,
+  queued_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (company_id, product_variant_id)
+);
+
+COMMENT ON TABLE marketplace_stock_queue IS 'Variants whose stock changed since the last push (filled by finished_goods_ledger trigger)';
+
+CREATE OR REPLACE FUNCTION queue_marketplace_stock_push()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM marketplace_accounts
+    WHERE company_id = NEW.company_id AND is_active = true AND auto_sync_inventory = true
+  ) THEN
+    INSERT INTO marketplace_stock_queue (company_id, product_variant_id)
+    VALUES (NEW.company_id, NEW.product_variant_id)
+    ON CONFLICT (company_id, product_variant_id) DO UPDATE SET queued_at = NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER trigger_queue_marketplace_stock_push
+  AFTER INSERT ON finished_goods_ledger
+  FOR EACH ROW EXECUTE FUNCTION queue_marketplace_stock_push();
+
+-- ==================== SYNC LOG ====================
+
+CREATE TABLE IF NOT EXISTS marketplace_stock_sync_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE NOT NULL,
+  account_id UUID REFERENCES marketplace_accounts(id) ON DELETE CASCADE NOT NULL,
+  listing_id UUID REFERENCES marketplace_listings(id) ON DELETE SET NULL,
+  external_sku VARCHAR(100),
+
+  on_hand DECIMAL(15,4),
+  reserved DECIMAL(15,4),
+  safety_buffer DECIMAL(15,4),
+  previous_qty DECIMAL(15,4),
+  pushed_qty DECIMAL(15,4),
+
+  status VARCHAR(20) NOT NULL CHECK (status IN ('success', 'failed')),
+  error_message TEXT,
+  trigger_source VARCHAR(20) DEFAULT 'manual' CHECK (trigger_source IN ('manual', 'ledger', 'scheduled')),
+
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mp_stock_log_account ON marketplace_stock_sync_log(account_id, created_at DESC);
+
+COMMENT ON TABLE marketplace_stock_sync_log IS 'One row per listing stock update sent to a marketplace';
+
+-- ==================== AVAILABLE STOCK ====================
+
+CREATE OR REPLACE FUNCTION marketplace_available_stock(p_account_id UUID)
+RETURNS TABLE (
+  external_sku VARCHAR,
+  on_hand DECIMAL,
+  reserved DECIMAL,
+  safety_buffer DECIMAL,
+  available DECIMAL
+) AS $$
+  WITH acct AS (
+    SELECT
+      id,
+      company_id,
+      COALESCE(stock_warehouse_ids, ARRAY[warehouse_id]) AS warehouses,
+      COALESCE(stock_safety_buffer, 0) AS buffer
+    FROM marketplace_accounts
+    WHERE id = p_account_id
+  ),
+  -- Sellable stock: quarantine bins are excluded
+  stock AS (
+    SELECT b.product_variant_id, SUM(b.current_qty) AS qty
+    FROM finished_goods_balances b
+    JOIN acct ON acct.company_id = b.company_id AND b.warehouse_id = ANY(acct.warehouses)
+    LEFT JOIN bins ON bins.id = b.bin_id
+    WHERE COALESCE(bins.is_quarantine, false) = false
+    GROUP BY b.product_variant_id
+  ),
+  -- Undelivered quantities of open SOs; marketplace SOs count while still in draft
+  reservations AS (
+    SELECT l.product_variant_id, SUM(l.qty_ordered - l.qty_delivered) AS qty
+    FROM sales_order_lines l
+    JOIN sales_orders so ON so.id = l.so_id
+    JOIN acct ON acct.company_id = so.company_id AND so.warehouse_id = ANY(acct.warehouses)
+    WHERE l.qty_ordered > l.qty_delivered
+      AND (so.status IN ('approved', 'sent', 'in_delivery')
+        OR (so.status = 'draft' AND EXISTS (SELECT 1 FROM marketplace_orders mo WHERE mo.so_id = so.id)))
+    GROUP BY l.product_variant_id
+  ),
+  components AS (
+    -- Mapped listing SKUs; bundles have one row per component
+    SELECT m.external_sku, m.product_variant_id, m.quantity
+    FROM marketplace_sku_mappings m
+    WHERE m.account_id = p_account_id AND m.is_active = true
+    UNION ALL
+    -- Listings whose SKU equals a variant SKU
+    SELECT v.sku, v.id, 1
+    FROM product_variants v
+    JOIN acct ON acct.company_id = v.company_id
+    WHERE NOT EXISTS (
+      SELECT 1 FROM marketplace_sku_mappings m
+      WHERE m.account_id = p_account_id AND m.external_sku = v.sku AND m.is_active = true
+    )
+  ),
+  per_listing AS (
+    -- A bundle is limited by its scarcest component
+    SELECT
+      c.external_sku,
+      MIN(FLOOR(COALESCE(s.qty, 0) / c.quantity)) AS on_hand,
+      MIN(FLOOR((COALESCE(s.qty, 0) - COALESCE(r.qty, 0)) / c.quantity)) AS free
+    FROM components c
+    LEFT JOIN stock s ON s.product_variant_id = c.product_variant_id
+    LEFT JOIN reservations r ON r.product_variant_id = c.product_variant_id
+    GROUP BY c.external_sku
+  )
+  SELECT
+    p.external_sku::VARCHAR,
+    p.on_hand,
+    p.on_hand - p.free AS reserved,
+    acct.buffer::DECIMAL AS safety_buffer,
+    GREATEST(p.free - acct.buffer, 0) AS available
+  FROM per_listing p
+  CROSS JOIN acct;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+COMMENT ON FUNCTION marketplace_available_stock IS 'Per listing SKU: sellable on-hand minus open SO reservations minus the account safety buffer (never negative)';
+
+-- ==================== RECONCILIATION ====================
+
+CREATE OR REPLACE VIEW marketplace_stock_reconciliation_vw AS
+-- Available stock is computed once per account with active listings, not once per listing
+WITH account_stock AS (
+  SELECT a.id AS account_id, st.*
+  FROM marketplace_accounts a
+  CROSS JOIN LATERAL marketplace_available_stock(a.id) st
+  WHERE EXISTS (SELECT 1 FROM marketplace_listings ml WHERE ml.account_id = a.id AND ml.is_active = true)
+)
+SELECT
+  l.company_id,
+  l.account_id,
+  a.platform,
+  a.account_name,
+  l.id AS listing_id,
+  l.external_item_id,
+  l.external_sku,
+  l.listing_name,
+  l.marketplace_qty,
+  l.last_pushed_qty,
+  l.last_pushed_at,
+  l.last_fetched_at,
+  s.on_hand,
+  s.reserved,
+  s.safety_buffer,
+  s.available,
+  l.marketplace_qty - s.available AS difference,
+  CASE
+    WHEN s.external_sku IS NULL THEN 'unmapped'
+    WHEN l.marketplace_qty IS NULL THEN 'unknown'
+    WHEN l.marketplace_qty = s.available THEN 'in_sync'
+    ELSE 'mismatch'
+  END AS reconciliation_status
+FROM marketplace_listings l
+JOIN marketplace_accounts a ON a.id = l.account_id
+LEFT JOIN account_stock s ON s.account_id = l.account_id AND s.external_sku = l.external_sku
+WHERE l.is_active = true;
+
+ALTER VIEW marketplace_stock_reconciliation_vw SET (security_invoker = true);
+
+COMMENT ON VIEW marketplace_stock_reconciliation_vw IS 'Marketplace stock per listing compared with what we can sell';
+
+-- ==================== RLS POLICIES ====================
+
+ALTER TABLE marketplace_listings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE marketplace_stock_queue ENABLE ROW LEVEL SECURITY;
+ALTER TABLE marketplace_stock_sync_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY mp_listings_tenant_isolation ON marketplace_listings
+  FOR ALL USING (company_id IN (
+    SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+  ));
+
+CREATE POLICY mp_stock_queue_tenant_isolation ON marketplace_stock_queue
+  FOR ALL USING (company_id IN (
+    SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+  ));
+
+CREATE POLICY mp_stock_log_tenant_isolation ON marketplace_stock_sync_log
+  FOR ALL USING (company_id IN (
+    SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+  ));
+
+CREATE POLICY mp_listings_service ON marketplace_listings FOR ALL TO service_role USING (true) WITH CHECK (true);
+CREATE POLICY mp_stock_queue_service ON marketplace_stock_queue FOR ALL TO service_role USING (true) WITH CHECK (true);
+CREATE POLICY mp_stock_log_service ON marketplace_stock_sync_log FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- ==================== TRIGGERS ====================
+
+CREATE TRIGGER update_mp_listings_updated_at
+  BEFORE UPDATE ON marketplace_listings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
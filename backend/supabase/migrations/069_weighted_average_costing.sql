@@ -0,0 +1,394 @@
+-- Migration: 069_weighted_average_costing.sql
+-- Description: Perpetual weighted-average cost per item/warehouse; issues valued by the database; recost utility for back-dated receipts
+-- Dependencies: 009_inventory_raw_material.sql, 011_inventory_finished_goods.sql, 049_inventory_optimization.sql
+-- Author: Ziyada ERP Team
+-- Date: 2026-01-11
+
+-- ==================== COST TABLES ====================
+-- Kept alongside raw_material_balances / finished_goods_balances, but per warehouse:
+-- cost does not differ between bins of the same warehouse.
+
+CREATE TABLE IF NOT EXISTS raw_material_costs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE NOT NULL,
+  material_id UUID REFERENCES materials(id) NOT NULL,
+  warehouse_id UUID REFERENCES warehouses(id) NOT NULL,
+
+  qty_on_hand DECIMAL(15,4) NOT NULL DEFAULT 0,
+  total_value DECIMAL(18,2) NOT NULL DEFAULT 0,
+  avg_unit_cost DECIMAL(15,4) NOT NULL DEFAULT 0,
+
+  last_recosted_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT uq_rm_cost UNIQUE (company_id, material_id, warehouse_id)
+);
+
+CREATE TABLE IF NOT EXISTS finished_goods_costs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE NOT NULL,
+  product_variant_id UUID REFERENCES product_variants(id) NOT NULL,
+  warehouse_id UUID REFERENCES warehouses(id) NOT NULL,
+
+  qty_on_hand DECIMAL(15,4) NOT NULL DEFAULT 0,
+  total_value DECIMAL(18,2) NOT NULL DEFAULT 0,
+  avg_unit_cost DECIMAL(15,4) NOT NULL DEFAULT 0,
+
+  last_recosted_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT uq_fg_cost UNIQUE (company_id, product_variant_id, warehouse_id)
+);
+
+COMMENT ON TABLE raw_material_costs IS 'Moving weighted-average cost per material and warehouse (maintained by ledger trigger)';
+COMMENT ON TABLE finished_goods_costs IS 'Moving weighted-average cost per SKU and warehouse (maintained by ledger trigger)';
+
+-- Seed from existing ledgers: average receipt cost applied to the quantity on hand.
+-- Run recost_weighted_average() per item for an exact replay.
+INSERT INTO raw_material_costs (company_id, material_id, warehouse_id, qty_on_hand, total_value, avg_unit_cost)
+SELECT
+  company_id, material_id, warehouse_id,
+  SUM(qty_in - qty_out),
+  GREATEST(SUM(qty_in - qty_out), 0) * COALESCE(SUM(qty_in * unit_cost) / NULLIF(SUM(qty_in), 0), 0),
+  COALESCE(SUM(qty_in * unit_cost) / NULLIF(SUM(qty_in), 0), 0)
+FROM raw_material_ledger
+WHERE is_posted = true
+GROUP BY company_id, material_id, warehouse_id
+ON CONFLICT (company_id, material_id, warehouse_id) DO NOTHING;
+
+INSERT INTO finished_goods_costs (company_id, product_variant_id, warehouse_id, qty_on_hand, total_value, avg_unit_cost)
+SELECT
+  company_id, product_variant_id, warehouse_id,
+  SUM(qty_in - qty_out),
+  GREATEST(SUM(qty_in - qty_out), 0) * COALESCE(SUM(qty_in * unit_cost) / NULLIF(SUM(qty_in), 0), 0),
+  COALESCE(SUM(qty_in * unit_cost) / NULLIF(SUM(qty_in), 0), 0)
+FROM finished_goods_ledger
+WHERE is_posted = true
+GROUP BY company_id, product_variant_id, warehouse_id
+ON CONFLICT (company_id, product_variant_id, warehouse_id) DO NOTHING;
+
+-- ==================== WEIGHTED AVERAGE STEP ====================
+
+-- One movement applied to a running (qty, value) position.
+-- Issues are valued at the running average (rounded to the ledger's unit_cost precision);
+-- receipts into an empty position restart the average at the receipt cost.
+CREATE OR REPLACE FUNCTION weighted_average_step(
+  p_qty DECIMAL,
+  p_value DECIMAL,
+  p_qty_in DECIMAL,
+  p_qty_out DECIMAL,
+  p_unit_cost DECIMAL,
+  OUT qty DECIMAL,
+  OUT value DECIMAL,
+  OUT unit_cost DECIMAL
+) AS $$
+BEGIN
+  IF p_qty_out > 0 THEN
+    unit_cost := CASE WHEN p_qty > 0 THEN ROUND(p_value / p_qty, 2) ELSE p_unit_cost END;
+    qty := p_qty - p_qty_out;
+    value := CASE WHEN qty > 0 THEN GREATEST(p_value - p_qty_out * unit_cost, 0) ELSE 0 END;
+  ELSE
+    unit_cost := p_unit_cost;
+    qty := p_qty + p_qty_in;
+    value := CASE WHEN p_qty > 0 THEN p_value ELSE 0 END + GREATEST(LEAST(qty, p_qty_in), 0) * p_unit_cost;
+  END IF;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- ==================== LEDGER TRIGGER ====================
+
+CREATE OR REPLACE FUNCTION apply_weighted_average_cost()
+RETURNS TRIGGER
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_qty DECIMAL;
+  v_value DECIMAL;
+  v_avg DECIMAL;
+  v_transfer_cost DECIMAL;
+  v_step RECORD;
+BEGIN
+  -- Lock the running position for this item/warehouse
+  IF TG_TABLE_NAME = 'raw_material_ledger' THEN
+    INSERT INTO raw_material_costs (company_id, material_id, warehouse_id)
+    VALUES (NEW.company_id, NEW.material_id, NEW.warehouse_id)
+    ON CONFLICT (company_id, material_id, warehouse_id) DO NOTHING;
+
+    SELECT qty_on_hand, total_value, avg_unit_cost INTO v_qty, v_value, v_avg
+    FROM raw_material_costs
+    WHERE company_id = NEW.company_id AND material_id = NEW.material_id AND warehouse_id = NEW.warehouse_id
+    FOR UPDATE;
+
+    -- Transfer receipts carry the cost the source warehouse issued at
+    IF NEW.qty_in > 0 AND NEW.reference_type = 'TRANSFER' AND NEW.reference_id IS NOT NULL THEN
+      SELECT l.unit_cost INTO v_transfer_cost
+      FROM raw_material_ledger l
+      WHERE l.reference_id = NEW.reference_id AND l.material_id = NEW.material_id AND l.qty_out > 0
+      ORDER BY l.created_at DESC
+      LIMIT 1;
+    END IF;
+  ELSE
+    INSERT INTO finished_goods_costs (company_id, product_variant_id, warehouse_id)
+    VALUES (NEW.company_id, NEW.product_variant_id, NEW.warehouse_id)
+    ON CONFLICT (company_id, product_variant_id, warehouse_id) DO NOTHING;
+
+    SELECT qty_on_hand, total_value, avg_unit_cost INTO v_qty, v_value, v_avg
+    FROM finished_goods_costs
+    WHERE company_id = NEW.company_id AND product_variant_id = NEW.product_variant_id AND warehouse_id = NEW.warehouse_id
+    FOR UPDATE;
+
+    IF NEW.qty_in > 0 AND NEW.reference_type = 'TRANSFER' AND NEW.reference_id IS NOT NULL THEN
+      SELECT l.unit_cost INTO v_transfer_cost
+      FROM finished_goods_ledger l
+      WHERE l.reference_id = NEW.reference_id AND l.product_variant_id = NEW.product_variant_id AND l.qty_out > 0
+      ORDER BY l.created_at DESC
+      LIMIT 1;
+    END IF;
+  END IF;
+
+  -- Outflows ignore the caller's unit_cost; an empty position falls back to the last average
+  SELECT * INTO v_step FROM weighted_average_step(
+    v_qty, v_value, NEW.qty_in, NEW.qty_out,
+    CASE
+      WHEN NEW.qty_out > 0 THEN COALESCE(NULLIF(v_avg, 0), NEW.unit_cost)
+      ELSE COALESCE(v_transfer_cost, NEW.unit_cost)
+    END
+  );
+  NEW.unit_cost := ROUND(v_step.unit_cost, 2);
+
+  IF TG_TABLE_NAME = 'raw_material_ledger' THEN
+    UPDATE raw_material_costs SET
+      qty_on_hand = v_step.qty,
+      total_value = v_step.value,
+      avg_unit_cost = CASE WHEN v_step.qty > 0 THEN v_step.value / v_step.qty ELSE avg_unit_cost END,
+      updated_at = NOW()
+    WHERE company_id = NEW.company_id AND material_id = NEW.material_id AND warehouse_id = NEW.warehouse_id;
+  ELSE
+    UPDATE finished_goods_costs SET
+      qty_on_hand = v_step.qty,
+      total_value = v_step.value,
+      avg_unit_cost = CASE WHEN v_step.qty > 0 THEN v_step.value / v_step.qty ELSE avg_unit_cost END,
+      updated_at = NOW()
+    WHERE company_id = NEW.company_id AND product_variant_id = NEW.product_variant_id AND warehouse_id = NEW.warehouse_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION apply_weighted_average_cost() IS
+'Values outflows at the moving weighted-average cost (overriding the payload unit_cost) and updates the running position';
+
+CREATE TRIGGER trigger_weighted_average_rm
+  BEFORE INSERT ON raw_material_ledger
+  FOR EACH ROW
+  WHEN (NEW.is_posted = true)
+  EXECUTE FUNCTION apply_weighted_average_cost();
+
+CREATE TRIGGER trigger_weighted_average_fg
+  BEFORE INSERT ON finished_goods_ledger
+  FOR EACH ROW
+  WHEN (NEW.is_posted = true)
+  EXECUTE FUNCTION apply_weighted_average_cost();
+
+-- ==================== RECOST ====================
+
+CREATE TABLE IF NOT EXISTS inventory_recost_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE NOT NULL,
+  run_number VARCHAR(50) NOT NULL,
+
+  item_type VARCHAR(10) NOT NULL CHECK (item_type IN ('RAW', 'FG')),
+  item_id UUID NOT NULL, -- materials.id (RAW) or product_variants.id (FG)
+  warehouse_id UUID REFERENCES warehouses(id) NOT NULL,
+  from_date DATE NOT NULL,
+
+  qty_before DECIMAL(15,4),
+  value_before DECIMAL(18,2),
+  qty_after DECIMAL(15,4),
+  value_after DECIMAL(18,2),
+  total_difference DECIMAL(18,2) DEFAULT 0, -- Σ issue cost differences (positive = issues were under-costed)
+
+  journal_id UUID REFERENCES journals(id),
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+
+  UNIQUE(company_id, run_number)
+);
+
+CREATE TABLE IF NOT EXISTS inventory_recost_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID REFERENCES inventory_recost_runs(id) ON DELETE CASCADE NOT NULL,
+  ledger_id UUID NOT NULL, -- Issue row whose cost changed (ledger rows are immutable)
+
+  transaction_date DATE NOT NULL,
+  reference_type reference_type,
+  reference_number VARCHAR(100),
+  qty_out DECIMAL(15,4) NOT NULL,
+  posted_unit_cost DECIMAL(15,2) NOT NULL,
+  recalculated_unit_cost DECIMAL(15,2) NOT NULL,
+  cost_difference DECIMAL(18,2) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_recost_runs_item ON inventory_recost_runs(company_id, item_type, item_id);
+CREATE INDEX IF NOT EXISTS idx_recost_lines_run ON inventory_recost_lines(run_id);
+
+COMMENT ON TABLE inventory_recost_runs IS 'Weighted-average replays after back-dated receipts; the difference is journaled, ledger rows stay untouched';
+
+-- Replays one item/warehouse ledger in transaction-date order and records every
+-- issue on or after p_from_date whose weighted-average cost changed.
+-- The running position is reset to the replayed result.
+-- Transfer receipts keep their posted cost: recost the source warehouse first.
+CREATE OR REPLACE FUNCTION recost_weighted_average(
+  p_company_id UUID,
+  p_item_type VARCHAR,
+  p_item_id UUID,
+  p_warehouse_id UUID,
+  p_from_date DATE,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER
+AS $$
+DECLARE
+  v_run_id UUID;
+  v_qty DECIMAL := 0;
+  v_value DECIMAL := 0;
+  v_step RECORD;
+  v_row RECORD;
+  v_total DECIMAL := 0;
+  v_before RECORD;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    PERFORM check_tenant_access(p_company_id);
+  END IF;
+
+  IF p_item_type NOT IN ('RAW', 'FG') THEN
+    RAISE EXCEPTION 'Invalid item type %', p_item_type;
+  END IF;
+
+  -- Lock the position so no movement is valued while replaying
+  IF p_item_type = 'RAW' THEN
+    SELECT qty_on_hand, total_value INTO v_before FROM raw_material_costs
+    WHERE company_id = p_company_id AND material_id = p_item_id AND warehouse_id = p_warehouse_id
+    FOR UPDATE;
+  ELSE
+    SELECT qty_on_hand, total_value INTO v_before FROM finished_goods_costs
+    WHERE company_id = p_company_id AND product_variant_id = p_item_id AND warehouse_id = p_warehouse_id
+    FOR UPDATE;
+  END IF;
+
+  INSERT INTO inventory_recost_runs (
+    company_id, run_number, item_type, item_id, warehouse_id, from_date,
+    qty_before, value_before, created_by
+  ) VALUES (
+    p_company_id,
+    'RC-' || TO_CHAR(NOW(), 'YYYYMMDD-HH24MISS-MS'),
+    p_item_type, p_item_id, p_warehouse_id, p_from_date,
+    v_before.qty_on_hand, v_before.total_value, COALESCE(p_user_id, auth.uid())
+  )
+  RETURNING id INTO v_run_id;
+
+  FOR v_row IN
+    SELECT id, transaction_date, created_at, reference_type, reference_number, qty_in, qty_out, unit_cost
+    FROM raw_material_ledger
+    WHERE p_item_type = 'RAW' AND company_id = p_company_id AND material_id = p_item_id
+      AND warehouse_id = p_warehouse_id AND is_posted = true
+    UNION ALL
+    SELECT id, transaction_date, created_at, reference_type, reference_number, qty_in, qty_out, unit_cost
+    FROM finished_goods_ledger
+    WHERE p_item_type = 'FG' AND company_id = p_company_id AND product_variant_id = p_item_id
+      AND warehouse_id = p_warehouse_id AND is_posted = true
+    ORDER BY transaction_date, created_at, id
+  LOOP
+    SELECT * INTO v_step FROM weighted_average_step(v_qty, v_value, v_row.qty_in, v_row.qty_out, v_row.unit_cost);
+
+    IF v_row.qty_out > 0 AND v_row.transaction_date >= p_from_date AND v_step.unit_cost <> v_row.unit_cost THEN
+      INSERT INTO inventory_recost_lines (
+        run_id, ledger_id, transaction_date, reference_type, reference_number,
+        qty_out, posted_unit_cost, recalculated_unit_cost, cost_difference
+      ) VALUES (
+        v_run_id, v_row.id, v_row.transaction_date, v_row.reference_type, v_row.reference_number,
+        v_row.qty_out, v_row.unit_cost, v_step.unit_cost,
+        ROUND(v_row.qty_out * (v_step.unit_cost - v_row.unit_cost), 2)
+      );
+      v_total := v_total + ROUND(v_row.qty_out * (v_step.unit_cost - v_row.unit_cost), 2);
+    END IF;
+
+    v_qty := v_step.qty;
+    v_value := v_step.value;
+  END LOOP;
+
+  IF p_item_type = 'RAW' THEN
+    INSERT INTO raw_material_costs (company_id, material_id, warehouse_id)
+    VALUES (p_company_id, p_item_id, p_warehouse_id)
+    ON CONFLICT (company_id, material_id, warehouse_id) DO NOTHING;
+
+    UPDATE raw_material_costs SET
+      qty_on_hand = v_qty,
+      total_value = v_value,
+      avg_unit_cost = CASE WHEN v_qty > 0 THEN v_value / v_qty ELSE avg_unit_cost END,
+      last_recosted_at = NOW(),
+      updated_at = NOW()
+    WHERE company_id = p_company_id AND material_id = p_item_id AND warehouse_id = p_warehouse_id;
+  ELSE
+    INSERT INTO finished_goods_costs (company_id, product_variant_id, warehouse_id)
+    VALUES (p_company_id, p_item_id, p_warehouse_id)
+    ON CONFLICT (company_id, product_variant_id, warehouse_id) DO NOTHING;
+
+    UPDATE finished_goods_costs SET
+      qty_on_hand = v_qty,
+      total_value = v_value,
+      avg_unit_cost = CASE WHEN v_qty > 0 THEN v_value / v_qty ELSE avg_unit_cost END,
+      last_recosted_at = NOW(),
+      updated_at = NOW()
+    WHERE company_id = p_company_id AND product_variant_id = p_item_id AND warehouse_id = p_warehouse_id;
+  END IF;
+
+  UPDATE inventory_recost_runs SET
+    qty_after = v_qty,
+    value_after = v_value,
+    total_difference = v_total
+  WHERE id = v_run_id;
+
+  RETURN v_run_id;
+END;
+$$;
+
+COMMENT ON FUNCTION recost_weighted_average IS 'Replays an item/warehouse ledger by transaction date after back-dated receipts and records issue cost differences';
+
+-- ==================== RLS POLICIES ====================
+
+ALTER TABLE raw_material_costs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE finished_goods_costs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE inventory_recost_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE inventory_recost_lines ENABLE ROW LEVEL SECURITY;
+
+-- Costs are written only by SECURITY DEFINER functions
+CREATE POLICY rm_costs_tenant_read ON raw_material_costs
+  FOR SELECT USING (company_id IN (
+    SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+  ));
+
+CREATE POLICY fg_costs_tenant_read ON finished_goods_costs
+  FOR SELECT USING (company_id IN (
+    SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+  ));
+
+CREATE POLICY recost_runs_tenant_isolation ON inventory_recost_runs
+  FOR ALL USING (company_id IN (
+    SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+  ));
+
+CREATE POLICY recost_lines_tenant_isolation ON inventory_recost_lines
+  FOR ALL USING (run_id IN (
+    SELECT id FROM inventory_recost_runs WHERE company_id IN (
+      SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+    )
+  ));
+
+CREATE POLICY rm_costs_service ON raw_material_costs FOR ALL TO service_role USING (true) WITH CHECK (true);
+CREATE POLICY fg_costs_service ON finished_goods_costs FOR ALL TO service_role USING (true) WITH CHECK (true);
+CREATE POLICY recost_runs_service ON inventory_recost_runs FOR ALL TO service_role USING (true) WITH CHECK (true);
+CREATE POLICY recost_lines_service ON inventory_recost_lines FOR ALL TO service_role USING (true) WITH CHECK (true);
@@ -0,0 +1,439 @@
+-- Migration: 070_fifo_cost_layers.sql
+-- Description: FIFO cost layers as a per-company valuation method, layer consumption report and period-end valuation vs GL
+-- Dependencies: 021_auto_journal_setup.sql, 028_journals_schema.sql, 031_company_settings.sql, 069_weighted_average_costing.sql
+-- Author: Ziyada ERP Team
+-- Date: 2026-01-12
+
+-- ==================== VALUATION METHOD ====================
+-- Stored in companies.settings as {"inventory_valuation_method": "average" | "fifo"}; missing = average.
+
+CREATE OR REPLACE FUNCTION get_inventory_valuation_method(p_company_id UUID)
+RETURNS VARCHAR AS $$
+  SELECT COALESCE(
+    (SELECT settings->>'inventory_valuation_method' FROM companies WHERE id = p_company_id),
+    'average'
+  )::VARCHAR;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+COMMENT ON FUNCTION get_inventory_valuation_method(UUID) IS 'Inventory valuation method of a company: average (default) or fifo';
+
+-- ==================== COST LAYERS ====================
+
+CREATE TABLE IF NOT EXISTS inventory_cost_layers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE NOT NULL,
+
+  item_type VARCHAR(10) NOT NULL CHECK (item_type IN ('RAW', 'FG')),
+  item_id UUID NOT NULL, -- materials.id (RAW) or product_variants.id (FG)
+  warehouse_id UUID REFERENCES warehouses(id) NOT NULL,
+
+  source VARCHAR(20) NOT NULL DEFAULT 'RECEIPT' CHECK (source IN ('RECEIPT', 'TRANSFER', 'OPENING')),
+  receipt_ledger_id UUID, -- Ledger row that created the layer (NULL for opening layers)
+  receipt_date DATE NOT NULL,
+  reference_number VARCHAR(100),
+
+  qty_received DECIMAL(15,4) NOT NULL CHECK (qty_received > 0),
+  qty_remaining DECIMAL(15,4) NOT NULL CHECK (qty_remaining >= 0),
+  unit_cost DECIMAL(15,4) NOT NULL CHECK (unit_cost >= 0),
+
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cost_layers_open ON inventory_cost_layers(company_id, item_type, item_id, warehouse_id, receipt_date)
+  WHERE qty_remaining > 0;
+CREATE INDEX IF NOT EXISTS idx_cost_layers_receipt ON inventory_cost_layers(receipt_ledger_id);
+
+COMMENT ON TABLE inventory_cost_layers IS 'FIFO cost layers created by ledger receipts (FIFO companies only)';
+
+CREATE TABLE IF NOT EXISTS inventory_layer_consumptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE NOT NULL,
+  layer_id UUID REFERENCES inventory_cost_layers(id) ON DELETE CASCADE NOT NULL,
+
+  issue_ledger_id UUID NOT NULL, -- Ledger outflow that consumed the layer
+  consumed_date DATE NOT NULL,
+  reference_type reference_type,
+  reference_number VARCHAR(100),
+
+  qty DECIMAL(15,4) NOT NULL CHECK (qty > 0),
+  unit_cost DECIMAL(15,4) NOT NULL,
+  total_cost DECIMAL(18,2) GENERATED ALWAYS AS (ROUND(qty * unit_cost, 2)) STORED,
+
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_layer_consumptions_layer ON inventory_layer_consumptions(layer_id);
+CREATE INDEX IF NOT EXISTS idx_layer_consumptions_issue ON inventory_layer_consumptions(issue_ledger_id);
+CREATE INDEX IF NOT EXISTS idx_layer_consumptions_date ON inventory_layer_consumptions(company_id, consumed_date);
+
+COMMENT ON TABLE inventory_layer_consumptions IS 'Which FIFO layers each ledger outflow consumed';
+
+-- ==================== FIFO CONSUMPTION ====================
+
+-- Consumes open layers oldest first and returns the unit cost of the issue.
+-- Quantity not covered by layers is valued at p_fallback_cost.
+CREATE OR REPLACE FUNCTION consume_fifo_layers(
+  p_company_id UUID,
+  p_item_type VARCHAR,
+  p_item_id UUID,
+  p_warehouse_id UUID,
+  p_issue_ledger_id UUID,
+  p_qty DECIMAL,
+  p_date DATE,
+  p_reference_type reference_type,
+  p_reference_number VARCHAR,
+  p_fallback_cost DECIMAL
+)
+RETURNS DECIMAL AS $$
+DECLARE
+  v_layer RECORD;
+  v_remaining DECIMAL := p_qty;
+  v_take DECIMAL;
+  v_cost DECIMAL := 0;
+BEGIN
+  FOR v_layer IN
+    SELECT id, qty_remaining, unit_cost
+    FROM inventory_cost_layers
+    WHERE company_id = p_company_id AND item_type = p_item_type AND item_id = p_item_id
+      AND warehouse_id = p_warehouse_id AND qty_remaining > 0
+    ORDER BY receipt_date, created_at, id
+    FOR UPDATE
+  LOOP
+    EXIT WHEN v_remaining <= 0;
+    v_take := LEAST(v_layer.qty_remaining, v_remaining);
+
+    UPDATE inventory_cost_layers SET qty_remaining = qty_remaining - v_take WHERE id = v_layer.id;
+
+    INSERT INTO inventory_layer_consumptions (
+      company_id, layer_id, issue_ledger_id, consumed_date, reference_type, reference_number, qty, unit_cost
+    ) VALUES (
+      p_company_id, v_layer.id, p_issue_ledger_id, p_date, p_reference_type, p_reference_number, v_take, v_layer.unit_cost
+    );
+
+    v_cost := v_cost + v_take * v_layer.unit_cost;
+    v_remaining := v_remaining - v_take;
+  END LOOP;
+
+  IF v_remaining > 0 THEN
+    v_cost := v_cost + v_remaining * p_fallback_cost;
+  END IF;
+
+  RETURN v_cost / p_qty;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ==================== LEDGER TRIGGER ====================
+-- Replaces apply_weighted_average_cost: same running position, issues valued by the company method.
+
+CREATE OR REPLACE FUNCTION apply_inventory_cost()
+RETURNS TRIGGER
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_item_type VARCHAR;
+  v_item_id UUID;
+  v_qty DECIMAL;
+  v_value DECIMAL;
+  v_avg DECIMAL;
+  v_transfer_cost DECIMAL;
+  v_step RECORD;
+BEGIN
+  -- Lock the running position for this item/warehouse
+  IF TG_TABLE_NAME = 'raw_material_ledger' THEN
+    v_item_type := 'RAW';
+    v_item_id := NEW.material_id;
+
+    INSERT INTO raw_material_costs (company_id, material_id, warehouse_id)
+    VALUES (NEW.company_id, NEW.material_id, NEW.warehouse_id)
+    ON CONFLICT (company_id, material_id, warehouse_id) DO NOTHING;
+
+    SELECT qty_on_hand, total_value, avg_unit_cost INTO v_qty, v_value, v_avg
+    FROM raw_material_costs
+    WHERE company_id = NEW.company_id AND material_id = NEW.material_id AND warehouse_id = NEW.warehouse_id
+    FOR UPDATE;
+
+    -- Transfer receipts carry the cost the source warehouse issued at
+    IF NEW.qty_in > 0 AND NEW.reference_type = 'TRANSFER' AND NEW.reference_id IS NOT NULL THEN
+      SELECT l.unit_cost INTO v_transfer_cost
+      FROM raw_material_ledger l
+      WHERE l.reference_id = NEW.reference_id AND l.material_id = NEW.material_id AND l.qty_out > 0
+      ORDER BY l.created_at DESC
+      LIMIT 1;
+    END IF;
+  ELSE
+    v_item_type := 'FG';
+    v_item_id := NEW.product_variant_id;
+
+    INSERT INTO finished_goods_costs (company_id, product_variant_id, warehouse_id)
+    VALUES (NEW.company_id, NEW.product_variant_id, NEW.warehouse_id)
+    ON CONFLICT (company_id, product_variant_id, warehouse_id) DO NOTHING;
+
+    SELECT qty_on_hand, total_value, avg_unit_cost INTO v_qty, v_value, v_avg
+    FROM finished_goods_costs
+    WHERE company_id = NEW.company_id AND product_variant_id = NEW.product_variant_id AND warehouse_id = NEW.warehouse_id
+    FOR UPDATE;
+
+    IF NEW.qty_in > 0 AND NEW.reference_type = 'TRANSFER' AND NEW.reference_id IS NOT NULL THEN
+      SELECT l.unit_cost INTO v_transfer_cost
+      FROM finished_goods_ledger l
+      WHERE l.reference_id = NEW.reference_id AND l.product_variant_id = NEW.product_variant_id AND l.qty_out > 0
+      ORDER BY l.created_at DESC
+      LIMIT 1;
+    END IF;
+  END IF;
+
+  IF get_inventory_valuation_method(NEW.company_id) = 'fifo' THEN
+    IF NEW.qty_out > 0 THEN
+      NEW.unit_cost := ROUND(consume_fifo_layers(
+        NEW.company_id, v_item_type, v_item_id, NEW.warehouse_id, NEW.id, NEW.qty_out,
+        NEW.transaction_date, NEW.reference_type, NEW.reference_number,
+        COALESCE(NULLIF(v_avg, 0), NEW.unit_cost)
+      ), 2);
+      v_qty := v_qty - NEW.qty_out;
+      v_value := CASE WHEN v_qty > 0 THEN GREATEST(v_value - NEW.qty_out * NEW.unit_cost, 0) ELSE 0 END;
+    ELSE
+      NEW.unit_cost := ROUND(COALESCE(v_transfer_cost, NEW.unit_cost), 2);
+
+      INSERT INTO inventory_cost_layers (
+        company_id, item_type, item_id, warehouse_id, source, receipt_ledger_id,
+        receipt_date, reference_number, qty_received, qty_remaining, unit_cost
+      ) VALUES (
+        NEW.company_id, v_item_type, v_item_id, NEW.warehouse_id,
+        CASE WHEN NEW.reference_type = 'TRANSFER' THEN 'TRANSFER' ELSE 'RECEIPT' END,
+        NEW.id, NEW.transaction_date, NEW.reference_number, NEW.qty_in, NEW.qty_in, NEW.unit_cost
+      );
+
+      v_value := CASE WHEN v_qty > 0 THEN v_value ELSE 0 END + NEW.qty_in * NEW.unit_cost;
+      v_qty := v_qty + NEW.qty_in;
+    END IF;
+  ELSE
+    -- Outflows ignore the caller's unit_cost; an empty position falls back to the last average
+    SELECT * INTO v_step FROM weighted_average_step(
+      v_qty, v_value, NEW.qty_in, NEW.qty_out,
+      CASE
+        WHEN NEW.qty_out > 0 THEN COALESCE(NULLIF(v_avg, 0), NEW.unit_cost)
+        ELSE COALESCE(v_transfer_cost, NEW.unit_cost)
+      END
+    );
+    NEW.unit_cost := ROUND(v_step.unit_cost, 2);
+    v_qty := v_step.qty;
+    v_value := v_step.value;
+  END IF;
+
+  IF v_item_type = 'RAW' THEN
+    UPDATE raw_material_costs SET
+      qty_on_hand = v_qty,
+      total_value = v_value,
+      avg_unit_cost = CASE WHEN v_qty > 0 THEN v_value / v_qty ELSE avg_unit_cost END,
+      updated_at = NOW()
+    WHERE company_id = NEW.company_id AND material_id = NEW.material_id AND warehouse_id = NEW.warehouse_id;
+  ELSE
+    UPDATE finished_goods_costs SET
+      qty_on_hand = v_qty,
+      total_value = v_value,
+      avg_unit_cost = CASE WHEN v_qty > 0 THEN v_value / v_qty ELSE avg_unit_cost END,
+      updated_at = NOW()
+    WHERE company_id = NEW.company_id AND product_variant_id = NEW.product_variant_id AND warehouse_id = NEW.warehouse_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION apply_inventory_cost() IS
+'Values outflows by the company valuation method (weighted average or FIFO layers), overriding the payload unit_cost';
+
+DROP TRIGGER IF EXISTS trigger_weighted_average_rm ON raw_material_ledger;
+DROP TRIGGER IF EXISTS trigger_weighted_average_fg ON finished_goods_ledger;
+DROP FUNCTION IF EXISTS apply_weighted_average_cost();
+
+CREATE TRIGGER trigger_inventory_cost_rm
+  BEFORE INSERT ON raw_material_ledger
+  FOR EACH ROW
+  WHEN (NEW.is_posted = true)
+  EXECUTE FUNCTION apply_inventory_cost();
+
+CREATE TRIGGER trigger_inventory_cost_fg
+  BEFORE INSERT ON finished_goods_ledger
+  FOR EACH ROW
+  WHEN (NEW.is_posted = true)
+  EXECUTE FUNCTION apply_inventory_cost();
+
+-- ==================== SWITCHING METHOD ====================
+
+-- Switching to FIFO closes any old layers and opens one layer per position at its average cost,
+-- so the inventory value does not change with the method.
+CREATE OR REPLACE FUNCTION set_inventory_valuation_method(p_company_id UUID, p_method VARCHAR)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    PERFORM check_tenant_access(p_company_id);
+  END IF;
+
+  IF p_method NOT IN ('average', 'fifo') THEN
+    RAISE EXCEPTION 'Invalid valuation method %', p_method;
+  END IF;
+
+  IF get_inventory_valuation_method(p_company_id) = p_method THEN
+    RETURN;
+  END IF;
+
+  UPDATE companies
+  SET settings = COALESCE(settings, '{}'::jsonb) || jsonb_build_object('inventory_valuation_method', p_method)
+  WHERE id = p_company_id;
+
+  IF p_method = 'fifo' THEN
+    UPDATE inventory_cost_layers SET qty_remaining = 0
+    WHERE company_id = p_company_id AND qty_remaining > 0;
+
+    INSERT INTO inventory_cost_layers (
+      company_id, item_type, item_id, warehouse_id, source, receipt_date, qty_received, qty_remaining, unit_cost
+    )
+    SELECT company_id, 'RAW', material_id, warehouse_id, 'OPENING', CURRENT_DATE, qty_on_hand, qty_on_hand, total_value / qty_on_hand
+    FROM raw_material_costs
+    WHERE company_id = p_company_id AND qty_on_hand > 0
+    UNION ALL
+    SELECT company_id, 'FG', product_variant_id, warehouse_id, 'OPENING', CURRENT_DATE, qty_on_hand, qty_on_hand, total_value / qty_on_hand
+    FROM finished_goods_costs
+    WHERE company_id = p_company_id AND qty_on_hand > 0;
+  END IF;
+END;
+$$;
+
+COMMENT ON FUNCTION set_inventory_valuation_method IS 'Changes the company valuation method; switching to FIFO opens layers from current positions';
+
+-- ==================== LAYER CONSUMPTION REPORT ====================
+
+CREATE OR REPLACE VIEW inventory_layer_consumption_vw AS
+SELECT
+  c.id,
+  c.company_id,
+  l.item_type,
+  l.item_id,
+  COALESCE(m.code, pv.sku) AS item_code,
+  COALESCE(m.name, p.name) AS item_name,
+  l.warehouse_id,
+  w.name AS warehouse_name,
+  l.id AS layer_id,
+  l.source AS layer_source,
+  l.receipt_date,
+  l.reference_number AS receipt_reference,
+  c.issue_ledger_id,
+  c.consumed_date,
+  c.reference_type,
+  c.reference_number AS issue_reference,
+  c.qty,
+  c.unit_cost,
+  c.total_cost
+FROM inventory_layer_consumptions c
+JOIN inventory_cost_layers l ON l.id = c.layer_id
+JOIN warehouses w ON w.id = l.warehouse_id
+LEFT JOIN materials m ON l.item_type = 'RAW' AND m.id = l.item_id
+LEFT JOIN product_variants pv ON l.item_type = 'FG' AND pv.id = l.item_id
+LEFT JOIN products p ON p.id = pv.product_id;
+
+ALTER VIEW inventory_layer_consumption_vw SET (security_invoker = true);
+
+COMMENT ON VIEW inventory_layer_consumption_vw IS 'FIFO layer consumption per issue with the receipt it was costed from';
+
+-- ==================== PERIOD-END VALUATION ====================
+
+-- Inventory value per item/warehouse as of a date, from the ledger (every row carries its method cost)
+-- net of weighted-average recost corrections journaled up to that date.
+CREATE OR REPLACE FUNCTION inventory_valuation_as_of(p_company_id UUID, p_as_of DATE)
+RETURNS TABLE (
+  item_type VARCHAR,
+  item_id UUID,
+  warehouse_id UUID,
+  qty_on_hand DECIMAL,
+  inventory_value DECIMAL
+)
+LANGUAGE plpgsql STABLE SECURITY DEFINER
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    PERFORM check_tenant_access(p_company_id);
+  END IF;
+
+  RETURN QUERY
+  WITH movements AS (
+    SELECT 'RAW'::VARCHAR AS item_type, l.material_id AS item_id, l.warehouse_id,
+           l.qty_in - l.qty_out AS qty,
+           CASE WHEN l.qty_in > 0 THEN l.total_cost ELSE -l.total_cost END AS value
+    FROM raw_material_ledger l
+    WHERE l.company_id = p_company_id AND l.is_posted = true AND l.transaction_date <= p_as_of
+    UNION ALL
+    SELECT 'FG'::VARCHAR, l.product_variant_id, l.warehouse_id,
+           l.qty_in - l.qty_out,
+           CASE WHEN l.qty_in > 0 THEN l.total_cost ELSE -l.total_cost END
+    FROM finished_goods_ledger l
+    WHERE l.company_id = p_company_id AND l.is_posted = true AND l.transaction_date <= p_as_of
+    UNION ALL
+    SELECT r.item_type, r.item_id, r.warehouse_id, 0, -r.total_difference
+    FROM inventory_recost_runs r
+    WHERE r.company_id = p_company_id AND r.journal_id IS NOT NULL AND r.created_at::DATE <= p_as_of
+  )
+  SELECT mv.item_type, mv.item_id, mv.warehouse_id, SUM(mv.qty), SUM(mv.value)
+  FROM movements mv
+  GROUP BY mv.item_type, mv.item_id, mv.warehouse_id
+  HAVING SUM(mv.qty) <> 0 OR SUM(mv.value) <> 0;
+END;
+$$;
+
+COMMENT ON FUNCTION inventory_valuation_as_of IS 'Inventory value per item/warehouse as of a date (period-end valuation)';
+
+-- Balance of the mapped inventory accounts as of a date, for tying valuation to the GL
+CREATE OR REPLACE FUNCTION inventory_gl_balances(p_company_id UUID, p_as_of DATE)
+RETURNS TABLE (
+  mapping_code VARCHAR,
+  account_code VARCHAR,
+  account_name VARCHAR,
+  balance DECIMAL
+)
+LANGUAGE plpgsql STABLE SECURITY DEFINER
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    PERFORM check_tenant_access(p_company_id);
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    sam.mapping_code::VARCHAR,
+    coa.account_code::VARCHAR,
+    coa.account_name::VARCHAR,
+    COALESCE((
+      SELECT SUM(jl.debit - jl.credit)
+      FROM journal_lines jl
+      JOIN journals j ON j.id = jl.journal_id
+      WHERE jl.account_id = coa.id AND j.status = 'posted' AND j.journal_date <= p_as_of
+    ), 0)::DECIMAL
+  FROM system_account_mappings sam
+  JOIN chart_of_accounts coa ON coa.id = sam.account_id
+  WHERE sam.company_id = p_company_id
+    AND sam.mapping_code IN ('INVENTORY_RAW_MATERIALS', 'INVENTORY_FINISHED_GOODS');
+END;
+$$;
+
+COMMENT ON FUNCTION inventory_gl_balances IS 'Debit balance of the raw material and finished goods inventory accounts as of a date';
+
+-- ==================== RLS POLICIES ====================
+
+ALTER TABLE inventory_cost_layers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE inventory_layer_consumptions ENABLE ROW LEVEL SECURITY;
+
+-- Layers are written only by the ledger trigger and set_inventory_valuation_method
+CREATE POLICY cost_layers_tenant_read ON inventory_cost_layers
+  FOR SELECT USING (company_id IN (
+    SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+  ));
+
+CREATE POLICY layer_consumptions_tenant_read ON inventory_layer_consumptions
+  FOR SELECT USING (company_id IN (
+    SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+  ));
+
+CREATE POLICY cost_layers_service ON inventory_cost_layers FOR ALL TO service_role USING (true) WITH CHECK (true);
+CREATE POLICY layer_consumptions_service ON inventory_layer_consumptions FOR ALL TO service_role USING (true) WITH CHECK (true);
@@ -0,0 +1,521 @@
+-- Migration: 071_landed_cost_vouchers.sql
+-- Description: Landed cost vouchers (freight, import duty, brokerage) allocated onto posted GRN lines and capitalized into raw material cost
+-- Dependencies: 014_goods_receipt_notes.sql, 064_marketplace_settlement_reconciliation.sql, 069_weighted_average_costing.sql, 070_fifo_cost_layers.sql
+-- Author: Ziyada ERP Team
+-- Date: 2026-01-13
+
+-- ==================== WEIGHT BASIS ====================
+
+ALTER TABLE materials
+ADD COLUMN IF NOT EXISTS unit_weight DECIMAL(15,4) CHECK (unit_weight IS NULL OR unit_weight >= 0);
+
+ALTER TABLE grn_lines
+ADD COLUMN IF NOT EXISTS gross_weight DECIMAL(15,4) CHECK (gross_weight IS NULL OR gross_weight >= 0);
+
+COMMENT ON COLUMN materials.unit_weight IS 'Weight in kg per unit of measure, used for weight-based landed cost allocation';
+COMMENT ON COLUMN grn_lines.gross_weight IS 'Received weight in kg; overrides qty_received * materials.unit_weight for landed cost allocation';
+
+-- ==================== VOUCHERS ====================
+
+CREATE TABLE IF NOT EXISTS landed_cost_vouchers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE NOT NULL,
+  voucher_number VARCHAR(50) NOT NULL,
+  voucher_date DATE NOT NULL,
+  period_id UUID REFERENCES accounting_periods(id) NOT NULL,
+  vendor_id UUID REFERENCES vendors(id), -- Forwarder, customs broker or carrier billing the charges
+
+  status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'posted', 'cancelled')),
+  total_amount DECIMAL(15,2) NOT NULL DEFAULT 0,
+  capitalized_amount DECIMAL(15,2) NOT NULL DEFAULT 0, -- Added to stock still on hand
+  wip_amount DECIMAL(15,2) NOT NULL DEFAULT 0,         -- Share of goods already issued, charged to WIP
+  journal_id UUID REFERENCES journals(id),
+
+  notes TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  posted_at TIMESTAMPTZ,
+  posted_by UUID REFERENCES auth.users(id),
+
+  UNIQUE(company_id, voucher_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_landed_cost_vouchers_company ON landed_cost_vouchers(company_id, voucher_date DESC);
+CREATE INDEX IF NOT EXISTS idx_landed_cost_vouchers_status ON landed_cost_vouchers(status);
+
+COMMENT ON TABLE landed_cost_vouchers IS 'Freight, duty and brokerage charges capitalized onto goods receipts';
+
+CREATE TABLE IF NOT EXISTS landed_cost_voucher_receipts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  voucher_id UUID REFERENCES landed_cost_vouchers(id) ON DELETE CASCADE NOT NULL,
+  grn_id UUID REFERENCES goods_receipt_notes(id) NOT NULL,
+
+  UNIQUE(voucher_id, grn_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_landed_cost_receipts_grn ON landed_cost_voucher_receipts(grn_id);
+
+COMMENT ON TABLE landed_cost_voucher_receipts IS 'Goods receipts a landed cost voucher is allocated across';
+
+CREATE TABLE IF NOT EXISTS landed_cost_charges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  voucher_id UUID REFERENCES landed_cost_vouchers(id) ON DELETE CASCADE NOT NULL,
+  charge_type VARCHAR(20) NOT NULL CHECK (charge_type IN ('FREIGHT', 'IMPORT_DUTY', 'BROKERAGE', 'INSURANCE', 'OTHER')),
+  description VARCHAR(200),
+  amount DECIMAL(15,2) NOT NULL CHECK (amount > 0),
+  allocation_basis VARCHAR(10) NOT NULL DEFAULT 'value' CHECK (allocation_basis IN ('value', 'quantity', 'weight'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_landed_cost_charges_voucher ON landed_cost_charges(voucher_id);
+
+COMMENT ON TABLE landed_cost_charges IS 'Charges on a landed cost voucher, each with its own allocation basis';
+
+CREATE TABLE IF NOT EXISTS landed_cost_allocations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  voucher_id UUID REFERENCES landed_cost_vouchers(id) ON DELETE CASCADE NOT NULL,
+  charge_id UUID REFERENCES landed_cost_charges(id) ON DELETE CASCADE NOT NULL,
+  grn_id UUID REFERENCES goods_receipt_notes(id) NOT NULL,
+  grn_line_id UUID REFERENCES grn_lines(id) NOT NULL,
+  material_id UUID REFERENCES materials(id) NOT NULL,
+  warehouse_id UUID REFERENCES warehouses(id) NOT NULL,
+
+  basis_amount DECIMAL(15,4) NOT NULL, -- Line value, quantity or weight the charge was spread by
+  allocated_amount DECIMAL(15,2) NOT NULL,
+
+  -- Filled when the voucher is posted
+  qty_received DECIMAL(15,4),
+  qty_on_hand DECIMAL(15,4),
+  capitalized_amount DECIMAL(15,2),
+  wip_amount DECIMAL(15,2)
+);
+
+CREATE INDEX IF NOT EXISTS idx_landed_cost_allocations_voucher ON landed_cost_allocations(voucher_id);
+CREATE INDEX IF NOT EXISTS idx_landed_cost_allocations_line ON landed_cost_allocations(grn_line_id);
+CREATE INDEX IF NOT EXISTS idx_landed_cost_allocations_material ON landed_cost_allocations(material_id, warehouse_id);
+
+COMMENT ON TABLE landed_cost_allocations IS 'Charge amount allocated to each GRN line and how much of it was capitalized';
+
+CREATE TRIGGER update_landed_cost_vouchers_updated_at
+  BEFORE UPDATE ON landed_cost_vouchers
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ==================== REVALUATION ====================
+
+-- Capitalizes the allocations of a draft voucher into raw material cost.
+-- Only the share of each receipt still on hand is capitalized:
+--   average: position qty / qty received on the voucher (capped at 1), added to the position value
+--   fifo:    the receipt layer's remaining qty, added to that layer's unit cost
+-- The rest was already issued to production and is charged to WIP.
+-- Receipts whose layer was replaced by OPENING layers when switching to FIFO go to WIP in full.
+CREATE OR REPLACE FUNCTION apply_landed_cost_voucher(p_voucher_id UUID, p_user_id UUID DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER
+AS $$
+DECLARE
+  v_voucher RECORD;
+  v_alloc RECORD;
+  v_method VARCHAR;
+  v_position RECORD;
+  v_layer RECORD;
+  v_on_hand DECIMAL;
+  v_capitalized DECIMAL;
+BEGIN
+  SELECT * INTO v_voucher FROM landed_cost_vouchers WHERE id = p_voucher_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Landed cost voucher % not found', p_voucher_id;
+  END IF;
+
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    PERFORM check_tenant_access(v_voucher.company_id);
+  END IF;
+
+  IF v_voucher.status <> 'draft' THEN
+    RAISE EXCEPTION 'Landed cost voucher % is %', v_voucher.voucher_number, v_voucher.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM landed_cost_allocations WHERE voucher_id = p_voucher_id) THEN
+    RAISE EXCEPTION 'Landed cost voucher % has no allocations', v_voucher.voucher_number;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM landed_cost_allocations a
+    JOIN goods_receipt_notes g ON g.id = a.grn_id
+    WHERE a.voucher_id = p_voucher_id AND g.status <> 'posted'
+  ) THEN
+    RAISE EXCEPTION 'Landed costs can only be allocated to posted goods receipts';
+  END IF;
+
+  v_method := get_inventory_valuation_method(v_voucher.company_id);
+
+  FOR v_alloc IN
+    SELECT a.*, gl.qty_received AS line_qty, gl.bin_id,
+           SUM(gl.qty_received) OVER (PARTITION BY a.charge_id, a.material_id, a.warehouse_id) AS voucher_qty
+    FROM landed_cost_allocations a
+    JOIN grn_lines gl ON gl.id = a.grn_line_id
+    WHERE a.voucher_id = p_voucher_id
+    ORDER BY a.material_id, a.warehouse_id, a.id
+  LOOP
+    INSERT INTO raw_material_costs (company_id, material_id, warehouse_id)
+    VALUES (v_voucher.company_id, v_alloc.material_id, v_alloc.warehouse_id)
+    ON CONFLICT (company_id, material_id, warehouse_id) DO NOTHING;
+
+    SELECT qty_on_hand, total_value INTO v_position
+    FROM raw_material_costs
+    WHERE company_id = v_voucher.company_id AND material_id = v_alloc.material_id AND warehouse_id = v_alloc.warehouse_id
+    FOR UPDATE;
+
+    IF v_method = 'fifo' THEN
+      SELECT cl.id, cl.qty_remaining INTO v_layer
+      FROM inventory_cost_layers cl
+      JOIN raw_material_ledger l ON l.id = cl.receipt_ledger_id
+      WHERE l.reference_id = v_alloc.grn_id
+        AND l.reference_type = 'PURCHASE'
+        AND l.material_id = v_alloc.material_id
+        AND l.bin_id = v_alloc.bin_id
+        AND l.qty_in = v_alloc.line_qty
+      ORDER BY cl.created_at
+      LIMIT 1
+      FOR UPDATE OF cl;
+
+      v_on_hand := CASE WHEN FOUND THEN v_layer.qty_remaining ELSE 0 END;
+    ELSE
+      v_on_hand := v_alloc.line_qty * LEAST(GREATEST(v_position.qty_on_hand, 0) / v_alloc.voucher_qty, 1);
+    END IF;
+
+    v_capitalized := ROUND(v_alloc.allocated_amount * v_on_hand / v_alloc.line_qty, 2);
+
+    IF v_method = 'fifo' AND v_capitalized > 0 THEN
+      UPDATE inventory_cost_layers
+      SET unit_cost = unit_cost + v_capitalized / qty_remaining
+      WHERE id = v_layer.id;
+    END IF;
+
+    IF v_capitalized > 0 THEN
+      UPDATE raw_material_costs SET
+        total_value = total_value + v_capitalized,
+        avg_unit_cost = CASE WHEN qty_on_hand > 0 THEN (total_value + v_capitalized) / qty_on_hand ELSE avg_unit_cost END,
+        updated_at = NOW()
+      WHERE company_id = v_voucher.company_id AND material_id = v_alloc.material_id AND warehouse_id = v_alloc.warehouse_id;
+    END IF;
+
+    UPDATE landed_cost_allocations SET
+      qty_received = v_alloc.line_qty,
+      qty_on_hand = v_on_hand,
+      capitalized_amount = v_capitalized,
+      wip_amount = v_alloc.allocated_amount - v_capitalized
+    WHERE id = v_alloc.id;
+  END LOOP;
+
+  UPDATE landed_cost_vouchers v SET
+    status = 'posted',
+    capitalized_amount = t.capitalized,
+    wip_amount = t.wip,
+    posted_at = NOW(),
+    posted_by = COALESCE(p_user_id, auth.uid())
+  FROM (
+    SELECT SUM(capitalized_amount) AS capitalized, SUM(wip_amount) AS wip
+    FROM landed_cost_allocations
+    WHERE voucher_id = p_voucher_id
+  ) t
+  WHERE v.id = p_voucher_id;
+END;
+$$;
+
+COMMENT ON FUNCTION apply_landed_cost_voucher IS 'Posts a landed cost voucher: capitalizes the on-hand share of each allocation into raw material cost';
+
+-- ==================== RECOST / VALUATION ====================
+-- Capitalized landed costs are value-only movements: the weighted-average replay
+-- and the period-end valuation must include them or they would drop out of cost.
+
+CREATE OR REPLACE FUNCTION recost_weighted_average(
+  p_company_id UUID,
+  p_item_type VARCHAR,
+  p_item_id UUID,
+  p_warehouse_id UUID,
+  p_from_date DATE,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER
+AS $$
+DECLARE
+  v_run_id UUID;
+  v_qty DECIMAL := 0;
+  v_value DECIMAL := 0;
+  v_step RECORD;
+  v_row RECORD;
+  v_total DECIMAL := 0;
+  v_before RECORD;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    PERFORM check_tenant_access(p_company_id);
+  END IF;
+
+  IF p_item_type NOT IN ('RAW', 'FG') THEN
+    RAISE EXCEPTION 'Invalid item type %', p_item_type;
+  END IF;
+
+  -- Lock the position so no movement is valued while replaying
+  IF p_item_type = 'RAW' THEN
+    SELECT qty_on_hand, total_value INTO v_before FROM raw_material_costs
+    WHERE company_id = p_company_id AND material_id = p_item_id AND warehouse_id = p_warehouse_id
+    FOR UPDATE;
+  ELSE
+    SELECT qty_on_hand, total_value INTO v_before FROM finished_goods_costs
+    WHERE company_id = p_company_id AND product_variant_id = p_item_id AND warehouse_id = p_warehouse_id
+    FOR UPDATE;
+  END IF;
+
+  INSERT INTO inventory_recost_runs (
+    company_id, run_number, item_type, item_id, warehouse_id, from_date,
+    qty_before, value_before, created_by
+  ) VALUES (
+    p_company_id,
+    'RC-' || TO_CHAR(NOW(), 'YYYYMMDD-HH24MISS-MS'),
+    p_item_type, p_item_id, p_warehouse_id, p_from_date,
+    v_before.qty_on_hand, v_before.total_value, COALESCE(p_user_id, auth.uid())
+  )
+  RETURNING id INTO v_run_id;
+
+  FOR v_row IN
+    SELECT id, transaction_date, created_at, reference_type, reference_number, qty_in, qty_out, unit_cost, false AS is_landed_cost
+    FROM raw_material_ledger
+    WHERE p_item_type = 'RAW' AND company_id = p_company_id AND material_id = p_item_id
+      AND warehouse_id = p_warehouse_id AND is_posted = true
+    UNION ALL
+    SELECT id, transaction_date, created_at, reference_type, reference_number, qty_in, qty_out, unit_cost, false
+    FROM finished_goods_ledger
+    WHERE p_item_type = 'FG' AND company_id = p_company_id AND product_variant_id = p_item_id
+      AND warehouse_id = p_warehouse_id AND is_posted = true
+    UNION ALL
+    SELECT a.id, v.voucher_date, v.posted_at, NULL::reference_type, v.voucher_number, 0, 0, a.capitalized_amount, true
+    FROM landed_cost_allocations a
+    JOIN landed_cost_vouchers v ON v.id = a.voucher_id
+    WHERE p_item_type = 'RAW' AND v.company_id = p_company_id AND a.material_id = p_item_id
+      AND a.warehouse_id = p_warehouse_id AND v.status = 'posted' AND a.capitalized_amount > 0
+    ORDER BY transaction_date, created_at, id
+  LOOP
+    IF v_row.is_landed_cost THEN
+      v_value := v_value + v_row.unit_cost;
+      CONTINUE;
+    END IF;
+
+    SELECT * INTO v_step FROM weighted_average_step(v_qty, v_value, v_row.qty_in, v_row.qty_out, v_row.unit_cost);
+
+    IF v_row.qty_out > 0 AND v_row.transaction_date >= p_from_date AND v_step.unit_cost <> v_row.unit_cost THEN
+      INSERT INTO inventory_recost_lines (
+        run_id, ledger_id, transaction_date, reference_type, reference_number,
+        qty_out, posted_unit_cost, recalculated_unit_cost, cost_difference
+      ) VALUES (
+        v_run_id, v_row.id, v_row.transaction_date, v_row.reference_type, v_row.reference_number,
+        v_row.qty_out, v_row.unit_cost, v_step.unit_cost,
+        ROUND(v_row.qty_out * (v_step.unit_cost - v_row.unit_cost), 2)
+      );
+      v_total := v_total + ROUND(v_row.qty_out * (v_step.unit_cost - v_row.unit_cost), 2);
+    END IF;
+
+    v_qty := v_step.qty;
+    v_value := v_step.value;
+  END LOOP;
+
+  IF p_item_type = 'RAW' THEN
+    INSERT INTO raw_material_costs (company_id, material_id, warehouse_id)
+    VALUES (p_company_id, p_item_id, p_warehouse_id)
+    ON CONFLICT (company_id, material_id, warehouse_id) DO NOTHING;
+
+    UPDATE raw_material_costs SET
+      qty_on_hand = v_qty,
+      total_value = v_value,
+      avg_unit_cost = CASE WHEN v_qty > 0 THEN v_value / v_qty ELSE avg_unit_cost END,
+      last_recosted_at = NOW(),
+      updated_at = NOW()
+    WHERE company_id = p_company_id AND material_id = p_item_id AND warehouse_id = p_warehouse_id;
+  ELSE
+    INSERT INTO finished_goods_costs (company_id, product_variant_id, warehouse_id)
+    VALUES (p_company_id, p_item_id, p_warehouse_id)
+    ON CONFLICT (company_id, product_variant_id, warehouse_id) DO NOTHING;
+
+    UPDATE finished_goods_costs SET
+      qty_on_hand = v_qty,
+      total_value = v_value,
+      avg_unit_cost = CASE WHEN v_qty > 0 THEN v_value / v_qty ELSE avg_unit_cost END,
+      last_recosted_at = NOW(),
+      updated_at = NOW()
+    WHERE company_id = p_company_id AND product_variant_id = p_item_id AND warehouse_id = p_warehouse_id;
+  END IF;
+
+  UPDATE inventory_recost_runs SET
+    qty_after = v_qty,
+    value_after = v_value,
+    total_difference = v_total
+  WHERE id = v_run_id;
+
+  RETURN v_run_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION inventory_valuation_as_of(p_company_id UUID, p_as_of DATE)
+RETURNS TABLE (
+  item_type VARCHAR,
+  item_id UUID,
+  warehouse_id UUID,
+  qty_on_hand DECIMAL,
+  inventory_value DECIMAL
+)
+LANGUAGE plpgsql STABLE SECURITY DEFINER
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    PERFORM check_tenant_access(p_company_id);
+  END IF;
+
+  RETURN QUERY
+  WITH movements AS (
+    SELECT 'RAW'::VARCHAR AS item_type, l.material_id AS item_id, l.warehouse_id,
+           l.qty_in - l.qty_out AS qty,
+           CASE WHEN l.qty_in > 0 THEN l.total_cost ELSE -l.total_cost END AS value
+    FROM raw_material_ledger l
+    WHERE l.company_id = p_company_id AND l.is_posted = true AND l.transaction_date <= p_as_of
+    UNION ALL
+    SELECT 'FG'::VARCHAR, l.product_variant_id, l.warehouse_id,
+           l.qty_in - l.qty_out,
+           CASE WHEN l.qty_in > 0 THEN l.total_cost ELSE -l.total_cost END
+    FROM finished_goods_ledger l
+    WHERE l.company_id = p_company_id AND l.is_posted = true AND l.transaction_date <= p_as_of
+    UNION ALL
+    SELECT r.item_type, r.item_id, r.warehouse_id, 0, -r.total_difference
+    FROM inventory_recost_runs r
+    WHERE r.company_id = p_company_id AND r.journal_id IS NOT NULL AND r.created_at::DATE <= p_as_of
+    UNION ALL
+    SELECT 'RAW'::VARCHAR, a.material_id, a.warehouse_id, 0, a.capitalized_amount
+    FROM landed_cost_allocations a
+    JOIN landed_cost_vouchers v ON v.id = a.voucher_id
+    WHERE v.company_id = p_company_id AND v.journal_id IS NOT NULL AND v.voucher_date <= p_as_of
+  )
+  SELECT mv.item_type, mv.item_id, mv.warehouse_id, SUM(mv.qty), SUM(mv.value)
+  FROM movements mv
+  GROUP BY mv.item_type, mv.item_id, mv.warehouse_id
+  HAVING SUM(mv.qty) <> 0 OR SUM(mv.value) <> 0;
+END;
+$$;
+
+-- ==================== ACCOUNT MAPPINGS ====================
+-- Landed cost capitalization credits an accrual that the forwarder/broker invoice later clears.
+
+INSERT INTO chart_of_accounts (
+  company_id, account_code, account_name, account_type,
+  account_category, normal_balance, is_header, is_system, level
+)
+SELECT DISTINCT company_id, '2060', 'Accrued Landed Costs', 'LIABILITY', 'CURRENT_LIABILITY', 'CREDIT', false, true, 2
+FROM chart_of_accounts
+WHERE account_code = '2000'
+ON CONFLICT (company_id, account_code) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION seed_account_mappings(p_company_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER := 0;
+BEGIN
+  -- SECURITY CHECK
+  PERFORM check_tenant_access(p_company_id);
+
+  -- The accrued landed costs account postdates the COA template
+  INSERT INTO chart_of_accounts (
+    company_id, account_code, account_name, account_type,
+    account_category, normal_balance, is_header, is_system, level
+  )
+  SELECT p_company_id, '2060', 'Accrued Landed Costs', 'LIABILITY', 'CURRENT_LIABILITY', 'CREDIT', false, true, 2
+  WHERE EXISTS (SELECT 1 FROM chart_of_accounts WHERE company_id = p_company_id AND account_code = '2000')
+  ON CONFLICT (company_id, account_code) DO NOTHING;
+
+  INSERT INTO system_account_mappings (company_id, mapping_code, account_id, description)
+  SELECT p_company_id, m.mapping_code, coa.id, m.description
+  FROM (VALUES
+    -- Cash & Bank
+    ('DEFAULT_CASH', '1010', 'Default Cash Account for POS/Payments'),
+    ('DEFAULT_BANK', '1020', 'Default Bank Account'),
+    -- Receivables
+    ('ACCOUNTS_RECEIVABLE', '1100', 'Default AR Account'),
+    -- Inventory
+    ('INVENTORY_RAW', '1210', 'Raw Material Inventory'),
+    ('INVENTORY_WIP', '1220', 'Work in Progress Inventory'),
+    ('INVENTORY_FG', '1250', 'Finished Goods Inventory'),
+    ('INVENTORY_ADJUSTMENT', '6910', 'Inventory Variance/Adjustment Expense'),
+    ('INVENTORY_SCRAP', '6900', 'Loss or Scrap Expense'),
+    -- Payables & Tax
+    ('ACCOUNTS_PAYABLE', '2010', 'Default AP Account'),
+    ('TAX_PAYABLE', '2030', 'VAT/Tax Payable'),
+    ('ACCRUED_LANDED_COSTS', '2060', 'Accrued freight, duty and brokerage awaiting invoice'),
+    -- Sales
+    ('SALES_POS', '4010', 'Sales Revenue for Retail/POS'),
+    ('SALES_WHOLESALE', '4020', 'Sales Revenue for Distributor/B2B'),
+    ('SALES_RETURNS', '4100', 'Sales Returns and Allowances'),
+    ('SALES_DISCOUNTS', '4200', 'Sales Discounts'),
+    -- COGS & Expenses
+    ('COGS_DEFAULT', '5010', 'Cost of Goods Sold'),
+    ('EXPENSE_LABOR', '6010', 'Direct Labor Expense'),
+    ('EXPENSE_OVERHEAD', '6020', 'Factory Overhead Expense'),
+    -- Marketplace
+    ('MARKETPLACE_FEES', '6100', 'Marketplace commission, service and payment fees'),
+    ('MARKETPLACE_SHIPPING', '6110', 'Shipping cost borne by seller on marketplace orders'),
+    ('CLEARING_SHOPEE', '2110', 'Shopee Wallet Clearing'),
+    ('CLEARING_TIKTOK', '2120', 'TikTok Shop Clearing'),
+    ('CLEARING_TOKOPEDIA', '2130', 'Tokopedia Clearing'),
+    ('CLEARING_LAZADA', '2140', 'Lazada Clearing')
+  ) AS m(mapping_code, account_code, description)
+  JOIN chart_of_accounts coa
+    ON coa.company_id = p_company_id AND coa.account_code = m.account_code
+  ON CONFLICT DO NOTHING;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Backfill for existing companies (bypasses the tenant check, runs as migration owner)
+INSERT INTO system_account_mappings (company_id, mapping_code, account_id, description)
+SELECT coa.company_id, 'ACCRUED_LANDED_COSTS', coa.id, 'Accrued freight, duty and brokerage awaiting invoice'
+FROM chart_of_accounts coa
+WHERE coa.account_code = '2060'
+ON CONFLICT DO NOTHING;
+
+-- ==================== RLS POLICIES ====================
+
+ALTER TABLE landed_cost_vouchers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE landed_cost_voucher_receipts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE landed_cost_charges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE landed_cost_allocations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY landed_cost_vouchers_tenant_isolation ON landed_cost_vouchers
+  FOR ALL USING (company_id IN (
+    SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+  ));
+
+CREATE POLICY landed_cost_receipts_tenant ON landed_cost_voucher_receipts
+  FOR ALL USING (voucher_id IN (
+    SELECT id FROM landed_cost_vouchers WHERE company_id IN (
+      SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+    )
+  ));
+
+CREATE POLICY landed_cost_charges_tenant ON landed_cost_charges
+  FOR ALL USING (voucher_id IN (
+    SELECT id FROM landed_cost_vouchers WHERE company_id IN (
+      SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+    )
+  ));
+
+CREATE POLICY landed_cost_allocations_tenant ON landed_cost_allocations
+  FOR ALL USING (voucher_id IN (
+    SELECT id FROM landed_cost_vouchers WHERE company_id IN (
+      SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+    )
+  ));
+
+CREATE POLICY landed_cost_vouchers_service ON landed_cost_vouchers FOR ALL TO service_role USING (true) WITH CHECK (true);
+CREATE POLICY landed_cost_receipts_service ON landed_cost_voucher_receipts FOR ALL TO service_role USING (true) WITH CHECK (true);
+CREATE POLICY landed_cost_charges_service ON landed_cost_charges FOR ALL TO service_role USING (true) WITH CHECK (true);
+CREATE POLICY landed_cost_allocations_service ON landed_cost_allocations FOR ALL TO service_role USING (true) WITH CHECK (true);
@@ -0,0 +1,283 @@
+-- Migration: 072_invoice_three_way_match.sql
+-- Description: Configurable PO/GRN/invoice match tolerances, match-exception approval queue and purchase price variance posting
+-- Dependencies: 015_vendor_invoices.sql, 071_landed_cost_vouchers.sql
+-- Author: Ziyada ERP Team
+-- Date: 2026-01-14
+
+-- ==================== TOLERANCES ====================
+
+CREATE TABLE IF NOT EXISTS invoice_match_tolerances (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE NOT NULL,
+  vendor_id UUID REFERENCES vendors(id) ON DELETE CASCADE, -- NULL = company default
+
+  qty_tolerance_pct DECIMAL(5,2) NOT NULL DEFAULT 0 CHECK (qty_tolerance_pct >= 0),
+  price_tolerance_pct DECIMAL(5,2) NOT NULL DEFAULT 5 CHECK (price_tolerance_pct >= 0),
+  price_tolerance_amount DECIMAL(15,2) NOT NULL DEFAULT 0 CHECK (price_tolerance_amount >= 0), -- Per line, absolute
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_match_tolerances_company
+  ON invoice_match_tolerances(company_id) WHERE vendor_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_match_tolerances_vendor
+  ON invoice_match_tolerances(company_id, vendor_id) WHERE vendor_id IS NOT NULL;
+
+COMMENT ON TABLE invoice_match_tolerances IS 'Three-way match tolerances: company default plus optional per-vendor overrides';
+
+CREATE TRIGGER update_invoice_match_tolerances_updated_at
+  BEFORE UPDATE ON invoice_match_tolerances
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ==================== MATCH STATUS ====================
+
+ALTER TABLE vendor_invoices
+ADD COLUMN IF NOT EXISTS match_status VARCHAR(20) NOT NULL DEFAULT 'pending'
+  CHECK (match_status IN ('pending', 'matched', 'exception', 'approved')),
+ADD COLUMN IF NOT EXISTS matched_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS journal_id UUID REFERENCES journals(id);
+
+COMMENT ON COLUMN vendor_invoices.match_status IS 'pending = not matched yet, matched = within tolerance, exception = awaiting approval, approved = exceptions approved';
+
+CREATE TABLE IF NOT EXISTS invoice_match_exceptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE NOT NULL,
+  invoice_id UUID REFERENCES vendor_invoices(id) ON DELETE CASCADE NOT NULL,
+  invoice_line_id UUID REFERENCES vendor_invoice_lines(id) ON DELETE CASCADE NOT NULL,
+
+  exception_type VARCHAR(20) NOT NULL
+    CHECK (exception_type IN ('QTY_OVER_RECEIVED', 'QTY_OVER_ORDERED', 'PRICE', 'NO_REFERENCE')),
+  expected_value DECIMAL(15,4),  -- Uninvoiced received/ordered qty, or PO/GRN unit price
+  actual_value DECIMAL(15,4) NOT NULL,
+  variance_amount DECIMAL(15,2) NOT NULL DEFAULT 0,
+  variance_pct DECIMAL(9,2),
+  tolerance_pct DECIMAL(5,2),
+
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  resolved_by UUID REFERENCES auth.users(id),
+  resolved_at TIMESTAMPTZ,
+  resolution_notes TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(invoice_line_id, exception_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_match_exceptions_invoice ON invoice_match_exceptions(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_match_exceptions_pending ON invoice_match_exceptions(company_id, created_at)
+  WHERE status = 'pending';
+
+COMMENT ON TABLE invoice_match_exceptions IS 'Invoice lines outside three-way match tolerance, awaiting approval';
+
+-- Entry no longer rejects price variances: the match at posting time queues them for approval
+CREATE OR REPLACE FUNCTION validate_3way_match()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_po_price DECIMAL(15,2);
+BEGIN
+  IF NEW.po_line_id IS NULL AND NEW.grn_line_id IS NOT NULL THEN
+    SELECT po_line_id INTO NEW.po_line_id FROM grn_lines WHERE id = NEW.grn_line_id;
+  END IF;
+
+  IF NEW.po_line_id IS NOT NULL THEN
+    SELECT unit_price INTO v_po_price
+    FROM purchase_order_lines
+    WHERE id = NEW.po_line_id;
+
+    NEW.po_unit_price := v_po_price;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Approves or rejects an exception; approving a price exception also approves the line variance
+CREATE OR REPLACE FUNCTION resolve_invoice_match_exception(
+  p_exception_id UUID,
+  p_status VARCHAR,
+  p_notes TEXT DEFAULT NULL,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER
+AS $$
+DECLARE
+  v_exception RECORD;
+BEGIN
+  SELECT * INTO v_exception FROM invoice_match_exceptions WHERE id = p_exception_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Match exception % not found', p_exception_id;
+  END IF;
+
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    PERFORM check_tenant_access(v_exception.company_id);
+  END IF;
+
+  IF p_status NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Invalid resolution %', p_status;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM vendor_invoices WHERE id = v_exception.invoice_id AND status <> 'draft') THEN
+    RAISE EXCEPTION 'Invoice is already posted';
+  END IF;
+
+  UPDATE invoice_match_exceptions SET
+    status = p_status,
+    resolved_by = COALESCE(p_user_id, auth.uid()),
+    resolved_at = NOW(),
+    resolution_notes = p_notes
+  WHERE id = p_exception_id;
+
+  IF v_exception.exception_type = 'PRICE' THEN
+    UPDATE vendor_invoice_lines
+    SET variance_approved = (p_status = 'approved')
+    WHERE id = v_exception.invoice_line_id;
+  END IF;
+
+  UPDATE vendor_invoices SET match_status = CASE
+    WHEN EXISTS (
+      SELECT 1 FROM invoice_match_exceptions
+      WHERE invoice_id = v_exception.invoice_id AND status <> 'approved'
+    ) THEN 'exception'
+    ELSE 'approved'
+  END
+  WHERE id = v_exception.invoice_id;
+END;
+$$;
+
+COMMENT ON FUNCTION resolve_invoice_match_exception IS 'Approves or rejects a three-way match exception and refreshes the invoice match status';
+
+-- ==================== EXCEPTION QUEUE ====================
+
+CREATE OR REPLACE VIEW invoice_match_exceptions_vw AS
+SELECT
+  e.*,
+  vi.invoice_number,
+  vi.invoice_date,
+  vi.vendor_id,
+  v.name AS vendor_name,
+  vil.material_id,
+  m.code AS material_code,
+  m.name AS material_name,
+  vil.qty_invoiced,
+  vil.unit_price
+FROM invoice_match_exceptions e
+JOIN vendor_invoices vi ON vi.id = e.invoice_id
+JOIN vendors v ON v.id = vi.vendor_id
+JOIN vendor_invoice_lines vil ON vil.id = e.invoice_line_id
+JOIN materials m ON m.id = vil.material_id;
+
+ALTER VIEW invoice_match_exceptions_vw SET (security_invoker = true);
+
+COMMENT ON VIEW invoice_match_exceptions_vw IS 'Match exceptions with invoice, vendor and material details for the approval queue';
+
+-- ==================== ACCOUNT MAPPINGS ====================
+-- Invoice posting debits inventory at the PO/GRN price; the difference goes to purchase price variance.
+
+INSERT INTO chart_of_accounts (
+  company_id, account_code, account_name, account_type,
+  account_category, normal_balance, is_header, is_system, level
+)
+SELECT DISTINCT company_id, '5110', 'Purchase Price Variance', 'EXPENSE', 'COGS', 'DEBIT', false, true, 2
+FROM chart_of_accounts
+WHERE account_code = '5000'
+ON CONFLICT (company_id, account_code) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION seed_account_mappings(p_company_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER := 0;
+BEGIN
+  -- SECURITY CHECK
+  PERFORM check_tenant_access(p_company_id);
+
+  -- Accounts added after the COA template
+  INSERT INTO chart_of_accounts (
+    company_id, account_code, account_name, account_type,
+    account_category, normal_balance, is_header, is_system, level
+  )
+  SELECT p_company_id, a.account_code, a.account_name, a.account_type, a.account_category, a.normal_balance, false, true, 2
+  FROM (VALUES
+    ('2060', 'Accrued Landed Costs', 'LIABILITY', 'CURRENT_LIABILITY', 'CREDIT', '2000'),
+    ('5110', 'Purchase Price Variance', 'EXPENSE', 'COGS', 'DEBIT', '5000')
+  ) AS a(account_code, account_name, account_type, account_category, normal_balance, header_code)
+  WHERE EXISTS (SELECT 1 FROM chart_of_accounts WHERE company_id = p_company_id AND account_code = a.header_code)
+  ON CONFLICT (company_id, account_code) DO NOTHING;
+
+  INSERT INTO system_account_mappings (company_id, mapping_code, account_id, description)
+  SELECT p_company_id, m.mapping_code, coa.id, m.description
+  FROM (VALUES
+    -- Cash & Bank
+    ('DEFAULT_CASH', '1010', 'Default Cash Account for POS/Payments'),
+    ('DEFAULT_BANK', '1020', 'Default Bank Account'),
+    -- Receivables
+    ('ACCOUNTS_RECEIVABLE', '1100', 'Default AR Account'),
+    -- Inventory
+    ('INVENTORY_RAW', '1210', 'Raw Material Inventory'),
+    ('INVENTORY_RAW_MATERIALS', '1210', 'Raw Material Inventory'),
+    ('INVENTORY_WIP', '1220', 'Work in Progress Inventory'),
+    ('INVENTORY_FG', '1250', 'Finished Goods Inventory'),
+    ('INVENTORY_ADJUSTMENT', '6910', 'Inventory Variance/Adjustment Expense'),
+    ('INVENTORY_SCRAP', '6900', 'Loss or Scrap Expense'),
+    -- Payables & Tax
+    ('ACCOUNTS_PAYABLE', '2010', 'Default AP Account'),
+    ('TAX_PAYABLE', '2030', 'VAT/Tax Payable'),
+    ('ACCRUED_LANDED_COSTS', '2060', 'Accrued freight, duty and brokerage awaiting invoice'),
+    -- Sales
+    ('SALES_POS', '4010', 'Sales Revenue for Retail/POS'),
+    ('SALES_WHOLESALE', '4020', 'Sales Revenue for Distributor/B2B'),
+    ('SALES_RETURNS', '4100', 'Sales Returns and Allowances'),
+    ('SALES_DISCOUNTS', '4200', 'Sales Discounts'),
+    -- COGS & Expenses
+    ('COGS_DEFAULT', '5010', 'Cost of Goods Sold'),
+    ('PURCHASE_PRICE_VARIANCE', '5110', 'Invoice price vs PO/GRN price differences'),
+    ('EXPENSE_LABOR', '6010', 'Direct Labor Expense'),
+    ('EXPENSE_OVERHEAD', '6020', 'Factory Overhead Expense'),
+    -- Marketplace
+    ('MARKETPLACE_FEES', '6100', 'Marketplace commission, service and payment fees'),
+    ('MARKETPLACE_SHIPPING', '6110', 'Shipping cost borne by seller on marketplace orders'),
+    ('CLEARING_SHOPEE', '2110', 'Shopee Wallet Clearing'),
+    ('CLEARING_TIKTOK', '2120', 'TikTok Shop Clearing'),
+    ('CLEARING_TOKOPEDIA', '2130', 'Tokopedia Clearing'),
+    ('CLEARING_LAZADA', '2140', 'Lazada Clearing')
+  ) AS m(mapping_code, account_code, description)
+  JOIN chart_of_accounts coa
+    ON coa.company_id = p_company_id AND coa.account_code = m.account_code
+  ON CONFLICT DO NOTHING;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Backfill for existing companies (bypasses the tenant check, runs as migration owner).
+-- Companies mapped by 021 keep their PURCHASE_PRICE_VARIANCE / INVENTORY_RAW_MATERIALS accounts.
+INSERT INTO system_account_mappings (company_id, mapping_code, account_id, description)
+SELECT coa.company_id, m.mapping_code, coa.id, m.description
+FROM (VALUES
+  ('PURCHASE_PRICE_VARIANCE', '5110', 'Invoice price vs PO/GRN price differences'),
+  ('INVENTORY_RAW_MATERIALS', '1210', 'Raw Material Inventory')
+) AS m(mapping_code, account_code, description)
+JOIN chart_of_accounts coa ON coa.account_code = m.account_code
+ON CONFLICT DO NOTHING;
+
+-- ==================== RLS POLICIES ====================
+
+ALTER TABLE invoice_match_tolerances ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoice_match_exceptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY match_tolerances_tenant_isolation ON invoice_match_tolerances
+  FOR ALL USING (company_id IN (
+    SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+  ));
+
+-- Exceptions are resolved through resolve_invoice_match_exception
+CREATE POLICY match_exceptions_tenant_read ON invoice_match_exceptions
+  FOR SELECT USING (company_id IN (
+    SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+  ));
+
+CREATE POLICY match_tolerances_service ON invoice_match_tolerances FOR ALL TO service_role USING (true) WITH CHECK (true);
+CREATE POLICY match_exceptions_service ON invoice_match_exceptions FOR ALL TO service_role USING (true) WITH CHECK (true);
@@ -0,0 +1,742 @@
+-- Migration: 073_tax_codes.sql
+-- Description: PPN/PPh tax code master, default codes on master data, per-line tax on POS/SO/sales invoice/PO/vendor invoice, input/output VAT accounts
+-- Dependencies: 013_purchase_orders.sql, 015_vendor_invoices.sql, 020_sales_pos.sql, 022_sales_orders.sql, 024_sales_invoices.sql, 072_invoice_three_way_match.sql
+-- Author: Ziyada ERP Team
+-- Date: 2026-01-15
+
+-- ==================== TAX CODES ====================
+
+CREATE TABLE IF NOT EXISTS tax_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE NOT NULL,
+  code VARCHAR(20) NOT NULL,
+  name VARCHAR(100) NOT NULL,
+
+  tax_type VARCHAR(10) NOT NULL CHECK (tax_type IN ('PPN', 'PPH')),
+  category VARCHAR(20) NOT NULL CHECK (category IN ('STANDARD', 'ZERO_RATED', 'EXEMPT', 'WITHHOLDING')),
+  rate DECIMAL(7,4) NOT NULL DEFAULT 0 CHECK (rate >= 0 AND rate <= 100),
+  -- DPP Nilai Lain: taxable base as a fraction of the net amount (11/12 for 12% PPN on non-luxury goods)
+  dpp_factor DECIMAL(10,8) NOT NULL DEFAULT 1 CHECK (dpp_factor > 0 AND dpp_factor <= 1),
+
+  description TEXT,
+  is_active BOOLEAN DEFAULT true,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(company_id, code),
+  CONSTRAINT tax_codes_category_check CHECK (
+    (tax_type = 'PPN' AND category IN ('STANDARD', 'ZERO_RATED', 'EXEMPT'))
+    OR (tax_type = 'PPH' AND category = 'WITHHOLDING')
+  ),
+  CONSTRAINT tax_codes_rate_check CHECK (category IN ('STANDARD', 'WITHHOLDING') OR rate = 0)
+);
+
+CREATE INDEX idx_tax_codes_company ON tax_codes(company_id, tax_type) WHERE is_active = true;
+
+CREATE TRIGGER update_tax_codes_updated_at
+  BEFORE UPDATE ON tax_codes
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE tax_codes IS 'PPN (VAT) and PPh (withholding) tax codes';
+COMMENT ON COLUMN tax_codes.dpp_factor IS 'Fraction of the net amount that forms the DPP (taxable base)';
+
+-- ==================== MASTER DATA DEFAULTS ====================
+
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS tax_code_id UUID REFERENCES tax_codes(id);
+ALTER TABLE vendors ADD COLUMN IF NOT EXISTS tax_code_id UUID REFERENCES tax_codes(id);
+ALTER TABLE vendors ADD COLUMN IF NOT EXISTS withholding_tax_code_id UUID REFERENCES tax_codes(id);
+ALTER TABLE products ADD COLUMN IF NOT EXISTS tax_code_id UUID REFERENCES tax_codes(id);
+ALTER TABLE materials ADD COLUMN IF NOT EXISTS tax_code_id UUID REFERENCES tax_codes(id);
+
+COMMENT ON COLUMN customers.tax_code_id IS 'PPN status of the customer (e.g. zero-rated export); overrides the product code when not STANDARD';
+COMMENT ON COLUMN vendors.tax_code_id IS 'PPN status of the vendor (e.g. exempt for non-PKP); overrides the material code when not STANDARD';
+COMMENT ON COLUMN vendors.withholding_tax_code_id IS 'PPh code withheld when paying this vendor';
+COMMENT ON COLUMN products.tax_code_id IS 'Default PPN code for sales of this product';
+COMMENT ON COLUMN materials.tax_code_id IS 'Default PPN code for purchases of this material';
+
+-- Master data may only point at the company's own codes of the right type
+CREATE OR REPLACE FUNCTION validate_tax_code_assignment()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_record JSONB := to_jsonb(NEW);
+  v_column TEXT;
+  v_expected_type TEXT;
+  v_code RECORD;
+BEGIN
+  FOR v_column, v_expected_type IN
+    SELECT * FROM (VALUES ('tax_code_id', 'PPN'), ('withholding_tax_code_id', 'PPH')) AS c(col, tax_type)
+  LOOP
+    CONTINUE WHEN v_record->>v_column IS NULL;
+
+    SELECT company_id, code, tax_type INTO v_code
+    FROM tax_codes
+    WHERE id = (v_record->>v_column)::UUID;
+
+    IF v_code.company_id IS DISTINCT FROM NEW.company_id THEN
+      RAISE EXCEPTION 'Tax code belongs to another company';
+    END IF;
+
+    IF v_code.tax_type <> v_expected_type THEN
+      RAISE EXCEPTION 'Tax code % is %, expected % for %', v_code.code, v_code.tax_type, v_expected_type, v_column;
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_validate_customer_tax_code
+  BEFORE INSERT OR UPDATE OF tax_code_id ON customers
+  FOR EACH ROW EXECUTE FUNCTION validate_tax_code_assignment();
+
+CREATE TRIGGER trigger_validate_vendor_tax_code
+  BEFORE INSERT OR UPDATE OF tax_code_id, withholding_tax_code_id ON vendors
+  FOR EACH ROW EXECUTE FUNCTION validate_tax_code_assignment();
+
+CREATE TRIGGER trigger_validate_product_tax_code
+  BEFORE INSERT OR UPDATE OF tax_code_id ON products
+  FOR EACH ROW EXECUTE FUNCTION validate_tax_code_assignment();
+
+CREATE TRIGGER trigger_validate_material_tax_code
+  BEFORE INSERT OR UPDATE OF tax_code_id ON materials
+  FOR EACH ROW EXECUTE FUNCTION validate_tax_code_assignment();
+
+-- ==================== DOCUMENT LINES ====================
+-- taxable_amount is the line amount excluding PPN, tax_base the DPP reported on the tax invoice.
+-- POS prices are shelf prices and include PPN by default; the other documents quote net prices.
+
+ALTER TABLE sales_pos_lines
+  ADD COLUMN IF NOT EXISTS tax_code_id UUID REFERENCES tax_codes(id),
+  ADD COLUMN IF NOT EXISTS price_includes_tax BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS taxable_amount DECIMAL(15,2),
+  ADD COLUMN IF NOT EXISTS tax_base DECIMAL(15,2),
+  ADD COLUMN IF NOT EXISTS tax_rate DECIMAL(7,4) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tax_amount DECIMAL(15,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE sales_order_lines
+  ADD COLUMN IF NOT EXISTS tax_code_id UUID REFERENCES tax_codes(id),
+  ADD COLUMN IF NOT EXISTS price_includes_tax BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS taxable_amount DECIMAL(15,2),
+  ADD COLUMN IF NOT EXISTS tax_base DECIMAL(15,2),
+  ADD COLUMN IF NOT EXISTS tax_rate DECIMAL(7,4) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tax_amount DECIMAL(15,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE sales_invoice_lines
+  ADD COLUMN IF NOT EXISTS tax_code_id UUID REFERENCES tax_codes(id),
+  ADD COLUMN IF NOT EXISTS price_includes_tax BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS taxable_amount DECIMAL(15,2),
+  ADD COLUMN IF NOT EXISTS tax_base DECIMAL(15,2),
+  ADD COLUMN IF NOT EXISTS tax_rate DECIMAL(7,4) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tax_amount DECIMAL(15,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE purchase_order_lines
+  ADD COLUMN IF NOT EXISTS tax_code_id UUID REFERENCES tax_codes(id),
+  ADD COLUMN IF NOT EXISTS price_includes_tax BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS taxable_amount DECIMAL(15,2),
+  ADD COLUMN IF NOT EXISTS tax_base DECIMAL(15,2),
+  ADD COLUMN IF NOT EXISTS tax_rate DECIMAL(7,4) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tax_amount DECIMAL(15,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE vendor_invoice_lines
+  ADD COLUMN IF NOT EXISTS tax_code_id UUID REFERENCES tax_codes(id),
+  ADD COLUMN IF NOT EXISTS price_includes_tax BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS taxable_amount DECIMAL(15,2),
+  ADD COLUMN IF NOT EXISTS tax_base DECIMAL(15,2),
+  ADD COLUMN IF NOT EXISTS tax_rate DECIMAL(7,4) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tax_amount DECIMAL(15,2) NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_pos_lines_tax_code ON sales_pos_lines(tax_code_id);
+CREATE INDEX IF NOT EXISTS idx_so_lines_tax_code ON sales_order_lines(tax_code_id);
+CREATE INDEX IF NOT EXISTS idx_sales_invoice_lines_tax_code ON sales_invoice_lines(tax_code_id);
+CREATE INDEX IF NOT EXISTS idx_po_lines_tax_code ON purchase_order_lines(tax_code_id);
+CREATE INDEX IF NOT EXISTS idx_vendor_invoice_lines_tax_code ON vendor_invoice_lines(tax_code_id);
+
+-- ==================== TAX CALCULATION ====================
+
+-- Party exemptions (non-PKP vendor, zero-rated export customer) win over the item's code;
+-- otherwise the item decides the rate, falling back to the party's code.
+CREATE OR REPLACE FUNCTION resolve_line_tax_code(
+  p_party_tax_code_id UUID,
+  p_item_tax_code_id UUID
+)
+RETURNS UUID AS $$
+  SELECT CASE
+    WHEN p_party_tax_code_id IS NOT NULL
+      AND (SELECT category FROM tax_codes WHERE id = p_party_tax_code_id) <> 'STANDARD'
+      THEN p_party_tax_code_id
+    ELSE COALESCE(p_item_tax_code_id, p_party_tax_code_id)
+  END;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION resolve_line_tax_code IS 'Default PPN code for a document line from the customer/vendor and product/material codes';
+
+-- Split a line amount into net amount, DPP and PPN.
+-- Exclusive: PPN = DPP x rate. Inclusive: net = gross / (1 + rate x dpp_factor), PPN = gross - net.
+CREATE OR REPLACE FUNCTION calculate_line_tax(
+  p_amount NUMERIC,
+  p_tax_code_id UUID,
+  p_price_includes_tax BOOLEAN
+)
+RETURNS TABLE (taxable_amount NUMERIC, tax_base NUMERIC, tax_rate NUMERIC, tax_amount NUMERIC) AS $$
+DECLARE
+  v_code RECORD;
+  v_effective_rate NUMERIC;
+BEGIN
+  IF p_tax_code_id IS NULL THEN
+    RETURN QUERY SELECT ROUND(p_amount, 2), NULL::NUMERIC, 0::NUMERIC, 0::NUMERIC;
+    RETURN;
+  END IF;
+
+  SELECT code, tax_type, category, rate, dpp_factor INTO v_code
+  FROM tax_codes
+  WHERE id = p_tax_code_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Tax code not found';
+  END IF;
+
+  IF v_code.tax_type <> 'PPN' THEN
+    RAISE EXCEPTION 'Tax code % is a withholding code and cannot be used on a document line', v_code.code;
+  END IF;
+
+  -- Exempt and zero-rated lines still report their DPP
+  IF v_code.category <> 'STANDARD' THEN
+    RETURN QUERY SELECT ROUND(p_amount, 2), ROUND(p_amount, 2), 0::NUMERIC, 0::NUMERIC;
+    RETURN;
+  END IF;
+
+  v_effective_rate := v_code.rate * v_code.dpp_factor / 100;
+
+  IF p_price_includes_tax THEN
+    taxable_amount := ROUND(p_amount / (1 + v_effective_rate), 2);
+    tax_amount := ROUND(p_amount, 2) - taxable_amount;
+    tax_base := ROUND(taxable_amount * v_code.dpp_factor, 2);
+  ELSE
+    taxable_amount := ROUND(p_amount, 2);
+    tax_base := ROUND(taxable_amount * v_code.dpp_factor, 2);
+    tax_amount := ROUND(tax_base * v_code.rate / 100, 2);
+  END IF;
+
+  tax_rate := v_code.rate;
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+COMMENT ON FUNCTION calculate_line_tax IS 'Per-line PPN: net amount, DPP, rate and tax for inclusive or exclusive prices';
+
+-- ==================== LINE TAX TRIGGERS ====================
+-- A line without a tax code on insert takes the default from the source line or master data.
+-- Line amounts are recomputed here because generated line_total is not visible in BEFORE triggers.
+
+CREATE OR REPLACE FUNCTION apply_pos_line_tax()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.tax_code_id IS NULL THEN
+    SELECT resolve_line_tax_code(c.tax_code_id, p.tax_code_id) INTO NEW.tax_code_id
+    FROM sales_pos sp
+    JOIN product_variants pv ON pv.id = NEW.product_variant_id
+    JOIN products p ON p.id = pv.product_id
+    LEFT JOIN customers c ON c.id = sp.customer_id
+    WHERE sp.id = NEW.pos_id;
+  END IF;
+
+  SELECT t.taxable_amount, t.tax_base, t.tax_rate, t.tax_amount
+  INTO NEW.taxable_amount, NEW.tax_base, NEW.tax_rate, NEW.tax_amount
+  FROM calculate_line_tax(
+    NEW.qty * NEW.unit_price * (1 - COALESCE(NEW.discount_percentage, 0) / 100),
+    NEW.tax_code_id,
+    NEW.price_includes_tax
+  ) t;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_apply_pos_line_tax
+  BEFORE INSERT OR UPDATE OF qty, unit_price, discount_percentage, tax_code_id, price_includes_tax
+  ON sales_pos_lines
+  FOR EACH ROW EXECUTE FUNCTION apply_pos_line_tax();
+
+CREATE OR REPLACE FUNCTION apply_so_line_tax()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.tax_code_id IS NULL THEN
+    SELECT resolve_line_tax_code(c.tax_code_id, p.tax_code_id) INTO NEW.tax_code_id
+    FROM sales_orders so
+    JOIN customers c ON c.id = so.customer_id
+    JOIN product_variants pv ON pv.id = NEW.product_variant_id
+    JOIN products p ON p.id = pv.product_id
+    WHERE so.id = NEW.so_id;
+  END IF;
+
+  SELECT t.taxable_amount, t.tax_base, t.tax_rate, t.tax_amount
+  INTO NEW.taxable_amount, NEW.tax_base, NEW.tax_rate, NEW.tax_amount
+  FROM calculate_line_tax(
+    NEW.qty_ordered * NEW.unit_price * (1 - COALESCE(NEW.discount_percentage, 0) / 100),
+    NEW.tax_code_id,
+    NEW.price_includes_tax
+  ) t;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_apply_so_line_tax
+  BEFORE INSERT OR UPDATE OF qty_ordered, unit_price, discount_percentage, tax_code_id, price_includes_tax
+  ON sales_order_lines
+  FOR EACH ROW EXECUTE FUNCTION apply_so_line_tax();
+
+CREATE OR REPLACE FUNCTION apply_sales_invoice_line_tax()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_source RECORD;
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.tax_code_id IS NULL THEN
+    -- Invoices raised from a sales order keep the order line's code
+    SELECT tax_code_id, price_includes_tax INTO v_source
+    FROM sales_order_lines
+    WHERE id = NEW.so_line_id AND tax_code_id IS NOT NULL;
+
+    IF FOUND THEN
+      NEW.tax_code_id := v_source.tax_code_id;
+      NEW.price_includes_tax := v_source.price_includes_tax;
+    ELSE
+      SELECT resolve_line_tax_code(c.tax_code_id, p.tax_code_id) INTO NEW.tax_code_id
+      FROM sales_invoices si
+      JOIN customers c ON c.id = si.customer_id
+      JOIN product_variants pv ON pv.id = NEW.product_variant_id
+      JOIN products p ON p.id = pv.product_id
+      WHERE si.id = NEW.invoice_id;
+    END IF;
+  END IF;
+
+  SELECT t.taxable_amount, t.tax_base, t.tax_rate, t.tax_amount
+  INTO NEW.taxable_amount, NEW.tax_base, NEW.tax_rate, NEW.tax_amount
+  FROM calculate_line_tax(
+    NEW.qty_invoiced * NEW.unit_price * (1 - COALESCE(NEW.discount_percentage, 0) / 100),
+    NEW.tax_code_id,
+    NEW.price_includes_tax
+  ) t;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_apply_sales_invoice_line_tax
+  BEFORE INSERT OR UPDATE OF qty_invoiced, unit_price, discount_percentage, tax_code_id, price_includes_tax
+  ON sales_invoice_lines
+  FOR EACH ROW EXECUTE FUNCTION apply_sales_invoice_line_tax();
+
+CREATE OR REPLACE FUNCTION apply_po_line_tax()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.tax_code_id IS NULL THEN
+    SELECT resolve_line_tax_code(v.tax_code_id, m.tax_code_id) INTO NEW.tax_code_id
+    FROM purchase_orders po
+    JOIN vendors v ON v.id = po.vendor_id
+    JOIN materials m ON m.id = NEW.material_id
+    WHERE po.id = NEW.po_id;
+  END IF;
+
+  SELECT t.taxable_amount, t.tax_base, t.tax_rate, t.tax_amount
+  INTO NEW.taxable_amount, NEW.tax_base, NEW.tax_rate, NEW.tax_amount
+  FROM calculate_line_tax(NEW.qty_ordered * NEW.unit_price, NEW.tax_code_id, NEW.price_includes_tax) t;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_apply_po_line_tax
+  BEFORE INSERT OR UPDATE OF qty_ordered, unit_price, tax_code_id, price_includes_tax
+  ON purchase_order_lines
+  FOR EACH ROW EXECUTE FUNCTION apply_po_line_tax();
+
+CREATE OR REPLACE FUNCTION apply_vendor_invoice_line_tax()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_source RECORD;
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.tax_code_id IS NULL THEN
+    -- Invoices matched to a PO keep the order line's code (the GRN line leads to it when po_line_id is not set yet)
+    SELECT pol.tax_code_id, pol.price_includes_tax INTO v_source
+    FROM purchase_order_lines pol
+    WHERE pol.id = COALESCE(NEW.po_line_id, (SELECT po_line_id FROM grn_lines WHERE id = NEW.grn_line_id))
+      AND pol.tax_code_id IS NOT NULL;
+
+    IF FOUND THEN
+      NEW.tax_code_id := v_source.tax_code_id;
+      NEW.price_includes_tax := v_source.price_includes_tax;
+    ELSE
+      SELECT resolve_line_tax_code(v.tax_code_id, m.tax_code_id) INTO NEW.tax_code_id
+      FROM vendor_invoices vi
+      JOIN vendors v ON v.id = vi.vendor_id
+      JOIN materials m ON m.id = NEW.material_id
+      WHERE vi.id = NEW.invoice_id;
+    END IF;
+  END IF;
+
+  SELECT t.taxable_amount, t.tax_base, t.tax_rate, t.tax_amount
+  INTO NEW.taxable_amount, NEW.tax_base, NEW.tax_rate, NEW.tax_amount
+  FROM calculate_line_tax(NEW.qty_invoiced * NEW.unit_price, NEW.tax_code_id, NEW.price_includes_tax) t;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_apply_vendor_invoice_line_tax
+  BEFORE INSERT OR UPDATE OF qty_invoiced, unit_price, tax_code_id, price_includes_tax
+  ON vendor_invoice_lines
+  FOR EACH ROW EXECUTE FUNCTION apply_vendor_invoice_line_tax();
+
+-- ==================== HEADER TOTALS ====================
+-- Subtotal is the sum of net line amounts. Header tax follows the lines once any line carries
+-- a tax code; documents without coded lines keep their manually entered tax_amount.
+
+CREATE OR REPLACE FUNCTION update_pos_total()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_pos_id UUID;
+BEGIN
+  v_pos_id := COALESCE(NEW.pos_id, OLD.pos_id);
+
+  UPDATE sales_pos sp
+  SET
+    subtotal = t.subtotal,
+    tax_amount = CASE WHEN t.has_tax_codes THEN t.tax_amount ELSE sp.tax_amount END
+  FROM (
+    SELECT
+      COALESCE(SUM(COALESCE(taxable_amount, line_total)), 0) AS subtotal,
+      COALESCE(SUM(tax_amount), 0) AS tax_amount,
+      COALESCE(BOOL_OR(tax_code_id IS NOT NULL), false) AS has_tax_codes
+    FROM sales_pos_lines
+    WHERE pos_id = v_pos_id
+  ) t
+  WHERE sp.id = v_pos_id;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION update_so_total()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_so_id UUID;
+BEGIN
+  v_so_id := COALESCE(NEW.so_id, OLD.so_id);
+
+  UPDATE sales_orders so
+  SET
+    subtotal = t.subtotal,
+    tax_amount = CASE WHEN t.has_tax_codes THEN t.tax_amount ELSE so.tax_amount END
+  FROM (
+    SELECT
+      COALESCE(SUM(COALESCE(taxable_amount, line_total)), 0) AS subtotal,
+      COALESCE(SUM(tax_amount), 0) AS tax_amount,
+      COALESCE(BOOL_OR(tax_code_id IS NOT NULL), false) AS has_tax_codes
+    FROM sales_order_lines
+    WHERE so_id = v_so_id
+  ) t
+  WHERE so.id = v_so_id;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION update_invoice_total()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_invoice_id UUID;
+BEGIN
+  v_invoice_id := COALESCE(NEW.invoice_id, OLD.invoice_id);
+
+  UPDATE sales_invoices si
+  SET
+    subtotal = t.subtotal,
+    tax_amount = CASE WHEN t.has_tax_codes THEN t.tax_amount ELSE si.tax_amount END
+  FROM (
+    SELECT
+      COALESCE(SUM(COALESCE(taxable_amount, line_total)), 0) AS subtotal,
+      COALESCE(SUM(tax_amount), 0) AS tax_amount,
+      COALESCE(BOOL_OR(tax_code_id IS NOT NULL), false) AS has_tax_codes
+    FROM sales_invoice_lines
+    WHERE invoice_id = v_invoice_id
+  ) t
+  WHERE si.id = v_invoice_id;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION update_po_total()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_po_id UUID;
+BEGIN
+  v_po_id := COALESCE(NEW.po_id, OLD.po_id);
+
+  UPDATE purchase_orders po
+  SET
+    subtotal = t.subtotal,
+    tax_amount = CASE WHEN t.has_tax_codes THEN t.tax_amount ELSE po.tax_amount END
+  FROM (
+    SELECT
+      COALESCE(SUM(COALESCE(taxable_amount, line_total)), 0) AS subtotal,
+      COALESCE(SUM(tax_amount), 0) AS tax_amount,
+      COALESCE(BOOL_OR(tax_code_id IS NOT NULL), false) AS has_tax_codes
+    FROM purchase_order_lines
+    WHERE po_id = v_po_id
+  ) t
+  WHERE po.id = v_po_id;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+-- 024 redefined update_invoice_total() for sales invoices, leaving the vendor invoice
+-- line triggers updating sales_invoices. Vendor invoices get their own function.
+CREATE OR REPLACE FUNCTION update_vendor_invoice_total()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_invoice_id UUID;
+BEGIN
+  v_invoice_id := COALESCE(NEW.invoice_id, OLD.invoice_id);
+
+  UPDATE vendor_invoices vi
+  SET
+    subtotal = t.subtotal,
+    tax_amount = CASE WHEN t.has_tax_codes THEN t.tax_amount ELSE vi.tax_amount END
+  FROM (
+    SELECT
+      COALESCE(SUM(COALESCE(taxable_amount, line_total)), 0) AS subtotal,
+      COALESCE(SUM(tax_amount), 0) AS tax_amount,
+      COALESCE(BOOL_OR(tax_code_id IS NOT NULL), false) AS has_tax_codes
+    FROM vendor_invoice_lines
+    WHERE invoice_id = v_invoice_id
+  ) t
+  WHERE vi.id = v_invoice_id;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_invoice_total_insert ON vendor_invoice_lines;
+DROP TRIGGER IF EXISTS trigger_update_invoice_total_update ON vendor_invoice_lines;
+DROP TRIGGER IF EXISTS trigger_update_invoice_total_delete ON vendor_invoice_lines;
+
+CREATE TRIGGER trigger_update_vendor_invoice_total_insert
+  AFTER INSERT ON vendor_invoice_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION update_vendor_invoice_total();
+
+CREATE TRIGGER trigger_update_vendor_invoice_total_update
+  AFTER UPDATE ON vendor_invoice_lines
+  FOR EACH ROW
+  WHEN (OLD.line_total IS DISTINCT FROM NEW.line_total
+    OR OLD.taxable_amount IS DISTINCT FROM NEW.taxable_amount
+    OR OLD.tax_amount IS DISTINCT FROM NEW.tax_amount)
+  EXECUTE FUNCTION update_vendor_invoice_total();
+
+CREATE TRIGGER trigger_update_vendor_invoice_total_delete
+  AFTER DELETE ON vendor_invoice_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION update_vendor_invoice_total();
+
+-- Update triggers also fire when only the tax changes (new code, inclusive flag)
+DROP TRIGGER IF EXISTS trigger_update_pos_total_update ON sales_pos_lines;
+CREATE TRIGGER trigger_update_pos_total_update
+  AFTER UPDATE ON sales_pos_lines
+  FOR EACH ROW
+  WHEN (OLD.line_total IS DISTINCT FROM NEW.line_total
+    OR OLD.taxable_amount IS DISTINCT FROM NEW.taxable_amount
+    OR OLD.tax_amount IS DISTINCT FROM NEW.tax_amount)
+  EXECUTE FUNCTION update_pos_total();
+
+DROP TRIGGER IF EXISTS trigger_update_so_total_update ON sales_order_lines;
+CREATE TRIGGER trigger_update_so_total_update
+  AFTER UPDATE ON sales_order_lines
+  FOR EACH ROW
+  WHEN (OLD.line_total IS DISTINCT FROM NEW.line_total
+    OR OLD.taxable_amount IS DISTINCT FROM NEW.taxable_amount
+    OR OLD.tax_amount IS DISTINCT FROM NEW.tax_amount)
+  EXECUTE FUNCTION update_so_total();
+
+DROP TRIGGER IF EXISTS trigger_update_invoice_total_update ON sales_invoice_lines;
+CREATE TRIGGER trigger_update_invoice_total_update
+  AFTER UPDATE ON sales_invoice_lines
+  FOR EACH ROW
+  WHEN (OLD.line_total IS DISTINCT FROM NEW.line_total
+    OR OLD.taxable_amount IS DISTINCT FROM NEW.taxable_amount
+    OR OLD.tax_amount IS DISTINCT FROM NEW.tax_amount)
+  EXECUTE FUNCTION update_invoice_total();
+
+DROP TRIGGER IF EXISTS trigger_update_po_total_update ON purchase_order_lines;
+CREATE TRIGGER trigger_update_po_total_update
+  AFTER UPDATE ON purchase_order_lines
+  FOR EACH ROW
+  WHEN (OLD.line_total IS DISTINCT FROM NEW.line_total
+    OR OLD.taxable_amount IS DISTINCT FROM NEW.taxable_amount
+    OR OLD.tax_amount IS DISTINCT FROM NEW.tax_amount)
+  EXECUTE FUNCTION update_po_total();
+
+-- ==================== JOURNAL LINKS ====================
+
+ALTER TABLE sales_pos ADD COLUMN IF NOT EXISTS journal_id UUID REFERENCES journals(id);
+ALTER TABLE sales_invoices ADD COLUMN IF NOT EXISTS journal_id UUID REFERENCES journals(id);
+
+-- ==================== DEFAULT TAX CODES ====================
+
+CREATE OR REPLACE FUNCTION seed_tax_codes(p_company_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER := 0;
+BEGIN
+  -- SECURITY CHECK (service role seeds new companies without a user session)
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    PERFORM check_tenant_access(p_company_id);
+  END IF;
+
+  INSERT INTO tax_codes (company_id, code, name, tax_type, category, rate, dpp_factor, description)
+  SELECT p_company_id, t.code, t.name, t.tax_type, t.category, t.rate, t.dpp_factor, t.description
+  FROM (VALUES
+    ('PPN11', 'PPN 11%', 'PPN', 'STANDARD', 11, 1::NUMERIC, 'PPN at 11% on the full net amount'),
+    ('PPN12', 'PPN 12% (DPP 11/12)', 'PPN', 'STANDARD', 12, ROUND(11 / 12::NUMERIC, 8), 'PPN at 12% on DPP Nilai Lain of 11/12 (non-luxury goods)'),
+    ('PPN12-LUX', 'PPN 12% Barang Mewah', 'PPN', 'STANDARD', 12, 1::NUMERIC, 'PPN at 12% on the full net amount (luxury goods)'),
+    ('PPN-ZR', 'PPN 0% Ekspor', 'PPN', 'ZERO_RATED', 0, 1::NUMERIC, 'Zero-rated export of goods'),
+    ('PPN-EX', 'PPN Dibebaskan', 'PPN', 'EXEMPT', 0, 1::NUMERIC, 'Exempt supply or non-PKP counterparty'),
+    ('PPH23', 'PPh 23 Jasa 2%', 'PPH', 'WITHHOLDING', 2, 1::NUMERIC, 'PPh 23 withheld on services'),
+    ('PPH23-NONPWP', 'PPh 23 Jasa 4% (tanpa NPWP)', 'PPH', 'WITHHOLDING', 4, 1::NUMERIC, 'PPh 23 at double rate for vendors without NPWP')
+  ) AS t(code, name, tax_type, category, rate, dpp_factor, description)
+  ON CONFLICT (company_id, code) DO NOTHING;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION seed_tax_codes IS 'Create the standard PPN/PPh tax codes for a company';
+
+-- Backfill for existing companies
+INSERT INTO tax_codes (company_id, code, name, tax_type, category, rate, dpp_factor, description)
+SELECT c.id, t.code, t.name, t.tax_type, t.category, t.rate, t.dpp_factor, t.description
+FROM companies c
+CROSS JOIN (VALUES
+  ('PPN11', 'PPN 11%', 'PPN', 'STANDARD', 11, 1::NUMERIC, 'PPN at 11% on the full net amount'),
+  ('PPN12', 'PPN 12% (DPP 11/12)', 'PPN', 'STANDARD', 12, ROUND(11 / 12::NUMERIC, 8), 'PPN at 12% on DPP Nilai Lain of 11/12 (non-luxury goods)'),
+  ('PPN12-LUX', 'PPN 12% Barang Mewah', 'PPN', 'STANDARD', 12, 1::NUMERIC, 'PPN at 12% on the full net amount (luxury goods)'),
+  ('PPN-ZR', 'PPN 0% Ekspor', 'PPN', 'ZERO_RATED', 0, 1::NUMERIC, 'Zero-rated export of goods'),
+  ('PPN-EX', 'PPN Dibebaskan', 'PPN', 'EXEMPT', 0, 1::NUMERIC, 'Exempt supply or non-PKP counterparty'),
+  ('PPH23', 'PPh 23 Jasa 2%', 'PPH', 'WITHHOLDING', 2, 1::NUMERIC, 'PPh 23 withheld on services'),
+  ('PPH23-NONPWP', 'PPh 23 Jasa 4% (tanpa NPWP)', 'PPH', 'WITHHOLDING', 4, 1::NUMERIC, 'PPh 23 at double rate for vendors without NPWP')
+) AS t(code, name, tax_type, category, rate, dpp_factor, description)
+ON CONFLICT (company_id, code) DO NOTHING;
+
+-- ==================== ACCOUNT MAPPINGS ====================
+-- Input VAT (PPN Masukan) is an asset credited against output VAT (PPN Keluaran, 2030) each period.
+
+INSERT INTO chart_of_accounts (
+  company_id, account_code, account_name, account_type,
+  account_category, normal_balance, is_header, is_system, level
+)
+SELECT DISTINCT company_id, '1300', 'Prepaid Tax - VAT In (PPN Masukan)', 'ASSET', 'CURRENT_ASSET', 'DEBIT', false, true, 2
+FROM chart_of_accounts
+WHERE account_code = '1000'
+ON CONFLICT (company_id, account_code) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION seed_account_mappings(p_company_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER := 0;
+BEGIN
+  -- SECURITY CHECK
+  PERFORM check_tenant_access(p_company_id);
+
+  -- Accounts added after the COA template
+  INSERT INTO chart_of_accounts (
+    company_id, account_code, account_name, account_type,
+    account_category, normal_balance, is_header, is_system, level
+  )
+  SELECT p_company_id, a.account_code, a.account_name, a.account_type, a.account_category, a.normal_balance, false, true, 2
+  FROM (VALUES
+    ('1300', 'Prepaid Tax - VAT In (PPN Masukan)', 'ASSET', 'CURRENT_ASSET', 'DEBIT', '1000'),
+    ('2060', 'Accrued Landed Costs', 'LIABILITY', 'CURRENT_LIABILITY', 'CREDIT', '2000'),
+    ('5110', 'Purchase Price Variance', 'EXPENSE', 'COGS', 'DEBIT', '5000')
+  ) AS a(account_code, account_name, account_type, account_category, normal_balance, header_code)
+  WHERE EXISTS (SELECT 1 FROM chart_of_accounts WHERE company_id = p_company_id AND account_code = a.header_code)
+  ON CONFLICT (company_id, account_code) DO NOTHING;
+
+  INSERT INTO system_account_mappings (company_id, mapping_code, account_id, description)
+  SELECT p_company_id, m.mapping_code, coa.id, m.description
+  FROM (VALUES
+    -- Cash & Bank
+    ('DEFAULT_CASH', '1010', 'Default Cash Account for POS/Payments'),
+    ('DEFAULT_BANK', '1020', 'Default Bank Account'),
+    -- Receivables
+    ('ACCOUNTS_RECEIVABLE', '1100', 'Default AR Account'),
+    -- Inventory
+    ('INVENTORY_RAW', '1210', 'Raw Material Inventory'),
+    ('INVENTORY_RAW_MATERIALS', '1210', 'Raw Material Inventory'),
+    ('INVENTORY_WIP', '1220', 'Work in Progress Inventory'),
+    ('INVENTORY_FG', '1250', 'Finished Goods Inventory'),
+    ('INVENTORY_ADJUSTMENT', '6910', 'Inventory Variance/Adjustment Expense'),
+    ('INVENTORY_SCRAP', '6900', 'Loss or Scrap Expense'),
+    -- Payables & Tax
+    ('ACCOUNTS_PAYABLE', '2010', 'Default AP Account'),
+    ('TAX_PAYABLE', '2030', 'VAT/Tax Payable'),
+    ('VAT_INPUT', '1300', 'PPN Masukan on vendor invoices'),
+    ('VAT_OUTPUT', '2030', 'PPN Keluaran on sales and POS'),
+    ('ACCRUED_LANDED_COSTS', '2060', 'Accrued freight, duty and brokerage awaiting invoice'),
+    -- Sales
+    ('SALES_POS', '4010', 'Sales Revenue for Retail/POS'),
+    ('SALES_WHOLESALE', '4020', 'Sales Revenue for Distributor/B2B'),
+    ('SALES_RETURNS', '4100', 'Sales Returns and Allowances'),
+    ('SALES_DISCOUNTS', '4200', 'Sales Discounts'),
+    -- COGS & Expenses
+    ('COGS_DEFAULT', '5010', 'Cost of Goods Sold'),
+    ('PURCHASE_PRICE_VARIANCE', '5110', 'Invoice price vs PO/GRN price differences'),
+    ('EXPENSE_LABOR', '6010', 'Direct Labor Expense'),
+    ('EXPENSE_OVERHEAD', '6020', 'Factory Overhead Expense'),
+    -- Marketplace
+    ('MARKETPLACE_FEES', '6100', 'Marketplace commission, service and payment fees'),
+    ('MARKETPLACE_SHIPPING', '6110', 'Shipping cost borne by seller on marketplace orders'),
+    ('CLEARING_SHOPEE', '2110', 'Shopee Wallet Clearing'),
+    ('CLEARING_TIKTOK', '2120', 'TikTok Shop Clearing'),
+    ('CLEARING_TOKOPEDIA', '2130', 'Tokopedia Clearing'),
+    ('CLEARING_LAZADA', '2140', 'Lazada Clearing')
+  ) AS m(mapping_code, account_code, description)
+  JOIN chart_of_accounts coa
+    ON coa.company_id = p_company_id AND coa.account_code = m.account_code
+  ON CONFLICT DO NOTHING;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Backfill for existing companies (bypasses the tenant check, runs as migration owner)
+INSERT INTO system_account_mappings (company_id, mapping_code, account_id, description)
+SELECT coa.company_id, m.mapping_code, coa.id, m.description
+FROM (VALUES
+  ('VAT_INPUT', '1300', 'PPN Masukan on vendor invoices'),
+  ('VAT_OUTPUT', '2030', 'PPN Keluaran on sales and POS')
+) AS m(mapping_code, account_code, description)
+JOIN chart_of_accounts coa ON coa.account_code = m.account_code
+ON CONFLICT DO NOTHING;
+
+-- ==================== RLS POLICIES ====================
+
+ALTER TABLE tax_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY tax_codes_tenant_isolation ON tax_codes
+  FOR ALL USING (company_id IN (
+    SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+  ));
+
+CREATE POLICY tax_codes_service ON tax_codes FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+ALTER FUNCTION public.update_pos_total SET search_path = public;
+ALTER FUNCTION public.update_so_total SET search_path = public;
+ALTER FUNCTION public.update_invoice_total SET search_path = public;
+ALTER FUNCTION public.update_po_total SET search_path = public;
+ALTER FUNCTION public.update_vendor_invoice_total SET search_path = public;
@@ -0,0 +1,293 @@
+-- Migration: 074_efaktur_export.sql
+-- Description: Tax invoice (faktur pajak) numbering from NSFP ranges, e-Faktur/Coretax export batches and replacement invoices
+-- Dependencies: 024_sales_invoices.sql, 073_tax_codes.sql
+-- Author: Ziyada ERP Team
+-- Date: 2026-01-16
+
+-- ==================== BUYER IDENTITY ====================
+
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS tax_id_type VARCHAR(10) DEFAULT 'NPWP'
+  CHECK (tax_id_type IN ('NPWP', 'NIK', 'PASSPORT', 'OTHER'));
+
+COMMENT ON COLUMN customers.tax_id_type IS 'What customers.tax_id holds: NPWP, NIK (individual without NPWP), passport or other ID';
+
+-- ==================== NSFP RANGES ====================
+-- NSFP (Nomor Seri Faktur Pajak) is allocated by DJP in ranges: 3-digit branch code,
+-- 2-digit year and an 8-digit serial, e.g. 010.25.00000001 - 010.25.00000500.
+
+CREATE TABLE IF NOT EXISTS tax_invoice_number_ranges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE NOT NULL,
+
+  prefix CHAR(5) NOT NULL CHECK (prefix ~ '^[0-9]{5}$'),  -- branch code + 2-digit year
+  tax_year SMALLINT NOT NULL,
+  start_serial BIGINT NOT NULL CHECK (start_serial BETWEEN 1 AND 99999999),
+  end_serial BIGINT NOT NULL CHECK (end_serial BETWEEN 1 AND 99999999),
+  next_serial BIGINT NOT NULL,
+
+  status VARCHAR(20) DEFAULT 'active' CHECK (status IN ('active', 'exhausted', 'closed')),
+  allocation_reference VARCHAR(100),  -- DJP allocation letter number
+  notes TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(company_id, prefix, start_serial),
+  CONSTRAINT nsfp_range_order CHECK (end_serial >= start_serial),
+  CONSTRAINT nsfp_range_next CHECK (next_serial BETWEEN start_serial AND end_serial + 1),
+  CONSTRAINT nsfp_range_year CHECK (SUBSTRING(prefix FROM 4 FOR 2) = LPAD((tax_year % 100)::TEXT, 2, '0'))
+);
+
+CREATE INDEX idx_nsfp_ranges_company ON tax_invoice_number_ranges(company_id, tax_year) WHERE status = 'active';
+
+CREATE TRIGGER update_nsfp_ranges_updated_at
+  BEFORE UPDATE ON tax_invoice_number_ranges
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE tax_invoice_number_ranges IS 'NSFP ranges allocated by DJP, consumed in order by assign_tax_invoice_number';
+
+-- ==================== EXPORT BATCHES ====================
+
+CREATE TABLE IF NOT EXISTS tax_invoice_exports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE NOT NULL,
+
+  export_format VARCHAR(20) NOT NULL CHECK (export_format IN ('EFAKTUR_CSV', 'CORETAX_XML')),
+  file_name VARCHAR(255) NOT NULL,
+  date_from DATE,
+  date_to DATE,
+  invoice_count INTEGER NOT NULL DEFAULT 0,
+  total_tax_base DECIMAL(15,2) NOT NULL DEFAULT 0,
+  total_vat DECIMAL(15,2) NOT NULL DEFAULT 0,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id)
+);
+
+CREATE INDEX idx_tax_invoice_exports_company ON tax_invoice_exports(company_id, created_at DESC);
+
+COMMENT ON TABLE tax_invoice_exports IS 'Files generated for upload to e-Faktur or Coretax';
+
+-- ==================== TAX INVOICES ====================
+
+CREATE TABLE IF NOT EXISTS tax_invoices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE NOT NULL,
+  sales_invoice_id UUID REFERENCES sales_invoices(id) NOT NULL,
+
+  transaction_code CHAR(2) NOT NULL DEFAULT '01',  -- Kode transaksi: 01 normal, 04 DPP nilai lain, 07 tidak dipungut, 08 dibebaskan
+  nsfp CHAR(13) CHECK (nsfp ~ '^[0-9]{13}$'),
+  nsfp_range_id UUID REFERENCES tax_invoice_number_ranges(id),
+
+  -- Pengganti: same NSFP, replacement_seq > 0, pointing at the invoice it corrects
+  replacement_seq SMALLINT NOT NULL DEFAULT 0 CHECK (replacement_seq >= 0),
+  replaces_tax_invoice_id UUID REFERENCES tax_invoices(id),
+  replacement_reason TEXT,
+
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'exported', 'replaced')),
+  export_id UUID REFERENCES tax_invoice_exports(id),
+  exported_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT tax_invoice_replacement CHECK ((replacement_seq = 0) = (replaces_tax_invoice_id IS NULL))
+);
+
+-- One live tax invoice per sales invoice; an NSFP is reused only by its replacements
+CREATE UNIQUE INDEX idx_tax_invoices_live ON tax_invoices(sales_invoice_id) WHERE status <> 'replaced';
+CREATE UNIQUE INDEX idx_tax_invoices_nsfp ON tax_invoices(company_id, nsfp, replacement_seq) WHERE nsfp IS NOT NULL;
+CREATE INDEX idx_tax_invoices_status ON tax_invoices(company_id, status);
+CREATE INDEX idx_tax_invoices_export ON tax_invoices(export_id);
+
+CREATE TRIGGER update_tax_invoices_updated_at
+  BEFORE UPDATE ON tax_invoices
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE tax_invoices IS 'Faktur pajak keluaran per posted sales invoice, with export status and replacements';
+
+-- ==================== NUMBERING ====================
+
+-- Give a tax invoice the next NSFP from the oldest active range of its invoice year
+CREATE OR REPLACE FUNCTION assign_tax_invoice_number(p_tax_invoice_id UUID)
+RETURNS CHAR(13) AS $$
+DECLARE
+  v_tax_invoice RECORD;
+  v_range RECORD;
+  v_nsfp CHAR(13);
+BEGIN
+  SELECT ti.*, EXTRACT(YEAR FROM si.invoice_date)::SMALLINT AS invoice_year
+  INTO v_tax_invoice
+  FROM tax_invoices ti
+  JOIN sales_invoices si ON si.id = ti.sales_invoice_id
+  WHERE ti.id = p_tax_invoice_id
+  FOR UPDATE OF ti;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Tax invoice not found';
+  END IF;
+
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    PERFORM check_tenant_access(v_tax_invoice.company_id);
+  END IF;
+
+  IF v_tax_invoice.nsfp IS NOT NULL THEN
+    RETURN v_tax_invoice.nsfp;
+  END IF;
+
+  SELECT * INTO v_range
+  FROM tax_invoice_number_ranges
+  WHERE company_id = v_tax_invoice.company_id
+    AND tax_year = v_tax_invoice.invoice_year
+    AND status = 'active'
+    AND next_serial <= end_serial
+  ORDER BY prefix, start_serial
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No NSFP left for %: request a new range from DJP', v_tax_invoice.invoice_year;
+  END IF;
+
+  v_nsfp := v_range.prefix || LPAD(v_range.next_serial::TEXT, 8, '0');
+
+  UPDATE tax_invoice_number_ranges
+  SET
+    next_serial = next_serial + 1,
+    status = CASE WHEN next_serial + 1 > end_serial THEN 'exhausted' ELSE status END
+  WHERE id = v_range.id;
+
+  UPDATE tax_invoices
+  SET nsfp = v_nsfp, nsfp_range_id = v_range.id
+  WHERE id = p_tax_invoice_id;
+
+  RETURN v_nsfp;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION assign_tax_invoice_number IS 'Assign the next NSFP to a tax invoice (idempotent)';
+
+-- ==================== REPLACEMENT (PENGGANTI) ====================
+
+-- Supersede an exported tax invoice with a replacement carrying the same NSFP.
+-- p_sales_invoice_id is the corrected sales invoice, or NULL when only the original's data changed.
+CREATE OR REPLACE FUNCTION create_replacement_tax_invoice(
+  p_tax_invoice_id UUID,
+  p_sales_invoice_id UUID,
+  p_reason TEXT,
+  p_user_id UUID
+)
+RETURNS UUID AS $$
+DECLARE
+  v_original RECORD;
+  v_sales_invoice RECORD;
+  v_replacement_id UUID;
+BEGIN
+  SELECT * INTO v_original
+  FROM tax_invoices
+  WHERE id = p_tax_invoice_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Tax invoice not found';
+  END IF;
+
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    PERFORM check_tenant_access(v_original.company_id);
+  END IF;
+
+  IF v_original.status <> 'exported' THEN
+    RAISE EXCEPTION 'Only exported tax invoices can be replaced (status is %)', v_original.status;
+  END IF;
+
+  IF COALESCE(TRIM(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A replacement reason is required';
+  END IF;
+
+  SELECT id, company_id, status INTO v_sales_invoice
+  FROM sales_invoices
+  WHERE id = COALESCE(p_sales_invoice_id, v_original.sales_invoice_id);
+
+  IF v_sales_invoice.company_id IS DISTINCT FROM v_original.company_id OR v_sales_invoice.status <> 'posted' THEN
+    RAISE EXCEPTION 'The corrected sales invoice must be a posted invoice of the same company';
+  END IF;
+
+  UPDATE tax_invoices SET status = 'replaced' WHERE id = p_tax_invoice_id;
+
+  -- transaction_code starts as the original's; the export sets it from the corrected invoice lines
+  INSERT INTO tax_invoices (
+    company_id, sales_invoice_id, transaction_code, nsfp, nsfp_range_id,
+    replacement_seq, replaces_tax_invoice_id, replacement_reason, status, created_by
+  ) VALUES (
+    v_original.company_id, v_sales_invoice.id, v_original.transaction_code, v_original.nsfp, v_original.nsfp_range_id,
+    v_original.replacement_seq + 1, v_original.id, p_reason, 'pending', p_user_id
+  )
+  RETURNING id INTO v_replacement_id;
+
+  RETURN v_replacement_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION create_replacement_tax_invoice IS 'Replace an exported faktur pajak (pengganti) with the same NSFP';
+
+-- ==================== VIEWS ====================
+
+-- Export status of every posted sales invoice that carries PPN coding
+CREATE OR REPLACE VIEW sales_invoice_tax_status_vw AS
+SELECT
+  si.company_id,
+  si.id AS sales_invoice_id,
+  si.invoice_number,
+  si.invoice_date,
+  si.customer_id,
+  c.name AS customer_name,
+  c.tax_id AS customer_tax_id,
+  si.subtotal,
+  si.tax_amount,
+  ti.id AS tax_invoice_id,
+  ti.transaction_code,
+  ti.nsfp,
+  ti.replacement_seq,
+  COALESCE(ti.status, 'not_exported') AS efaktur_status,
+  ti.exported_at,
+  ti.export_id
+FROM sales_invoices si
+JOIN customers c ON c.id = si.customer_id
+LEFT JOIN tax_invoices ti ON ti.sales_invoice_id = si.id AND ti.status <> 'replaced'
+WHERE si.status = 'posted'
+  AND EXISTS (
+    SELECT 1 FROM sales_invoice_lines sil
+    WHERE sil.invoice_id = si.id AND sil.tax_code_id IS NOT NULL
+  );
+
+ALTER VIEW sales_invoice_tax_status_vw SET (security_invoker = true);
+
+COMMENT ON VIEW sales_invoice_tax_status_vw IS 'Posted sales invoices with PPN and their e-Faktur export status';
+
+-- ==================== RLS POLICIES ====================
+
+ALTER TABLE tax_invoice_number_ranges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tax_invoice_exports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tax_invoices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY nsfp_ranges_tenant_isolation ON tax_invoice_number_ranges
+  FOR ALL USING (company_id IN (
+    SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+  ));
+
+CREATE POLICY tax_invoice_exports_tenant_read ON tax_invoice_exports
+  FOR SELECT USING (company_id IN (
+    SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+  ));
+
+-- Numbering and replacement go through assign_tax_invoice_number / create_replacement_tax_invoice
+CREATE POLICY tax_invoices_tenant_read ON tax_invoices
+  FOR SELECT USING (company_id IN (
+    SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+  ));
+
+CREATE POLICY nsfp_ranges_service ON tax_invoice_number_ranges FOR ALL TO service_role USING (true) WITH CHECK (true);
+CREATE POLICY tax_invoice_exports_service ON tax_invoice_exports FOR ALL TO service_role USING (true) WITH CHECK (true);
+CREATE POLICY tax_invoices_service ON tax_invoices FOR ALL TO service_role USING (true) WITH CHECK (true);
@@ -0,0 +1,339 @@
+-- Migration: 075_withholding_tax.sql
+-- Description: PPh 23 withholding on vendor payments from the vendor tax profile, withholding journal account, bukti potong and monthly summary
+-- Dependencies: 016_vendor_payments.sql, 073_tax_codes.sql
+-- Author: Ziyada ERP Team
+-- Date: 2026-01-17
+
+-- ==================== VENDOR TAX PROFILE ====================
+-- vendors.withholding_tax_code_id (073) sets the PPh rate; the object code is what the
+-- bukti potong reports, e.g. 24-104-14 for maklon (sewing/printing subcontract) services.
+
+ALTER TABLE vendors ADD COLUMN IF NOT EXISTS withholding_object_code VARCHAR(20);
+
+COMMENT ON COLUMN vendors.withholding_object_code IS 'Kode objek pajak on bukti potong, e.g. 24-104-14';
+
+-- ==================== PAYMENTS ====================
+-- total_amount stays the cash/bank amount paid. Each allocation settles amount_allocated of the
+-- invoice, of which withholding_amount is withheld and owed to the tax office instead of the vendor.
+
+ALTER TABLE vendor_payments
+  ADD COLUMN IF NOT EXISTS withholding_tax_code_id UUID REFERENCES tax_codes(id),
+  ADD COLUMN IF NOT EXISTS withholding_amount DECIMAL(15,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS journal_id UUID REFERENCES journals(id);
+
+ALTER TABLE payment_allocations
+  ADD COLUMN IF NOT EXISTS withholding_base DECIMAL(15,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS withholding_rate DECIMAL(7,4) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS withholding_amount DECIMAL(15,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE payment_allocations
+  ADD CONSTRAINT payment_allocation_withholding CHECK (withholding_amount >= 0 AND withholding_amount < amount_allocated);
+
+COMMENT ON COLUMN vendor_payments.withholding_tax_code_id IS 'PPh code withheld on this payment, defaulted from the vendor';
+COMMENT ON COLUMN vendor_payments.withholding_amount IS 'Sum of PPh withheld on the allocations';
+COMMENT ON COLUMN payment_allocations.withholding_base IS 'Invoice DPP (excluding PPN) settled by this allocation';
+
+CREATE TRIGGER trigger_validate_payment_tax_code
+  BEFORE INSERT OR UPDATE OF withholding_tax_code_id ON vendor_payments
+  FOR EACH ROW EXECUTE FUNCTION validate_tax_code_assignment();
+
+-- Allocations net of withholding must fit in the cash paid
+CREATE OR REPLACE FUNCTION validate_payment_allocation()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_invoice_outstanding DECIMAL(15,2);
+  v_total_allocated DECIMAL(15,2);
+  v_payment_total DECIMAL(15,2);
+BEGIN
+  -- Check invoice outstanding
+  SELECT amount_outstanding INTO v_invoice_outstanding
+  FROM vendor_invoices
+  WHERE id = NEW.invoice_id;
+
+  -- Get total already allocated to this invoice
+  SELECT COALESCE(SUM(amount_allocated), 0) INTO v_total_allocated
+  FROM payment_allocations
+  WHERE invoice_id = NEW.invoice_id
+    AND id != COALESCE(NEW.id, '00000000-0000-0000-0000-000000000000'::uuid);
+
+  -- Check if new allocation exceeds outstanding
+  IF v_total_allocated + NEW.amount_allocated > v_invoice_outstanding THEN
+    RAISE EXCEPTION 'Allocation (%) exceeds invoice outstanding (%)',
+      NEW.amount_allocated, v_invoice_outstanding - v_total_allocated;
+  END IF;
+
+  -- Check if cash allocated (after withholding) exceeds payment amount
+  SELECT total_amount INTO v_payment_total
+  FROM vendor_payments
+  WHERE id = NEW.payment_id;
+
+  SELECT COALESCE(SUM(amount_allocated - withholding_amount), 0) INTO v_total_allocated
+  FROM payment_allocations
+  WHERE payment_id = NEW.payment_id
+    AND id != COALESCE(NEW.id, '00000000-0000-0000-0000-000000000000'::uuid);
+
+  IF v_total_allocated + NEW.amount_allocated - NEW.withholding_amount > v_payment_total THEN
+    RAISE EXCEPTION 'Total allocations net of withholding (%) exceed payment amount (%)',
+      v_total_allocated + NEW.amount_allocated - NEW.withholding_amount, v_payment_total;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Roll allocation withholding up to the payment
+CREATE OR REPLACE FUNCTION update_payment_withholding()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_payment_id UUID := COALESCE(NEW.payment_id, OLD.payment_id);
+BEGIN
+  UPDATE vendor_payments
+  SET withholding_amount = (
+    SELECT COALESCE(SUM(withholding_amount), 0)
+    FROM payment_allocations
+    WHERE payment_id = v_payment_id
+  )
+  WHERE id = v_payment_id;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_payment_withholding
+  AFTER INSERT OR UPDATE OF amount_allocated, withholding_amount OR DELETE ON payment_allocations
+  FOR EACH ROW EXECUTE FUNCTION update_payment_withholding();
+
+-- ==================== WITHHOLDING CERTIFICATES ====================
+-- Bukti potong issued to the vendor for each posted payment with PPh withheld.
+-- Vendor identity and amounts are copied so the certificate stays as issued.
+
+CREATE TABLE IF NOT EXISTS withholding_certificates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE NOT NULL,
+  certificate_number VARCHAR(50) NOT NULL,
+
+  payment_id UUID REFERENCES vendor_payments(id) NOT NULL,
+  vendor_id UUID REFERENCES vendors(id) NOT NULL,
+  tax_code_id UUID REFERENCES tax_codes(id) NOT NULL,
+
+  withholding_date DATE NOT NULL,
+  tax_period DATE NOT NULL,  -- First day of the masa pajak
+  vendor_name VARCHAR(200) NOT NULL,
+  vendor_tax_id VARCHAR(50),
+  object_code VARCHAR(20),
+
+  tax_base DECIMAL(15,2) NOT NULL,
+  tax_rate DECIMAL(7,4) NOT NULL,
+  withholding_amount DECIMAL(15,2) NOT NULL CHECK (withholding_amount > 0),
+
+  status VARCHAR(20) NOT NULL DEFAULT 'issued' CHECK (status IN ('issued', 'cancelled')),
+  cancelled_reason TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(company_id, certificate_number)
+);
+
+CREATE UNIQUE INDEX idx_withholding_cert_payment ON withholding_certificates(payment_id) WHERE status = 'issued';
+CREATE INDEX idx_withholding_cert_period ON withholding_certificates(company_id, tax_period);
+CREATE INDEX idx_withholding_cert_vendor ON withholding_certificates(vendor_id);
+
+CREATE TRIGGER update_withholding_certificates_updated_at
+  BEFORE UPDATE ON withholding_certificates
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE withholding_certificates IS 'Bukti potong PPh issued for vendor payments';
+
+-- Issue the bukti potong of a posted payment (idempotent); numbered BP-YYYYMM-NNNN per company and month
+CREATE OR REPLACE FUNCTION issue_withholding_certificate(p_payment_id UUID, p_user_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_payment RECORD;
+  v_certificate_id UUID;
+  v_period DATE;
+  v_sequence INTEGER;
+BEGIN
+  SELECT vp.*, v.name AS vendor_name, v.tax_id AS vendor_tax_id, v.withholding_object_code
+  INTO v_payment
+  FROM vendor_payments vp
+  JOIN vendors v ON v.id = vp.vendor_id
+  WHERE vp.id = p_payment_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Vendor payment not found';
+  END IF;
+
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    PERFORM check_tenant_access(v_payment.company_id);
+  END IF;
+
+  IF v_payment.status <> 'posted' THEN
+    RAISE EXCEPTION 'Bukti potong can only be issued for posted payments';
+  END IF;
+
+  IF v_payment.withholding_amount <= 0 OR v_payment.withholding_tax_code_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT id INTO v_certificate_id
+  FROM withholding_certificates
+  WHERE payment_id = p_payment_id AND status = 'issued';
+
+  IF FOUND THEN
+    RETURN v_certificate_id;
+  END IF;
+
+  v_period := DATE_TRUNC('month', v_payment.payment_date)::DATE;
+
+  -- Serialize numbering per company and month
+  PERFORM pg_advisory_xact_lock(hashtext('withholding_certificates:' || v_payment.company_id || ':' || v_period));
+
+  SELECT COUNT(*) + 1 INTO v_sequence
+  FROM withholding_certificates
+  WHERE company_id = v_payment.company_id AND tax_period = v_period;
+
+  INSERT INTO withholding_certificates (
+    company_id, certificate_number, payment_id, vendor_id, tax_code_id,
+    withholding_date, tax_period, vendor_name, vendor_tax_id, object_code,
+    tax_base, tax_rate, withholding_amount, created_by
+  )
+  SELECT
+    v_payment.company_id,
+    'BP-' || TO_CHAR(v_period, 'YYYYMM') || '-' || LPAD(v_sequence::TEXT, 4, '0'),
+    v_payment.id, v_payment.vendor_id, v_payment.withholding_tax_code_id,
+    v_payment.payment_date, v_period, v_payment.vendor_name, v_payment.vendor_tax_id, v_payment.withholding_object_code,
+    SUM(pa.withholding_base), tc.rate, SUM(pa.withholding_amount), p_user_id
+  FROM payment_allocations pa
+  JOIN tax_codes tc ON tc.id = v_payment.withholding_tax_code_id
+  WHERE pa.payment_id = p_payment_id
+  GROUP BY tc.rate
+  RETURNING id INTO v_certificate_id;
+
+  RETURN v_certificate_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION issue_withholding_certificate IS 'Issue the bukti potong for a posted vendor payment with PPh withheld (idempotent)';
+
+-- ==================== VIEWS ====================
+
+-- Monthly withholding per tax code and object code, the basis of the SPT Masa PPh 23
+CREATE OR REPLACE VIEW withholding_monthly_summary_vw AS
+SELECT
+  wc.company_id,
+  wc.tax_period,
+  tc.code AS tax_code,
+  tc.name AS tax_code_name,
+  wc.object_code,
+  COUNT(*) AS certificate_count,
+  COUNT(DISTINCT wc.vendor_id) AS vendor_count,
+  SUM(wc.tax_base) AS total_tax_base,
+  SUM(wc.withholding_amount) AS total_withheld
+FROM withholding_certificates wc
+JOIN tax_codes tc ON tc.id = wc.tax_code_id
+WHERE wc.status = 'issued'
+GROUP BY wc.company_id, wc.tax_period, tc.code, tc.name, wc.object_code;
+
+ALTER VIEW withholding_monthly_summary_vw SET (security_invoker = true);
+
+COMMENT ON VIEW withholding_monthly_summary_vw IS 'PPh withheld per month, tax code and object code from issued bukti potong';
+
+-- ==================== ACCOUNT MAPPING ====================
+-- PPh withheld is owed to the tax office until remitted: Tax Payable - Income (2040).
+
+CREATE OR REPLACE FUNCTION seed_account_mappings(p_company_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER := 0;
+BEGIN
+  -- SECURITY CHECK
+  PERFORM check_tenant_access(p_company_id);
+
+  -- Accounts added after the COA template
+  INSERT INTO chart_of_accounts (
+    company_id, account_code, account_name, account_type,
+    account_category, normal_balance, is_header, is_system, level
+  )
+  SELECT p_company_id, a.account_code, a.account_name, a.account_type, a.account_category, a.normal_balance, false, true, 2
+  FROM (VALUES
+    ('1300', 'Prepaid Tax - VAT In (PPN Masukan)', 'ASSET', 'CURRENT_ASSET', 'DEBIT', '1000'),
+    ('2060', 'Accrued Landed Costs', 'LIABILITY', 'CURRENT_LIABILITY', 'CREDIT', '2000'),
+    ('5110', 'Purchase Price Variance', 'EXPENSE', 'COGS', 'DEBIT', '5000')
+  ) AS a(account_code, account_name, account_type, account_category, normal_balance, header_code)
+  WHERE EXISTS (SELECT 1 FROM chart_of_accounts WHERE company_id = p_company_id AND account_code = a.header_code)
+  ON CONFLICT (company_id, account_code) DO NOTHING;
+
+  INSERT INTO system_account_mappings (company_id, mapping_code, account_id, description)
+  SELECT p_company_id, m.mapping_code, coa.id, m.description
+  FROM (VALUES
+    -- Cash & Bank
+    ('DEFAULT_CASH', '1010', 'Default Cash Account for POS/Payments'),
+    ('DEFAULT_BANK', '1020', 'Default Bank Account'),
+    -- Receivables
+    ('ACCOUNTS_RECEIVABLE', '1100', 'Default AR Account'),
+    -- Inventory
+    ('INVENTORY_RAW', '1210', 'Raw Material Inventory'),
+    ('INVENTORY_RAW_MATERIALS', '1210', 'Raw Material Inventory'),
+    ('INVENTORY_WIP', '1220', 'Work in Progress Inventory'),
+    ('INVENTORY_FG', '1250', 'Finished Goods Inventory'),
+    ('INVENTORY_ADJUSTMENT', '6910', 'Inventory Variance/Adjustment Expense'),
+    ('INVENTORY_SCRAP', '6900', 'Loss or Scrap Expense'),
+    -- Payables & Tax
+    ('ACCOUNTS_PAYABLE', '2010', 'Default AP Account'),
+    ('TAX_PAYABLE', '2030', 'VAT/Tax Payable'),
+    ('VAT_INPUT', '1300', 'PPN Masukan on vendor invoices'),
+    ('VAT_OUTPUT', '2030', 'PPN Keluaran on sales and POS'),
+    ('ACCRUED_LANDED_COSTS', '2060', 'Accrued freight, duty and brokerage awaiting invoice'),
+    ('WITHHOLDING_TAX_PAYABLE', '2040', 'PPh withheld from vendor payments, awaiting remittance'),
+    -- Sales
+    ('SALES_POS', '4010', 'Sales Revenue for Retail/POS'),
+    ('SALES_WHOLESALE', '4020', 'Sales Revenue for Distributor/B2B'),
+    ('SALES_RETURNS', '4100', 'Sales Returns and Allowances'),
+    ('SALES_DISCOUNTS', '4200', 'Sales Discounts'),
+    -- COGS & Expenses
+    ('COGS_DEFAULT', '5010', 'Cost of Goods Sold'),
+    ('PURCHASE_PRICE_VARIANCE', '5110', 'Invoice price vs PO/GRN price differences'),
+    ('EXPENSE_LABOR', '6010', 'Direct Labor Expense'),
+    ('EXPENSE_OVERHEAD', '6020', 'Factory Overhead Expense'),
+    -- Marketplace
+    ('MARKETPLACE_FEES', '6100', 'Marketplace commission, service and payment fees'),
+    ('MARKETPLACE_SHIPPING', '6110', 'Shipping cost borne by seller on marketplace orders'),
+    ('CLEARING_SHOPEE', '2110', 'Shopee Wallet Clearing'),
+    ('CLEARING_TIKTOK', '2120', 'TikTok Shop Clearing'),
+    ('CLEARING_TOKOPEDIA', '2130', 'Tokopedia Clearing'),
+    ('CLEARING_LAZADA', '2140', 'Lazada Clearing')
+  ) AS m(mapping_code, account_code, description)
+  JOIN chart_of_accounts coa
+    ON coa.company_id = p_company_id AND coa.account_code = m.account_code
+  ON CONFLICT DO NOTHING;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Backfill for existing companies (bypasses the tenant check, runs as migration owner)
+INSERT INTO system_account_mappings (company_id, mapping_code, account_id, description)
+SELECT coa.company_id, 'WITHHOLDING_TAX_PAYABLE', coa.id, 'PPh withheld from vendor payments, awaiting remittance'
+FROM chart_of_accounts coa
+WHERE coa.account_code = '2040'
+ON CONFLICT DO NOTHING;
+
+-- ==================== RLS POLICIES ====================
+
+ALTER TABLE withholding_certificates ENABLE ROW LEVEL SECURITY;
+
+-- Certificates are issued through issue_withholding_certificate
+CREATE POLICY withholding_certificates_tenant_read ON withholding_certificates
+  FOR SELECT USING (company_id IN (
+    SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+  ));
+
+CREATE POLICY withholding_certificates_service ON withholding_certificates FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+ALTER FUNCTION public.validate_payment_allocation SET search_path = public;
+ALTER FUNCTION public.update_payment_withholding SET search_path = public;
+ALTER FUNCTION public.issue_withholding_certificate SET search_path = public;
+ALTER FUNCTION public.seed_account_mappings SET search_path = public;
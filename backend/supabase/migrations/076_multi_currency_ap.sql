@@ -0,0 +1,519 @@
+-- Migration: 076_multi_currency_ap.sql
+-- Description: Exchange rate table, document currency and rate on POs, vendor invoices and payments, realized FX on allocations and month-end AP revaluation
+-- Dependencies: 013_purchase_orders.sql, 015_vendor_invoices.sql, 016_vendor_payments.sql, 075_withholding_tax.sql
+-- Author: Ziyada ERP Team
+-- Date: 2026-01-18
+
+-- ==================== EXCHANGE RATES ====================
+-- Rates are base currency (companies.base_currency, IDR) per 1 unit of foreign currency.
+-- A document uses the latest rate on or before its date.
+
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE NOT NULL,
+  currency VARCHAR(3) NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+  rate_date DATE NOT NULL,
+  rate DECIMAL(18,6) NOT NULL CHECK (rate > 0),
+  source VARCHAR(50),  -- e.g. BI (Bank Indonesia JISDOR), KMK (Kurs Menteri Keuangan), bank
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(company_id, currency, rate_date)
+);
+
+CREATE INDEX idx_exchange_rates_lookup ON exchange_rates(company_id, currency, rate_date DESC);
+
+CREATE TRIGGER update_exchange_rates_updated_at
+  BEFORE UPDATE ON exchange_rates
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE exchange_rates IS 'Daily exchange rates to the company base currency';
+
+-- Rate on a date: 1 for the base currency, else the latest rate on or before the date
+CREATE OR REPLACE FUNCTION get_exchange_rate(p_company_id UUID, p_currency VARCHAR, p_date DATE)
+RETURNS DECIMAL(18,6) AS $$
+DECLARE
+  v_rate DECIMAL(18,6);
+BEGIN
+  IF p_currency = (SELECT COALESCE(base_currency, 'IDR') FROM companies WHERE id = p_company_id) THEN
+    RETURN 1;
+  END IF;
+
+  SELECT rate INTO v_rate
+  FROM exchange_rates
+  WHERE company_id = p_company_id
+    AND currency = p_currency
+    AND rate_date <= p_date
+  ORDER BY rate_date DESC
+  LIMIT 1;
+
+  IF v_rate IS NULL THEN
+    RAISE EXCEPTION 'No % exchange rate on or before %', p_currency, p_date;
+  END IF;
+
+  RETURN v_rate;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+COMMENT ON FUNCTION get_exchange_rate IS 'Base currency per unit of p_currency on p_date (latest rate on or before)';
+
+-- ==================== DOCUMENT CURRENCY ====================
+-- Document amounts stay in the document currency; exchange_rate converts them to the base currency.
+-- A document without a currency takes its source document's (PO for invoices) or the base currency,
+-- and a missing rate is looked up on the document date.
+
+ALTER TABLE purchase_orders ALTER COLUMN currency DROP DEFAULT;
+ALTER TABLE vendor_invoices ALTER COLUMN currency DROP DEFAULT;
+ALTER TABLE vendor_payments ADD COLUMN IF NOT EXISTS currency VARCHAR(3);
+
+UPDATE vendor_payments vp
+SET currency = COALESCE(c.base_currency, 'IDR')
+FROM companies c
+WHERE c.id = vp.company_id AND vp.currency IS NULL;
+
+ALTER TABLE purchase_orders ADD COLUMN IF NOT EXISTS exchange_rate DECIMAL(18,6) NOT NULL DEFAULT 1 CHECK (exchange_rate > 0);
+ALTER TABLE vendor_invoices ADD COLUMN IF NOT EXISTS exchange_rate DECIMAL(18,6) NOT NULL DEFAULT 1 CHECK (exchange_rate > 0);
+ALTER TABLE vendor_payments ADD COLUMN IF NOT EXISTS exchange_rate DECIMAL(18,6) NOT NULL DEFAULT 1 CHECK (exchange_rate > 0);
+
+-- Existing rows are base currency; new rows get their rate from apply_document_exchange_rate
+ALTER TABLE purchase_orders ALTER COLUMN exchange_rate DROP DEFAULT;
+ALTER TABLE vendor_invoices ALTER COLUMN exchange_rate DROP DEFAULT;
+ALTER TABLE vendor_payments ALTER COLUMN exchange_rate DROP DEFAULT;
+
+COMMENT ON COLUMN purchase_orders.exchange_rate IS 'Base currency per unit of currency, from exchange_rates on po_date unless given';
+COMMENT ON COLUMN vendor_invoices.exchange_rate IS 'Rate the payable is booked at; revaluation and payments measure FX against it';
+COMMENT ON COLUMN vendor_payments.exchange_rate IS 'Rate the payment is made at';
+
+-- TG_ARGV[0] is the document date column
+CREATE OR REPLACE FUNCTION apply_document_exchange_rate()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_record JSONB := to_jsonb(NEW);
+  v_date DATE := (v_record->>TG_ARGV[0])::DATE;
+  v_base VARCHAR(3);
+BEGIN
+  SELECT COALESCE(base_currency, 'IDR') INTO v_base FROM companies WHERE id = NEW.company_id;
+
+  -- Invoices default to their PO's currency
+  IF NEW.currency IS NULL AND v_record->>'po_id' IS NOT NULL THEN
+    NEW.currency := (SELECT currency FROM purchase_orders WHERE id = (v_record->>'po_id')::UUID);
+  END IF;
+  NEW.currency := COALESCE(NEW.currency, v_base);
+
+  IF NEW.currency = v_base THEN
+    NEW.exchange_rate := 1;
+  ELSIF NEW.exchange_rate IS NULL
+     OR (TG_OP = 'UPDATE'
+         AND NEW.exchange_rate IS NOT DISTINCT FROM OLD.exchange_rate
+         AND (NEW.currency IS DISTINCT FROM OLD.currency OR v_date IS DISTINCT FROM (to_jsonb(OLD)->>TG_ARGV[0])::DATE)) THEN
+    NEW.exchange_rate := get_exchange_rate(NEW.company_id, NEW.currency, v_date);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_po_exchange_rate
+  BEFORE INSERT OR UPDATE OF currency, exchange_rate, po_date ON purchase_orders
+  FOR EACH ROW EXECUTE FUNCTION apply_document_exchange_rate('po_date');
+
+CREATE TRIGGER trigger_vendor_invoice_exchange_rate
+  BEFORE INSERT OR UPDATE OF currency, exchange_rate, invoice_date ON vendor_invoices
+  FOR EACH ROW EXECUTE FUNCTION apply_document_exchange_rate('invoice_date');
+
+CREATE TRIGGER trigger_vendor_payment_exchange_rate
+  BEFORE INSERT OR UPDATE OF currency, exchange_rate, payment_date ON vendor_payments
+  FOR EACH ROW EXECUTE FUNCTION apply_document_exchange_rate('payment_date');
+
+ALTER TABLE vendor_payments ALTER COLUMN currency SET NOT NULL;
+
+-- ==================== REALIZED FX ====================
+-- An allocation settles amount_allocated (document currency) booked at the invoice rate with
+-- money paid at the payment rate. realized_fx_amount is the base currency difference:
+-- positive is a loss (more base currency paid than booked), negative a gain.
+
+ALTER TABLE payment_allocations
+  ADD COLUMN IF NOT EXISTS invoice_rate DECIMAL(18,6) NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS payment_rate DECIMAL(18,6) NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS realized_fx_amount DECIMAL(15,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE vendor_payments ADD COLUMN IF NOT EXISTS realized_fx_amount DECIMAL(15,2) NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN payment_allocations.realized_fx_amount IS 'Base currency FX loss (positive) or gain (negative) realized by this allocation';
+
+-- PPh is reported and paid in rupiah: the DPP is converted at the payment rate and the tax rounded
+-- down to whole rupiah; withholding_amount stays the payment currency share withheld from the vendor.
+ALTER TABLE payment_allocations
+  ADD COLUMN IF NOT EXISTS withholding_base_idr DECIMAL(15,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS withholding_amount_idr DECIMAL(15,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE vendor_payments ADD COLUMN IF NOT EXISTS withholding_amount_idr DECIMAL(15,2) NOT NULL DEFAULT 0;
+
+UPDATE payment_allocations
+SET withholding_base_idr = withholding_base, withholding_amount_idr = withholding_amount
+WHERE withholding_amount > 0;
+
+UPDATE vendor_payments
+SET withholding_amount_idr = withholding_amount
+WHERE withholding_amount > 0;
+
+COMMENT ON COLUMN payment_allocations.withholding_amount_idr IS 'PPh withheld in rupiah, as on the bukti potong';
+
+-- Allocations must be in the invoice currency and, net of withholding, fit in the cash paid
+CREATE OR REPLACE FUNCTION validate_payment_allocation()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_invoice_outstanding DECIMAL(15,2);
+  v_invoice_currency VARCHAR(3);
+  v_total_allocated DECIMAL(15,2);
+  v_payment RECORD;
+BEGIN
+  -- Check invoice outstanding
+  SELECT amount_outstanding, currency INTO v_invoice_outstanding, v_invoice_currency
+  FROM vendor_invoices
+  WHERE id = NEW.invoice_id;
+
+  SELECT total_amount, currency INTO v_payment
+  FROM vendor_payments
+  WHERE id = NEW.payment_id;
+
+  IF v_invoice_currency IS DISTINCT FROM v_payment.currency THEN
+    RAISE EXCEPTION 'Payment currency (%) differs from invoice currency (%)', v_payment.currency, v_invoice_currency;
+  END IF;
+
+  -- Get total already allocated to this invoice
+  SELECT COALESCE(SUM(amount_allocated), 0) INTO v_total_allocated
+  FROM payment_allocations
+  WHERE invoice_id = NEW.invoice_id
+    AND id != COALESCE(NEW.id, '00000000-0000-0000-0000-000000000000'::uuid);
+
+  -- Check if new allocation exceeds outstanding
+  IF v_total_allocated + NEW.amount_allocated > v_invoice_outstanding THEN
+    RAISE EXCEPTION 'Allocation (%) exceeds invoice outstanding (%)',
+      NEW.amount_allocated, v_invoice_outstanding - v_total_allocated;
+  END IF;
+
+  -- Check if cash allocated (after withholding) exceeds payment amount
+  SELECT COALESCE(SUM(amount_allocated - withholding_amount), 0) INTO v_total_allocated
+  FROM payment_allocations
+  WHERE payment_id = NEW.payment_id
+    AND id != COALESCE(NEW.id, '00000000-0000-0000-0000-000000000000'::uuid);
+
+  IF v_total_allocated + NEW.amount_allocated - NEW.withholding_amount > v_payment.total_amount THEN
+    RAISE EXCEPTION 'Total allocations net of withholding (%) exceed payment amount (%)',
+      v_total_allocated + NEW.amount_allocated - NEW.withholding_amount, v_payment.total_amount;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Roll allocation withholding and realized FX up to the payment
+CREATE OR REPLACE FUNCTION update_payment_withholding()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_payment_id UUID := COALESCE(NEW.payment_id, OLD.payment_id);
+BEGIN
+  UPDATE vendor_payments vp
+  SET
+    withholding_amount = totals.withholding_amount,
+    withholding_amount_idr = totals.withholding_amount_idr,
+    realized_fx_amount = totals.realized_fx_amount
+  FROM (
+    SELECT
+      COALESCE(SUM(withholding_amount), 0) AS withholding_amount,
+      COALESCE(SUM(withholding_amount_idr), 0) AS withholding_amount_idr,
+      COALESCE(SUM(realized_fx_amount), 0) AS realized_fx_amount
+    FROM payment_allocations
+    WHERE payment_id = v_payment_id
+  ) totals
+  WHERE vp.id = v_payment_id;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_payment_withholding ON payment_allocations;
+CREATE TRIGGER trigger_update_payment_withholding
+  AFTER INSERT OR UPDATE OF amount_allocated, withholding_amount, withholding_amount_idr, realized_fx_amount OR DELETE ON payment_allocations
+  FOR EACH ROW EXECUTE FUNCTION update_payment_withholding();
+
+-- Bukti potong amounts in rupiah, also for foreign currency payments
+CREATE OR REPLACE FUNCTION issue_withholding_certificate(p_payment_id UUID, p_user_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_payment RECORD;
+  v_certificate_id UUID;
+  v_period DATE;
+  v_sequence INTEGER;
+BEGIN
+  SELECT vp.*, v.name AS vendor_name, v.tax_id AS vendor_tax_id, v.withholding_object_code
+  INTO v_payment
+  FROM vendor_payments vp
+  JOIN vendors v ON v.id = vp.vendor_id
+  WHERE vp.id = p_payment_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Vendor payment not found';
+  END IF;
+
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    PERFORM check_tenant_access(v_payment.company_id);
+  END IF;
+
+  IF v_payment.status <> 'posted' THEN
+    RAISE EXCEPTION 'Bukti potong can only be issued for posted payments';
+  END IF;
+
+  IF v_payment.withholding_amount_idr <= 0 OR v_payment.withholding_tax_code_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT id INTO v_certificate_id
+  FROM withholding_certificates
+  WHERE payment_id = p_payment_id AND status = 'issued';
+
+  IF FOUND THEN
+    RETURN v_certificate_id;
+  END IF;
+
+  v_period := DATE_TRUNC('month', v_payment.payment_date)::DATE;
+
+  -- Serialize numbering per company and month
+  PERFORM pg_advisory_xact_lock(hashtext('withholding_certificates:' || v_payment.company_id || ':' || v_period));
+
+  SELECT COUNT(*) + 1 INTO v_sequence
+  FROM withholding_certificates
+  WHERE company_id = v_payment.company_id AND tax_period = v_period;
+
+  INSERT INTO withholding_certificates (
+    company_id, certificate_number, payment_id, vendor_id, tax_code_id,
+    withholding_date, tax_period, vendor_name, vendor_tax_id, object_code,
+    tax_base, tax_rate, withholding_amount, created_by
+  )
+  SELECT
+    v_payment.company_id,
+    'BP-' || TO_CHAR(v_period, 'YYYYMM') || '-' || LPAD(v_sequence::TEXT, 4, '0'),
+    v_payment.id, v_payment.vendor_id, v_payment.withholding_tax_code_id,
+    v_payment.payment_date, v_period, v_payment.vendor_name, v_payment.vendor_tax_id, v_payment.withholding_object_code,
+    SUM(pa.withholding_base_idr), tc.rate, SUM(pa.withholding_amount_idr), p_user_id
+  FROM payment_allocations pa
+  JOIN tax_codes tc ON tc.id = v_payment.withholding_tax_code_id
+  WHERE pa.payment_id = p_payment_id
+  GROUP BY tc.rate
+  RETURNING id INTO v_certificate_id;
+
+  RETURN v_certificate_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON COLUMN withholding_certificates.tax_base IS 'DPP in rupiah, converted at the payment rate';
+COMMENT ON COLUMN withholding_certificates.withholding_amount IS 'PPh withheld in rupiah';
+
+-- ==================== UNREALIZED REVALUATION ====================
+-- Month-end run: open foreign currency payables are restated at the period-end rate and the
+-- difference is reversed on the first day of the next period, so realized FX on later payments
+-- is always measured against the invoice rate.
+
+CREATE TABLE IF NOT EXISTS fx_revaluations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE NOT NULL,
+  period_id UUID REFERENCES accounting_periods(id) NOT NULL,
+  revaluation_date DATE NOT NULL,
+  reversal_period_id UUID REFERENCES accounting_periods(id) NOT NULL,
+  reversal_date DATE NOT NULL,
+
+  total_adjustment DECIMAL(15,2) NOT NULL DEFAULT 0,  -- Positive: loss (payables increased)
+  journal_id UUID REFERENCES journals(id),
+  reversal_journal_id UUID REFERENCES journals(id),
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+
+  UNIQUE(company_id, period_id)
+);
+
+CREATE TABLE IF NOT EXISTS fx_revaluation_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  revaluation_id UUID REFERENCES fx_revaluations(id) ON DELETE CASCADE NOT NULL,
+  invoice_id UUID REFERENCES vendor_invoices(id) NOT NULL,
+  currency VARCHAR(3) NOT NULL,
+
+  open_amount DECIMAL(15,2) NOT NULL,  -- Document currency
+  booked_rate DECIMAL(18,6) NOT NULL,
+  revaluation_rate DECIMAL(18,6) NOT NULL,
+  booked_base_amount DECIMAL(15,2) NOT NULL,
+  revalued_base_amount DECIMAL(15,2) NOT NULL,
+  adjustment DECIMAL(15,2) NOT NULL
+);
+
+CREATE INDEX idx_fx_revaluation_lines_revaluation ON fx_revaluation_lines(revaluation_id);
+
+-- Foreign currency payables as they stood on a date: invoices dated up to then, less what posted
+-- payments dated up to then settled. Later payments do not shrink the balance being revalued.
+CREATE OR REPLACE FUNCTION open_foreign_payables_at(p_company_id UUID, p_date DATE)
+RETURNS TABLE (invoice_id UUID, currency VARCHAR, exchange_rate DECIMAL, open_amount DECIMAL) AS $$
+  SELECT t.id, t.currency, t.exchange_rate, t.open_amount
+  FROM (
+    SELECT
+      vi.id,
+      vi.currency,
+      vi.exchange_rate,
+      vi.subtotal + vi.tax_amount - COALESCE((
+        SELECT SUM(pa.amount_allocated)
+        FROM payment_allocations pa
+        JOIN vendor_payments vp ON vp.id = pa.payment_id
+        WHERE pa.invoice_id = vi.id
+          AND vp.status = 'posted'
+          AND vp.payment_date <= p_date
+      ), 0) AS open_amount
+    FROM vendor_invoices vi
+    JOIN companies c ON c.id = vi.company_id
+    WHERE vi.company_id = p_company_id
+      AND vi.status IN ('posted', 'partial_paid', 'paid')
+      AND vi.invoice_date <= p_date
+      AND vi.currency <> COALESCE(c.base_currency, 'IDR')
+  ) t
+  WHERE t.open_amount > 0;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION open_foreign_payables_at IS 'Open foreign currency vendor invoice balances (document currency) as at a date';
+
+COMMENT ON TABLE fx_revaluations IS 'Month-end unrealized FX revaluation of open foreign currency payables, reversed in the next period';
+
+-- ==================== ACCOUNT MAPPING ====================
+
+INSERT INTO chart_of_accounts (
+  company_id, account_code, account_name, account_type,
+  account_category, normal_balance, is_header, is_system, level
+)
+SELECT DISTINCT company_id, a.account_code, a.account_name, 'EXPENSE', 'OTHER_EXPENSE', 'DEBIT', false, true, 2
+FROM chart_of_accounts
+CROSS JOIN (VALUES
+  ('6940', 'Realized Foreign Exchange Gain/Loss'),
+  ('6950', 'Unrealized Foreign Exchange Gain/Loss')
+) AS a(account_code, account_name)
+WHERE chart_of_accounts.account_code = '6000'
+ON CONFLICT (company_id, account_code) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION seed_account_mappings(p_company_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER := 0;
+BEGIN
+  -- SECURITY CHECK
+  PERFORM check_tenant_access(p_company_id);
+
+  -- Accounts added after the COA template
+  INSERT INTO chart_of_accounts (
+    company_id, account_code, account_name, account_type,
+    account_category, normal_balance, is_header, is_system, level
+  )
+  SELECT p_company_id, a.account_code, a.account_name, a.account_type, a.account_category, a.normal_balance, false, true, 2
+  FROM (VALUES
+    ('1300', 'Prepaid Tax - VAT In (PPN Masukan)', 'ASSET', 'CURRENT_ASSET', 'DEBIT', '1000'),
+    ('2060', 'Accrued Landed Costs', 'LIABILITY', 'CURRENT_LIABILITY', 'CREDIT', '2000'),
+    ('5110', 'Purchase Price Variance', 'EXPENSE', 'COGS', 'DEBIT', '5000'),
+    ('6940', 'Realized Foreign Exchange Gain/Loss', 'EXPENSE', 'OTHER_EXPENSE', 'DEBIT', '6000'),
+    ('6950', 'Unrealized Foreign Exchange Gain/Loss', 'EXPENSE', 'OTHER_EXPENSE', 'DEBIT', '6000')
+  ) AS a(account_code, account_name, account_type, account_category, normal_balance, header_code)
+  WHERE EXISTS (SELECT 1 FROM chart_of_accounts WHERE company_id = p_company_id AND account_code = a.header_code)
+  ON CONFLICT (company_id, account_code) DO NOTHING;
+
+  INSERT INTO system_account_mappings (company_id, mapping_code, account_id, description)
+  SELECT p_company_id, m.mapping_code, coa.id, m.description
+  FROM (VALUES
+    -- Cash & Bank
+    ('DEFAULT_CASH', '1010', 'Default Cash Account for POS/Payments'),
+    ('DEFAULT_BANK', '1020', 'Default Bank Account'),
+    -- Receivables
+    ('ACCOUNTS_RECEIVABLE', '1100', 'Default AR Account'),
+    -- Inventory
+    ('INVENTORY_RAW', '1210', 'Raw Material Inventory'),
+    ('INVENTORY_RAW_MATERIALS', '1210', 'Raw Material Inventory'),
+    ('INVENTORY_WIP', '1220', 'Work in Progress Inventory'),
+    ('INVENTORY_FG', '1250', 'Finished Goods Inventory'),
+    ('INVENTORY_ADJUSTMENT', '6910', 'Inventory Variance/Adjustment Expense'),
+    ('INVENTORY_SCRAP', '6900', 'Loss or Scrap Expense'),
+    ('FX_REALIZED', '6940', 'Exchange differences settled on foreign currency payments'),
+    ('FX_UNREALIZED', '6950', 'Month-end revaluation of open foreign currency payables'),
+    -- Payables & Tax
+    ('ACCOUNTS_PAYABLE', '2010', 'Default AP Account'),
+    ('TAX_PAYABLE', '2030', 'VAT/Tax Payable'),
+    ('VAT_INPUT', '1300', 'PPN Masukan on vendor invoices'),
+    ('VAT_OUTPUT', '2030', 'PPN Keluaran on sales and POS'),
+    ('ACCRUED_LANDED_COSTS', '2060', 'Accrued freight, duty and brokerage awaiting invoice'),
+    ('WITHHOLDING_TAX_PAYABLE', '2040', 'PPh withheld from vendor payments, awaiting remittance'),
+    -- Sales
+    ('SALES_POS', '4010', 'Sales Revenue for Retail/POS'),
+    ('SALES_WHOLESALE', '4020', 'Sales Revenue for Distributor/B2B'),
+    ('SALES_RETURNS', '4100', 'Sales Returns and Allowances'),
+    ('SALES_DISCOUNTS', '4200', 'Sales Discounts'),
+    -- COGS & Expenses
+    ('COGS_DEFAULT', '5010', 'Cost of Goods Sold'),
+    ('PURCHASE_PRICE_VARIANCE', '5110', 'Invoice price vs PO/GRN price differences'),
+    ('EXPENSE_LABOR', '6010', 'Direct Labor Expense'),
+    ('EXPENSE_OVERHEAD', '6020', 'Factory Overhead Expense'),
+    -- Marketplace
+    ('MARKETPLACE_FEES', '6100', 'Marketplace commission, service and payment fees'),
+    ('MARKETPLACE_SHIPPING', '6110', 'Shipping cost borne by seller on marketplace orders'),
+    ('CLEARING_SHOPEE', '2110', 'Shopee Wallet Clearing'),
+    ('CLEARING_TIKTOK', '2120', 'TikTok Shop Clearing'),
+    ('CLEARING_TOKOPEDIA', '2130', 'Tokopedia Clearing'),
+    ('CLEARING_LAZADA', '2140', 'Lazada Clearing')
+  ) AS m(mapping_code, account_code, description)
+  JOIN chart_of_accounts coa
+    ON coa.company_id = p_company_id AND coa.account_code = m.account_code
+  ON CONFLICT DO NOTHING;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Backfill for existing companies (bypasses the tenant check, runs as migration owner)
+INSERT INTO system_account_mappings (company_id, mapping_code, account_id, description)
+SELECT coa.company_id, m.mapping_code, coa.id, m.description
+FROM (VALUES
+  ('FX_REALIZED', '6940', 'Exchange differences settled on foreign currency payments'),
+  ('FX_UNREALIZED', '6950', 'Month-end revaluation of open foreign currency payables')
+) AS m(mapping_code, account_code, description)
+JOIN chart_of_accounts coa ON coa.account_code = m.account_code
+ON CONFLICT DO NOTHING;
+
+-- ==================== RLS POLICIES ====================
+
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE fx_revaluations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE fx_revaluation_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY exchange_rates_tenant_isolation ON exchange_rates
+  FOR ALL USING (company_id IN (
+    SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+  ));
+
+CREATE POLICY fx_revaluations_tenant_read ON fx_revaluations
+  FOR SELECT USING (company_id IN (
+    SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+  ));
+
+CREATE POLICY fx_revaluation_lines_tenant_read ON fx_revaluation_lines
+  FOR SELECT USING (revaluation_id IN (
+    SELECT id FROM fx_revaluations WHERE company_id IN (
+      SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+    )
+  ));
+
+CREATE POLICY exchange_rates_service ON exchange_rates FOR ALL TO service_role USING (true) WITH CHECK (true);
+CREATE POLICY fx_revaluations_service ON fx_revaluations FOR ALL TO service_role USING (true) WITH CHECK (true);
+CREATE POLICY fx_revaluation_lines_service ON fx_revaluation_lines FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+ALTER FUNCTION public.get_exchange_rate SET search_path = public;
+ALTER FUNCTION public.apply_document_exchange_rate SET search_path = public;
+ALTER FUNCTION public.validate_payment_allocation SET search_path = public;
+ALTER FUNCTION public.update_payment_withholding SET search_path = public;
+ALTER FUNCTION public.issue_withholding_certificate SET search_path = public;
+ALTER FUNCTION public.open_foreign_payables_at SET search_path = public;
+ALTER FUNCTION public.seed_account_mappings SET search_path = public;
@@ -0,0 +1,406 @@
+-- Migration: 077_purchase_requisitions.sql
+-- Description: Purchase requisitions with an amount/role based approval chain and traceability to the POs they are consolidated into
+-- Dependencies: 001_foundation_companies.sql, 013_purchase_orders.sql, 051_fix_security_functions.sql
+-- Author: Ziyada ERP Team
+-- Date: 2026-01-19
+
+-- ==================== REQUISITIONS ====================
+
+CREATE TABLE IF NOT EXISTS purchase_requisitions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE NOT NULL,
+  requisition_number VARCHAR(50) NOT NULL,
+  requisition_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  requested_by UUID REFERENCES auth.users(id) NOT NULL,
+  warehouse_id UUID REFERENCES warehouses(id),  -- Where the materials are needed
+  need_by_date DATE,                            -- Default for the lines
+
+  status VARCHAR(20) NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'submitted', 'approved', 'rejected', 'converted', 'cancelled')),
+  estimated_total DECIMAL(15,2) NOT NULL DEFAULT 0,  -- Maintained from the lines
+  notes TEXT,
+
+  submitted_at TIMESTAMPTZ,
+  approved_at TIMESTAMPTZ,
+  rejected_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(company_id, requisition_number)
+);
+
+CREATE INDEX idx_requisitions_company_status ON purchase_requisitions(company_id, status);
+CREATE INDEX idx_requisitions_requester ON purchase_requisitions(requested_by);
+
+CREATE TRIGGER update_purchase_requisitions_updated_at
+  BEFORE UPDATE ON purchase_requisitions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE purchase_requisitions IS 'Internal requests for materials, approved by amount and role before purchasing';
+
+CREATE TABLE IF NOT EXISTS purchase_requisition_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  requisition_id UUID REFERENCES purchase_requisitions(id) ON DELETE CASCADE NOT NULL,
+  line_number INTEGER NOT NULL,
+
+  material_id UUID REFERENCES materials(id),
+  product_variant_id UUID REFERENCES product_variants(id),  -- Bought-in finished goods
+  description TEXT,
+
+  qty_requested DECIMAL(15,4) NOT NULL CHECK (qty_requested > 0),
+  need_by_date DATE,
+  estimated_unit_price DECIMAL(15,2),  -- Defaults to the material standard cost / variant unit cost
+  estimated_total DECIMAL(15,2) GENERATED ALWAYS AS (qty_requested * COALESCE(estimated_unit_price, 0)) STORED,
+  vendor_id UUID REFERENCES vendors(id),  -- Suggested vendor; defaults to the last PO vendor on conversion
+
+  -- Traceability to the consolidated PO
+  po_id UUID REFERENCES purchase_orders(id) ON DELETE SET NULL,
+  po_line_id UUID REFERENCES purchase_order_lines(id) ON DELETE SET NULL,
+
+  notes TEXT,
+
+  UNIQUE(requisition_id, line_number),
+  CONSTRAINT check_requisition_line_item CHECK ((material_id IS NULL) <> (product_variant_id IS NULL))
+);
+
+CREATE INDEX idx_requisition_lines_requisition ON purchase_requisition_lines(requisition_id);
+CREATE INDEX idx_requisition_lines_po_line ON purchase_requisition_lines(po_line_id) WHERE po_line_id IS NOT NULL;
+
+COMMENT ON TABLE purchase_requisition_lines IS 'Materials or variants requested, with the PO line they were consolidated into';
+
+-- Estimated price defaults from the item cost
+CREATE OR REPLACE FUNCTION default_requisition_line_price()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.estimated_unit_price IS NULL THEN
+    IF NEW.material_id IS NOT NULL THEN
+      SELECT standard_cost INTO NEW.estimated_unit_price FROM materials WHERE id = NEW.material_id;
+    ELSE
+      SELECT unit_cost INTO NEW.estimated_unit_price FROM product_variants WHERE id = NEW.product_variant_id;
+    END IF;
+  END IF;
+
+  IF NEW.need_by_date IS NULL THEN
+    SELECT need_by_date INTO NEW.need_by_date FROM purchase_requisitions WHERE id = NEW.requisition_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_default_requisition_line_price
+  BEFORE INSERT OR UPDATE OF material_id, product_variant_id, estimated_unit_price ON purchase_requisition_lines
+  FOR EACH ROW EXECUTE FUNCTION default_requisition_line_price();
+
+-- Lines can only change while the requisition is a draft; only conversion links them to POs afterwards
+CREATE OR REPLACE FUNCTION validate_requisition_line_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_status VARCHAR(20);
+BEGIN
+  SELECT status INTO v_status
+  FROM purchase_requisitions
+  WHERE id = COALESCE(NEW.requisition_id, OLD.requisition_id);
+
+  IF TG_OP = 'UPDATE' AND v_status IN ('approved', 'converted')
+     AND (NEW.qty_requested, NEW.material_id, NEW.product_variant_id, NEW.estimated_unit_price)
+         IS NOT DISTINCT FROM (OLD.qty_requested, OLD.material_id, OLD.product_variant_id, OLD.estimated_unit_price) THEN
+    RETURN NEW;  -- Vendor assignment and PO links
+  END IF;
+
+  IF v_status <> 'draft' THEN
+    RAISE EXCEPTION 'Requisition lines cannot be changed once the requisition is %', v_status;
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_validate_requisition_line_change
+  BEFORE INSERT OR UPDATE OR DELETE ON purchase_requisition_lines
+  FOR EACH ROW EXECUTE FUNCTION validate_requisition_line_change();
+
+CREATE OR REPLACE FUNCTION update_requisition_total()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE purchase_requisitions SET estimated_total = (
+    SELECT COALESCE(SUM(estimated_total), 0)
+    FROM purchase_requisition_lines
+    WHERE requisition_id = COALESCE(NEW.requisition_id, OLD.requisition_id)
+  )
+  WHERE id = COALESCE(NEW.requisition_id, OLD.requisition_id);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_requisition_total
+  AFTER INSERT OR UPDATE OF qty_requested, estimated_unit_price OR DELETE ON purchase_requisition_lines
+  FOR EACH ROW EXECUTE FUNCTION update_requisition_total();
+
+-- ==================== APPROVAL CHAIN ====================
+
+-- A requisition needs every level whose min_amount it reaches, lowest level first.
+-- Example: level 1 manager from 0, level 2 admin from 10,000,000, level 3 owner from 50,000,000.
+CREATE TABLE IF NOT EXISTS purchase_requisition_approval_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE NOT NULL,
+  approval_level INTEGER NOT NULL CHECK (approval_level > 0),
+  min_amount DECIMAL(15,2) NOT NULL DEFAULT 0 CHECK (min_amount >= 0),
+  approver_role VARCHAR(50) NOT NULL,  -- user_company_mapping.role
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(company_id, approval_level)
+);
+
+COMMENT ON TABLE purchase_requisition_approval_rules IS 'Requisition approval levels by estimated amount and approver role';
+
+CREATE TABLE IF NOT EXISTS purchase_requisition_approvals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  requisition_id UUID REFERENCES purchase_requisitions(id) ON DELETE CASCADE NOT NULL,
+  approval_level INTEGER NOT NULL,
+  approver_role VARCHAR(50) NOT NULL,
+  action VARCHAR(20) NOT NULL CHECK (action IN ('approved', 'rejected')),
+  acted_by UUID REFERENCES auth.users(id) NOT NULL,
+  acted_at TIMESTAMPTZ DEFAULT NOW(),
+  notes TEXT,
+
+  UNIQUE(requisition_id, approval_level)
+);
+
+CREATE INDEX idx_requisition_approvals_requisition ON purchase_requisition_approvals(requisition_id);
+
+COMMENT ON TABLE purchase_requisition_approvals IS 'Approval history of a requisition, one row per level acted on';
+
+-- Next level awaiting approval: the lowest required level not yet approved (NULL when fully approved)
+CREATE OR REPLACE FUNCTION get_next_requisition_approval_level(p_requisition_id UUID)
+RETURNS TABLE (approval_level INTEGER, approver_role VARCHAR)
+LANGUAGE sql STABLE
+AS $$
+  SELECT r.approval_level, r.approver_role
+  FROM purchase_requisitions pr
+  JOIN purchase_requisition_approval_rules r
+    ON r.company_id = pr.company_id AND r.min_amount <= pr.estimated_total
+  WHERE pr.id = p_requisition_id
+    AND NOT EXISTS (
+      SELECT 1 FROM purchase_requisition_approvals a
+      WHERE a.requisition_id = pr.id AND a.approval_level = r.approval_level AND a.action = 'approved'
+    )
+  ORDER BY r.approval_level
+  LIMIT 1;
+$$;
+
+-- Acting user of a requisition RPC: the signed-in user; p_user_id is only trusted from the
+-- backend service (service_role), never from the browser
+CREATE OR REPLACE FUNCTION requisition_acting_user(p_user_id UUID)
+RETURNS UUID
+LANGUAGE sql STABLE
+AS $$
+  SELECT CASE
+    WHEN auth.uid() IS NOT NULL THEN auth.uid()
+    WHEN auth.role() = 'service_role' THEN p_user_id
+  END;
+$$;
+
+-- Submits a draft; requisitions below every approval threshold are approved straight away.
+-- Only the requester, the creator or an owner may submit.
+CREATE OR REPLACE FUNCTION submit_purchase_requisition(p_requisition_id UUID, p_user_id UUID DEFAULT NULL)
+RETURNS VARCHAR
+LANGUAGE plpgsql SECURITY DEFINER
+AS $$
+DECLARE
+  v_requisition RECORD;
+  v_user_id UUID := requisition_acting_user(p_user_id);
+  v_status VARCHAR(20);
+BEGIN
+  SELECT * INTO v_requisition FROM purchase_requisitions WHERE id = p_requisition_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Requisition % not found', p_requisition_id;
+  END IF;
+
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    PERFORM check_tenant_access(v_requisition.company_id);
+  END IF;
+
+  IF v_requisition.status <> 'draft' THEN
+    RAISE EXCEPTION 'Requisition % is already %', v_requisition.requisition_number, v_requisition.status;
+  END IF;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Submitting a requisition needs a signed-in user';
+  END IF;
+
+  IF v_user_id IS DISTINCT FROM v_requisition.requested_by
+    AND v_user_id IS DISTINCT FROM v_requisition.created_by
+    AND NOT EXISTS (
+      SELECT 1 FROM user_company_mapping
+      WHERE user_id = v_user_id AND company_id = v_requisition.company_id AND is_active = true AND role = 'owner'
+    ) THEN
+    RAISE EXCEPTION 'Only the requester can submit requisition %', v_requisition.requisition_number;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM purchase_requisition_lines WHERE requisition_id = p_requisition_id) THEN
+    RAISE EXCEPTION 'Requisition % has no lines', v_requisition.requisition_number;
+  END IF;
+
+  v_status := CASE
+    WHEN EXISTS (SELECT 1 FROM get_next_requisition_approval_level(p_requisition_id)) THEN 'submitted'
+    ELSE 'approved'
+  END;
+
+  UPDATE purchase_requisitions SET
+    status = v_status,
+    submitted_at = NOW(),
+    approved_at = CASE WHEN v_status = 'approved' THEN NOW() END
+  WHERE id = p_requisition_id;
+
+  RETURN v_status;
+END;
+$$;
+
+-- Approves or rejects the next level. The approver needs the level's role (owners may act on any level)
+-- and cannot be the requester; see requisition_acting_user. Returns the requisition status afterwards.
+CREATE OR REPLACE FUNCTION act_on_purchase_requisition(
+  p_requisition_id UUID,
+  p_action VARCHAR,
+  p_notes TEXT DEFAULT NULL,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS VARCHAR
+LANGUAGE plpgsql SECURITY DEFINER
+AS $$
+DECLARE
+  v_requisition RECORD;
+  v_level RECORD;
+  v_user_id UUID := requisition_acting_user(p_user_id);
+  v_user_role VARCHAR(50);
+  v_status VARCHAR(20);
+BEGIN
+  SELECT * INTO v_requisition FROM purchase_requisitions WHERE id = p_requisition_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Requisition % not found', p_requisition_id;
+  END IF;
+
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    PERFORM check_tenant_access(v_requisition.company_id);
+  END IF;
+
+  IF p_action NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Invalid approval action %', p_action;
+  END IF;
+
+  IF v_requisition.status <> 'submitted' THEN
+    RAISE EXCEPTION 'Requisition % is %, not awaiting approval', v_requisition.requisition_number, v_requisition.status;
+  END IF;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Approving a requisition needs a signed-in user';
+  END IF;
+
+  IF v_user_id = v_requisition.requested_by THEN
+    RAISE EXCEPTION 'Requesters cannot approve their own requisition';
+  END IF;
+
+  SELECT * INTO v_level FROM get_next_requisition_approval_level(p_requisition_id);
+
+  SELECT role INTO v_user_role
+  FROM user_company_mapping
+  WHERE user_id = v_user_id AND company_id = v_requisition.company_id AND is_active = true;
+
+  IF v_user_role IS NULL OR (v_user_role <> v_level.approver_role AND v_user_role <> 'owner') THEN
+    RAISE EXCEPTION 'Level % of requisition % needs a % to approve', v_level.approval_level,
+      v_requisition.requisition_number, v_level.approver_role;
+  END IF;
+
+  INSERT INTO purchase_requisition_approvals (requisition_id, approval_level, approver_role, action, acted_by, notes)
+  VALUES (p_requisition_id, v_level.approval_level, v_level.approver_role, p_action, v_user_id, p_notes);
+
+  v_status := CASE
+    WHEN p_action = 'rejected' THEN 'rejected'
+    WHEN EXISTS (SELECT 1 FROM get_next_requisition_approval_level(p_requisition_id)) THEN 'submitted'
+    ELSE 'approved'
+  END;
+
+  UPDATE purchase_requisitions SET
+    status = v_status,
+    approved_at = CASE WHEN v_status = 'approved' THEN NOW() END,
+    rejected_at = CASE WHEN v_status = 'rejected' THEN NOW() END
+  WHERE id = p_requisition_id;
+
+  RETURN v_status;
+END;
+$$;
+
+COMMENT ON FUNCTION submit_purchase_requisition IS 'Submits a draft requisition into its approval chain';
+COMMENT ON FUNCTION act_on_purchase_requisition IS 'Approves or rejects the next approval level of a submitted requisition';
+
+-- Submitted requisitions with the level and role they are waiting on
+CREATE OR REPLACE VIEW purchase_requisition_approval_queue_vw AS
+SELECT
+  pr.id AS requisition_id,
+  pr.company_id,
+  pr.requisition_number,
+  pr.requisition_date,
+  pr.requested_by,
+  pr.need_by_date,
+  pr.estimated_total,
+  pr.submitted_at,
+  next_level.approval_level,
+  next_level.approver_role
+FROM purchase_requisitions pr
+CROSS JOIN LATERAL get_next_requisition_approval_level(pr.id) next_level
+WHERE pr.status = 'submitted';
+
+ALTER VIEW purchase_requisition_approval_queue_vw SET (security_invoker = true);
+
+COMMENT ON VIEW purchase_requisition_approval_queue_vw IS 'Requisitions awaiting approval and the role of the next approver';
+
+-- ==================== RLS POLICIES ====================
+
+ALTER TABLE purchase_requisitions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_requisition_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_requisition_approval_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_requisition_approvals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY purchase_requisitions_tenant_isolation ON purchase_requisitions
+  FOR ALL USING (company_id IN (
+    SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+  ));
+
+CREATE POLICY purchase_requisition_lines_tenant_isolation ON purchase_requisition_lines
+  FOR ALL USING (requisition_id IN (
+    SELECT id FROM purchase_requisitions WHERE company_id IN (
+      SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+    )
+  ));
+
+CREATE POLICY purchase_requisition_approval_rules_tenant_isolation ON purchase_requisition_approval_rules
+  FOR ALL USING (company_id IN (
+    SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+  ));
+
+-- Approvals are recorded through act_on_purchase_requisition
+CREATE POLICY purchase_requisition_approvals_tenant_read ON purchase_requisition_approvals
+  FOR SELECT USING (requisition_id IN (
+    SELECT id FROM purchase_requisitions WHERE company_id IN (
+      SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+    )
+  ));
+
+CREATE POLICY purchase_requisitions_service ON purchase_requisitions FOR ALL TO service_role USING (true) WITH CHECK (true);
+CREATE POLICY purchase_requisition_lines_service ON purchase_requisition_lines FOR ALL TO service_role USING (true) WITH CHECK (true);
+CREATE POLICY purchase_requisition_approval_rules_service ON purchase_requisition_approval_rules FOR ALL TO service_role USING (true) WITH CHECK (true);
+CREATE POLICY purchase_requisition_approvals_service ON purchase_requisition_approvals FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+ALTER FUNCTION public.default_requisition_line_price SET search_path = public;
+ALTER FUNCTION public.validate_requisition_line_change SET search_path = public;
+ALTER FUNCTION public.update_requisition_total SET search_path = public;
+ALTER FUNCTION public.get_next_requisition_approval_level SET search_path = public;
+ALTER FUNCTION public.requisition_acting_user SET search_path = public;
+ALTER FUNCTION public.submit_purchase_requisition SET search_path = public;
+ALTER FUNCTION public.act_on_purchase_requisition SET search_path = public;
@@ -0,0 +1,175 @@
+-- Migration: 078_replenishment_runs.sql
+-- Description: Material replenishment position (on hand, open POs, production reservations), replenishment runs with buyer-approved suggestions, material-based last purchase price
+-- Dependencies: 007_master_data_materials.sql, 009_inventory_raw_material.sql, 013_purchase_orders.sql, 018_manufacturing_production_orders.sql, 061_purchasing_automation.sql
+-- Author: Ziyada ERP Team
+-- Date: 2026-01-20
+
+-- ==================== MATERIAL REORDER SETTINGS ====================
+
+ALTER TABLE materials
+ADD COLUMN IF NOT EXISTS reorder_qty DECIMAL(15,2) NOT NULL DEFAULT 0 CHECK (reorder_qty >= 0),
+ADD COLUMN IF NOT EXISTS preferred_vendor_id UUID REFERENCES vendors(id);
+
+CREATE INDEX IF NOT EXISTS idx_materials_preferred_vendor ON materials(preferred_vendor_id);
+
+COMMENT ON COLUMN materials.reorder_qty IS 'Minimum quantity to order when the projected stock falls below reorder_level';
+COMMENT ON COLUMN materials.preferred_vendor_id IS 'Vendor replenishment orders from; defaults to the vendor last ordered from';
+
+-- ==================== REPLENISHMENT POSITION ====================
+
+-- Per material and warehouse: projected = on hand + open PO quantity - outstanding production reservations.
+-- Open POs include drafts so suggestions already converted are not ordered twice.
+CREATE OR REPLACE VIEW material_replenishment_position_vw AS
+SELECT
+  m.company_id,
+  m.id AS material_id,
+  w.id AS warehouse_id,
+  m.code AS material_code,
+  m.name AS material_name,
+  m.unit_of_measure,
+  m.reorder_level,
+  m.reorder_qty,
+  m.preferred_vendor_id,
+  m.standard_cost,
+  COALESCE(stock.on_hand_qty, 0) AS on_hand_qty,
+  COALESCE(orders.open_po_qty, 0) AS open_po_qty,
+  COALESCE(reservations.reserved_qty, 0) AS reserved_qty,
+  COALESCE(stock.on_hand_qty, 0) + COALESCE(orders.open_po_qty, 0) - COALESCE(reservations.reserved_qty, 0) AS projected_qty
+FROM materials m
+JOIN warehouses w ON w.company_id = m.company_id AND w.is_active = true
+LEFT JOIN (
+  SELECT material_id, warehouse_id, SUM(current_qty) AS on_hand_qty
+  FROM raw_material_balance_mv
+  GROUP BY material_id, warehouse_id
+) stock ON stock.material_id = m.id AND stock.warehouse_id = w.id
+LEFT JOIN (
+  SELECT pol.material_id, po.warehouse_id, SUM(pol.qty_ordered - pol.qty_received) AS open_po_qty
+  FROM purchase_order_lines pol
+  JOIN purchase_orders po ON po.id = pol.po_id
+  WHERE po.status IN ('draft', 'submitted', 'approved', 'partial')
+  GROUP BY pol.material_id, po.warehouse_id
+) orders ON orders.material_id = m.id AND orders.warehouse_id = w.id
+LEFT JOIN (
+  SELECT pr.material_id, prod.warehouse_id, SUM(pr.qty_outstanding) AS reserved_qty
+  FROM production_reservations pr
+  JOIN production_orders prod ON prod.id = pr.production_order_id
+  WHERE prod.status IN ('planned', 'released', 'in_progress')
+    AND pr.qty_outstanding > 0
+  GROUP BY pr.material_id, prod.warehouse_id
+) reservations ON reservations.material_id = m.id AND reservations.warehouse_id = w.id
+WHERE m.status = 'active'
+  AND m.reorder_level > 0;
+
+ALTER VIEW material_replenishment_position_vw SET (security_invoker = true);
+
+COMMENT ON VIEW material_replenishment_position_vw IS 'Projected raw material stock per warehouse against the reorder level';
+
+-- ==================== LAST PURCHASE PRICE ====================
+
+-- Purchase order lines carry materials, not variants: the 061 version looked up columns that do not exist
+DROP FUNCTION IF EXISTS get_last_purchase_price(UUID);
+
+CREATE OR REPLACE FUNCTION get_last_purchase_price(p_material_id UUID, p_vendor_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  unit_price DECIMAL(15,2),
+  vendor_id UUID,
+  po_date DATE,
+  currency VARCHAR
+)
+LANGUAGE plpgsql STABLE SECURITY DEFINER
+AS $$
+DECLARE
+  v_company_id UUID;
+BEGIN
+  SELECT company_id INTO v_company_id FROM materials WHERE id = p_material_id;
+
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    PERFORM check_tenant_access(v_company_id);
+  END IF;
+
+  RETURN QUERY
+  SELECT pol.unit_price, po.vendor_id, po.po_date, po.currency
+  FROM purchase_order_lines pol
+  JOIN purchase_orders po ON po.id = pol.po_id
+  WHERE pol.material_id = p_material_id
+    AND po.company_id = v_company_id
+    AND po.status IN ('submitted', 'approved', 'partial', 'closed')
+    AND (p_vendor_id IS NULL OR po.vendor_id = p_vendor_id)
+  ORDER BY po.po_date DESC, po.created_at DESC
+  LIMIT 1;
+END;
+$$;
+
+COMMENT ON FUNCTION get_last_purchase_price IS 'Latest ordered price of a material, optionally from one vendor';
+
+-- ==================== REPLENISHMENT RUNS ====================
+
+CREATE TABLE IF NOT EXISTS replenishment_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE NOT NULL,
+  warehouse_id UUID REFERENCES warehouses(id) NOT NULL,
+  run_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'completed')),
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id)
+);
+
+CREATE INDEX idx_replenishment_runs_company ON replenishment_runs(company_id, run_date DESC);
+
+COMMENT ON TABLE replenishment_runs IS 'Reorder suggestions computed for a warehouse on a date';
+
+CREATE TABLE IF NOT EXISTS replenishment_suggestions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID REFERENCES replenishment_runs(id) ON DELETE CASCADE NOT NULL,
+  material_id UUID REFERENCES materials(id) NOT NULL,
+
+  -- Position when the run was made
+  reorder_level DECIMAL(15,2) NOT NULL,
+  on_hand_qty DECIMAL(15,4) NOT NULL,
+  open_po_qty DECIMAL(15,4) NOT NULL,
+  reserved_qty DECIMAL(15,4) NOT NULL,
+  projected_qty DECIMAL(15,4) NOT NULL,
+
+  suggested_qty DECIMAL(15,4) NOT NULL CHECK (suggested_qty > 0),  -- Editable by the buyer before approval
+  vendor_id UUID REFERENCES vendors(id),
+  unit_price DECIMAL(15,2) NOT NULL DEFAULT 0,
+  price_source VARCHAR(20) CHECK (price_source IN ('last_vendor_price', 'last_price', 'standard_cost')),
+
+  status VARCHAR(20) NOT NULL DEFAULT 'suggested'
+    CHECK (status IN ('suggested', 'approved', 'rejected', 'ordered')),
+  approved_by UUID REFERENCES auth.users(id),
+  approved_at TIMESTAMPTZ,
+
+  po_id UUID REFERENCES purchase_orders(id) ON DELETE SET NULL,
+  po_line_id UUID REFERENCES purchase_order_lines(id) ON DELETE SET NULL,
+
+  UNIQUE(run_id, material_id),
+  CONSTRAINT check_approved_has_vendor CHECK (status NOT IN ('approved', 'ordered') OR vendor_id IS NOT NULL)
+);
+
+CREATE INDEX idx_replenishment_suggestions_run ON replenishment_suggestions(run_id, status);
+
+COMMENT ON TABLE replenishment_suggestions IS 'Suggested purchase quantity per material; approved suggestions are ordered in bulk, grouped by vendor';
+
+-- ==================== RLS POLICIES ====================
+
+ALTER TABLE replenishment_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE replenishment_suggestions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY replenishment_runs_tenant_isolation ON replenishment_runs
+  FOR ALL USING (company_id IN (
+    SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+  ));
+
+CREATE POLICY replenishment_suggestions_tenant_isolation ON replenishment_suggestions
+  FOR ALL USING (run_id IN (
+    SELECT id FROM replenishment_runs WHERE company_id IN (
+      SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+    )
+  ));
+
+CREATE POLICY replenishment_runs_service ON replenishment_runs FOR ALL TO service_role USING (true) WITH CHECK (true);
+CREATE POLICY replenishment_suggestions_service ON replenishment_suggestions FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+ALTER FUNCTION public.get_last_purchase_price SET search_path = public;
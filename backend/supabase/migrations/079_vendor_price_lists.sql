@@ -0,0 +1,214 @@
+-- Migration: 079_vendor_price_lists.sql
+-- Description: Vendor price lists per material with validity, minimum order quantity, quantity breaks and lead time; contract price recorded on PO lines with a deviation view
+-- Dependencies: 008_master_data_vendors_customers.sql, 013_purchase_orders.sql, 076_multi_currency_ap.sql
+-- Author: Ziyada ERP Team
+-- Date: 2026-01-21
+
+-- ==================== VENDOR PRICE LISTS ====================
+
+CREATE TABLE IF NOT EXISTS vendor_price_lists (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE NOT NULL,
+  vendor_id UUID REFERENCES vendors(id) ON DELETE CASCADE NOT NULL,
+  material_id UUID REFERENCES materials(id) ON DELETE CASCADE NOT NULL,
+  vendor_material_code VARCHAR(100),  -- Vendor's article number
+
+  currency VARCHAR(3) NOT NULL DEFAULT 'IDR' CHECK (currency ~ '^[A-Z]{3}$'),
+  unit_price DECIMAL(15,2) NOT NULL,  -- Price below the first quantity break
+  min_order_qty DECIMAL(15,4) NOT NULL DEFAULT 0,
+  lead_time_days INTEGER NOT NULL DEFAULT 0,
+  price_tolerance_pct DECIMAL(5,2) NOT NULL DEFAULT 0,  -- PO price deviation accepted without a warning
+
+  effective_from DATE NOT NULL,
+  effective_to DATE,
+  is_active BOOLEAN DEFAULT true,
+  notes TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT check_vendor_price CHECK (unit_price >= 0),
+  CONSTRAINT check_vendor_price_moq CHECK (min_order_qty >= 0),
+  CONSTRAINT check_vendor_price_lead_time CHECK (lead_time_days >= 0),
+  CONSTRAINT check_vendor_price_tolerance CHECK (price_tolerance_pct >= 0),
+  CONSTRAINT check_vendor_price_dates CHECK (effective_to IS NULL OR effective_to >= effective_from)
+);
+
+CREATE INDEX idx_vendor_price_lists_company ON vendor_price_lists(company_id);
+CREATE INDEX idx_vendor_price_lists_lookup ON vendor_price_lists(vendor_id, material_id, effective_from DESC);
+
+COMMENT ON TABLE vendor_price_lists IS 'Agreed vendor prices per material (contract pricing)';
+
+CREATE TRIGGER update_vendor_price_lists_updated_at
+  BEFORE UPDATE ON vendor_price_lists
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS vendor_price_list_breaks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  price_list_id UUID REFERENCES vendor_price_lists(id) ON DELETE CASCADE NOT NULL,
+  min_qty DECIMAL(15,4) NOT NULL CHECK (min_qty > 0),
+  unit_price DECIMAL(15,2) NOT NULL CHECK (unit_price >= 0),
+
+  UNIQUE(price_list_id, min_qty)
+);
+
+CREATE INDEX idx_vendor_price_list_breaks_list ON vendor_price_list_breaks(price_list_id);
+
+COMMENT ON TABLE vendor_price_list_breaks IS 'Quantity breaks: unit_price applies from min_qty ordered on one line';
+
+-- ==================== PRICE LOOKUP ====================
+
+-- Latest active list valid on p_date; the highest break at or below p_qty, else the list price
+CREATE OR REPLACE FUNCTION get_vendor_price(
+  p_vendor_id UUID,
+  p_material_id UUID,
+  p_qty DECIMAL DEFAULT NULL,
+  p_date DATE DEFAULT CURRENT_DATE
+)
+RETURNS TABLE (
+  price_list_id UUID,
+  unit_price DECIMAL(15,2),
+  list_price DECIMAL(15,2),
+  currency VARCHAR,
+  min_order_qty DECIMAL(15,4),
+  lead_time_days INTEGER,
+  price_tolerance_pct DECIMAL(5,2)
+)
+LANGUAGE plpgsql STABLE SECURITY DEFINER
+AS $$
+DECLARE
+  v_company_id UUID;
+BEGIN
+  SELECT company_id INTO v_company_id FROM vendors WHERE id = p_vendor_id;
+
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    PERFORM check_tenant_access(v_company_id);
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    vpl.id,
+    COALESCE((
+      SELECT b.unit_price
+      FROM vendor_price_list_breaks b
+      WHERE b.price_list_id = vpl.id
+        AND b.min_qty <= COALESCE(p_qty, 0)
+      ORDER BY b.min_qty DESC
+      LIMIT 1
+    ), vpl.unit_price),
+    vpl.unit_price,
+    vpl.currency,
+    vpl.min_order_qty,
+    vpl.lead_time_days,
+    vpl.price_tolerance_pct
+  FROM vendor_price_lists vpl
+  WHERE vpl.vendor_id = p_vendor_id
+    AND vpl.material_id = p_material_id
+    AND vpl.is_active = true
+    AND vpl.effective_from <= p_date
+    AND (vpl.effective_to IS NULL OR vpl.effective_to >= p_date)
+  ORDER BY vpl.effective_from DESC, vpl.created_at DESC
+  LIMIT 1;
+END;
+$$;
+
+COMMENT ON FUNCTION get_vendor_price IS 'Contract price of a material from a vendor for a quantity on a date';
+
+-- ==================== PO LINE CONTRACT PRICE ====================
+
+ALTER TABLE purchase_order_lines
+ADD COLUMN IF NOT EXISTS price_list_id UUID REFERENCES vendor_price_lists(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS contract_price DECIMAL(15,2);
+
+COMMENT ON COLUMN purchase_order_lines.contract_price IS 'Vendor price list price for the ordered quantity when the line was entered (PO currency only)';
+
+-- Records the contract price; a deviating price is allowed and reported by purchase_order_price_deviations_vw
+CREATE OR REPLACE FUNCTION set_po_line_contract_price()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_po RECORD;
+  v_price RECORD;
+BEGIN
+  SELECT vendor_id, po_date, currency INTO v_po FROM purchase_orders WHERE id = NEW.po_id;
+
+  SELECT * INTO v_price
+  FROM get_vendor_price(v_po.vendor_id, NEW.material_id, NEW.qty_ordered, v_po.po_date);
+
+  IF v_price.price_list_id IS NOT NULL AND v_price.currency = COALESCE(v_po.currency, v_price.currency) THEN
+    NEW.price_list_id := v_price.price_list_id;
+    NEW.contract_price := v_price.unit_price;
+  ELSE
+    NEW.price_list_id := NULL;
+    NEW.contract_price := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_set_po_line_contract_price
+  BEFORE INSERT OR UPDATE OF material_id, qty_ordered ON purchase_order_lines
+  FOR EACH ROW EXECUTE FUNCTION set_po_line_contract_price();
+
+CREATE OR REPLACE VIEW purchase_order_price_deviations_vw AS
+SELECT
+  po.company_id,
+  po.id AS po_id,
+  po.po_number,
+  po.po_date,
+  po.status AS po_status,
+  po.vendor_id,
+  v.name AS vendor_name,
+  pol.id AS po_line_id,
+  pol.material_id,
+  m.code AS material_code,
+  m.name AS material_name,
+  pol.qty_ordered,
+  pol.unit_price,
+  pol.contract_price,
+  vpl.min_order_qty,
+  vpl.price_tolerance_pct,
+  ROUND((pol.unit_price - pol.contract_price) / NULLIF(pol.contract_price, 0) * 100, 2) AS price_deviation_pct,
+  ABS(pol.unit_price - pol.contract_price) > pol.contract_price * vpl.price_tolerance_pct / 100 AS is_price_deviation,
+  pol.qty_ordered < vpl.min_order_qty AS is_below_moq
+FROM purchase_order_lines pol
+JOIN purchase_orders po ON po.id = pol.po_id
+JOIN vendor_price_lists vpl ON vpl.id = pol.price_list_id
+JOIN vendors v ON v.id = po.vendor_id
+JOIN materials m ON m.id = pol.material_id
+WHERE ABS(pol.unit_price - pol.contract_price) > pol.contract_price * vpl.price_tolerance_pct / 100
+   OR pol.qty_ordered < vpl.min_order_qty;
+
+ALTER VIEW purchase_order_price_deviations_vw SET (security_invoker = true);
+
+COMMENT ON VIEW purchase_order_price_deviations_vw IS 'PO lines priced outside the vendor contract tolerance or ordered below the minimum order quantity';
+
+-- ==================== RLS POLICIES ====================
+
+ALTER TABLE vendor_price_lists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vendor_price_list_breaks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY vendor_price_lists_tenant_isolation ON vendor_price_lists
+  FOR ALL USING (company_id IN (
+    SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+  ));
+
+CREATE POLICY vendor_price_list_breaks_tenant_isolation ON vendor_price_list_breaks
+  FOR ALL USING (price_list_id IN (
+    SELECT id FROM vendor_price_lists WHERE company_id IN (
+      SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+    )
+  ));
+
+CREATE POLICY vendor_price_lists_service ON vendor_price_lists FOR ALL TO service_role USING (true) WITH CHECK (true);
+CREATE POLICY vendor_price_list_breaks_service ON vendor_price_list_breaks FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- ==================== AUDIT TRIGGERS ====================
+
+CREATE TRIGGER trigger_audit_vendor_price_lists
+  AFTER INSERT OR UPDATE OR DELETE ON vendor_price_lists
+  FOR EACH ROW EXECUTE FUNCTION audit_trigger();
+
+ALTER FUNCTION public.get_vendor_price SET search_path = public;
+ALTER FUNCTION public.set_po_line_contract_price SET search_path = public;
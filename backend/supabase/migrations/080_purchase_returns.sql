@@ -0,0 +1,830 @@
+-- Migration: 080_purchase_returns.sql
+-- Description: Purchase returns (retur pembelian) against posted GRNs issued at the received cost, vendor debit notes and their allocation against open vendor invoices
+-- Dependencies: 014_goods_receipt_notes.sql, 015_vendor_invoices.sql, 016_vendor_payments.sql, 070_fifo_cost_layers.sql, 071_landed_cost_vouchers.sql, 073_tax_codes.sql, 076_multi_currency_ap.sql
+-- Author: Ziyada ERP Team
+-- Date: 2026-01-22
+
+ALTER TYPE reference_type ADD VALUE IF NOT EXISTS 'PURCHASE_RETURN';
+
+-- ==================== PURCHASE RETURNS ====================
+
+CREATE TABLE IF NOT EXISTS purchase_returns (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE NOT NULL,
+  return_number VARCHAR(50) NOT NULL,
+  return_date DATE NOT NULL,
+
+  grn_id UUID REFERENCES goods_receipt_notes(id) NOT NULL,
+  vendor_id UUID REFERENCES vendors(id) NOT NULL,
+  warehouse_id UUID REFERENCES warehouses(id) NOT NULL,
+  period_id UUID REFERENCES accounting_periods(id) NOT NULL,
+
+  -- Document currency of the order; the debit note is issued in it
+  currency VARCHAR(3) NOT NULL DEFAULT 'IDR',
+  exchange_rate DECIMAL(18,6) NOT NULL DEFAULT 1 CHECK (exchange_rate > 0),
+
+  subtotal DECIMAL(15,2) DEFAULT 0,
+  tax_amount DECIMAL(15,2) DEFAULT 0,
+  total_amount DECIMAL(15,2) GENERATED ALWAYS AS (subtotal + tax_amount) STORED,
+  total_cost DECIMAL(15,2) DEFAULT 0,  -- Base currency received cost of the returned goods
+
+  return_reason VARCHAR(50),  -- DEFECTIVE, WRONG_ITEM, EXCESS, QUALITY_REJECTED
+  status VARCHAR(20) NOT NULL DEFAULT 'draft',
+
+  journal_id UUID REFERENCES journals(id),
+  notes TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  posted_at TIMESTAMPTZ,
+  posted_by UUID REFERENCES auth.users(id),
+
+  UNIQUE(company_id, return_number),
+  CONSTRAINT valid_purchase_return_status CHECK (status IN ('draft', 'posted', 'void'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_returns_company ON purchase_returns(company_id, return_date DESC);
+CREATE INDEX IF NOT EXISTS idx_purchase_returns_grn ON purchase_returns(grn_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_returns_vendor ON purchase_returns(vendor_id);
+
+COMMENT ON TABLE purchase_returns IS 'Goods returned to a vendor after a GRN was posted (retur pembelian)';
+
+CREATE TABLE IF NOT EXISTS purchase_return_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  return_id UUID REFERENCES purchase_returns(id) ON DELETE CASCADE NOT NULL,
+  line_number INTEGER NOT NULL,
+
+  grn_line_id UUID REFERENCES grn_lines(id) NOT NULL,
+  material_id UUID REFERENCES materials(id) NOT NULL,
+  bin_id UUID REFERENCES bins(id) NOT NULL,  -- Defaults to the bin the GRN line was received into
+
+  qty_returned DECIMAL(15,4) NOT NULL CHECK (qty_returned > 0),
+  unit_price DECIMAL(15,2) NOT NULL CHECK (unit_price >= 0),  -- Document currency, defaults to the PO price
+  line_total DECIMAL(15,2) GENERATED ALWAYS AS (qty_returned * unit_price) STORED,
+  unit_cost DECIMAL(15,2) NOT NULL DEFAULT 0,  -- Base currency received cost (grn_lines.unit_cost)
+
+  tax_code_id UUID REFERENCES tax_codes(id),
+  price_includes_tax BOOLEAN NOT NULL DEFAULT false,
+  taxable_amount DECIMAL(15,2),
+  tax_base DECIMAL(15,2),
+  tax_rate DECIMAL(7,4) DEFAULT 0,
+  tax_amount DECIMAL(15,2) NOT NULL DEFAULT 0,
+
+  return_reason VARCHAR(50),
+  notes TEXT,
+
+  UNIQUE(return_id, line_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_return_lines_return ON purchase_return_lines(return_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_return_lines_grn_line ON purchase_return_lines(grn_line_id);
+
+COMMENT ON TABLE purchase_return_lines IS 'Returned GRN lines, valued at the received cost';
+
+-- ==================== RETURN TRIGGERS ====================
+
+-- Lines take material, bin, cost, price and tax code from the GRN / PO line and
+-- cannot return more than was received on the GRN line
+CREATE OR REPLACE FUNCTION apply_purchase_return_line()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_return RECORD;
+  v_grn_line RECORD;
+  v_already_returned DECIMAL(15,4);
+BEGIN
+  SELECT grn_id, exchange_rate INTO v_return FROM purchase_returns WHERE id = NEW.return_id;
+
+  SELECT gl.grn_id, gl.material_id, gl.bin_id, gl.qty_received, gl.unit_cost,
+         pol.unit_price AS po_unit_price, pol.tax_code_id, pol.price_includes_tax
+  INTO v_grn_line
+  FROM grn_lines gl
+  LEFT JOIN purchase_order_lines pol ON pol.id = gl.po_line_id
+  WHERE gl.id = NEW.grn_line_id;
+
+  IF v_grn_line.grn_id IS DISTINCT FROM v_return.grn_id THEN
+    RAISE EXCEPTION 'GRN line does not belong to the returned GRN';
+  END IF;
+
+  NEW.material_id := v_grn_line.material_id;
+  NEW.unit_cost := v_grn_line.unit_cost;
+  IF NEW.bin_id IS NULL THEN
+    NEW.bin_id := v_grn_line.bin_id;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.unit_price IS NULL THEN
+      NEW.unit_price := COALESCE(v_grn_line.po_unit_price, ROUND(v_grn_line.unit_cost / v_return.exchange_rate, 2));
+    END IF;
+    IF NEW.tax_code_id IS NULL THEN
+      NEW.tax_code_id := v_grn_line.tax_code_id;
+      NEW.price_includes_tax := COALESCE(v_grn_line.price_includes_tax, false);
+    END IF;
+  END IF;
+
+  SELECT COALESCE(SUM(prl.qty_returned), 0) INTO v_already_returned
+  FROM purchase_return_lines prl
+  JOIN purchase_returns pr ON pr.id = prl.return_id
+  WHERE prl.grn_line_id = NEW.grn_line_id
+    AND pr.status != 'void'
+    AND prl.id != NEW.id;
+
+  IF v_already_returned + NEW.qty_returned > v_grn_line.qty_received THEN
+    RAISE EXCEPTION 'Return quantity (%) exceeds received quantity (%)',
+      v_already_returned + NEW.qty_returned, v_grn_line.qty_received;
+  END IF;
+
+  SELECT t.taxable_amount, t.tax_base, t.tax_rate, t.tax_amount
+  INTO NEW.taxable_amount, NEW.tax_base, NEW.tax_rate, NEW.tax_amount
+  FROM calculate_line_tax(NEW.qty_returned * NEW.unit_price, NEW.tax_code_id, NEW.price_includes_tax) t;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_apply_purchase_return_line
+  BEFORE INSERT OR UPDATE ON purchase_return_lines
+  FOR EACH ROW EXECUTE FUNCTION apply_purchase_return_line();
+
+CREATE OR REPLACE FUNCTION update_purchase_return_total()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_return_id UUID;
+BEGIN
+  v_return_id := COALESCE(NEW.return_id, OLD.return_id);
+
+  UPDATE purchase_returns pr
+  SET
+    subtotal = t.subtotal,
+    tax_amount = t.tax_amount
+  FROM (
+    SELECT
+      COALESCE(SUM(COALESCE(taxable_amount, line_total)), 0) AS subtotal,
+      COALESCE(SUM(tax_amount), 0) AS tax_amount
+    FROM purchase_return_lines
+    WHERE return_id = v_return_id
+  ) t
+  WHERE pr.id = v_return_id;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_purchase_return_total
+  AFTER INSERT OR UPDATE OR DELETE ON purchase_return_lines
+  FOR EACH ROW EXECUTE FUNCTION update_purchase_return_total();
+
+CREATE TRIGGER update_purchase_returns_updated_at
+  BEFORE UPDATE ON purchase_returns
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER trigger_set_created_by
+  BEFORE INSERT ON purchase_returns
+  FOR EACH ROW EXECUTE FUNCTION set_created_by();
+
+CREATE TRIGGER trigger_audit_purchase_returns
+  AFTER INSERT OR UPDATE OR DELETE ON purchase_returns
+  FOR EACH ROW EXECUTE FUNCTION audit_trigger();
+
+-- ==================== VENDOR DEBIT NOTES ====================
+
+CREATE TABLE IF NOT EXISTS vendor_debit_notes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE NOT NULL,
+  debit_note_number VARCHAR(50) NOT NULL,
+  debit_note_date DATE NOT NULL,
+  vendor_id UUID REFERENCES vendors(id) NOT NULL,
+  return_id UUID REFERENCES purchase_returns(id) UNIQUE,
+  period_id UUID REFERENCES accounting_periods(id) NOT NULL,
+
+  currency VARCHAR(3) NOT NULL DEFAULT 'IDR',
+  exchange_rate DECIMAL(18,6) NOT NULL DEFAULT 1 CHECK (exchange_rate > 0),
+
+  subtotal DECIMAL(15,2) NOT NULL DEFAULT 0,
+  tax_amount DECIMAL(15,2) NOT NULL DEFAULT 0,
+  total_amount DECIMAL(15,2) GENERATED ALWAYS AS (subtotal + tax_amount) STORED,
+  amount_applied DECIMAL(15,2) NOT NULL DEFAULT 0 CHECK (amount_applied >= 0),
+  amount_open DECIMAL(15,2) GENERATED ALWAYS AS (subtotal + tax_amount - amount_applied) STORED,
+
+  status VARCHAR(20) NOT NULL DEFAULT 'open',
+  journal_id UUID REFERENCES journals(id),
+  notes TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+
+  UNIQUE(company_id, debit_note_number),
+  CONSTRAINT valid_debit_note_status CHECK (status IN ('open', 'partial', 'applied', 'void')),
+  CONSTRAINT check_debit_note_applied CHECK (amount_applied <= subtotal + tax_amount)
+);
+
+CREATE INDEX IF NOT EXISTS idx_vendor_debit_notes_vendor ON vendor_debit_notes(vendor_id, status);
+
+COMMENT ON TABLE vendor_debit_notes IS 'Amounts the vendor owes back (nota debit); reduce AP and are allocated against open vendor invoices';
+
+CREATE TABLE IF NOT EXISTS debit_note_allocations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  debit_note_id UUID REFERENCES vendor_debit_notes(id) ON DELETE CASCADE NOT NULL,
+  invoice_id UUID REFERENCES vendor_invoices(id) NOT NULL,
+  allocation_date DATE NOT NULL DEFAULT CURRENT_DATE,
+
+  amount_allocated DECIMAL(15,2) NOT NULL CHECK (amount_allocated > 0),
+  invoice_rate DECIMAL(18,6) NOT NULL DEFAULT 1,
+  debit_note_rate DECIMAL(18,6) NOT NULL DEFAULT 1,
+  realized_fx_amount DECIMAL(15,2) NOT NULL DEFAULT 0,
+  journal_id UUID REFERENCES journals(id),
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_debit_note_allocations_note ON debit_note_allocations(debit_note_id);
+CREATE INDEX IF NOT EXISTS idx_debit_note_allocations_invoice ON debit_note_allocations(invoice_id);
+
+COMMENT ON TABLE debit_note_allocations IS 'Debit notes applied against vendor invoices';
+COMMENT ON COLUMN debit_note_allocations.realized_fx_amount IS 'Base currency FX loss (positive) or gain (negative) between the invoice and debit note rates';
+
+-- Same vendor and currency; fits in the invoice outstanding and the open debit note
+CREATE OR REPLACE FUNCTION validate_debit_note_allocation()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_note RECORD;
+  v_invoice RECORD;
+BEGIN
+  SELECT vendor_id, currency, status, amount_open INTO v_note
+  FROM vendor_debit_notes
+  WHERE id = NEW.debit_note_id;
+
+  SELECT vendor_id, currency, status, amount_outstanding INTO v_invoice
+  FROM vendor_invoices
+  WHERE id = NEW.invoice_id;
+
+  IF v_note.vendor_id IS DISTINCT FROM v_invoice.vendor_id THEN
+    RAISE EXCEPTION 'Debit note and invoice belong to different vendors';
+  END IF;
+
+  IF v_note.currency IS DISTINCT FROM v_invoice.currency THEN
+    RAISE EXCEPTION 'Debit note currency (%) differs from invoice currency (%)', v_note.currency, v_invoice.currency;
+  END IF;
+
+  IF v_note.status = 'void' OR v_invoice.status NOT IN ('posted', 'partial_paid') THEN
+    RAISE EXCEPTION 'Debit notes can only be applied to posted, unpaid invoices';
+  END IF;
+
+  IF NEW.amount_allocated > v_invoice.amount_outstanding THEN
+    RAISE EXCEPTION 'Allocation (%) exceeds invoice outstanding (%)', NEW.amount_allocated, v_invoice.amount_outstanding;
+  END IF;
+
+  IF NEW.amount_allocated > v_note.amount_open THEN
+    RAISE EXCEPTION 'Allocation (%) exceeds debit note open amount (%)', NEW.amount_allocated, v_note.amount_open;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_validate_debit_note_allocation
+  BEFORE INSERT ON debit_note_allocations
+  FOR EACH ROW EXECUTE FUNCTION validate_debit_note_allocation();
+
+CREATE OR REPLACE FUNCTION update_debit_note_applied()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_note_id UUID := COALESCE(NEW.debit_note_id, OLD.debit_note_id);
+BEGIN
+  UPDATE vendor_debit_notes dn
+  SET
+    amount_applied = t.applied,
+    status = CASE
+      WHEN dn.status = 'void' THEN dn.status
+      WHEN t.applied >= dn.total_amount THEN 'applied'
+      WHEN t.applied > 0 THEN 'partial'
+      ELSE 'open'
+    END
+  FROM (
+    SELECT COALESCE(SUM(amount_allocated), 0) AS applied
+    FROM debit_note_allocations
+    WHERE debit_note_id = v_note_id
+  ) t
+  WHERE dn.id = v_note_id;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_debit_note_applied
+  AFTER INSERT OR DELETE ON debit_note_allocations
+  FOR EACH ROW EXECUTE FUNCTION update_debit_note_applied();
+
+-- Invoice amount_paid covers payments and applied debit notes
+CREATE OR REPLACE FUNCTION update_invoice_payment_status()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_invoice_id UUID;
+  v_total_paid DECIMAL(15,2);
+  v_total_amount DECIMAL(15,2);
+BEGIN
+  v_invoice_id := COALESCE(NEW.invoice_id, OLD.invoice_id);
+
+  SELECT
+    (SELECT COALESCE(SUM(amount_allocated), 0) FROM payment_allocations WHERE invoice_id = v_invoice_id)
+    + (SELECT COALESCE(SUM(amount_allocated), 0) FROM debit_note_allocations WHERE invoice_id = v_invoice_id)
+  INTO v_total_paid;
+
+  SELECT subtotal + tax_amount INTO v_total_amount
+  FROM vendor_invoices
+  WHERE id = v_invoice_id;
+
+  UPDATE vendor_invoices
+  SET
+    amount_paid = v_total_paid,
+    status = CASE
+      WHEN v_total_paid >= v_total_amount THEN 'paid'
+      WHEN v_total_paid > 0 THEN 'partial_paid'
+      ELSE status
+    END
+  WHERE id = v_invoice_id;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON COLUMN vendor_invoices.amount_paid IS 'Settled by payment allocations and applied debit notes';
+
+CREATE TRIGGER trigger_update_invoice_debit_note_insert
+  AFTER INSERT ON debit_note_allocations
+  FOR EACH ROW EXECUTE FUNCTION update_invoice_payment_status();
+
+CREATE TRIGGER trigger_update_invoice_debit_note_delete
+  AFTER DELETE ON debit_note_allocations
+  FOR EACH ROW EXECUTE FUNCTION update_invoice_payment_status();
+
+-- Month-end revaluation balance: debit notes applied up to the date settle the invoice too
+CREATE OR REPLACE FUNCTION open_foreign_payables_at(p_company_id UUID, p_date DATE)
+RETURNS TABLE (invoice_id UUID, currency VARCHAR, exchange_rate DECIMAL, open_amount DECIMAL) AS $$
+  SELECT t.id, t.currency, t.exchange_rate, t.open_amount
+  FROM (
+    SELECT
+      vi.id,
+      vi.currency,
+      vi.exchange_rate,
+      vi.subtotal + vi.tax_amount - COALESCE((
+        SELECT SUM(pa.amount_allocated)
+        FROM payment_allocations pa
+        JOIN vendor_payments vp ON vp.id = pa.payment_id
+        WHERE pa.invoice_id = vi.id
+          AND vp.status = 'posted'
+          AND vp.payment_date <= p_date
+      ), 0) - COALESCE((
+        SELECT SUM(dna.amount_allocated)
+        FROM debit_note_allocations dna
+        WHERE dna.invoice_id = vi.id
+          AND dna.allocation_date <= p_date
+      ), 0) AS open_amount
+    FROM vendor_invoices vi
+    JOIN companies c ON c.id = vi.company_id
+    WHERE vi.company_id = p_company_id
+      AND vi.status IN ('posted', 'partial_paid', 'paid')
+      AND vi.invoice_date <= p_date
+      AND vi.currency <> COALESCE(c.base_currency, 'IDR')
+  ) t
+  WHERE t.open_amount > 0;
+$$ LANGUAGE sql STABLE;
+
+CREATE TRIGGER trigger_audit_vendor_debit_notes
+  AFTER INSERT OR UPDATE OR DELETE ON vendor_debit_notes
+  FOR EACH ROW EXECUTE FUNCTION audit_trigger();
+
+-- ==================== COSTING ====================
+-- Returned goods leave at the cost they were received at, not the running average / oldest layer.
+-- apply_inventory_cost keeps the caller's unit_cost for PURCHASE_RETURN outflows; under FIFO
+-- post_purchase_return consumes the GRN's own layers first. The average replay treats them the same way.
+
+CREATE OR REPLACE FUNCTION apply_inventory_cost()
+RETURNS TRIGGER
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_item_type VARCHAR;
+  v_item_id UUID;
+  v_qty DECIMAL;
+  v_value DECIMAL;
+  v_avg DECIMAL;
+  v_transfer_cost DECIMAL;
+  v_step RECORD;
+BEGIN
+  -- Lock the running position for this item/warehouse
+  IF TG_TABLE_NAME = 'raw_material_ledger' THEN
+    v_item_type := 'RAW';
+    v_item_id := NEW.material_id;
+
+    INSERT INTO raw_material_costs (company_id, material_id, warehouse_id)
+    VALUES (NEW.company_id, NEW.material_id, NEW.warehouse_id)
+    ON CONFLICT (company_id, material_id, warehouse_id) DO NOTHING;
+
+    SELECT qty_on_hand, total_value, avg_unit_cost INTO v_qty, v_value, v_avg
+    FROM raw_material_costs
+    WHERE company_id = NEW.company_id AND material_id = NEW.material_id AND warehouse_id = NEW.warehouse_id
+    FOR UPDATE;
+
+    -- Transfer receipts carry the cost the source warehouse issued at
+    IF NEW.qty_in > 0 AND NEW.reference_type = 'TRANSFER' AND NEW.reference_id IS NOT NULL THEN
+      SELECT l.unit_cost INTO v_transfer_cost
+      FROM raw_material_ledger l
+      WHERE l.reference_id = NEW.reference_id AND l.material_id = NEW.material_id AND l.qty_out > 0
+      ORDER BY l.created_at DESC
+      LIMIT 1;
+    END IF;
+  ELSE
+    v_item_type := 'FG';
+    v_item_id := NEW.product_variant_id;
+
+    INSERT INTO finished_goods_costs (company_id, product_variant_id, warehouse_id)
+    VALUES (NEW.company_id, NEW.product_variant_id, NEW.warehouse_id)
+    ON CONFLICT (company_id, product_variant_id, warehouse_id) DO NOTHING;
+
+    SELECT qty_on_hand, total_value, avg_unit_cost INTO v_qty, v_value, v_avg
+    FROM finished_goods_costs
+    WHERE company_id = NEW.company_id AND product_variant_id = NEW.product_variant_id AND warehouse_id = NEW.warehouse_id
+    FOR UPDATE;
+
+    IF NEW.qty_in > 0 AND NEW.reference_type = 'TRANSFER' AND NEW.reference_id IS NOT NULL THEN
+      SELECT l.unit_cost INTO v_transfer_cost
+      FROM finished_goods_ledger l
+      WHERE l.reference_id = NEW.reference_id AND l.product_variant_id = NEW.product_variant_id AND l.qty_out > 0
+      ORDER BY l.created_at DESC
+      LIMIT 1;
+    END IF;
+  END IF;
+
+  IF NEW.qty_out > 0 AND NEW.reference_type = 'PURCHASE_RETURN' THEN
+    -- Valued at the received cost given by the caller
+    v_qty := v_qty - NEW.qty_out;
+    v_value := CASE WHEN v_qty > 0 THEN GREATEST(v_value - NEW.qty_out * NEW.unit_cost, 0) ELSE 0 END;
+  ELSIF get_inventory_valuation_method(NEW.company_id) = 'fifo' THEN
+    IF NEW.qty_out > 0 THEN
+      NEW.unit_cost := ROUND(consume_fifo_layers(
+        NEW.company_id, v_item_type, v_item_id, NEW.warehouse_id, NEW.id, NEW.qty_out,
+        NEW.transaction_date, NEW.reference_type, NEW.reference_number,
+        COALESCE(NULLIF(v_avg, 0), NEW.unit_cost)
+      ), 2);
+      v_qty := v_qty - NEW.qty_out;
+      v_value := CASE WHEN v_qty > 0 THEN GREATEST(v_value - NEW.qty_out * NEW.unit_cost, 0) ELSE 0 END;
+    ELSE
+      NEW.unit_cost := ROUND(COALESCE(v_transfer_cost, NEW.unit_cost), 2);
+
+      INSERT INTO inventory_cost_layers (
+        company_id, item_type, item_id, warehouse_id, source, receipt_ledger_id,
+        receipt_date, reference_number, qty_received, qty_remaining, unit_cost
+      ) VALUES (
+        NEW.company_id, v_item_type, v_item_id, NEW.warehouse_id,
+        CASE WHEN NEW.reference_type = 'TRANSFER' THEN 'TRANSFER' ELSE 'RECEIPT' END,
+        NEW.id, NEW.transaction_date, NEW.reference_number, NEW.qty_in, NEW.qty_in, NEW.unit_cost
+      );
+
+      v_value := CASE WHEN v_qty > 0 THEN v_value ELSE 0 END + NEW.qty_in * NEW.unit_cost;
+      v_qty := v_qty + NEW.qty_in;
+    END IF;
+  ELSE
+    -- Outflows ignore the caller's unit_cost; an empty position falls back to the last average
+    SELECT * INTO v_step FROM weighted_average_step(
+      v_qty, v_value, NEW.qty_in, NEW.qty_out,
+      CASE
+        WHEN NEW.qty_out > 0 THEN COALESCE(NULLIF(v_avg, 0), NEW.unit_cost)
+        ELSE COALESCE(v_transfer_cost, NEW.unit_cost)
+      END
+    );
+    NEW.unit_cost := ROUND(v_step.unit_cost, 2);
+    v_qty := v_step.qty;
+    v_value := v_step.value;
+  END IF;
+
+  IF v_item_type = 'RAW' THEN
+    UPDATE raw_material_costs SET
+      qty_on_hand = v_qty,
+      total_value = v_value,
+      avg_unit_cost = CASE WHEN v_qty > 0 THEN v_value / v_qty ELSE avg_unit_cost END,
+      updated_at = NOW()
+    WHERE company_id = NEW.company_id AND material_id = NEW.material_id AND warehouse_id = NEW.warehouse_id;
+  ELSE
+    UPDATE finished_goods_costs SET
+      qty_on_hand = v_qty,
+      total_value = v_value,
+      avg_unit_cost = CASE WHEN v_qty > 0 THEN v_value / v_qty ELSE avg_unit_cost END,
+      updated_at = NOW()
+    WHERE company_id = NEW.company_id AND product_variant_id = NEW.product_variant_id AND warehouse_id = NEW.warehouse_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION apply_inventory_cost() IS
+'Values outflows by the company valuation method (weighted average or FIFO layers), overriding the payload unit_cost except for purchase returns';
+
+CREATE OR REPLACE FUNCTION recost_weighted_average(
+  p_company_id UUID,
+  p_item_type VARCHAR,
+  p_item_id UUID,
+  p_warehouse_id UUID,
+  p_from_date DATE,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER
+AS $$
+DECLARE
+  v_run_id UUID;
+  v_qty DECIMAL := 0;
+  v_value DECIMAL := 0;
+  v_step RECORD;
+  v_row RECORD;
+  v_total DECIMAL := 0;
+  v_before RECORD;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    PERFORM check_tenant_access(p_company_id);
+  END IF;
+
+  IF p_item_type NOT IN ('RAW', 'FG') THEN
+    RAISE EXCEPTION 'Invalid item type %', p_item_type;
+  END IF;
+
+  -- Lock the position so no movement is valued while replaying
+  IF p_item_type = 'RAW' THEN
+    SELECT qty_on_hand, total_value INTO v_before FROM raw_material_costs
+    WHERE company_id = p_company_id AND material_id = p_item_id AND warehouse_id = p_warehouse_id
+    FOR UPDATE;
+  ELSE
+    SELECT qty_on_hand, total_value INTO v_before FROM finished_goods_costs
+    WHERE company_id = p_company_id AND product_variant_id = p_item_id AND warehouse_id = p_warehouse_id
+    FOR UPDATE;
+  END IF;
+
+  INSERT INTO inventory_recost_runs (
+    company_id, run_number, item_type, item_id, warehouse_id, from_date,
+    qty_before, value_before, created_by
+  ) VALUES (
+    p_company_id,
+    'RC-' || TO_CHAR(NOW(), 'YYYYMMDD-HH24MISS-MS'),
+    p_item_type, p_item_id, p_warehouse_id, p_from_date,
+    v_before.qty_on_hand, v_before.total_value, COALESCE(p_user_id, auth.uid())
+  )
+  RETURNING id INTO v_run_id;
+
+  FOR v_row IN
+    SELECT id, transaction_date, created_at, reference_type, reference_number, qty_in, qty_out, unit_cost, false AS is_landed_cost
+    FROM raw_material_ledger
+    WHERE p_item_type = 'RAW' AND company_id = p_company_id AND material_id = p_item_id
+      AND warehouse_id = p_warehouse_id AND is_posted = true
+    UNION ALL
+    SELECT id, transaction_date, created_at, reference_type, reference_number, qty_in, qty_out, unit_cost, false
+    FROM finished_goods_ledger
+    WHERE p_item_type = 'FG' AND company_id = p_company_id AND product_variant_id = p_item_id
+      AND warehouse_id = p_warehouse_id AND is_posted = true
+    UNION ALL
+    SELECT a.id, v.voucher_date, v.posted_at, NULL::reference_type, v.voucher_number, 0, 0, a.capitalized_amount, true
+    FROM landed_cost_allocations a
+    JOIN landed_cost_vouchers v ON v.id = a.voucher_id
+    WHERE p_item_type = 'RAW' AND v.company_id = p_company_id AND a.material_id = p_item_id
+      AND a.warehouse_id = p_warehouse_id AND v.status = 'posted' AND a.capitalized_amount > 0
+    ORDER BY transaction_date, created_at, id
+  LOOP
+    IF v_row.is_landed_cost THEN
+      v_value := v_value + v_row.unit_cost;
+      CONTINUE;
+    END IF;
+
+    -- Purchase returns keep their received cost
+    IF v_row.qty_out > 0 AND v_row.reference_type = 'PURCHASE_RETURN' THEN
+      v_qty := v_qty - v_row.qty_out;
+      v_value := CASE WHEN v_qty > 0 THEN GREATEST(v_value - v_row.qty_out * v_row.unit_cost, 0) ELSE 0 END;
+      CONTINUE;
+    END IF;
+
+    SELECT * INTO v_step FROM weighted_average_step(v_qty, v_value, v_row.qty_in, v_row.qty_out, v_row.unit_cost);
+
+    IF v_row.qty_out > 0 AND v_row.transaction_date >= p_from_date AND v_step.unit_cost <> v_row.unit_cost THEN
+      INSERT INTO inventory_recost_lines (
+        run_id, ledger_id, transaction_date, reference_type, reference_number,
+        qty_out, posted_unit_cost, recalculated_unit_cost, cost_difference
+      ) VALUES (
+        v_run_id, v_row.id, v_row.transaction_date, v_row.reference_type, v_row.reference_number,
+        v_row.qty_out, v_row.unit_cost, v_step.unit_cost,
+        ROUND(v_row.qty_out * (v_step.unit_cost - v_row.unit_cost), 2)
+      );
+      v_total := v_total + ROUND(v_row.qty_out * (v_step.unit_cost - v_row.unit_cost), 2);
+    END IF;
+
+    v_qty := v_step.qty;
+    v_value := v_step.value;
+  END LOOP;
+
+  IF p_item_type = 'RAW' THEN
+    INSERT INTO raw_material_costs (company_id, material_id, warehouse_id)
+    VALUES (p_company_id, p_item_id, p_warehouse_id)
+    ON CONFLICT (company_id, material_id, warehouse_id) DO NOTHING;
+
+    UPDATE raw_material_costs SET
+      qty_on_hand = v_qty,
+      total_value = v_value,
+      avg_unit_cost = CASE WHEN v_qty > 0 THEN v_value / v_qty ELSE avg_unit_cost END,
+      last_recosted_at = NOW(),
+      updated_at = NOW()
+    WHERE company_id = p_company_id AND material_id = p_item_id AND warehouse_id = p_warehouse_id;
+  ELSE
+    INSERT INTO finished_goods_costs (company_id, product_variant_id, warehouse_id)
+    VALUES (p_company_id, p_item_id, p_warehouse_id)
+    ON CONFLICT (company_id, product_variant_id, warehouse_id) DO NOTHING;
+
+    UPDATE finished_goods_costs SET
+      qty_on_hand = v_qty,
+      total_value = v_value,
+      avg_unit_cost = CASE WHEN v_qty > 0 THEN v_value / v_qty ELSE avg_unit_cost END,
+      last_recosted_at = NOW(),
+      updated_at = NOW()
+    WHERE company_id = p_company_id AND product_variant_id = p_item_id AND warehouse_id = p_warehouse_id;
+  END IF;
+
+  UPDATE inventory_recost_runs SET
+    qty_after = v_qty,
+    value_after = v_value,
+    total_difference = v_total
+  WHERE id = v_run_id;
+
+  RETURN v_run_id;
+END;
+$$;
+
+-- ==================== POSTING FUNCTION ====================
+
+-- Post purchase return: issue goods out of their bins at the received cost and issue the debit note.
+-- The journal (AP / inventory / input VAT) is created by the service layer.
+CREATE OR REPLACE FUNCTION post_purchase_return(
+  p_return_id UUID,
+  p_user_id UUID
+)
+RETURNS UUID AS $$
+DECLARE
+  v_return RECORD;
+  v_line RECORD;
+  v_ledger_id UUID;
+  v_layer RECORD;
+  v_take DECIMAL;
+  v_remaining DECIMAL;
+  v_total_cost DECIMAL(15,2) := 0;
+  v_debit_note_id UUID;
+BEGIN
+  SELECT pr.*, grn.status AS grn_status INTO v_return
+  FROM purchase_returns pr
+  JOIN goods_receipt_notes grn ON grn.id = pr.grn_id
+  WHERE pr.id = p_return_id;
+
+  IF v_return IS NULL THEN
+    RAISE EXCEPTION 'Purchase return not found or access denied';
+  END IF;
+
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    PERFORM check_tenant_access(v_return.company_id);
+  END IF;
+
+  IF v_return.status != 'draft' THEN
+    RAISE EXCEPTION 'Purchase return must be in draft status';
+  END IF;
+
+  IF v_return.grn_status != 'posted' THEN
+    RAISE EXCEPTION 'Goods can only be returned from a posted GRN';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM purchase_return_lines WHERE return_id = p_return_id) THEN
+    RAISE EXCEPTION 'Purchase return has no lines';
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM purchase_return_lines WHERE return_id = p_return_id ORDER BY line_number
+  LOOP
+    v_ledger_id := gen_random_uuid();
+
+    INSERT INTO raw_material_ledger (
+      id, company_id, material_id, warehouse_id, bin_id, period_id,
+      transaction_date, transaction_type, reference_type, reference_id, reference_number,
+      qty_in, qty_out, unit_cost, created_by, is_posted, notes
+    ) VALUES (
+      v_ledger_id, v_return.company_id, v_line.material_id, v_return.warehouse_id, v_line.bin_id, v_return.period_id,
+      v_return.return_date, 'ISSUE', 'PURCHASE_RETURN', v_return.id, v_return.return_number,
+      0, v_line.qty_returned, v_line.unit_cost, p_user_id, true,
+      'Returned to vendor' || COALESCE(' - ' || v_line.return_reason, '')
+    );
+
+    -- FIFO: take the quantity out of the layers the GRN created, then (when those were
+    -- already issued) out of the oldest layers, so the layers keep tying out to the ledger
+    IF get_inventory_valuation_method(v_return.company_id) = 'fifo' THEN
+      v_remaining := v_line.qty_returned;
+
+      FOR v_layer IN
+        SELECT cl.id, cl.qty_remaining
+        FROM inventory_cost_layers cl
+        JOIN raw_material_ledger rl ON rl.id = cl.receipt_ledger_id
+        WHERE rl.reference_type = 'PURCHASE'
+          AND rl.reference_id = v_return.grn_id
+          AND rl.material_id = v_line.material_id
+          AND cl.warehouse_id = v_return.warehouse_id
+          AND cl.qty_remaining > 0
+        ORDER BY cl.created_at, cl.id
+        FOR UPDATE OF cl
+      LOOP
+        EXIT WHEN v_remaining <= 0;
+        v_take := LEAST(v_layer.qty_remaining, v_remaining);
+
+        UPDATE inventory_cost_layers SET qty_remaining = qty_remaining - v_take WHERE id = v_layer.id;
+
+        INSERT INTO inventory_layer_consumptions (
+          company_id, layer_id, issue_ledger_id, consumed_date, reference_type, reference_number, qty, unit_cost
+        ) VALUES (
+          v_return.company_id, v_layer.id, v_ledger_id, v_return.return_date, 'PURCHASE_RETURN',
+          v_return.return_number, v_take, v_line.unit_cost
+        );
+
+        v_remaining := v_remaining - v_take;
+      END LOOP;
+
+      IF v_remaining > 0 THEN
+        PERFORM consume_fifo_layers(
+          v_return.company_id, 'RAW', v_line.material_id, v_return.warehouse_id, v_ledger_id, v_remaining,
+          v_return.return_date, 'PURCHASE_RETURN', v_return.return_number, v_line.unit_cost
+        );
+      END IF;
+    END IF;
+
+    v_total_cost := v_total_cost + ROUND(v_line.qty_returned * v_line.unit_cost, 2);
+  END LOOP;
+
+  INSERT INTO vendor_debit_notes (
+    company_id, debit_note_number, debit_note_date, vendor_id, return_id, period_id,
+    currency, exchange_rate, subtotal, tax_amount, created_by, notes
+  ) VALUES (
+    v_return.company_id, 'DN-' || v_return.return_number, v_return.return_date, v_return.vendor_id, v_return.id,
+    v_return.period_id, v_return.currency, v_return.exchange_rate, v_return.subtotal, v_return.tax_amount,
+    p_user_id, 'Purchase return ' || v_return.return_number
+  )
+  RETURNING id INTO v_debit_note_id;
+
+  UPDATE purchase_returns
+  SET
+    status = 'posted',
+    total_cost = v_total_cost,
+    posted_at = NOW(),
+    posted_by = p_user_id
+  WHERE id = p_return_id;
+
+  RETURN v_debit_note_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION post_purchase_return IS 'Post purchase return: issue returned goods at the received cost and issue the vendor debit note';
+
+-- ==================== RLS POLICIES ====================
+
+ALTER TABLE purchase_returns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_return_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vendor_debit_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE debit_note_allocations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY purchase_returns_tenant_isolation ON purchase_returns
+  FOR ALL USING (company_id IN (
+    SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+  ));
+
+CREATE POLICY purchase_return_lines_tenant ON purchase_return_lines
+  FOR ALL USING (return_id IN (
+    SELECT id FROM purchase_returns WHERE company_id IN (
+      SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+    )
+  ));
+
+CREATE POLICY vendor_debit_notes_tenant_isolation ON vendor_debit_notes
+  FOR ALL USING (company_id IN (
+    SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+  ));
+
+CREATE POLICY debit_note_allocations_tenant ON debit_note_allocations
+  FOR ALL USING (debit_note_id IN (
+    SELECT id FROM vendor_debit_notes WHERE company_id IN (
+      SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+    )
+  ));
+
+CREATE POLICY purchase_returns_service_role ON purchase_returns FOR ALL TO service_role USING (true) WITH CHECK (true);
+CREATE POLICY purchase_return_lines_service_role ON purchase_return_lines FOR ALL TO service_role USING (true) WITH CHECK (true);
+CREATE POLICY vendor_debit_notes_service_role ON vendor_debit_notes FOR ALL TO service_role USING (true) WITH CHECK (true);
+CREATE POLICY debit_note_allocations_service_role ON debit_note_allocations FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+ALTER FUNCTION public.apply_purchase_return_line SET search_path = public;
+ALTER FUNCTION public.update_purchase_return_total SET search_path = public;
+ALTER FUNCTION public.validate_debit_note_allocation SET search_path = public;
+ALTER FUNCTION public.update_debit_note_applied SET search_path = public;
+ALTER FUNCTION public.update_invoice_payment_status SET search_path = public;
+ALTER FUNCTION public.open_foreign_payables_at SET search_path = public;
+ALTER FUNCTION public.apply_inventory_cost SET search_path = public;
+ALTER FUNCTION public.recost_weighted_average SET search_path = public;
+ALTER FUNCTION public.post_purchase_return SET search_path = public;
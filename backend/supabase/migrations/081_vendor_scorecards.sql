@@ -0,0 +1,212 @@
+-- Migration: 081_vendor_scorecards.sql
+-- Description: Vendor performance scorecards from receipts, orders, invoices and returns: monthly trend view and ranking across vendors
+-- Dependencies: 013_purchase_orders.sql, 014_goods_receipt_notes.sql, 015_vendor_invoices.sql, 080_purchase_returns.sql
+-- Author: Ziyada ERP Team
+-- Date: 2026-01-23
+
+-- ==================== SCORING ====================
+
+-- Weighted 0-100 score over the metrics a vendor has data for:
+-- on-time 35, fill rate 25, QC rejects 20, returns 10, price variance 10 (each 1% off the PO price costs 5 points)
+CREATE OR REPLACE FUNCTION vendor_score(
+  p_on_time_pct DECIMAL,
+  p_fill_rate_pct DECIMAL,
+  p_reject_pct DECIMAL,
+  p_return_pct DECIMAL,
+  p_price_variance_pct DECIMAL
+)
+RETURNS DECIMAL
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT ROUND(
+    (COALESCE(35 * p_on_time_pct, 0)
+      + COALESCE(25 * LEAST(p_fill_rate_pct, 100), 0)
+      + COALESCE(20 * GREATEST(100 - p_reject_pct, 0), 0)
+      + COALESCE(10 * GREATEST(100 - p_return_pct, 0), 0)
+      + COALESCE(10 * GREATEST(100 - ABS(p_price_variance_pct) * 5, 0), 0))
+    / NULLIF(
+      CASE WHEN p_on_time_pct IS NULL THEN 0 ELSE 35 END
+      + CASE WHEN p_fill_rate_pct IS NULL THEN 0 ELSE 25 END
+      + CASE WHEN p_reject_pct IS NULL THEN 0 ELSE 20 END
+      + CASE WHEN p_return_pct IS NULL THEN 0 ELSE 10 END
+      + CASE WHEN p_price_variance_pct IS NULL THEN 0 ELSE 10 END,
+    0), 1);
+$$;
+
+COMMENT ON FUNCTION vendor_score IS 'Weighted vendor score (0-100); metrics without data are left out of the weighting';
+
+-- ==================== MONTHLY SCORECARD ====================
+
+-- Raw counts per vendor and month so periods can be re-aggregated:
+-- - on-time: posted GRNs dated on or before the PO delivery date
+-- - fill rate: received vs ordered on PO lines due that month (approved and later, already due)
+-- - rejects: QC rejected vs received quantity on posted GRNs
+-- - returns: quantity on posted purchase returns vs received that month
+-- - price variance: invoiced vs PO price on posted invoice lines; the percentage sums each line's
+--   absolute variance so over- and under-priced lines do not cancel out
+CREATE OR REPLACE VIEW vendor_scorecard_monthly_vw AS
+WITH receipts AS (
+  SELECT
+    grn.company_id,
+    grn.vendor_id,
+    DATE_TRUNC('month', grn.grn_date)::DATE AS month,
+    COUNT(*) FILTER (WHERE po.delivery_date IS NOT NULL) AS receipt_count,
+    COUNT(*) FILTER (WHERE grn.grn_date <= po.delivery_date) AS on_time_count,
+    COALESCE(SUM(q.qty_received), 0) AS qty_received,
+    COALESCE(SUM(q.qty_rejected), 0) AS qty_rejected
+  FROM goods_receipt_notes grn
+  JOIN purchase_orders po ON po.id = grn.po_id
+  LEFT JOIN LATERAL (
+    SELECT SUM(gl.qty_received) AS qty_received, SUM(COALESCE(gl.qty_rejected, 0)) AS qty_rejected
+    FROM grn_lines gl
+    WHERE gl.grn_id = grn.id
+  ) q ON true
+  WHERE grn.status = 'posted'
+  GROUP BY 1, 2, 3
+),
+fill AS (
+  SELECT
+    po.company_id,
+    po.vendor_id,
+    DATE_TRUNC('month', po.delivery_date)::DATE AS month,
+    SUM(pol.qty_ordered) AS qty_ordered,
+    SUM(LEAST(pol.qty_received, pol.qty_ordered)) AS qty_filled
+  FROM purchase_orders po
+  JOIN purchase_order_lines pol ON pol.po_id = po.id
+  WHERE po.status IN ('approved', 'partial', 'closed')
+    AND po.delivery_date <= CURRENT_DATE
+  GROUP BY 1, 2, 3
+),
+returns AS (
+  SELECT
+    pr.company_id,
+    pr.vendor_id,
+    DATE_TRUNC('month', pr.return_date)::DATE AS month,
+    SUM(prl.qty_returned) AS qty_returned
+  FROM purchase_returns pr
+  JOIN purchase_return_lines prl ON prl.return_id = pr.id
+  WHERE pr.status = 'posted'
+  GROUP BY 1, 2, 3
+),
+pricing AS (
+  SELECT
+    vi.company_id,
+    vi.vendor_id,
+    DATE_TRUNC('month', vi.invoice_date)::DATE AS month,
+    SUM(vil.po_unit_price * vil.qty_invoiced) AS po_value,
+    SUM(vil.price_variance) AS price_variance,
+    SUM(ABS(vil.price_variance)) AS price_variance_abs
+  FROM vendor_invoices vi
+  JOIN vendor_invoice_lines vil ON vil.invoice_id = vi.id
+  WHERE vi.status IN ('posted', 'partial_paid', 'paid')
+    AND vil.po_unit_price IS NOT NULL
+  GROUP BY 1, 2, 3
+),
+months AS (
+  SELECT company_id, vendor_id, month FROM receipts
+  UNION SELECT company_id, vendor_id, month FROM fill
+  UNION SELECT company_id, vendor_id, month FROM returns
+  UNION SELECT company_id, vendor_id, month FROM pricing
+),
+metrics AS (
+  SELECT
+    m.company_id,
+    m.vendor_id,
+    m.month,
+    COALESCE(r.receipt_count, 0) AS receipt_count,
+    COALESCE(r.on_time_count, 0) AS on_time_count,
+    COALESCE(f.qty_ordered, 0) AS qty_ordered,
+    COALESCE(f.qty_filled, 0) AS qty_filled,
+    COALESCE(r.qty_received, 0) AS qty_received,
+    COALESCE(r.qty_rejected, 0) AS qty_rejected,
+    COALESCE(rt.qty_returned, 0) AS qty_returned,
+    COALESCE(p.po_value, 0) AS po_value,
+    COALESCE(p.price_variance, 0) AS price_variance,
+    COALESCE(p.price_variance_abs, 0) AS price_variance_abs,
+    ROUND(r.on_time_count * 100.0 / NULLIF(r.receipt_count, 0), 2) AS on_time_pct,
+    ROUND(f.qty_filled * 100.0 / NULLIF(f.qty_ordered, 0), 2) AS fill_rate_pct,
+    ROUND(r.qty_rejected * 100.0 / NULLIF(r.qty_received, 0), 2) AS reject_pct,
+    CASE WHEN r.qty_received > 0 THEN ROUND(COALESCE(rt.qty_returned, 0) * 100.0 / r.qty_received, 2) END AS return_pct,
+    ROUND(p.price_variance_abs * 100.0 / NULLIF(p.po_value, 0), 2) AS price_variance_pct
+  FROM months m
+  LEFT JOIN receipts r ON r.company_id = m.company_id AND r.vendor_id = m.vendor_id AND r.month = m.month
+  LEFT JOIN fill f ON f.company_id = m.company_id AND f.vendor_id = m.vendor_id AND f.month = m.month
+  LEFT JOIN returns rt ON rt.company_id = m.company_id AND rt.vendor_id = m.vendor_id AND rt.month = m.month
+  LEFT JOIN pricing p ON p.company_id = m.company_id AND p.vendor_id = m.vendor_id AND p.month = m.month
+)
+SELECT
+  mt.*,
+  v.code AS vendor_code,
+  v.name AS vendor_name,
+  vendor_score(mt.on_time_pct, mt.fill_rate_pct, mt.reject_pct, mt.return_pct, mt.price_variance_pct) AS score
+FROM metrics mt
+JOIN vendors v ON v.id = mt.vendor_id;
+
+ALTER VIEW vendor_scorecard_monthly_vw SET (security_invoker = true);
+
+COMMENT ON VIEW vendor_scorecard_monthly_vw IS 'Vendor on-time delivery, fill rate, QC rejects, returns and price variance per month';
+
+-- ==================== RANKING ====================
+
+-- Scorecard over a date range per vendor, best score first
+CREATE OR REPLACE FUNCTION get_vendor_scorecard_ranking(
+  p_company_id UUID,
+  p_from DATE,
+  p_to DATE DEFAULT CURRENT_DATE
+)
+RETURNS TABLE (
+  rank BIGINT,
+  vendor_id UUID,
+  vendor_code VARCHAR,
+  vendor_name VARCHAR,
+  receipt_count BIGINT,
+  on_time_pct DECIMAL,
+  fill_rate_pct DECIMAL,
+  reject_pct DECIMAL,
+  return_pct DECIMAL,
+  price_variance_pct DECIMAL,
+  score DECIMAL
+)
+LANGUAGE plpgsql STABLE SECURITY DEFINER
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    PERFORM check_tenant_access(p_company_id);
+  END IF;
+
+  RETURN QUERY
+  WITH totals AS (
+    SELECT
+      s.vendor_id,
+      MAX(s.vendor_code)::VARCHAR AS vendor_code,
+      MAX(s.vendor_name)::VARCHAR AS vendor_name,
+      SUM(s.receipt_count)::BIGINT AS receipt_count,
+      ROUND(SUM(s.on_time_count) * 100.0 / NULLIF(SUM(s.receipt_count), 0), 2) AS on_time_pct,
+      ROUND(SUM(s.qty_filled) * 100.0 / NULLIF(SUM(s.qty_ordered), 0), 2) AS fill_rate_pct,
+      ROUND(SUM(s.qty_rejected) * 100.0 / NULLIF(SUM(s.qty_received), 0), 2) AS reject_pct,
+      ROUND(SUM(s.qty_returned) * 100.0 / NULLIF(SUM(s.qty_received), 0), 2) AS return_pct,
+      ROUND(SUM(s.price_variance_abs) * 100.0 / NULLIF(SUM(s.po_value), 0), 2) AS price_variance_pct
+    FROM vendor_scorecard_monthly_vw s
+    WHERE s.company_id = p_company_id
+      AND s.month >= DATE_TRUNC('month', p_from)::DATE
+      AND s.month <= p_to
+    GROUP BY s.vendor_id
+  ),
+  scored AS (
+    SELECT t.*, vendor_score(t.on_time_pct, t.fill_rate_pct, t.reject_pct, t.return_pct, t.price_variance_pct) AS score
+    FROM totals t
+  )
+  SELECT
+    RANK() OVER (ORDER BY sc.score DESC NULLS LAST),
+    sc.vendor_id, sc.vendor_code, sc.vendor_name, sc.receipt_count,
+    sc.on_time_pct, sc.fill_rate_pct, sc.reject_pct, sc.return_pct, sc.price_variance_pct,
+    sc.score
+  FROM scored sc
+  ORDER BY 1, sc.vendor_name;
+END;
+$$;
+
+COMMENT ON FUNCTION get_vendor_scorecard_ranking IS 'Vendors ranked by scorecard over the months in a date range';
+
+ALTER FUNCTION public.vendor_score SET search_path = public;
+ALTER FUNCTION public.get_vendor_scorecard_ranking SET search_path = public;
@@ -0,0 +1,687 @@
+-- Migration: 082_grn_quality_inspection.sql
+-- Description: Incoming quality inspection on goods receipts: inspected materials are received into the warehouse quarantine bin, accepted quantity is released to the put-away bin and rejected quantity is returned to the vendor
+-- Dependencies: 007_master_data_materials.sql, 014_goods_receipt_notes.sql, 065_sales_returns.sql, 078_replenishment_runs.sql, 080_purchase_returns.sql
+-- Author: Ziyada ERP Team
+-- Date: 2026-01-24
+
+ALTER TYPE reference_type ADD VALUE IF NOT EXISTS 'QC_INSPECTION';
+
+-- ==================== INSPECTION SETTINGS ====================
+
+ALTER TABLE material_categories
+ADD COLUMN IF NOT EXISTS requires_inspection BOOLEAN DEFAULT false;
+
+ALTER TABLE materials
+ADD COLUMN IF NOT EXISTS requires_inspection BOOLEAN;
+
+COMMENT ON COLUMN material_categories.requires_inspection IS 'Receipts of materials in this category (fabric, trims) go through incoming QC';
+COMMENT ON COLUMN materials.requires_inspection IS 'Overrides the category setting; NULL follows the category';
+
+CREATE OR REPLACE FUNCTION material_requires_inspection(p_material_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE
+AS $$
+  SELECT COALESCE(m.requires_inspection, mc.requires_inspection, false)
+  FROM materials m
+  LEFT JOIN material_categories mc ON mc.id = m.category_id
+  WHERE m.id = p_material_id;
+$$;
+
+-- ==================== GRN LINE INSPECTION ====================
+
+ALTER TABLE grn_lines
+ADD COLUMN IF NOT EXISTS qc_bin_id UUID REFERENCES bins(id),
+ADD COLUMN IF NOT EXISTS inspection_status VARCHAR(20) NOT NULL DEFAULT 'not_required',
+ADD COLUMN IF NOT EXISTS defect_reason VARCHAR(50),
+ADD COLUMN IF NOT EXISTS inspection_notes TEXT,
+ADD COLUMN IF NOT EXISTS inspected_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS inspected_by UUID REFERENCES auth.users(id);
+
+ALTER TABLE grn_lines
+ADD CONSTRAINT valid_grn_inspection_status CHECK (
+  inspection_status IN ('not_required', 'pending', 'accepted', 'partial', 'rejected')
+),
+ADD CONSTRAINT check_grn_inspected_qty CHECK (
+  inspection_status IN ('not_required', 'pending')
+  OR COALESCE(qty_accepted, 0) + COALESCE(qty_rejected, 0) = qty_received
+);
+
+CREATE INDEX IF NOT EXISTS idx_grn_lines_inspection_pending ON grn_lines(grn_id) WHERE inspection_status = 'pending';
+
+COMMENT ON COLUMN grn_lines.bin_id IS 'Put-away bin; inspected lines are released here from qc_bin_id';
+COMMENT ON COLUMN grn_lines.qc_bin_id IS 'Quarantine bin the line was received into while awaiting inspection';
+COMMENT ON COLUMN grn_lines.defect_reason IS 'SHADE_VARIATION, HOLES, STAINS, WIDTH_SHORT, GSM_OFF, WRONG_ITEM, OTHER';
+
+-- ==================== POSTING ====================
+
+-- Inspected materials are received into the quarantine bin; everything else straight into its bin
+CREATE OR REPLACE FUNCTION post_grn(p_grn_id UUID, p_user_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_grn RECORD;
+  v_line RECORD;
+  v_qc_bin_id UUID;
+  v_inspect BOOLEAN;
+BEGIN
+  -- Get GRN header
+  SELECT * INTO v_grn
+  FROM goods_receipt_notes
+  WHERE id = p_grn_id;
+
+  IF v_grn.status = 'posted' THEN
+    RAISE EXCEPTION 'GRN already posted';
+  END IF;
+
+  -- Post each line to raw material ledger
+  FOR v_line IN
+    SELECT * FROM grn_lines WHERE grn_id = p_grn_id
+  LOOP
+    v_inspect := material_requires_inspection(v_line.material_id);
+
+    IF v_inspect AND v_qc_bin_id IS NULL THEN
+      SELECT id INTO v_qc_bin_id
+      FROM bins
+      WHERE warehouse_id = v_grn.warehouse_id
+        AND is_quarantine = true
+        AND is_active = true
+      ORDER BY code
+      LIMIT 1;
+
+      IF v_qc_bin_id IS NULL THEN
+        RAISE EXCEPTION 'No quarantine bin found for warehouse; materials requiring inspection cannot be received';
+      END IF;
+    END IF;
+
+    INSERT INTO raw_material_ledger (
+      company_id, material_id, warehouse_id, bin_id, period_id,
+      transaction_date, transaction_type, reference_type, reference_id, reference_number,
+      qty_in, qty_out, unit_cost, created_by, is_posted, notes
+    ) VALUES (
+      v_grn.company_id, v_line.material_id, v_grn.warehouse_id,
+      CASE WHEN v_inspect THEN v_qc_bin_id ELSE v_line.bin_id END,
+      v_grn.period_id, v_grn.grn_date, 'RECEIPT', 'PURCHASE', v_grn.id, v_grn.grn_number,
+      v_line.qty_received, 0, v_line.unit_cost, p_user_id, true,
+      CASE WHEN v_inspect THEN 'Awaiting inspection' END
+    );
+
+    IF v_inspect THEN
+      UPDATE grn_lines
+      SET qc_bin_id = v_qc_bin_id, inspection_status = 'pending'
+      WHERE id = v_line.id;
+    ELSE
+      UPDATE grn_lines
+      SET qty_accepted = COALESCE(qty_accepted, qty_received)
+      WHERE id = v_line.id;
+    END IF;
+
+    -- Update PO line qty_received
+    IF v_line.po_line_id IS NOT NULL THEN
+      UPDATE purchase_order_lines
+      SET qty_received = qty_received + v_line.qty_received
+      WHERE id = v_line.po_line_id;
+    END IF;
+  END LOOP;
+
+  -- Update GRN status
+  UPDATE goods_receipt_notes
+  SET
+    status = 'posted',
+    posted_at = NOW(),
+    posted_by = p_user_id
+  WHERE id = p_grn_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION post_grn IS 'Post GRN to inventory ledger (quarantine bin for inspected materials) and update PO quantities';
+
+-- ==================== INSPECTION QUEUE ====================
+
+CREATE OR REPLACE VIEW grn_inspection_queue_vw AS
+SELECT
+  grn.company_id,
+  grn.id AS grn_id,
+  grn.grn_number,
+  grn.grn_date,
+  grn.po_id,
+  grn.warehouse_id,
+  grn.vendor_id,
+  v.name AS vendor_name,
+  gl.id AS grn_line_id,
+  gl.material_id,
+  m.code AS material_code,
+  m.name AS material_name,
+  m.unit_of_measure,
+  gl.qty_received,
+  gl.qc_bin_id,
+  qb.code AS qc_bin_code,
+  gl.bin_id,
+  b.code AS bin_code
+FROM grn_lines gl
+JOIN goods_receipt_notes grn ON grn.id = gl.grn_id
+JOIN vendors v ON v.id = grn.vendor_id
+JOIN materials m ON m.id = gl.material_id
+LEFT JOIN bins qb ON qb.id = gl.qc_bin_id
+JOIN bins b ON b.id = gl.bin_id
+WHERE gl.inspection_status = 'pending'
+  AND grn.status = 'posted';
+
+ALTER VIEW grn_inspection_queue_vw SET (security_invoker = true);
+
+COMMENT ON VIEW grn_inspection_queue_vw IS 'Received GRN lines waiting in quarantine for incoming inspection';
+
+-- Quantity rejected on inspection and still in quarantine: not on a non-void purchase return
+CREATE OR REPLACE VIEW grn_open_rejection_vw AS
+SELECT
+  grn.company_id,
+  grn.id AS grn_id,
+  grn.grn_number,
+  grn.po_id,
+  grn.vendor_id,
+  gl.id AS grn_line_id,
+  gl.material_id,
+  m.name AS material_name,
+  gl.qc_bin_id,
+  gl.defect_reason,
+  gl.qty_rejected,
+  gl.qty_rejected - COALESCE(ret.qty_returned, 0) AS qty_open
+FROM grn_lines gl
+JOIN goods_receipt_notes grn ON grn.id = gl.grn_id
+JOIN materials m ON m.id = gl.material_id
+LEFT JOIN (
+  SELECT prl.grn_line_id, prl.bin_id, SUM(prl.qty_returned) AS qty_returned
+  FROM purchase_return_lines prl
+  JOIN purchase_returns pr ON pr.id = prl.return_id
+  WHERE pr.status != 'void'
+  GROUP BY prl.grn_line_id, prl.bin_id
+) ret ON ret.grn_line_id = gl.id AND ret.bin_id = gl.qc_bin_id
+WHERE gl.qty_rejected > 0
+  AND gl.qty_rejected > COALESCE(ret.qty_returned, 0);
+
+ALTER VIEW grn_open_rejection_vw SET (security_invoker = true);
+
+COMMENT ON VIEW grn_open_rejection_vw IS 'Quantities rejected on incoming inspection not yet returned to the vendor';
+
+-- ==================== INSPECTION ====================
+
+-- Records the inspection result of a GRN line and releases the accepted quantity
+-- from quarantine to the put-away bin. Rejected quantity stays in quarantine until returned.
+CREATE OR REPLACE FUNCTION record_grn_inspection(
+  p_grn_line_id UUID,
+  p_qty_accepted DECIMAL,
+  p_qty_rejected DECIMAL,
+  p_defect_reason VARCHAR DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_line RECORD;
+  v_period_id UUID;
+  v_user_id UUID := COALESCE(p_user_id, auth.uid());
+BEGIN
+  SELECT gl.*, grn.company_id, grn.warehouse_id, grn.grn_number
+  INTO v_line
+  FROM grn_lines gl
+  JOIN goods_receipt_notes grn ON grn.id = gl.grn_id
+  WHERE gl.id = p_grn_line_id
+  FOR UPDATE OF gl;
+
+  IF v_line IS NULL THEN
+    RAISE EXCEPTION 'GRN line not found or access denied';
+  END IF;
+
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    PERFORM check_tenant_access(v_line.company_id);
+  END IF;
+
+  IF v_line.inspection_status != 'pending' THEN
+    RAISE EXCEPTION 'GRN line is not awaiting inspection';
+  END IF;
+
+  IF p_qty_accepted < 0 OR p_qty_rejected < 0 OR p_qty_accepted + p_qty_rejected != v_line.qty_received THEN
+    RAISE EXCEPTION 'Accepted (%) and rejected (%) must add up to the received quantity (%)',
+      p_qty_accepted, p_qty_rejected, v_line.qty_received;
+  END IF;
+
+  IF p_qty_rejected > 0 AND p_defect_reason IS NULL THEN
+    RAISE EXCEPTION 'A defect reason is required for rejected quantity';
+  END IF;
+
+  IF p_qty_accepted > 0 THEN
+    v_period_id := get_current_open_period(v_line.company_id);
+    IF v_period_id IS NULL THEN
+      RAISE EXCEPTION 'No open accounting period for today';
+    END IF;
+
+    INSERT INTO raw_material_ledger (
+      company_id, material_id, warehouse_id, bin_id, period_id,
+      transaction_date, transaction_type, reference_type, reference_id, reference_number,
+      qty_in, qty_out, unit_cost, created_by, is_posted, notes
+    ) VALUES
+    (
+      v_line.company_id, v_line.material_id, v_line.warehouse_id, v_line.qc_bin_id, v_period_id,
+      CURRENT_DATE, 'TRANSFER', 'QC_INSPECTION', v_line.id, v_line.grn_number,
+      0, p_qty_accepted, v_line.unit_cost, v_user_id, true, 'Released from quarantine'
+    ),
+    (
+      v_line.company_id, v_line.material_id, v_line.warehouse_id, v_line.bin_id, v_period_id,
+      CURRENT_DATE, 'TRANSFER', 'QC_INSPECTION', v_line.id, v_line.grn_number,
+      p_qty_accepted, 0, v_line.unit_cost, v_user_id, true, 'Accepted on inspection'
+    );
+  END IF;
+
+  UPDATE grn_lines
+  SET
+    qty_accepted = p_qty_accepted,
+    qty_rejected = p_qty_rejected,
+    defect_reason = CASE WHEN p_qty_rejected > 0 THEN p_defect_reason END,
+    inspection_notes = p_notes,
+    inspection_status = CASE
+      WHEN p_qty_rejected = 0 THEN 'accepted'
+      WHEN p_qty_accepted = 0 THEN 'rejected'
+      ELSE 'partial'
+    END,
+    inspected_at = NOW(),
+    inspected_by = v_user_id
+  WHERE id = p_grn_line_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION record_grn_inspection IS 'Record accepted / rejected quantities of an inspected GRN line and release the accepted quantity from quarantine';
+
+-- Draft purchase return of the rejected quantities on a GRN not yet returned, from the quarantine bin
+CREATE OR REPLACE FUNCTION create_purchase_return_from_rejections(
+  p_grn_id UUID,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_grn RECORD;
+  v_return_id UUID;
+  v_period_id UUID;
+  v_line RECORD;
+  v_line_number INTEGER := 0;
+BEGIN
+  SELECT grn.*, po.currency, po.exchange_rate INTO v_grn
+  FROM goods_receipt_notes grn
+  LEFT JOIN purchase_orders po ON po.id = grn.po_id
+  WHERE grn.id = p_grn_id;
+
+  IF v_grn IS NULL THEN
+    RAISE EXCEPTION 'GRN not found or access denied';
+  END IF;
+
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    PERFORM check_tenant_access(v_grn.company_id);
+  END IF;
+
+  v_period_id := get_current_open_period(v_grn.company_id);
+  IF v_period_id IS NULL THEN
+    RAISE EXCEPTION 'No open accounting period for today';
+  END IF;
+
+  FOR v_line IN
+    SELECT r.grn_line_id AS id, r.qc_bin_id, r.defect_reason, gl.inspection_notes, r.qty_open
+    FROM grn_open_rejection_vw r
+    JOIN grn_lines gl ON gl.id = r.grn_line_id
+    WHERE r.grn_id = p_grn_id
+    ORDER BY gl.id
+  LOOP
+    IF v_return_id IS NULL THEN
+      INSERT INTO purchase_returns (
+        company_id, return_number, return_date, grn_id, vendor_id, warehouse_id, period_id,
+        currency, exchange_rate, return_reason, created_by, notes
+      ) VALUES (
+        v_grn.company_id,
+        'PR-' || v_grn.grn_number || '-' || (
+          SELECT COUNT(*) + 1 FROM purchase_returns WHERE grn_id = p_grn_id
+        ),
+        CURRENT_DATE, p_grn_id, v_grn.vendor_id, v_grn.warehouse_id, v_period_id,
+        COALESCE(v_grn.currency, 'IDR'), COALESCE(v_grn.exchange_rate, 1), 'QUALITY_REJECTED',
+        COALESCE(p_user_id, auth.uid()), 'Rejected on incoming inspection of ' || v_grn.grn_number
+      )
+      RETURNING id INTO v_return_id;
+    END IF;
+
+    v_line_number := v_line_number + 1;
+
+    INSERT INTO purchase_return_lines (
+      return_id, line_number, grn_line_id, bin_id, qty_returned, return_reason, notes
+    ) VALUES (
+      v_return_id, v_line_number, v_line.id, v_line.qc_bin_id, v_line.qty_open,
+      v_line.defect_reason, v_line.inspection_notes
+    );
+  END LOOP;
+
+  IF v_return_id IS NULL THEN
+    RAISE EXCEPTION 'GRN has no rejected quantity left to return';
+  END IF;
+
+  RETURN v_return_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION create_purchase_return_from_rejections IS 'Create a draft purchase return of the quantities rejected on inspection of a GRN';
+
+-- ==================== AVAILABILITY ====================
+
+-- Stock in quarantine (awaiting inspection or rejected) is not available for replenishment
+CREATE OR REPLACE VIEW material_replenishment_position_vw AS
+SELECT
+  m.company_id,
+  m.id AS material_id,
+  w.id AS warehouse_id,
+  m.code AS material_code,
+  m.name AS material_name,
+  m.unit_of_measure,
+  m.reorder_level,
+  m.reorder_qty,
+  m.preferred_vendor_id,
+  m.standard_cost,
+  COALESCE(stock.on_hand_qty, 0) AS on_hand_qty,
+  COALESCE(orders.open_po_qty, 0) AS open_po_qty,
+  COALESCE(reservations.reserved_qty, 0) AS reserved_qty,
+  COALESCE(stock.on_hand_qty, 0) + COALESCE(orders.open_po_qty, 0) - COALESCE(reservations.reserved_qty, 0) AS projected_qty
+FROM materials m
+JOIN warehouses w ON w.company_id = m.company_id AND w.is_active = true
+LEFT JOIN (
+  SELECT mv.material_id, mv.warehouse_id, SUM(mv.current_qty) AS on_hand_qty
+  FROM raw_material_balance_mv mv
+  JOIN bins ON bins.id = mv.bin_id
+  WHERE COALESCE(bins.is_quarantine, false) = false
+  GROUP BY mv.material_id, mv.warehouse_id
+) stock ON stock.material_id = m.id AND stock.warehouse_id = w.id
+LEFT JOIN (
+  SELECT pol.material_id, po.warehouse_id, SUM(pol.qty_ordered - pol.qty_received) AS open_po_qty
+  FROM purchase_order_lines pol
+  JOIN purchase_orders po ON po.id = pol.po_id
+  WHERE po.status IN ('draft', 'submitted', 'approved', 'partial')
+  GROUP BY pol.material_id, po.warehouse_id
+) orders ON orders.material_id = m.id AND orders.warehouse_id = w.id
+LEFT JOIN (
+  SELECT pr.material_id, prod.warehouse_id, SUM(pr.qty_outstanding) AS reserved_qty
+  FROM production_reservations pr
+  JOIN production_orders prod ON prod.id = pr.production_order_id
+  WHERE prod.status IN ('planned', 'released', 'in_progress')
+    AND pr.qty_outstanding > 0
+  GROUP BY pr.material_id, prod.warehouse_id
+) reservations ON reservations.material_id = m.id AND reservations.warehouse_id = w.id
+WHERE m.status = 'active'
+  AND m.reorder_level > 0;
+
+-- ==================== COSTING ====================
+-- Quarantine releases are bin moves inside one warehouse at the received cost: they do not
+-- touch the cost position or FIFO layers, and the average replay skips them.
+
+CREATE OR REPLACE FUNCTION apply_inventory_cost()
+RETURNS TRIGGER
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_item_type VARCHAR;
+  v_item_id UUID;
+  v_qty DECIMAL;
+  v_value DECIMAL;
+  v_avg DECIMAL;
+  v_transfer_cost DECIMAL;
+  v_step RECORD;
+BEGIN
+  -- Quarantine release: a bin move within the warehouse at the received cost, position unchanged
+  IF NEW.reference_type = 'QC_INSPECTION' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Lock the running position for this item/warehouse
+  IF TG_TABLE_NAME = 'raw_material_ledger' THEN
+    v_item_type := 'RAW';
+    v_item_id := NEW.material_id;
+
+    INSERT INTO raw_material_costs (company_id, material_id, warehouse_id)
+    VALUES (NEW.company_id, NEW.material_id, NEW.warehouse_id)
+    ON CONFLICT (company_id, material_id, warehouse_id) DO NOTHING;
+
+    SELECT qty_on_hand, total_value, avg_unit_cost INTO v_qty, v_value, v_avg
+    FROM raw_material_costs
+    WHERE company_id = NEW.company_id AND material_id = NEW.material_id AND warehouse_id = NEW.warehouse_id
+    FOR UPDATE;
+
+    -- Transfer receipts carry the cost the source warehouse issued at
+    IF NEW.qty_in > 0 AND NEW.reference_type = 'TRANSFER' AND NEW.reference_id IS NOT NULL THEN
+      SELECT l.unit_cost INTO v_transfer_cost
+      FROM raw_material_ledger l
+      WHERE l.reference_id = NEW.reference_id AND l.material_id = NEW.material_id AND l.qty_out > 0
+      ORDER BY l.created_at DESC
+      LIMIT 1;
+    END IF;
+  ELSE
+    v_item_type := 'FG';
+    v_item_id := NEW.product_variant_id;
+
+    INSERT INTO finished_goods_costs (company_id, product_variant_id, warehouse_id)
+    VALUES (NEW.company_id, NEW.product_variant_id, NEW.warehouse_id)
+    ON CONFLICT (company_id, product_variant_id, warehouse_id) DO NOTHING;
+
+    SELECT qty_on_hand, total_value, avg_unit_cost INTO v_qty, v_value, v_avg
+    FROM finished_goods_costs
+    WHERE company_id = NEW.company_id AND product_variant_id = NEW.product_variant_id AND warehouse_id = NEW.warehouse_id
+    FOR UPDATE;
+
+    IF NEW.qty_in > 0 AND NEW.reference_type = 'TRANSFER' AND NEW.reference_id IS NOT NULL THEN
+      SELECT l.unit_cost INTO v_transfer_cost
+      FROM finished_goods_ledger l
+      WHERE l.reference_id = NEW.reference_id AND l.product_variant_id = NEW.product_variant_id AND l.qty_out > 0
+      ORDER BY l.created_at DESC
+      LIMIT 1;
+    END IF;
+  END IF;
+
+  IF NEW.qty_out > 0 AND NEW.reference_type = 'PURCHASE_RETURN' THEN
+    -- Valued at the received cost given by the caller
+    v_qty := v_qty - NEW.qty_out;
+    v_value := CASE WHEN v_qty > 0 THEN GREATEST(v_value - NEW.qty_out * NEW.unit_cost, 0) ELSE 0 END;
+  ELSIF get_inventory_valuation_method(NEW.company_id) = 'fifo' THEN
+    IF NEW.qty_out > 0 THEN
+      NEW.unit_cost := ROUND(consume_fifo_layers(
+        NEW.company_id, v_item_type, v_item_id, NEW.warehouse_id, NEW.id, NEW.qty_out,
+        NEW.transaction_date, NEW.reference_type, NEW.reference_number,
+        COALESCE(NULLIF(v_avg, 0), NEW.unit_cost)
+      ), 2);
+      v_qty := v_qty - NEW.qty_out;
+      v_value := CASE WHEN v_qty > 0 THEN GREATEST(v_value - NEW.qty_out * NEW.unit_cost, 0) ELSE 0 END;
+    ELSE
+      NEW.unit_cost := ROUND(COALESCE(v_transfer_cost, NEW.unit_cost), 2);
+
+      INSERT INTO inventory_cost_layers (
+        company_id, item_type, item_id, warehouse_id, source, receipt_ledger_id,
+        receipt_date, reference_number, qty_received, qty_remaining, unit_cost
+      ) VALUES (
+        NEW.company_id, v_item_type, v_item_id, NEW.warehouse_id,
+        CASE WHEN NEW.reference_type = 'TRANSFER' THEN 'TRANSFER' ELSE 'RECEIPT' END,
+        NEW.id, NEW.transaction_date, NEW.reference_number, NEW.qty_in, NEW.qty_in, NEW.unit_cost
+      );
+
+      v_value := CASE WHEN v_qty > 0 THEN v_value ELSE 0 END + NEW.qty_in * NEW.unit_cost;
+      v_qty := v_qty + NEW.qty_in;
+    END IF;
+  ELSE
+    -- Outflows ignore the caller's unit_cost; an empty position falls back to the last average
+    SELECT * INTO v_step FROM weighted_average_step(
+      v_qty, v_value, NEW.qty_in, NEW.qty_out,
+      CASE
+        WHEN NEW.qty_out > 0 THEN COALESCE(NULLIF(v_avg, 0), NEW.unit_cost)
+        ELSE COALESCE(v_transfer_cost, NEW.unit_cost)
+      END
+    );
+    NEW.unit_cost := ROUND(v_step.unit_cost, 2);
+    v_qty := v_step.qty;
+    v_value := v_step.value;
+  END IF;
+
+  IF v_item_type = 'RAW' THEN
+    UPDATE raw_material_costs SET
+      qty_on_hand = v_qty,
+      total_value = v_value,
+      avg_unit_cost = CASE WHEN v_qty > 0 THEN v_value / v_qty ELSE avg_unit_cost END,
+      updated_at = NOW()
+    WHERE company_id = NEW.company_id AND material_id = NEW.material_id AND warehouse_id = NEW.warehouse_id;
+  ELSE
+    UPDATE finished_goods_costs SET
+      qty_on_hand = v_qty,
+      total_value = v_value,
+      avg_unit_cost = CASE WHEN v_qty > 0 THEN v_value / v_qty ELSE avg_unit_cost END,
+      updated_at = NOW()
+    WHERE company_id = NEW.company_id AND product_variant_id = NEW.product_variant_id AND warehouse_id = NEW.warehouse_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION apply_inventory_cost() IS
+'Values outflows by the company valuation method (weighted average or FIFO layers), overriding the payload unit_cost except for purchase returns and quarantine releases';
+
+CREATE OR REPLACE FUNCTION recost_weighted_average(
+  p_company_id UUID,
+  p_item_type VARCHAR,
+  p_item_id UUID,
+  p_warehouse_id UUID,
+  p_from_date DATE,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER
+AS $$
+DECLARE
+  v_run_id UUID;
+  v_qty DECIMAL := 0;
+  v_value DECIMAL := 0;
+  v_step RECORD;
+  v_row RECORD;
+  v_total DECIMAL := 0;
+  v_before RECORD;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    PERFORM check_tenant_access(p_company_id);
+  END IF;
+
+  IF p_item_type NOT IN ('RAW', 'FG') THEN
+    RAISE EXCEPTION 'Invalid item type %', p_item_type;
+  END IF;
+
+  -- Lock the position so no movement is valued while replaying
+  IF p_item_type = 'RAW' THEN
+    SELECT qty_on_hand, total_value INTO v_before FROM raw_material_costs
+    WHERE company_id = p_company_id AND material_id = p_item_id AND warehouse_id = p_warehouse_id
+    FOR UPDATE;
+  ELSE
+    SELECT qty_on_hand, total_value INTO v_before FROM finished_goods_costs
+    WHERE company_id = p_company_id AND product_variant_id = p_item_id AND warehouse_id = p_warehouse_id
+    FOR UPDATE;
+  END IF;
+
+  INSERT INTO inventory_recost_runs (
+    company_id, run_number, item_type, item_id, warehouse_id, from_date,
+    qty_before, value_before, created_by
+  ) VALUES (
+    p_company_id,
+    'RC-' || TO_CHAR(NOW(), 'YYYYMMDD-HH24MISS-MS'),
+    p_item_type, p_item_id, p_warehouse_id, p_from_date,
+    v_before.qty_on_hand, v_before.total_value, COALESCE(p_user_id, auth.uid())
+  )
+  RETURNING id INTO v_run_id;
+
+  FOR v_row IN
+    SELECT id, transaction_date, created_at, reference_type, reference_number, qty_in, qty_out, unit_cost, false AS is_landed_cost
+    FROM raw_material_ledger
+    WHERE p_item_type = 'RAW' AND company_id = p_company_id AND material_id = p_item_id
+      AND warehouse_id = p_warehouse_id AND is_posted = true
+    UNION ALL
+    SELECT id, transaction_date, created_at, reference_type, reference_number, qty_in, qty_out, unit_cost, false
+    FROM finished_goods_ledger
+    WHERE p_item_type = 'FG' AND company_id = p_company_id AND product_variant_id = p_item_id
+      AND warehouse_id = p_warehouse_id AND is_posted = true
+    UNION ALL
+    SELECT a.id, v.voucher_date, v.posted_at, NULL::reference_type, v.voucher_number, 0, 0, a.capitalized_amount, true
+    FROM landed_cost_allocations a
+    JOIN landed_cost_vouchers v ON v.id = a.voucher_id
+    WHERE p_item_type = 'RAW' AND v.company_id = p_company_id AND a.material_id = p_item_id
+      AND a.warehouse_id = p_warehouse_id AND v.status = 'posted' AND a.capitalized_amount > 0
+    ORDER BY transaction_date, created_at, id
+  LOOP
+    IF v_row.is_landed_cost THEN
+      v_value := v_value + v_row.unit_cost;
+      CONTINUE;
+    END IF;
+
+    -- Quarantine releases move stock between bins of the same warehouse
+    IF v_row.reference_type = 'QC_INSPECTION' THEN
+      CONTINUE;
+    END IF;
+
+    -- Purchase returns keep their received cost
+    IF v_row.qty_out > 0 AND v_row.reference_type = 'PURCHASE_RETURN' THEN
+      v_qty := v_qty - v_row.qty_out;
+      v_value := CASE WHEN v_qty > 0 THEN GREATEST(v_value - v_row.qty_out * v_row.unit_cost, 0) ELSE 0 END;
+      CONTINUE;
+    END IF;
+
+    SELECT * INTO v_step FROM weighted_average_step(v_qty, v_value, v_row.qty_in, v_row.qty_out, v_row.unit_cost);
+
+    IF v_row.qty_out > 0 AND v_row.transaction_date >= p_from_date AND v_step.unit_cost <> v_row.unit_cost THEN
+      INSERT INTO inventory_recost_lines (
+        run_id, ledger_id, transaction_date, reference_type, reference_number,
+        qty_out, posted_unit_cost, recalculated_unit_cost, cost_difference
+      ) VALUES (
+        v_run_id, v_row.id, v_row.transaction_date, v_row.reference_type, v_row.reference_number,
+        v_row.qty_out, v_row.unit_cost, v_step.unit_cost,
+        ROUND(v_row.qty_out * (v_step.unit_cost - v_row.unit_cost), 2)
+      );
+      v_total := v_total + ROUND(v_row.qty_out * (v_step.unit_cost - v_row.unit_cost), 2);
+    END IF;
+
+    v_qty := v_step.qty;
+    v_value := v_step.value;
+  END LOOP;
+
+  IF p_item_type = 'RAW' THEN
+    INSERT INTO raw_material_costs (company_id, material_id, warehouse_id)
+    VALUES (p_company_id, p_item_id, p_warehouse_id)
+    ON CONFLICT (company_id, material_id, warehouse_id) DO NOTHING;
+
+    UPDATE raw_material_costs SET
+      qty_on_hand = v_qty,
+      total_value = v_value,
+      avg_unit_cost = CASE WHEN v_qty > 0 THEN v_value / v_qty ELSE avg_unit_cost END,
+      last_recosted_at = NOW(),
+      updated_at = NOW()
+    WHERE company_id = p_company_id AND material_id = p_item_id AND warehouse_id = p_warehouse_id;
+  ELSE
+    INSERT INTO finished_goods_costs (company_id, product_variant_id, warehouse_id)
+    VALUES (p_company_id, p_item_id, p_warehouse_id)
+    ON CONFLICT (company_id, product_variant_id, warehouse_id) DO NOTHING;
+
+    UPDATE finished_goods_costs SET
+      qty_on_hand = v_qty,
+      total_value = v_value,
+      avg_unit_cost = CASE WHEN v_qty > 0 THEN v_value / v_qty ELSE avg_unit_cost END,
+      last_recosted_at = NOW(),
+      updated_at = NOW()
+    WHERE company_id = p_company_id AND product_variant_id = p_item_id AND warehouse_id = p_warehouse_id;
+  END IF;
+
+  UPDATE inventory_recost_runs SET
+    qty_after = v_qty,
+    value_after = v_value,
+    total_difference = v_total
+  WHERE id = v_run_id;
+
+  RETURN v_run_id;
+END;
+$$;
+
+ALTER FUNCTION public.material_requires_inspection SET search_path = public;
+ALTER FUNCTION public.post_grn SET search_path = public;
+ALTER FUNCTION public.record_grn_inspection SET search_path = public;
+ALTER FUNCTION public.create_purchase_return_from_rejections SET search_path = public;
+ALTER FUNCTION public.apply_inventory_cost SET search_path = public;
+ALTER FUNCTION public.recost_weighted_average SET search_path = public;
@@ -0,0 +1,315 @@
+-- Migration: 083_multi_level_bom.sql
+-- Description: Multi-level BOM explosion through sub-assemblies (cut panels, printed fronts, patches) with phantom BOMs and cycle detection
+-- Dependencies: 017_manufacturing_bom.sql, 018_manufacturing_production_orders.sql
+-- Author: Ziyada ERP Team
+-- Date: 2026-01-25
+
+-- ==================== PHANTOM BOMS ====================
+
+-- A phantom sub-assembly is not stocked: it has no production order of its own and its
+-- components are required directly by the order of the parent product
+ALTER TABLE bom_headers
+ADD COLUMN IF NOT EXISTS is_phantom BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN bom_headers.is_phantom IS 'Non-stocked sub-assembly: blown through into the parent BOM on explosion';
+
+-- Active BOM of a product on a date, latest version first
+CREATE OR REPLACE FUNCTION active_bom_id(p_product_id UUID, p_date DATE DEFAULT CURRENT_DATE)
+RETURNS UUID
+LANGUAGE sql STABLE
+AS $$
+  SELECT id
+  FROM bom_headers
+  WHERE product_id = p_product_id
+    AND is_active = true
+    AND p_date BETWEEN effective_from AND COALESCE(effective_to, '9999-12-31')
+  ORDER BY effective_from DESC, created_at DESC
+  LIMIT 1;
+$$;
+
+COMMENT ON FUNCTION active_bom_id IS 'Active BOM of a product on a date';
+
+-- ==================== CYCLE DETECTION ====================
+
+-- First circular path through the BOMs of a product (all versions), as product codes
+-- 'TS-01 > FRONT-PRT > TS-01'; NULL when there is none
+CREATE OR REPLACE FUNCTION find_bom_cycle(p_product_id UUID)
+RETURNS TEXT
+LANGUAGE sql STABLE
+AS $$
+  WITH RECURSIVE walk AS (
+    SELECT
+      bl.component_product_id AS product_id,
+      ARRAY[p_product_id, bl.component_product_id] AS path,
+      bl.component_product_id = p_product_id AS is_cycle
+    FROM bom_lines bl
+    JOIN bom_headers bh ON bh.id = bl.bom_id
+    WHERE bh.product_id = p_product_id
+      AND bl.component_product_id IS NOT NULL
+
+    UNION ALL
+
+    SELECT
+      bl.component_product_id,
+      w.path || bl.component_product_id,
+      bl.component_product_id = ANY(w.path)
+    FROM walk w
+    JOIN bom_headers bh ON bh.product_id = w.product_id
+    JOIN bom_lines bl ON bl.bom_id = bh.id
+    WHERE bl.component_product_id IS NOT NULL
+      AND NOT w.is_cycle
+  )
+  SELECT (
+    SELECT string_agg(p.code, ' > ' ORDER BY u.ord)
+    FROM unnest(w.path) WITH ORDINALITY AS u(product_id, ord)
+    JOIN products p ON p.id = u.product_id
+  )
+  FROM walk w
+  WHERE w.is_cycle
+  ORDER BY array_length(w.path, 1)
+  LIMIT 1;
+$$;
+
+COMMENT ON FUNCTION find_bom_cycle IS 'First circular sub-assembly path reachable from a product, NULL if none';
+
+-- The 017 check exploded the component and waited for an error, but the explosion stopped
+-- at its level limit instead of failing, so cycles were never caught
+CREATE OR REPLACE FUNCTION validate_bom_no_circular()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_product_id UUID;
+  v_product_code VARCHAR;
+  v_component_code VARCHAR;
+BEGIN
+  SELECT bh.product_id, p.code INTO v_product_id, v_product_code
+  FROM bom_headers bh
+  JOIN products p ON p.id = bh.product_id
+  WHERE bh.id = NEW.bom_id;
+
+  SELECT code INTO v_component_code FROM products WHERE id = NEW.component_product_id;
+
+  IF NEW.component_product_id = v_product_id THEN
+    RAISE EXCEPTION 'Circular BOM reference: % cannot be a component of itself', v_product_code;
+  END IF;
+
+  -- Does the component, through any of its BOM versions, already use this product?
+  IF EXISTS (
+    WITH RECURSIVE used AS (
+      SELECT NEW.component_product_id AS product_id
+      UNION
+      SELECT bl.component_product_id
+      FROM used u
+      JOIN bom_headers bh ON bh.product_id = u.product_id
+      JOIN bom_lines bl ON bl.bom_id = bh.id
+      WHERE bl.component_product_id IS NOT NULL
+    )
+    SELECT 1 FROM used WHERE product_id = v_product_id
+  ) THEN
+    RAISE EXCEPTION 'Circular BOM reference: % already uses % in its BOM', v_component_code, v_product_code;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ==================== BOM EXPLOSION (RECURSIVE) ====================
+
+DROP FUNCTION IF EXISTS explode_bom(UUID, DECIMAL, INTEGER);
+
+-- Indented explosion of a BOM through every sub-assembly level. Quantities are per the
+-- BOM base quantity with scrap: qty_per / base_qty × parent quantity × (1 + scrap %).
+-- Sub-assemblies use their active BOM. is_requirement marks what the order for the top
+-- product consumes: materials and stocked sub-assemblies reached only through phantoms.
+-- Components below a stocked sub-assembly are listed for the structure but are the
+-- requirements of the sub-assembly's own order.
+CREATE OR REPLACE FUNCTION explode_bom(
+  p_product_id UUID,
+  p_qty DECIMAL(15,4),
+  p_max_level INTEGER DEFAULT 10,
+  p_bom_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  level_num INTEGER,
+  sort_path TEXT,
+  bom_id UUID,
+  bom_line_id UUID,
+  parent_product_id UUID,
+  material_id UUID,
+  material_code VARCHAR,
+  material_name VARCHAR,
+  component_product_id UUID,
+  product_code VARCHAR,
+  product_name VARCHAR,
+  qty_per DECIMAL(15,4),
+  total_qty DECIMAL(15,4),
+  scrap_percentage DECIMAL(5,2),
+  stage wip_stage,
+  uom VARCHAR,
+  component_bom_id UUID,
+  is_phantom BOOLEAN,
+  is_requirement BOOLEAN
+) AS $$
+DECLARE
+  v_bom_id UUID := COALESCE(p_bom_id, active_bom_id(p_product_id));
+  v_cycle TEXT;
+BEGIN
+  IF v_bom_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  v_cycle := find_bom_cycle(p_product_id);
+  IF v_cycle IS NOT NULL THEN
+    RAISE EXCEPTION 'Circular BOM reference: %', v_cycle;
+  END IF;
+
+  RETURN QUERY
+  WITH RECURSIVE bom_explosion AS (
+    -- Base level: lines of the given (or active) BOM
+    SELECT
+      1 AS level_num,
+      LPAD(bl.line_number::TEXT, 4, '0') AS sort_path,
+      bh.id AS bom_id,
+      bl.id AS bom_line_id,
+      bh.product_id AS parent_product_id,
+      bl.material_id,
+      bl.component_product_id,
+      bl.qty_per,
+      (bl.qty_per / bh.base_qty * p_qty * (1 + bl.scrap_percentage / 100))::DECIMAL(15,4) AS total_qty,
+      bl.scrap_percentage,
+      bl.stage,
+      bl.uom::VARCHAR AS uom,
+      sub.id AS component_bom_id,
+      COALESCE(sub.is_phantom, false) AS is_phantom,
+      true AS via_phantoms
+    FROM bom_lines bl
+    JOIN bom_headers bh ON bh.id = bl.bom_id
+    LEFT JOIN bom_headers sub ON sub.id = active_bom_id(bl.component_product_id)
+    WHERE bh.id = v_bom_id
+
+    UNION ALL
+
+    -- Recursive: lines of the active BOM of each sub-assembly
+    SELECT
+      be.level_num + 1,
+      be.sort_path || '.' || LPAD(bl.line_number::TEXT, 4, '0'),
+      bh.id,
+      bl.id,
+      bh.product_id,
+      bl.material_id,
+      bl.component_product_id,
+      bl.qty_per,
+      (bl.qty_per / bh.base_qty * be.total_qty * (1 + bl.scrap_percentage / 100))::DECIMAL(15,4),
+      bl.scrap_percentage,
+      bl.stage,
+      bl.uom::VARCHAR,
+      sub.id,
+      COALESCE(sub.is_phantom, false),
+      be.via_phantoms AND be.is_phantom
+    FROM bom_explosion be
+    JOIN bom_headers bh ON bh.id = be.component_bom_id
+    JOIN bom_lines bl ON bl.bom_id = bh.id
+    LEFT JOIN bom_headers sub ON sub.id = active_bom_id(bl.component_product_id)
+    WHERE be.level_num < p_max_level
+  )
+  SELECT
+    be.level_num,
+    be.sort_path,
+    be.bom_id,
+    be.bom_line_id,
+    be.parent_product_id,
+    be.material_id,
+    m.code,
+    m.name,
+    be.component_product_id,
+    cp.code,
+    cp.name,
+    be.qty_per,
+    be.total_qty,
+    be.scrap_percentage,
+    be.stage,
+    be.uom,
+    be.component_bom_id,
+    be.is_phantom,
+    be.via_phantoms AND NOT be.is_phantom
+  FROM bom_explosion be
+  LEFT JOIN materials m ON m.id = be.material_id
+  LEFT JOIN products cp ON cp.id = be.component_product_id
+  ORDER BY be.sort_path;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+COMMENT ON FUNCTION explode_bom IS 'Recursively explode a BOM through sub-assemblies; phantoms are blown through into the requirements of the parent';
+
+-- ==================== RESERVATIONS ====================
+
+-- Reserve what the order itself consumes: materials reached through phantoms, from the
+-- order's own BOM version. Stocked sub-assemblies are made on their own orders.
+CREATE OR REPLACE FUNCTION create_production_reservations(
+  p_production_order_id UUID
+)
+RETURNS VOID AS $$
+DECLARE
+  v_po RECORD;
+BEGIN
+  -- Get production order
+  SELECT * INTO v_po
+  FROM production_orders
+  WHERE id = p_production_order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Production order not found';
+  END IF;
+
+  -- Delete existing reservations
+  DELETE FROM production_reservations
+  WHERE production_order_id = p_production_order_id;
+
+  -- Create reservations from BOM explosion
+  INSERT INTO production_reservations (
+    production_order_id,
+    material_id,
+    stage,
+    qty_required,
+    unit_cost
+  )
+  SELECT
+    p_production_order_id,
+    e.material_id,
+    e.stage,
+    SUM(e.total_qty),
+    MAX(m.standard_cost)
+  FROM explode_bom(v_po.product_id, v_po.qty_planned, 10, v_po.bom_id) e
+  JOIN materials m ON m.id = e.material_id
+  WHERE e.material_id IS NOT NULL
+    AND e.is_requirement
+  GROUP BY e.material_id, e.stage;
+
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ==================== VIEWS ====================
+
+CREATE OR REPLACE VIEW bom_summary_vw AS
+SELECT
+  bh.id,
+  bh.company_id,
+  p.code as product_code,
+  p.name as product_name,
+  bh.version,
+  bh.base_qty,
+  bh.yield_percentage,
+  bh.is_active,
+  COUNT(bl.id) as component_count,
+  COUNT(CASE WHEN bl.material_id IS NOT NULL THEN 1 END) as material_count,
+  COUNT(CASE WHEN bl.component_product_id IS NOT NULL THEN 1 END) as subassembly_count,
+  bh.is_phantom
+FROM bom_headers bh
+JOIN products p ON p.id = bh.product_id
+LEFT JOIN bom_lines bl ON bl.bom_id = bh.id
+GROUP BY bh.id, p.code, p.name;
+
+ALTER FUNCTION public.active_bom_id SET search_path = public;
+ALTER FUNCTION public.find_bom_cycle SET search_path = public;
+ALTER FUNCTION public.validate_bom_no_circular SET search_path = public;
+ALTER FUNCTION public.explode_bom SET search_path = public;
+ALTER FUNCTION public.create_production_reservations SET search_path = public;
@@ -0,0 +1,430 @@
+-- Migration: 084_variant_matrix_bom.sql
+-- Description: Size-and-color matrix BOMs: consumption rules by size and material substitutions by color on BOM lines, production orders for a variant mix exploded per variant
+-- Dependencies: 006_master_data_products.sql, 018_manufacturing_production_orders.sql, 083_multi_level_bom.sql
+-- Author: Ziyada ERP Team
+-- Date: 2026-01-26
+
+-- ==================== SIZE CONSUMPTION RULES ====================
+
+-- XXL uses more fabric than S: qty_per for the size replaces the line quantity
+CREATE TABLE IF NOT EXISTS bom_line_size_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  bom_line_id UUID REFERENCES bom_lines(id) ON DELETE CASCADE NOT NULL,
+  size_id UUID REFERENCES sizes(id) NOT NULL,
+
+  qty_per DECIMAL(15,4) NOT NULL CHECK (qty_per > 0),
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(bom_line_id, size_id)
+);
+
+CREATE INDEX idx_bom_size_rules_line ON bom_line_size_rules(bom_line_id);
+
+COMMENT ON TABLE bom_line_size_rules IS 'Per-size quantity of a BOM line; sizes without a rule use the line qty_per';
+
+-- ==================== COLOR SUBSTITUTIONS ====================
+
+-- Thread follows the garment color: the material for the color replaces the line material
+CREATE TABLE IF NOT EXISTS bom_line_color_substitutions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  bom_line_id UUID REFERENCES bom_lines(id) ON DELETE CASCADE NOT NULL,
+  color_id UUID REFERENCES colors(id) NOT NULL,
+
+  material_id UUID REFERENCES materials(id) NOT NULL,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(bom_line_id, color_id)
+);
+
+CREATE INDEX idx_bom_color_subs_line ON bom_line_color_substitutions(bom_line_id);
+
+COMMENT ON TABLE bom_line_color_substitutions IS 'Per-color material of a BOM line; colors without a substitution use the line material';
+
+CREATE OR REPLACE FUNCTION validate_bom_color_substitution()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM bom_lines WHERE id = NEW.bom_line_id AND material_id IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Color substitutions apply to material lines only';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_validate_bom_color_substitution
+  BEFORE INSERT OR UPDATE ON bom_line_color_substitutions
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_bom_color_substitution();
+
+-- ==================== PRODUCTION ORDER VARIANT MIX ====================
+
+CREATE TABLE IF NOT EXISTS production_order_variants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  production_order_id UUID REFERENCES production_orders(id) ON DELETE CASCADE NOT NULL,
+  product_variant_id UUID REFERENCES product_variants(id) NOT NULL,
+
+  qty_planned DECIMAL(15,4) NOT NULL CHECK (qty_planned > 0),
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(production_order_id, product_variant_id)
+);
+
+CREATE INDEX idx_prod_order_variants_order ON production_order_variants(production_order_id);
+
+COMMENT ON TABLE production_order_variants IS 'Size / color mix of a production order; qty_planned of the order is their sum';
+
+-- Variants of the ordered product only, while the order is planned
+CREATE OR REPLACE FUNCTION validate_production_order_variant()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_order RECORD;
+BEGIN
+  SELECT product_id, status INTO v_order
+  FROM production_orders
+  WHERE id = NEW.production_order_id;
+
+  IF v_order.status != 'planned' THEN
+    RAISE EXCEPTION 'The variant mix can only change while the production order is planned';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM product_variants
+    WHERE id = NEW.product_variant_id AND product_id = v_order.product_id
+  ) THEN
+    RAISE EXCEPTION 'Variant does not belong to the product of the production order';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_validate_production_order_variant
+  BEFORE INSERT OR UPDATE ON production_order_variants
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_production_order_variant();
+
+CREATE OR REPLACE FUNCTION sync_production_order_qty()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_order_id UUID := COALESCE(NEW.production_order_id, OLD.production_order_id);
+  v_total DECIMAL(15,4);
+BEGIN
+  SELECT SUM(qty_planned) INTO v_total
+  FROM production_order_variants
+  WHERE production_order_id = v_order_id;
+
+  IF v_total > 0 THEN
+    UPDATE production_orders
+    SET qty_planned = v_total
+    WHERE id = v_order_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_sync_production_order_qty
+  AFTER INSERT OR UPDATE OR DELETE ON production_order_variants
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_production_order_qty();
+
+-- ==================== BOM EXPLOSION (RECURSIVE) ====================
+
+DROP FUNCTION IF EXISTS explode_bom(UUID, DECIMAL, INTEGER, UUID);
+
+-- Indented explosion of a BOM through every sub-assembly level. Quantities are per the
+-- BOM base quantity with scrap: qty_per / base_qty × parent quantity × (1 + scrap %).
+-- For a variant, pass its size and color: size rules replace qty_per and color
+-- substitutions replace the material on every level (a printed front follows the garment).
+-- Sub-assemblies use their active BOM. is_requirement marks what the order for the top
+-- product consumes: materials and stocked sub-assemblies reached only through phantoms.
+-- Components below a stocked sub-assembly are listed for the structure but are the
+-- requirements of the sub-assembly's own order.
+CREATE OR REPLACE FUNCTION explode_bom(
+  p_product_id UUID,
+  p_qty DECIMAL(15,4),
+  p_max_level INTEGER DEFAULT 10,
+  p_bom_id UUID DEFAULT NULL,
+  p_size_id UUID DEFAULT NULL,
+  p_color_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  level_num INTEGER,
+  sort_path TEXT,
+  bom_id UUID,
+  bom_line_id UUID,
+  parent_product_id UUID,
+  material_id UUID,
+  material_code VARCHAR,
+  material_name VARCHAR,
+  component_product_id UUID,
+  product_code VARCHAR,
+  product_name VARCHAR,
+  qty_per DECIMAL(15,4),
+  total_qty DECIMAL(15,4),
+  scrap_percentage DECIMAL(5,2),
+  stage wip_stage,
+  uom VARCHAR,
+  component_bom_id UUID,
+  is_phantom BOOLEAN,
+  is_requirement BOOLEAN,
+  is_variant_specific BOOLEAN
+) AS $$
+DECLARE
+  v_bom_id UUID := COALESCE(p_bom_id, active_bom_id(p_product_id));
+  v_cycle TEXT;
+BEGIN
+  IF v_bom_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  v_cycle := find_bom_cycle(p_product_id);
+  IF v_cycle IS NOT NULL THEN
+    RAISE EXCEPTION 'Circular BOM reference: %', v_cycle;
+  END IF;
+
+  RETURN QUERY
+  WITH RECURSIVE bom_explosion AS (
+    -- Base level: lines of the given (or active) BOM
+    SELECT
+      1 AS level_num,
+      LPAD(bl.line_number::TEXT, 4, '0') AS sort_path,
+      bh.id AS bom_id,
+      bl.id AS bom_line_id,
+      bh.product_id AS parent_product_id,
+      COALESCE(cs.material_id, bl.material_id) AS material_id,
+      bl.component_product_id,
+      COALESCE(sr.qty_per, bl.qty_per) AS qty_per,
+      (COALESCE(sr.qty_per, bl.qty_per) / bh.base_qty * p_qty * (1 + bl.scrap_percentage / 100))::DECIMAL(15,4) AS total_qty,
+      bl.scrap_percentage,
+      bl.stage,
+      bl.uom::VARCHAR AS uom,
+      sub.id AS component_bom_id,
+      COALESCE(sub.is_phantom, false) AS is_phantom,
+      true AS via_phantoms,
+      (sr.id IS NOT NULL OR cs.id IS NOT NULL) AS is_variant_specific
+    FROM bom_lines bl
+    JOIN bom_headers bh ON bh.id = bl.bom_id
+    LEFT JOIN bom_headers sub ON sub.id = active_bom_id(bl.component_product_id)
+    LEFT JOIN bom_line_size_rules sr ON sr.bom_line_id = bl.id AND sr.size_id = p_size_id
+    LEFT JOIN bom_line_color_substitutions cs ON cs.bom_line_id = bl.id AND cs.color_id = p_color_id
+    WHERE bh.id = v_bom_id
+
+    UNION ALL
+
+    -- Recursive: lines of the active BOM of each sub-assembly
+    SELECT
+      be.level_num + 1,
+      be.sort_path || '.' || LPAD(bl.line_number::TEXT, 4, '0'),
+      bh.id,
+      bl.id,
+      bh.product_id,
+      COALESCE(cs.material_id, bl.material_id),
+      bl.component_product_id,
+      COALESCE(sr.qty_per, bl.qty_per),
+      (COALESCE(sr.qty_per, bl.qty_per) / bh.base_qty * be.total_qty * (1 + bl.scrap_percentage / 100))::DECIMAL(15,4),
+      bl.scrap_percentage,
+      bl.stage,
+      bl.uom::VARCHAR,
+      sub.id,
+      COALESCE(sub.is_phantom, false),
+      be.via_phantoms AND be.is_phantom,
+      (sr.id IS NOT NULL OR cs.id IS NOT NULL)
+    FROM bom_explosion be
+    JOIN bom_headers bh ON bh.id = be.component_bom_id
+    JOIN bom_lines bl ON bl.bom_id = bh.id
+    LEFT JOIN bom_headers sub ON sub.id = active_bom_id(bl.component_product_id)
+    LEFT JOIN bom_line_size_rules sr ON sr.bom_line_id = bl.id AND sr.size_id = p_size_id
+    LEFT JOIN bom_line_color_substitutions cs ON cs.bom_line_id = bl.id AND cs.color_id = p_color_id
+    WHERE be.level_num < p_max_level
+  )
+  SELECT
+    be.level_num,
+    be.sort_path,
+    be.bom_id,
+    be.bom_line_id,
+    be.parent_product_id,
+    be.material_id,
+    m.code,
+    m.name,
+    be.component_product_id,
+    cp.code,
+    cp.name,
+    be.qty_per,
+    be.total_qty,
+    be.scrap_percentage,
+    be.stage,
+    be.uom,
+    be.component_bom_id,
+    be.is_phantom,
+    be.via_phantoms AND NOT be.is_phantom,
+    be.is_variant_specific
+  FROM bom_explosion be
+  LEFT JOIN materials m ON m.id = be.material_id
+  LEFT JOIN products cp ON cp.id = be.component_product_id
+  ORDER BY be.sort_path;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+COMMENT ON FUNCTION explode_bom IS 'Recursively explode a BOM through sub-assemblies, for a size and color when given; phantoms are blown through into the requirements of the parent';
+
+-- What a production order consumes, per variant of its mix. Orders without a mix
+-- explode the BOM for the planned quantity (product_variant_id NULL).
+CREATE OR REPLACE FUNCTION explode_production_order(p_production_order_id UUID)
+RETURNS TABLE (
+  product_variant_id UUID,
+  sku VARCHAR,
+  size_code VARCHAR,
+  color_code VARCHAR,
+  variant_qty DECIMAL(15,4),
+  material_id UUID,
+  material_code VARCHAR,
+  material_name VARCHAR,
+  component_product_id UUID,
+  product_code VARCHAR,
+  product_name VARCHAR,
+  stage wip_stage,
+  uom VARCHAR,
+  total_qty DECIMAL(15,4),
+  is_variant_specific BOOLEAN
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    v.id, v.sku, s.code, c.code, pov.qty_planned,
+    e.material_id, e.material_code, e.material_name,
+    e.component_product_id, e.product_code, e.product_name,
+    e.stage, e.uom, e.total_qty, e.is_variant_specific
+  FROM production_orders po
+  JOIN production_order_variants pov ON pov.production_order_id = po.id
+  JOIN product_variants v ON v.id = pov.product_variant_id
+  LEFT JOIN sizes s ON s.id = v.size_id
+  LEFT JOIN colors c ON c.id = v.color_id
+  CROSS JOIN LATERAL explode_bom(po.product_id, pov.qty_planned, 10, po.bom_id, v.size_id, v.color_id) e
+  WHERE po.id = p_production_order_id
+    AND e.is_requirement
+
+  UNION ALL
+
+  SELECT
+    NULL, NULL, NULL, NULL, po.qty_planned,
+    e.material_id, e.material_code, e.material_name,
+    e.component_product_id, e.product_code, e.product_name,
+    e.stage, e.uom, e.total_qty, e.is_variant_specific
+  FROM production_orders po
+  CROSS JOIN LATERAL explode_bom(po.product_id, po.qty_planned, 10, po.bom_id) e
+  WHERE po.id = p_production_order_id
+    AND e.is_requirement
+    AND NOT EXISTS (
+      SELECT 1 FROM production_order_variants pov WHERE pov.production_order_id = po.id
+    );
+$$;
+
+COMMENT ON FUNCTION explode_production_order IS 'Material and stocked sub-assembly requirements of a production order per variant of its mix';
+
+-- ==================== RESERVATIONS ====================
+
+-- Exact per-variant material needs, summed per material and stage
+CREATE OR REPLACE FUNCTION create_production_reservations(
+  p_production_order_id UUID
+)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM production_orders WHERE id = p_production_order_id) THEN
+    RAISE EXCEPTION 'Production order not found';
+  END IF;
+
+  -- Delete existing reservations
+  DELETE FROM production_reservations
+  WHERE production_order_id = p_production_order_id;
+
+  -- Create reservations from the per-variant explosion
+  INSERT INTO production_reservations (
+    production_order_id,
+    material_id,
+    stage,
+    qty_required,
+    unit_cost
+  )
+  SELECT
+    p_production_order_id,
+    e.material_id,
+    e.stage,
+    SUM(e.total_qty),
+    MAX(m.standard_cost)
+  FROM explode_production_order(p_production_order_id) e
+  JOIN materials m ON m.id = e.material_id
+  WHERE e.material_id IS NOT NULL
+  GROUP BY e.material_id, e.stage;
+
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ==================== VIEWS ====================
+
+-- Active variants of a product in size then color order, for entering an order mix
+CREATE OR REPLACE VIEW product_variant_matrix_vw AS
+SELECT
+  v.id,
+  v.company_id,
+  v.product_id,
+  v.sku,
+  v.size_id,
+  v.color_id,
+  s.code AS size_code,
+  c.code AS color_code,
+  COALESCE(s.sort_order, 0) AS size_sort_order,
+  COALESCE(c.sort_order, 0) AS color_sort_order
+FROM product_variants v
+LEFT JOIN sizes s ON s.id = v.size_id
+LEFT JOIN colors c ON c.id = v.color_id
+WHERE v.status = 'active';
+
+ALTER VIEW product_variant_matrix_vw SET (security_invoker = true);
+
+-- ==================== RLS POLICIES ====================
+
+ALTER TABLE bom_line_size_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bom_line_color_substitutions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE production_order_variants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY bom_size_rules_tenant ON bom_line_size_rules
+  FOR ALL USING (bom_line_id IN (
+    SELECT bl.id FROM bom_lines bl
+    JOIN bom_headers bh ON bh.id = bl.bom_id
+    WHERE bh.company_id IN (
+      SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+    )
+  ));
+
+CREATE POLICY bom_color_subs_tenant ON bom_line_color_substitutions
+  FOR ALL USING (bom_line_id IN (
+    SELECT bl.id FROM bom_lines bl
+    JOIN bom_headers bh ON bh.id = bl.bom_id
+    WHERE bh.company_id IN (
+      SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+    )
+  ));
+
+CREATE POLICY prod_order_variants_tenant ON production_order_variants
+  FOR ALL USING (production_order_id IN (
+    SELECT id FROM production_orders WHERE company_id IN (
+      SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+    )
+  ));
+
+CREATE POLICY bom_size_rules_service_role ON bom_line_size_rules FOR ALL TO service_role USING (true) WITH CHECK (true);
+CREATE POLICY bom_color_subs_service_role ON bom_line_color_substitutions FOR ALL TO service_role USING (true) WITH CHECK (true);
+CREATE POLICY prod_order_variants_service_role ON production_order_variants FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+ALTER FUNCTION public.validate_bom_color_substitution SET search_path = public;
+ALTER FUNCTION public.validate_production_order_variant SET search_path = public;
+ALTER FUNCTION public.sync_production_order_qty SET search_path = public;
+ALTER FUNCTION public.explode_bom SET search_path = public;
+ALTER FUNCTION public.explode_production_order SET search_path = public;
+ALTER FUNCTION public.create_production_reservations SET search_path = public;
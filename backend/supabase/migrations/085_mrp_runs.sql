@@ -0,0 +1,441 @@
+-- Migration: 085_mrp_runs.sql
+-- Description: Company-wide MRP runs: gross requirements from open sales orders, production orders and safety stock netted against on-hand stock, open POs and open production orders; time-phased planned buy/make orders and expedite/defer/cancel action messages
+-- Dependencies: 018_manufacturing_production_orders.sql, 022_sales_orders.sql, 078_replenishment_runs.sql, 083_multi_level_bom.sql, 084_variant_matrix_bom.sql
+-- Author: Ziyada ERP Team
+-- Date: 2026-01-27
+
+-- ==================== PLANNING PARAMETERS ====================
+
+ALTER TABLE materials
+ADD COLUMN IF NOT EXISTS safety_stock DECIMAL(15,2) NOT NULL DEFAULT 0 CHECK (safety_stock >= 0);
+
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS safety_stock DECIMAL(15,2) NOT NULL DEFAULT 0 CHECK (safety_stock >= 0),
+ADD COLUMN IF NOT EXISTS lead_time_days INTEGER NOT NULL DEFAULT 0 CHECK (lead_time_days >= 0);
+
+COMMENT ON COLUMN materials.safety_stock IS 'Stock MRP keeps on hand; a shortfall is planned as a requirement on the run date';
+COMMENT ON COLUMN products.safety_stock IS 'Finished stock MRP keeps on hand, all variants together';
+COMMENT ON COLUMN products.lead_time_days IS 'Manufacturing lead time; planned production orders are released this many days before they are due';
+
+-- ==================== MRP RUNS ====================
+
+CREATE TABLE IF NOT EXISTS mrp_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE NOT NULL,
+  run_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  -- Receipts within this many days of their need date get no expedite/defer message
+  tolerance_days INTEGER NOT NULL DEFAULT 2 CHECK (tolerance_days >= 0),
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id)
+);
+
+CREATE INDEX idx_mrp_runs_company ON mrp_runs(company_id, created_at DESC);
+
+COMMENT ON TABLE mrp_runs IS 'Company-wide material requirements planning run';
+
+-- Item of a requirement, planned order or receipt: a material (buy) or a product with an active BOM (make)
+CREATE TABLE IF NOT EXISTS mrp_requirements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID REFERENCES mrp_runs(id) ON DELETE CASCADE NOT NULL,
+  material_id UUID REFERENCES materials(id),
+  product_id UUID REFERENCES products(id),
+  required_date DATE NOT NULL,
+  qty DECIMAL(15,4) NOT NULL CHECK (qty > 0),
+
+  source_type VARCHAR(20) NOT NULL
+    CHECK (source_type IN ('sales_order', 'production_order', 'planned_order', 'safety_stock')),
+  sales_order_id UUID REFERENCES sales_orders(id) ON DELETE SET NULL,
+  production_order_id UUID REFERENCES production_orders(id) ON DELETE SET NULL,
+  planned_order_id UUID,  -- Parent planned make order (dependent demand)
+  source_number VARCHAR(50),
+
+  CONSTRAINT check_mrp_requirement_item CHECK ((material_id IS NULL) <> (product_id IS NULL))
+);
+
+CREATE INDEX idx_mrp_requirements_run ON mrp_requirements(run_id, required_date);
+
+COMMENT ON TABLE mrp_requirements IS 'Gross requirements of an MRP run, pegged to the document that causes them';
+
+CREATE TABLE IF NOT EXISTS mrp_planned_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID REFERENCES mrp_runs(id) ON DELETE CASCADE NOT NULL,
+  order_type VARCHAR(10) NOT NULL CHECK (order_type IN ('buy', 'make')),
+  material_id UUID REFERENCES materials(id),
+  product_id UUID REFERENCES products(id),
+  bom_id UUID REFERENCES bom_headers(id),
+  vendor_id UUID REFERENCES vendors(id),
+
+  qty DECIMAL(15,4) NOT NULL CHECK (qty > 0),
+  net_requirement DECIMAL(15,4) NOT NULL,  -- Shortage covered; qty is rounded up to the minimum lot
+  release_date DATE NOT NULL,
+  due_date DATE NOT NULL,
+  is_late BOOLEAN NOT NULL DEFAULT false,  -- Release date before the run date
+
+  status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'done', 'dismissed')),
+  reviewed_by UUID REFERENCES auth.users(id),
+  reviewed_at TIMESTAMPTZ,
+
+  CONSTRAINT check_mrp_planned_order_item CHECK (
+    (order_type = 'buy' AND material_id IS NOT NULL AND product_id IS NULL) OR
+    (order_type = 'make' AND product_id IS NOT NULL AND material_id IS NULL AND bom_id IS NOT NULL)
+  )
+);
+
+CREATE INDEX idx_mrp_planned_orders_run ON mrp_planned_orders(run_id, release_date);
+
+ALTER TABLE mrp_requirements
+ADD CONSTRAINT fk_mrp_requirement_planned_order
+FOREIGN KEY (planned_order_id) REFERENCES mrp_planned_orders(id) ON DELETE CASCADE;
+
+COMMENT ON TABLE mrp_planned_orders IS 'Time-phased buy (purchase) and make (production) orders suggested by an MRP run';
+
+-- Open POs and production orders as the run found them; action is what the planner should do with them
+CREATE TABLE IF NOT EXISTS mrp_scheduled_receipts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID REFERENCES mrp_runs(id) ON DELETE CASCADE NOT NULL,
+  material_id UUID REFERENCES materials(id),
+  product_id UUID REFERENCES products(id),
+
+  source_type VARCHAR(20) NOT NULL CHECK (source_type IN ('purchase_order', 'production_order')),
+  purchase_order_id UUID REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  po_line_id UUID REFERENCES purchase_order_lines(id) ON DELETE CASCADE,
+  production_order_id UUID REFERENCES production_orders(id) ON DELETE CASCADE,
+  document_number VARCHAR(50) NOT NULL,
+
+  receipt_date DATE NOT NULL,
+  qty DECIMAL(15,4) NOT NULL CHECK (qty > 0),
+  qty_needed DECIMAL(15,4) NOT NULL DEFAULT 0,
+  needed_date DATE,  -- First requirement the receipt covers
+
+  action VARCHAR(20) CHECK (action IN ('expedite', 'defer', 'cancel')),
+  action_status VARCHAR(20) CHECK (action_status IN ('open', 'done', 'dismissed')),
+  reviewed_by UUID REFERENCES auth.users(id),
+  reviewed_at TIMESTAMPTZ,
+
+  CONSTRAINT check_mrp_receipt_action CHECK ((action IS NULL) = (action_status IS NULL))
+);
+
+CREATE INDEX idx_mrp_receipts_run ON mrp_scheduled_receipts(run_id, receipt_date);
+CREATE INDEX idx_mrp_receipts_action ON mrp_scheduled_receipts(run_id) WHERE action IS NOT NULL;
+
+COMMENT ON TABLE mrp_scheduled_receipts IS 'Open supply of an MRP run with expedite/defer/cancel action messages';
+
+-- ==================== PLANNING ITEMS ====================
+
+-- What MRP plans: active materials (bought) and products with an active, non-phantom BOM (made).
+-- low_level_code orders products so every parent is netted before its stocked sub-assemblies.
+CREATE OR REPLACE VIEW mrp_items_vw AS
+WITH RECURSIVE product_bom AS (
+  SELECT p.id AS product_id, p.company_id, active_bom_id(p.id) AS bom_id
+  FROM products p
+  WHERE p.status = 'active'
+),
+levels AS (
+  SELECT pb.product_id, 0 AS low_level_code
+  FROM product_bom pb
+
+  UNION ALL
+
+  SELECT bl.component_product_id, l.low_level_code + 1
+  FROM levels l
+  JOIN product_bom pb ON pb.product_id = l.product_id
+  JOIN bom_lines bl ON bl.bom_id = pb.bom_id
+  WHERE bl.component_product_id IS NOT NULL
+    AND l.low_level_code < 10
+)
+SELECT
+  pb.company_id,
+  'product'::VARCHAR AS item_type,
+  NULL::UUID AS material_id,
+  p.id AS product_id,
+  p.code,
+  p.name,
+  p.unit_of_measure::VARCHAR AS uom,
+  pb.bom_id,
+  COALESCE(stock.on_hand_qty, 0) AS on_hand_qty,
+  p.safety_stock,
+  p.lead_time_days,
+  0::DECIMAL(15,2) AS min_lot_qty,
+  NULL::UUID AS preferred_vendor_id,
+  (SELECT MAX(l.low_level_code) FROM levels l WHERE l.product_id = p.id) AS low_level_code
+FROM product_bom pb
+JOIN products p ON p.id = pb.product_id
+JOIN bom_headers bh ON bh.id = pb.bom_id
+LEFT JOIN (
+  SELECT v.product_id, SUM(fg.current_qty) AS on_hand_qty
+  FROM finished_goods_balance_mv fg
+  JOIN product_variants v ON v.id = fg.product_variant_id
+  JOIN bins ON bins.id = fg.bin_id
+  WHERE COALESCE(bins.is_quarantine, false) = false
+  GROUP BY v.product_id
+) stock ON stock.product_id = p.id
+WHERE NOT COALESCE(bh.is_phantom, false)
+
+UNION ALL
+
+SELECT
+  m.company_id,
+  'material'::VARCHAR,
+  m.id,
+  NULL::UUID,
+  m.code,
+  m.name,
+  m.unit_of_measure::VARCHAR,
+  NULL::UUID,
+  COALESCE(stock.on_hand_qty, 0),
+  m.safety_stock,
+  COALESCE(m.lead_time_days, 0),
+  m.reorder_qty,
+  m.preferred_vendor_id,
+  NULL::INTEGER
+FROM materials m
+LEFT JOIN (
+  SELECT mv.material_id, SUM(mv.current_qty) AS on_hand_qty
+  FROM raw_material_balance_mv mv
+  JOIN bins ON bins.id = mv.bin_id
+  WHERE COALESCE(bins.is_quarantine, false) = false
+  GROUP BY mv.material_id
+) stock ON stock.material_id = m.id
+WHERE m.status = 'active';
+
+ALTER VIEW mrp_items_vw SET (security_invoker = true);
+
+COMMENT ON VIEW mrp_items_vw IS 'Items MRP plans with on-hand stock (all warehouses, quarantine bins excluded), safety stock, lead time and low-level code';
+
+-- ==================== RUN ====================
+
+-- Nets requirements level by level: products by low-level code (parents first), then materials.
+-- Per item and requirement date: free stock (on hand - safety stock) first, then open receipts in
+-- date order, then a planned order due on that date and released lead-time days earlier. Planned
+-- make orders add their components as requirements on the release date.
+CREATE OR REPLACE FUNCTION run_mrp(
+  p_company_id UUID,
+  p_user_id UUID,
+  p_tolerance_days INTEGER DEFAULT 2
+)
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER
+AS $$
+DECLARE
+  v_run_id UUID;
+  v_item RECORD;
+  v_req RECORD;
+  v_receipt RECORD;
+  v_component RECORD;
+  v_balance DECIMAL(15,4);
+  v_need DECIMAL(15,4);
+  v_take DECIMAL(15,4);
+  v_qty DECIMAL(15,4);
+  v_release DATE;
+  v_planned_id UUID;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    PERFORM check_tenant_access(p_company_id);
+  END IF;
+
+  INSERT INTO mrp_runs (company_id, tolerance_days, created_by)
+  VALUES (p_company_id, p_tolerance_days, p_user_id)
+  RETURNING id INTO v_run_id;
+
+  -- Independent demand: open sales order lines, rolled up from variant to product
+  INSERT INTO mrp_requirements (run_id, product_id, required_date, qty, source_type, sales_order_id, source_number)
+  SELECT v_run_id, v.product_id, COALESCE(so.delivery_date, so.due_date, so.so_date),
+    SUM(sol.qty_ordered - sol.qty_delivered), 'sales_order', so.id, so.so_number
+  FROM sales_order_lines sol
+  JOIN sales_orders so ON so.id = sol.so_id
+  JOIN product_variants v ON v.id = sol.product_variant_id
+  WHERE so.company_id = p_company_id
+    AND so.status IN ('approved', 'sent', 'in_delivery')
+    AND sol.qty_ordered > sol.qty_delivered
+  GROUP BY v.product_id, so.id;
+
+  -- Dependent demand of open production orders: outstanding material reservations...
+  INSERT INTO mrp_requirements (run_id, material_id, required_date, qty, source_type, production_order_id, source_number)
+  SELECT v_run_id, pr.material_id, COALESCE(prod.start_date, prod.po_date),
+    SUM(pr.qty_outstanding), 'production_order', prod.id, prod.po_number
+  FROM production_reservations pr
+  JOIN production_orders prod ON prod.id = pr.production_order_id
+  WHERE prod.company_id = p_company_id
+    AND prod.status IN ('planned', 'released', 'in_progress')
+    AND pr.qty_outstanding > 0
+  GROUP BY pr.material_id, prod.id;
+
+  -- ...and the stocked sub-assemblies they consume, for what is still to be made
+  INSERT INTO mrp_requirements (run_id, product_id, required_date, qty, source_type, production_order_id, source_number)
+  SELECT v_run_id, e.component_product_id, COALESCE(prod.start_date, prod.po_date),
+    ROUND(SUM(e.total_qty) * prod.qty_outstanding / prod.qty_planned, 4), 'production_order', prod.id, prod.po_number
+  FROM production_orders prod
+  CROSS JOIN LATERAL explode_production_order(prod.id) e
+  WHERE prod.company_id = p_company_id
+    AND prod.status IN ('planned', 'released', 'in_progress')
+    AND prod.qty_outstanding > 0
+    AND e.component_product_id IS NOT NULL
+  GROUP BY e.component_product_id, prod.id
+  HAVING ROUND(SUM(e.total_qty) * prod.qty_outstanding / prod.qty_planned, 4) > 0;
+
+  -- Scheduled receipts: open PO lines (drafts too, like replenishment) and open production orders
+  INSERT INTO mrp_scheduled_receipts (
+    run_id, material_id, source_type, purchase_order_id, po_line_id, document_number, receipt_date, qty
+  )
+  SELECT v_run_id, pol.material_id, 'purchase_order', po.id, pol.id, po.po_number,
+    COALESCE(po.delivery_date, po.po_date + COALESCE(m.lead_time_days, 0)), pol.qty_ordered - pol.qty_received
+  FROM purchase_order_lines pol
+  JOIN purchase_orders po ON po.id = pol.po_id
+  JOIN materials m ON m.id = pol.material_id
+  WHERE po.company_id = p_company_id
+    AND po.status IN ('draft', 'submitted', 'approved', 'partial')
+    AND pol.qty_ordered > pol.qty_received;
+
+  INSERT INTO mrp_scheduled_receipts (
+    run_id, product_id, source_type, production_order_id, document_number, receipt_date, qty
+  )
+  SELECT v_run_id, prod.product_id, 'production_order', prod.id, prod.po_number,
+    COALESCE(prod.due_date, prod.start_date, prod.po_date), prod.qty_outstanding
+  FROM production_orders prod
+  WHERE prod.company_id = p_company_id
+    AND prod.status IN ('planned', 'released', 'in_progress')
+    AND prod.qty_outstanding > 0;
+
+  FOR v_item IN
+    SELECT *
+    FROM mrp_items_vw
+    WHERE company_id = p_company_id
+    ORDER BY item_type DESC, low_level_code, code  -- 'product' before 'material'
+  LOOP
+    v_balance := v_item.on_hand_qty - v_item.safety_stock;
+
+    IF v_balance < 0 THEN
+      INSERT INTO mrp_requirements (run_id, material_id, product_id, required_date, qty, source_type)
+      VALUES (v_run_id, v_item.material_id, v_item.product_id, CURRENT_DATE, -v_balance, 'safety_stock');
+      v_balance := 0;
+    END IF;
+
+    FOR v_req IN
+      SELECT required_date, SUM(qty) AS qty
+      FROM mrp_requirements
+      WHERE run_id = v_run_id
+        AND material_id IS NOT DISTINCT FROM v_item.material_id
+        AND product_id IS NOT DISTINCT FROM v_item.product_id
+      GROUP BY required_date
+      ORDER BY required_date
+    LOOP
+      v_take := LEAST(v_balance, v_req.qty);
+      v_balance := v_balance - v_take;
+      v_need := v_req.qty - v_take;
+
+      FOR v_receipt IN
+        SELECT id, qty - qty_needed AS remaining
+        FROM mrp_scheduled_receipts
+        WHERE run_id = v_run_id
+          AND material_id IS NOT DISTINCT FROM v_item.material_id
+          AND product_id IS NOT DISTINCT FROM v_item.product_id
+          AND qty > qty_needed
+        ORDER BY receipt_date, document_number
+      LOOP
+        EXIT WHEN v_need <= 0;
+
+        v_take := LEAST(v_receipt.remaining, v_need);
+        v_need := v_need - v_take;
+
+        UPDATE mrp_scheduled_receipts
+        SET qty_needed = qty_needed + v_take,
+            needed_date = COALESCE(needed_date, v_req.required_date)
+        WHERE id = v_receipt.id;
+      END LOOP;
+
+      IF v_need > 0 THEN
+        v_qty := GREATEST(v_need, v_item.min_lot_qty);
+        v_balance := v_balance + v_qty - v_need;
+        v_release := v_req.required_date - v_item.lead_time_days;
+
+        INSERT INTO mrp_planned_orders (
+          run_id, order_type, material_id, product_id, bom_id, vendor_id,
+          qty, net_requirement, release_date, due_date, is_late
+        )
+        VALUES (
+          v_run_id, CASE WHEN v_item.item_type = 'material' THEN 'buy' ELSE 'make' END,
+          v_item.material_id, v_item.product_id, v_item.bom_id, v_item.preferred_vendor_id,
+          v_qty, v_need, v_release, v_req.required_date, v_release < CURRENT_DATE
+        )
+        RETURNING id INTO v_planned_id;
+
+        IF v_item.item_type = 'product' THEN
+          FOR v_component IN
+            SELECT e.material_id, e.component_product_id, SUM(e.total_qty) AS qty
+            FROM explode_bom(v_item.product_id, v_qty, 10, v_item.bom_id) e
+            WHERE e.is_requirement
+            GROUP BY e.material_id, e.component_product_id
+          LOOP
+            INSERT INTO mrp_requirements (
+              run_id, material_id, product_id, required_date, qty, source_type, planned_order_id, source_number
+            )
+            VALUES (
+              v_run_id, v_component.material_id, v_component.component_product_id, v_release,
+              v_component.qty, 'planned_order', v_planned_id, v_item.code
+            );
+          END LOOP;
+        END IF;
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  -- Action messages: supply nobody needs, or arriving well before/after its first need
+  UPDATE mrp_scheduled_receipts
+  SET action = CASE
+        WHEN qty_needed = 0 THEN 'cancel'
+        WHEN needed_date < receipt_date - p_tolerance_days THEN 'expedite'
+        WHEN needed_date > receipt_date + p_tolerance_days THEN 'defer'
+      END
+  WHERE run_id = v_run_id;
+
+  UPDATE mrp_scheduled_receipts
+  SET action_status = 'open'
+  WHERE run_id = v_run_id
+    AND action IS NOT NULL;
+
+  RETURN v_run_id;
+END;
+$$;
+
+COMMENT ON FUNCTION run_mrp IS 'Company-wide MRP: time-phased planned buy/make orders and expedite/defer/cancel messages for open POs and production orders';
+
+-- ==================== RLS POLICIES ====================
+
+ALTER TABLE mrp_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE mrp_requirements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE mrp_planned_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE mrp_scheduled_receipts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY mrp_runs_tenant_isolation ON mrp_runs
+  FOR ALL USING (company_id IN (
+    SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+  ));
+
+CREATE POLICY mrp_requirements_tenant_isolation ON mrp_requirements
+  FOR ALL USING (run_id IN (
+    SELECT id FROM mrp_runs WHERE company_id IN (
+      SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+    )
+  ));
+
+CREATE POLICY mrp_planned_orders_tenant_isolation ON mrp_planned_orders
+  FOR ALL USING (run_id IN (
+    SELECT id FROM mrp_runs WHERE company_id IN (
+      SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+    )
+  ));
+
+CREATE POLICY mrp_scheduled_receipts_tenant_isolation ON mrp_scheduled_receipts
+  FOR ALL USING (run_id IN (
+    SELECT id FROM mrp_runs WHERE company_id IN (
+      SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+    )
+  ));
+
+CREATE POLICY mrp_runs_service ON mrp_runs FOR ALL TO service_role USING (true) WITH CHECK (true);
+CREATE POLICY mrp_requirements_service ON mrp_requirements FOR ALL TO service_role USING (true) WITH CHECK (true);
+CREATE POLICY mrp_planned_orders_service ON mrp_planned_orders FOR ALL TO service_role USING (true) WITH CHECK (true);
+CREATE POLICY mrp_scheduled_receipts_service ON mrp_scheduled_receipts FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+ALTER FUNCTION public.run_mrp SET search_path = public;
@@ -0,0 +1,472 @@
+-- Migration: 086_work_center_scheduling.sql
+-- Description: Finite-capacity scheduling of work orders on work centers: working days and calendar exceptions, daily load allocation, forward/backward scheduling from due dates and manual rescheduling
+-- Dependencies: 018_manufacturing_production_orders.sql, 019_manufacturing_work_orders.sql, 056_manufacturing_routing.sql
+-- Author: Ziyada ERP Team
+-- Date: 2026-01-28
+
+-- ==================== WORK CENTER CALENDARS ====================
+
+ALTER TABLE work_centers
+ADD COLUMN IF NOT EXISTS working_days SMALLINT[] NOT NULL DEFAULT '{1,2,3,4,5,6}';
+
+COMMENT ON COLUMN work_centers.working_days IS 'ISO weekdays (1 = Monday) the work center runs capacity_per_day hours';
+
+-- Holidays, overtime and maintenance days; work_center_id NULL applies to every work center
+CREATE TABLE IF NOT EXISTS work_center_calendar (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE NOT NULL,
+  work_center_id UUID REFERENCES work_centers(id) ON DELETE CASCADE,
+  calendar_date DATE NOT NULL,
+  capacity_hours DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (capacity_hours >= 0),  -- 0 = closed
+  reason VARCHAR(100),
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id)
+);
+
+CREATE UNIQUE INDEX idx_work_center_calendar_day
+  ON work_center_calendar(company_id, COALESCE(work_center_id, '00000000-0000-0000-0000-000000000000'::UUID), calendar_date);
+
+COMMENT ON TABLE work_center_calendar IS 'Capacity exceptions per day (holidays, overtime, maintenance), per work center or company-wide';
+
+-- ==================== WORK ORDER SCHEDULE ====================
+
+ALTER TABLE work_orders
+ADD COLUMN IF NOT EXISTS operation_id UUID REFERENCES operations(id),
+ADD COLUMN IF NOT EXISTS work_center_id UUID REFERENCES work_centers(id),
+ADD COLUMN IF NOT EXISTS planned_minutes DECIMAL(12,2) NOT NULL DEFAULT 0 CHECK (planned_minutes >= 0),
+ADD COLUMN IF NOT EXISTS scheduled_start_date DATE,
+ADD COLUMN IF NOT EXISTS scheduled_end_date DATE,
+ADD COLUMN IF NOT EXISTS is_schedule_locked BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS scheduled_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_wo_work_center ON work_orders(work_center_id, scheduled_start_date);
+
+COMMENT ON COLUMN work_orders.planned_minutes IS 'Work center time: operation standard time x outstanding quantity';
+COMMENT ON COLUMN work_orders.is_schedule_locked IS 'Moved by hand; scheduling runs keep it where it is';
+
+-- Minutes of a work order booked on a work center per day
+CREATE TABLE IF NOT EXISTS work_order_schedule_loads (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  work_order_id UUID REFERENCES work_orders(id) ON DELETE CASCADE NOT NULL,
+  work_center_id UUID REFERENCES work_centers(id) NOT NULL,
+  load_date DATE NOT NULL,
+  minutes DECIMAL(12,2) NOT NULL CHECK (minutes > 0),
+
+  UNIQUE(work_order_id, load_date)
+);
+
+CREATE INDEX idx_wo_loads_work_center ON work_order_schedule_loads(work_center_id, load_date);
+
+COMMENT ON TABLE work_order_schedule_loads IS 'Daily work center load of scheduled work orders';
+
+-- ==================== CAPACITY ====================
+
+-- Available minutes of a work center on a day: its own exception, else the company-wide
+-- exception, else capacity_per_day on working days
+CREATE OR REPLACE FUNCTION work_center_capacity_minutes(p_work_center_id UUID, p_date DATE)
+RETURNS DECIMAL
+LANGUAGE sql STABLE
+AS $$
+  SELECT COALESCE(
+    (SELECT c.capacity_hours FROM work_center_calendar c
+     WHERE c.work_center_id = wc.id AND c.calendar_date = p_date),
+    (SELECT c.capacity_hours FROM work_center_calendar c
+     WHERE c.company_id = wc.company_id AND c.work_center_id IS NULL AND c.calendar_date = p_date),
+    CASE WHEN EXTRACT(ISODOW FROM p_date)::SMALLINT = ANY(wc.working_days) THEN wc.capacity_per_day ELSE 0 END
+  ) * 60
+  FROM work_centers wc
+  WHERE wc.id = p_work_center_id;
+$$;
+
+COMMENT ON FUNCTION work_center_capacity_minutes IS 'Available minutes of a work center on a day, from its working days and calendar';
+
+-- Capacity and booked load per active work center and day, for the load chart
+CREATE OR REPLACE FUNCTION work_center_load(p_company_id UUID, p_from DATE, p_to DATE)
+RETURNS TABLE (
+  work_center_id UUID,
+  work_center_code VARCHAR,
+  work_center_name VARCHAR,
+  load_date DATE,
+  capacity_minutes DECIMAL,
+  loaded_minutes DECIMAL,
+  is_overloaded BOOLEAN
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    wc.id,
+    wc.code,
+    wc.name,
+    d::DATE,
+    cap.minutes,
+    COALESCE(l.minutes, 0),
+    COALESCE(l.minutes, 0) > cap.minutes
+  FROM work_centers wc
+  CROSS JOIN generate_series(p_from, p_to, INTERVAL '1 day') d
+  CROSS JOIN LATERAL (SELECT work_center_capacity_minutes(wc.id, d::DATE) AS minutes) cap
+  LEFT JOIN (
+    SELECT sl.work_center_id, sl.load_date, SUM(sl.minutes) AS minutes
+    FROM work_order_schedule_loads sl
+    WHERE sl.load_date BETWEEN p_from AND p_to
+    GROUP BY sl.work_center_id, sl.load_date
+  ) l ON l.work_center_id = wc.id AND l.load_date = d::DATE
+  WHERE wc.company_id = p_company_id
+    AND wc.is_active = true
+  ORDER BY wc.code, d;
+$$;
+
+COMMENT ON FUNCTION work_center_load IS 'Capacity and scheduled load per work center and day; overloaded when load exceeds capacity';
+
+-- ==================== ALLOCATION ====================
+
+-- Books the minutes of a work order day by day from p_anchor, forwards or backwards.
+-- Finite: only what is left after other work orders. Backwards stops before p_floor and
+-- reports what could not be placed.
+CREATE OR REPLACE FUNCTION allocate_work_order_load(
+  p_work_order_id UUID,
+  p_work_center_id UUID,
+  p_minutes DECIMAL,
+  p_anchor DATE,
+  p_backward BOOLEAN DEFAULT false,
+  p_finite BOOLEAN DEFAULT true,
+  p_floor DATE DEFAULT CURRENT_DATE
+)
+RETURNS TABLE (first_date DATE, last_date DATE, unallocated DECIMAL)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_date DATE := p_anchor;
+  v_remaining DECIMAL := p_minutes;
+  v_free DECIMAL;
+  v_take DECIMAL;
+  v_first DATE;
+  v_last DATE;
+  v_steps INTEGER := 0;
+BEGIN
+  IF p_minutes <= 0 THEN
+    RETURN QUERY SELECT p_anchor, p_anchor, 0::DECIMAL;
+    RETURN;
+  END IF;
+
+  LOOP
+    v_free := work_center_capacity_minutes(p_work_center_id, v_date);
+
+    IF p_finite THEN
+      v_free := v_free - COALESCE((
+        SELECT SUM(minutes) FROM work_order_schedule_loads
+        WHERE work_center_id = p_work_center_id AND load_date = v_date
+      ), 0);
+    END IF;
+
+    IF v_free > 0 THEN
+      v_take := LEAST(v_free, v_remaining);
+      v_remaining := v_remaining - v_take;
+
+      INSERT INTO work_order_schedule_loads (work_order_id, work_center_id, load_date, minutes)
+      VALUES (p_work_order_id, p_work_center_id, v_date, v_take);
+
+      v_first := LEAST(COALESCE(v_first, v_date), v_date);
+      v_last := GREATEST(COALESCE(v_last, v_date), v_date);
+    END IF;
+
+    EXIT WHEN v_remaining <= 0;
+
+    v_steps := v_steps + 1;
+    IF v_steps > 366 THEN
+      RAISE EXCEPTION 'Work center has no free capacity within a year of %', p_anchor;
+    END IF;
+
+    IF p_backward THEN
+      v_date := v_date - 1;
+      EXIT WHEN v_date < p_floor;
+    ELSE
+      v_date := v_date + 1;
+    END IF;
+  END LOOP;
+
+  RETURN QUERY SELECT COALESCE(v_first, p_anchor), COALESCE(v_last, p_anchor), GREATEST(v_remaining, 0);
+END;
+$$;
+
+-- Schedules the work orders of one production order stage after stage (CUT, SEW, FINISH),
+-- each starting no earlier than the day the previous stage ends
+CREATE OR REPLACE FUNCTION schedule_production_order_forward(p_production_order_id UUID, p_include_locked BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_wo RECORD;
+  v_slot RECORD;
+  v_earliest DATE;
+BEGIN
+  SELECT GREATEST(CURRENT_DATE, COALESCE(start_date, CURRENT_DATE)) INTO v_earliest
+  FROM production_orders WHERE id = p_production_order_id;
+
+  FOR v_wo IN
+    SELECT * FROM work_orders
+    WHERE production_order_id = p_production_order_id
+      AND status IN ('pending', 'in_progress')
+      AND work_center_id IS NOT NULL
+    ORDER BY stage, wo_number
+  LOOP
+    IF v_wo.is_schedule_locked AND NOT p_include_locked THEN
+      v_earliest := GREATEST(v_earliest, COALESCE(v_wo.scheduled_end_date, v_earliest));
+      CONTINUE;
+    END IF;
+
+    SELECT * INTO v_slot
+    FROM allocate_work_order_load(v_wo.id, v_wo.work_center_id, v_wo.planned_minutes, v_earliest);
+
+    UPDATE work_orders
+    SET scheduled_start_date = v_slot.first_date,
+        scheduled_end_date = v_slot.last_date,
+        is_schedule_locked = false,
+        scheduled_at = NOW()
+    WHERE id = v_wo.id;
+
+    v_earliest := v_slot.last_date;
+  END LOOP;
+END;
+$$;
+
+-- ==================== SCHEDULING ====================
+
+-- Schedules all open work orders of a company on finite work center capacity, production orders
+-- by priority (1 first) then due date. Forward: as soon as possible from today. Backward: as late
+-- as possible ending on the due date; a production order that does not fit between today and its
+-- due date is scheduled forward instead (and finishes late).
+CREATE OR REPLACE FUNCTION schedule_work_orders(
+  p_company_id UUID,
+  p_direction VARCHAR DEFAULT 'forward',
+  p_user_id UUID DEFAULT NULL,
+  p_include_locked BOOLEAN DEFAULT false
+)
+RETURNS INTEGER
+LANGUAGE plpgsql SECURITY DEFINER
+AS $$
+DECLARE
+  v_po RECORD;
+  v_wo RECORD;
+  v_slot RECORD;
+  v_latest DATE;
+  v_fits BOOLEAN;
+  v_count INTEGER;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    PERFORM check_tenant_access(p_company_id);
+  END IF;
+
+  IF p_direction NOT IN ('forward', 'backward') THEN
+    RAISE EXCEPTION 'Scheduling direction must be forward or backward';
+  END IF;
+
+  -- Work center and time from the operation
+  UPDATE work_orders wo
+  SET work_center_id = COALESCE(wo.work_center_id, op.work_center_id),
+      planned_minutes = COALESCE(op.standard_time_minutes, 0) * wo.qty_outstanding
+  FROM operations op
+  WHERE op.id = wo.operation_id
+    AND wo.company_id = p_company_id
+    AND wo.status IN ('pending', 'in_progress')
+    AND (NOT wo.is_schedule_locked OR p_include_locked);
+
+  DELETE FROM work_order_schedule_loads sl
+  USING work_orders wo
+  WHERE wo.id = sl.work_order_id
+    AND wo.company_id = p_company_id
+    AND wo.status IN ('pending', 'in_progress')
+    AND (NOT wo.is_schedule_locked OR p_include_locked);
+
+  -- Finished or cancelled orders no longer take capacity
+  DELETE FROM work_order_schedule_loads sl
+  USING work_orders wo
+  WHERE wo.id = sl.work_order_id
+    AND wo.company_id = p_company_id
+    AND wo.status IN ('completed', 'cancelled');
+
+  FOR v_po IN
+    SELECT prod.id, prod.due_date
+    FROM production_orders prod
+    WHERE prod.company_id = p_company_id
+      AND EXISTS (
+        SELECT 1 FROM work_orders wo
+        WHERE wo.production_order_id = prod.id
+          AND wo.status IN ('pending', 'in_progress')
+          AND wo.work_center_id IS NOT NULL
+          AND (NOT wo.is_schedule_locked OR p_include_locked)
+      )
+    ORDER BY prod.priority, prod.due_date NULLS LAST, prod.po_number
+  LOOP
+    IF p_direction = 'forward' OR v_po.due_date IS NULL THEN
+      PERFORM schedule_production_order_forward(v_po.id, p_include_locked);
+      CONTINUE;
+    END IF;
+
+    v_latest := v_po.due_date;
+    v_fits := true;
+
+    FOR v_wo IN
+      SELECT * FROM work_orders
+      WHERE production_order_id = v_po.id
+        AND status IN ('pending', 'in_progress')
+        AND work_center_id IS NOT NULL
+      ORDER BY stage DESC, wo_number DESC
+    LOOP
+      IF v_wo.is_schedule_locked AND NOT p_include_locked THEN
+        v_latest := LEAST(v_latest, COALESCE(v_wo.scheduled_start_date, v_latest));
+        CONTINUE;
+      END IF;
+
+      SELECT * INTO v_slot
+      FROM allocate_work_order_load(v_wo.id, v_wo.work_center_id, v_wo.planned_minutes, v_latest, true);
+
+      IF v_slot.unallocated > 0 THEN
+        v_fits := false;
+        EXIT;
+      END IF;
+
+      UPDATE work_orders
+      SET scheduled_start_date = v_slot.first_date,
+          scheduled_end_date = v_slot.last_date,
+          is_schedule_locked = false,
+          scheduled_at = NOW()
+      WHERE id = v_wo.id;
+
+      v_latest := v_slot.first_date;
+    END LOOP;
+
+    IF NOT v_fits THEN
+      DELETE FROM work_order_schedule_loads sl
+      USING work_orders wo
+      WHERE wo.id = sl.work_order_id
+        AND wo.production_order_id = v_po.id
+        AND wo.status IN ('pending', 'in_progress')
+        AND (NOT wo.is_schedule_locked OR p_include_locked);
+
+      PERFORM schedule_production_order_forward(v_po.id, p_include_locked);
+    END IF;
+  END LOOP;
+
+  SELECT COUNT(*) INTO v_count
+  FROM work_orders
+  WHERE company_id = p_company_id
+    AND status IN ('pending', 'in_progress')
+    AND scheduled_at IS NOT NULL
+    AND work_center_id IS NOT NULL;
+
+  RETURN v_count;
+END;
+$$;
+
+COMMENT ON FUNCTION schedule_work_orders IS 'Finite-capacity forward or backward scheduling of open work orders on their work centers';
+
+-- Drag-to-reschedule: books the work order from a new start day at the full daily capacity of its
+-- work center, whatever else is booked (the load chart shows the overload), and locks it there
+CREATE OR REPLACE FUNCTION reschedule_work_order(
+  p_work_order_id UUID,
+  p_start_date DATE,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS DATE
+LANGUAGE plpgsql SECURITY DEFINER
+AS $$
+DECLARE
+  v_wo RECORD;
+  v_slot RECORD;
+BEGIN
+  SELECT * INTO v_wo FROM work_orders WHERE id = p_work_order_id;
+
+  IF v_wo IS NULL THEN
+    RAISE EXCEPTION 'Work order not found';
+  END IF;
+
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    PERFORM check_tenant_access(v_wo.company_id);
+  END IF;
+
+  IF v_wo.status NOT IN ('pending', 'in_progress') THEN
+    RAISE EXCEPTION 'Only pending or in-progress work orders can be rescheduled';
+  END IF;
+
+  IF v_wo.work_center_id IS NULL THEN
+    RAISE EXCEPTION 'Work order % has no work center', v_wo.wo_number;
+  END IF;
+
+  DELETE FROM work_order_schedule_loads WHERE work_order_id = p_work_order_id;
+
+  SELECT * INTO v_slot
+  FROM allocate_work_order_load(p_work_order_id, v_wo.work_center_id, v_wo.planned_minutes, p_start_date, false, false);
+
+  UPDATE work_orders
+  SET scheduled_start_date = v_slot.first_date,
+      scheduled_end_date = v_slot.last_date,
+      is_schedule_locked = true,
+      scheduled_at = NOW()
+  WHERE id = p_work_order_id;
+
+  RETURN v_slot.last_date;
+END;
+$$;
+
+COMMENT ON FUNCTION reschedule_work_order IS 'Move a work order to a new start day and lock it there; may overload the work center';
+
+-- ==================== VIEWS ====================
+
+-- Bars of the Gantt chart: scheduled work orders with their production order due date
+CREATE OR REPLACE VIEW work_order_schedule_vw AS
+SELECT
+  wo.id,
+  wo.company_id,
+  wo.wo_number,
+  wo.stage,
+  wo.status,
+  wo.work_center_id,
+  wc.code AS work_center_code,
+  wc.name AS work_center_name,
+  wo.planned_minutes,
+  wo.scheduled_start_date,
+  wo.scheduled_end_date,
+  wo.is_schedule_locked,
+  prod.id AS production_order_id,
+  prod.po_number,
+  prod.priority,
+  prod.due_date,
+  p.code AS product_code,
+  wo.scheduled_end_date > prod.due_date AS is_late
+FROM work_orders wo
+JOIN production_orders prod ON prod.id = wo.production_order_id
+JOIN products p ON p.id = prod.product_id
+LEFT JOIN work_centers wc ON wc.id = wo.work_center_id
+WHERE wo.status IN ('pending', 'in_progress');
+
+ALTER VIEW work_order_schedule_vw SET (security_invoker = true);
+
+COMMENT ON VIEW work_order_schedule_vw IS 'Open work orders with their work center schedule, late when ending after the production due date';
+
+-- ==================== RLS POLICIES ====================
+
+ALTER TABLE work_center_calendar ENABLE ROW LEVEL SECURITY;
+ALTER TABLE work_order_schedule_loads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY work_center_calendar_tenant_isolation ON work_center_calendar
+  FOR ALL USING (company_id IN (
+    SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+  ));
+
+CREATE POLICY work_order_schedule_loads_tenant_isolation ON work_order_schedule_loads
+  FOR ALL USING (work_order_id IN (
+    SELECT id FROM work_orders WHERE company_id IN (
+      SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+    )
+  ));
+
+CREATE POLICY work_center_calendar_service ON work_center_calendar FOR ALL TO service_role USING (true) WITH CHECK (true);
+CREATE POLICY work_order_schedule_loads_service ON work_order_schedule_loads FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+ALTER FUNCTION public.work_center_capacity_minutes SET search_path = public;
+ALTER FUNCTION public.work_center_load SET search_path = public;
+ALTER FUNCTION public.allocate_work_order_load SET search_path = public;
+ALTER FUNCTION public.schedule_production_order_forward SET search_path = public;
+ALTER FUNCTION public.schedule_work_orders SET search_path = public;
+ALTER FUNCTION public.reschedule_work_order SET search_path = public;
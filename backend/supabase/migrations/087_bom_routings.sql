@@ -0,0 +1,455 @@
+-- Migration: 087_bom_routings.sql
+-- Description: Routings on BOM versions (ordered operations with setup/run times and work centers), work orders generated from the routing on release, predecessor steps enforced when starting a work order
+-- Dependencies: 017_manufacturing_bom.sql, 019_manufacturing_work_orders.sql, 057_release_production_logic.sql, 086_work_center_scheduling.sql
+-- Author: Ziyada ERP Team
+-- Date: 2026-01-30
+
+-- ==================== ROUTING STEPS ====================
+
+-- Steps run in sequence order; each step starts once every lower sequence is completed
+CREATE TABLE IF NOT EXISTS bom_routing_steps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  bom_id UUID REFERENCES bom_headers(id) ON DELETE CASCADE NOT NULL,
+  sequence INTEGER NOT NULL CHECK (sequence > 0),
+
+  operation_id UUID REFERENCES operations(id) NOT NULL,
+  work_center_id UUID REFERENCES work_centers(id),  -- NULL = work center of the operation
+  stage wip_stage NOT NULL,
+
+  setup_minutes DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (setup_minutes >= 0),
+  run_minutes DECIMAL(10,4) CHECK (run_minutes >= 0),  -- Per unit; NULL = operation standard time
+
+  notes TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(bom_id, sequence)
+);
+
+CREATE INDEX idx_bom_routing_steps_bom ON bom_routing_steps(bom_id, sequence);
+
+COMMENT ON TABLE bom_routing_steps IS 'Routing of a BOM version: operations in sequence with setup and per-unit run times';
+
+-- Stages only move forward along the routing (CUT, SEW, FINISH)
+CREATE OR REPLACE FUNCTION validate_bom_routing_step()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM bom_routing_steps
+    WHERE bom_id = NEW.bom_id
+      AND id <> NEW.id
+      AND ((sequence < NEW.sequence AND stage > NEW.stage)
+        OR (sequence > NEW.sequence AND stage < NEW.stage))
+  ) THEN
+    RAISE EXCEPTION 'Routing step % (%) is out of stage order', NEW.sequence, NEW.stage;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_validate_bom_routing_step
+  BEFORE INSERT OR UPDATE ON bom_routing_steps
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_bom_routing_step();
+
+-- Replaces the whole routing of a BOM version in one transaction; an invalid step leaves the old routing
+CREATE OR REPLACE FUNCTION save_bom_routing(p_bom_id UUID, p_steps JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+  v_company_id UUID;
+  v_count INTEGER;
+BEGIN
+  SELECT company_id INTO v_company_id FROM bom_headers WHERE id = p_bom_id;
+
+  IF v_company_id IS NULL THEN
+    RAISE EXCEPTION 'BOM not found';
+  END IF;
+
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    PERFORM check_tenant_access(v_company_id);
+  END IF;
+
+  DELETE FROM bom_routing_steps WHERE bom_id = p_bom_id;
+
+  INSERT INTO bom_routing_steps (bom_id, sequence, operation_id, work_center_id, stage, setup_minutes, run_minutes, notes)
+  SELECT p_bom_id, s.sequence, s.operation_id, s.work_center_id, s.stage, COALESCE(s.setup_minutes, 0), s.run_minutes, s.notes
+  FROM jsonb_to_recordset(COALESCE(p_steps, '[]'::jsonb)) AS s(
+    sequence INTEGER,
+    operation_id UUID,
+    work_center_id UUID,
+    stage wip_stage,
+    setup_minutes DECIMAL,
+    run_minutes DECIMAL,
+    notes TEXT
+  )
+  ORDER BY s.sequence;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION save_bom_routing IS 'Replace the routing steps of a BOM version atomically; returns the number of steps';
+
+-- ==================== WORK ORDERS ====================
+
+ALTER TABLE work_orders
+ADD COLUMN IF NOT EXISTS routing_step_id UUID REFERENCES bom_routing_steps(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS routing_sequence INTEGER,
+ADD COLUMN IF NOT EXISTS setup_minutes DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (setup_minutes >= 0),
+ADD COLUMN IF NOT EXISTS run_minutes DECIMAL(10,4) CHECK (run_minutes >= 0);
+
+CREATE INDEX IF NOT EXISTS idx_wo_routing_sequence ON work_orders(production_order_id, routing_sequence);
+
+COMMENT ON COLUMN work_orders.routing_sequence IS 'Routing step sequence; lower sequences of the production order must be completed before this one starts';
+COMMENT ON COLUMN work_orders.run_minutes IS 'Per-unit run time from the routing; NULL = operation standard time';
+
+-- Creates one pending work order per routing step of the order's BOM, numbered
+-- <po_number>-<sequence>. Orders that already have work orders are left alone.
+CREATE OR REPLACE FUNCTION generate_routing_work_orders(
+  p_production_order_id UUID,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql SECURITY DEFINER
+AS $$
+DECLARE
+  v_po RECORD;
+  v_count INTEGER;
+BEGIN
+  SELECT id, company_id, po_number, bom_id, qty_planned INTO v_po
+  FROM production_orders
+  WHERE id = p_production_order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Production Order not found';
+  END IF;
+
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    PERFORM check_tenant_access(v_po.company_id);
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM work_orders
+    WHERE production_order_id = p_production_order_id AND status <> 'cancelled'
+  ) THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO work_orders (
+    company_id, wo_number, production_order_id, stage, qty_started,
+    operation_id, work_center_id, routing_step_id, routing_sequence,
+    setup_minutes, run_minutes, planned_minutes, created_by
+  )
+  SELECT
+    v_po.company_id,
+    v_po.po_number || '-' || LPAD(rs.sequence::TEXT, 3, '0'),
+    v_po.id,
+    rs.stage,
+    v_po.qty_planned,
+    rs.operation_id,
+    COALESCE(rs.work_center_id, op.work_center_id),
+    rs.id,
+    rs.sequence,
+    rs.setup_minutes,
+    rs.run_minutes,
+    rs.setup_minutes + COALESCE(rs.run_minutes, op.standard_time_minutes, 0) * v_po.qty_planned,
+    p_user_id
+  FROM bom_routing_steps rs
+  JOIN operations op ON op.id = rs.operation_id
+  WHERE rs.bom_id = v_po.bom_id
+  ORDER BY rs.sequence;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+COMMENT ON FUNCTION generate_routing_work_orders IS 'Creates the work orders of a production order from the routing of its BOM version';
+
+-- A routing work order starts (or is completed straight away, see complete_work_order)
+-- only after all lower sequences of its production order are done
+CREATE OR REPLACE FUNCTION enforce_work_order_predecessors()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_open TEXT;
+BEGIN
+  IF NEW.status IN ('in_progress', 'completed')
+     AND OLD.status IS DISTINCT FROM NEW.status
+     AND OLD.status NOT IN ('in_progress', 'completed')
+     AND NEW.routing_sequence IS NOT NULL THEN
+    SELECT string_agg(wo_number, ', ' ORDER BY routing_sequence) INTO v_open
+    FROM work_orders
+    WHERE production_order_id = NEW.production_order_id
+      AND routing_sequence < NEW.routing_sequence
+      AND status NOT IN ('completed', 'cancelled');
+
+    IF v_open IS NOT NULL THEN
+      RAISE EXCEPTION 'Cannot % work order %: predecessor work orders not completed (%)',
+        CASE WHEN NEW.status = 'completed' THEN 'complete' ELSE 'start' END, NEW.wo_number, v_open;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_enforce_work_order_predecessors
+  BEFORE UPDATE OF status ON work_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_work_order_predecessors();
+
+-- ==================== RELEASE ====================
+
+-- Backend service signature (018): generates the routing work orders after release
+CREATE OR REPLACE FUNCTION release_production_order(
+  p_production_order_id UUID,
+  p_user_id UUID
+)
+RETURNS VOID AS $$
+DECLARE
+  v_shortage_count INTEGER;
+BEGIN
+  -- Check for material shortages
+  SELECT COUNT(*) INTO v_shortage_count
+  FROM calculate_mrp(p_production_order_id)
+  WHERE action = 'PURCHASE';
+
+  IF v_shortage_count > 0 THEN
+    RAISE EXCEPTION 'Cannot release production order: % materials in shortage', v_shortage_count;
+  END IF;
+
+  -- Release order
+  UPDATE production_orders
+  SET
+    status = 'released',
+    released_at = NOW(),
+    released_by = p_user_id
+  WHERE id = p_production_order_id;
+
+  PERFORM generate_routing_work_orders(p_production_order_id, p_user_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Frontend signature (057): generates the routing work orders after release
+CREATE OR REPLACE FUNCTION public.release_production_order(p_order_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order_status TEXT;
+  v_company_id UUID;
+  v_line RECORD;
+  v_balance DECIMAL;
+  v_missing_items TEXT[] := ARRAY[]::TEXT[];
+  v_work_orders INTEGER;
+BEGIN
+  -- 1. Get Order Details & Lock Row
+  SELECT status, company_id INTO v_order_status, v_company_id
+  FROM production_orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  -- 2. Validations
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Production Order not found';
+  END IF;
+
+  IF v_order_status != 'planned' THEN
+    RAISE EXCEPTION 'Only Planned orders can be released. Current status: %', v_order_status;
+  END IF;
+
+  -- 3. Check Stock Availability for ALL Ingredients (total company stock)
+  FOR v_line IN
+    SELECT
+      pol.material_id,
+      pol.quantity as required_qty,
+      m.code as material_code
+    FROM production_order_lines pol
+    JOIN materials m ON pol.material_id = m.id
+    WHERE pol.production_order_id = p_order_id
+  LOOP
+    SELECT COALESCE(SUM(qty_in - qty_out), 0)
+    INTO v_balance
+    FROM raw_material_ledger
+    WHERE material_id = v_line.material_id
+      AND company_id = v_company_id;
+
+    IF v_balance < v_line.required_qty THEN
+      v_missing_items := array_append(v_missing_items,
+        v_line.material_code || ' (Req: ' || v_line.required_qty || ', Avail: ' || v_balance || ')');
+    END IF;
+  END LOOP;
+
+  -- 4. Handle Failures
+  IF array_length(v_missing_items, 1) > 0 THEN
+    RAISE EXCEPTION 'Insufficient Stock for: %', array_to_string(v_missing_items, ', ');
+  END IF;
+
+  -- 5. Update Status
+  UPDATE production_orders
+  SET
+    status = 'released',
+    updated_at = NOW()
+  WHERE id = p_order_id;
+
+  -- 6. Work orders from the BOM routing
+  v_work_orders := generate_routing_work_orders(p_order_id, auth.uid());
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'message', 'Production Order released successfully',
+    'id', p_order_id,
+    'work_orders_created', v_work_orders
+  );
+END;
+$$;
+
+-- ==================== SCHEDULING ====================
+
+-- Planned minutes now include the routing setup time and per-unit run time
+CREATE OR REPLACE FUNCTION schedule_work_orders(
+  p_company_id UUID,
+  p_direction VARCHAR DEFAULT 'forward',
+  p_user_id UUID DEFAULT NULL,
+  p_include_locked BOOLEAN DEFAULT false
+)
+RETURNS INTEGER
+LANGUAGE plpgsql SECURITY DEFINER
+AS $$
+DECLARE
+  v_po RECORD;
+  v_wo RECORD;
+  v_slot RECORD;
+  v_latest DATE;
+  v_fits BOOLEAN;
+  v_count INTEGER;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    PERFORM check_tenant_access(p_company_id);
+  END IF;
+
+  IF p_direction NOT IN ('forward', 'backward') THEN
+    RAISE EXCEPTION 'Scheduling direction must be forward or backward';
+  END IF;
+
+  -- Work center and time from the routing step, else the operation
+  UPDATE work_orders wo
+  SET work_center_id = COALESCE(wo.work_center_id, op.work_center_id),
+      planned_minutes = wo.setup_minutes + COALESCE(wo.run_minutes, op.standard_time_minutes, 0) * wo.qty_outstanding
+  FROM operations op
+  WHERE op.id = wo.operation_id
+    AND wo.company_id = p_company_id
+    AND wo.status IN ('pending', 'in_progress')
+    AND (NOT wo.is_schedule_locked OR p_include_locked);
+
+  DELETE FROM work_order_schedule_loads sl
+  USING work_orders wo
+  WHERE wo.id = sl.work_order_id
+    AND wo.company_id = p_company_id
+    AND wo.status IN ('pending', 'in_progress')
+    AND (NOT wo.is_schedule_locked OR p_include_locked);
+
+  -- Finished or cancelled orders no longer take capacity
+  DELETE FROM work_order_schedule_loads sl
+  USING work_orders wo
+  WHERE wo.id = sl.work_order_id
+    AND wo.company_id = p_company_id
+    AND wo.status IN ('completed', 'cancelled');
+
+  FOR v_po IN
+    SELECT prod.id, prod.due_date
+    FROM production_orders prod
+    WHERE prod.company_id = p_company_id
+      AND EXISTS (
+        SELECT 1 FROM work_orders wo
+        WHERE wo.production_order_id = prod.id
+          AND wo.status IN ('pending', 'in_progress')
+          AND wo.work_center_id IS NOT NULL
+          AND (NOT wo.is_schedule_locked OR p_include_locked)
+      )
+    ORDER BY prod.priority, prod.due_date NULLS LAST, prod.po_number
+  LOOP
+    IF p_direction = 'forward' OR v_po.due_date IS NULL THEN
+      PERFORM schedule_production_order_forward(v_po.id, p_include_locked);
+      CONTINUE;
+    END IF;
+
+    v_latest := v_po.due_date;
+    v_fits := true;
+
+    FOR v_wo IN
+      SELECT * FROM work_orders
+      WHERE production_order_id = v_po.id
+        AND status IN ('pending', 'in_progress')
+        AND work_center_id IS NOT NULL
+      ORDER BY stage DESC, wo_number DESC
+    LOOP
+      IF v_wo.is_schedule_locked AND NOT p_include_locked THEN
+        v_latest := LEAST(v_latest, COALESCE(v_wo.scheduled_start_date, v_latest));
+        CONTINUE;
+      END IF;
+
+      SELECT * INTO v_slot
+      FROM allocate_work_order_load(v_wo.id, v_wo.work_center_id, v_wo.planned_minutes, v_latest, true);
+
+      IF v_slot.unallocated > 0 THEN
+        v_fits := false;
+        EXIT;
+      END IF;
+
+      UPDATE work_orders
+      SET scheduled_start_date = v_slot.first_date,
+          scheduled_end_date = v_slot.last_date,
+          is_schedule_locked = false,
+          scheduled_at = NOW()
+      WHERE id = v_wo.id;
+
+      v_latest := v_slot.first_date;
+    END LOOP;
+
+    IF NOT v_fits THEN
+      DELETE FROM work_order_schedule_loads sl
+      USING work_orders wo
+      WHERE wo.id = sl.work_order_id
+        AND wo.production_order_id = v_po.id
+        AND wo.status IN ('pending', 'in_progress')
+        AND (NOT wo.is_schedule_locked OR p_include_locked);
+
+      PERFORM schedule_production_order_forward(v_po.id, p_include_locked);
+    END IF;
+  END LOOP;
+
+  SELECT COUNT(*) INTO v_count
+  FROM work_orders
+  WHERE company_id = p_company_id
+    AND status IN ('pending', 'in_progress')
+    AND scheduled_at IS NOT NULL
+    AND work_center_id IS NOT NULL;
+
+  RETURN v_count;
+END;
+$$;
+
+-- ==================== RLS POLICIES ====================
+
+ALTER TABLE bom_routing_steps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY bom_routing_steps_tenant ON bom_routing_steps
+  FOR ALL USING (bom_id IN (
+    SELECT id FROM bom_headers WHERE company_id IN (
+      SELECT company_id FROM user_company_mapping WHERE user_id = auth.uid() AND is_active = true
+    )
+  ));
+
+CREATE POLICY bom_routing_steps_service_role ON bom_routing_steps FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+ALTER FUNCTION public.validate_bom_routing_step SET search_path = public;
+ALTER FUNCTION public.save_bom_routing SET search_path = public;
+ALTER FUNCTION public.generate_routing_work_orders SET search_path = public;
+ALTER FUNCTION public.enforce_work_order_predecessors SET search_path = public;
+ALTER FUNCTION public.release_production_order(UUID, UUID) SET search_path = public;
+ALTER FUNCTION public.schedule_work_orders SET search_path = public;
@@ -45,6 +45,7 @@ import BOMDetail from "./pages/production/BOMDetail";
 import WorkOrders from "./pages/production/WorkOrders";
 import WorkOrderDetail from "./pages/production/WorkOrderDetail";
 import Operations from "./pages/production/Operations";
+import MaterialPlanning from "./pages/production/MaterialPlanning";
 
 // Purchasing pages
 import PurchaseOrders from "./pages/purchasing/PurchaseOrders";
@@ -52,6 +53,8 @@ import CreatePurchaseOrder from "./pages/purchasing/CreatePurchaseOrder";
 import GoodsReceipts from "./pages/purchasing/GoodsReceipts";
 import ReceiveGoods from "./pages/purchasing/ReceiveGoods";
 import VendorInvoices from "./pages/purchasing/VendorInvoices";
+import PurchaseRequisitions from "./pages/purchasing/PurchaseRequisitions";
+import VendorScorecards from "./pages/purchasing/VendorScorecards";
 
 // Sales pages
 import SalesOrders from "./pages/sales/SalesOrders";
@@ -121,6 +124,7 @@ const App = () => (
                 <Route path="/production/work-orders" element={<ProtectedRoute><WorkOrders /></ProtectedRoute>} />
                 <Route path="/production/work-orders/:id" element={<ProtectedRoute><WorkOrderDetail /></ProtectedRoute>} />
                 <Route path="/production/operations" element={<ProtectedRoute><Operations /></ProtectedRoute>} />
+                <Route path="/production/planning" element={<ProtectedRoute><MaterialPlanning /></ProtectedRoute>} />
 
                 {/* Purchasing Routes */}
                 <Route path="/purchasing/orders" element={<ProtectedRoute><PurchaseOrders /></ProtectedRoute>} />
@@ -129,7 +133,9 @@ const App = () => (
                 <Route path="/purchasing/orders/:id" element={<ProtectedRoute><CreatePurchaseOrder /></ProtectedRoute>} />
                 <Route path="/purchasing/receipts" element={<ProtectedRoute><GoodsReceipts /></ProtectedRoute>} />
                 <Route path="/purchasing/receive/:id" element={<ProtectedRoute><ReceiveGoods /></ProtectedRoute>} />
+                <Route path="/purchasing/requisitions" element={<ProtectedRoute><PurchaseRequisitions /></ProtectedRoute>} />
                 <Route path="/purchasing/invoices" element={<ProtectedRoute><VendorInvoices /></ProtectedRoute>} />
+                <Route path="/purchasing/vendor-scorecards" element={<ProtectedRoute><VendorScorecards /></ProtectedRoute>} />
 
                 {/* Sales Routes */}
                 <Route path="/sales/orders" element={<ProtectedRoute><SalesOrders /></ProtectedRoute>} />
@@ -16,6 +16,7 @@ import {
   Factory,
   PackageCheck,
   ClipboardCheck,
+  ClipboardList,
   ArrowLeftRight,
   ShoppingCart,
   BarChart3,
@@ -25,6 +26,8 @@ import {
   Wallet,
   Database,
   TrendingUp,
+  Award,
+  CalendarClock,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useState } from 'react';
@@ -92,9 +95,11 @@ export const navigationSections: NavSection[] = [
         href: '/purchasing',
         icon: ShoppingCart,
         children: [
+          { title: 'Requisitions', href: '/purchasing/requisitions', icon: ClipboardList },
           { title: 'Purchase Orders', href: '/purchasing/orders', icon: ClipboardCheck },
           { title: 'Receipts', href: '/purchasing/receipts', icon: PackageCheck },
           { title: 'Vendor Invoices', href: '/purchasing/invoices', icon: Banknote },
+          { title: 'Vendor Scorecards', href: '/purchasing/vendor-scorecards', icon: Award },
         ]
       },
       {
@@ -122,6 +127,7 @@ export const navigationSections: NavSection[] = [
         module: 'manufacturing',
         children: [
           { title: 'Bill of Materials', href: '/production/boms', icon: Layers },
+          { title: 'Material Planning', href: '/production/planning', icon: CalendarClock },
           { title: 'Work Orders', href: '/production/work-orders', icon: ClipboardCheck },
           { title: 'Operations', href: '/production/operations', icon: Settings },
         ],
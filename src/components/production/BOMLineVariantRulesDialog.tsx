@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { useApp } from '@/contexts/AppContext';
+import { useColors, useSizes } from '@/hooks/useMasterData';
+import { useMaterials } from '@/hooks/useMaterials';
+import { useSaveBOMLineVariantRules } from '@/hooks/useProduction';
+import { BOMColorSubstitution, BOMLine, BOMSizeRule } from '@/types/production';
+
+const BASE_MATERIAL = 'base';
+
+interface BOMLineVariantRulesDialogProps {
+    line: BOMLine;
+    sizeRules: BOMSizeRule[];
+    substitutions: BOMColorSubstitution[];
+    onClose: () => void;
+}
+
+/**
+ * Quantity per size and material per color of one BOM line. Sizes left empty use the
+ * line quantity, colors left on the base use the line material.
+ */
+export function BOMLineVariantRulesDialog({ line, sizeRules, substitutions, onClose }: BOMLineVariantRulesDialogProps) {
+    const { companyId } = useApp();
+    const { data: sizes } = useSizes(companyId);
+    const { data: colors } = useColors(companyId);
+    const { data: materials } = useMaterials();
+    const saveRules = useSaveBOMLineVariantRules();
+
+    const [sizeQty, setSizeQty] = useState<{ [sizeId: string]: string }>(() =>
+        Object.fromEntries(sizeRules.map(r => [r.size_id, String(r.qty_per)])));
+    const [colorMaterial, setColorMaterial] = useState<{ [colorId: string]: string }>(() =>
+        Object.fromEntries(substitutions.map(s => [s.color_id, s.material_id])));
+
+    const isMaterialLine = !!line.material_id;
+    const hasInvalidQty = Object.values(sizeQty).some(qty => qty !== '' && !(parseFloat(qty) > 0));
+
+    const handleSave = () => {
+        saveRules.mutate(
+            {
+                bomLineId: line.id,
+                sizeRules: Object.entries(sizeQty)
+                    .filter(([, qty]) => qty !== '')
+                    .map(([size_id, qty]) => ({ size_id, qty_per: parseFloat(qty) })),
+                substitutions: Object.entries(colorMaterial)
+                    .filter(([, materialId]) => materialId && materialId !== BASE_MATERIAL)
+                    .map(([color_id, material_id]) => ({ color_id, material_id })),
+            },
+            { onSuccess: onClose }
+        );
+    };
+
+    return (
+        <Dialog open onOpenChange={open => !open && onClose()}>
+            <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>
+                        Variant Rules: {line.material?.name ?? line.component_product?.name}
+                    </DialogTitle>
+                    <DialogDescription>
+                        Base quantity {line.qty_per} {line.uom} per unit. Leave a size empty to use it.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-6">
+                    <div className="space-y-2">
+                        <h4 className="text-sm font-medium">Quantity by size</h4>
+                        {sizes && sizes.length > 0 ? (
+                            <div className="grid grid-cols-3 md:grid-cols-4 gap-3">
+                                {sizes.map(size => (
+                                    <div key={size.id} className="space-y-1">
+                                        <Label htmlFor={`size-${size.id}`}>{size.code}</Label>
+                                        <Input
+                                            id={`size-${size.id}`}
+                                            type="number"
+                                            min="0"
+                                            step="0.0001"
+                                            placeholder={String(line.qty_per)}
+                                            value={sizeQty[size.id] ?? ''}
+                                            onChange={e => setSizeQty(prev => ({ ...prev, [size.id]: e.target.value }))}
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                        ) : (
+                            <p className="text-sm text-muted-foreground">No sizes defined.</p>
+                        )}
+                    </div>
+
+                    {isMaterialLine && (
+                        <div className="space-y-2">
+                            <h4 className="text-sm font-medium">Material by color</h4>
+                            {colors && colors.length > 0 ? (
+                                <div className="space-y-2">
+                                    {colors.map(color => (
+                                        <div key={color.id} className="grid grid-cols-3 items-center gap-3">
+                                            <div className="flex items-center gap-2 text-sm">
+                                                {color.hex_code && (
+                                                    <span
+                                                        className="h-4 w-4 rounded-full border"
+                                                        style={{ backgroundColor: color.hex_code }}
+                                                    />
+                                                )}
+                                                {color.name}
+                                            </div>
+                                            <div className="col-span-2">
+                                                <Select
+                                                    value={colorMaterial[color.id] ?? BASE_MATERIAL}
+                                                    onValueChange={value => setColorMaterial(prev => ({ ...prev, [color.id]: value }))}
+                                                >
+                                                    <SelectTrigger>
+                                                        <SelectValue />
+                                                    </SelectTrigger>
+                                                    <SelectContent>
+                                                        <SelectItem value={BASE_MATERIAL}>
+                                                            {line.material?.name} (base)
+                                                        </SelectItem>
+                                                        {materials?.filter(m => m.id !== line.material_id).map(m => (
+                                                            <SelectItem key={m.id} value={m.id}>
+                                                                {m.code} - {m.name}
+                                                            </SelectItem>
+                                                        ))}
+                                                    </SelectContent>
+                                                </Select>
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            ) : (
+                                <p className="text-sm text-muted-foreground">No colors defined.</p>
+                            )}
+                        </div>
+                    )}
+                </div>
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={onClose}>Cancel</Button>
+                    <Button onClick={handleSave} disabled={hasInvalidQty || saveRules.isPending}>
+                        {saveRules.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Save Rules
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,286 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ErrorState } from '@/components/ui/error-state';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Pencil, Plus, Route, Trash2 } from 'lucide-react';
+import { useApp } from '@/contexts/AppContext';
+import { useBOMRouting, useOperations, useSaveBOMRouting, useWorkCenters } from '@/hooks/useProduction';
+import { BOMRoutingStep, WorkOrderStage } from '@/types/production';
+
+const STAGES: WorkOrderStage[] = ['CUT', 'SEW', 'FINISH'];
+
+const OPERATION_WORK_CENTER = 'operation';
+
+interface StepForm {
+    sequence: string;
+    operation_id: string;
+    work_center_id: string;
+    stage: WorkOrderStage;
+    setup_minutes: string;
+    run_minutes: string;
+}
+
+const toForm = (step: BOMRoutingStep): StepForm => ({
+    sequence: String(step.sequence),
+    operation_id: step.operation_id,
+    work_center_id: step.work_center_id ?? OPERATION_WORK_CENTER,
+    stage: step.stage,
+    setup_minutes: String(step.setup_minutes),
+    run_minutes: step.run_minutes === null ? '' : String(step.run_minutes),
+});
+
+/** Same rules as the database: unique sequences, stages only moving forward, no negative times */
+function routingErrors(steps: StepForm[]): string[] {
+    const errors: string[] = [];
+    const sequences = steps.map(s => Number(s.sequence));
+
+    if (steps.some(s => !s.operation_id)) errors.push('Every step needs an operation');
+    if (sequences.some(seq => !Number.isInteger(seq) || seq <= 0)) errors.push('Sequences must be positive whole numbers');
+    if (new Set(sequences).size !== sequences.length) errors.push('Each sequence can only be used once');
+    if (steps.some(s => Number(s.setup_minutes) < 0 || Number(s.run_minutes) < 0)) {
+        errors.push('Setup and run times cannot be negative');
+    }
+
+    const sorted = [...steps].sort((a, b) => Number(a.sequence) - Number(b.sequence));
+    if (sorted.some((s, i) => i > 0 && STAGES.indexOf(s.stage) < STAGES.indexOf(sorted[i - 1].stage))) {
+        errors.push('Stages must follow the routing order (CUT, SEW, FINISH)');
+    }
+
+    return errors;
+}
+
+/** Operations of a BOM version in sequence; releasing a production order generates a work order per step */
+export function BOMRoutingCard({ bomId }: { bomId: string }) {
+    const { data: steps, isLoading, error } = useBOMRouting(bomId);
+    const [isEditing, setIsEditing] = useState(false);
+
+    return (
+        <Card className="md:col-span-3 shadow-card">
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div>
+                    <CardTitle className="flex items-center gap-2">
+                        <Route className="h-5 w-5 text-primary" />
+                        Routing
+                    </CardTitle>
+                    <CardDescription>
+                        Releasing a production order creates one work order per step. A step starts once all lower
+                        sequences are completed.
+                    </CardDescription>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => setIsEditing(true)} disabled={isLoading}>
+                    <Pencil className="mr-2 h-4 w-4" />
+                    Edit Routing
+                </Button>
+            </CardHeader>
+            <CardContent>
+                {isLoading ? (
+                    <Skeleton className="h-24 w-full" />
+                ) : error ? (
+                    <ErrorState title="Failed to load routing" message={error.message} />
+                ) : (
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Seq</TableHead>
+                                <TableHead>Operation</TableHead>
+                                <TableHead>Work Center</TableHead>
+                                <TableHead>Stage</TableHead>
+                                <TableHead className="text-right">Setup (min)</TableHead>
+                                <TableHead className="text-right">Run (min/unit)</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {steps && steps.length > 0 ? (
+                                steps.map(step => (
+                                    <TableRow key={step.id}>
+                                        <TableCell className="font-mono">{step.sequence}</TableCell>
+                                        <TableCell className="font-medium">{step.operation?.name}</TableCell>
+                                        <TableCell>
+                                            {step.work_center
+                                                ? `${step.work_center.code} - ${step.work_center.name}`
+                                                : <span className="text-muted-foreground">Operation default</span>}
+                                        </TableCell>
+                                        <TableCell><Badge variant="outline">{step.stage}</Badge></TableCell>
+                                        <TableCell className="text-right">{Number(step.setup_minutes)}</TableCell>
+                                        <TableCell className="text-right">
+                                            {step.run_minutes !== null
+                                                ? Number(step.run_minutes)
+                                                : <span className="text-muted-foreground">{Number(step.operation?.standard_time_minutes ?? 0)} (std)</span>}
+                                        </TableCell>
+                                    </TableRow>
+                                ))
+                            ) : (
+                                <TableRow>
+                                    <TableCell colSpan={6} className="text-center h-24 text-muted-foreground">
+                                        No routing defined. Work orders are then created by hand.
+                                    </TableCell>
+                                </TableRow>
+                            )}
+                        </TableBody>
+                    </Table>
+                )}
+            </CardContent>
+
+            {isEditing && (
+                <BOMRoutingDialog bomId={bomId} steps={steps || []} onClose={() => setIsEditing(false)} />
+            )}
+        </Card>
+    );
+}
+
+interface BOMRoutingDialogProps {
+    bomId: string;
+    steps: BOMRoutingStep[];
+    onClose: () => void;
+}
+
+function BOMRoutingDialog({ bomId, steps, onClose }: BOMRoutingDialogProps) {
+    const { companyId } = useApp();
+    const { data: operations } = useOperations(companyId);
+    const { data: workCenters } = useWorkCenters(companyId);
+    const saveRouting = useSaveBOMRouting();
+    const [rows, setRows] = useState<StepForm[]>(() => steps.map(toForm));
+
+    const errors = routingErrors(rows);
+
+    const updateRow = (index: number, patch: Partial<StepForm>) =>
+        setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+
+    const addRow = () => {
+        const last = rows[rows.length - 1];
+        setRows([...rows, {
+            sequence: String(rows.reduce((max, r) => Math.max(max, Number(r.sequence) || 0), 0) + 10),
+            operation_id: '',
+            work_center_id: OPERATION_WORK_CENTER,
+            stage: last?.stage ?? 'CUT',
+            setup_minutes: '0',
+            run_minutes: '',
+        }]);
+    };
+
+    const handleSave = () => {
+        saveRouting.mutate(
+            {
+                bomId,
+                steps: rows.map(row => ({
+                    sequence: Number(row.sequence),
+                    operation_id: row.operation_id,
+                    work_center_id: row.work_center_id === OPERATION_WORK_CENTER ? null : row.work_center_id,
+                    stage: row.stage,
+                    setup_minutes: Number(row.setup_minutes) || 0,
+                    run_minutes: row.run_minutes === '' ? null : Number(row.run_minutes),
+                })),
+            },
+            { onSuccess: onClose }
+        );
+    };
+
+    return (
+        <Dialog open onOpenChange={open => !open && onClose()}>
+            <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Edit Routing</DialogTitle>
+                    <DialogDescription>
+                        Leave the run time empty to use the operation's standard time. Existing work orders are not changed.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <Table>
+                    <TableHeader>
+                        <TableRow>
+                            <TableHead className="w-20">Seq</TableHead>
+                            <TableHead>Operation</TableHead>
+                            <TableHead>Work Center</TableHead>
+                            <TableHead className="w-28">Stage</TableHead>
+                            <TableHead className="w-24">Setup</TableHead>
+                            <TableHead className="w-24">Run/unit</TableHead>
+                            <TableHead className="w-10" />
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {rows.map((row, index) => (
+                            <TableRow key={index}>
+                                <TableCell>
+                                    <Input type="number" min="1" value={row.sequence} onChange={e => updateRow(index, { sequence: e.target.value })} />
+                                </TableCell>
+                                <TableCell>
+                                    <Select value={row.operation_id} onValueChange={val => updateRow(index, { operation_id: val })}>
+                                        <SelectTrigger>
+                                            <SelectValue placeholder="Select Operation" />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {operations?.map(op => (
+                                                <SelectItem key={op.id} value={op.id}>{op.name}</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </TableCell>
+                                <TableCell>
+                                    <Select value={row.work_center_id} onValueChange={val => updateRow(index, { work_center_id: val })}>
+                                        <SelectTrigger>
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value={OPERATION_WORK_CENTER}>Operation default</SelectItem>
+                                            {workCenters?.map(wc => (
+                                                <SelectItem key={wc.id} value={wc.id}>{wc.code} - {wc.name}</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </TableCell>
+                                <TableCell>
+                                    <Select value={row.stage} onValueChange={val => updateRow(index, { stage: val as WorkOrderStage })}>
+                                        <SelectTrigger>
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {STAGES.map(stage => (
+                                                <SelectItem key={stage} value={stage}>{stage}</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </TableCell>
+                                <TableCell>
+                                    <Input type="number" min="0" value={row.setup_minutes} onChange={e => updateRow(index, { setup_minutes: e.target.value })} />
+                                </TableCell>
+                                <TableCell>
+                                    <Input type="number" min="0" step="0.01" value={row.run_minutes} placeholder="std" onChange={e => updateRow(index, { run_minutes: e.target.value })} />
+                                </TableCell>
+                                <TableCell>
+                                    <Button variant="ghost" size="icon" onClick={() => setRows(rows.filter((_, i) => i !== index))}>
+                                        <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                </TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+
+                <Button variant="outline" size="sm" className="w-fit" onClick={addRow}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Step
+                </Button>
+
+                {errors.length > 0 && (
+                    <ul className="text-sm text-destructive list-disc pl-5">
+                        {errors.map(e => <li key={e}>{e}</li>)}
+                    </ul>
+                )}
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={onClose}>Cancel</Button>
+                    <Button onClick={handleSave} disabled={errors.length > 0 || saveRouting.isPending}>
+                        {saveRouting.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Save Routing
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,139 @@
+import { format, parseISO } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ErrorState } from '@/components/ui/error-state';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ListOrdered, Play, Wand2 } from 'lucide-react';
+import { useGenerateRoutingWorkOrders, useProductionWorkOrders, useStartWorkOrder } from '@/hooks/useProduction';
+import { ProductionWorkOrder } from '@/types/production';
+
+const STATUS_VARIANT: Record<ProductionWorkOrder['status'], 'default' | 'secondary' | 'outline' | 'destructive'> = {
+    pending: 'outline',
+    in_progress: 'secondary',
+    completed: 'default',
+    cancelled: 'destructive',
+};
+
+/** Lower routing sequences of the same production order that are not done yet */
+function openPredecessors(wo: ProductionWorkOrder, all: ProductionWorkOrder[]) {
+    if (wo.routing_sequence === null) return [];
+    return all.filter(other =>
+        other.routing_sequence !== null
+        && other.routing_sequence < wo.routing_sequence!
+        && other.status !== 'completed'
+        && other.status !== 'cancelled');
+}
+
+interface ProductionWorkOrdersCardProps {
+    productionOrderId: string;
+    productionOrderStatus: string;
+}
+
+/** Work orders of a production order in routing sequence, started one step after the other */
+export function ProductionWorkOrdersCard({ productionOrderId, productionOrderStatus }: ProductionWorkOrdersCardProps) {
+    const { data: workOrders, isLoading, error } = useProductionWorkOrders(productionOrderId);
+    const generate = useGenerateRoutingWorkOrders();
+    const startWO = useStartWorkOrder();
+
+    const canGenerate = productionOrderStatus !== 'planned' && workOrders?.length === 0;
+
+    return (
+        <Card className="md:col-span-3 shadow-card">
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div>
+                    <CardTitle className="flex items-center gap-2">
+                        <ListOrdered className="h-5 w-5 text-primary" />
+                        Operations
+                    </CardTitle>
+                    <CardDescription>
+                        Generated from the BOM routing on release. Each step starts once the steps before it are completed.
+                    </CardDescription>
+                </div>
+                {canGenerate && (
+                    <Button variant="outline" size="sm" onClick={() => generate.mutate(productionOrderId)} disabled={generate.isPending}>
+                        <Wand2 className="mr-2 h-4 w-4" />
+                        Generate from Routing
+                    </Button>
+                )}
+            </CardHeader>
+            <CardContent>
+                {isLoading ? (
+                    <Skeleton className="h-24 w-full" />
+                ) : error ? (
+                    <ErrorState title="Failed to load work orders" message={error.message} />
+                ) : (
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Seq</TableHead>
+                                <TableHead>Work Order</TableHead>
+                                <TableHead>Operation</TableHead>
+                                <TableHead>Work Center</TableHead>
+                                <TableHead className="text-right">Qty</TableHead>
+                                <TableHead className="text-right">Planned (min)</TableHead>
+                                <TableHead>Scheduled</TableHead>
+                                <TableHead>Status</TableHead>
+                                <TableHead className="text-right">Actions</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {workOrders && workOrders.length > 0 ? (
+                                workOrders.map(wo => {
+                                    const waitingFor = openPredecessors(wo, workOrders);
+                                    return (
+                                        <TableRow key={wo.id}>
+                                            <TableCell className="font-mono">{wo.routing_sequence ?? '-'}</TableCell>
+                                            <TableCell>
+                                                <div className="font-mono">{wo.wo_number}</div>
+                                                <div className="text-xs text-muted-foreground">{wo.stage}</div>
+                                            </TableCell>
+                                            <TableCell>{wo.operation?.name ?? '-'}</TableCell>
+                                            <TableCell>{wo.work_center?.code ?? '-'}</TableCell>
+                                            <TableCell className="text-right">
+                                                {Number(wo.qty_completed)} / {Number(wo.qty_started)}
+                                            </TableCell>
+                                            <TableCell className="text-right">{Math.round(Number(wo.planned_minutes))}</TableCell>
+                                            <TableCell className="text-sm">
+                                                {wo.scheduled_start_date
+                                                    ? `${format(parseISO(wo.scheduled_start_date), 'dd MMM')} - ${format(parseISO(wo.scheduled_end_date!), 'dd MMM')}`
+                                                    : <span className="text-muted-foreground">Not scheduled</span>}
+                                            </TableCell>
+                                            <TableCell>
+                                                <Badge variant={STATUS_VARIANT[wo.status]}>
+                                                    {wo.status.replace('_', ' ').toUpperCase()}
+                                                </Badge>
+                                            </TableCell>
+                                            <TableCell className="text-right">
+                                                {wo.status === 'pending' && (
+                                                    <Button
+                                                        size="sm"
+                                                        variant="ghost"
+                                                        disabled={waitingFor.length > 0 || startWO.isPending}
+                                                        title={waitingFor.length > 0 ? `Waiting for ${waitingFor.map(p => p.wo_number).join(', ')}` : undefined}
+                                                        onClick={() => startWO.mutate(wo)}
+                                                    >
+                                                        <Play className="mr-1 h-3 w-3" /> Start
+                                                    </Button>
+                                                )}
+                                            </TableCell>
+                                        </TableRow>
+                                    );
+                                })
+                            ) : (
+                                <TableRow>
+                                    <TableCell colSpan={9} className="text-center h-24 text-muted-foreground">
+                                        {productionOrderStatus === 'planned'
+                                            ? 'Work orders are generated from the BOM routing when the order is released.'
+                                            : 'No work orders yet.'}
+                                    </TableCell>
+                                </TableRow>
+                            )}
+                        </TableBody>
+                    </Table>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,120 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ErrorState } from '@/components/ui/error-state';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Shirt } from 'lucide-react';
+import { useProductionOrderMaterialNeeds } from '@/hooks/useProduction';
+import { VariantMaterialNeed } from '@/types/production';
+
+interface MaterialNeedRow {
+    code: string;
+    name: string;
+    uom: string | null;
+    byVariant: { [variantKey: string]: number };
+    total: number;
+    isVariantSpecific: boolean;
+}
+
+const variantKey = (need: VariantMaterialNeed) => need.product_variant_id ?? 'all';
+
+const round4 = (value: number) => Math.round(value * 10000) / 10000;
+
+/** Pivots the explosion into one row per material / sub-assembly with a column per variant */
+function pivotNeeds(needs: VariantMaterialNeed[]): MaterialNeedRow[] {
+    const rows = new Map<string, MaterialNeedRow>();
+
+    for (const need of needs) {
+        const key = need.material_id ?? need.component_product_id ?? '';
+        const row = rows.get(key) ?? {
+            code: need.material_code ?? need.product_code ?? '',
+            name: need.material_name ?? need.product_name ?? '',
+            uom: need.uom,
+            byVariant: {},
+            total: 0,
+            isVariantSpecific: false,
+        };
+
+        const qty = Number(need.total_qty);
+        row.byVariant[variantKey(need)] = round4((row.byVariant[variantKey(need)] ?? 0) + qty);
+        row.total = round4(row.total + qty);
+        row.isVariantSpecific = row.isVariantSpecific || need.is_variant_specific;
+        rows.set(key, row);
+    }
+
+    return [...rows.values()];
+}
+
+interface VariantMaterialNeedsCardProps {
+    productionOrderId: string;
+}
+
+/** Exact material needs of a production order for each variant of its size / color mix */
+export function VariantMaterialNeedsCard({ productionOrderId }: VariantMaterialNeedsCardProps) {
+    const { data: needs, isLoading, error } = useProductionOrderMaterialNeeds(productionOrderId);
+
+    const variants = [...new Map((needs || []).map(n => [variantKey(n), n])).values()];
+    const rows = pivotNeeds(needs || []);
+    const hasMix = variants.some(v => v.product_variant_id);
+
+    return (
+        <Card className="md:col-span-3 shadow-card">
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <Shirt className="h-5 w-5 text-primary" />
+                    Material Needs
+                </CardTitle>
+                <CardDescription>
+                    {hasMix
+                        ? 'Exploded per variant with the size quantities and color materials of the BOM.'
+                        : 'Exploded from the BOM for the planned quantity.'}
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+                {isLoading ? (
+                    <Skeleton className="h-24 w-full" />
+                ) : error ? (
+                    <ErrorState title="Cannot explode production order" message={error.message} />
+                ) : rows.length === 0 ? (
+                    <p className="text-center text-sm text-muted-foreground py-6">No BOM requirements.</p>
+                ) : (
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Material</TableHead>
+                                {hasMix && variants.map(v => (
+                                    <TableHead key={variantKey(v)} className="text-right">
+                                        <div>{[v.size_code, v.color_code].filter(Boolean).join(' / ') || v.sku}</div>
+                                        <div className="text-xs font-normal">× {v.variant_qty}</div>
+                                    </TableHead>
+                                ))}
+                                <TableHead className="text-right">Total</TableHead>
+                                <TableHead>UOM</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {rows.map(row => (
+                                <TableRow key={row.code}>
+                                    <TableCell>
+                                        <div className="font-medium flex items-center gap-2">
+                                            {row.name}
+                                            {row.isVariantSpecific && <Badge variant="secondary">Varies</Badge>}
+                                        </div>
+                                        <div className="text-xs text-muted-foreground font-mono">{row.code}</div>
+                                    </TableCell>
+                                    {hasMix && variants.map(v => (
+                                        <TableCell key={variantKey(v)} className="text-right">
+                                            {row.byVariant[variantKey(v)] ?? '-'}
+                                        </TableCell>
+                                    ))}
+                                    <TableCell className="text-right font-medium">{row.total}</TableCell>
+                                    <TableCell><Badge variant="outline">{row.uom}</Badge></TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TableSkeleton } from '@/components/ui/table-skeleton';
+import { CalendarOff, Trash2 } from 'lucide-react';
+import { useApp } from '@/contexts/AppContext';
+import {
+    WorkCenter,
+    useDeleteWorkCenterCalendarDay,
+    useSaveWorkCenterCalendarDay,
+    useWorkCenterCalendar,
+} from '@/hooks/useProduction';
+
+const ALL_WORK_CENTERS = 'all';
+
+const emptyForm = () => ({
+    work_center_id: ALL_WORK_CENTERS,
+    calendar_date: new Date().toISOString().split('T')[0],
+    capacity_hours: 0,
+    reason: '',
+});
+
+/** Holidays, shutdowns and overtime days that override a work center's regular hours */
+export function WorkCenterCalendarCard({ workCenters }: { workCenters: WorkCenter[] }) {
+    const { companyId } = useApp();
+    const { data: days, isLoading } = useWorkCenterCalendar(companyId);
+    const saveDay = useSaveWorkCenterCalendarDay();
+    const deleteDay = useDeleteWorkCenterCalendarDay();
+    const [form, setForm] = useState(emptyForm);
+
+    const handleSave = async () => {
+        try {
+            await saveDay.mutateAsync({
+                work_center_id: form.work_center_id === ALL_WORK_CENTERS ? null : form.work_center_id,
+                calendar_date: form.calendar_date,
+                capacity_hours: Number(form.capacity_hours),
+                reason: form.reason || null,
+            });
+            setForm(emptyForm());
+        } catch (error) {
+            // Error handled by hook
+        }
+    };
+
+    const workCenterLabel = (id: string | null) => {
+        if (!id) return 'All work centers';
+        const wc = workCenters.find(w => w.id === id);
+        return wc ? `${wc.code} - ${wc.name}` : id;
+    };
+
+    return (
+        <Card className="shadow-card">
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <CalendarOff className="h-5 w-5 text-primary" />
+                    Capacity Calendar
+                </CardTitle>
+                <CardDescription>
+                    Holidays (0 hours) and overtime days replace the regular hours of a work center, or of all work centers, for the scheduler
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-5 gap-2 items-end">
+                    <div className="space-y-1">
+                        <Label htmlFor="cal-date">Date</Label>
+                        <Input id="cal-date" type="date" value={form.calendar_date} onChange={e => setForm({ ...form, calendar_date: e.target.value })} />
+                    </div>
+                    <div className="space-y-1">
+                        <Label>Work Center</Label>
+                        <Select value={form.work_center_id} onValueChange={val => setForm({ ...form, work_center_id: val })}>
+                            <SelectTrigger>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={ALL_WORK_CENTERS}>All work centers</SelectItem>
+                                {workCenters.map(wc => (
+                                    <SelectItem key={wc.id} value={wc.id}>{wc.code} - {wc.name}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="space-y-1">
+                        <Label htmlFor="cal-hours">Hours</Label>
+                        <Input id="cal-hours" type="number" min="0" value={form.capacity_hours} onChange={e => setForm({ ...form, capacity_hours: Number(e.target.value) })} />
+                    </div>
+                    <div className="space-y-1">
+                        <Label htmlFor="cal-reason">Reason</Label>
+                        <Input id="cal-reason" value={form.reason} onChange={e => setForm({ ...form, reason: e.target.value })} placeholder="e.g. Eid al-Fitr" />
+                    </div>
+                    <Button onClick={handleSave} disabled={saveDay.isPending || form.capacity_hours < 0}>Save Day</Button>
+                </div>
+
+                {isLoading ? (
+                    <TableSkeleton rows={3} columns={5} />
+                ) : !days || days.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-4">No upcoming calendar exceptions.</p>
+                ) : (
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Date</TableHead>
+                                <TableHead>Work Center</TableHead>
+                                <TableHead className="text-right">Hours</TableHead>
+                                <TableHead>Reason</TableHead>
+                                <TableHead className="text-right">Actions</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {days.map(day => (
+                                <TableRow key={day.id}>
+                                    <TableCell>{format(parseISO(day.calendar_date), 'EEE dd MMM yyyy')}</TableCell>
+                                    <TableCell>{workCenterLabel(day.work_center_id)}</TableCell>
+                                    <TableCell className="text-right">{Number(day.capacity_hours)}</TableCell>
+                                    <TableCell className="text-muted-foreground">{day.reason || '-'}</TableCell>
+                                    <TableCell className="text-right">
+                                        <Button variant="ghost" size="sm" onClick={() => deleteDay.mutate(day.id)} disabled={deleteDay.isPending}>
+                                            <Trash2 className="h-4 w-4" />
+                                        </Button>
+                                    </TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,266 @@
+import { useState, type DragEvent } from 'react';
+import { addDays, format, parseISO } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ErrorState } from '@/components/ui/error-state';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, CalendarRange, ChevronLeft, ChevronRight, Lock } from 'lucide-react';
+import { useApp } from '@/contexts/AppContext';
+import {
+    useRescheduleWorkOrder,
+    useScheduleWorkOrders,
+    useWorkCenterLoad,
+    useWorkOrderSchedule,
+} from '@/hooks/useProduction';
+import { ScheduleDirection, ScheduledWorkOrder, WorkCenterLoadDay } from '@/types/production';
+
+const HORIZON_DAYS = 14;
+
+const toISODate = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const STAGE_COLORS: Record<ScheduledWorkOrder['stage'], string> = {
+    CUT: 'bg-blue-500/80',
+    SEW: 'bg-violet-500/80',
+    FINISH: 'bg-emerald-500/80',
+};
+
+interface WorkCenterRow {
+    id: string;
+    code: string;
+    name: string;
+    load: { [date: string]: WorkCenterLoadDay };
+    workOrders: ScheduledWorkOrder[];
+}
+
+/** One row per work center with its daily load and the work orders booked on it */
+function groupByWorkCenter(load: WorkCenterLoadDay[], schedule: ScheduledWorkOrder[], days: string[]): WorkCenterRow[] {
+    const rows = new Map<string, WorkCenterRow>();
+
+    for (const day of load) {
+        const row = rows.get(day.work_center_id) ?? {
+            id: day.work_center_id,
+            code: day.work_center_code,
+            name: day.work_center_name,
+            load: {},
+            workOrders: [],
+        };
+        row.load[day.load_date] = day;
+        rows.set(day.work_center_id, row);
+    }
+
+    const first = days[0];
+    const last = days[days.length - 1];
+    for (const wo of schedule) {
+        if (!wo.work_center_id || !wo.scheduled_start_date || !wo.scheduled_end_date) continue;
+        if (wo.scheduled_end_date < first || wo.scheduled_start_date > last) continue;
+        rows.get(wo.work_center_id)?.workOrders.push(wo);
+    }
+
+    return Array.from(rows.values()).sort((a, b) => a.code.localeCompare(b.code));
+}
+
+function loadCellClass(day: WorkCenterLoadDay | undefined) {
+    if (!day) return 'bg-muted/40';
+    if (day.is_overloaded) return 'bg-destructive/20 text-destructive font-medium';
+    if (Number(day.capacity_minutes) === 0) return 'bg-muted text-muted-foreground';
+    return Number(day.loaded_minutes) > 0 ? 'bg-primary/10' : '';
+}
+
+export function WorkCenterScheduleCard() {
+    const { companyId } = useApp();
+    const [direction, setDirection] = useState<ScheduleDirection>('forward');
+    const [horizonStart, setHorizonStart] = useState(() => new Date());
+    const [dragging, setDragging] = useState<string | null>(null);
+
+    const days = Array.from({ length: HORIZON_DAYS }, (_, i) => toISODate(addDays(horizonStart, i)));
+    const { data: schedule, isLoading: scheduleLoading, error, refetch } = useWorkOrderSchedule(companyId);
+    const { data: load, isLoading: loadLoading } = useWorkCenterLoad(companyId, days[0], days[days.length - 1]);
+    const scheduleWorkOrders = useScheduleWorkOrders();
+    const reschedule = useRescheduleWorkOrder();
+
+    const rows = groupByWorkCenter(load || [], schedule || [], days);
+    const unscheduled = (schedule || []).filter(wo => !wo.scheduled_start_date);
+    const late = (schedule || []).filter(wo => wo.is_late);
+    const overloads = rows
+        .map(row => ({ row, days: days.map(d => row.load[d]).filter(d => d?.is_overloaded) }))
+        .filter(o => o.days.length > 0);
+
+    const handleDrop = (e: DragEvent<HTMLDivElement>, date: string) => {
+        e.preventDefault();
+        const id = e.dataTransfer.getData('text/plain') || dragging;
+        setDragging(null);
+        if (id) reschedule.mutate({ id, startDate: date });
+    };
+
+    if (error) {
+        return <ErrorState title="Failed to load schedule" message={error.message} onRetry={() => refetch()} />;
+    }
+
+    const gridStyle = { gridTemplateColumns: `160px repeat(${HORIZON_DAYS}, minmax(44px, 1fr))` };
+
+    return (
+        <Card className="shadow-card">
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div>
+                    <CardTitle className="flex items-center gap-2">
+                        <CalendarRange className="h-5 w-5 text-primary" />
+                        Work Center Schedule
+                    </CardTitle>
+                    <CardDescription>
+                        Finite-capacity load per work center. Drag a work order to a new start day to reschedule and lock it.
+                    </CardDescription>
+                </div>
+                <div className="flex items-center gap-2">
+                    <Select value={direction} onValueChange={val => setDirection(val as ScheduleDirection)}>
+                        <SelectTrigger className="w-[170px]">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="forward">Forward from today</SelectItem>
+                            <SelectItem value="backward">Backward from due date</SelectItem>
+                        </SelectContent>
+                    </Select>
+                    <Button
+                        onClick={() => scheduleWorkOrders.mutate({ direction, includeLocked: false })}
+                        disabled={scheduleWorkOrders.isPending}
+                    >
+                        {scheduleWorkOrders.isPending ? 'Scheduling...' : 'Schedule'}
+                    </Button>
+                </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {overloads.length > 0 && (
+                    <Alert variant="destructive">
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertTitle>Work centers over capacity</AlertTitle>
+                        <AlertDescription>
+                            <ul className="list-disc pl-4 text-sm">
+                                {overloads.map(({ row, days: overDays }) => (
+                                    <li key={row.id}>
+                                        {row.code}: {overDays.map(d =>
+                                            `${format(parseISO(d.load_date), 'dd MMM')} (+${Math.round(Number(d.loaded_minutes) - Number(d.capacity_minutes))} min)`
+                                        ).join(', ')}
+                                    </li>
+                                ))}
+                            </ul>
+                        </AlertDescription>
+                    </Alert>
+                )}
+
+                <div className="flex items-center justify-between text-sm">
+                    <div className="flex items-center gap-2">
+                        <Button variant="outline" size="icon" onClick={() => setHorizonStart(d => addDays(d, -7))}>
+                            <ChevronLeft className="h-4 w-4" />
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => setHorizonStart(new Date())}>Today</Button>
+                        <Button variant="outline" size="icon" onClick={() => setHorizonStart(d => addDays(d, 7))}>
+                            <ChevronRight className="h-4 w-4" />
+                        </Button>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        {unscheduled.length > 0 && <Badge variant="secondary">{unscheduled.length} unscheduled</Badge>}
+                        {late.length > 0 && <Badge variant="destructive">{late.length} late</Badge>}
+                    </div>
+                </div>
+
+                {scheduleLoading || loadLoading ? (
+                    <Skeleton className="h-48 w-full" />
+                ) : rows.length === 0 ? (
+                    <p className="text-sm text-muted-foreground py-6 text-center">
+                        No active work centers. Set them up under Operations to schedule work orders.
+                    </p>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <div className="grid min-w-[800px] text-xs" style={gridStyle}>
+                            <div className="p-1 font-medium text-muted-foreground">Work Center</div>
+                            {days.map(d => (
+                                <div key={d} className="p-1 text-center font-medium text-muted-foreground">
+                                    {format(parseISO(d), 'EEE dd')}
+                                </div>
+                            ))}
+
+                            {rows.map(row => (
+                                <WorkCenterRows
+                                    key={row.id}
+                                    row={row}
+                                    days={days}
+                                    onDragStart={setDragging}
+                                    onDrop={handleDrop}
+                                />
+                            ))}
+                        </div>
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
+
+interface WorkCenterRowsProps {
+    row: WorkCenterRow;
+    days: string[];
+    onDragStart: (id: string) => void;
+    onDrop: (e: DragEvent<HTMLDivElement>, date: string) => void;
+}
+
+function WorkCenterRows({ row, days, onDragStart, onDrop }: WorkCenterRowsProps) {
+    return (
+        <>
+            <div className="border-t p-1">
+                <div className="font-medium">{row.code}</div>
+                <div className="text-muted-foreground truncate">{row.name}</div>
+            </div>
+            {days.map(d => {
+                const day = row.load[d];
+                const pct = day && Number(day.capacity_minutes) > 0
+                    ? Math.round((Number(day.loaded_minutes) / Number(day.capacity_minutes)) * 100)
+                    : null;
+                return (
+                    <div
+                        key={d}
+                        className={`border-t border-l p-1 text-center ${loadCellClass(day)}`}
+                        title={day ? `${Math.round(Number(day.loaded_minutes))} / ${Math.round(Number(day.capacity_minutes))} min` : undefined}
+                    >
+                        {pct === null ? (Number(day?.loaded_minutes) > 0 ? 'closed' : '–') : `${pct}%`}
+                    </div>
+                );
+            })}
+
+            {row.workOrders.map(wo => (
+                <div key={wo.id} className="contents">
+                    <div className="p-1 pl-3 truncate text-muted-foreground" title={`${wo.po_number} · ${wo.product_code}`}>
+                        {wo.wo_number}
+                    </div>
+                    {days.map(d => {
+                        const booked = wo.scheduled_start_date! <= d && d <= wo.scheduled_end_date!;
+                        return (
+                            <div
+                                key={d}
+                                className="border-l p-0.5"
+                                onDragOver={e => e.preventDefault()}
+                                onDrop={e => onDrop(e, d)}
+                            >
+                                {booked && (
+                                    <div
+                                        draggable
+                                        onDragStart={e => {
+                                            e.dataTransfer.setData('text/plain', wo.id);
+                                            onDragStart(wo.id);
+                                        }}
+                                        className={`h-5 rounded-sm cursor-grab flex items-center justify-center text-white ${wo.is_late ? 'bg-destructive' : STAGE_COLORS[wo.stage]}`}
+                                        title={`${wo.wo_number} (${wo.stage}) · ${wo.po_number} · ${Math.round(Number(wo.planned_minutes))} min${wo.due_date ? ` · due ${wo.due_date}` : ''}`}
+                                    >
+                                        {d === wo.scheduled_start_date && wo.is_schedule_locked && <Lock className="h-3 w-3" />}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            ))}
+        </>
+    );
+}
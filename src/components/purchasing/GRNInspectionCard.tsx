@@ -0,0 +1,204 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ClipboardCheck, Loader2, Undo2 } from 'lucide-react';
+import {
+    useCreateReturnFromRejections,
+    useGRNInspectionQueue,
+    useGRNOpenRejections,
+    useRecordGRNInspection,
+} from '@/hooks/usePurchasing';
+import { GRNDefectReason, GRNInspectionQueueItem } from '@/types/purchasing';
+
+const DEFECT_REASONS: { value: GRNDefectReason; label: string }[] = [
+    { value: 'SHADE_VARIATION', label: 'Shade variation' },
+    { value: 'HOLES', label: 'Holes' },
+    { value: 'STAINS', label: 'Stains' },
+    { value: 'WIDTH_SHORT', label: 'Width short' },
+    { value: 'GSM_OFF', label: 'GSM off spec' },
+    { value: 'WRONG_ITEM', label: 'Wrong item' },
+    { value: 'OTHER', label: 'Other' },
+];
+
+interface InspectionEntry {
+    qty_accepted: number;
+    qty_rejected: number;
+    defect_reason?: GRNDefectReason;
+    notes: string;
+}
+
+interface GRNInspectionCardProps {
+    poId: string;
+}
+
+/** Inspection entry for quarantined receipts of a PO and vendor returns of what was rejected */
+export function GRNInspectionCard({ poId }: GRNInspectionCardProps) {
+    const { data: queue } = useGRNInspectionQueue(poId);
+    const { data: rejections } = useGRNOpenRejections(poId);
+    const recordInspection = useRecordGRNInspection();
+    const createReturn = useCreateReturnFromRejections();
+
+    const [entries, setEntries] = useState<{ [lineId: string]: InspectionEntry }>({});
+
+    if ((!queue || queue.length === 0) && (!rejections || rejections.length === 0)) return null;
+
+    const entryFor = (item: GRNInspectionQueueItem): InspectionEntry =>
+        entries[item.grn_line_id] ?? { qty_accepted: item.qty_received, qty_rejected: 0, notes: '' };
+
+    const updateEntry = (item: GRNInspectionQueueItem, changes: Partial<InspectionEntry>) => {
+        setEntries(prev => ({ ...prev, [item.grn_line_id]: { ...entryFor(item), ...changes } }));
+    };
+
+    // Rejected is what is left of the received quantity
+    const handleAcceptedChange = (item: GRNInspectionQueueItem, qty: number) => {
+        const accepted = Math.min(Math.max(qty || 0, 0), item.qty_received);
+        updateEntry(item, { qty_accepted: accepted, qty_rejected: item.qty_received - accepted });
+    };
+
+    const handleRecord = (item: GRNInspectionQueueItem) => {
+        const entry = entryFor(item);
+        recordInspection.mutate(
+            { grn_line_id: item.grn_line_id, ...entry },
+            {
+                onSuccess: () => setEntries(prev => {
+                    const next = { ...prev };
+                    delete next[item.grn_line_id];
+                    return next;
+                }),
+            }
+        );
+    };
+
+    const rejectedGRNs = [...new Map((rejections || []).map(r => [r.grn_id, r.grn_number])).entries()];
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <ClipboardCheck className="h-5 w-5 text-primary" />
+                    Incoming Inspection
+                </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+                {queue && queue.length > 0 && (
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>GRN</TableHead>
+                                <TableHead>Material</TableHead>
+                                <TableHead className="text-right">Received</TableHead>
+                                <TableHead className="w-28">Accepted</TableHead>
+                                <TableHead className="text-right">Rejected</TableHead>
+                                <TableHead className="w-44">Defect</TableHead>
+                                <TableHead>Notes</TableHead>
+                                <TableHead className="w-24"></TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {queue.map(item => {
+                                const entry = entryFor(item);
+                                const needsReason = entry.qty_rejected > 0 && !entry.defect_reason;
+
+                                return (
+                                    <TableRow key={item.grn_line_id}>
+                                        <TableCell>
+                                            <div className="font-mono text-sm">{item.grn_number}</div>
+                                            <div className="text-xs text-muted-foreground">in {item.qc_bin_code}</div>
+                                        </TableCell>
+                                        <TableCell>
+                                            <div className="font-medium">{item.material_name}</div>
+                                            <div className="text-xs text-muted-foreground">{item.material_code}</div>
+                                        </TableCell>
+                                        <TableCell className="text-right">
+                                            {item.qty_received} {item.unit_of_measure}
+                                        </TableCell>
+                                        <TableCell>
+                                            <Input
+                                                type="number"
+                                                min="0"
+                                                max={item.qty_received}
+                                                value={entry.qty_accepted}
+                                                onChange={e => handleAcceptedChange(item, parseFloat(e.target.value))}
+                                            />
+                                        </TableCell>
+                                        <TableCell className="text-right">
+                                            {entry.qty_rejected > 0
+                                                ? <Badge variant="destructive">{entry.qty_rejected}</Badge>
+                                                : 0}
+                                        </TableCell>
+                                        <TableCell>
+                                            <Select
+                                                value={entry.defect_reason}
+                                                onValueChange={value => updateEntry(item, { defect_reason: value as GRNDefectReason })}
+                                                disabled={entry.qty_rejected <= 0}
+                                            >
+                                                <SelectTrigger>
+                                                    <SelectValue placeholder="Reason" />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    {DEFECT_REASONS.map(reason => (
+                                                        <SelectItem key={reason.value} value={reason.value}>{reason.label}</SelectItem>
+                                                    ))}
+                                                </SelectContent>
+                                            </Select>
+                                        </TableCell>
+                                        <TableCell>
+                                            <Input
+                                                placeholder="Optional"
+                                                value={entry.notes}
+                                                onChange={e => updateEntry(item, { notes: e.target.value })}
+                                            />
+                                        </TableCell>
+                                        <TableCell>
+                                            <Button
+                                                size="sm"
+                                                onClick={() => handleRecord(item)}
+                                                disabled={needsReason || recordInspection.isPending}
+                                            >
+                                                Record
+                                            </Button>
+                                        </TableCell>
+                                    </TableRow>
+                                );
+                            })}
+                        </TableBody>
+                    </Table>
+                )}
+
+                {rejections && rejections.length > 0 && (
+                    <div className="space-y-2">
+                        <h4 className="text-sm font-medium">Rejected, awaiting return</h4>
+                        {rejectedGRNs.map(([grnId, grnNumber]) => (
+                            <div key={grnId} className="flex items-center justify-between rounded-md border p-3">
+                                <div className="text-sm">
+                                    <div className="font-mono">{grnNumber}</div>
+                                    {rejections.filter(r => r.grn_id === grnId).map(r => (
+                                        <div key={r.grn_line_id} className="text-muted-foreground">
+                                            {r.material_name}: {r.qty_open}
+                                            {r.defect_reason && ` (${DEFECT_REASONS.find(d => d.value === r.defect_reason)?.label})`}
+                                        </div>
+                                    ))}
+                                </div>
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => createReturn.mutate(grnId)}
+                                    disabled={createReturn.isPending}
+                                >
+                                    {createReturn.isPending
+                                        ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                        : <Undo2 className="mr-2 h-4 w-4" />}
+                                    Create vendor return
+                                </Button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,87 @@
+import { format, parseISO, startOfMonth, subMonths } from 'date-fns';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Award } from 'lucide-react';
+import { useApp } from '@/contexts/AppContext';
+import { useVendorScorecardRanking, useVendorScorecardTrend } from '@/hooks/usePurchasing';
+import { formatPct, scoreVariant } from '@/lib/scorecard';
+
+const chartConfig = {
+    score: { label: 'Score', color: 'hsl(var(--chart-1))' },
+    on_time_pct: { label: 'On-time %', color: 'hsl(var(--chart-2))' },
+    fill_rate_pct: { label: 'Fill rate %', color: 'hsl(var(--chart-3))' },
+} satisfies ChartConfig;
+
+interface VendorScorecardCardProps {
+    vendorId: string;
+    months?: number;
+}
+
+/** Scorecard KPIs, rank among vendors and monthly trend for one vendor */
+export function VendorScorecardCard({ vendorId, months = 12 }: VendorScorecardCardProps) {
+    const { companyId } = useApp();
+    const from = format(startOfMonth(subMonths(new Date(), months - 1)), 'yyyy-MM-dd');
+    const to = format(new Date(), 'yyyy-MM-dd');
+
+    const { data: trend, isLoading } = useVendorScorecardTrend(vendorId, from);
+    const { data: ranking } = useVendorScorecardRanking(companyId, from, to);
+    const summary = ranking?.find(r => r.vendor_id === vendorId);
+
+    const kpis = [
+        { label: 'On-time delivery', value: formatPct(summary?.on_time_pct ?? null) },
+        { label: 'Fill rate', value: formatPct(summary?.fill_rate_pct ?? null) },
+        { label: 'QC rejected', value: formatPct(summary?.reject_pct ?? null) },
+        { label: 'Returned', value: formatPct(summary?.return_pct ?? null) },
+        { label: 'Price vs PO', value: formatPct(summary?.price_variance_pct ?? null) },
+    ];
+
+    return (
+        <Card className="shadow-card">
+            <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                    <span className="flex items-center gap-2">
+                        <Award className="h-5 w-5 text-primary" />
+                        Performance (last {months} months)
+                    </span>
+                    {summary && (
+                        <span className="flex items-center gap-2 text-sm font-normal text-muted-foreground">
+                            Rank {summary.rank} of {ranking?.length}
+                            <Badge variant={scoreVariant(summary.score)}>{summary.score ?? '—'}</Badge>
+                        </span>
+                    )}
+                </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="grid grid-cols-5 gap-2">
+                    {kpis.map(kpi => (
+                        <div key={kpi.label} className="rounded-md border p-2">
+                            <div className="text-xs text-muted-foreground">{kpi.label}</div>
+                            <div className="text-lg font-semibold">{kpi.value}</div>
+                        </div>
+                    ))}
+                </div>
+
+                {isLoading ? (
+                    <div className="text-sm text-muted-foreground">Loading...</div>
+                ) : trend && trend.length > 0 ? (
+                    <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+                        <LineChart data={trend.map(m => ({ ...m, label: format(parseISO(m.month), 'MMM yy') }))}>
+                            <CartesianGrid vertical={false} />
+                            <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                            <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+                            <ChartTooltip content={<ChartTooltipContent />} />
+                            <ChartLegend content={<ChartLegendContent />} />
+                            <Line dataKey="score" stroke="var(--color-score)" strokeWidth={2} connectNulls />
+                            <Line dataKey="on_time_pct" stroke="var(--color-on_time_pct)" connectNulls />
+                            <Line dataKey="fill_rate_pct" stroke="var(--color-fill_rate_pct)" connectNulls />
+                        </LineChart>
+                    </ChartContainer>
+                ) : (
+                    <div className="text-sm text-muted-foreground">No receipts, orders or invoices in this period.</div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
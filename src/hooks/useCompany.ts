@@ -40,6 +40,25 @@ export const useUpdateCompanySettings = () => {
     });
 };
 
+// Goes through the RPC so switching to FIFO also opens cost layers from current stock
+export const useSetValuationMethod = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: async ({ id, method }: { id: string, method: NonNullable<CompanySettings['inventory_valuation_method']> }) => {
+            const { error } = await supabase.rpc('set_inventory_valuation_method', {
+                p_company_id: id,
+                p_method: method
+            });
+
+            if (error) throw error;
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['company'] });
+        },
+    });
+};
+
 export const useUpdateCompanyProfile = () => {
     const queryClient = useQueryClient();
 
@@ -3,7 +3,9 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useApp } from '@/contexts/AppContext';
+import { handleSupabaseError } from '@/utils/errorHandler';
 import { SalesInvoice } from '@/types/sales';
+import { InvoiceMatchException } from '@/types/purchasing';
 
 export const useVendorInvoices = (companyId: string) => {
     return useQuery({
@@ -129,6 +131,51 @@ export const usePayVendorInvoice = () => {
     });
 };
 
+export const useInvoiceMatchExceptions = (companyId: string) => {
+    return useQuery({
+        queryKey: ['invoice-match-exceptions', companyId],
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from('invoice_match_exceptions_vw')
+                .select('*')
+                .eq('company_id', companyId)
+                .eq('status', 'pending')
+                .order('created_at');
+
+            if (error) throw error;
+            return data as InvoiceMatchException[];
+        },
+        enabled: !!companyId,
+    });
+};
+
+export const useResolveMatchException = () => {
+    const queryClient = useQueryClient();
+    const { toast } = useToast();
+    const { userId } = useApp();
+
+    return useMutation({
+        mutationFn: async ({ id, status, notes }: { id: string; status: 'approved' | 'rejected'; notes?: string }) => {
+            const { error } = await supabase.rpc('resolve_invoice_match_exception', {
+                p_exception_id: id,
+                p_status: status,
+                p_notes: notes || null,
+                p_user_id: userId,
+            });
+
+            if (error) throw error;
+        },
+        onSuccess: (_, { status }) => {
+            queryClient.invalidateQueries({ queryKey: ['invoice-match-exceptions'] });
+            queryClient.invalidateQueries({ queryKey: ['vendor-invoices'] });
+            toast({ title: status === 'approved' ? 'Exception approved' : 'Exception rejected' });
+        },
+        onError: (error) => {
+            toast({ variant: 'destructive', title: 'Error', description: handleSupabaseError(error) });
+        }
+    });
+};
+
 export const useSalesInvoices = (companyId: string) => {
     return useQuery({
         queryKey: ['sales-invoices', companyId],
@@ -137,7 +184,8 @@ export const useSalesInvoices = (companyId: string) => {
                 .from('sales_invoices')
                 .select(`
             *,
-            customer:customers(name)
+            customer:customers(name),
+            tax_invoices(id, nsfp, replacement_seq, status, exported_at)
           `)
                 .eq('company_id', companyId)
                 .order('invoice_date', { ascending: false });
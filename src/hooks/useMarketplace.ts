@@ -0,0 +1,219 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { handleSupabaseError } from '@/utils/errorHandler';
+import { useApp } from '@/contexts/AppContext';
+import {
+    MarketplaceAccount,
+    MarketplaceOrder,
+    MarketplaceSKUMapping,
+    MarketplaceStockReconciliation,
+    MarketplaceStockSyncLog,
+    SKUMappingPayload,
+    UnmappedMarketplaceItem,
+} from '@/types/marketplace';
+
+export const useMarketplaceAccounts = (companyId: string) => {
+    return useQuery({
+        queryKey: ['marketplace-accounts', companyId],
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from('marketplace_accounts')
+                .select('id, company_id, platform, account_name, shop_id, warehouse_id, is_active, last_order_sync_at, last_sync_error, auto_sync_inventory, stock_safety_buffer, last_stock_push_at')
+                .eq('company_id', companyId)
+                .order('account_name');
+
+            if (error) throw error;
+            return data as MarketplaceAccount[];
+        },
+        enabled: !!companyId
+    });
+};
+
+export const useMarketplaceOrders = (companyId: string) => {
+    return useQuery({
+        queryKey: ['marketplace-orders', companyId],
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from('marketplace_orders')
+                .select('*, account:marketplace_accounts(platform, account_name)')
+                .eq('company_id', companyId)
+                .order('order_date', { ascending: false })
+                .limit(200);
+
+            if (error) throw error;
+            return data as MarketplaceOrder[];
+        },
+        enabled: !!companyId
+    });
+};
+
+// Review queue: listing SKUs of open orders that match no variant
+export const useUnmappedMarketplaceItems = (companyId: string) => {
+    return useQuery({
+        queryKey: ['marketplace-unmapped-items', companyId],
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from('marketplace_unmapped_items_vw')
+                .select('*')
+                .eq('company_id', companyId)
+                .order('order_count', { ascending: false });
+
+            if (error) throw error;
+            return data as UnmappedMarketplaceItem[];
+        },
+        enabled: !!companyId
+    });
+};
+
+export const useMarketplaceSKUMappings = (companyId: string) => {
+    return useQuery({
+        queryKey: ['marketplace-sku-mappings', companyId],
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from('marketplace_sku_mappings')
+                .select('*, variant:product_variants(sku, product:products(name))')
+                .eq('company_id', companyId)
+                .order('external_sku');
+
+            if (error) throw error;
+            return data as MarketplaceSKUMapping[];
+        },
+        enabled: !!companyId
+    });
+};
+
+// Marketplace stock per listing vs what we can sell (on hand - reserved - safety buffer)
+export const useMarketplaceStockReconciliation = (companyId: string) => {
+    return useQuery({
+        queryKey: ['marketplace-stock-reconciliation', companyId],
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from('marketplace_stock_reconciliation_vw')
+                .select('*')
+                .eq('company_id', companyId)
+                .order('external_sku');
+
+            if (error) throw error;
+            return data as MarketplaceStockReconciliation[];
+        },
+        enabled: !!companyId
+    });
+};
+
+export const useMarketplaceStockSyncLog = (companyId: string) => {
+    return useQuery({
+        queryKey: ['marketplace-stock-sync-log', companyId],
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from('marketplace_stock_sync_log')
+                .select('*')
+                .eq('company_id', companyId)
+                .order('created_at', { ascending: false })
+                .limit(100);
+
+            if (error) throw error;
+            return data as MarketplaceStockSyncLog[];
+        },
+        enabled: !!companyId
+    });
+};
+
+// Saves (replaces) the mapping of a listing SKU and re-resolves open orders containing it;
+// the order sync then converts the ones that are fully mapped
+export const useSaveSKUMapping = () => {
+    const queryClient = useQueryClient();
+    const { toast } = useToast();
+    const { companyId } = useApp();
+
+    return useMutation({
+        mutationFn: async (payload: SKUMappingPayload) => {
+            if (!payload.components.length) {
+                throw new Error('Select at least one variant.');
+            }
+
+            const { error: deleteError } = await supabase
+                .from('marketplace_sku_mappings')
+                .delete()
+                .eq('account_id', payload.account_id)
+                .eq('external_sku', payload.external_sku);
+
+            if (deleteError) throw deleteError;
+
+            const { error } = await supabase
+                .from('marketplace_sku_mappings')
+                .insert(payload.components.map(c => ({
+                    company_id: companyId,
+                    account_id: payload.account_id,
+                    external_sku: payload.external_sku,
+                    listing_name: payload.listing_name,
+                    product_variant_id: c.product_variant_id,
+                    quantity: c.quantity
+                })));
+
+            if (error) throw error;
+
+            const { data: resolved, error: applyError } = await supabase.rpc('apply_marketplace_sku_mapping', {
+                p_account_id: payload.account_id,
+                p_external_sku: payload.external_sku
+            });
+
+            if (applyError) throw applyError;
+            return resolved as number;
+        },
+        onSuccess: (resolved) => {
+            queryClient.invalidateQueries({ queryKey: ['marketplace-sku-mappings'] });
+            queryClient.invalidateQueries({ queryKey: ['marketplace-unmapped-items'] });
+            queryClient.invalidateQueries({ queryKey: ['marketplace-orders'] });
+            toast({
+                title: 'SKU mapping saved',
+                description: resolved
+                    ? `${resolved} open order(s) re-matched. Those now fully mapped are converted on the next order sync.`
+                    : 'The mapping applies to future orders.',
+            });
+        },
+        onError: (error) => {
+            toast({
+                title: 'Failed to save mapping',
+                description: handleSupabaseError(error),
+                variant: 'destructive',
+            });
+        }
+    });
+};
+
+export const useDeleteSKUMapping = () => {
+    const queryClient = useQueryClient();
+    const { toast } = useToast();
+
+    return useMutation({
+        mutationFn: async ({ account_id, external_sku }: { account_id: string; external_sku: string }) => {
+            const { error } = await supabase
+                .from('marketplace_sku_mappings')
+                .delete()
+                .eq('account_id', account_id)
+                .eq('external_sku', external_sku);
+
+            if (error) throw error;
+
+            const { error: applyError } = await supabase.rpc('apply_marketplace_sku_mapping', {
+                p_account_id: account_id,
+                p_external_sku: external_sku
+            });
+
+            if (applyError) throw applyError;
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['marketplace-sku-mappings'] });
+            queryClient.invalidateQueries({ queryKey: ['marketplace-unmapped-items'] });
+            toast({ title: 'SKU mapping removed' });
+        },
+        onError: (error) => {
+            toast({
+                title: 'Failed to remove mapping',
+                description: handleSupabaseError(error),
+                variant: 'destructive',
+            });
+        }
+    });
+};
@@ -6,6 +6,7 @@ import { useApp } from '@/contexts/AppContext';
 import { Product, ProductVariant } from '@/types/product';
 import { Vendor, Customer } from '@/types/partner';
 import { Warehouse, Bin } from '@/types/inventory';
+import { TaxCode, TaxType } from '@/types/finance';
 // Wait, customer interface was in useMasterData.ts. Let's inspect src/types/sales.ts again in previous turn. 
 // It had inline Customer type inside SalesOrder? No, it had `customer?: { name, email }`.
 // We need a shared Customer/Vendor type. 
@@ -813,3 +814,24 @@ export const useBins = (warehouseId: string) => {
         enabled: !!warehouseId,
     });
 };
+
+export const useTaxCodes = (companyId: string, taxType?: TaxType) => {
+    return useQuery({
+        queryKey: ['tax-codes', companyId, taxType],
+        queryFn: async () => {
+            let query = supabase
+                .from('tax_codes')
+                .select('*')
+                .eq('company_id', companyId)
+                .eq('is_active', true)
+                .order('code');
+
+            if (taxType) query = query.eq('tax_type', taxType);
+
+            const { data, error } = await query;
+            if (error) throw error;
+            return data as TaxCode[];
+        },
+        enabled: !!companyId,
+    });
+};
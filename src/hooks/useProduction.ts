@@ -5,7 +5,25 @@ import { useToast } from '@/hooks/use-toast';
 import { handleSupabaseError } from '@/utils/errorHandler';
 import { useApp } from '@/contexts/AppContext';
 
-import { BOMHeader, ProductionOrder } from '@/types/production';
+import {
+    BOMColorSubstitution,
+    BOMExplosionRow,
+    BOMHeader,
+    BOMSizeRule,
+    MRPReviewStatus,
+    MRPRun,
+    MRPRunDetail,
+    ProductionOrder,
+    ProductionOrderVariant,
+    BOMRoutingStep,
+    ProductionWorkOrder,
+    ProductVariantOption,
+    ScheduleDirection,
+    ScheduledWorkOrder,
+    VariantMaterialNeed,
+    WorkCenterCalendarDay,
+    WorkCenterLoadDay,
+} from '@/types/production';
 
 export interface WorkCenter {
     id: string;
@@ -13,6 +31,8 @@ export interface WorkCenter {
     name: string;
     capacity_per_day: number;
     cost_per_hour: number;
+    /** ISO weekdays (1 = Monday) with capacity_per_day hours */
+    working_days: number[];
     is_active: boolean;
 }
 
@@ -59,13 +79,16 @@ export const useBOM = (id: string) => {
                     product:products(code, name),
                     lines:bom_lines(
                         id,
+                        line_number,
                         material_id,
+                        component_product_id,
                         qty_per,
                         uom,
                         scrap_percentage,
                         stage,
                         notes,
-                        material:materials(code, name)
+                        material:materials(code, name),
+                        component_product:products(code, name)
                     )
                 `)
                 .eq('id', id)
@@ -78,6 +101,98 @@ export const useBOM = (id: string) => {
     });
 };
 
+/** Indented explosion of a BOM version through all sub-assembly levels */
+export const useBOMExplosion = (bom?: Pick<BOMHeader, 'id' | 'product_id'>, qty?: number) => {
+    return useQuery({
+        queryKey: ['bom-explosion', bom?.id, qty],
+        queryFn: async () => {
+            const { data, error } = await supabase.rpc('explode_bom', {
+                p_product_id: bom?.product_id,
+                p_qty: qty,
+                p_bom_id: bom?.id
+            });
+
+            if (error) throw error;
+            return data as BOMExplosionRow[];
+        },
+        enabled: !!bom?.id && !!qty,
+        retry: false,
+    });
+};
+
+/** Size rules and color substitutions of the given BOM lines */
+export const useBOMVariantRules = (lineIds: string[]) => {
+    return useQuery({
+        queryKey: ['bom-variant-rules', lineIds],
+        queryFn: async () => {
+            const [sizeRules, substitutions] = await Promise.all([
+                supabase.from('bom_line_size_rules').select('*').in('bom_line_id', lineIds),
+                supabase.from('bom_line_color_substitutions').select('*').in('bom_line_id', lineIds),
+            ]);
+
+            if (sizeRules.error) throw sizeRules.error;
+            if (substitutions.error) throw substitutions.error;
+
+            return {
+                sizeRules: sizeRules.data as BOMSizeRule[],
+                substitutions: substitutions.data as BOMColorSubstitution[],
+            };
+        },
+        enabled: lineIds.length > 0,
+    });
+};
+
+export const useSaveBOMLineVariantRules = () => {
+    const queryClient = useQueryClient();
+    const { toast } = useToast();
+
+    return useMutation({
+        mutationFn: async (payload: {
+            bomLineId: string;
+            sizeRules: Pick<BOMSizeRule, 'size_id' | 'qty_per'>[];
+            substitutions: Pick<BOMColorSubstitution, 'color_id' | 'material_id'>[];
+        }) => {
+            const { error: deleteRulesError } = await supabase
+                .from('bom_line_size_rules')
+                .delete()
+                .eq('bom_line_id', payload.bomLineId);
+
+            if (deleteRulesError) throw deleteRulesError;
+
+            const { error: deleteSubsError } = await supabase
+                .from('bom_line_color_substitutions')
+                .delete()
+                .eq('bom_line_id', payload.bomLineId);
+
+            if (deleteSubsError) throw deleteSubsError;
+
+            if (payload.sizeRules.length > 0) {
+                const { error } = await supabase
+                    .from('bom_line_size_rules')
+                    .insert(payload.sizeRules.map(r => ({ bom_line_id: payload.bomLineId, ...r })));
+
+                if (error) throw error;
+            }
+
+            if (payload.substitutions.length > 0) {
+                const { error } = await supabase
+                    .from('bom_line_color_substitutions')
+                    .insert(payload.substitutions.map(s => ({ bom_line_id: payload.bomLineId, ...s })));
+
+                if (error) throw error;
+            }
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['bom-variant-rules'] });
+            queryClient.invalidateQueries({ queryKey: ['bom-explosion'] });
+            toast({ title: 'Variant Rules Saved', description: 'Size and color rules of the BOM line have been updated.' });
+        },
+        onError: (error) => {
+            toast({ variant: 'destructive', title: 'Error', description: handleSupabaseError(error) });
+        },
+    });
+};
+
 export const useCreateBOM = () => {
     const queryClient = useQueryClient();
     const { toast } = useToast();
@@ -305,7 +420,7 @@ export const useCreateProductionOrder = () => {
     const { companyId, userId } = useApp();
 
     return useMutation({
-        mutationFn: async (payload: any) => {
+        mutationFn: async ({ variants, ...payload }: any) => {
             const { data, error } = await supabase
                 .from('production_orders')
                 .insert({
@@ -318,6 +433,25 @@ export const useCreateProductionOrder = () => {
                 .single();
 
             if (error) throw error;
+
+            // Size / color mix; the order quantity follows its total
+            if (variants && variants.length > 0) {
+                const { error: variantsError } = await supabase
+                    .from('production_order_variants')
+                    .insert(variants.map((v: ProductionOrderVariant) => ({
+                        production_order_id: data.id,
+                        product_variant_id: v.product_variant_id,
+                        qty_planned: v.qty_planned,
+                    })));
+
+                if (variantsError) throw variantsError;
+            }
+
+            const { error: reservationsError } = await supabase.rpc('create_production_reservations', {
+                p_production_order_id: data.id
+            });
+
+            if (reservationsError) throw reservationsError;
             return data;
         },
         onSuccess: () => {
@@ -352,19 +486,61 @@ export const useProductionOrder = (id: string) => {
     });
 };
 
+/** Variants of a product with size / color codes, in size then color order */
+export const useProductVariantOptions = (productId?: string) => {
+    return useQuery({
+        queryKey: ['product-variant-options', productId],
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from('product_variant_matrix_vw')
+                .select('id, sku, size_id, color_id, size_code, color_code')
+                .eq('product_id', productId!)
+                .order('size_sort_order')
+                .order('color_sort_order');
+
+            if (error) throw error;
+            return data as ProductVariantOption[];
+        },
+        enabled: !!productId,
+    });
+};
+
+/** Exact material needs of a production order per variant of its mix */
+export const useProductionOrderMaterialNeeds = (orderId?: string) => {
+    return useQuery({
+        queryKey: ['production-order-material-needs', orderId],
+        queryFn: async () => {
+            const { data, error } = await supabase.rpc('explode_production_order', {
+                p_production_order_id: orderId
+            });
+
+            if (error) throw error;
+            return data as VariantMaterialNeed[];
+        },
+        enabled: !!orderId,
+        retry: false,
+    });
+};
+
 export const useReleaseProductionOrder = () => {
     const queryClient = useQueryClient();
     const { toast } = useToast();
 
     return useMutation({
         mutationFn: async (id: string) => {
-            const { error } = await supabase.rpc('release_production_order', { p_po_id: id });
+            const { data, error } = await supabase.rpc('release_production_order', { p_order_id: id });
             if (error) throw error;
+            return data as { work_orders_created: number };
         },
-        onSuccess: (_, id) => {
+        onSuccess: (result, id) => {
             queryClient.invalidateQueries({ queryKey: ['production_order', id] });
             queryClient.invalidateQueries({ queryKey: ['production_orders'] });
-            toast({ title: "Work Order Released", description: "Stock has been reserved." });
+            queryClient.invalidateQueries({ queryKey: ['production-work-orders', id] });
+            const created = result?.work_orders_created ?? 0;
+            toast({
+                title: "Work Order Released",
+                description: created > 0 ? `Stock has been reserved and ${created} work orders generated from the routing.` : "Stock has been reserved.",
+            });
         },
         onError: (err) => {
             toast({ variant: "destructive", title: "Release Failed", description: handleSupabaseError(err) });
@@ -397,3 +573,408 @@ export const useRecordOutput = () => {
         }
     });
 };
+
+// ==================== MRP ====================
+
+export const useMRPRuns = (companyId: string) => {
+    return useQuery({
+        queryKey: ['mrp-runs', companyId],
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from('mrp_runs')
+                .select('*')
+                .eq('company_id', companyId)
+                .order('created_at', { ascending: false })
+                .limit(20);
+
+            if (error) throw error;
+            return data as MRPRun[];
+        },
+        enabled: !!companyId,
+    });
+};
+
+export const useMRPRun = (runId?: string) => {
+    return useQuery({
+        queryKey: ['mrp-run', runId],
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from('mrp_runs')
+                .select(`
+                    *,
+                    requirements:mrp_requirements(*, material:materials(code, name), product:products(code, name)),
+                    planned_orders:mrp_planned_orders(
+                        *,
+                        material:materials(code, name, unit_of_measure),
+                        product:products(code, name, unit_of_measure),
+                        vendor:vendors(code, name)
+                    ),
+                    receipts:mrp_scheduled_receipts(*, material:materials(code, name), product:products(code, name))
+                `)
+                .eq('id', runId)
+                .single();
+
+            if (error) throw error;
+            return data as unknown as MRPRunDetail;
+        },
+        enabled: !!runId,
+    });
+};
+
+export const useRunMRP = () => {
+    const queryClient = useQueryClient();
+    const { toast } = useToast();
+    const { companyId, userId } = useApp();
+
+    return useMutation({
+        mutationFn: async (toleranceDays: number) => {
+            if (!companyId) throw new Error('Company ID is required');
+
+            const { data, error } = await supabase.rpc('run_mrp', {
+                p_company_id: companyId,
+                p_user_id: userId,
+                p_tolerance_days: toleranceDays,
+            });
+
+            if (error) throw error;
+            return data as string;
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['mrp-runs'] });
+            toast({ title: 'MRP run complete', description: 'Review the planned orders and action messages.' });
+        },
+        onError: (err) => {
+            toast({ variant: 'destructive', title: 'MRP run failed', description: handleSupabaseError(err) });
+        }
+    });
+};
+
+/** Works off planned orders or action messages (scheduled receipts) of a run */
+export const useReviewMRPItems = () => {
+    const queryClient = useQueryClient();
+    const { toast } = useToast();
+    const { userId } = useApp();
+
+    return useMutation({
+        mutationFn: async ({ kind, ids, status }: {
+            kind: 'planned_order' | 'action_message';
+            ids: string[];
+            status: Exclude<MRPReviewStatus, 'open'>;
+        }) => {
+            const reviewed = { reviewed_by: userId, reviewed_at: new Date().toISOString() };
+            const { error } = kind === 'planned_order'
+                ? await supabase
+                    .from('mrp_planned_orders')
+                    .update({ status, ...reviewed })
+                    .in('id', ids)
+                    .eq('status', 'open')
+                : await supabase
+                    .from('mrp_scheduled_receipts')
+                    .update({ action_status: status, ...reviewed })
+                    .in('id', ids)
+                    .eq('action_status', 'open');
+
+            if (error) throw error;
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['mrp-run'] });
+        },
+        onError: (err) => {
+            toast({ variant: 'destructive', title: 'Error', description: handleSupabaseError(err) });
+        }
+    });
+};
+
+// ==================== SCHEDULING ====================
+
+export const useWorkOrderSchedule = (companyId: string) => {
+    return useQuery({
+        queryKey: ['work-order-schedule', companyId],
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from('work_order_schedule_vw')
+                .select('*')
+                .eq('company_id', companyId)
+                .order('scheduled_start_date', { ascending: true, nullsFirst: false });
+
+            if (error) throw error;
+            return data as ScheduledWorkOrder[];
+        },
+        enabled: !!companyId,
+    });
+};
+
+export const useWorkCenterLoad = (companyId: string, from: string, to: string) => {
+    return useQuery({
+        queryKey: ['work-center-load', companyId, from, to],
+        queryFn: async () => {
+            const { data, error } = await supabase.rpc('work_center_load', {
+                p_company_id: companyId,
+                p_from: from,
+                p_to: to,
+            });
+
+            if (error) throw error;
+            return data as WorkCenterLoadDay[];
+        },
+        enabled: !!companyId,
+    });
+};
+
+export const useScheduleWorkOrders = () => {
+    const queryClient = useQueryClient();
+    const { toast } = useToast();
+    const { companyId, userId } = useApp();
+
+    return useMutation({
+        mutationFn: async ({ direction, includeLocked }: { direction: ScheduleDirection; includeLocked: boolean }) => {
+            const { data, error } = await supabase.rpc('schedule_work_orders', {
+                p_company_id: companyId,
+                p_direction: direction,
+                p_user_id: userId,
+                p_include_locked: includeLocked,
+            });
+
+            if (error) throw error;
+            return data as number;
+        },
+        onSuccess: (count) => {
+            queryClient.invalidateQueries({ queryKey: ['work-order-schedule'] });
+            queryClient.invalidateQueries({ queryKey: ['work-center-load'] });
+            toast({ title: 'Work orders scheduled', description: `${count} work orders on the schedule.` });
+        },
+        onError: (err) => {
+            toast({ variant: 'destructive', title: 'Scheduling failed', description: handleSupabaseError(err) });
+        }
+    });
+};
+
+/** Drag-to-reschedule: moves a work order to a new start day and locks it there */
+export const useRescheduleWorkOrder = () => {
+    const queryClient = useQueryClient();
+    const { toast } = useToast();
+    const { userId } = useApp();
+
+    return useMutation({
+        mutationFn: async ({ id, startDate }: { id: string; startDate: string }) => {
+            const { data, error } = await supabase.rpc('reschedule_work_order', {
+                p_work_order_id: id,
+                p_start_date: startDate,
+                p_user_id: userId,
+            });
+
+            if (error) throw error;
+            return data as string;
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['work-order-schedule'] });
+            queryClient.invalidateQueries({ queryKey: ['work-center-load'] });
+        },
+        onError: (err) => {
+            toast({ variant: 'destructive', title: 'Reschedule failed', description: handleSupabaseError(err) });
+        }
+    });
+};
+
+export const useWorkCenterCalendar = (companyId: string) => {
+    return useQuery({
+        queryKey: ['work-center-calendar', companyId],
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from('work_center_calendar')
+                .select('*')
+                .eq('company_id', companyId)
+                .gte('calendar_date', new Date().toISOString().split('T')[0])
+                .order('calendar_date');
+
+            if (error) throw error;
+            return data as WorkCenterCalendarDay[];
+        },
+        enabled: !!companyId,
+    });
+};
+
+export const useSaveWorkCenterCalendarDay = () => {
+    const queryClient = useQueryClient();
+    const { toast } = useToast();
+    const { companyId, userId } = useApp();
+
+    return useMutation({
+        mutationFn: async (day: Omit<WorkCenterCalendarDay, 'id'>) => {
+            let existing = supabase
+                .from('work_center_calendar')
+                .delete()
+                .eq('company_id', companyId)
+                .eq('calendar_date', day.calendar_date);
+            existing = day.work_center_id ? existing.eq('work_center_id', day.work_center_id) : existing.is('work_center_id', null);
+
+            const { error: deleteError } = await existing;
+            if (deleteError) throw deleteError;
+
+            const { error } = await supabase
+                .from('work_center_calendar')
+                .insert({ ...day, company_id: companyId, created_by: userId });
+
+            if (error) throw error;
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['work-center-calendar'] });
+            queryClient.invalidateQueries({ queryKey: ['work-center-load'] });
+            toast({ title: 'Calendar updated' });
+        },
+        onError: (err) => {
+            toast({ variant: 'destructive', title: 'Error', description: handleSupabaseError(err) });
+        }
+    });
+};
+
+export const useDeleteWorkCenterCalendarDay = () => {
+    const queryClient = useQueryClient();
+    const { toast } = useToast();
+
+    return useMutation({
+        mutationFn: async (id: string) => {
+            const { error } = await supabase.from('work_center_calendar').delete().eq('id', id);
+            if (error) throw error;
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['work-center-calendar'] });
+            queryClient.invalidateQueries({ queryKey: ['work-center-load'] });
+        },
+        onError: (err) => {
+            toast({ variant: 'destructive', title: 'Error', description: handleSupabaseError(err) });
+        }
+    });
+};
+
+// ==================== ROUTINGS ====================
+
+/** Routing of a BOM version in sequence order */
+export const useBOMRouting = (bomId?: string) => {
+    return useQuery({
+        queryKey: ['bom-routing', bomId],
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from('bom_routing_steps')
+                .select(`
+                    *,
+                    operation:operations(name, standard_time_minutes, work_center_id),
+                    work_center:work_centers(code, name)
+                `)
+                .eq('bom_id', bomId!)
+                .order('sequence');
+
+            if (error) throw error;
+            return data as BOMRoutingStep[];
+        },
+        enabled: !!bomId,
+    });
+};
+
+export const useSaveBOMRouting = () => {
+    const queryClient = useQueryClient();
+    const { toast } = useToast();
+
+    return useMutation({
+        mutationFn: async (payload: {
+            bomId: string;
+            steps: Pick<BOMRoutingStep, 'sequence' | 'operation_id' | 'work_center_id' | 'stage' | 'setup_minutes' | 'run_minutes'>[];
+        }) => {
+            // One transaction: a rejected step keeps the saved routing
+            const { error } = await supabase.rpc('save_bom_routing', {
+                p_bom_id: payload.bomId,
+                p_steps: payload.steps,
+            });
+
+            if (error) throw error;
+        },
+        onSuccess: (_, { bomId }) => {
+            queryClient.invalidateQueries({ queryKey: ['bom-routing', bomId] });
+            toast({ title: 'Routing Saved', description: 'Orders released from this BOM version will get these work orders.' });
+        },
+        onError: (error) => {
+            toast({ variant: 'destructive', title: 'Error', description: handleSupabaseError(error) });
+        },
+    });
+};
+
+/** Work orders of a production order in routing order */
+export const useProductionWorkOrders = (productionOrderId?: string) => {
+    return useQuery({
+        queryKey: ['production-work-orders', productionOrderId],
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from('work_orders')
+                .select(`
+                    *,
+                    operation:operations(name),
+                    work_center:work_centers(code, name)
+                `)
+                .eq('production_order_id', productionOrderId!)
+                .order('routing_sequence', { ascending: true, nullsFirst: false })
+                .order('wo_number');
+
+            if (error) throw error;
+            return data as ProductionWorkOrder[];
+        },
+        enabled: !!productionOrderId,
+    });
+};
+
+/** For orders released before their BOM had a routing */
+export const useGenerateRoutingWorkOrders = () => {
+    const queryClient = useQueryClient();
+    const { toast } = useToast();
+    const { userId } = useApp();
+
+    return useMutation({
+        mutationFn: async (productionOrderId: string) => {
+            const { data, error } = await supabase.rpc('generate_routing_work_orders', {
+                p_production_order_id: productionOrderId,
+                p_user_id: userId,
+            });
+
+            if (error) throw error;
+            return data as number;
+        },
+        onSuccess: (count, productionOrderId) => {
+            queryClient.invalidateQueries({ queryKey: ['production-work-orders', productionOrderId] });
+            queryClient.invalidateQueries({ queryKey: ['work-order-schedule'] });
+            toast(count > 0
+                ? { title: 'Work orders generated', description: `${count} work orders created from the routing.` }
+                : { variant: 'destructive', title: 'No work orders generated', description: 'The BOM version has no routing.' });
+        },
+        onError: (err) => {
+            toast({ variant: 'destructive', title: 'Error', description: handleSupabaseError(err) });
+        }
+    });
+};
+
+/** Rejected by the database while a lower routing sequence is still open */
+export const useStartWorkOrder = () => {
+    const queryClient = useQueryClient();
+    const { toast } = useToast();
+    const { userId } = useApp();
+
+    return useMutation({
+        mutationFn: async (workOrder: Pick<ProductionWorkOrder, 'id' | 'production_order_id'>) => {
+            const { error } = await supabase
+                .from('work_orders')
+                .update({
+                    status: 'in_progress',
+                    start_datetime: new Date().toISOString(),
+                    operator_id: userId,
+                })
+                .eq('id', workOrder.id);
+
+            if (error) throw error;
+        },
+        onSuccess: (_, workOrder) => {
+            queryClient.invalidateQueries({ queryKey: ['production-work-orders', workOrder.production_order_id] });
+            queryClient.invalidateQueries({ queryKey: ['work-order-schedule'] });
+        },
+        onError: (err) => {
+            toast({ variant: 'destructive', title: 'Cannot start work order', description: handleSupabaseError(err) });
+        }
+    });
+};
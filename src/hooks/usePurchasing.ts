@@ -9,13 +9,25 @@ import {
     PurchaseOrder,
     PurchaseOrderLine,
     CreateGRNPayload,
-    GoodsReceiptNote
+    GoodsReceiptNote,
+    GRNInspectionQueueItem,
+    GRNOpenRejection,
+    PurchaseRequisition,
+    RecordGRNInspectionPayload,
+    RequisitionApprovalQueueItem,
+    RequisitionStatus,
+    VendorPriceList
 } from '@/types/purchasing';
+import { VendorScorecardMonth, VendorScorecardRank } from '@/types/partner';
 
 export interface CreatePOPayload {
     vendor_id: string;
     warehouse_id: string;
     po_date: string;
+    /** Defaults to the base currency */
+    currency?: string;
+    /** Defaults to the rate on the PO date */
+    exchange_rate?: number;
     delivery_date?: string;
     notes?: string;
     items: {
@@ -94,6 +106,8 @@ export const useCreatePurchaseOrder = () => {
                     warehouse_id: payload.warehouse_id,
                     period_id: period.id,
                     created_by: userId,
+                    currency: payload.currency,
+                    exchange_rate: payload.exchange_rate,
                     delivery_date: payload.delivery_date,
                     notes: payload.notes
                 })
@@ -279,19 +293,341 @@ export const usePostGRN = () => {
     });
 };
 
+// ==================== INSPECTION HOOKS ====================
+
+/** GRN lines of a purchase order waiting in quarantine for inspection */
+export function useGRNInspectionQueue(poId?: string) {
+    return useQuery({
+        queryKey: ['grn-inspection-queue', poId],
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from('grn_inspection_queue_vw')
+                .select('*')
+                .eq('po_id', poId)
+                .order('grn_date')
+                .order('grn_number');
+
+            if (error) throw error;
+            return data as GRNInspectionQueueItem[];
+        },
+        enabled: !!poId,
+    });
+}
+
+/** Rejected quantities on the GRNs of a purchase order not yet returned to the vendor */
+export function useGRNOpenRejections(poId?: string) {
+    return useQuery({
+        queryKey: ['grn-open-rejections', poId],
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from('grn_open_rejection_vw')
+                .select('*')
+                .eq('po_id', poId)
+                .order('grn_number');
+
+            if (error) throw error;
+            return data as GRNOpenRejection[];
+        },
+        enabled: !!poId,
+    });
+}
+
+export const useRecordGRNInspection = () => {
+    const queryClient = useQueryClient();
+    const { toast } = useToast();
+    const { userId } = useApp();
+
+    return useMutation({
+        mutationFn: async (payload: RecordGRNInspectionPayload) => {
+            const { error } = await supabase.rpc('record_grn_inspection', {
+                p_grn_line_id: payload.grn_line_id,
+                p_qty_accepted: payload.qty_accepted,
+                p_qty_rejected: payload.qty_rejected,
+                p_defect_reason: payload.qty_rejected > 0 ? payload.defect_reason : null,
+                p_notes: payload.notes || null,
+                p_user_id: userId
+            });
+
+            if (error) throw error;
+            return true;
+        },
+        onSuccess: (_, payload) => {
+            queryClient.invalidateQueries({ queryKey: ['grn-inspection-queue'] });
+            queryClient.invalidateQueries({ queryKey: ['grn-open-rejections'] });
+            toast({
+                title: 'Inspection Recorded',
+                description: payload.qty_accepted > 0
+                    ? `${payload.qty_accepted} released to stock.`
+                    : 'All quantity rejected and held in quarantine.',
+            });
+        },
+        onError: (error) => {
+            toast({
+                variant: 'destructive',
+                title: 'Failed to record inspection',
+                description: handleSupabaseError(error),
+            });
+        },
+    });
+};
+
+/** Draft vendor return of the quantity rejected on inspection of a GRN, returns its id */
+export const useCreateReturnFromRejections = () => {
+    const queryClient = useQueryClient();
+    const { toast } = useToast();
+    const { userId } = useApp();
+
+    return useMutation({
+        mutationFn: async (grnId: string) => {
+            const { data, error } = await supabase.rpc('create_purchase_return_from_rejections', {
+                p_grn_id: grnId,
+                p_user_id: userId
+            });
+
+            if (error) throw error;
+            return data as string;
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['grn-open-rejections'] });
+            toast({
+                title: 'Vendor Return Created',
+                description: 'Draft return created for the rejected quantity.',
+            });
+        },
+        onError: (error) => {
+            toast({
+                variant: 'destructive',
+                title: 'Failed to create vendor return',
+                description: handleSupabaseError(error),
+            });
+        },
+    });
+};
+
 // ==================== AUTOMATION HOOKS ====================
 
-export function useLastPurchasePrice(variantId?: string) {
+/** Vendor price lists valid on a date, with their quantity breaks */
+export function useVendorPriceLists(vendorId?: string, date?: string) {
+    return useQuery({
+        queryKey: ['vendor-price-lists', vendorId, date],
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from('vendor_price_lists')
+                .select('*, breaks:vendor_price_list_breaks(min_qty, unit_price)')
+                .eq('vendor_id', vendorId)
+                .eq('is_active', true)
+                .lte('effective_from', date)
+                .or(`effective_to.is.null,effective_to.gte.${date}`)
+                .order('effective_from', { ascending: false });
+
+            if (error) throw error;
+            return data as VendorPriceList[];
+        },
+        enabled: !!vendorId && !!date,
+    });
+}
+
+export function useLastPurchasePrice(materialId?: string, vendorId?: string) {
     return useQuery({
-        queryKey: ['last-purchase-price', variantId],
+        queryKey: ['last-purchase-price', materialId, vendorId],
         queryFn: async () => {
             const { data, error } = await supabase
-                .rpc('get_last_purchase_price', { p_variant_id: variantId });
+                .rpc('get_last_purchase_price', { p_material_id: materialId, p_vendor_id: vendorId || null });
 
             if (error) throw error;
             // RPC returns an array, we want the first (latest)
             return data && data.length > 0 ? data[0] : null;
         },
-        enabled: !!variantId,
+        enabled: !!materialId,
     });
 }
+
+// ==================== VENDOR SCORECARD HOOKS ====================
+
+/** Monthly scorecard of a vendor from a month on, oldest first */
+export function useVendorScorecardTrend(vendorId?: string, fromMonth?: string) {
+    return useQuery({
+        queryKey: ['vendor-scorecard-trend', vendorId, fromMonth],
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from('vendor_scorecard_monthly_vw')
+                .select('*')
+                .eq('vendor_id', vendorId)
+                .gte('month', fromMonth)
+                .order('month', { ascending: true });
+
+            if (error) throw error;
+            return data as VendorScorecardMonth[];
+        },
+        enabled: !!vendorId && !!fromMonth,
+    });
+}
+
+/** Vendors ranked by scorecard over a date range, best first */
+export function useVendorScorecardRanking(companyId: string, from?: string, to?: string) {
+    return useQuery({
+        queryKey: ['vendor-scorecard-ranking', companyId, from, to],
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .rpc('get_vendor_scorecard_ranking', { p_company_id: companyId, p_from: from, p_to: to });
+
+            if (error) throw error;
+            return data as VendorScorecardRank[];
+        },
+        enabled: !!companyId && !!from && !!to,
+    });
+}
+
+export interface CreateRequisitionPayload {
+    warehouse_id: string;
+    need_by_date?: string;
+    notes?: string;
+    items: {
+        material_id: string;
+        qty_requested: number;
+        need_by_date?: string;
+    }[];
+}
+
+export const usePurchaseRequisitions = (companyId: string) => {
+    return useQuery({
+        queryKey: ['purchase-requisitions', companyId],
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from('purchase_requisitions')
+                .select(`
+                    *,
+                    lines:purchase_requisition_lines(
+                        *,
+                        material:materials(name, code, unit_of_measure),
+                        purchase_order:purchase_orders(po_number)
+                    )
+                `)
+                .eq('company_id', companyId)
+                .order('requisition_date', { ascending: false })
+                .order('created_at', { ascending: false });
+
+            if (error) throw error;
+            return data as PurchaseRequisition[];
+        },
+        enabled: !!companyId,
+    });
+};
+
+export const useRequisitionApprovalQueue = (companyId: string) => {
+    return useQuery({
+        queryKey: ['requisition-approval-queue', companyId],
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from('purchase_requisition_approval_queue_vw')
+                .select('requisition_id, requisition_number, estimated_total, approval_level, approver_role')
+                .eq('company_id', companyId);
+
+            if (error) throw error;
+            return data as RequisitionApprovalQueueItem[];
+        },
+        enabled: !!companyId,
+    });
+};
+
+export const useCreatePurchaseRequisition = () => {
+    const queryClient = useQueryClient();
+    const { toast } = useToast();
+    const { companyId, userId } = useApp();
+
+    return useMutation({
+        mutationFn: async (payload: CreateRequisitionPayload) => {
+            if (!companyId) throw new Error('Company ID is required');
+
+            const { data: requisition, error } = await supabase
+                .from('purchase_requisitions')
+                .insert({
+                    company_id: companyId,
+                    requisition_number: `PR-${Date.now().toString().slice(-6)}`,
+                    requested_by: userId,
+                    created_by: userId,
+                    warehouse_id: payload.warehouse_id,
+                    need_by_date: payload.need_by_date,
+                    notes: payload.notes
+                })
+                .select()
+                .single();
+
+            if (error) throw error;
+
+            const { error: linesError } = await supabase
+                .from('purchase_requisition_lines')
+                .insert(payload.items.map((item, index) => ({
+                    requisition_id: requisition.id,
+                    line_number: index + 1,
+                    material_id: item.material_id,
+                    qty_requested: item.qty_requested,
+                    need_by_date: item.need_by_date,
+                })));
+
+            if (linesError) throw linesError;
+
+            return requisition;
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['purchase-requisitions'] });
+            toast({ title: 'Requisition Created', description: 'Submit it to start the approval.' });
+        },
+        onError: (error) => {
+            toast({ variant: 'destructive', title: 'Failed to create requisition', description: handleSupabaseError(error) });
+        },
+    });
+};
+
+export const useSubmitPurchaseRequisition = () => {
+    const queryClient = useQueryClient();
+    const { toast } = useToast();
+
+    return useMutation({
+        mutationFn: async (id: string) => {
+            const { data, error } = await supabase.rpc('submit_purchase_requisition', {
+                p_requisition_id: id,
+            });
+
+            if (error) throw error;
+            return data as RequisitionStatus;
+        },
+        onSuccess: (status) => {
+            queryClient.invalidateQueries({ queryKey: ['purchase-requisitions'] });
+            queryClient.invalidateQueries({ queryKey: ['requisition-approval-queue'] });
+            toast({ title: status === 'approved' ? 'Requisition approved' : 'Requisition submitted for approval' });
+        },
+        onError: (error) => {
+            toast({ variant: 'destructive', title: 'Error', description: handleSupabaseError(error) });
+        },
+    });
+};
+
+export const useActOnPurchaseRequisition = () => {
+    const queryClient = useQueryClient();
+    const { toast } = useToast();
+
+    return useMutation({
+        mutationFn: async ({ id, action, notes }: { id: string; action: 'approved' | 'rejected'; notes?: string }) => {
+            const { data, error } = await supabase.rpc('act_on_purchase_requisition', {
+                p_requisition_id: id,
+                p_action: action,
+                p_notes: notes || null,
+            });
+
+            if (error) throw error;
+            return data as RequisitionStatus;
+        },
+        onSuccess: (status) => {
+            queryClient.invalidateQueries({ queryKey: ['purchase-requisitions'] });
+            queryClient.invalidateQueries({ queryKey: ['requisition-approval-queue'] });
+            toast({
+                title: status === 'rejected' ? 'Requisition rejected'
+                    : status === 'approved' ? 'Requisition approved' : 'Approved, waiting on the next level'
+            });
+        },
+        onError: (error) => {
+            toast({ variant: 'destructive', title: 'Error', description: handleSupabaseError(error) });
+        },
+    });
+};
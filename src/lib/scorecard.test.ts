@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { formatPct, scoreVariant } from './scorecard';
+
+describe('scoreVariant', () => {
+    it('should grade scores at the 85 and 70 thresholds', () => {
+        expect(scoreVariant(100)).toBe('success');
+        expect(scoreVariant(85)).toBe('success');
+        expect(scoreVariant(84.9)).toBe('warning');
+        expect(scoreVariant(70)).toBe('warning');
+        expect(scoreVariant(69.9)).toBe('destructive');
+        expect(scoreVariant(0)).toBe('destructive');
+    });
+
+    it('should show vendors without a score as outline', () => {
+        expect(scoreVariant(null)).toBe('outline');
+    });
+});
+
+describe('formatPct', () => {
+    it('should format to one decimal with a dash for missing values', () => {
+        expect(formatPct(96.25)).toBe('96.3%');
+        expect(formatPct(0)).toBe('0.0%');
+        expect(formatPct(null)).toBe('—');
+    });
+});
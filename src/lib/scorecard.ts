@@ -0,0 +1,9 @@
+/** Badge variant for a vendor score: 85+ good, 70+ watch, below that poor */
+export function scoreVariant(score: number | null): 'success' | 'warning' | 'destructive' | 'outline' {
+    if (score === null) return 'outline';
+    if (score >= 85) return 'success';
+    if (score >= 70) return 'warning';
+    return 'destructive';
+}
+
+export const formatPct = (value: number | null) => (value === null ? '—' : `${Number(value).toFixed(1)}%`);
@@ -9,6 +9,7 @@ import { ArrowLeft, Save, Truck } from 'lucide-react';
 import { useCreateVendor, useUpdateVendor, useVendor, useDeleteVendor } from '@/hooks/useMasterData';
 import { Switch } from '@/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { VendorScorecardCard } from '@/components/purchasing/VendorScorecardCard';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 
 export default function CreateVendor() {
@@ -249,6 +250,8 @@ export default function CreateVendor() {
                     </CardContent>
                 </Card>
 
+                {isEditMode && id && <VendorScorecardCard vendorId={id} />}
+
                 <div className="flex justify-between">
                     {isEditMode ? (
                         <AlertDialog>
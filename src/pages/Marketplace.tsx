@@ -1,18 +1,520 @@
+import { useMemo, useState } from 'react';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { EmptyState } from '@/components/ui/empty-state';
-import { ShoppingCart } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { TableSkeleton } from '@/components/ui/table-skeleton';
+import { useApp } from '@/contexts/AppContext';
+import { useProducts } from '@/hooks/useMasterData';
+import {
+    useMarketplaceAccounts,
+    useMarketplaceOrders,
+    useUnmappedMarketplaceItems,
+    useMarketplaceSKUMappings,
+    useMarketplaceStockReconciliation,
+    useMarketplaceStockSyncLog,
+    useSaveSKUMapping,
+    useDeleteSKUMapping,
+} from '@/hooks/useMarketplace';
+import { MarketplaceSKUMapping } from '@/types/marketplace';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import { AlertTriangle, Boxes, Link2, Plus, ShoppingCart, Trash2 } from 'lucide-react';
+
+interface MappingForm {
+    account_id: string;
+    external_sku: string;
+    listing_name: string;
+    components: { key: string; product_variant_id: string; quantity: number }[];
+}
+
+const emptyForm = (): MappingForm => ({
+    account_id: '',
+    external_sku: '',
+    listing_name: '',
+    components: [{ key: '1', product_variant_id: '', quantity: 1 }],
+});
 
 export default function Marketplace() {
+    const { companyId } = useApp();
+    const { data: accounts } = useMarketplaceAccounts(companyId);
+    const { data: orders, isLoading: isLoadingOrders } = useMarketplaceOrders(companyId);
+    const { data: unmapped, isLoading: isLoadingUnmapped } = useUnmappedMarketplaceItems(companyId);
+    const { data: mappings, isLoading: isLoadingMappings } = useMarketplaceSKUMappings(companyId);
+    const { data: stock, isLoading: isLoadingStock } = useMarketplaceStockReconciliation(companyId);
+    const { data: stockLog } = useMarketplaceStockSyncLog(companyId);
+    const { data: products } = useProducts(companyId);
+    const saveMapping = useSaveSKUMapping();
+    const deleteMapping = useDeleteSKUMapping();
+
+    const [isDialogOpen, setIsDialogOpen] = useState(false);
+    const [form, setForm] = useState<MappingForm>(emptyForm());
+
+    const variantOptions = useMemo(() => products?.flatMap(p =>
+        (p.variants || []).map(v => ({ id: v.id, label: `${v.sku} - ${p.name}` }))
+    ) || [], [products]);
+
+    // Group component rows into one entry per listing SKU
+    const groupedMappings = useMemo(() => {
+        const groups = new Map<string, MarketplaceSKUMapping[]>();
+        for (const m of mappings || []) {
+            const key = `${m.account_id}|${m.external_sku}`;
+            groups.set(key, [...(groups.get(key) || []), m]);
+        }
+        return Array.from(groups.values());
+    }, [mappings]);
+
+    const accountName = (accountId: string) => {
+        const account = accounts?.find(a => a.id === accountId);
+        return account ? `${account.platform} - ${account.account_name}` : '-';
+    };
+
+    const openDialog = (initial?: Partial<MappingForm>) => {
+        setForm({ ...emptyForm(), ...initial });
+        setIsDialogOpen(true);
+    };
+
+    const editMapping = (rows: MarketplaceSKUMapping[]) => {
+        openDialog({
+            account_id: rows[0].account_id,
+            external_sku: rows[0].external_sku,
+            listing_name: rows[0].listing_name || '',
+            components: rows.map(r => ({ key: r.id, product_variant_id: r.product_variant_id, quantity: Number(r.quantity) })),
+        });
+    };
+
+    const updateComponent = (index: number, field: 'product_variant_id' | 'quantity', value: string) => {
+        const components = [...form.components];
+        components[index] = {
+            ...components[index],
+            [field]: field === 'quantity' ? parseFloat(value) || 0 : value,
+        };
+        setForm({ ...form, components });
+    };
+
+    const handleSave = async () => {
+        await saveMapping.mutateAsync({
+            account_id: form.account_id,
+            external_sku: form.external_sku.trim(),
+            listing_name: form.listing_name || undefined,
+            components: form.components
+                .filter(c => c.product_variant_id && c.quantity > 0)
+                .map(c => ({ product_variant_id: c.product_variant_id, quantity: c.quantity })),
+        });
+        setIsDialogOpen(false);
+    };
+
+    const getSyncStatusColor = (status: string) => {
+        switch (status) {
+            case 'synced': return 'bg-green-100 text-green-800';
+            case 'failed': return 'bg-red-100 text-red-800';
+            case 'ignored': return 'bg-gray-100 text-gray-800';
+            default: return 'bg-yellow-100 text-yellow-800';
+        }
+    };
+
+    const getStockStatusColor = (status: string) => {
+        switch (status) {
+            case 'in_sync': return 'bg-green-100 text-green-800';
+            case 'mismatch': return 'bg-red-100 text-red-800';
+            case 'unmapped': return 'bg-gray-100 text-gray-800';
+            default: return 'bg-yellow-100 text-yellow-800';
+        }
+    };
+
+    const formatQty = (qty: number | null) => qty === null ? '-' : Number(qty).toLocaleString();
+
+    const canSave = form.account_id && form.external_sku.trim() &&
+        form.components.some(c => c.product_variant_id && c.quantity > 0);
+
     return (
         <AppLayout>
-            <div className="space-y-6">
-                <h1 className="text-3xl font-bold tracking-tight">Marketplace</h1>
-                <EmptyState
-                    icon={ShoppingCart}
-                    title="Marketplace Integration"
-                    description="Connect your store to external marketplaces (Shopee, Tokopedia, TikTok Shop)."
-                    action={null}
-                />
+            <div className="space-y-6 animate-fade-in pb-10">
+                <div className="flex justify-between items-center">
+                    <div>
+                        <h1 className="text-3xl font-bold tracking-tight">Marketplace</h1>
+                        <p className="text-muted-foreground">Synced orders from Shopee, Tokopedia, TikTok Shop and Lazada</p>
+                    </div>
+                    <Button onClick={() => openDialog()} disabled={!accounts?.length}>
+                        <Plus className="mr-2 h-4 w-4" />
+                        New SKU Mapping
+                    </Button>
+                </div>
+
+                <Tabs defaultValue={unmapped?.length ? 'review' : 'orders'}>
+                    <TabsList>
+                        <TabsTrigger value="orders">Orders</TabsTrigger>
+                        <TabsTrigger value="review">
+                            Review Queue
+                            {!!unmapped?.length && <Badge variant="destructive" className="ml-2">{unmapped.length}</Badge>}
+                        </TabsTrigger>
+                        <TabsTrigger value="mappings">SKU Mappings</TabsTrigger>
+                        <TabsTrigger value="stock">Stock</TabsTrigger>
+                    </TabsList>
+
+                    <TabsContent value="orders">
+                        <Card>
+                            <CardContent className="p-0">
+                                {isLoadingOrders ? (
+                                    <TableSkeleton rows={5} columns={6} />
+                                ) : !orders?.length ? (
+                                    <EmptyState
+                                        icon={ShoppingCart}
+                                        title="No Marketplace Orders"
+                                        description="Orders appear here once a connected marketplace account is synced or a CSV export is imported."
+                                    />
+                                ) : (
+                                    <Table>
+                                        <TableHeader>
+                                            <TableRow>
+                                                <TableHead>Date</TableHead>
+                                                <TableHead>Order #</TableHead>
+                                                <TableHead>Store</TableHead>
+                                                <TableHead>Customer</TableHead>
+                                                <TableHead className="text-right">Total</TableHead>
+                                                <TableHead>Status</TableHead>
+                                                <TableHead>Sync</TableHead>
+                                            </TableRow>
+                                        </TableHeader>
+                                        <TableBody>
+                                            {orders.map(order => (
+                                                <TableRow key={order.id}>
+                                                    <TableCell>{formatDate(order.order_date)}</TableCell>
+                                                    <TableCell className="font-mono">{order.external_order_id}</TableCell>
+                                                    <TableCell>{order.account ? `${order.account.platform} - ${order.account.account_name}` : '-'}</TableCell>
+                                                    <TableCell>{order.customer_name}</TableCell>
+                                                    <TableCell className="text-right">{formatCurrency(order.total_amount)}</TableCell>
+                                                    <TableCell className="capitalize">{order.mapped_status?.replace(/_/g, ' ')}</TableCell>
+                                                    <TableCell>
+                                                        <Badge variant="secondary" className={getSyncStatusColor(order.sync_status)} title={order.sync_error || undefined}>
+                                                            {order.sync_status.toUpperCase()}
+                                                        </Badge>
+                                                    </TableCell>
+                                                </TableRow>
+                                            ))}
+                                        </TableBody>
+                                    </Table>
+                                )}
+                            </CardContent>
+                        </Card>
+                    </TabsContent>
+
+                    <TabsContent value="review">
+                        <Card>
+                            <CardHeader>
+                                <CardTitle>Unmapped Listings</CardTitle>
+                                <CardDescription>
+                                    These listing SKUs match no product variant, so their orders cannot become Sales Orders. Map each listing to a variant or a bundle of variants.
+                                </CardDescription>
+                            </CardHeader>
+                            <CardContent className="p-0">
+                                {isLoadingUnmapped ? (
+                                    <TableSkeleton rows={3} columns={5} />
+                                ) : !unmapped?.length ? (
+                                    <EmptyState
+                                        icon={Link2}
+                                        title="Nothing to Review"
+                                        description="All items on open marketplace orders are mapped to product variants."
+                                    />
+                                ) : (
+                                    <Table>
+                                        <TableHeader>
+                                            <TableRow>
+                                                <TableHead>Store</TableHead>
+                                                <TableHead>Listing SKU</TableHead>
+                                                <TableHead>Listing</TableHead>
+                                                <TableHead className="text-right">Orders</TableHead>
+                                                <TableHead className="text-right">Qty</TableHead>
+                                                <TableHead>Since</TableHead>
+                                                <TableHead className="text-right">Actions</TableHead>
+                                            </TableRow>
+                                        </TableHeader>
+                                        <TableBody>
+                                            {unmapped.map(item => (
+                                                <TableRow key={`${item.account_id}-${item.external_sku}`}>
+                                                    <TableCell>{item.platform} - {item.account_name}</TableCell>
+                                                    <TableCell className="font-mono">{item.external_sku}</TableCell>
+                                                    <TableCell>{item.listing_name}</TableCell>
+                                                    <TableCell className="text-right">{item.order_count}</TableCell>
+                                                    <TableCell className="text-right">{item.total_quantity}</TableCell>
+                                                    <TableCell>{formatDate(item.first_order_date)}</TableCell>
+                                                    <TableCell className="text-right">
+                                                        <Button size="sm" onClick={() => openDialog({
+                                                            account_id: item.account_id,
+                                                            external_sku: item.external_sku,
+                                                            listing_name: item.listing_name,
+                                                        })}>
+                                                            <AlertTriangle className="mr-2 h-3 w-3" />
+                                                            Map
+                                                        </Button>
+                                                    </TableCell>
+                                                </TableRow>
+                                            ))}
+                                        </TableBody>
+                                    </Table>
+                                )}
+                            </CardContent>
+                        </Card>
+                    </TabsContent>
+
+                    <TabsContent value="mappings">
+                        <Card>
+                            <CardContent className="p-0">
+                                {isLoadingMappings ? (
+                                    <TableSkeleton rows={5} columns={4} />
+                                ) : !groupedMappings.length ? (
+                                    <EmptyState
+                                        icon={Link2}
+                                        title="No SKU Mappings"
+                                        description="Listings whose SKU equals a variant SKU need no mapping. Add one for listings with different SKUs or bundles."
+                                    />
+                                ) : (
+                                    <Table>
+                                        <TableHeader>
+                                            <TableRow>
+                                                <TableHead>Store</TableHead>
+                                                <TableHead>Listing SKU</TableHead>
+                                                <TableHead>Variants</TableHead>
+                                                <TableHead className="text-right">Actions</TableHead>
+                                            </TableRow>
+                                        </TableHeader>
+                                        <TableBody>
+                                            {groupedMappings.map(rows => (
+                                                <TableRow key={rows[0].id}>
+                                                    <TableCell>{accountName(rows[0].account_id)}</TableCell>
+                                                    <TableCell>
+                                                        <div className="font-mono">{rows[0].external_sku}</div>
+                                                        {rows[0].listing_name && <div className="text-xs text-muted-foreground">{rows[0].listing_name}</div>}
+                                                    </TableCell>
+                                                    <TableCell>
+                                                        {rows.length > 1 && <Badge variant="outline" className="mb-1">Bundle</Badge>}
+                                                        {rows.map(r => (
+                                                            <div key={r.id} className="text-sm">
+                                                                {Number(r.quantity)} x <span className="font-mono">{r.variant?.sku}</span> {r.variant?.product?.name}
+                                                            </div>
+                                                        ))}
+                                                    </TableCell>
+                                                    <TableCell className="text-right space-x-2">
+                                                        <Button size="sm" variant="outline" onClick={() => editMapping(rows)}>Edit</Button>
+                                                        <Button
+                                                            size="icon"
+                                                            variant="ghost"
+                                                            onClick={() => deleteMapping.mutate({ account_id: rows[0].account_id, external_sku: rows[0].external_sku })}
+                                                        >
+                                                            <Trash2 className="h-4 w-4" />
+                                                        </Button>
+                                                    </TableCell>
+                                                </TableRow>
+                                            ))}
+                                        </TableBody>
+                                    </Table>
+                                )}
+                            </CardContent>
+                        </Card>
+                    </TabsContent>
+                    <TabsContent value="stock" className="space-y-6">
+                        <Card>
+                            <CardHeader>
+                                <CardTitle>Stock Reconciliation</CardTitle>
+                                <CardDescription>
+                                    Available = on hand (excluding quarantine bins) - open order reservations - safety buffer
+                                </CardDescription>
+                            </CardHeader>
+                            <CardContent className="p-0">
+                                {isLoadingStock ? (
+                                    <TableSkeleton rows={5} columns={9} />
+                                ) : !stock?.length ? (
+                                    <EmptyState
+                                        icon={Boxes}
+                                        title="No Listings"
+                                        description="Listings appear here after they are fetched from a connected marketplace account."
+                                    />
+                                ) : (
+                                    <Table>
+                                        <TableHeader>
+                                            <TableRow>
+                                                <TableHead>Store</TableHead>
+                                                <TableHead>Listing SKU</TableHead>
+                                                <TableHead>Listing</TableHead>
+                                                <TableHead className="text-right">Marketplace</TableHead>
+                                                <TableHead className="text-right">On Hand</TableHead>
+                                                <TableHead className="text-right">Reserved</TableHead>
+                                                <TableHead className="text-right">Buffer</TableHead>
+                                                <TableHead className="text-right">Available</TableHead>
+                                                <TableHead>Status</TableHead>
+                                            </TableRow>
+                                        </TableHeader>
+                                        <TableBody>
+                                            {stock.map(row => (
+                                                <TableRow key={row.listing_id}>
+                                                    <TableCell>{row.platform} - {row.account_name}</TableCell>
+                                                    <TableCell className="font-mono">{row.external_sku || '-'}</TableCell>
+                                                    <TableCell>{row.listing_name}</TableCell>
+                                                    <TableCell className="text-right">{formatQty(row.marketplace_qty)}</TableCell>
+                                                    <TableCell className="text-right">{formatQty(row.on_hand)}</TableCell>
+                                                    <TableCell className="text-right">{formatQty(row.reserved)}</TableCell>
+                                                    <TableCell className="text-right">{formatQty(row.safety_buffer)}</TableCell>
+                                                    <TableCell className="text-right font-medium">{formatQty(row.available)}</TableCell>
+                                                    <TableCell>
+                                                        <Badge variant="outline" className={getStockStatusColor(row.reconciliation_status)}>
+                                                            {row.reconciliation_status.replace('_', ' ')}
+                                                        </Badge>
+                                                    </TableCell>
+                                                </TableRow>
+                                            ))}
+                                        </TableBody>
+                                    </Table>
+                                )}
+                            </CardContent>
+                        </Card>
+
+                        {!!stockLog?.length && (
+                            <Card>
+                                <CardHeader>
+                                    <CardTitle>Stock Sync Log</CardTitle>
+                                    <CardDescription>Latest stock updates sent to the marketplaces</CardDescription>
+                                </CardHeader>
+                                <CardContent className="p-0">
+                                    <Table>
+                                        <TableHeader>
+                                            <TableRow>
+                                                <TableHead>Time</TableHead>
+                                                <TableHead>Listing SKU</TableHead>
+                                                <TableHead>Trigger</TableHead>
+                                                <TableHead className="text-right">Previous</TableHead>
+                                                <TableHead className="text-right">Pushed</TableHead>
+                                                <TableHead>Result</TableHead>
+                                            </TableRow>
+                                        </TableHeader>
+                                        <TableBody>
+                                            {stockLog.map(log => (
+                                                <TableRow key={log.id}>
+                                                    <TableCell>{new Date(log.created_at).toLocaleString()}</TableCell>
+                                                    <TableCell className="font-mono">{log.external_sku || '-'}</TableCell>
+                                                    <TableCell className="capitalize">{log.trigger_source}</TableCell>
+                                                    <TableCell className="text-right">{formatQty(log.previous_qty)}</TableCell>
+                                                    <TableCell className="text-right">{formatQty(log.pushed_qty)}</TableCell>
+                                                    <TableCell>
+                                                        {log.status === 'success' ? (
+                                                            <Badge variant="outline" className="bg-green-100 text-green-800">success</Badge>
+                                                        ) : (
+                                                            <span className="text-sm text-destructive">{log.error_message || 'failed'}</span>
+                                                        )}
+                                                    </TableCell>
+                                                </TableRow>
+                                            ))}
+                                        </TableBody>
+                                    </Table>
+                                </CardContent>
+                            </Card>
+                        )}
+                    </TabsContent>
+                </Tabs>
+
+                {/* Mapping Dialog */}
+                <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+                    <DialogContent className="max-w-2xl">
+                        <DialogHeader>
+                            <DialogTitle>SKU Mapping</DialogTitle>
+                            <DialogDescription>
+                                Add several variants to map the listing as a bundle. Its price is split by variant price.
+                            </DialogDescription>
+                        </DialogHeader>
+
+                        <div className="grid gap-4 py-2">
+                            <div className="grid grid-cols-2 gap-4">
+                                <div className="space-y-2">
+                                    <Label>Store</Label>
+                                    <Select value={form.account_id} onValueChange={(v) => setForm({ ...form, account_id: v })}>
+                                        <SelectTrigger>
+                                            <SelectValue placeholder="Select store" />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {accounts?.map(a => (
+                                                <SelectItem key={a.id} value={a.id}>{a.platform} - {a.account_name}</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                                <div className="space-y-2">
+                                    <Label>Listing SKU</Label>
+                                    <Input
+                                        value={form.external_sku}
+                                        onChange={(e) => setForm({ ...form, external_sku: e.target.value })}
+                                        placeholder="SKU as shown on the marketplace"
+                                    />
+                                </div>
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Listing Name</Label>
+                                <Input
+                                    value={form.listing_name}
+                                    onChange={(e) => setForm({ ...form, listing_name: e.target.value })}
+                                />
+                            </div>
+
+                            <div className="space-y-2">
+                                <Label>Variants</Label>
+                                {form.components.map((component, index) => (
+                                    <div key={component.key} className="flex gap-2 items-center">
+                                        <Select
+                                            value={component.product_variant_id}
+                                            onValueChange={(v) => updateComponent(index, 'product_variant_id', v)}
+                                        >
+                                            <SelectTrigger className="flex-1">
+                                                <SelectValue placeholder="Select variant" />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                {variantOptions.map(v => (
+                                                    <SelectItem key={v.id} value={v.id}>{v.label}</SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                        <Input
+                                            type="number"
+                                            min={1}
+                                            className="w-24"
+                                            value={component.quantity}
+                                            onChange={(e) => updateComponent(index, 'quantity', e.target.value)}
+                                        />
+                                        <Button
+                                            size="icon"
+                                            variant="ghost"
+                                            disabled={form.components.length === 1}
+                                            onClick={() => setForm({ ...form, components: form.components.filter((_, i) => i !== index) })}
+                                        >
+                                            <Trash2 className="h-4 w-4" />
+                                        </Button>
+                                    </div>
+                                ))}
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => setForm({
+                                        ...form,
+                                        components: [...form.components, { key: Date.now().toString(), product_variant_id: '', quantity: 1 }],
+                                    })}
+                                >
+                                    <Plus className="mr-2 h-3 w-3" />
+                                    Add Variant
+                                </Button>
+                            </div>
+                        </div>
+
+                        <DialogFooter>
+                            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>Cancel</Button>
+                            <Button onClick={handleSave} disabled={!canSave || saveMapping.isPending}>
+                                Save Mapping
+                            </Button>
+                        </DialogFooter>
+                    </DialogContent>
+                </Dialog>
             </div>
         </AppLayout>
     );
@@ -6,10 +6,11 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
 import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useAuth } from '@/contexts/AuthContext';
-import { useCompany, useUpdateCompanySettings, useUpdateCompanyProfile } from '@/hooks/useCompany';
+import { useCompany, useUpdateCompanySettings, useUpdateCompanyProfile, useSetValuationMethod } from '@/hooks/useCompany';
 import { useToast } from '@/hooks/use-toast';
-import { Building2, User, Shield, Layers, Loader2, Factory } from 'lucide-react';
+import { Building2, User, Shield, Layers, Loader2, Factory, Calculator } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import {
   Dialog,
@@ -27,6 +28,7 @@ export default function Settings() {
   const { data: company, isLoading } = useCompany();
   const updateSettings = useUpdateCompanySettings();
   const updateProfile = useUpdateCompanyProfile();
+  const setValuationMethod = useSetValuationMethod();
   const { toast } = useToast();
 
   const [isPasswordOpen, setIsPasswordOpen] = useState(false);
@@ -66,12 +68,30 @@ export default function Settings() {
         title: 'Settings Updated',
         description: `Module ${module} has been ${enabled ? 'enabled' : 'disabled'}.`,
       });
-    } catch (error: any) {
+    } catch (error) {
       console.error('Failed to update settings:', error);
       toast({
         variant: 'destructive',
         title: 'Error updating settings',
-        description: error.message || 'Failed to update settings.',
+        description: error instanceof Error && error.message ? error.message : 'Failed to update settings.',
+      });
+    }
+  };
+
+  const handleValuationMethodChange = async (method: 'average' | 'fifo') => {
+    if (!company) return;
+
+    try {
+      await setValuationMethod.mutateAsync({ id: company.id, method });
+      toast({
+        title: 'Settings Updated',
+        description: `Inventory is now valued by ${method === 'fifo' ? 'FIFO' : 'weighted average'}.`,
+      });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error updating settings',
+        description: error instanceof Error && error.message ? error.message : 'Failed to change valuation method.',
       });
     }
   };
@@ -91,11 +111,11 @@ export default function Settings() {
         title: 'Profile Updated',
         description: 'Company information has been saved.',
       });
-    } catch (error: any) {
+    } catch (error) {
       toast({
         variant: 'destructive',
         title: 'Error',
-        description: error.message || 'Failed to update company profile.',
+        description: error instanceof Error && error.message ? error.message : 'Failed to update company profile.',
       });
     }
   };
@@ -131,11 +151,11 @@ export default function Settings() {
       setIsPasswordOpen(false);
       setNewPassword('');
       setConfirmPassword('');
-    } catch (error: any) {
+    } catch (error) {
       toast({
         variant: 'destructive',
         title: 'Error',
-        description: error.message || 'Failed to update password.',
+        description: error instanceof Error && error.message ? error.message : 'Failed to update password.',
       });
     } finally {
       setIsChangingPassword(false);
@@ -268,6 +288,40 @@ export default function Settings() {
             </CardContent>
           </Card>
 
+          {/* Inventory Costing */}
+          <Card className="shadow-card">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Calculator className="h-5 w-5 text-primary" />
+                Inventory Costing
+              </CardTitle>
+              <CardDescription>
+                How issues from stock are valued
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label>Valuation Method</Label>
+                <Select
+                  value={company?.settings?.inventory_valuation_method || 'average'}
+                  onValueChange={(v) => handleValuationMethodChange(v as 'average' | 'fifo')}
+                  disabled={setValuationMethod.isPending}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="average">Weighted Average</SelectItem>
+                    <SelectItem value="fifo">FIFO</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-muted-foreground">
+                  Switching to FIFO opens cost layers from current stock at its average cost.
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+
           {/* User Profile */}
           <Card className="shadow-card">
             <CardHeader>
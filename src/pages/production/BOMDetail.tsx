@@ -1,20 +1,27 @@
 
+import { useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { useBOM } from '@/hooks/useProduction';
-import { ArrowLeft, Layers, Pencil, Factory } from 'lucide-react';
+import { useBOM, useBOMExplosion, useBOMVariantRules } from '@/hooks/useProduction';
+import { ArrowLeft, Layers, Pencil, Factory, Network, Shirt } from 'lucide-react';
 import { ErrorState } from '@/components/ui/error-state';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Separator } from '@/components/ui/separator';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { BOMLineVariantRulesDialog } from '@/components/production/BOMLineVariantRulesDialog';
+import { BOMRoutingCard } from '@/components/production/BOMRoutingCard';
+import { BOMLine } from '@/types/production';
 
 export default function BOMDetail() {
     const { id } = useParams<{ id: string }>();
     const navigate = useNavigate();
     const { data: bom, isLoading, error } = useBOM(id!);
+    const { data: explosion, isLoading: isExploding, error: explosionError } = useBOMExplosion(bom, bom?.base_qty);
+    const { data: variantRules } = useBOMVariantRules((bom?.lines || []).map(line => line.id));
+    const [rulesLine, setRulesLine] = useState<BOMLine | null>(null);
 
     if (error) {
         return (
@@ -50,6 +57,9 @@ export default function BOMDetail() {
                         </div>
                     </div>
                     <div className="flex items-center gap-2">
+                        {bom.is_phantom && (
+                            <Badge variant="outline" className="text-lg px-4 py-1">Phantom</Badge>
+                        )}
                         <Badge variant={bom.is_active ? 'default' : 'secondary'} className="text-lg px-4 py-1">
                             {bom.is_active ? 'Active' : 'Archived'}
                         </Badge>
@@ -103,32 +113,51 @@ export default function BOMDetail() {
                             <Table>
                                 <TableHeader>
                                     <TableRow>
-                                        <TableHead>Material</TableHead>
+                                        <TableHead>Component</TableHead>
                                         <TableHead>Qty Per</TableHead>
                                         <TableHead>UOM</TableHead>
                                         <TableHead>Scrap %</TableHead>
                                         <TableHead>Stage</TableHead>
+                                        <TableHead>Variants</TableHead>
                                         <TableHead>Notes</TableHead>
                                     </TableRow>
                                 </TableHeader>
                                 <TableBody>
                                     {bom.lines && bom.lines.length > 0 ? (
-                                        bom.lines.map((line: any) => (
-                                            <TableRow key={line.id}>
-                                                <TableCell>
-                                                    <div className="font-medium">{line.material?.name}</div>
-                                                    <div className="text-xs text-muted-foreground font-mono">{line.material?.code}</div>
-                                                </TableCell>
-                                                <TableCell>{line.qty_per}</TableCell>
-                                                <TableCell><Badge variant="outline">{line.uom}</Badge></TableCell>
-                                                <TableCell>{line.scrap_percentage}%</TableCell>
-                                                <TableCell className="capitalize">{line.stage}</TableCell>
-                                                <TableCell className="text-muted-foreground text-sm">{line.notes || '-'}</TableCell>
-                                            </TableRow>
-                                        ))
+                                        bom.lines.map((line: any) => {
+                                            const sizeRuleCount = variantRules?.sizeRules.filter(r => r.bom_line_id === line.id).length ?? 0;
+                                            const substitutionCount = variantRules?.substitutions.filter(s => s.bom_line_id === line.id).length ?? 0;
+
+                                            return (
+                                                <TableRow key={line.id}>
+                                                    <TableCell>
+                                                        <div className="font-medium flex items-center gap-2">
+                                                            {line.material?.name ?? line.component_product?.name}
+                                                            {line.component_product_id && <Badge variant="secondary">Sub-assembly</Badge>}
+                                                        </div>
+                                                        <div className="text-xs text-muted-foreground font-mono">
+                                                            {line.material?.code ?? line.component_product?.code}
+                                                        </div>
+                                                    </TableCell>
+                                                    <TableCell>{line.qty_per}</TableCell>
+                                                    <TableCell><Badge variant="outline">{line.uom}</Badge></TableCell>
+                                                    <TableCell>{line.scrap_percentage}%</TableCell>
+                                                    <TableCell className="capitalize">{line.stage}</TableCell>
+                                                    <TableCell>
+                                                        <Button variant="ghost" size="sm" onClick={() => setRulesLine(line)}>
+                                                            <Shirt className="mr-2 h-4 w-4" />
+                                                            {sizeRuleCount + substitutionCount > 0
+                                                                ? `${sizeRuleCount} sizes, ${substitutionCount} colors`
+                                                                : 'Same for all'}
+                                                        </Button>
+                                                    </TableCell>
+                                                    <TableCell className="text-muted-foreground text-sm">{line.notes || '-'}</TableCell>
+                                                </TableRow>
+                                            );
+                                        })
                                     ) : (
                                         <TableRow>
-                                            <TableCell colSpan={6} className="text-center h-24 text-muted-foreground">
+                                            <TableCell colSpan={7} className="text-center h-24 text-muted-foreground">
                                                 No ingredients defined.
                                             </TableCell>
                                         </TableRow>
@@ -137,7 +166,92 @@ export default function BOMDetail() {
                             </Table>
                         </CardContent>
                     </Card>
+
+                    {/* Multi-level structure */}
+                    <Card className="md:col-span-3 shadow-card">
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Network className="h-5 w-5 text-primary" />
+                                Multi-level Structure
+                            </CardTitle>
+                            <CardDescription>
+                                Exploded through sub-assemblies for the base quantity of {bom.base_qty}. Phantom
+                                sub-assemblies are blown through; stocked ones are made on their own orders, so their
+                                components are greyed out.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            {isExploding ? (
+                                <Skeleton className="h-24 w-full" />
+                            ) : explosionError ? (
+                                <ErrorState title="Cannot explode BOM" message={explosionError.message} />
+                            ) : (
+                                <Table>
+                                    <TableHeader>
+                                        <TableRow>
+                                            <TableHead>Component</TableHead>
+                                            <TableHead>Type</TableHead>
+                                            <TableHead>Qty Per</TableHead>
+                                            <TableHead>Total Qty</TableHead>
+                                            <TableHead>UOM</TableHead>
+                                            <TableHead>Stage</TableHead>
+                                        </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                        {explosion && explosion.length > 0 ? (
+                                            explosion.map(row => (
+                                                <TableRow
+                                                    key={row.sort_path}
+                                                    className={row.is_requirement ? undefined : 'text-muted-foreground'}
+                                                >
+                                                    <TableCell>
+                                                        <div style={{ paddingLeft: `${(row.level_num - 1) * 1.5}rem` }}>
+                                                            <div className="font-medium">{row.material_name ?? row.product_name}</div>
+                                                            <div className="text-xs text-muted-foreground font-mono">
+                                                                {row.material_code ?? row.product_code}
+                                                            </div>
+                                                        </div>
+                                                    </TableCell>
+                                                    <TableCell>
+                                                        {row.material_id ? (
+                                                            <Badge variant="outline">Material</Badge>
+                                                        ) : row.is_phantom ? (
+                                                            <Badge variant="secondary">Phantom</Badge>
+                                                        ) : (
+                                                            <Badge variant="default">Sub-assembly</Badge>
+                                                        )}
+                                                    </TableCell>
+                                                    <TableCell>{row.qty_per}</TableCell>
+                                                    <TableCell className="font-medium">{Number(row.total_qty)}</TableCell>
+                                                    <TableCell>{row.uom}</TableCell>
+                                                    <TableCell className="capitalize">{row.stage}</TableCell>
+                                                </TableRow>
+                                            ))
+                                        ) : (
+                                            <TableRow>
+                                                <TableCell colSpan={6} className="text-center h-24 text-muted-foreground">
+                                                    No components defined.
+                                                </TableCell>
+                                            </TableRow>
+                                        )}
+                                    </TableBody>
+                                </Table>
+                            )}
+                        </CardContent>
+                    </Card>
+
+                    <BOMRoutingCard bomId={bom.id} />
                 </div>
+
+                {rulesLine && (
+                    <BOMLineVariantRulesDialog
+                        key={rulesLine.id}
+                        line={rulesLine}
+                        sizeRules={variantRules?.sizeRules.filter(r => r.bom_line_id === rulesLine.id) ?? []}
+                        substitutions={variantRules?.substitutions.filter(s => s.bom_line_id === rulesLine.id) ?? []}
+                        onClose={() => setRulesLine(null)}
+                    />
+                )}
             </div>
         </AppLayout>
     );
@@ -15,6 +15,7 @@ import { useToast } from '@/hooks/use-toast';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
 
 export default function CreateBOM() {
     const navigate = useNavigate();
@@ -33,11 +34,14 @@ export default function CreateBOM() {
         base_qty: 1,
         yield_percentage: 100,
         notes: '',
-        is_active: true
+        is_active: true,
+        is_phantom: false
     });
 
     const [lines, setLines] = useState<{
+        component_type: 'material' | 'product';
         material_id: string;
+        component_product_id: string;
         qty_per: number;
         uom: string;
         scrap_percentage: number;
@@ -51,9 +55,16 @@ export default function CreateBOM() {
         return mat?.unit_of_measure || 'PCS';
     };
 
+    const getProductUOM = (id: string) => {
+        const product = products?.find(p => p.id === id);
+        return product?.unit_of_measure || 'PCS';
+    };
+
     const addLine = () => {
         setLines([...lines, {
+            component_type: 'material',
             material_id: '',
+            component_product_id: '',
             qty_per: 1,
             uom: 'PCS',
             scrap_percentage: 0,
@@ -71,6 +82,13 @@ export default function CreateBOM() {
         if (field === 'material_id') {
             newLines[index].uom = getMaterialUOM(value);
         }
+        if (field === 'component_product_id') {
+            newLines[index].uom = getProductUOM(value);
+        }
+        if (field === 'component_type') {
+            newLines[index].material_id = '';
+            newLines[index].component_product_id = '';
+        }
 
         setLines(newLines);
     };
@@ -92,8 +110,11 @@ export default function CreateBOM() {
         try {
             await createBOM.mutateAsync({
                 header: header,
-                lines: lines.map((l, i) => ({
+                lines: lines.map(({ component_type, material_id, component_product_id, ...l }, i) => ({
                     ...l,
+                    // A line is either a material or a sub-assembly product
+                    material_id: component_type === 'material' ? material_id : null,
+                    component_product_id: component_type === 'product' ? component_product_id : null,
                     line_number: i + 1,
                     // Ensure uom is set
                     uom: l.uom || 'PCS'
@@ -157,6 +178,19 @@ export default function CreateBOM() {
                                 <Label>Notes</Label>
                                 <Input value={header.notes} onChange={e => setHeader({ ...header, notes: e.target.value })} />
                             </div>
+                            <div className="flex items-center gap-3 md:col-span-3">
+                                <Switch
+                                    id="is_phantom"
+                                    checked={header.is_phantom}
+                                    onCheckedChange={checked => setHeader({ ...header, is_phantom: checked })}
+                                />
+                                <Label htmlFor="is_phantom">
+                                    Phantom sub-assembly
+                                    <span className="block text-xs font-normal text-muted-foreground">
+                                        Not stocked: its components are consumed directly by the parent product's order
+                                    </span>
+                                </Label>
+                            </div>
                         </CardContent>
                     </Card>
 
@@ -164,18 +198,19 @@ export default function CreateBOM() {
                     <Card className="md:col-span-3 shadow-card">
                         <CardHeader className="flex flex-row items-center justify-between">
                             <div>
-                                <CardTitle>Ingredients (Materials)</CardTitle>
-                                <CardDescription>Raw materials required to produce base quantity</CardDescription>
+                                <CardTitle>Ingredients</CardTitle>
+                                <CardDescription>Raw materials and sub-assemblies required to produce base quantity</CardDescription>
                             </div>
                             <Button onClick={addLine} size="sm" variant="outline">
-                                <Plus className="h-4 w-4 mr-2" /> Add Material
+                                <Plus className="h-4 w-4 mr-2" /> Add Component
                             </Button>
                         </CardHeader>
                         <CardContent>
                             <Table>
                                 <TableHeader>
                                     <TableRow>
-                                        <TableHead className="w-[30%]">Material</TableHead>
+                                        <TableHead className="w-[15%]">Type</TableHead>
+                                        <TableHead className="w-[30%]">Component</TableHead>
                                         <TableHead className="w-[15%]">Qty Per</TableHead>
                                         <TableHead className="w-[10%]">UOM</TableHead>
                                         <TableHead className="w-[15%]">Scrap %</TableHead>
@@ -187,17 +222,41 @@ export default function CreateBOM() {
                                     {lines.map((line, index) => (
                                         <TableRow key={index}>
                                             <TableCell>
-                                                <Select onValueChange={val => updateLine(index, 'material_id', val)} value={line.material_id}>
+                                                <Select onValueChange={val => updateLine(index, 'component_type', val)} value={line.component_type}>
                                                     <SelectTrigger>
-                                                        <SelectValue placeholder="Select Material" />
+                                                        <SelectValue />
                                                     </SelectTrigger>
                                                     <SelectContent>
-                                                        {materials?.map(m => (
-                                                            <SelectItem key={m.id} value={m.id}>{m.code} - {m.name}</SelectItem>
-                                                        ))}
+                                                        <SelectItem value="material">Material</SelectItem>
+                                                        <SelectItem value="product">Sub-assembly</SelectItem>
                                                     </SelectContent>
                                                 </Select>
                                             </TableCell>
+                                            <TableCell>
+                                                {line.component_type === 'material' ? (
+                                                    <Select onValueChange={val => updateLine(index, 'material_id', val)} value={line.material_id}>
+                                                        <SelectTrigger>
+                                                            <SelectValue placeholder="Select Material" />
+                                                        </SelectTrigger>
+                                                        <SelectContent>
+                                                            {materials?.map(m => (
+                                                                <SelectItem key={m.id} value={m.id}>{m.code} - {m.name}</SelectItem>
+                                                            ))}
+                                                        </SelectContent>
+                                                    </Select>
+                                                ) : (
+                                                    <Select onValueChange={val => updateLine(index, 'component_product_id', val)} value={line.component_product_id}>
+                                                        <SelectTrigger>
+                                                            <SelectValue placeholder="Select Product" />
+                                                        </SelectTrigger>
+                                                        <SelectContent>
+                                                            {products?.filter(p => p.id !== header.product_id).map(p => (
+                                                                <SelectItem key={p.id} value={p.id}>{p.code} - {p.name}</SelectItem>
+                                                            ))}
+                                                        </SelectContent>
+                                                    </Select>
+                                                )}
+                                            </TableCell>
                                             <TableCell>
                                                 <Input type="number" value={line.qty_per} onChange={e => updateLine(index, 'qty_per', Number(e.target.value))} />
                                             </TableCell>
@@ -229,8 +288,8 @@ export default function CreateBOM() {
                                     ))}
                                     {lines.length === 0 && (
                                         <TableRow>
-                                            <TableCell colSpan={6} className="text-center h-24 text-muted-foreground">
-                                                No ingredients added. Click "Add Material" to start.
+                                            <TableCell colSpan={7} className="text-center h-24 text-muted-foreground">
+                                                No ingredients added. Click "Add Component" to start.
                                             </TableCell>
                                         </TableRow>
                                     )}
@@ -0,0 +1,321 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { TableSkeleton } from '@/components/ui/table-skeleton';
+import { EmptyState } from '@/components/ui/empty-state';
+import { ErrorState } from '@/components/ui/error-state';
+import { AlertTriangle, Check, CalendarClock, Play, X } from 'lucide-react';
+import { useApp } from '@/contexts/AppContext';
+import { useMRPRun, useMRPRuns, useReviewMRPItems, useRunMRP } from '@/hooks/useProduction';
+import { MRPAction, MRPRequirement, MRPReviewStatus } from '@/types/production';
+
+const ACTION_VARIANT: Record<MRPAction, 'destructive' | 'warning' | 'secondary'> = {
+    expedite: 'destructive',
+    defer: 'warning',
+    cancel: 'secondary',
+};
+
+const SOURCE_LABEL: Record<MRPRequirement['source_type'], string> = {
+    sales_order: 'Sales order',
+    production_order: 'Production order',
+    planned_order: 'Planned order',
+    safety_stock: 'Safety stock',
+};
+
+const formatDate = (date: string | null) => (date ? format(new Date(date), 'dd MMM yyyy') : '—');
+
+const itemLabel = (row: { material?: { code: string; name: string } | null; product?: { code: string; name: string } | null }) => {
+    const item = row.material ?? row.product;
+    return item ? `${item.code} - ${item.name}` : '—';
+};
+
+export default function MaterialPlanning() {
+    const { companyId } = useApp();
+    const [selectedRunId, setSelectedRunId] = useState<string | undefined>();
+    const [toleranceDays, setToleranceDays] = useState(2);
+
+    const { data: runs, isLoading: runsLoading } = useMRPRuns(companyId);
+    const runId = selectedRunId ?? runs?.[0]?.id;
+    const { data: run, isLoading, error, refetch } = useMRPRun(runId);
+    const runMRP = useRunMRP();
+    const review = useReviewMRPItems();
+
+    const plannedOrders = [...(run?.planned_orders || [])].sort((a, b) => a.release_date.localeCompare(b.release_date));
+    const messages = (run?.receipts || [])
+        .filter(r => r.action !== null)
+        .sort((a, b) => a.receipt_date.localeCompare(b.receipt_date));
+    const requirements = [...(run?.requirements || [])].sort((a, b) => a.required_date.localeCompare(b.required_date));
+
+    const handleRun = async () => {
+        const newRunId = await runMRP.mutateAsync(toleranceDays);
+        setSelectedRunId(newRunId);
+    };
+
+    const reviewButtons = (kind: 'planned_order' | 'action_message', id: string, status: MRPReviewStatus | null) =>
+        status === 'open' ? (
+            <div className="flex justify-end gap-1">
+                <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Done"
+                    disabled={review.isPending}
+                    onClick={() => review.mutate({ kind, ids: [id], status: 'done' })}
+                >
+                    <Check className="h-4 w-4" />
+                </Button>
+                <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Dismiss"
+                    disabled={review.isPending}
+                    onClick={() => review.mutate({ kind, ids: [id], status: 'dismissed' })}
+                >
+                    <X className="h-4 w-4" />
+                </Button>
+            </div>
+        ) : (
+            <Badge variant="outline">{status}</Badge>
+        );
+
+    return (
+        <AppLayout>
+            <div className="space-y-6 animate-fade-in">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h1 className="text-3xl font-bold tracking-tight">Material Planning</h1>
+                        <p className="text-muted-foreground">
+                            Net all open demand against stock and open supply into planned orders and action messages
+                        </p>
+                    </div>
+                    <div className="flex items-end gap-3">
+                        <div className="space-y-1">
+                            <Label htmlFor="tolerance">Tolerance (days)</Label>
+                            <Input
+                                id="tolerance"
+                                type="number"
+                                min={0}
+                                className="w-28"
+                                value={toleranceDays}
+                                onChange={e => setToleranceDays(Math.max(0, Number(e.target.value)))}
+                            />
+                        </div>
+                        <Button onClick={handleRun} disabled={runMRP.isPending}>
+                            <Play className="mr-2 h-4 w-4" />
+                            {runMRP.isPending ? 'Running...' : 'Run MRP'}
+                        </Button>
+                    </div>
+                </div>
+
+                {runs && runs.length > 0 && (
+                    <div className="flex items-center gap-3">
+                        <Label>Run</Label>
+                        <Select value={runId} onValueChange={setSelectedRunId}>
+                            <SelectTrigger className="w-72">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {runs.map(r => (
+                                    <SelectItem key={r.id} value={r.id}>
+                                        {format(new Date(r.created_at), 'dd MMM yyyy HH:mm')}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                )}
+
+                {runsLoading || isLoading ? (
+                    <TableSkeleton rows={5} columns={7} />
+                ) : error ? (
+                    <ErrorState title="Failed to load MRP run" message={error.message} onRetry={() => refetch()} />
+                ) : !run ? (
+                    <EmptyState
+                        icon={CalendarClock}
+                        title="No MRP runs yet"
+                        description="Run MRP to plan purchases and production for open sales orders, production orders and safety stock."
+                        action={null}
+                    />
+                ) : (
+                    <>
+                        <div className="grid gap-4 md:grid-cols-4">
+                            <Card className="shadow-card">
+                                <CardHeader className="pb-2">
+                                    <CardTitle className="text-sm font-medium text-muted-foreground">Planned Buys</CardTitle>
+                                </CardHeader>
+                                <CardContent className="text-2xl font-bold">
+                                    {plannedOrders.filter(o => o.order_type === 'buy').length}
+                                </CardContent>
+                            </Card>
+                            <Card className="shadow-card">
+                                <CardHeader className="pb-2">
+                                    <CardTitle className="text-sm font-medium text-muted-foreground">Planned Makes</CardTitle>
+                                </CardHeader>
+                                <CardContent className="text-2xl font-bold">
+                                    {plannedOrders.filter(o => o.order_type === 'make').length}
+                                </CardContent>
+                            </Card>
+                            <Card className="shadow-card">
+                                <CardHeader className="pb-2">
+                                    <CardTitle className="text-sm font-medium text-muted-foreground">Late Releases</CardTitle>
+                                </CardHeader>
+                                <CardContent className="text-2xl font-bold text-destructive">
+                                    {plannedOrders.filter(o => o.is_late).length}
+                                </CardContent>
+                            </Card>
+                            <Card className="shadow-card">
+                                <CardHeader className="pb-2">
+                                    <CardTitle className="text-sm font-medium text-muted-foreground">Open Action Messages</CardTitle>
+                                </CardHeader>
+                                <CardContent className="text-2xl font-bold">
+                                    {messages.filter(m => m.action_status === 'open').length}
+                                </CardContent>
+                            </Card>
+                        </div>
+
+                        <Tabs defaultValue="planned">
+                            <TabsList>
+                                <TabsTrigger value="planned">Planned Orders ({plannedOrders.length})</TabsTrigger>
+                                <TabsTrigger value="actions">Action Messages ({messages.length})</TabsTrigger>
+                                <TabsTrigger value="requirements">Requirements ({requirements.length})</TabsTrigger>
+                            </TabsList>
+
+                            <TabsContent value="planned">
+                                <Card className="shadow-card">
+                                    <CardContent className="pt-6">
+                                        {plannedOrders.length === 0 ? (
+                                            <p className="text-sm text-muted-foreground">All demand is covered by stock and open supply.</p>
+                                        ) : (
+                                            <Table>
+                                                <TableHeader>
+                                                    <TableRow>
+                                                        <TableHead>Type</TableHead>
+                                                        <TableHead>Item</TableHead>
+                                                        <TableHead className="text-right">Net Req.</TableHead>
+                                                        <TableHead className="text-right">Order Qty</TableHead>
+                                                        <TableHead>Release</TableHead>
+                                                        <TableHead>Due</TableHead>
+                                                        <TableHead>Vendor</TableHead>
+                                                        <TableHead className="text-right">Review</TableHead>
+                                                    </TableRow>
+                                                </TableHeader>
+                                                <TableBody>
+                                                    {plannedOrders.map(order => (
+                                                        <TableRow key={order.id}>
+                                                            <TableCell>
+                                                                <Badge variant={order.order_type === 'make' ? 'default' : 'secondary'}>
+                                                                    {order.order_type}
+                                                                </Badge>
+                                                            </TableCell>
+                                                            <TableCell className="font-medium">{itemLabel(order)}</TableCell>
+                                                            <TableCell className="text-right">{Number(order.net_requirement).toLocaleString()}</TableCell>
+                                                            <TableCell className="text-right">
+                                                                {Number(order.qty).toLocaleString()} {(order.material ?? order.product)?.unit_of_measure}
+                                                            </TableCell>
+                                                            <TableCell>
+                                                                <div className="flex items-center gap-1">
+                                                                    {formatDate(order.release_date)}
+                                                                    {order.is_late && (
+                                                                        <AlertTriangle className="h-4 w-4 text-destructive" aria-label="Late" />
+                                                                    )}
+                                                                </div>
+                                                            </TableCell>
+                                                            <TableCell>{formatDate(order.due_date)}</TableCell>
+                                                            <TableCell>{order.vendor?.name ?? '—'}</TableCell>
+                                                            <TableCell>{reviewButtons('planned_order', order.id, order.status)}</TableCell>
+                                                        </TableRow>
+                                                    ))}
+                                                </TableBody>
+                                            </Table>
+                                        )}
+                                    </CardContent>
+                                </Card>
+                            </TabsContent>
+
+                            <TabsContent value="actions">
+                                <Card className="shadow-card">
+                                    <CardContent className="pt-6">
+                                        {messages.length === 0 ? (
+                                            <p className="text-sm text-muted-foreground">Open supply arrives when it is needed.</p>
+                                        ) : (
+                                            <Table>
+                                                <TableHeader>
+                                                    <TableRow>
+                                                        <TableHead>Action</TableHead>
+                                                        <TableHead>Document</TableHead>
+                                                        <TableHead>Item</TableHead>
+                                                        <TableHead className="text-right">Qty</TableHead>
+                                                        <TableHead className="text-right">Needed</TableHead>
+                                                        <TableHead>Scheduled</TableHead>
+                                                        <TableHead>Needed By</TableHead>
+                                                        <TableHead className="text-right">Review</TableHead>
+                                                    </TableRow>
+                                                </TableHeader>
+                                                <TableBody>
+                                                    {messages.map(message => (
+                                                        <TableRow key={message.id}>
+                                                            <TableCell>
+                                                                <Badge variant={ACTION_VARIANT[message.action as MRPAction]}>{message.action}</Badge>
+                                                            </TableCell>
+                                                            <TableCell className="font-medium">{message.document_number}</TableCell>
+                                                            <TableCell>{itemLabel(message)}</TableCell>
+                                                            <TableCell className="text-right">{Number(message.qty).toLocaleString()}</TableCell>
+                                                            <TableCell className="text-right">{Number(message.qty_needed).toLocaleString()}</TableCell>
+                                                            <TableCell>{formatDate(message.receipt_date)}</TableCell>
+                                                            <TableCell>{formatDate(message.needed_date)}</TableCell>
+                                                            <TableCell>{reviewButtons('action_message', message.id, message.action_status)}</TableCell>
+                                                        </TableRow>
+                                                    ))}
+                                                </TableBody>
+                                            </Table>
+                                        )}
+                                    </CardContent>
+                                </Card>
+                            </TabsContent>
+
+                            <TabsContent value="requirements">
+                                <Card className="shadow-card">
+                                    <CardContent className="pt-6">
+                                        {requirements.length === 0 ? (
+                                            <p className="text-sm text-muted-foreground">No open demand.</p>
+                                        ) : (
+                                            <Table>
+                                                <TableHeader>
+                                                    <TableRow>
+                                                        <TableHead>Date</TableHead>
+                                                        <TableHead>Item</TableHead>
+                                                        <TableHead className="text-right">Qty</TableHead>
+                                                        <TableHead>Source</TableHead>
+                                                        <TableHead>Reference</TableHead>
+                                                    </TableRow>
+                                                </TableHeader>
+                                                <TableBody>
+                                                    {requirements.map(requirement => (
+                                                        <TableRow key={requirement.id}>
+                                                            <TableCell>{formatDate(requirement.required_date)}</TableCell>
+                                                            <TableCell className="font-medium">{itemLabel(requirement)}</TableCell>
+                                                            <TableCell className="text-right">{Number(requirement.qty).toLocaleString()}</TableCell>
+                                                            <TableCell>{SOURCE_LABEL[requirement.source_type]}</TableCell>
+                                                            <TableCell>{requirement.source_number ?? '—'}</TableCell>
+                                                        </TableRow>
+                                                    ))}
+                                                </TableBody>
+                                            </Table>
+                                        )}
+                                    </CardContent>
+                                </Card>
+                            </TabsContent>
+                        </Tabs>
+                    </>
+                )}
+            </div>
+        </AppLayout>
+    );
+}
@@ -12,6 +12,7 @@ import { useApp } from '@/contexts/AppContext';
 import { EmptyState } from '@/components/ui/empty-state';
 import { TableSkeleton } from '@/components/ui/table-skeleton';
 import { ErrorState } from '@/components/ui/error-state';
+import { WorkCenterCalendarCard } from '@/components/production/WorkCenterCalendarCard';
 import {
     Dialog,
     DialogContent,
@@ -25,6 +26,19 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 
+// ISO weekdays, 1 = Monday
+const WEEKDAYS = [
+    { value: 1, label: 'Mon' },
+    { value: 2, label: 'Tue' },
+    { value: 3, label: 'Wed' },
+    { value: 4, label: 'Thu' },
+    { value: 5, label: 'Fri' },
+    { value: 6, label: 'Sat' },
+    { value: 7, label: 'Sun' },
+];
+
+const DEFAULT_WC_FORM = { code: '', name: '', capacity_per_day: 8, cost_per_hour: 0, working_days: [1, 2, 3, 4, 5, 6] };
+
 export default function Operations() {
     const { companyId } = useApp();
     const { data: workCenters, isLoading: wcLoading, error: wcError, refetch: wcRefetch } = useWorkCenters(companyId);
@@ -38,14 +52,14 @@ export default function Operations() {
     const [isOpCreateOpen, setIsOpCreateOpen] = useState(false);
 
     // Form States
-    const [wcForm, setWcForm] = useState({ code: '', name: '', capacity_per_day: 8, cost_per_hour: 0 });
+    const [wcForm, setWcForm] = useState(DEFAULT_WC_FORM);
     const [opForm, setOpForm] = useState({ code: '', name: '', standard_time_minutes: 0, work_center_id: '' });
 
     const handleCreateWorkCenter = async () => {
         try {
             await createWorkCenter.mutateAsync(wcForm);
             setIsWCCreateOpen(false);
-            setWcForm({ code: '', name: '', capacity_per_day: 8, cost_per_hour: 0 });
+            setWcForm(DEFAULT_WC_FORM);
         } catch (error) {
             // Error handled by hook
         }
@@ -92,6 +106,7 @@ export default function Operations() {
                     <TabsList>
                         <TabsTrigger value="operations">Standard Operations</TabsTrigger>
                         <TabsTrigger value="workcenters">Work Centers</TabsTrigger>
+                        <TabsTrigger value="calendar">Calendar</TabsTrigger>
                     </TabsList>
 
                     <TabsContent value="operations" className="space-y-4">
@@ -201,6 +216,7 @@ export default function Operations() {
                                                 <TableHead>Code</TableHead>
                                                 <TableHead>Name</TableHead>
                                                 <TableHead>Capacity (Hrs/Day)</TableHead>
+                                                <TableHead>Working Days</TableHead>
                                                 <TableHead>Cost/Hour</TableHead>
                                                 <TableHead>Status</TableHead>
                                                 <TableHead className="text-right">Actions</TableHead>
@@ -212,6 +228,9 @@ export default function Operations() {
                                                     <TableCell className="font-mono">{wc.code}</TableCell>
                                                     <TableCell>{wc.name}</TableCell>
                                                     <TableCell>{wc.capacity_per_day}</TableCell>
+                                                    <TableCell className="text-muted-foreground">
+                                                        {WEEKDAYS.filter(d => wc.working_days?.includes(d.value)).map(d => d.label).join(', ')}
+                                                    </TableCell>
                                                     <TableCell>{new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR' }).format(wc.cost_per_hour)}</TableCell>
                                                     <TableCell>
                                                         <Badge variant={wc.is_active ? 'default' : 'secondary'}>
@@ -229,6 +248,10 @@ export default function Operations() {
                             </CardContent>
                         </Card>
                     </TabsContent>
+
+                    <TabsContent value="calendar" className="space-y-4">
+                        <WorkCenterCalendarCard workCenters={workCenters || []} />
+                    </TabsContent>
                 </Tabs>
 
                 {/* Create Work Center Dialog */}
@@ -251,6 +274,30 @@ export default function Operations() {
                                 <Label htmlFor="wc-cap" className="text-right">Capacity (Hrs)</Label>
                                 <Input id="wc-cap" type="number" value={wcForm.capacity_per_day} onChange={e => setWcForm({ ...wcForm, capacity_per_day: Number(e.target.value) })} className="col-span-3" />
                             </div>
+                            <div className="grid grid-cols-4 items-center gap-4">
+                                <Label className="text-right">Working Days</Label>
+                                <div className="col-span-3 flex flex-wrap gap-1">
+                                    {WEEKDAYS.map(d => {
+                                        const selected = wcForm.working_days.includes(d.value);
+                                        return (
+                                            <Button
+                                                key={d.value}
+                                                type="button"
+                                                size="sm"
+                                                variant={selected ? 'default' : 'outline'}
+                                                onClick={() => setWcForm({
+                                                    ...wcForm,
+                                                    working_days: selected
+                                                        ? wcForm.working_days.filter(v => v !== d.value)
+                                                        : [...wcForm.working_days, d.value].sort(),
+                                                })}
+                                            >
+                                                {d.label}
+                                            </Button>
+                                        );
+                                    })}
+                                </div>
+                            </div>
                             <div className="grid grid-cols-4 items-center gap-4">
                                 <Label htmlFor="wc-cost" className="text-right">Cost/Hr</Label>
                                 <Input id="wc-cost" type="number" value={wcForm.cost_per_hour} onChange={e => setWcForm({ ...wcForm, cost_per_hour: Number(e.target.value) })} className="col-span-3" />
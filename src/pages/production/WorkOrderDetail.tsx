@@ -10,6 +10,8 @@ import { useToast } from '@/hooks/use-toast';
 import { ErrorState } from '@/components/ui/error-state';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Separator } from '@/components/ui/separator';
+import { VariantMaterialNeedsCard } from '@/components/production/VariantMaterialNeedsCard';
+import { ProductionWorkOrdersCard } from '@/components/production/ProductionWorkOrdersCard';
 import {
     Dialog,
     DialogContent,
@@ -166,7 +168,7 @@ export default function WorkOrderDetail() {
                             {wo.status === 'planned' && (
                                 <div className="bg-yellow-50 text-yellow-700 p-3 rounded-md text-sm flex items-start">
                                     <AlertCircle className="h-4 w-4 mr-2 mt-0.5" />
-                                    Releasing this order will check stock availability and reserve raw materials.
+                                    Releasing this order will check stock availability, reserve raw materials and generate work orders from the BOM routing.
                                 </div>
                             )}
                         </CardContent>
@@ -190,6 +192,10 @@ export default function WorkOrderDetail() {
                             </div>
                         </CardContent>
                     </Card>
+
+                    <ProductionWorkOrdersCard productionOrderId={wo.id} productionOrderStatus={wo.status} />
+
+                    <VariantMaterialNeedsCard productionOrderId={wo.id} />
                 </div>
 
                 {/* Record Output Dialog */}
@@ -4,7 +4,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
-import { useProductionOrders, useCreateProductionOrder, useBOMs } from '@/hooks/useProduction';
+import { useProductionOrders, useCreateProductionOrder, useBOMs, useProductVariantOptions } from '@/hooks/useProduction';
 import { useProducts, useWarehouses } from '@/hooks/useMasterData';
 import { useAccountingPeriods } from '@/hooks/useAccounting';
 import { Plus, ClipboardCheck } from 'lucide-react';
@@ -14,6 +14,7 @@ import { PRODUCTION_STATUS } from '@/types/enums';
 import { EmptyState } from '@/components/ui/empty-state';
 import { TableSkeleton } from '@/components/ui/table-skeleton';
 import { ErrorState } from '@/components/ui/error-state';
+import { WorkCenterScheduleCard } from '@/components/production/WorkCenterScheduleCard';
 import {
     Dialog,
     DialogContent,
@@ -48,6 +49,15 @@ export default function WorkOrders() {
         due_date: new Date().toISOString().split('T')[0],
         period_id: ''
     });
+    const [variantQty, setVariantQty] = useState<{ [variantId: string]: number }>({});
+    const { data: variants } = useProductVariantOptions(formData.product_id || undefined);
+
+    // With a size / color mix the order quantity is its total
+    const mix = Object.entries(variantQty)
+        .filter(([, qty]) => qty > 0)
+        .map(([product_variant_id, qty_planned]) => ({ product_variant_id, qty_planned }));
+    const mixTotal = mix.reduce((sum, v) => sum + v.qty_planned, 0);
+    const hasVariants = !!variants && variants.length > 0;
 
     // Auto-select BOM and Warehouse when Product changes (if possible)
     const handleProductChange = (productId: string) => {
@@ -61,6 +71,7 @@ export default function WorkOrders() {
             product_id: productId,
             bom_id: defaultBOM
         }));
+        setVariantQty({});
     };
 
     const handleCreate = async () => {
@@ -74,7 +85,8 @@ export default function WorkOrders() {
             await createWO.mutateAsync({
                 ...formData,
                 po_date: new Date().toISOString().split('T')[0], // Today
-                qty_planned: Number(formData.qty_planned)
+                qty_planned: mix.length > 0 ? mixTotal : Number(formData.qty_planned),
+                variants: mix
             });
             setIsCreateOpen(false);
             // Reset form
@@ -87,6 +99,7 @@ export default function WorkOrders() {
                 due_date: new Date().toISOString().split('T')[0],
                 period_id: ''
             });
+            setVariantQty({});
         } catch (error) {
             // Handled by hook
         }
@@ -189,6 +202,8 @@ export default function WorkOrders() {
                     </CardContent>
                 </Card>
 
+                <WorkCenterScheduleCard />
+
                 {/* Create Production Order Dialog */}
                 <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
                     <DialogContent className="sm:max-w-[600px]">
@@ -255,8 +270,29 @@ export default function WorkOrders() {
                             </div>
                             <div className="grid grid-cols-4 items-center gap-4">
                                 <Label htmlFor="qty" className="text-right">Qty Planned</Label>
-                                <Input id="qty" type="number" value={formData.qty_planned} onChange={e => setFormData({ ...formData, qty_planned: Number(e.target.value) })} className="col-span-3" />
+                                <Input id="qty" type="number" value={mix.length > 0 ? mixTotal : formData.qty_planned} onChange={e => setFormData({ ...formData, qty_planned: Number(e.target.value) })} className="col-span-3" disabled={mix.length > 0} />
                             </div>
+                            {hasVariants && (
+                                <div className="grid grid-cols-4 gap-4">
+                                    <Label className="text-right pt-2">Variant Mix</Label>
+                                    <div className="col-span-3 grid grid-cols-3 gap-2 max-h-48 overflow-y-auto">
+                                        {variants.map(v => (
+                                            <div key={v.id} className="space-y-1">
+                                                <Label htmlFor={`variant-${v.id}`} className="text-xs text-muted-foreground">
+                                                    {[v.size_code, v.color_code].filter(Boolean).join(' / ') || v.sku}
+                                                </Label>
+                                                <Input
+                                                    id={`variant-${v.id}`}
+                                                    type="number"
+                                                    min="0"
+                                                    value={variantQty[v.id] ?? ''}
+                                                    onChange={e => setVariantQty(prev => ({ ...prev, [v.id]: Number(e.target.value) }))}
+                                                />
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
                             <div className="grid grid-cols-4 items-center gap-4">
                                 <Label htmlFor="due" className="text-right">Due Date</Label>
                                 <Input id="due" type="date" value={formData.due_date} onChange={e => setFormData({ ...formData, due_date: e.target.value })} className="col-span-3" />
@@ -7,13 +7,24 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
 import { Separator } from '@/components/ui/separator';
-import { Plus, Trash, ArrowLeft, Loader2, Save } from 'lucide-react';
+import { Plus, Trash, ArrowLeft, Loader2, Save, AlertTriangle } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
-import { useCreatePurchaseOrder } from '@/hooks/usePurchasing';
+import { useCreatePurchaseOrder, useVendorPriceLists } from '@/hooks/usePurchasing';
 import { useVendors, useProducts } from '@/hooks/useMasterData';
 import { useApp } from '@/contexts/AppContext';
 import { useToast } from '@/hooks/use-toast';
 import { useMaterials } from '@/hooks/useMaterials';
+import { VendorPriceList } from '@/types/purchasing';
+
+const CURRENCIES = ['IDR', 'USD', 'CNY', 'EUR', 'SGD', 'JPY'];
+
+// Highest quantity break reached, else the list price (same rule as get_vendor_price)
+const contractPriceFor = (priceList: VendorPriceList, qty: number) => {
+    const reached = (priceList.breaks || [])
+        .filter(b => Number(b.min_qty) <= qty)
+        .sort((a, b) => Number(b.min_qty) - Number(a.min_qty));
+    return Number(reached.length > 0 ? reached[0].unit_price : priceList.unit_price);
+};
 
 export default function CreatePurchaseOrder() {
     const navigate = useNavigate();
@@ -28,20 +39,51 @@ export default function CreatePurchaseOrder() {
     const [vendorId, setVendorId] = useState('');
     const [poDate, setPoDate] = useState(new Date().toISOString().split('T')[0]);
     const [deliveryDate, setDeliveryDate] = useState('');
+    const [currency, setCurrency] = useState('IDR');
+    const [exchangeRate, setExchangeRate] = useState('');
     const [notes, setNotes] = useState('');
 
+    const { data: priceLists } = useVendorPriceLists(vendorId || undefined, poDate);
+
     // Line Items State
     const [items, setItems] = useState<{
         key: string; // unique key for rendering
         materialId: string;
         qty: number;
-        price: number;
+        price: number | null; // null = vendor contract price
     }[]>([
-        { key: '1', materialId: '', qty: 1, price: 0 }
+        { key: '1', materialId: '', qty: 1, price: null }
     ]);
 
+    // Newest price list of the material valid on the order date, in the order currency
+    const getContract = (materialId: string) =>
+        priceLists?.find(p => p.material_id === materialId && p.currency === currency);
+
+    const getPrice = (item: { materialId: string; qty: number; price: number | null }) => {
+        if (item.price !== null) return item.price;
+        const contract = getContract(item.materialId);
+        return contract ? contractPriceFor(contract, item.qty || 0) : 0;
+    };
+
+    const getContractWarnings = (item: { materialId: string; qty: number; price: number | null }) => {
+        const contract = getContract(item.materialId);
+        if (!contract) return [];
+
+        const warnings: string[] = [];
+        const contractPrice = contractPriceFor(contract, item.qty || 0);
+        const price = getPrice(item);
+        if ((item.qty || 0) < Number(contract.min_order_qty)) {
+            warnings.push(`Below the minimum order quantity of ${Number(contract.min_order_qty).toLocaleString('id-ID')}`);
+        }
+        if (Math.abs(price - contractPrice) > contractPrice * Number(contract.price_tolerance_pct) / 100) {
+            const pct = contractPrice > 0 ? ((price - contractPrice) / contractPrice * 100).toFixed(2) : null;
+            warnings.push(`Price ${pct === null ? 'deviates' : `deviates ${pct}%`} from the contract price ${contractPrice.toLocaleString('id-ID')}`);
+        }
+        return warnings;
+    };
+
     const handleAddItem = () => {
-        setItems([...items, { key: Date.now().toString(), materialId: '', qty: 1, price: 0 }]);
+        setItems([...items, { key: Date.now().toString(), materialId: '', qty: 1, price: null }]);
     };
 
     const handleRemoveItem = (index: number) => {
@@ -50,19 +92,18 @@ export default function CreatePurchaseOrder() {
         setItems(newItems);
     };
 
-    const handleItemChange = (index: number, field: 'materialId' | 'qty' | 'price', value: any) => {
+    const handleItemChange = (index: number, field: 'materialId' | 'qty' | 'price', value: string | number) => {
         const newItems = [...items];
+        newItems[index] = { ...newItems[index], [field]: value };
         if (field === 'materialId') {
-            // Find default price or other details if needed
-            const material = materials?.find(m => m.id === value);
-            // We could look up last purchase price here if we had that data
+            // Price follows the vendor contract until typed over
+            newItems[index].price = null;
         }
-        newItems[index] = { ...newItems[index], [field]: value };
         setItems(newItems);
     };
 
     const calculateTotal = () => {
-        return items.reduce((sum, item) => sum + (item.qty * item.price), 0);
+        return items.reduce((sum, item) => sum + (item.qty * getPrice(item)), 0);
     };
 
     const handleSubmit = (e: React.FormEvent) => {
@@ -82,12 +123,15 @@ export default function CreatePurchaseOrder() {
             vendor_id: vendorId,
             warehouse_id: warehouseId,
             po_date: poDate,
+            currency,
+            // Blank uses the rate recorded for the PO date
+            exchange_rate: currency !== 'IDR' && exchangeRate ? Number(exchangeRate) : undefined,
             delivery_date: deliveryDate || undefined,
             notes: notes || undefined,
             items: items.map(i => ({
                 material_id: i.materialId,
                 qty_ordered: i.qty,
-                unit_price: i.price
+                unit_price: getPrice(i)
             }))
         }, {
             onSuccess: () => {
@@ -154,6 +198,33 @@ export default function CreatePurchaseOrder() {
                                     <Input type="date" value={deliveryDate} onChange={e => setDeliveryDate(e.target.value)} />
                                 </div>
                             </div>
+                            <div className="grid grid-cols-2 gap-4">
+                                <div className="grid gap-2">
+                                    <Label>Currency</Label>
+                                    <Select value={currency} onValueChange={setCurrency}>
+                                        <SelectTrigger>
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {CURRENCIES.map(code => (
+                                                <SelectItem key={code} value={code}>{code}</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                                <div className="grid gap-2">
+                                    <Label>Exchange Rate (IDR)</Label>
+                                    <Input
+                                        type="number"
+                                        min="0"
+                                        step="0.000001"
+                                        placeholder={currency === 'IDR' ? '1' : 'Rate on order date'}
+                                        disabled={currency === 'IDR'}
+                                        value={currency === 'IDR' ? '' : exchangeRate}
+                                        onChange={e => setExchangeRate(e.target.value)}
+                                    />
+                                </div>
+                            </div>
                             <div className="grid gap-2">
                                 <Label>Notes</Label>
                                 <Textarea
@@ -174,16 +245,16 @@ export default function CreatePurchaseOrder() {
                             <div className="space-y-2">
                                 <div className="flex justify-between text-sm">
                                     <span className="text-muted-foreground">Subtotal</span>
-                                    <span className="font-mono">Rp {calculateTotal().toLocaleString('id-ID')}</span>
+                                    <span className="font-mono">{currency} {calculateTotal().toLocaleString('id-ID')}</span>
                                 </div>
                                 <div className="flex justify-between text-sm">
                                     <span className="text-muted-foreground">Tax</span>
-                                    <span className="font-mono">Rp 0</span>
+                                    <span className="font-mono">{currency} 0</span>
                                 </div>
                                 <Separator className="my-2" />
                                 <div className="flex justify-between font-bold text-lg">
                                     <span>Total</span>
-                                    <span>Rp {calculateTotal().toLocaleString('id-ID')}</span>
+                                    <span>{currency} {calculateTotal().toLocaleString('id-ID')}</span>
                                 </div>
                             </div>
                         </CardContent>
@@ -201,57 +272,82 @@ export default function CreatePurchaseOrder() {
                     </CardHeader>
                     <CardContent>
                         <div className="space-y-4">
-                            {items.map((item, index) => (
-                                <div key={item.key} className="flex gap-4 items-end border-b pb-4 last:border-0 last:pb-0">
-                                    <div className="grid gap-2 flex-1">
-                                        <Label className={index > 0 ? 'sr-only' : ''}>Material</Label>
-                                        <Select value={item.materialId} onValueChange={(val) => handleItemChange(index, 'materialId', val)}>
-                                            <SelectTrigger>
-                                                <SelectValue placeholder="Select Material" />
-                                            </SelectTrigger>
-                                            <SelectContent>
-                                                {materials?.map(m => (
-                                                    <SelectItem key={m.id} value={m.id}>{m.name} ({m.code}) - {m.unit_of_measure}</SelectItem>
-                                                ))}
-                                            </SelectContent>
-                                        </Select>
-                                    </div>
-                                    <div className="grid gap-2 w-24">
-                                        <Label className={index > 0 ? 'sr-only' : ''}>Qty</Label>
-                                        <Input
-                                            type="number"
-                                            min="1"
-                                            value={item.qty}
-                                            onChange={e => handleItemChange(index, 'qty', parseFloat(e.target.value))}
-                                        />
-                                    </div>
-                                    <div className="grid gap-2 w-36">
-                                        <Label className={index > 0 ? 'sr-only' : ''}>Unit Price</Label>
-                                        <Input
-                                            type="number"
-                                            min="0"
-                                            value={item.price}
-                                            onChange={e => handleItemChange(index, 'price', parseFloat(e.target.value))}
-                                        />
-                                    </div>
-                                    <div className="grid gap-2 w-32">
-                                        <Label className={index > 0 ? 'sr-only' : ''}>Total</Label>
-                                        <div className="h-10 flex items-center px-3 border rounded-md bg-muted font-mono text-sm">
-                                            {(item.qty * item.price).toLocaleString('id-ID')}
+                            {items.map((item, index) => {
+                                const contract = getContract(item.materialId);
+                                const warnings = getContractWarnings(item);
+                                return (
+                                    <div key={item.key} className="border-b pb-4 last:border-0 last:pb-0 space-y-2">
+                                        <div className="flex gap-4 items-end">
+                                            <div className="grid gap-2 flex-1">
+                                                <Label className={index > 0 ? 'sr-only' : ''}>Material</Label>
+                                                <Select value={item.materialId} onValueChange={(val) => handleItemChange(index, 'materialId', val)}>
+                                                    <SelectTrigger>
+                                                        <SelectValue placeholder="Select Material" />
+                                                    </SelectTrigger>
+                                                    <SelectContent>
+                                                        {materials?.map(m => (
+                                                            <SelectItem key={m.id} value={m.id}>{m.name} ({m.code}) - {m.unit_of_measure}</SelectItem>
+                                                        ))}
+                                                    </SelectContent>
+                                                </Select>
+                                            </div>
+                                            <div className="grid gap-2 w-24">
+                                                <Label className={index > 0 ? 'sr-only' : ''}>Qty</Label>
+                                                <Input
+                                                    type="number"
+                                                    min="1"
+                                                    value={item.qty}
+                                                    onChange={e => handleItemChange(index, 'qty', parseFloat(e.target.value))}
+                                                />
+                                            </div>
+                                            <div className="grid gap-2 w-36">
+                                                <Label className={index > 0 ? 'sr-only' : ''}>Unit Price</Label>
+                                                <Input
+                                                    type="number"
+                                                    min="0"
+                                                    value={getPrice(item)}
+                                                    onChange={e => handleItemChange(index, 'price', parseFloat(e.target.value) || 0)}
+                                                />
+                                            </div>
+                                            <div className="grid gap-2 w-32">
+                                                <Label className={index > 0 ? 'sr-only' : ''}>Total</Label>
+                                                <div className="h-10 flex items-center px-3 border rounded-md bg-muted font-mono text-sm">
+                                                    {(item.qty * getPrice(item)).toLocaleString('id-ID')}
+                                                </div>
+                                            </div>
+                                            <Button
+                                                type="button"
+                                                variant="ghost"
+                                                size="icon"
+                                                className="text-destructive hover:text-destructive/80 mb-0.5"
+                                                onClick={() => handleRemoveItem(index)}
+                                                disabled={items.length === 1}
+                                            >
+                                                <Trash className="h-4 w-4" />
+                                            </Button>
                                         </div>
+                                        {contract && (
+                                            <div className="text-xs space-y-1">
+                                                <p className="text-muted-foreground">
+                                                    Contract {contract.currency} {contractPriceFor(contract, item.qty || 0).toLocaleString('id-ID')}
+                                                    {Number(contract.min_order_qty) > 0 && ` · MOQ ${Number(contract.min_order_qty).toLocaleString('id-ID')}`}
+                                                    {contract.breaks?.length > 0 && ` · Breaks ${[...contract.breaks]
+                                                        .sort((a, b) => Number(a.min_qty) - Number(b.min_qty))
+                                                        .map(b => `${Number(b.min_qty).toLocaleString('id-ID')}+ @ ${Number(b.unit_price).toLocaleString('id-ID')}`)
+                                                        .join(', ')}`}
+                                                    {` · Lead time ${contract.lead_time_days} days`}
+                                                </p>
+                                                {warnings.map(warning => (
+                                                    <p key={warning} className="flex items-center gap-1 text-amber-600">
+                                                        <AlertTriangle className="h-3 w-3" />
+                                                        {warning}
+                                                    </p>
+                                                ))}
+                                            </div>
+                                        )}
                                     </div>
-                                    <Button
-                                        type="button"
-                                        variant="ghost"
-                                        size="icon"
-                                        className="text-destructive hover:text-destructive/80 mb-0.5"
-                                        onClick={() => handleRemoveItem(index)}
-                                        disabled={items.length === 1}
-                                    >
-                                        <Trash className="h-4 w-4" />
-                                    </Button>
-                                </div>
-                            ))}
+                                );
+                            })}
                         </div>
                     </CardContent>
                 </Card>
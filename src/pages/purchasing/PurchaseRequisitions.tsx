@@ -0,0 +1,291 @@
+import { useState } from 'react';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Search, ClipboardList, Trash } from 'lucide-react';
+import {
+    usePurchaseRequisitions,
+    useRequisitionApprovalQueue,
+    useCreatePurchaseRequisition,
+    useSubmitPurchaseRequisition,
+    useActOnPurchaseRequisition,
+} from '@/hooks/usePurchasing';
+import { useMaterials } from '@/hooks/useMaterials';
+import { useApp } from '@/contexts/AppContext';
+import { EmptyState } from '@/components/ui/empty-state';
+import { TableSkeleton } from '@/components/ui/table-skeleton';
+import { ErrorState } from '@/components/ui/error-state';
+import { format } from 'date-fns';
+import { RequisitionStatus } from '@/types/purchasing';
+
+const STATUS_VARIANT: Record<RequisitionStatus, 'default' | 'secondary' | 'destructive' | 'success' | 'warning' | 'outline'> = {
+    draft: 'secondary',
+    submitted: 'warning',
+    approved: 'success',
+    rejected: 'destructive',
+    converted: 'default',
+    cancelled: 'outline',
+};
+
+export default function PurchaseRequisitions() {
+    const [searchQuery, setSearchQuery] = useState('');
+    const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+    const { companyId, warehouseId, userId } = useApp();
+
+    const { data: requisitions, isLoading, error, refetch } = usePurchaseRequisitions(companyId);
+    const { data: queue } = useRequisitionApprovalQueue(companyId);
+    const { data: materials } = useMaterials();
+    const createRequisition = useCreatePurchaseRequisition();
+    const submitRequisition = useSubmitPurchaseRequisition();
+    const actOnRequisition = useActOnPurchaseRequisition();
+
+    // Create Form State
+    const [needByDate, setNeedByDate] = useState('');
+    const [notes, setNotes] = useState('');
+    const [items, setItems] = useState<{ key: string; materialId: string; qty: number }[]>([
+        { key: '1', materialId: '', qty: 1 }
+    ]);
+
+    const filteredRequisitions = (requisitions || []).filter(
+        (requisition) => requisition.requisition_number.toLowerCase().includes(searchQuery.toLowerCase())
+    );
+
+    const handleItemChange = (index: number, field: 'materialId' | 'qty', value: string | number) => {
+        const newItems = [...items];
+        newItems[index] = { ...newItems[index], [field]: value };
+        setItems(newItems);
+    };
+
+    const handleCreate = async () => {
+        await createRequisition.mutateAsync({
+            warehouse_id: warehouseId,
+            need_by_date: needByDate || undefined,
+            notes: notes || undefined,
+            items: items.map(i => ({ material_id: i.materialId, qty_requested: i.qty }))
+        });
+        setIsCreateDialogOpen(false);
+        setNeedByDate('');
+        setNotes('');
+        setItems([{ key: '1', materialId: '', qty: 1 }]);
+    };
+
+    if (error) {
+        return (
+            <AppLayout>
+                <ErrorState
+                    title="Failed to load requisitions"
+                    message={error.message}
+                    onRetry={() => refetch()}
+                />
+            </AppLayout>
+        );
+    }
+
+    return (
+        <AppLayout>
+            <div className="space-y-6 animate-fade-in">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h1 className="text-3xl font-bold tracking-tight">Purchase Requisitions</h1>
+                        <p className="text-muted-foreground">
+                            Request materials for production and track their approval
+                        </p>
+                    </div>
+                    <Button onClick={() => setIsCreateDialogOpen(true)}>
+                        <Plus className="mr-2 h-4 w-4" />
+                        New Requisition
+                    </Button>
+                </div>
+
+                <Card className="shadow-card">
+                    <CardHeader>
+                        <div className="relative flex-1 max-w-sm">
+                            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                            <Input
+                                placeholder="Search by requisition number..."
+                                value={searchQuery}
+                                onChange={(e) => setSearchQuery(e.target.value)}
+                                className="pl-10"
+                            />
+                        </div>
+                    </CardHeader>
+                    <CardContent>
+                        {isLoading ? (
+                            <TableSkeleton rows={5} columns={7} />
+                        ) : filteredRequisitions.length === 0 ? (
+                            <EmptyState
+                                icon={ClipboardList}
+                                title={searchQuery ? "No matching requisitions" : "No requisitions yet"}
+                                description={
+                                    searchQuery
+                                        ? "Try adjusting your search terms"
+                                        : "Request the materials production needs; purchasing turns approved requests into POs."
+                                }
+                            />
+                        ) : (
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>Requisition</TableHead>
+                                        <TableHead>Date</TableHead>
+                                        <TableHead>Need By</TableHead>
+                                        <TableHead>Items</TableHead>
+                                        <TableHead className="text-right">Estimated</TableHead>
+                                        <TableHead className="text-center">Status</TableHead>
+                                        <TableHead className="text-right">Action</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {filteredRequisitions.map((requisition) => {
+                                        const pending = queue?.find(q => q.requisition_id === requisition.id);
+                                        const poNumbers = [...new Set((requisition.lines || [])
+                                            .map(l => l.purchase_order?.po_number)
+                                            .filter(Boolean))];
+
+                                        return (
+                                            <TableRow key={requisition.id} className="hover:bg-muted/50">
+                                                <TableCell className="font-mono font-medium">
+                                                    {requisition.requisition_number}
+                                                </TableCell>
+                                                <TableCell>{format(new Date(requisition.requisition_date), 'MMM d, yyyy')}</TableCell>
+                                                <TableCell>
+                                                    {requisition.need_by_date ? format(new Date(requisition.need_by_date), 'MMM d, yyyy') : '-'}
+                                                </TableCell>
+                                                <TableCell className="text-sm">
+                                                    {(requisition.lines || []).map(l => `${l.material?.name || 'Variant'} × ${l.qty_requested}`).join(', ')}
+                                                </TableCell>
+                                                <TableCell className="text-right font-mono">
+                                                    Rp {Number(requisition.estimated_total).toLocaleString('id-ID')}
+                                                </TableCell>
+                                                <TableCell className="text-center">
+                                                    <Badge variant={STATUS_VARIANT[requisition.status]}>
+                                                        {requisition.status.toUpperCase()}
+                                                    </Badge>
+                                                    {pending && (
+                                                        <div className="text-xs text-muted-foreground mt-1">
+                                                            Level {pending.approval_level}: {pending.approver_role}
+                                                        </div>
+                                                    )}
+                                                    {poNumbers.length > 0 && (
+                                                        <div className="text-xs text-muted-foreground mt-1 font-mono">{poNumbers.join(', ')}</div>
+                                                    )}
+                                                </TableCell>
+                                                <TableCell className="text-right space-x-2">
+                                                    {requisition.status === 'draft' && (
+                                                        <Button size="sm" variant="outline" onClick={() => submitRequisition.mutate(requisition.id)}>
+                                                            Submit
+                                                        </Button>
+                                                    )}
+                                                    {requisition.status === 'submitted' && requisition.requested_by !== userId && (
+                                                        <>
+                                                            <Button size="sm" onClick={() => actOnRequisition.mutate({ id: requisition.id, action: 'approved' })}>
+                                                                Approve
+                                                            </Button>
+                                                            <Button size="sm" variant="outline" onClick={() => actOnRequisition.mutate({ id: requisition.id, action: 'rejected' })}>
+                                                                Reject
+                                                            </Button>
+                                                        </>
+                                                    )}
+                                                </TableCell>
+                                            </TableRow>
+                                        );
+                                    })}
+                                </TableBody>
+                            </Table>
+                        )}
+                    </CardContent>
+                </Card>
+
+                {/* Create Dialog */}
+                <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+                    <DialogContent className="sm:max-w-[640px]">
+                        <DialogHeader>
+                            <DialogTitle>New Requisition</DialogTitle>
+                            <DialogDescription>List the materials you need; prices are estimated from standard cost.</DialogDescription>
+                        </DialogHeader>
+                        <div className="grid gap-4 py-4">
+                            <div className="space-y-2">
+                                <Label>Need By</Label>
+                                <Input type="date" value={needByDate} onChange={(e) => setNeedByDate(e.target.value)} />
+                            </div>
+                            {items.map((item, index) => (
+                                <div key={item.key} className="grid grid-cols-[1fr_120px_auto] gap-2 items-end">
+                                    <div className="space-y-2">
+                                        {index === 0 && <Label>Material</Label>}
+                                        <Select value={item.materialId} onValueChange={(val) => handleItemChange(index, 'materialId', val)}>
+                                            <SelectTrigger><SelectValue placeholder="Select Material" /></SelectTrigger>
+                                            <SelectContent>
+                                                {materials?.map(m => (
+                                                    <SelectItem key={m.id} value={m.id}>{m.name} ({m.code}) - {m.unit_of_measure}</SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                    </div>
+                                    <div className="space-y-2">
+                                        {index === 0 && <Label>Quantity</Label>}
+                                        <Input
+                                            type="number"
+                                            min="0"
+                                            value={item.qty}
+                                            onChange={(e) => handleItemChange(index, 'qty', parseFloat(e.target.value) || 0)}
+                                        />
+                                    </div>
+                                    <Button
+                                        type="button"
+                                        variant="ghost"
+                                        size="icon"
+                                        disabled={items.length === 1}
+                                        onClick={() => setItems(items.filter((_, i) => i !== index))}
+                                    >
+                                        <Trash className="h-4 w-4" />
+                                    </Button>
+                                </div>
+                            ))}
+                            <Button
+                                type="button"
+                                variant="outline"
+                                size="sm"
+                                className="w-fit"
+                                onClick={() => setItems([...items, { key: Date.now().toString(), materialId: '', qty: 1 }])}
+                            >
+                                <Plus className="mr-2 h-4 w-4" />
+                                Add Item
+                            </Button>
+                            <div className="space-y-2">
+                                <Label>Notes</Label>
+                                <Textarea
+                                    placeholder="What the materials are for, e.g. cutting line 2 for SO-2025-0040"
+                                    value={notes}
+                                    onChange={(e) => setNotes(e.target.value)}
+                                />
+                            </div>
+                        </div>
+                        <DialogFooter>
+                            <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)}>Cancel</Button>
+                            <Button
+                                onClick={handleCreate}
+                                disabled={createRequisition.isPending || items.some(i => !i.materialId || i.qty <= 0)}
+                            >
+                                Create Requisition
+                            </Button>
+                        </DialogFooter>
+                    </DialogContent>
+                </Dialog>
+            </div>
+        </AppLayout>
+    );
+}
@@ -13,6 +13,8 @@ import { useApp } from '@/contexts/AppContext';
 import { useToast } from '@/hooks/use-toast';
 import { Skeleton } from '@/components/ui/skeleton';
 import { ErrorState } from '@/components/ui/error-state';
+import { GRNInspectionCard } from '@/components/purchasing/GRNInspectionCard';
+import { supabase } from '@/integrations/supabase/client';
 
 export default function ReceiveGoods() {
     const { id } = useParams();
@@ -64,7 +66,8 @@ export default function ReceiveGoods() {
             return;
         }
 
-        const defaultBinId = bins[0].id; // MVP: Use first bin
+        // MVP: Use first bin; quarantine bins only take stock awaiting inspection
+        const defaultBinId = (bins.find(b => !b.is_quarantine) ?? bins[0]).id;
 
         setIsProcessing(true);
         try {
@@ -84,7 +87,8 @@ export default function ReceiveGoods() {
                         po_line_id: lineId,
                         material_id: line?.material_id || '',
                         qty_received: qty,
-                        unit_cost: line?.unit_price || 0,
+                        // Inventory is costed in base currency
+                        unit_cost: (line?.unit_price || 0) * (order?.exchange_rate || 1),
                         bin_id: defaultBinId, // Using default bin for now
                         notes: `Recv from PO ${order?.po_number}`
                     };
@@ -97,8 +101,18 @@ export default function ReceiveGoods() {
             await postGRN.mutateAsync(grn.id);
 
             // Success handled by hook onSuccess usually, but since we chain, we navigate here.
-
-            navigate('/purchasing/receipts');
+            // Stay for inspection entry when lines went to quarantine
+            const { count } = await supabase
+                .from('grn_lines')
+                .select('id', { count: 'exact', head: true })
+                .eq('grn_id', grn.id)
+                .eq('inspection_status', 'pending');
+
+            if (count && count > 0) {
+                toast({ title: "Awaiting inspection", description: `${count} line(s) received into quarantine. Record the inspection below.` });
+            } else {
+                navigate('/purchasing/receipts');
+            }
         } catch (err: any) {
             console.error(err);
             // Error toast handled by hook
@@ -180,7 +194,8 @@ export default function ReceiveGoods() {
                                 <ul className="list-disc pl-4 space-y-1 text-muted-foreground">
                                     <li>Verify physical counts match receipt quantity.</li>
                                     <li>Items will be added to <strong>Warehouse {warehouseId}</strong>. in {companyId}</li>
-                                    <li>Inventory levels will update immediately.</li>
+                                    <li>Inventory levels will update immediately, except fabric and trims requiring inspection.</li>
+                                    <li>Those go to the quarantine bin until accepted below; rejected quantity is returned to the vendor.</li>
                                 </ul>
                             </div>
 
@@ -204,6 +219,8 @@ export default function ReceiveGoods() {
                         </CardContent>
                     </Card>
                 </div>
+
+                <GRNInspectionCard poId={order.id} />
             </div>
         </AppLayout>
     );
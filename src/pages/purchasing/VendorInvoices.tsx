@@ -6,7 +6,7 @@ import { Input } from '@/components/ui/input';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { useVendorInvoices, usePayVendorInvoice, useCreateVendorInvoice } from '@/hooks/useInvoicing';
+import { useVendorInvoices, usePayVendorInvoice, useCreateVendorInvoice, useInvoiceMatchExceptions, useResolveMatchException } from '@/hooks/useInvoicing';
 import { useApp } from '@/contexts/AppContext';
 import { formatCurrency, formatDate } from '@/lib/utils';
 import { Plus, Search, FileText, CreditCard, CheckCircle, AlertCircle } from 'lucide-react';
@@ -16,15 +16,25 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useVendors } from '@/hooks/useMasterData';
 import { useAccountingPeriods } from '@/hooks/useAccounting';
+import { MatchExceptionType } from '@/types/purchasing';
+
+const EXCEPTION_LABELS: Record<MatchExceptionType, string> = {
+    QTY_OVER_RECEIVED: 'Qty over received',
+    QTY_OVER_ORDERED: 'Qty over ordered',
+    PRICE: 'Price variance',
+    NO_REFERENCE: 'No PO / GRN',
+};
 
 export default function VendorInvoices() {
     const { companyId } = useApp();
     const { data: invoices, isLoading } = useVendorInvoices(companyId);
     const { data: vendors } = useVendors(companyId);
     const { data: periods } = useAccountingPeriods(companyId);
+    const { data: matchExceptions } = useInvoiceMatchExceptions(companyId);
 
     const createInvoice = useCreateVendorInvoice();
     const payInvoice = usePayVendorInvoice();
+    const resolveException = useResolveMatchException();
 
     const [searchTerm, setSearchTerm] = useState('');
     const [isPayDialogOpen, setIsPayDialogOpen] = useState(false);
@@ -115,6 +125,84 @@ export default function VendorInvoices() {
                     />
                 </div>
 
+                {matchExceptions && matchExceptions.length > 0 && (
+                    <Card className="border-amber-200">
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <AlertCircle className="h-5 w-5 text-amber-600" />
+                                Match Exceptions
+                            </CardTitle>
+                            <CardDescription>
+                                Invoice lines outside the PO / receipt tolerance. Approve to allow posting; approved price differences go to purchase price variance.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="p-0">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>Invoice #</TableHead>
+                                        <TableHead>Vendor</TableHead>
+                                        <TableHead>Material</TableHead>
+                                        <TableHead>Exception</TableHead>
+                                        <TableHead className="text-right">Expected</TableHead>
+                                        <TableHead className="text-right">Invoiced</TableHead>
+                                        <TableHead className="text-right">Variance</TableHead>
+                                        <TableHead className="text-right">Actions</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {matchExceptions.map((exception) => {
+                                        const isPrice = exception.exception_type === 'PRICE';
+                                        return (
+                                            <TableRow key={exception.id}>
+                                                <TableCell className="font-mono">{exception.invoice_number}</TableCell>
+                                                <TableCell>{exception.vendor_name}</TableCell>
+                                                <TableCell>{exception.material_code} - {exception.material_name}</TableCell>
+                                                <TableCell>
+                                                    <Badge variant="outline">{EXCEPTION_LABELS[exception.exception_type]}</Badge>
+                                                </TableCell>
+                                                <TableCell className="text-right">
+                                                    {exception.expected_value === null ? '-' : isPrice ? formatCurrency(exception.expected_value) : exception.expected_value}
+                                                </TableCell>
+                                                <TableCell className="text-right">
+                                                    {isPrice ? formatCurrency(exception.actual_value) : exception.actual_value}
+                                                </TableCell>
+                                                <TableCell className="text-right font-medium">
+                                                    {formatCurrency(exception.variance_amount)}
+                                                    {exception.variance_pct !== null && (
+                                                        <span className="text-muted-foreground text-xs ml-1">
+                                                            ({exception.variance_pct}% / tol. {exception.tolerance_pct}%)
+                                                        </span>
+                                                    )}
+                                                </TableCell>
+                                                <TableCell className="text-right space-x-2">
+                                                    <Button
+                                                        size="sm"
+                                                        variant="outline"
+                                                        disabled={resolveException.isPending}
+                                                        onClick={() => resolveException.mutate({ id: exception.id, status: 'approved' })}
+                                                    >
+                                                        <CheckCircle className="mr-2 h-3 w-3" />
+                                                        Approve
+                                                    </Button>
+                                                    <Button
+                                                        size="sm"
+                                                        variant="ghost"
+                                                        disabled={resolveException.isPending}
+                                                        onClick={() => resolveException.mutate({ id: exception.id, status: 'rejected' })}
+                                                    >
+                                                        Reject
+                                                    </Button>
+                                                </TableCell>
+                                            </TableRow>
+                                        );
+                                    })}
+                                </TableBody>
+                            </Table>
+                        </CardContent>
+                    </Card>
+                )}
+
                 <Card>
                     <CardContent className="p-0">
                         {!filteredInvoices || filteredInvoices.length === 0 ? (
@@ -153,6 +241,9 @@ export default function VendorInvoices() {
                                                 <Badge variant="secondary" className={getStatusColor(inv.status)}>
                                                     {inv.status.replace('_', ' ')}
                                                 </Badge>
+                                                {inv.status === 'draft' && inv.match_status === 'exception' && (
+                                                    <Badge variant="outline" className="ml-2 border-amber-300 text-amber-700">match exception</Badge>
+                                                )}
                                             </TableCell>
                                             <TableCell className="text-right">
                                                 {inv.amount_outstanding > 0 && inv.status !== 'draft' && (
@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format, startOfMonth, subMonths } from 'date-fns';
+import { DateRange } from 'react-day-picker';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { DatePickerWithRange } from '@/components/ui/date-range-picker';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { TableSkeleton } from '@/components/ui/table-skeleton';
+import { EmptyState } from '@/components/ui/empty-state';
+import { ErrorState } from '@/components/ui/error-state';
+import { Award, ExternalLink } from 'lucide-react';
+import { useApp } from '@/contexts/AppContext';
+import { useVendorScorecardRanking } from '@/hooks/usePurchasing';
+import { VendorScorecardCard } from '@/components/purchasing/VendorScorecardCard';
+import { formatPct, scoreVariant } from '@/lib/scorecard';
+
+export default function VendorScorecards() {
+    const navigate = useNavigate();
+    const { companyId } = useApp();
+    const [dateRange, setDateRange] = useState<DateRange | undefined>({
+        from: startOfMonth(subMonths(new Date(), 5)),
+        to: new Date(),
+    });
+    const [selectedVendorId, setSelectedVendorId] = useState<string | null>(null);
+
+    const from = dateRange?.from ? format(dateRange.from, 'yyyy-MM-dd') : undefined;
+    const to = dateRange?.to ? format(dateRange.to, 'yyyy-MM-dd') : undefined;
+
+    const { data: ranking, isLoading, error, refetch } = useVendorScorecardRanking(companyId, from, to);
+
+    return (
+        <AppLayout>
+            <div className="space-y-6 animate-fade-in">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h1 className="text-3xl font-bold tracking-tight">Vendor Scorecards</h1>
+                        <p className="text-muted-foreground">
+                            Rank suppliers on delivery, fill rate, quality, returns and price
+                        </p>
+                    </div>
+                    <DatePickerWithRange date={dateRange} setDate={setDateRange} />
+                </div>
+
+                <Card className="shadow-card">
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                            <Award className="h-5 w-5 text-primary" />
+                            Ranking
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        {isLoading ? (
+                            <TableSkeleton rows={5} columns={10} />
+                        ) : error ? (
+                            <ErrorState title="Failed to load scorecards" message={error.message} onRetry={() => refetch()} />
+                        ) : !ranking || ranking.length === 0 ? (
+                            <EmptyState
+                                icon={Award}
+                                title="No vendor activity"
+                                description="Scorecards are built from receipts, purchase orders, invoices and returns in the selected period."
+                                action={null}
+                            />
+                        ) : (
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead className="w-12">#</TableHead>
+                                        <TableHead>Vendor</TableHead>
+                                        <TableHead className="text-right">Receipts</TableHead>
+                                        <TableHead className="text-right">On-time</TableHead>
+                                        <TableHead className="text-right">Fill Rate</TableHead>
+                                        <TableHead className="text-right">QC Rejected</TableHead>
+                                        <TableHead className="text-right">Returned</TableHead>
+                                        <TableHead className="text-right">Price vs PO</TableHead>
+                                        <TableHead className="text-right">Score</TableHead>
+                                        <TableHead className="w-12"></TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {ranking.map(row => (
+                                        <TableRow
+                                            key={row.vendor_id}
+                                            className="cursor-pointer"
+                                            data-state={row.vendor_id === selectedVendorId ? 'selected' : undefined}
+                                            onClick={() => setSelectedVendorId(row.vendor_id)}
+                                        >
+                                            <TableCell className="font-medium">{row.rank}</TableCell>
+                                            <TableCell>
+                                                <div className="font-medium">{row.vendor_name}</div>
+                                                <div className="text-xs text-muted-foreground">{row.vendor_code}</div>
+                                            </TableCell>
+                                            <TableCell className="text-right">{row.receipt_count}</TableCell>
+                                            <TableCell className="text-right">{formatPct(row.on_time_pct)}</TableCell>
+                                            <TableCell className="text-right">{formatPct(row.fill_rate_pct)}</TableCell>
+                                            <TableCell className="text-right">{formatPct(row.reject_pct)}</TableCell>
+                                            <TableCell className="text-right">{formatPct(row.return_pct)}</TableCell>
+                                            <TableCell className="text-right">{formatPct(row.price_variance_pct)}</TableCell>
+                                            <TableCell className="text-right">
+                                                <Badge variant={scoreVariant(row.score)}>{row.score ?? '—'}</Badge>
+                                            </TableCell>
+                                            <TableCell>
+                                                <Button
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    onClick={e => {
+                                                        e.stopPropagation();
+                                                        navigate(`/vendors/${row.vendor_id}`);
+                                                    }}
+                                                >
+                                                    <ExternalLink className="h-4 w-4" />
+                                                </Button>
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        )}
+                    </CardContent>
+                </Card>
+
+                {selectedVendorId && <VendorScorecardCard vendorId={selectedVendorId} />}
+            </div>
+        </AppLayout>
+    );
+}
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { SalesInvoice } from '@/types/sales';
+import { SalesInvoice, SalesInvoiceTaxInvoice } from '@/types/sales';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -108,6 +108,7 @@ export default function SalesInvoices() {
                                         <TableHead className="text-right">Received</TableHead>
                                         <TableHead className="text-right">Due</TableHead>
                                         <TableHead>Status</TableHead>
+                                        <TableHead>Faktur Pajak</TableHead>
                                         <TableHead className="text-right">Actions</TableHead>
                                     </TableRow>
                                 </TableHeader>
@@ -126,6 +127,9 @@ export default function SalesInvoices() {
                                                     {(inv.payment_status || inv.status).toUpperCase()}
                                                 </Badge>
                                             </TableCell>
+                                            <TableCell>
+                                                <TaxInvoiceCell taxInvoices={inv.tax_invoices} />
+                                            </TableCell>
                                             <TableCell className="text-right">
                                                 {inv.amount_due > 0 && inv.status === 'posted' && (
                                                     <Button size="sm" onClick={() => {
@@ -182,3 +186,24 @@ export default function SalesInvoices() {
         </AppLayout>
     );
 }
+
+// Live faktur pajak of an invoice: NSFP as printed (010.25.00000001), pengganti marked with their sequence
+function TaxInvoiceCell({ taxInvoices }: { taxInvoices?: SalesInvoiceTaxInvoice[] }) {
+    const taxInvoice = taxInvoices?.find(ti => ti.status !== 'replaced');
+    if (!taxInvoice) return <span className="text-muted-foreground">-</span>;
+
+    const nsfp = taxInvoice.nsfp;
+    return (
+        <div className="flex items-center gap-2">
+            {nsfp && (
+                <span className="font-mono text-xs">
+                    {nsfp.slice(0, 3)}.{nsfp.slice(3, 5)}.{nsfp.slice(5)}
+                    {taxInvoice.replacement_seq > 0 && ` (P${taxInvoice.replacement_seq})`}
+                </span>
+            )}
+            <Badge variant={taxInvoice.status === 'exported' ? 'secondary' : 'outline'}>
+                {taxInvoice.status === 'exported' ? 'Exported' : 'Pending'}
+            </Badge>
+        </div>
+    );
+}
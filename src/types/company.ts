@@ -5,6 +5,8 @@ export interface CompanySettings {
         analytics?: boolean;
         manufacturing?: boolean;
     };
+    /** How inventory outflows are costed (see 070_fifo_cost_layers.sql); missing = average */
+    inventory_valuation_method?: 'average' | 'fifo';
     [key: string]: any;
 }
 
@@ -67,3 +67,21 @@ export interface JournalLine {
         name: string;
     };
 }
+
+// ==================== TAX ====================
+
+export type TaxType = 'PPN' | 'PPH';
+export type TaxCategory = 'STANDARD' | 'ZERO_RATED' | 'EXEMPT' | 'WITHHOLDING';
+
+export interface TaxCode {
+    id: string;
+    company_id: string;
+    code: string;
+    name: string;
+    tax_type: TaxType;
+    category: TaxCategory;
+    rate: number;
+    dpp_factor: number;
+    description?: string;
+    is_active: boolean;
+}
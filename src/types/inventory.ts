@@ -41,6 +41,8 @@ export interface Bin {
   code: string;
   name: string;
   capacity?: number;
+  /** Holds returned or not yet inspected stock, not available for use */
+  is_quarantine?: boolean;
   is_active: boolean;
   created_at: string;
 }
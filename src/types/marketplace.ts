@@ -0,0 +1,104 @@
+// Based on 027_marketplace_integration.sql, 067_marketplace_sku_mappings.sql and 068_marketplace_stock_push.sql
+export type MarketplacePlatform = 'Shopee' | 'Tokopedia' | 'TikTok' | 'Lazada';
+export type MarketplaceSyncStatus = 'pending' | 'synced' | 'failed' | 'ignored';
+
+export interface MarketplaceAccount {
+    id: string;
+    company_id: string;
+    platform: MarketplacePlatform;
+    account_name: string;
+    shop_id: string;
+    warehouse_id?: string;
+    is_active: boolean;
+    last_order_sync_at?: string;
+    last_sync_error?: string | null;
+    auto_sync_inventory?: boolean;
+    stock_safety_buffer?: number;
+    last_stock_push_at?: string | null;
+}
+
+export interface MarketplaceOrder {
+    id: string;
+    account_id: string;
+    external_order_id: string;
+    external_status: string;
+    mapped_status: string;
+    order_date: string;
+    customer_name: string;
+    total_amount: number;
+    sync_status: MarketplaceSyncStatus;
+    sync_error?: string | null;
+    so_id?: string | null;
+    account?: {
+        platform: MarketplacePlatform;
+        account_name: string;
+    };
+}
+
+export interface MarketplaceSKUMapping {
+    id: string;
+    account_id: string;
+    external_sku: string;
+    listing_name?: string;
+    product_variant_id: string;
+    quantity: number;
+    is_active: boolean;
+    variant?: {
+        sku: string;
+        product?: { name: string };
+    };
+}
+
+export interface UnmappedMarketplaceItem {
+    company_id: string;
+    account_id: string;
+    platform: MarketplacePlatform;
+    account_name: string;
+    external_sku: string;
+    listing_name: string;
+    order_count: number;
+    total_quantity: number;
+    first_order_date: string;
+}
+
+export interface SKUMappingPayload {
+    account_id: string;
+    external_sku: string;
+    listing_name?: string;
+    components: { product_variant_id: string; quantity: number }[];
+}
+
+export type StockReconciliationStatus = 'in_sync' | 'mismatch' | 'unknown' | 'unmapped';
+
+export interface MarketplaceStockReconciliation {
+    account_id: string;
+    platform: MarketplacePlatform;
+    account_name: string;
+    listing_id: string;
+    external_item_id: string;
+    external_sku: string | null;
+    listing_name: string | null;
+    marketplace_qty: number | null;
+    last_pushed_at: string | null;
+    on_hand: number | null;
+    reserved: number | null;
+    safety_buffer: number | null;
+    available: number | null;
+    difference: number | null;
+    reconciliation_status: StockReconciliationStatus;
+}
+
+export interface MarketplaceStockSyncLog {
+    id: string;
+    account_id: string;
+    external_sku: string | null;
+    on_hand: number;
+    reserved: number;
+    safety_buffer: number;
+    previous_qty: number | null;
+    pushed_qty: number;
+    status: 'success' | 'failed';
+    error_message?: string | null;
+    trigger_source: 'manual' | 'ledger' | 'scheduled';
+    created_at: string;
+}
@@ -12,6 +12,9 @@ export interface Vendor {
     address?: string;
     city?: string;
     tax_id?: string;
+    tax_code_id?: string;
+    withholding_tax_code_id?: string;
+    withholding_object_code?: string;
     payment_terms: PaymentTerm;
     custom_payment_days?: number;
     credit_limit: number;
@@ -32,6 +35,8 @@ export interface Customer {
     address?: string;
     city?: string;
     tax_id?: string;
+    tax_id_type?: 'NPWP' | 'NIK' | 'PASSPORT' | 'OTHER';
+    tax_code_id?: string;
     payment_terms: PaymentTerm;
     custom_payment_days?: number;
     credit_limit: number;
@@ -43,3 +48,34 @@ export interface Customer {
     created_at: string;
     updated_at?: string;
 }
+
+/** Scorecard metrics; percentages are null when the vendor has no data for them */
+export interface VendorScorecardMetrics {
+    on_time_pct: number | null;
+    fill_rate_pct: number | null;
+    reject_pct: number | null;
+    return_pct: number | null;
+    price_variance_pct: number | null;
+    score: number | null;
+}
+
+export interface VendorScorecardMonth extends VendorScorecardMetrics {
+    company_id: string;
+    vendor_id: string;
+    vendor_code: string;
+    vendor_name: string;
+    month: string;
+    receipt_count: number;
+    qty_ordered: number;
+    qty_received: number;
+    qty_rejected: number;
+    qty_returned: number;
+}
+
+export interface VendorScorecardRank extends VendorScorecardMetrics {
+    rank: number;
+    vendor_id: string;
+    vendor_code: string;
+    vendor_name: string;
+    receipt_count: number;
+}
@@ -10,6 +10,8 @@ export interface BOMHeader {
     is_active: boolean;
     base_qty: number;
     yield_percentage: number;
+    /** Non-stocked sub-assembly, blown through into the parent on explosion */
+    is_phantom?: boolean;
     notes?: string;
     created_at: string;
     product?: {
@@ -41,6 +43,81 @@ export interface BOMLine {
     };
 }
 
+// Based on 083_multi_level_bom.sql (explode_bom)
+export interface BOMExplosionRow {
+    level_num: number;
+    sort_path: string;
+    bom_id: string;
+    bom_line_id: string;
+    parent_product_id: string;
+    material_id: string | null;
+    material_code: string | null;
+    material_name: string | null;
+    component_product_id: string | null;
+    product_code: string | null;
+    product_name: string | null;
+    qty_per: number;
+    total_qty: number;
+    scrap_percentage: number;
+    stage: WipStage | null;
+    uom: string | null;
+    component_bom_id: string | null;
+    is_phantom: boolean;
+    /** Consumed by the order of the exploded product */
+    is_requirement: boolean;
+    /** Quantity or material replaced by a size rule / color substitution */
+    is_variant_specific: boolean;
+}
+
+// Based on 084_variant_matrix_bom.sql
+export interface BOMSizeRule {
+    id: string;
+    bom_line_id: string;
+    size_id: string;
+    qty_per: number;
+}
+
+export interface BOMColorSubstitution {
+    id: string;
+    bom_line_id: string;
+    color_id: string;
+    material_id: string;
+}
+
+export interface ProductionOrderVariant {
+    product_variant_id: string;
+    qty_planned: number;
+}
+
+/** Variant of a product with its size / color codes, for the order mix */
+export interface ProductVariantOption {
+    id: string;
+    sku: string;
+    size_id: string | null;
+    color_id: string | null;
+    size_code: string | null;
+    color_code: string | null;
+}
+
+// Based on 084_variant_matrix_bom.sql (explode_production_order)
+export interface VariantMaterialNeed {
+    product_variant_id: string | null;
+    sku: string | null;
+    size_code: string | null;
+    color_code: string | null;
+    variant_qty: number;
+    material_id: string | null;
+    material_code: string | null;
+    material_name: string | null;
+    component_product_id: string | null;
+    product_code: string | null;
+    product_name: string | null;
+    stage: WipStage | null;
+    uom: string | null;
+    total_qty: number;
+    is_variant_specific: boolean;
+}
+
 export interface ProductionOrder {
     id: string;
     company_id: string;
@@ -86,3 +163,150 @@ export interface ProductionReservation {
     qty_outstanding: number;
     unit_cost: number;
 }
+
+// Based on 085_mrp_runs.sql
+export type MRPReviewStatus = 'open' | 'done' | 'dismissed';
+export type MRPAction = 'expedite' | 'defer' | 'cancel';
+
+interface MRPItemRef {
+    code: string;
+    name: string;
+    unit_of_measure?: string;
+}
+
+export interface MRPRun {
+    id: string;
+    company_id: string;
+    run_date: string;
+    tolerance_days: number;
+    created_at: string;
+}
+
+export interface MRPRequirement {
+    id: string;
+    material_id: string | null;
+    product_id: string | null;
+    required_date: string;
+    qty: number;
+    source_type: 'sales_order' | 'production_order' | 'planned_order' | 'safety_stock';
+    source_number: string | null;
+    material?: MRPItemRef | null;
+    product?: MRPItemRef | null;
+}
+
+export interface MRPPlannedOrder {
+    id: string;
+    order_type: 'buy' | 'make';
+    material_id: string | null;
+    product_id: string | null;
+    qty: number;
+    net_requirement: number;
+    release_date: string;
+    due_date: string;
+    is_late: boolean;
+    status: MRPReviewStatus;
+    material?: MRPItemRef | null;
+    product?: MRPItemRef | null;
+    vendor?: { code: string; name: string } | null;
+}
+
+export interface MRPScheduledReceipt {
+    id: string;
+    material_id: string | null;
+    product_id: string | null;
+    source_type: 'purchase_order' | 'production_order';
+    document_number: string;
+    receipt_date: string;
+    qty: number;
+    qty_needed: number;
+    needed_date: string | null;
+    action: MRPAction | null;
+    action_status: MRPReviewStatus | null;
+    material?: MRPItemRef | null;
+    product?: MRPItemRef | null;
+}
+
+export interface MRPRunDetail extends MRPRun {
+    requirements: MRPRequirement[];
+    planned_orders: MRPPlannedOrder[];
+    receipts: MRPScheduledReceipt[];
+}
+
+// Based on 086_work_center_scheduling.sql
+export type ScheduleDirection = 'forward' | 'backward';
+
+export interface WorkCenterLoadDay {
+    work_center_id: string;
+    work_center_code: string;
+    work_center_name: string;
+    load_date: string;
+    capacity_minutes: number;
+    loaded_minutes: number;
+    is_overloaded: boolean;
+}
+
+/** wip_stage of work orders and routing steps */
+export type WorkOrderStage = 'CUT' | 'SEW' | 'FINISH';
+
+export interface ScheduledWorkOrder {
+    id: string;
+    wo_number: string;
+    stage: WorkOrderStage;
+    status: 'pending' | 'in_progress';
+    work_center_id: string | null;
+    work_center_code: string | null;
+    work_center_name: string | null;
+    planned_minutes: number;
+    scheduled_start_date: string | null;
+    scheduled_end_date: string | null;
+    is_schedule_locked: boolean;
+    production_order_id: string;
+    po_number: string;
+    priority: number;
+    due_date: string | null;
+    product_code: string;
+    is_late: boolean | null;
+}
+
+export interface WorkCenterCalendarDay {
+    id: string;
+    work_center_id: string | null;
+    calendar_date: string;
+    capacity_hours: number;
+    reason: string | null;
+}
+
+// Based on 087_bom_routings.sql
+export interface BOMRoutingStep {
+    id: string;
+    bom_id: string;
+    /** Steps start once every lower sequence is completed */
+    sequence: number;
+    operation_id: string;
+    /** NULL = work center of the operation */
+    work_center_id: string | null;
+    stage: WorkOrderStage;
+    setup_minutes: number;
+    /** Per unit; NULL = operation standard time */
+    run_minutes: number | null;
+    notes: string | null;
+    operation?: { name: string; standard_time_minutes: number; work_center_id: string | null };
+    work_center?: { code: string; name: string } | null;
+}
+
+export interface ProductionWorkOrder {
+    id: string;
+    wo_number: string;
+    production_order_id: string;
+    stage: WorkOrderStage;
+    status: 'pending' | 'in_progress' | 'completed' | 'cancelled';
+    qty_started: number;
+    qty_completed: number;
+    qty_rejected: number;
+    routing_sequence: number | null;
+    planned_minutes: number;
+    scheduled_start_date: string | null;
+    scheduled_end_date: string | null;
+    operation?: { name: string } | null;
+    work_center?: { code: string; name: string } | null;
+}
@@ -11,6 +11,8 @@ export interface PurchaseOrderLine {
     qty_invoiced: number;
     unit_price: number;
     line_total: number;
+    /** Vendor price list price for the ordered quantity */
+    contract_price?: number | null;
     material?: {
         name: string;
         code: string;
@@ -27,6 +29,9 @@ export interface PurchaseOrder {
     warehouse_id: string;
     period_id: string;
     status: POStatus;
+    currency: string;
+    /** Base currency (IDR) per unit of `currency` */
+    exchange_rate: number;
     total_amount: number;
     delivery_date?: string;
     notes?: string;
@@ -50,6 +55,10 @@ export interface GoodsReceiptLine {
     line_total: number;
     qty_accepted?: number;
     qty_rejected?: number;
+    qc_bin_id?: string;
+    inspection_status?: GRNInspectionStatus;
+    defect_reason?: GRNDefectReason;
+    inspection_notes?: string;
     notes?: string;
     material?: {
         name: string;
@@ -76,6 +85,55 @@ export interface GoodsReceiptNote {
     lines?: GoodsReceiptLine[];
 }
 
+// Based on 082_grn_quality_inspection.sql
+export type GRNInspectionStatus = 'not_required' | 'pending' | 'accepted' | 'partial' | 'rejected';
+export type GRNDefectReason = 'SHADE_VARIATION' | 'HOLES' | 'STAINS' | 'WIDTH_SHORT' | 'GSM_OFF' | 'WRONG_ITEM' | 'OTHER';
+
+export interface GRNInspectionQueueItem {
+    company_id: string;
+    grn_id: string;
+    grn_number: string;
+    grn_date: string;
+    po_id: string | null;
+    warehouse_id: string;
+    vendor_id: string;
+    vendor_name: string;
+    grn_line_id: string;
+    material_id: string;
+    material_code: string;
+    material_name: string;
+    unit_of_measure: string;
+    qty_received: number;
+    qc_bin_id: string;
+    qc_bin_code: string;
+    bin_id: string;
+    bin_code: string;
+}
+
+export interface RecordGRNInspectionPayload {
+    grn_line_id: string;
+    qty_accepted: number;
+    qty_rejected: number;
+    defect_reason?: GRNDefectReason;
+    notes?: string;
+}
+
+/** Rejected quantity on a GRN line not yet on a purchase return */
+export interface GRNOpenRejection {
+    company_id: string;
+    grn_id: string;
+    grn_number: string;
+    po_id: string | null;
+    vendor_id: string;
+    grn_line_id: string;
+    material_id: string;
+    material_name: string;
+    qc_bin_id: string;
+    defect_reason?: GRNDefectReason;
+    qty_rejected: number;
+    qty_open: number;
+}
+
 export interface CreateGRNPayload {
     company_id: string;
     po_id: string;
@@ -94,3 +152,98 @@ export interface CreateGRNPayload {
         notes?: string;
     }[];
 }
+
+// Based on 072_invoice_three_way_match.sql
+export type MatchExceptionType = 'QTY_OVER_RECEIVED' | 'QTY_OVER_ORDERED' | 'PRICE' | 'NO_REFERENCE';
+
+export interface InvoiceMatchException {
+    id: string;
+    company_id: string;
+    invoice_id: string;
+    invoice_line_id: string;
+    exception_type: MatchExceptionType;
+    expected_value: number | null;
+    actual_value: number;
+    variance_amount: number;
+    variance_pct: number | null;
+    tolerance_pct: number | null;
+    status: 'pending' | 'approved' | 'rejected';
+    resolution_notes?: string | null;
+    invoice_number: string;
+    invoice_date: string;
+    vendor_name: string;
+    material_code: string;
+    material_name: string;
+    qty_invoiced: number;
+    unit_price: number;
+    created_at: string;
+}
+
+export type RequisitionStatus = 'draft' | 'submitted' | 'approved' | 'rejected' | 'converted' | 'cancelled';
+
+export interface PurchaseRequisitionLine {
+    id: string;
+    requisition_id: string;
+    line_number: number;
+    material_id?: string;
+    product_variant_id?: string;
+    qty_requested: number;
+    need_by_date?: string;
+    estimated_unit_price?: number;
+    estimated_total: number;
+    vendor_id?: string;
+    po_id?: string;
+    po_line_id?: string;
+    material?: {
+        name: string;
+        code: string;
+        unit_of_measure: string;
+    };
+    purchase_order?: {
+        po_number: string;
+    };
+}
+
+export interface PurchaseRequisition {
+    id: string;
+    company_id: string;
+    requisition_number: string;
+    requisition_date: string;
+    requested_by: string;
+    warehouse_id?: string;
+    need_by_date?: string;
+    status: RequisitionStatus;
+    estimated_total: number;
+    notes?: string;
+    lines?: PurchaseRequisitionLine[];
+    created_at: string;
+}
+
+/** Submitted requisition and the approval level it waits on */
+export interface RequisitionApprovalQueueItem {
+    requisition_id: string;
+    requisition_number: string;
+    estimated_total: number;
+    approval_level: number;
+    approver_role: string;
+}
+
+export interface VendorPriceBreak {
+    min_qty: number;
+    unit_price: number;
+}
+
+export interface VendorPriceList {
+    id: string;
+    vendor_id: string;
+    material_id: string;
+    vendor_material_code?: string;
+    currency: string;
+    unit_price: number;
+    min_order_qty: number;
+    lead_time_days: number;
+    price_tolerance_pct: number;
+    effective_from: string;
+    effective_to?: string;
+    breaks: VendorPriceBreak[];
+}
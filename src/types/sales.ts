@@ -103,6 +103,18 @@ export interface SalesInvoice {
         email?: string;
     };
     lines?: SalesInvoiceLine[];
+    /** Faktur pajak history; the live one is the entry not marked replaced */
+    tax_invoices?: SalesInvoiceTaxInvoice[];
+}
+
+export type TaxInvoiceStatus = 'pending' | 'exported' | 'replaced';
+
+export interface SalesInvoiceTaxInvoice {
+    id: string;
+    nsfp?: string;
+    replacement_seq: number;
+    status: TaxInvoiceStatus;
+    exported_at?: string;
 }
 
 export interface SalesInvoiceLine {